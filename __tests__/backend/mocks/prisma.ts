@@ -38,16 +38,22 @@ export const prismaMock = {
   notificationHistory: createModelMock(),
   userPreference: createModelMock(),
   refreshToken: createModelMock(),
+  session: createModelMock(),
   waitlistEntry: createModelMock(),
   activitySnapshot: createModelMock(),
   subscription: createModelMock(),
   familyShare: createModelMock(),
+  familyMember: createModelMock(),
+  twoFactorCredential: createModelMock(),
+  activityShare: createModelMock(),
   adminUser: createModelMock(),
   vendorUser: createModelMock(),
   vendorActivity: createModelMock(),
   importJob: createModelMock(),
   featuredPartner: createModelMock(),
   partnerAnalytics: createModelMock(),
+  conversation: createModelMock(),
+  conversationMessage: createModelMock(),
 
   // Transaction support
   $transaction: jest.fn((callback) => {
@@ -0,0 +1,90 @@
+/**
+ * Family Routes Tests
+ * Tests for inviting co-parents to a family plan and accepting the invitation
+ */
+import request from 'supertest';
+import express from 'express';
+import { prismaMock, resetPrismaMocks } from '../mocks/prisma';
+
+jest.mock('../../../server/src/lib/prisma', () => ({
+  prisma: prismaMock,
+}));
+
+// Plain functions: the backend config resets jest.fn implementations before each test.
+// The signed-in user comes from a test header.
+jest.mock('../../../server/src/middleware/auth', () => ({
+  verifyToken: (req: any, res: any, next: any) => {
+    req.user = { id: req.headers['x-test-user'], email: 'test@example.com' };
+    next();
+  },
+  authLimiter: (req: any, res: any, next: any) => next(),
+}));
+
+jest.mock('../../../server/src/utils/emailService', () => ({
+  emailService: {
+    sendFamilyInvitation: async () => undefined,
+  },
+}));
+
+jest.mock('../../../server/src/services/subscriptionService', () => ({
+  subscriptionService: {
+    isPaidAccess: () => true,
+    getEntitlements: async () => [],
+  },
+}));
+
+import familyRouter from '../../../server/src/routes/family';
+
+const app = express();
+app.use(express.json());
+app.use('/api/family', familyRouter);
+
+describe('Family Routes', () => {
+  afterEach(() => {
+    resetPrismaMocks();
+  });
+
+  it('should let a co-parent with a dotted, tagged Gmail address accept their invitation', async () => {
+    const email = 'John.Doe+kids@gmail.com';
+
+    // Invite
+    prismaMock.user.findUnique.mockResolvedValueOnce({ id: 'owner-1', name: 'Sam', email: 'sam@example.com' });
+    prismaMock.familyMember.findFirst.mockResolvedValueOnce(null);
+    prismaMock.subscription.findUnique.mockResolvedValue({ plan: { familySeats: 3 } });
+    prismaMock.familyMember.findMany.mockResolvedValueOnce([]);
+    prismaMock.familyMember.upsert.mockImplementationOnce(args => Promise.resolve({
+      id: 'member-1',
+      status: 'pending',
+      ...args.create,
+    }));
+
+    const invite = await request(app)
+      .post('/api/family/members')
+      .set('x-test-user', 'owner-1')
+      .send({ email });
+
+    expect(invite.status).toBe(201);
+    const invitation = prismaMock.familyMember.upsert.mock.calls[0][0].create;
+    expect(invitation.email).toBe('john.doe+kids@gmail.com');
+
+    // Accept, signed in with the same address
+    prismaMock.familyMember.findUnique.mockResolvedValueOnce({
+      ...invitation,
+      id: 'member-1',
+      status: 'pending',
+      owner: { id: 'owner-1', name: 'Sam' },
+    });
+    prismaMock.user.findUnique.mockResolvedValueOnce({ id: 'user-2', email });
+    prismaMock.familyMember.findFirst.mockResolvedValueOnce(null);
+    prismaMock.familyMember.count.mockResolvedValue(0);
+    prismaMock.familyMember.update.mockResolvedValueOnce({ id: 'member-1', status: 'active' });
+
+    const join = await request(app)
+      .post('/api/family/join')
+      .set('x-test-user', 'user-2')
+      .send({ token: invitation.token });
+
+    expect(join.status).toBe(200);
+    expect(join.body.ownerName).toBe('Sam');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Conversation Service Tests
+ * Tests for AI chat persistence, ownership scoping and retention
+ */
+import { prismaMock, resetPrismaMocks } from '../../mocks/prisma';
+
+jest.mock('../../../../server/src/lib/prisma', () => ({
+  prisma: prismaMock,
+}));
+
+import {
+  buildConversationTitle,
+  getConversationExpiry,
+  getConversation,
+  deleteConversation,
+  renameConversation,
+  saveTurn,
+} from '../../../../server/src/ai/services/conversationService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Conversation Service', () => {
+  afterEach(() => {
+    resetPrismaMocks();
+  });
+
+  describe('buildConversationTitle', () => {
+    it('should use short messages as-is', () => {
+      expect(buildConversationTitle('  Swimming for my\n6 year old ')).toBe('Swimming for my 6 year old');
+    });
+
+    it('should truncate long messages on a word boundary', () => {
+      const title = buildConversationTitle(
+        'Looking for weekend art classes near Kitsilano for two kids aged 7 and 9 this spring'
+      );
+      expect(title.length).toBeLessThanOrEqual(60);
+      expect(title.endsWith('…')).toBe(true);
+      expect(title).toBe('Looking for weekend art classes near Kitsilano for two kids…');
+    });
+  });
+
+  describe('getConversationExpiry', () => {
+    it('should keep pro history longer than free history', () => {
+      const now = new Date('2025-09-01T00:00:00Z');
+      const free = getConversationExpiry(false, now);
+      const pro = getConversationExpiry(true, now);
+
+      expect(free.getTime() - now.getTime()).toBe(7 * DAY_MS);
+      expect(pro.getTime() - now.getTime()).toBe(90 * DAY_MS);
+    });
+  });
+
+  describe('getConversation', () => {
+    it('should scope lookups to the owner and unexpired conversations', async () => {
+      prismaMock.conversation.findFirst.mockResolvedValueOnce(null);
+
+      const result = await getConversation('user-1', 'conv-1');
+
+      expect(result).toBeNull();
+      const { where } = prismaMock.conversation.findFirst.mock.calls[0][0];
+      expect(where.id).toBe('conv-1');
+      expect(where.userId).toBe('user-1');
+      expect(where.expiresAt.gt).toBeInstanceOf(Date);
+    });
+
+    it('should map stored messages and state', async () => {
+      const createdAt = new Date('2025-09-01T10:00:00Z');
+      prismaMock.conversation.findFirst.mockResolvedValueOnce({
+        id: 'conv-1',
+        userId: 'user-1',
+        title: 'Swimming',
+        turnsUsed: 1,
+        state: { parameters: { extractedAge: 6 } },
+        lastMessageAt: createdAt,
+        expiresAt: new Date(createdAt.getTime() + 7 * DAY_MS),
+        createdAt,
+        updatedAt: createdAt,
+        messages: [
+          { id: 'm1', conversationId: 'conv-1', role: 'user', content: 'Swimming?', activities: null, toolsUsed: [], createdAt },
+          { id: 'm2', conversationId: 'conv-1', role: 'assistant', content: 'Here you go', activities: [{ id: 'a1' }], toolsUsed: ['search_activities'], createdAt },
+        ],
+      });
+
+      const result = await getConversation('user-1', 'conv-1');
+
+      expect(result?.state).toEqual({ parameters: { extractedAge: 6 } });
+      expect(result?.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+      expect(result?.messages[0].activities).toBeNull();
+      expect(result?.messages[1].activities).toEqual([{ id: 'a1' }]);
+    });
+  });
+
+  describe('saveTurn', () => {
+    it('should write messages in order and extend the expiry', async () => {
+      prismaMock.conversationMessage.create.mockResolvedValue({});
+      prismaMock.conversation.update.mockResolvedValueOnce({});
+
+      await saveTurn('conv-1', {
+        messages: [
+          { role: 'user', content: 'Swimming?' },
+          { role: 'assistant', content: 'Here you go', activities: [{ id: 'a1' }], toolsUsed: ['search_activities'] },
+        ],
+        turnsUsed: 2,
+        state: { parameters: {} },
+        isPro: true,
+      });
+
+      const [first, second] = prismaMock.conversationMessage.create.mock.calls.map((call: any[]) => call[0].data);
+      expect(first.role).toBe('user');
+      expect(second.createdAt.getTime()).toBeGreaterThan(first.createdAt.getTime());
+
+      const { data } = prismaMock.conversation.update.mock.calls[0][0];
+      expect(data.turnsUsed).toBe(2);
+      expect(data.expiresAt.getTime() - data.lastMessageAt.getTime()).toBe(90 * DAY_MS);
+    });
+  });
+
+  describe('ownership', () => {
+    it('should not delete another user\'s conversation', async () => {
+      prismaMock.conversation.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(deleteConversation('user-2', 'conv-1')).resolves.toBe(false);
+      expect(prismaMock.conversation.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'conv-1', userId: 'user-2' },
+      });
+    });
+
+    it('should not rename another user\'s conversation', async () => {
+      prismaMock.conversation.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(renameConversation('user-2', 'conv-1', 'Mine now')).resolves.toBeNull();
+      expect(prismaMock.conversation.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
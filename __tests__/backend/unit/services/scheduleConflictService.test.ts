@@ -0,0 +1,74 @@
+/**
+ * Schedule Conflict Service Tests
+ * Tests for which shared children's activities join the family schedule
+ */
+import { prismaMock, resetPrismaMocks } from '../../mocks/prisma';
+
+jest.mock('../../../../server/src/lib/prisma', () => ({
+  prisma: prismaMock,
+}));
+
+import { ScheduleConflictService } from '../../../../server/src/services/scheduleConflictService';
+
+const childActivity = (id: string, childId: string, status: string) => ({
+  id,
+  childId,
+  activityId: `activity-${id}`,
+  status,
+  startTime: null,
+  endTime: null,
+  scheduledDate: null,
+  child: { id: childId, name: `Child ${childId}`, userId: 'co-parent' },
+  activity: {
+    id: `activity-${id}`,
+    name: `Activity ${id}`,
+    locationId: null,
+    locationName: null,
+    location: null,
+    latitude: null,
+    longitude: null,
+    dateStart: null,
+    dateEnd: null,
+    dayOfWeek: [],
+    startTime: '4:00 pm',
+    endTime: '5:00 pm',
+    sessions: [],
+  },
+});
+
+const shareProfile = (childId: string, permissions: { canViewRegistered: boolean; canViewInterested: boolean }) => ({
+  childId,
+  ...permissions,
+});
+
+describe('ScheduleConflictService', () => {
+  const service = new ScheduleConflictService();
+
+  afterEach(() => {
+    resetPrismaMocks();
+  });
+
+  describe('getFamilySchedule', () => {
+    it('should gate shared registrations and plans by their own permissions', async () => {
+      prismaMock.activityShare.findMany.mockResolvedValue([
+        {
+          profiles: [
+            shareProfile('registered-only', { canViewRegistered: true, canViewInterested: false }),
+            shareProfile('interests-only', { canViewRegistered: false, canViewInterested: true }),
+          ],
+        },
+      ]);
+      prismaMock.childActivity.findMany.mockResolvedValue([
+        childActivity('a', 'registered-only', 'in_progress'),
+        childActivity('b', 'registered-only', 'planned'),
+        childActivity('c', 'interests-only', 'in_progress'),
+        childActivity('d', 'interests-only', 'planned'),
+        childActivity('e', 'own-child', 'planned'),
+      ]);
+
+      const schedule = await service.getFamilySchedule('user-1');
+
+      expect(schedule.map(item => item.id)).toEqual(['a', 'd', 'e']);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Session Service Tests
+ * Tests for tracking sign-ins, revoking them and alerting on new devices
+ */
+import { prismaMock, resetPrismaMocks } from '../../mocks/prisma';
+
+jest.mock('../../../../server/src/lib/prisma', () => ({
+  prisma: prismaMock,
+}));
+
+jest.mock('../../../../server/src/utils/emailService', () => ({
+  emailService: {
+    sendNewSignInEmail: jest.fn(),
+  },
+}));
+
+jest.mock('../../../../server/src/services/pushNotificationService', () => ({
+  pushNotificationService: {
+    sendNewSignInNotification: jest.fn(),
+  },
+}));
+
+import { sessionService } from '../../../../server/src/services/sessionService';
+import { tokenUtils } from '../../../../server/src/utils/tokenUtils';
+import { emailService } from '../../../../server/src/utils/emailService';
+import { pushNotificationService } from '../../../../server/src/services/pushNotificationService';
+
+interface StoredSession {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  revokedAt: Date | null;
+  lastAccessedAt: Date | null;
+}
+
+/**
+ * Keep sessions in memory and answer the queries the service makes
+ */
+const storeSessions = (initial: StoredSession[] = []) => {
+  const sessions = [...initial];
+
+  prismaMock.session.findUnique.mockImplementation(async ({ where }: any) => {
+    const { userId, refreshTokenHash } = where.userId_refreshTokenHash;
+    return sessions.find(s => s.userId === userId && s.refreshTokenHash === refreshTokenHash) ?? null;
+  });
+  prismaMock.session.create.mockImplementation(async ({ data }: any) => {
+    const session = { id: `session-${sessions.length + 1}`, revokedAt: null, ...data };
+    sessions.push(session);
+    return session;
+  });
+  prismaMock.session.update.mockImplementation(async ({ where }: any) =>
+    sessions.find(s => s.id === where.id)
+  );
+  prismaMock.session.count.mockImplementation(async ({ where }: any) =>
+    sessions.filter(s => s.userId === where.userId && s.id !== where.id.not).length
+  );
+  prismaMock.session.updateMany.mockImplementation(async ({ where, data }: any) => {
+    const matches = sessions.filter(s =>
+      s.userId === where.userId &&
+      s.revokedAt === null &&
+      (where.id === undefined || (typeof where.id === 'string' ? s.id === where.id : s.id !== where.id.not))
+    );
+    matches.forEach(s => { s.revokedAt = data.revokedAt; });
+    return { count: matches.length };
+  });
+
+  return sessions;
+};
+
+const storedSession = (id: string, userId = 'user-1'): StoredSession => ({
+  id,
+  userId,
+  refreshTokenHash: tokenUtils.hashToken(`${id}-key`),
+  revokedAt: null,
+  lastAccessedAt: new Date(),
+});
+
+// Let the fire-and-forget new sign-in notice finish
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SessionService', () => {
+  const authTime = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    prismaMock.user.findUnique.mockResolvedValue({ email: 'parent@example.com', name: 'Parent' });
+  });
+
+  afterEach(() => {
+    resetPrismaMocks();
+  });
+
+  describe('touchSignIn', () => {
+    it('should key the session by the hash of the sign-in key', async () => {
+      const sessions = storeSessions();
+
+      const first = await sessionService.touchSignIn('user-1', 'firebase-uid:1700000000', {});
+      const again = await sessionService.touchSignIn('user-1', 'firebase-uid:1700000000', {});
+      const other = await sessionService.touchSignIn('user-1', 'firebase-uid:1700000999', {});
+
+      expect(sessions[0].refreshTokenHash).toBe(tokenUtils.hashToken('firebase-uid:1700000000'));
+      expect(sessions[0].refreshTokenHash).not.toContain('firebase-uid');
+      expect(first).toEqual({ id: 'session-1', isNew: true });
+      expect(again).toEqual({ id: 'session-1', isNew: false });
+      expect(other).toEqual({ id: 'session-2', isNew: true });
+    });
+
+    it('should return null for a sign-in that was revoked', async () => {
+      const revoked = { ...storedSession('session-1'), revokedAt: new Date() };
+      storeSessions([revoked]);
+
+      const result = await sessionService.touchSignIn('user-1', 'session-1-key', {});
+
+      expect(result).toBeNull();
+      expect(prismaMock.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('new sign-in alert', () => {
+    it('should alert once when a new device signs in', async () => {
+      storeSessions([storedSession('phone')]);
+      const context = { deviceName: 'Tablet', authTime: authTime() };
+
+      await sessionService.touchSignIn('user-1', 'firebase-uid:tablet', context);
+      await flushPromises();
+      await sessionService.touchSignIn('user-1', 'firebase-uid:tablet', context);
+      await flushPromises();
+
+      expect(emailService.sendNewSignInEmail).toHaveBeenCalledTimes(1);
+      expect(emailService.sendNewSignInEmail).toHaveBeenCalledWith(
+        'parent@example.com',
+        'Parent',
+        expect.objectContaining({ deviceName: 'Tablet' })
+      );
+      expect(pushNotificationService.sendNewSignInNotification).toHaveBeenCalledTimes(1);
+      expect(pushNotificationService.sendNewSignInNotification).toHaveBeenCalledWith('user-1', 'Tablet');
+    });
+
+    it('should not alert for the first device', async () => {
+      storeSessions();
+
+      await sessionService.touchSignIn('user-1', 'firebase-uid:phone', { authTime: authTime() });
+      await flushPromises();
+
+      expect(emailService.sendNewSignInEmail).not.toHaveBeenCalled();
+      expect(pushNotificationService.sendNewSignInNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not alert for a sign-in from before sessions were tracked', async () => {
+      storeSessions([storedSession('phone')]);
+
+      await sessionService.touchSignIn('user-1', 'firebase-uid:tablet', { authTime: authTime() - 24 * 60 * 60 });
+      await flushPromises();
+
+      expect(emailService.sendNewSignInEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke only the user\'s own active session', async () => {
+      const sessions = storeSessions([storedSession('phone'), storedSession('laptop', 'user-2')]);
+
+      expect(await sessionService.revokeSession('user-1', 'laptop')).toBe(false);
+      expect(await sessionService.revokeSession('user-1', 'phone')).toBe(true);
+      expect(await sessionService.revokeSession('user-1', 'phone')).toBe(false);
+
+      expect(sessions.map(s => s.revokedAt !== null)).toEqual([true, false]);
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should keep the current session signed in', async () => {
+      const sessions = storeSessions([
+        storedSession('phone'),
+        storedSession('tablet'),
+        storedSession('laptop'),
+        storedSession('other-user', 'user-2'),
+      ]);
+
+      const count = await sessionService.revokeOtherSessions('user-1', 'tablet');
+
+      expect(count).toBe(2);
+      expect(sessions.filter(s => s.revokedAt === null).map(s => s.id)).toEqual(['tablet', 'other-user']);
+    });
+
+    it('should revoke every session without a current one', async () => {
+      const sessions = storeSessions([storedSession('phone'), storedSession('tablet')]);
+
+      const count = await sessionService.revokeOtherSessions('user-1');
+
+      expect(count).toBe(2);
+      expect(sessions.every(s => s.revokedAt !== null)).toBe(true);
+    });
+  });
+});
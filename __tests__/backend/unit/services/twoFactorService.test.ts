@@ -0,0 +1,79 @@
+/**
+ * Two-Factor Service Tests
+ * Tests for using recovery codes when several requests arrive at once
+ */
+import { prismaMock, resetPrismaMocks } from '../../mocks/prisma';
+
+jest.mock('../../../../server/src/lib/prisma', () => ({
+  prisma: prismaMock,
+}));
+
+import { twoFactorService } from '../../../../server/src/services/twoFactorService';
+import { securityUtils } from '../../../../server/src/utils/securityUtils';
+import { generateTotpSecret, hashRecoveryCode } from '../../../../server/src/utils/totp';
+
+const account = { userId: 'user-1' };
+
+/**
+ * Keep the credential in memory and apply updateMany only when its
+ * recoveryCodes condition matches, like the database does
+ */
+const storeCredential = (recoveryCodes: string[]) => {
+  const credential = {
+    id: 'credential-1',
+    userId: 'user-1',
+    secret: securityUtils.encrypt(generateTotpSecret(), process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET!),
+    enabledAt: new Date(),
+    lastUsedStep: null,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+  };
+
+  prismaMock.twoFactorCredential.findUnique.mockImplementation(async () => ({
+    ...credential,
+    recoveryCodes: [...credential.recoveryCodes],
+  }));
+  prismaMock.twoFactorCredential.updateMany.mockImplementation(async ({ where, data }: any) => {
+    const expected: string[] | undefined = where.recoveryCodes?.equals;
+    if (expected && expected.join() !== credential.recoveryCodes.join()) {
+      return { count: 0 };
+    }
+    if (data.recoveryCodes) {
+      credential.recoveryCodes = data.recoveryCodes.set;
+    }
+    return { count: 1 };
+  });
+
+  return credential;
+};
+
+describe('TwoFactorService', () => {
+  afterEach(() => {
+    resetPrismaMocks();
+  });
+
+  describe('verifyCode with recovery codes', () => {
+    it('should accept a recovery code only once when used twice at the same time', async () => {
+      const credential = storeCredential(['AAAA-BBBB', 'CCCC-DDDD']);
+
+      const results = await Promise.all([
+        twoFactorService.verifyCode(account, 'AAAA-BBBB'),
+        twoFactorService.verifyCode(account, 'AAAA-BBBB'),
+      ]);
+
+      expect(results.sort()).toEqual([null, 'recovery']);
+      expect(credential.recoveryCodes).toEqual([hashRecoveryCode('CCCC-DDDD')]);
+    });
+
+    it('should use up both codes when two different codes are used at the same time', async () => {
+      const credential = storeCredential(['AAAA-BBBB', 'CCCC-DDDD', 'EEEE-FFFF']);
+
+      const results = await Promise.all([
+        twoFactorService.verifyCode(account, 'AAAA-BBBB'),
+        twoFactorService.verifyCode(account, 'CCCC-DDDD'),
+      ]);
+
+      expect(results).toEqual(['recovery', 'recovery']);
+      expect(credential.recoveryCodes).toEqual([hashRecoveryCode('EEEE-FFFF')]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Activity Timeline Tests
+ * Tests for normalizing ActivityHistory rows into parent-facing changes
+ */
+import { buildActivityTimeline, ActivityHistoryEntry } from '../../../../server/src/utils/activityTimeline';
+
+const entry = (overrides: Partial<ActivityHistoryEntry>): ActivityHistoryEntry => ({
+  id: 'h1',
+  changeType: 'updated',
+  previousData: {},
+  newData: {},
+  changedFields: [],
+  createdAt: new Date('2025-10-03T14:00:00Z'),
+  ...overrides,
+});
+
+describe('buildActivityTimeline', () => {
+  it('should describe price and capacity changes', () => {
+    const changes = buildActivityTimeline([
+      entry({
+        changedFields: ['cost', 'spotsAvailable'],
+        previousData: { cost: 120, spotsAvailable: 8 },
+        newData: { cost: 95, spotsAvailable: 3 },
+      }),
+    ]);
+
+    expect(changes.map(c => c.summary)).toEqual([
+      'Price went from $120 to $95',
+      'Spots available went from 8 to 3',
+    ]);
+    expect(changes[0].kind).toBe('price');
+    expect(changes[1].kind).toBe('capacity');
+  });
+
+  it('should skip fields parents do not track and unchanged formatted values', () => {
+    const changes = buildActivityTimeline([
+      entry({
+        changedFields: ['description', 'dateStart'],
+        previousData: { description: 'Old', dateStart: '2025-09-03T00:00:00.000Z' },
+        newData: { description: 'New', dateStart: '2025-09-03T00:00:00Z' },
+      }),
+    ]);
+
+    expect(changes).toEqual([]);
+  });
+
+  it('should describe schedule and instructor changes', () => {
+    const changes = buildActivityTimeline([
+      entry({
+        changedFields: ['dateStart', 'instructor'],
+        previousData: { dateStart: '2025-09-03T00:00:00.000Z', instructor: null },
+        newData: { dateStart: '2025-09-10T00:00:00.000Z', instructor: 'Coach Sam' },
+      }),
+    ]);
+
+    expect(changes.map(c => c.summary)).toEqual([
+      'Start date changed from Sep 3, 2025 to Sep 10, 2025',
+      'Instructor set to Coach Sam',
+    ]);
+  });
+
+  it('should include listing status changes and sort newest first', () => {
+    const changes = buildActivityTimeline([
+      entry({ id: 'h1', changeType: 'deactivated', createdAt: new Date('2025-10-01T00:00:00Z') }),
+      entry({
+        id: 'h2',
+        changedFields: ['registrationStatus'],
+        previousData: { registrationStatus: 'Open' },
+        newData: { registrationStatus: 'Waitlist' },
+        createdAt: new Date('2025-10-05T00:00:00Z'),
+      }),
+    ]);
+
+    expect(changes.map(c => c.id)).toEqual(['h2:registrationStatus', 'h1:isActive']);
+    expect(changes[1].summary).toBe('No longer listed by the provider');
+  });
+
+  it('should filter by kind', () => {
+    const changes = buildActivityTimeline(
+      [
+        entry({
+          changedFields: ['cost', 'instructor'],
+          previousData: { cost: 50, instructor: 'A' },
+          newData: { cost: 60, instructor: 'B' },
+        }),
+        entry({ id: 'h2', changeType: 'reactivated' }),
+      ],
+      { kinds: ['instructor'] }
+    );
+
+    expect(changes.map(c => c.field)).toEqual(['instructor']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Attendance Tests
+ * Tests for session length, attendance rate, streaks and skill categories
+ */
+import {
+  attendedHours,
+  isAttendanceStatus,
+  sessionMinutes,
+  skillCategoryForActivity,
+  summarizeAttendance,
+} from '../../../../server/src/utils/attendance';
+
+const record = (date: string, status: string, durationMinutes: number | null = 60) => ({
+  date: new Date(`${date}T00:00:00Z`),
+  status,
+  durationMinutes,
+});
+
+describe('sessionMinutes', () => {
+  it('should use the session clock times', () => {
+    expect(sessionMinutes('4:00 pm', '5:30 pm')).toBe(90);
+    expect(sessionMinutes('09:15', '10:00')).toBe(45);
+  });
+
+  it('should fall back to an hour when times are missing or inverted', () => {
+    expect(sessionMinutes(null, '5:00 pm')).toBe(60);
+    expect(sessionMinutes('5:00 pm', '4:00 pm')).toBe(60);
+  });
+});
+
+describe('attendedHours', () => {
+  it('should count attended and makeup sessions only', () => {
+    expect(attendedHours({ status: 'attended', durationMinutes: 90 })).toBe(1.5);
+    expect(attendedHours({ status: 'makeup', durationMinutes: null })).toBe(1);
+    expect(attendedHours({ status: 'missed', durationMinutes: 90 })).toBe(0);
+    expect(attendedHours(null)).toBe(0);
+  });
+});
+
+describe('summarizeAttendance', () => {
+  it('should return an empty summary without records', () => {
+    expect(summarizeAttendance([])).toMatchObject({ total: 0, rate: null, currentStreak: 0, longestStreak: 0, hours: 0 });
+  });
+
+  it('should leave cancelled sessions out of the rate and streaks', () => {
+    const summary = summarizeAttendance([
+      record('2025-09-01', 'attended'),
+      record('2025-09-03', 'attended'),
+      record('2025-09-08', 'cancelled'),
+      record('2025-09-10', 'missed'),
+      record('2025-09-15', 'makeup', 45),
+      record('2025-09-17', 'cancelled'),
+      record('2025-09-22', 'attended'),
+    ]);
+
+    expect(summary).toMatchObject({
+      total: 7,
+      attended: 3,
+      missed: 1,
+      cancelled: 2,
+      makeup: 1,
+      rate: 0.8,
+      currentStreak: 2,
+      longestStreak: 2,
+      hours: 3.8,
+    });
+  });
+
+  it('should order records by date before counting streaks', () => {
+    const summary = summarizeAttendance([
+      record('2025-09-22', 'missed'),
+      record('2025-09-01', 'attended'),
+      record('2025-09-08', 'attended'),
+      record('2025-09-15', 'attended'),
+    ]);
+
+    expect(summary.currentStreak).toBe(0);
+    expect(summary.longestStreak).toBe(3);
+  });
+});
+
+describe('isAttendanceStatus', () => {
+  it('should accept known statuses only', () => {
+    expect(isAttendanceStatus('makeup')).toBe(true);
+    expect(isAttendanceStatus('late')).toBe(false);
+  });
+});
+
+describe('skillCategoryForActivity', () => {
+  it('should map activity types to skill names', () => {
+    expect(skillCategoryForActivity({ activityTypeCode: 'swimming-aquatics' })).toBe('swimming');
+    expect(skillCategoryForActivity({ activityTypeCode: 'martial-arts' })).toBe('martial-arts');
+  });
+
+  it('should fall back to the category', () => {
+    expect(skillCategoryForActivity({ activityTypeCode: 'other-activity', category: 'Arts & Crafts' })).toBe('arts-crafts');
+    expect(skillCategoryForActivity({ category: null })).toBe('other');
+  });
+});
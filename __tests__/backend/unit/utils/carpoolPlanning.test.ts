@@ -0,0 +1,128 @@
+/**
+ * Carpool Planning Tests
+ * Tests for carpool matching between families and weekly driver rotation
+ */
+import {
+  findCarpoolMatches,
+  getWeekStart,
+  isRideDay,
+  listRotationWeeks,
+  planRotation,
+  ROTATION_WEEKS_AHEAD,
+} from '../../../../server/src/utils/carpoolPlanning';
+import { ScheduleItem } from '../../../../server/src/utils/scheduleConflicts';
+
+// Monday
+const from = new Date('2025-09-08T00:00:00Z');
+
+const item = (id: string, familyUserId: string, overrides: Partial<ScheduleItem> = {}): ScheduleItem => ({
+  id,
+  childId: `child-${id}`,
+  childName: `Child ${id}`,
+  familyUserId,
+  activityId: 'swim',
+  activityName: 'Swim Kids 3',
+  locationId: 'pool',
+  locationName: 'Kitsilano Pool',
+  latitude: null,
+  longitude: null,
+  dateStart: new Date('2025-09-01T00:00:00Z'),
+  dateEnd: new Date('2025-12-15T00:00:00Z'),
+  dayOfWeek: ['Monday', 'Wednesday'],
+  startTime: '4:00 pm',
+  endTime: '5:00 pm',
+  scheduledDate: null,
+  sessions: [],
+  ...overrides,
+});
+
+describe('findCarpoolMatches', () => {
+  it('should match children of another family in the same activity', () => {
+    const matches = findCarpoolMatches([
+      item('maya', 'me'),
+      item('leo', 'me'),
+      item('sam', 'friend'),
+    ], 'me', { from, horizonDays: 7 });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      matchType: 'same_activity',
+      activityId: 'swim',
+      familyUserId: 'friend',
+      daysOfWeek: ['Monday', 'Wednesday'],
+      startTime: '4:00 pm',
+      nextDate: '2025-09-08',
+      sharedDates: 2,
+    });
+    expect(matches[0].children.map(c => c.childId)).toEqual(['child-maya', 'child-sam', 'child-leo']);
+  });
+
+  it('should match the same venue only when start times are close', () => {
+    const matches = findCarpoolMatches([
+      item('maya', 'me'),
+      item('sam', 'friend', { activityId: 'dive', activityName: 'Diving', startTime: '4:15 pm', endTime: '5:00 pm' }),
+      item('ava', 'neighbour', { activityId: 'aquafit', activityName: 'Aquafit', startTime: '6:00 pm', endTime: '7:00 pm' }),
+    ], 'me', { from, horizonDays: 7 });
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ matchType: 'same_location', familyUserId: 'friend' });
+  });
+
+  it('should not match the user\'s own children or other venues', () => {
+    const matches = findCarpoolMatches([
+      item('maya', 'me'),
+      item('leo', 'me', { activityId: 'dive' }),
+      item('sam', 'friend', { activityId: 'skate', locationId: 'rink' }),
+    ], 'me', { from, horizonDays: 7 });
+
+    expect(matches).toEqual([]);
+  });
+});
+
+describe('getWeekStart', () => {
+  it('should return the Monday of the week', () => {
+    expect(getWeekStart(new Date('2025-09-14T18:00:00Z'))).toEqual(new Date('2025-09-08T00:00:00Z'));
+    expect(getWeekStart(new Date('2025-09-08T00:00:00Z'))).toEqual(new Date('2025-09-08T00:00:00Z'));
+  });
+});
+
+describe('listRotationWeeks', () => {
+  it('should run from the start week to the end week', () => {
+    const weeks = listRotationWeeks(new Date('2025-09-10T00:00:00Z'), new Date('2025-09-24T00:00:00Z'), from);
+    expect(weeks.map(w => w.toISOString().slice(0, 10))).toEqual(['2025-09-08', '2025-09-15', '2025-09-22']);
+  });
+
+  it('should never start in the past and cap open-ended rotations', () => {
+    const weeks = listRotationWeeks(new Date('2025-08-01T00:00:00Z'), null, from);
+    expect(weeks[0]).toEqual(from);
+    expect(weeks).toHaveLength(ROTATION_WEEKS_AHEAD);
+  });
+});
+
+describe('planRotation', () => {
+  const weeks = [0, 1, 2, 3].map(i => new Date(from.getTime() + i * 7 * 24 * 60 * 60 * 1000));
+
+  it('should take turns in rotation order', () => {
+    expect(planRotation(['a', 'b', 'c'], weeks).map(w => w.driverUserId)).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('should continue after the last driver', () => {
+    expect(planRotation(['a', 'b', 'c'], weeks, 'b').map(w => w.driverUserId)).toEqual(['c', 'a', 'b', 'c']);
+  });
+});
+
+describe('isRideDay', () => {
+  const group = {
+    daysOfWeek: ['Mon', 'Thursday'],
+    startDate: new Date('2025-09-08T00:00:00Z'),
+    endDate: new Date('2025-09-30T00:00:00Z'),
+  };
+
+  it('should match ride days within the date range', () => {
+    expect(isRideDay(group, new Date('2025-09-08T15:00:00Z'))).toBe(true);
+    expect(isRideDay(group, new Date('2025-09-11T00:00:00Z'))).toBe(true);
+    expect(isRideDay(group, new Date('2025-09-09T00:00:00Z'))).toBe(false);
+    expect(isRideDay(group, new Date('2025-09-01T00:00:00Z'))).toBe(false);
+    expect(isRideDay(group, new Date('2025-10-02T00:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Chat Stream Events Tests
+ * Tests for SSE framing and tool progress messages
+ */
+import { describeToolCall, formatSseEvent } from '../../../../server/src/ai/utils/chatStreamEvents';
+
+describe('chatStreamEvents', () => {
+  describe('describeToolCall', () => {
+    it('should mention the search term when there is one', () => {
+      expect(describeToolCall('search_activities', { searchTerm: 'swimming' })).toBe('Searching swimming activities…');
+      expect(describeToolCall('search_activities', {})).toBe('Searching activities…');
+    });
+
+    it('should count compared programs', () => {
+      expect(describeToolCall('compare_activities', { activityIds: ['a', 'b', 'c'] })).toBe('Comparing 3 programs…');
+    });
+
+    it('should fall back for unknown tools', () => {
+      expect(describeToolCall('something_new')).toBe('Working on it…');
+    });
+  });
+
+  describe('formatSseEvent', () => {
+    it('should frame the event name and JSON data', () => {
+      expect(formatSseEvent({ type: 'token', text: 'Hi\nthere' }))
+        .toBe('event: token\ndata: {"text":"Hi\\nthere"}\n\n');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Child Dismissal Tests
+ * Tests for turning per-child "not interested" dismissals and excluded
+ * categories into activity exclusions
+ */
+import {
+  ActivityExclusions,
+  buildChildExclusions,
+  buildExclusionWhere,
+  exclusionsForChild,
+  hasExclusions,
+  isActivityExcluded,
+  isDismissalType,
+} from '../../../../server/src/utils/childDismissals';
+
+const hockey = {
+  id: 'activity-1',
+  providerId: 'provider-1',
+  locationId: 'location-1',
+  activitySubtypeId: 'subtype-1',
+  category: 'Hockey',
+};
+
+const swimming = {
+  id: 'activity-2',
+  providerId: 'provider-2',
+  locationId: null,
+  activitySubtypeId: null,
+  category: 'Swimming',
+};
+
+describe('buildChildExclusions', () => {
+  it('should group dismissals by type and normalize categories', () => {
+    const exclusions = buildChildExclusions([
+      {
+        childId: 'child-1',
+        dismissals: [
+          { type: 'provider', targetId: 'provider-1' },
+          { type: 'activity', targetId: 'activity-9' },
+          { type: 'provider', targetId: 'provider-1' },
+        ],
+        excludedCategories: [' Hockey ', 'hockey', ''],
+      },
+    ]);
+
+    expect(exclusions).toEqual({
+      filterMode: 'or',
+      children: [{
+        childId: 'child-1',
+        activityIds: ['activity-9'],
+        providerIds: ['provider-1'],
+        locationIds: [],
+        subtypeIds: [],
+        categories: ['hockey'],
+      }],
+    });
+  });
+});
+
+describe('isActivityExcluded', () => {
+  it('should hide activities matching any dismissal or excluded category', () => {
+    const byType = (type: string, targetId: string) =>
+      buildChildExclusions([{ childId: 'child-1', dismissals: [{ type, targetId }] }]);
+
+    expect(isActivityExcluded(hockey, byType('activity', 'activity-1'))).toBe(true);
+    expect(isActivityExcluded(hockey, byType('provider', 'provider-1'))).toBe(true);
+    expect(isActivityExcluded(hockey, byType('location', 'location-1'))).toBe(true);
+    expect(isActivityExcluded(hockey, byType('subtype', 'subtype-1'))).toBe(true);
+    expect(isActivityExcluded(swimming, byType('location', 'location-1'))).toBe(false);
+
+    const categories = buildChildExclusions([{ childId: 'child-1', dismissals: [], excludedCategories: ['HOCKEY'] }]);
+    expect(isActivityExcluded(hockey, categories)).toBe(true);
+    expect(isActivityExcluded(swimming, categories)).toBe(false);
+  });
+
+  it('should only hide an activity from any-child results when every child excludes it', () => {
+    const sources = [
+      { childId: 'child-1', dismissals: [], excludedCategories: ['Hockey'] },
+      { childId: 'child-2', dismissals: [{ type: 'provider', targetId: 'provider-2' }] },
+    ];
+
+    const any = buildChildExclusions(sources, 'or');
+    expect(isActivityExcluded(hockey, any)).toBe(false);
+
+    const together = buildChildExclusions(sources, 'and');
+    expect(isActivityExcluded(hockey, together)).toBe(true);
+    expect(isActivityExcluded(swimming, together)).toBe(true);
+
+    expect(isActivityExcluded(hockey, exclusionsForChild(any, 'child-1'))).toBe(true);
+    expect(isActivityExcluded(hockey, exclusionsForChild(any, 'child-2'))).toBe(false);
+  });
+
+  it('should hide nothing without exclusions', () => {
+    expect(isActivityExcluded(hockey, undefined)).toBe(false);
+    expect(isActivityExcluded(hockey, { filterMode: 'and', children: [] })).toBe(false);
+  });
+});
+
+describe('buildExclusionWhere', () => {
+  it('should keep activities without a location or subtype', () => {
+    const where = buildExclusionWhere(buildChildExclusions([
+      { childId: 'child-1', dismissals: [{ type: 'location', targetId: 'location-1' }] },
+    ]));
+
+    expect(where).toEqual({ OR: [{ locationId: null }, { locationId: { notIn: ['location-1'] } }] });
+  });
+
+  it('should combine children by filter mode', () => {
+    const sources = [
+      { childId: 'child-1', dismissals: [{ type: 'activity', targetId: 'activity-1' }] },
+      { childId: 'child-2', dismissals: [], excludedCategories: ['Hockey'] },
+    ];
+
+    expect(buildExclusionWhere(buildChildExclusions(sources, 'or'))).toEqual({
+      OR: [
+        { id: { notIn: ['activity-1'] } },
+        { NOT: { OR: [{ category: { equals: 'hockey', mode: 'insensitive' } }] } },
+      ],
+    });
+    expect(buildExclusionWhere(buildChildExclusions(sources, 'and'))).toHaveProperty('AND');
+  });
+
+  it('should skip the filter when a child in any-child mode excludes nothing', () => {
+    const exclusions: ActivityExclusions = buildChildExclusions([
+      { childId: 'child-1', dismissals: [{ type: 'activity', targetId: 'activity-1' }] },
+      { childId: 'child-2', dismissals: [] },
+    ]);
+
+    expect(hasExclusions(exclusions)).toBe(false);
+    expect(buildExclusionWhere(exclusions)).toBeUndefined();
+  });
+});
+
+describe('isDismissalType', () => {
+  it('should accept known dismissal types only', () => {
+    expect(isDismissalType('provider')).toBe(true);
+    expect(isDismissalType('category')).toBe(false);
+    expect(isDismissalType(undefined)).toBe(false);
+  });
+});
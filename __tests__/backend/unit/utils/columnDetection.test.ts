@@ -0,0 +1,121 @@
+/**
+ * Column Detection Tests
+ * Tests for fuzzy header matching, value sniffing and import value transforms
+ */
+import {
+  assignColumns,
+  headerOverlap,
+  headerSimilarity,
+  parseAgeRange,
+  parseDayPattern,
+  rankColumns,
+  resolveTemplateMapping,
+  valueKindFit,
+} from '../../../../server/src/utils/columnDetection';
+
+describe('parseDayPattern', () => {
+  it('should read letter codes and lists', () => {
+    expect(parseDayPattern('M/W/F')).toEqual(['Mon', 'Wed', 'Fri']);
+    expect(parseDayPattern('TTh')).toEqual(['Tue', 'Thu']);
+    expect(parseDayPattern('Tues & Thurs')).toEqual(['Tue', 'Thu']);
+    expect(parseDayPattern('Saturday, Sunday')).toEqual(['Sat', 'Sun']);
+  });
+
+  it('should expand ranges and day groups', () => {
+    expect(parseDayPattern('Mon-Fri')).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri']);
+    expect(parseDayPattern('Friday to Sunday')).toEqual(['Fri', 'Sat', 'Sun']);
+    expect(parseDayPattern('Weekends')).toEqual(['Sat', 'Sun']);
+  });
+
+  it('should not read ordinary words as day codes', () => {
+    expect(parseDayPattern('must')).toEqual([]);
+    expect(parseDayPattern('TBD')).toEqual([]);
+  });
+});
+
+describe('parseAgeRange', () => {
+  it('should read ranges with and without units', () => {
+    expect(parseAgeRange('Ages 6-12')).toEqual({ min: 6, max: 12 });
+    expect(parseAgeRange('6 to 12 yrs')).toEqual({ min: 6, max: 12 });
+    expect(parseAgeRange('18 months - 3 years')).toEqual({ min: 1, max: 3 });
+  });
+
+  it('should read open-ended ages', () => {
+    expect(parseAgeRange('8+')).toEqual({ min: 8 });
+    expect(parseAgeRange('10 and up')).toEqual({ min: 10 });
+    expect(parseAgeRange('Under 5')).toEqual({ max: 4 });
+    expect(parseAgeRange('up to 5')).toEqual({ max: 5 });
+  });
+
+  it('should not read dates, times or prices as ages', () => {
+    expect(parseAgeRange('2026-01-05')).toBeNull();
+    expect(parseAgeRange('4:00-5:00')).toBeNull();
+    expect(parseAgeRange('$10-20')).toBeNull();
+  });
+});
+
+describe('valueKindFit', () => {
+  it('should score the share of values that look like the kind', () => {
+    expect(valueKindFit('date', ['2026-01-05', '01/12/2026', 'TBD', ''])).toBeCloseTo(2 / 3);
+    expect(valueKindFit('time', ['4:30 PM', '16:00'])).toBe(1);
+    expect(valueKindFit('price', ['$120', 'Free', '95.00'])).toBe(1);
+    expect(valueKindFit('days', ['M/W/F', 'Sat'])).toBe(1);
+    expect(valueKindFit('url', [null, undefined])).toBeNull();
+  });
+});
+
+describe('headerSimilarity', () => {
+  it('should match reworded, reformatted and misspelled headers', () => {
+    expect(headerSimilarity('StartDate', 'start date')).toBe(1);
+    expect(headerSimilarity('Class Start Date', 'start date')).toBeGreaterThan(0.75);
+    expect(headerSimilarity('Strat Date', 'start date')).toBeGreaterThan(0.7);
+    expect(headerSimilarity('Instructor', 'start date')).toBeLessThan(0.35);
+  });
+});
+
+describe('rankColumns / assignColumns', () => {
+  const synonyms = {
+    name: ['activity name', 'name'],
+    dateStart: ['start date', 'start'],
+    startTime: ['start time'],
+    ageMin: ['min age', 'ages'],
+    ageMax: ['max age', 'ages'],
+    dayOfWeek: ['days'],
+    cost: ['price', 'fee'],
+  };
+
+  it('should use sample values to choose between similar headers', () => {
+    const headers = ['Program', 'Start', 'Begins', 'Ages', 'Meets', 'Fee ($)'];
+    const samples = [
+      { Program: 'Swim', Start: '4:30 PM', Begins: '2026-01-05', Ages: '6-12', Meets: 'M/W', 'Fee ($)': '120' },
+      { Program: 'Art', Start: '10:00 AM', Begins: '2026-02-01', Ages: '3-5', Meets: 'Sat', 'Fee ($)': '85.50' },
+    ];
+
+    const assignments = assignColumns(rankColumns(headers, samples, synonyms));
+
+    expect(assignments.startTime.column).toBe('Start');
+    expect(assignments.dateStart.column).not.toBe('Start');
+    expect(assignments.ageMin.column).toBe('Ages');
+    expect(assignments.ageMax.column).toBe('Ages');
+    expect(assignments.cost.column).toBe('Fee ($)');
+  });
+
+  it('should use each column for one field only', () => {
+    const assignments = assignColumns(rankColumns(['Name'], [], { name: ['name'], category: ['name'] }));
+    expect(assignments.name.column).toBe('Name');
+    expect(assignments.category.column).toBeNull();
+  });
+});
+
+describe('template matching', () => {
+  it('should compare header sets ignoring case and punctuation', () => {
+    expect(headerOverlap(['Name', 'Start_Date', 'Fee'], ['name', 'Start Date', 'fee'])).toBe(1);
+    expect(headerOverlap(['Name', 'Fee'], ['Name', 'Cost'])).toBeCloseTo(1 / 3);
+  });
+
+  it('should resolve saved columns against the file headers', () => {
+    expect(resolveTemplateMapping({ name: 'program name', cost: null }, ['Program Name', 'Fee']))
+      .toEqual({ name: 'Program Name', cost: null });
+    expect(resolveTemplateMapping({ name: 'Program Name', cost: 'Fee' }, ['Program Name'])).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Embeddings Tests
+ * Tests for the local embedding provider and vector helpers used by the
+ * activity vector index
+ */
+import {
+  LocalEmbeddingProvider,
+  cosineSimilarity,
+  decodeEmbedding,
+  encodeEmbedding,
+  getEmbeddingProvider,
+  hashEmbeddingText,
+  setEmbeddingProvider,
+  toVectorLiteral,
+  topKBySimilarity,
+} from '../../../../server/src/ai/utils/embeddings';
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('names the model after its size', () => {
+    expect(provider.model).toBe('local-hash-256');
+    expect(new LocalEmbeddingProvider(64).model).toBe('local-hash-64');
+  });
+
+  it('returns the same unit vector for the same text', async () => {
+    const [first, second] = await provider.embed(['swimming lessons', 'swimming lessons']);
+    expect(first).toHaveLength(256);
+    expect(first).toEqual(second);
+    expect(Math.sqrt(first.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+  });
+
+  it('ignores case and punctuation', async () => {
+    const [a, b] = await provider.embed(['Swimming, Lessons!', 'swimming lessons']);
+    expect(a).toEqual(b);
+  });
+
+  it('scores texts with shared words as more similar', async () => {
+    const [query, swim, piano] = await provider.embed([
+      'swimming lessons for kids',
+      'kids swimming lessons at the pool',
+      'piano class',
+    ]);
+    expect(cosineSimilarity(query, swim)).toBeGreaterThan(cosineSimilarity(query, piano));
+  });
+
+  it('returns a zero vector for empty text', async () => {
+    const [empty] = await provider.embed(['']);
+    expect(empty.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe('getEmbeddingProvider', () => {
+  const original = process.env.EMBEDDING_PROVIDER;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.EMBEDDING_PROVIDER;
+    } else {
+      process.env.EMBEDDING_PROVIDER = original;
+    }
+    setEmbeddingProvider(null);
+  });
+
+  it('uses the local provider when configured', () => {
+    process.env.EMBEDDING_PROVIDER = 'local';
+    setEmbeddingProvider(null);
+    expect(getEmbeddingProvider()).toBeInstanceOf(LocalEmbeddingProvider);
+  });
+
+  it('uses a provider set explicitly', () => {
+    const custom = new LocalEmbeddingProvider(8);
+    setEmbeddingProvider(custom);
+    expect(getEmbeddingProvider()).toBe(custom);
+  });
+});
+
+describe('encodeEmbedding / decodeEmbedding', () => {
+  it('round-trips float32 values', () => {
+    const embedding = [0.5, -0.25, 1, 0];
+    const buffer = encodeEmbedding(embedding);
+    expect(buffer).toHaveLength(16);
+    expect(decodeEmbedding(buffer)).toEqual(embedding);
+  });
+
+  it('reads bytes that are not 4-byte aligned', () => {
+    const padded = Buffer.concat([Buffer.from([9]), encodeEmbedding([0.5, 2])]);
+    expect(decodeEmbedding(padded.subarray(1))).toEqual([0.5, 2]);
+  });
+
+  it('rejects a truncated buffer', () => {
+    expect(() => decodeEmbedding(Buffer.from([1, 2, 3]))).toThrow('multiple of 4');
+  });
+});
+
+describe('hashEmbeddingText', () => {
+  it('changes only when the text changes', () => {
+    expect(hashEmbeddingText('soccer camp')).toBe(hashEmbeddingText('soccer camp'));
+    expect(hashEmbeddingText('soccer camp')).not.toBe(hashEmbeddingText('soccer camps'));
+    expect(hashEmbeddingText('soccer camp')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('toVectorLiteral', () => {
+  it('formats for pgvector', () => {
+    expect(toVectorLiteral([0.5, -1, 0])).toBe('[0.5,-1,0]');
+  });
+});
+
+describe('topKBySimilarity', () => {
+  const items = [
+    { id: 'a', embedding: [1, 0] },
+    { id: 'b', embedding: [0, 1] },
+    { id: 'c', embedding: [0.8, 0.6] },
+    { id: 'other-model', embedding: [1, 0, 0] },
+  ];
+
+  it('returns the k most similar, best first', () => {
+    const result = topKBySimilarity([1, 0], items, item => item.embedding, 2);
+    expect(result.map(r => r.item.id)).toEqual(['a', 'c']);
+    expect(result[0].similarity).toBeCloseTo(1);
+    expect(result[1].similarity).toBeCloseTo(0.8);
+  });
+
+  it('skips vectors of a different size', () => {
+    const result = topKBySimilarity([1, 0], items, item => item.embedding, 10);
+    expect(result.map(r => r.item.id)).not.toContain('other-model');
+    expect(result).toHaveLength(3);
+  });
+});
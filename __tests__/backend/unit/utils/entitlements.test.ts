@@ -0,0 +1,102 @@
+/**
+ * Entitlements Tests
+ * Tests for merging App Store/Google Play and web purchases into one plan
+ */
+import {
+  EntitlementState,
+  fromStripeStatus,
+  grantsAccess,
+  resolveEntitlement,
+  toSubscriptionStatus,
+  willRenew,
+} from '../../../../server/src/utils/entitlements';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const NEXT_MONTH = new Date('2026-06-01T12:00:00Z');
+const LAST_MONTH = new Date('2026-04-01T12:00:00Z');
+const PLAN_RANK = { free: 0, premium: 1 };
+
+const entitlement = (overrides: Partial<EntitlementState> = {}): EntitlementState => ({
+  provider: 'revenuecat',
+  externalId: 'txn_1',
+  planCode: 'premium',
+  status: 'active',
+  billingCycle: 'monthly',
+  currentPeriodEnd: NEXT_MONTH,
+  cancelAtPeriodEnd: false,
+  ...overrides,
+});
+
+describe('grantsAccess', () => {
+  it('grants access while active or trialing', () => {
+    expect(grantsAccess(entitlement(), NOW)).toBe(true);
+    expect(grantsAccess(entitlement({ status: 'trialing', currentPeriodEnd: null }), NOW)).toBe(true);
+  });
+
+  it('keeps cancelled and past-due access until the period ends', () => {
+    expect(grantsAccess(entitlement({ status: 'cancelled' }), NOW)).toBe(true);
+    expect(grantsAccess(entitlement({ status: 'past_due' }), NOW)).toBe(true);
+    expect(grantsAccess(entitlement({ status: 'cancelled', currentPeriodEnd: LAST_MONTH }), NOW)).toBe(false);
+    expect(grantsAccess(entitlement({ status: 'past_due', currentPeriodEnd: null }), NOW)).toBe(false);
+  });
+
+  it('never grants access once expired or refunded', () => {
+    expect(grantsAccess(entitlement({ status: 'expired' }), NOW)).toBe(false);
+    expect(grantsAccess(entitlement({ status: 'refunded' }), NOW)).toBe(false);
+  });
+});
+
+describe('willRenew', () => {
+  it('is false when cancellation is scheduled', () => {
+    expect(willRenew(entitlement())).toBe(true);
+    expect(willRenew(entitlement({ cancelAtPeriodEnd: true }))).toBe(false);
+    expect(willRenew(entitlement({ status: 'past_due' }))).toBe(false);
+  });
+});
+
+describe('resolveEntitlement', () => {
+  it('returns null when nothing grants access', () => {
+    expect(resolveEntitlement([entitlement({ status: 'refunded' })], PLAN_RANK, NOW)).toBeNull();
+    expect(resolveEntitlement([], PLAN_RANK, NOW)).toBeNull();
+  });
+
+  it('keeps premium from one provider when the other is refunded', () => {
+    const store = entitlement({ status: 'refunded' });
+    const web = entitlement({ provider: 'stripe', externalId: 'sub_1' });
+    expect(resolveEntitlement([store, web], PLAN_RANK, NOW)).toBe(web);
+  });
+
+  it('prefers the entitlement that will renew, then the one paid up furthest', () => {
+    const cancelled = entitlement({ status: 'cancelled', currentPeriodEnd: new Date('2026-12-01T00:00:00Z') });
+    const renewing = entitlement({ provider: 'stripe', externalId: 'sub_1' });
+    expect(resolveEntitlement([cancelled, renewing], PLAN_RANK, NOW)).toBe(renewing);
+
+    const later = entitlement({ provider: 'stripe', externalId: 'sub_1', currentPeriodEnd: new Date('2027-05-01T00:00:00Z') });
+    expect(resolveEntitlement([entitlement(), later], PLAN_RANK, NOW)).toBe(later);
+  });
+
+  it('prefers the higher-ranked plan', () => {
+    const family = entitlement({ provider: 'stripe', externalId: 'sub_1', planCode: 'family', cancelAtPeriodEnd: true });
+    expect(resolveEntitlement([entitlement(), family], { ...PLAN_RANK, family: 2 }, NOW)).toBe(family);
+  });
+});
+
+describe('toSubscriptionStatus', () => {
+  it('shows scheduled cancellations as cancelled', () => {
+    expect(toSubscriptionStatus(entitlement())).toBe('active');
+    expect(toSubscriptionStatus(entitlement({ cancelAtPeriodEnd: true }))).toBe('cancelled');
+    expect(toSubscriptionStatus(entitlement({ status: 'trialing' }))).toBe('trialing');
+    expect(toSubscriptionStatus(entitlement({ status: 'past_due' }))).toBe('past_due');
+  });
+});
+
+describe('fromStripeStatus', () => {
+  it('maps Stripe subscription statuses', () => {
+    expect(fromStripeStatus('active')).toBe('active');
+    expect(fromStripeStatus('trialing')).toBe('trialing');
+    expect(fromStripeStatus('active', true)).toBe('cancelled');
+    expect(fromStripeStatus('unpaid')).toBe('past_due');
+    expect(fromStripeStatus('canceled')).toBe('expired');
+    expect(fromStripeStatus('incomplete_expired')).toBe('expired');
+  });
+});
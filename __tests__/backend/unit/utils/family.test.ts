@@ -0,0 +1,64 @@
+/**
+ * Family Tests
+ * Tests for working out which co-parents a family plan's seats cover
+ */
+import { FamilySeatHolder, remainingSeats, seatedMemberIds } from '../../../../server/src/utils/family';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+const NEXT_WEEK = new Date('2026-05-08T12:00:00Z');
+const LAST_WEEK = new Date('2026-04-24T12:00:00Z');
+
+const member = (overrides: Partial<FamilySeatHolder> = {}): FamilySeatHolder => ({
+  memberId: 'user_1',
+  status: 'active',
+  joinedAt: new Date('2026-03-01T12:00:00Z'),
+  expiresAt: LAST_WEEK,
+  ...overrides,
+});
+
+describe('seatedMemberIds', () => {
+  it('seats active members only', () => {
+    const members = [
+      member(),
+      member({ memberId: null, status: 'pending', joinedAt: null, expiresAt: NEXT_WEEK }),
+      member({ memberId: 'user_2', status: 'removed' }),
+    ];
+    expect(seatedMemberIds(members, 3)).toEqual(['user_1']);
+  });
+
+  it('keeps the earliest joined members when seats shrink', () => {
+    const members = [
+      member({ memberId: 'late', joinedAt: new Date('2026-04-01T12:00:00Z') }),
+      member({ memberId: 'early', joinedAt: new Date('2026-02-01T12:00:00Z') }),
+      member({ memberId: 'middle' }),
+    ];
+    expect(seatedMemberIds(members, 2)).toEqual(['early', 'middle']);
+  });
+
+  it('seats nobody once the plan has no seats', () => {
+    expect(seatedMemberIds([member()], 0)).toEqual([]);
+    expect(seatedMemberIds([member()], -1)).toEqual([]);
+  });
+});
+
+describe('remainingSeats', () => {
+  it('counts active members and unexpired invitations', () => {
+    const members = [
+      member(),
+      member({ memberId: null, status: 'pending', joinedAt: null, expiresAt: NEXT_WEEK }),
+    ];
+    expect(remainingSeats(members, 3, NOW)).toBe(1);
+  });
+
+  it('frees seats held by expired invitations and removed members', () => {
+    const members = [
+      member({ memberId: null, status: 'pending', joinedAt: null, expiresAt: LAST_WEEK }),
+      member({ status: 'removed' }),
+    ];
+    expect(remainingSeats(members, 3, NOW)).toBe(3);
+  });
+
+  it('never goes below zero after a downgrade', () => {
+    expect(remainingSeats([member(), member({ memberId: 'user_2' })], 1, NOW)).toBe(0);
+  });
+});
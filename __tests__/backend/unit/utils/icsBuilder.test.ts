@@ -0,0 +1,133 @@
+/**
+ * iCalendar Builder Tests
+ * Tests for calendar feed serialization and RRULE helpers
+ */
+import {
+  buildCalendar,
+  buildWeeklyRRule,
+  escapeText,
+  firstOccurrenceOnOrAfter,
+  foldLine,
+  parseClockTime,
+  toRRuleDays,
+  toWallClock,
+} from '../../../../server/src/utils/icsBuilder';
+
+describe('icsBuilder', () => {
+  describe('parseClockTime', () => {
+    it('should parse 12-hour times', () => {
+      expect(parseClockTime('9:30 am')).toEqual({ hours: 9, minutes: 30 });
+      expect(parseClockTime('12:00 PM')).toEqual({ hours: 12, minutes: 0 });
+      expect(parseClockTime('12:15 a.m.')).toEqual({ hours: 0, minutes: 15 });
+      expect(parseClockTime('4pm')).toEqual({ hours: 16, minutes: 0 });
+    });
+
+    it('should parse 24-hour times', () => {
+      expect(parseClockTime('14:45')).toEqual({ hours: 14, minutes: 45 });
+    });
+
+    it('should reject unparseable values', () => {
+      expect(parseClockTime(null)).toBeNull();
+      expect(parseClockTime('TBD')).toBeNull();
+      expect(parseClockTime('9')).toBeNull();
+      expect(parseClockTime('25:00')).toBeNull();
+    });
+  });
+
+  describe('toRRuleDays', () => {
+    it('should map mixed day names to ordered BYDAY codes', () => {
+      expect(toRRuleDays(['Friday', 'Mon', 'wed', 'Thurs'])).toEqual(['MO', 'WE', 'TH', 'FR']);
+    });
+
+    it('should drop unknown and duplicate days', () => {
+      expect(toRRuleDays(['Monday', 'Mon', 'Someday'])).toEqual(['MO']);
+    });
+  });
+
+  describe('firstOccurrenceOnOrAfter', () => {
+    it('should find the first matching weekday', () => {
+      // 2025-09-03 is a Wednesday
+      const first = firstOccurrenceOnOrAfter(new Date('2025-09-03T00:00:00Z'), ['MO', 'FR']);
+      expect(first?.toISOString()).toBe('2025-09-05T00:00:00.000Z');
+    });
+
+    it('should return the start date when it matches', () => {
+      const first = firstOccurrenceOnOrAfter(new Date('2025-09-03T00:00:00Z'), ['WE']);
+      expect(first?.toISOString()).toBe('2025-09-03T00:00:00.000Z');
+    });
+  });
+
+  describe('buildWeeklyRRule', () => {
+    it('should end on the last day inclusive', () => {
+      expect(buildWeeklyRRule(['TU', 'TH'], new Date('2025-12-11T00:00:00Z')))
+        .toBe('FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251211T235959');
+      expect(buildWeeklyRRule(['SA'], new Date('2025-12-13T00:00:00Z'), true))
+        .toBe('FREQ=WEEKLY;BYDAY=SA;UNTIL=20251213');
+    });
+  });
+
+  describe('escapeText', () => {
+    it('should escape reserved characters', () => {
+      expect(escapeText('Swim; Level 1, Pool\\A\nBring towel')).toBe('Swim\\; Level 1\\, Pool\\\\A\\nBring towel');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines untouched', () => {
+      expect(foldLine('SUMMARY:Swim')).toBe('SUMMARY:Swim');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+    });
+  });
+
+  describe('buildCalendar', () => {
+    const stamp = new Date('2025-09-01T12:00:00Z');
+
+    it('should serialize timed recurring events as floating times', () => {
+      const start = toWallClock(new Date('2025-09-08T00:00:00Z'), { hours: 17, minutes: 30 });
+      const ics = buildCalendar({
+        name: 'Emma\'s Activities',
+        timezone: 'America/Vancouver',
+        events: [{
+          uid: 'ca-1@kidsactivitytracker.com',
+          summary: 'Swim Level 2 (Emma)',
+          start,
+          end: new Date(start.getTime() + 45 * 60 * 1000),
+          rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20251208T235959',
+          status: 'CONFIRMED',
+        }],
+      }, stamp);
+
+      const lines = ics.split('\r\n');
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('X-WR-TIMEZONE:America/Vancouver');
+      expect(lines).toContain('DTSTAMP:20250901T120000Z');
+      expect(lines).toContain('DTSTART:20250908T173000');
+      expect(lines).toContain('DTEND:20250908T181500');
+      expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20251208T235959');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should serialize all-day events with DATE values', () => {
+      const ics = buildCalendar({
+        name: 'Family Activities',
+        events: [{
+          uid: 'ca-2@kidsactivitytracker.com',
+          summary: 'Summer Camp',
+          start: new Date('2025-07-07T00:00:00Z'),
+          end: new Date('2025-07-12T00:00:00Z'),
+          allDay: true,
+        }],
+      }, stamp);
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20250707\r\n');
+      expect(ics).toContain('DTEND;VALUE=DATE:20250712\r\n');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * iCalendar Import Tests
+ * Tests for VEVENT parsing, RRULE expansion and import row mapping
+ */
+import { parseIcsActivities, parseIcsRows, parseIcsRRule } from '../../../../server/src/utils/icsImport';
+import { STRUCTURED_IMPORT_COLUMNS, expandRecurrence } from '../../../../server/src/utils/structuredImport';
+
+const calendar = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'X-WR-TIMEZONE:America/Vancouver',
+  ...events,
+  'END:VCALENDAR',
+].join('\r\n');
+
+const weeklySwim = [
+  'BEGIN:VEVENT',
+  'UID:swim-101@studio.example',
+  'SUMMARY:Swim Lessons\\, Level 1',
+  'DTSTART;TZID=America/Vancouver:20260105T160000',
+  'DTEND;TZID=America/Vancouver:20260105T164500',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260131T235959Z',
+  'EXDATE;TZID=America/Vancouver:20260114T160000',
+  'LOCATION:Hillcrest Pool',
+  'CATEGORIES:Swimming',
+  'DESCRIPTION:Beginner lessons for a',
+  ' ges 5-7',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT15M',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+  'END:VEVENT',
+].join('\r\n');
+
+describe('parseIcsRRule', () => {
+  it('should read weekly rules with days and an end date', () => {
+    const rule = parseIcsRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6', 'UTC');
+    expect(rule).toEqual({ frequency: 'WEEKLY', interval: 2, byDay: ['TU', 'TH'], count: 6 });
+  });
+
+  it('should ignore frequencies that do not map to weekdays', () => {
+    expect(parseIcsRRule('FREQ=MONTHLY;BYMONTHDAY=1', 'UTC')).toBeNull();
+  });
+});
+
+describe('expandRecurrence', () => {
+  it('should skip excluded dates but still count them', () => {
+    const dates = expandRecurrence(
+      new Date(Date.UTC(2026, 0, 5)),
+      { frequency: 'WEEKLY', interval: 1, byDay: ['MO'], count: 3 },
+      new Set(['2026-01-12'])
+    );
+    expect(dates).toEqual(['2026-01-05', '2026-01-19']);
+  });
+
+  it('should stop two years after the start for huge intervals or all-excluded dates', () => {
+    const start = new Date(Date.UTC(2026, 0, 5));
+    const until = new Date(Date.UTC(9999, 11, 31));
+
+    const sparse = expandRecurrence(start, { frequency: 'WEEKLY', interval: 100000, byDay: ['MO'], until });
+    expect(sparse).toEqual(['2026-01-05']);
+
+    const excluded = new Set(Array.from({ length: 1000 }, (_, i) => new Date(start.getTime() + i * 86400000).toISOString().slice(0, 10)));
+    const allExcluded = expandRecurrence(start, { frequency: 'DAILY', interval: 1, byDay: [], until }, excluded);
+    expect(allExcluded).toEqual([]);
+  });
+
+  it('should not expand open-ended schedules', () => {
+    const dates = expandRecurrence(new Date(Date.UTC(2026, 0, 5)), { frequency: 'DAILY', interval: 1, byDay: [] });
+    expect(dates).toBeNull();
+  });
+});
+
+describe('parseIcsActivities', () => {
+  it('should map a recurring event to weekdays, a date range and sessions', () => {
+    const [activity] = parseIcsActivities(calendar(weeklySwim));
+
+    expect(activity.externalId).toBe('swim-101@studio.example');
+    expect(activity.name).toBe('Swim Lessons, Level 1');
+    expect(activity.description).toBe('Beginner lessons for ages 5-7');
+    expect(activity.category).toBe('Swimming');
+    expect(activity.startTime).toBe('16:00');
+    expect(activity.endTime).toBe('16:45');
+    expect(activity.dayOfWeek).toEqual(['Monday', 'Wednesday']);
+    expect(activity.dateStart).toBe('2026-01-05');
+    expect(activity.dateEnd).toBe('2026-01-28');
+    expect(activity.sessions?.map(session => session.date)).toEqual([
+      '2026-01-05', '2026-01-07', '2026-01-12', '2026-01-19', '2026-01-21', '2026-01-26', '2026-01-28',
+    ]);
+  });
+
+  it('should apply moved and cancelled instances', () => {
+    const [activity] = parseIcsActivities(calendar(
+      weeklySwim,
+      [
+        'BEGIN:VEVENT',
+        'UID:swim-101@studio.example',
+        'RECURRENCE-ID;TZID=America/Vancouver:20260107T160000',
+        'DTSTART;TZID=America/Vancouver:20260108T170000',
+        'DTEND;TZID=America/Vancouver:20260108T174500',
+        'SUMMARY:Swim Lessons\\, Level 1',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:swim-101@studio.example',
+        'RECURRENCE-ID;TZID=America/Vancouver:20260126T160000',
+        'STATUS:CANCELLED',
+        'END:VEVENT',
+      ].join('\r\n')
+    ));
+
+    const dates = activity.sessions?.map(session => session.date);
+    expect(dates).toContain('2026-01-08');
+    expect(dates).not.toContain('2026-01-07');
+    expect(dates).not.toContain('2026-01-26');
+    expect(activity.sessions?.find(session => session.date === '2026-01-08')?.startTime).toBe('17:00');
+  });
+
+  it('should convert UTC times to the calendar time zone', () => {
+    const [activity] = parseIcsActivities(calendar([
+      'BEGIN:VEVENT',
+      'UID:art-1',
+      'SUMMARY:Art Club',
+      'DTSTART:20260110T180000Z',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    expect(activity.dateStart).toBe('2026-01-10');
+    expect(activity.startTime).toBe('10:00');
+    expect(activity.endTime).toBe('11:30');
+  });
+
+  it('should run multi-day all-day events every day', () => {
+    const [activity] = parseIcsActivities(calendar([
+      'BEGIN:VEVENT',
+      'UID:camp-1',
+      'SUMMARY:Spring Break Camp',
+      'DTSTART;VALUE=DATE:20260316',
+      'DTEND;VALUE=DATE:20260319',
+      'END:VEVENT',
+    ].join('\r\n')));
+
+    expect(activity.sessions?.map(session => session.date)).toEqual(['2026-03-16', '2026-03-17', '2026-03-18']);
+    expect(activity.dateEnd).toBe('2026-03-18');
+  });
+
+  it('should reject files that are not calendars', () => {
+    expect(() => parseIcsActivities('name,category\nSwim,Sports')).toThrow('Not an iCalendar file');
+  });
+});
+
+describe('parseIcsRows', () => {
+  it('should produce rows with every structured column', () => {
+    const [row] = parseIcsRows(calendar(weeklySwim));
+
+    expect(Object.keys(row).sort()).toEqual(Object.values(STRUCTURED_IMPORT_COLUMNS).sort());
+    expect(row.Days).toBe('Monday, Wednesday');
+    expect(row.Price).toBeNull();
+    expect(JSON.parse(row.Sessions as string)[0]).toEqual({ date: '2026-01-05', startTime: '16:00', endTime: '16:45' });
+  });
+});
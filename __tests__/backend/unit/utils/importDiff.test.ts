@@ -0,0 +1,88 @@
+/**
+ * Import Diff Tests
+ * Tests for field-level import diffs, manual edit locks and summaries
+ */
+import {
+  ImportDiffEntry,
+  diffActivityFields,
+  omitLockedFields,
+  summarizeImportDiff,
+} from '../../../../server/src/utils/importDiff';
+
+describe('diffActivityFields', () => {
+  const existing = {
+    name: 'Swim Lessons',
+    cost: 120,
+    dateStart: new Date('2026-01-05T00:00:00Z'),
+    dayOfWeek: ['Mon', 'Wed'],
+    instructor: null,
+    description: 'Beginner swim',
+  };
+
+  it('should report no changes when values only differ in form', () => {
+    const { changes } = diffActivityFields(existing, {
+      name: 'Swim Lessons ',
+      cost: 120,
+      dateStart: '2026-01-05T00:00:00.000Z',
+      dayOfWeek: ['Mon', 'Wed'],
+      instructor: '',
+    });
+    expect(changes).toEqual([]);
+  });
+
+  it('should list changed fields with before and after values', () => {
+    const { changes } = diffActivityFields(existing, {
+      cost: 135,
+      dateStart: '2026-01-12',
+      dayOfWeek: ['Tue'],
+    });
+    expect(changes).toEqual([
+      { field: 'cost', before: 120, after: 135 },
+      { field: 'dateStart', before: '2026-01-05', after: '2026-01-12' },
+      { field: 'dayOfWeek', before: ['Mon', 'Wed'], after: ['Tue'] },
+    ]);
+  });
+
+  it('should ignore fields the import does not write', () => {
+    const { changes } = diffActivityFields(existing, { description: undefined });
+    expect(changes).toEqual([]);
+  });
+
+  it('should separate changes to manually edited fields', () => {
+    const { changes, lockedChanges } = diffActivityFields(
+      existing,
+      { name: 'Swim Lessons', description: 'Updated copy', cost: 99 },
+      ['description']
+    );
+    expect(changes).toEqual([{ field: 'cost', before: 120, after: 99 }]);
+    expect(lockedChanges).toEqual([{ field: 'description', before: 'Beginner swim', after: 'Updated copy' }]);
+  });
+});
+
+describe('omitLockedFields', () => {
+  it('should drop locked fields from update data', () => {
+    expect(omitLockedFields({ name: 'A', cost: 10, isActive: true }, ['cost'])).toEqual({ name: 'A', isActive: true });
+  });
+});
+
+describe('summarizeImportDiff', () => {
+  it('should count actions and entries with locked changes', () => {
+    const entry = (action: ImportDiffEntry['action'], locked = false): ImportDiffEntry => ({
+      rowNumber: 1,
+      externalId: 'x',
+      name: 'x',
+      action,
+      activityId: null,
+      changes: [],
+      lockedChanges: locked ? [{ field: 'cost', before: 1, after: 2 }] : [],
+    });
+
+    expect(summarizeImportDiff([
+      entry('created'),
+      entry('updated', true),
+      entry('updated'),
+      entry('unchanged', true),
+      entry('deactivated'),
+    ])).toEqual({ created: 1, updated: 2, unchanged: 1, deactivated: 1, locked: 2 });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * JSON-LD Import Tests
+ * Tests for schema.org Event/Course extraction and schedule mapping
+ */
+import {
+  parseJsonLdActivities,
+  parseJsonLdRows,
+  parseSchemaDateTime,
+  scheduleToRecurrence,
+} from '../../../../server/src/utils/jsonLdImport';
+
+const page = (data: unknown) => `<!doctype html>
+<html><head>
+<script type="application/ld+json">${JSON.stringify(data)}</script>
+</head><body>Schedule</body></html>`;
+
+describe('parseSchemaDateTime', () => {
+  it('should keep the local time as written', () => {
+    expect(parseSchemaDateTime('2026-02-03T09:30:00-08:00')).toEqual({ date: '2026-02-03', time: '09:30' });
+    expect(parseSchemaDateTime('2026-02-03')).toEqual({ date: '2026-02-03' });
+    expect(parseSchemaDateTime('next tuesday')).toBeNull();
+  });
+});
+
+describe('scheduleToRecurrence', () => {
+  it('should read ISO 8601 repeat frequencies', () => {
+    expect(scheduleToRecurrence({ repeatFrequency: 'P2W', byDay: 'https://schema.org/Tuesday' })).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byDay: ['TU'],
+    });
+    expect(scheduleToRecurrence({ repeatFrequency: 'P1D', repeatCount: 5 })).toMatchObject({
+      frequency: 'DAILY',
+      count: 5,
+    });
+  });
+
+  it('should ignore schedules that do not repeat daily or weekly', () => {
+    expect(scheduleToRecurrence({ repeatFrequency: 'P1M' })).toBeNull();
+  });
+});
+
+describe('parseJsonLdActivities', () => {
+  it('should map an event with a weekly schedule', () => {
+    const [activity] = parseJsonLdActivities(page({
+      '@context': 'https://schema.org',
+      '@type': 'EducationEvent',
+      '@id': 'https://studio.example/classes/ballet',
+      name: 'Pre-Ballet',
+      startDate: '2026-01-06T10:00',
+      endDate: '2026-01-06T10:45',
+      eventSchedule: {
+        '@type': 'Schedule',
+        repeatFrequency: 'P1W',
+        byDay: ['https://schema.org/Tuesday', 'https://schema.org/Thursday'],
+        startDate: '2026-01-06',
+        endDate: '2026-01-22',
+        startTime: '10:00',
+        endTime: '10:45',
+        exceptDate: '2026-01-13',
+      },
+      location: {
+        '@type': 'Place',
+        name: 'Studio A',
+        address: { '@type': 'PostalAddress', streetAddress: '12 Main St', addressLocality: 'Vancouver' },
+        geo: { latitude: '49.28', longitude: '-123.12' },
+      },
+      offers: [{ price: '120.00', url: 'https://studio.example/register' }, { price: 95 }],
+      typicalAgeRange: '3-5',
+    }));
+
+    expect(activity).toMatchObject({
+      externalId: 'https://studio.example/classes/ballet',
+      name: 'Pre-Ballet',
+      startTime: '10:00',
+      endTime: '10:45',
+      dayOfWeek: ['Tuesday', 'Thursday'],
+      dateStart: '2026-01-06',
+      dateEnd: '2026-01-22',
+      locationName: 'Studio A',
+      fullAddress: '12 Main St, Vancouver',
+      latitude: 49.28,
+      longitude: -123.12,
+      cost: 95,
+      registrationUrl: 'https://studio.example/register',
+      ageMin: 3,
+      ageMax: 5,
+    });
+    expect(activity.sessions?.map(session => session.date)).toEqual([
+      '2026-01-06', '2026-01-08', '2026-01-15', '2026-01-20', '2026-01-22',
+    ]);
+  });
+
+  it('should make one activity per course instance', () => {
+    const activities = parseJsonLdActivities(JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        {
+          '@type': 'Course',
+          '@id': 'pottery',
+          name: 'Kids Pottery',
+          description: 'Hand building and wheel basics',
+          hasCourseInstance: [
+            { '@type': 'CourseInstance', startDate: '2026-04-04T13:00', endDate: '2026-04-04T14:30' },
+            { '@type': 'CourseInstance', identifier: 'pottery-may', startDate: '2026-05-02T13:00' },
+          ],
+        },
+        { '@type': 'Organization', name: 'Clay Studio' },
+      ],
+    }));
+
+    expect(activities).toHaveLength(2);
+    expect(activities[0]).toMatchObject({ externalId: 'pottery-2026-04-04', name: 'Kids Pottery', endTime: '14:30' });
+    expect(activities[1]).toMatchObject({ externalId: 'pottery-may', description: 'Hand building and wheel basics' });
+  });
+
+  it('should skip cancelled events', () => {
+    const activities = parseJsonLdActivities(JSON.stringify([
+      { '@type': 'Event', name: 'Open Gym', startDate: '2026-03-01T09:00' },
+      { '@type': 'Event', name: 'Family Swim', startDate: '2026-03-02', eventStatus: 'https://schema.org/EventCancelled' },
+    ]));
+
+    expect(activities.map(activity => activity.name)).toEqual(['Open Gym']);
+    expect(activities[0].externalId).toBe('open-gym-2026-03-01');
+  });
+
+  it('should explain when a page has no events', () => {
+    expect(() => parseJsonLdActivities('<html><body>No markup</body></html>')).toThrow('No valid JSON-LD found');
+    expect(() => parseJsonLdActivities(page({ '@type': 'Organization', name: 'Studio' })))
+      .toThrow('No schema.org Event or Course found');
+  });
+});
+
+describe('parseJsonLdRows', () => {
+  it('should serialize sessions into the Sessions column', () => {
+    const [row] = parseJsonLdRows(JSON.stringify({
+      '@type': 'Event',
+      name: 'Robotics Camp',
+      startDate: '2026-07-06T09:00',
+      endDate: '2026-07-08T15:00',
+    }));
+
+    expect(row['Start Date']).toBe('2026-07-06');
+    expect(row['End Date']).toBe('2026-07-08');
+    expect(JSON.parse(row.Sessions as string)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Outbound Request Tests
+ * Tests for keeping vendor-supplied URLs off internal addresses
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import {
+  assertPublicHost,
+  isPrivateAddress,
+  publicHttpAgent,
+} from '../../../../server/src/utils/outboundRequests';
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private, link-local and reserved addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '[::1]', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses and leave hostnames to lookup', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', 'example.com']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('assertPublicHost', () => {
+  it('should reject hosts that resolve to private addresses', async () => {
+    await expect(assertPublicHost('10.0.0.8')).rejects.toThrow('not a public address');
+    await expect(assertPublicHost('localhost')).rejects.toThrow('not a public address');
+  });
+});
+
+describe('publicHttpAgent', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => res.end('internal'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should refuse to connect to a hostname that resolves to loopback', async () => {
+    await expect(axios.get(`http://localhost:${port}/`, { httpAgent: publicHttpAgent, proxy: false }))
+      .rejects.toThrow('not a public address');
+  });
+});
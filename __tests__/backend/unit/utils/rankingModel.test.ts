@@ -0,0 +1,148 @@
+/**
+ * Ranking Model Tests
+ * Tests for grading recommendation feedback, fitting scorer weights,
+ * traffic splitting and per-user preference vectors
+ */
+import {
+  BASELINE_RANKING_VERSION,
+  FeedbackEvent,
+  RankingList,
+  buildPreferenceVector,
+  buildRankingLists,
+  fitRankingWeights,
+  ndcgAtK,
+  pickRankingVersion,
+  summarizeRankingVersions,
+} from '../../../../server/src/ai/utils/rankingModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('buildRankingLists', () => {
+  it('should grade each shown activity by its best feedback', () => {
+    const events: FeedbackEvent[] = [
+      { requestId: 'r1', activityId: 'a', eventType: 'impression', features: { budgetMatch: 15 } },
+      { requestId: 'r1', activityId: 'b', eventType: 'impression', features: { budgetMatch: 0 } },
+      { requestId: 'r1', activityId: 'c', eventType: 'impression', features: { budgetMatch: 0 } },
+      { requestId: 'r1', activityId: 'a', eventType: 'detail_open' },
+      { requestId: 'r1', activityId: 'a', eventType: 'registration' },
+      { requestId: 'r1', activityId: 'b', eventType: 'dismiss' },
+    ];
+
+    const [list] = buildRankingLists(events);
+    const gains = Object.fromEntries(list.items.map(item => [item.activityId, item.gain]));
+
+    expect(gains).toEqual({ a: 4, b: -1, c: 0 });
+  });
+
+  it('should keep positive feedback over a dismissal and skip items without features', () => {
+    const events: FeedbackEvent[] = [
+      { requestId: 'r1', activityId: 'a', eventType: 'impression', features: {} },
+      { requestId: 'r1', activityId: 'b', eventType: 'impression', features: null },
+      { requestId: 'r1', activityId: 'a', eventType: 'favorite' },
+      { requestId: 'r1', activityId: 'a', eventType: 'dismiss' },
+      { requestId: 'r2', activityId: 'a', eventType: 'favorite' },
+    ];
+
+    const lists = buildRankingLists(events);
+
+    expect(lists).toHaveLength(1);
+    expect(lists[0].items).toEqual([{ activityId: 'a', features: {}, gain: 2 }]);
+  });
+});
+
+describe('fitRankingWeights', () => {
+  // Families register for in-budget activities and ignore type matches
+  const lists: RankingList[] = Array.from({ length: 10 }, (_, i) => ({
+    requestId: `r${i}`,
+    items: [
+      { activityId: 'liked', features: { budgetMatch: 15, activityTypeMatch: 0 }, gain: 4 },
+      { activityId: 'shown', features: { budgetMatch: 0, activityTypeMatch: 30 }, gain: 0 },
+    ],
+  }));
+
+  it('should weight the features that predict engagement', () => {
+    const weights = fitRankingWeights(lists);
+
+    expect(weights.budgetMatch).toBeGreaterThan(1);
+    expect(weights.activityTypeMatch).toBeLessThan(1);
+    expect(weights.interestMatch).toBe(1);
+  });
+
+  it('should beat the hand-tuned weights on the lists it was fit to', () => {
+    const weights = fitRankingWeights(lists, { epochs: 300 });
+
+    expect(ndcgAtK(lists)).toBeLessThan(1);
+    expect(ndcgAtK(lists, weights)).toBe(1);
+  });
+
+  it('should keep the hand-tuned weights when there is nothing to learn', () => {
+    const weights = fitRankingWeights([
+      { requestId: 'r1', items: [{ activityId: 'a', features: { budgetMatch: 15 }, gain: 0 }] },
+    ]);
+
+    expect(Object.values(weights).every(weight => weight === 1)).toBe(true);
+  });
+});
+
+describe('pickRankingVersion', () => {
+  it('should give every user the same version each time', () => {
+    const models = [{ version: 'recommendations-1', trafficPercent: 50 }];
+
+    expect(pickRankingVersion('user-1', models)).toBe(pickRankingVersion('user-1', models));
+  });
+
+  it('should split traffic by percentage and fall back to the baseline', () => {
+    const users = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+    const models = [{ version: 'recommendations-1', trafficPercent: 30 }];
+
+    const treated = users.filter(user => pickRankingVersion(user, models) === 'recommendations-1').length;
+
+    expect(treated).toBeGreaterThan(200);
+    expect(treated).toBeLessThan(400);
+    expect(pickRankingVersion('user-1', [])).toBe(BASELINE_RANKING_VERSION);
+  });
+});
+
+describe('buildPreferenceVector', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  it('should favor categories the family engages with and penalize dismissals', () => {
+    const vector = buildPreferenceVector([
+      { category: 'Swimming', eventType: 'registration', createdAt: now },
+      { category: 'Swimming', eventType: 'impression', createdAt: now },
+      { category: 'Music', eventType: 'dismiss', createdAt: now },
+      { category: null, eventType: 'favorite', createdAt: now },
+    ], now);
+
+    expect(vector.swimming).toBeGreaterThan(0);
+    expect(vector.music).toBeLessThan(0);
+    expect(Object.keys(vector)).toEqual(['swimming', 'music']);
+  });
+
+  it('should count recent feedback more than old feedback', () => {
+    const vector = buildPreferenceVector([
+      { category: 'Swimming', eventType: 'favorite', createdAt: now },
+      { category: 'Music', eventType: 'favorite', createdAt: new Date(now.getTime() - 90 * DAY_MS) },
+    ], now);
+
+    expect(vector.swimming).toBeGreaterThan(vector.music);
+  });
+});
+
+describe('summarizeRankingVersions', () => {
+  it('should report rates per impression for each version', () => {
+    const report = summarizeRankingVersions(
+      [
+        { version: 'baseline', eventType: 'impression', events: 100, requests: 10 },
+        { version: 'baseline', eventType: 'favorite', events: 5, requests: 4 },
+        { version: 'recommendations-1', eventType: 'impression', events: 50, requests: 5 },
+        { version: 'recommendations-1', eventType: 'dismiss', events: 2, requests: 2 },
+      ],
+      { baseline: { impressions: 8, avgRank: 2.5 } }
+    );
+
+    expect(report.map(r => r.version)).toEqual(['baseline', 'recommendations-1']);
+    expect(report[0]).toMatchObject({ requests: 10, favoriteRate: 0.05, engagementRate: 0.08, avgEngagedRank: 2.5 });
+    expect(report[1]).toMatchObject({ dismissRate: 0.04, engagementRate: 0, avgEngagedRank: null });
+  });
+});
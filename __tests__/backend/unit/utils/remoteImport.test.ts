@@ -0,0 +1,120 @@
+/**
+ * Remote Import Tests
+ * Tests for scheduled source timing, content hashing and fetching files from a local server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  HttpFetcher,
+  RemoteFetcher,
+  fetchRemoteFile,
+  hashContent,
+  isImportSourceFrequency,
+  nextScheduledRun,
+  remoteFileName,
+} from '../../../../server/src/utils/remoteImport';
+
+const SCHEDULE_CSV = 'Program Name,Start Date\nSwim Lessons,2026-06-01\n';
+
+describe('nextScheduledRun', () => {
+  const from = new Date('2026-05-01T09:00:00Z');
+
+  it('adds the interval for each frequency', () => {
+    expect(nextScheduledRun('hourly', from).toISOString()).toBe('2026-05-01T10:00:00.000Z');
+    expect(nextScheduledRun('daily', from).toISOString()).toBe('2026-05-02T09:00:00.000Z');
+    expect(nextScheduledRun('weekly', from).toISOString()).toBe('2026-05-08T09:00:00.000Z');
+  });
+
+  it('recognizes supported frequencies only', () => {
+    expect(isImportSourceFrequency('daily')).toBe(true);
+    expect(isImportSourceFrequency('monthly')).toBe(false);
+    expect(isImportSourceFrequency(undefined)).toBe(false);
+  });
+});
+
+describe('hashContent', () => {
+  it('is stable for the same content and changes with it', () => {
+    expect(hashContent(Buffer.from(SCHEDULE_CSV))).toBe(hashContent(Buffer.from(SCHEDULE_CSV)));
+    expect(hashContent(Buffer.from(SCHEDULE_CSV))).not.toBe(hashContent(Buffer.from(SCHEDULE_CSV + 'Art,2026-06-02\n')));
+  });
+});
+
+describe('remoteFileName', () => {
+  it('prefers the Content-Disposition file name', () => {
+    const url = new URL('https://example.com/export?format=csv');
+    expect(remoteFileName(url, 'attachment; filename="spring schedule.xlsx"')).toBe('spring schedule.xlsx');
+  });
+
+  it('falls back to the last path segment', () => {
+    expect(remoteFileName(new URL('https://example.com/files/schedule%202026.csv'))).toBe('schedule 2026.csv');
+    expect(remoteFileName(new URL('https://example.com/'))).toBe('example.com');
+  });
+});
+
+describe('fetchRemoteFile', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const fetchers = { 'http:': new HttpFetcher(5000, { allowPrivateAddresses: true }) };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/schedule.csv') {
+        res.writeHead(200, { 'Content-Type': 'text/csv; charset=utf-8' });
+        res.end(SCHEDULE_CSV);
+      } else if (req.url === '/export') {
+        res.writeHead(200, {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': 'attachment; filename="programs.csv"',
+        });
+        res.end(SCHEDULE_CSV);
+      } else if (req.url === '/empty.csv') {
+        res.writeHead(200, { 'Content-Type': 'text/csv' });
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end('Not found');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('fetches a file over http', async () => {
+    const file = await fetchRemoteFile(`${baseUrl}/schedule.csv`, fetchers);
+    expect(file.buffer.toString()).toBe(SCHEDULE_CSV);
+    expect(file.fileName).toBe('schedule.csv');
+    expect(file.mimeType).toBe('text/csv');
+  });
+
+  it('names the file from Content-Disposition', async () => {
+    const file = await fetchRemoteFile(`${baseUrl}/export`, fetchers);
+    expect(file.fileName).toBe('programs.csv');
+  });
+
+  it('rejects error responses and empty files', async () => {
+    await expect(fetchRemoteFile(`${baseUrl}/missing.csv`, fetchers)).rejects.toThrow('Source responded with HTTP 404');
+    await expect(fetchRemoteFile(`${baseUrl}/empty.csv`, fetchers)).rejects.toThrow('Source returned an empty file');
+  });
+
+  it('refuses loopback and private hosts by default', async () => {
+    const guarded = { 'http:': new HttpFetcher(5000) };
+    const port = new URL(baseUrl).port;
+
+    await expect(fetchRemoteFile(`${baseUrl}/schedule.csv`, guarded)).rejects.toThrow('not a public address');
+    await expect(fetchRemoteFile(`http://localhost:${port}/schedule.csv`, guarded)).rejects.toThrow('not a public address');
+  });
+
+  it('uses the fetcher registered for the protocol', async () => {
+    const sftp: RemoteFetcher = {
+      fetch: async (url) => ({ buffer: Buffer.from(SCHEDULE_CSV), fileName: url.pathname.slice(1), mimeType: 'text/csv' }),
+    };
+
+    const file = await fetchRemoteFile('sftp://files.example.com/schedule.csv', { ...fetchers, 'sftp:': sftp });
+    expect(file.fileName).toBe('schedule.csv');
+    await expect(fetchRemoteFile('ftp://files.example.com/schedule.csv', fetchers)).rejects.toThrow('Unsupported source protocol: ftp');
+  });
+});
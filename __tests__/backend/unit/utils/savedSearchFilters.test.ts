@@ -0,0 +1,111 @@
+/**
+ * Saved Search Filters Tests
+ * Tests for filter normalization, search param mapping and default names
+ */
+import {
+  normalizeSavedSearchFilters,
+  toSearchParams,
+  describeSavedSearch,
+} from '../../../../server/src/utils/savedSearchFilters';
+
+describe('normalizeSavedSearchFilters', () => {
+  it('should keep known fields and drop unknown ones', () => {
+    const filters = normalizeSavedSearchFilters({
+      search: '  swim ',
+      ageMin: '5',
+      costMax: 200,
+      hideFullActivities: true,
+      limit: 50,
+      offset: 100,
+      isAdmin: true,
+    });
+
+    expect(filters).toEqual({
+      search: 'swim',
+      ageMin: 5,
+      costMax: 200,
+      hideFullActivities: true,
+    });
+  });
+
+  it('should accept the app aliases', () => {
+    const filters = normalizeSavedSearchFilters({
+      minCost: 10,
+      maxCost: 150,
+      ageRange: { min: 3, max: 6 },
+      environment: 'outdoor',
+      dayOfWeek: 'Saturday,Sunday',
+    });
+
+    expect(filters).toEqual({
+      costMin: 10,
+      costMax: 150,
+      ageMin: 3,
+      ageMax: 6,
+      environmentFilter: 'outdoor',
+      daysOfWeek: ['Saturday', 'Sunday'],
+    });
+  });
+
+  it('should drop empty and invalid values', () => {
+    const filters = normalizeSavedSearchFilters({
+      search: '',
+      ageMax: 'abc',
+      costMin: null,
+      activityTypes: [],
+      dateMatchMode: 'sometimes',
+      environmentFilter: 'all',
+      hideClosedActivities: false,
+    });
+
+    expect(filters).toEqual({});
+  });
+
+  it('should reject non-object input', () => {
+    expect(() => normalizeSavedSearchFilters(null)).toThrow('Filters must be an object');
+    expect(() => normalizeSavedSearchFilters(['swimming'])).toThrow('Filters must be an object');
+  });
+});
+
+describe('toSearchParams', () => {
+  it('should map stored filters onto searchActivities parameters', () => {
+    const params = toSearchParams({
+      activityTypes: ['swimming-aquatics', 'dance'],
+      daysOfWeek: ['Monday'],
+      startDateAfter: '2025-09-01',
+      startDateBefore: 'not a date',
+      hideClosedOrFull: true,
+    });
+
+    expect(params.categories).toBe('swimming-aquatics,dance');
+    expect(params.dayOfWeek).toEqual(['Monday']);
+    expect(params.startDate).toEqual(new Date('2025-09-01'));
+    expect(params.endDate).toBeUndefined();
+    expect(params.hideClosedOrFull).toBe(true);
+    expect(params.hideFullActivities).toBe(false);
+  });
+});
+
+describe('describeSavedSearch', () => {
+  it('should summarize the main filters', () => {
+    expect(describeSavedSearch({
+      activityTypes: ['swimming-aquatics'],
+      ageMin: 5,
+      ageMax: 8,
+      costMax: 200,
+    })).toBe('Swimming Aquatics · Ages 5-8 · Up to $200');
+  });
+
+  it('should describe free searches and multiple locations', () => {
+    expect(describeSavedSearch({
+      search: 'art',
+      costMax: 0,
+      locations: ['Vancouver', 'Burnaby'],
+      daysOfWeek: ['Saturday', 'Sunday'],
+    })).toBe('"art" · Free · 2 locations · Sat/Sun');
+  });
+
+  it('should fall back to a generic name', () => {
+    expect(describeSavedSearch({})).toBe('All activities');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Schedule Conflict Tests
+ * Tests for occurrence expansion, overlap detection and travel-time conflicts
+ */
+import {
+  calculateOverlap,
+  detectScheduleConflicts,
+  estimateTravelMinutes,
+  expandOccurrences,
+  ScheduleItem,
+} from '../../../../server/src/utils/scheduleConflicts';
+
+// Monday
+const from = new Date('2025-09-08T00:00:00Z');
+const until = new Date('2025-09-22T00:00:00Z');
+
+// Two community centres about 12 km apart
+const KITS = { latitude: 49.2684, longitude: -123.1686 };
+const BURNABY = { latitude: 49.2488, longitude: -123.0016 };
+
+const item = (id: string, overrides: Partial<ScheduleItem> = {}): ScheduleItem => ({
+  id,
+  childId: 'child-1',
+  childName: 'Maya',
+  activityId: `activity-${id}`,
+  activityName: `Activity ${id}`,
+  locationName: null,
+  latitude: null,
+  longitude: null,
+  dateStart: new Date('2025-09-01T00:00:00Z'),
+  dateEnd: new Date('2025-12-15T00:00:00Z'),
+  dayOfWeek: ['Monday'],
+  startTime: '4:00 pm',
+  endTime: '5:00 pm',
+  scheduledDate: null,
+  sessions: [],
+  ...overrides,
+});
+
+describe('calculateOverlap', () => {
+  it('should classify overlaps relative to the first range', () => {
+    expect(calculateOverlap(960, 1020, 990, 1050)).toEqual({ type: 'partial-end', minutes: 30 });
+    expect(calculateOverlap(990, 1050, 960, 1020)).toEqual({ type: 'partial-start', minutes: 30 });
+    expect(calculateOverlap(960, 1080, 990, 1020)).toEqual({ type: 'contains', minutes: 30 });
+    expect(calculateOverlap(990, 1020, 960, 1080)).toEqual({ type: 'full', minutes: 30 });
+    expect(calculateOverlap(960, 1020, 1020, 1080)).toEqual({ type: 'none', minutes: 0 });
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('should repeat weekly days within the window', () => {
+    const occurrences = expandOccurrences(item('a', { dayOfWeek: ['Mon', 'Wed'] }), from, until);
+
+    expect(occurrences.map(o => o.date)).toEqual(['2025-09-08', '2025-09-10', '2025-09-15', '2025-09-17']);
+    expect(occurrences[0]).toMatchObject({ start: 960, end: 1020 });
+  });
+
+  it('should prefer explicit sessions and skip untimed ones', () => {
+    const occurrences = expandOccurrences(item('a', {
+      sessions: [
+        { date: '2025-09-09', startTime: '9:00 am', endTime: null },
+        { date: '2025-09-12', startTime: null, endTime: null },
+        { date: '2025-10-01', startTime: '9:00 am', endTime: '10:00 am' },
+      ],
+      startTime: null,
+      endTime: null,
+    }), from, until);
+
+    expect(occurrences).toEqual([{ date: '2025-09-09', start: 540, end: 600 }]);
+  });
+
+  it('should keep text session dates on their own day east of UTC', () => {
+    const timezone = process.env.TZ;
+    process.env.TZ = 'Europe/Berlin';
+    try {
+      const occurrences = expandOccurrences(item('a', {
+        sessions: [
+          { date: 'Sep 9, 2025', startTime: '9:00 am', endTime: '10:00 am' },
+          { date: '2025-09-10', startTime: '9:00 am', endTime: '10:00 am' },
+        ],
+      }), from, until);
+
+      expect(occurrences.map(o => o.date)).toEqual(['2025-09-09', '2025-09-10']);
+    } finally {
+      process.env.TZ = timezone;
+    }
+  });
+});
+
+describe('estimateTravelMinutes', () => {
+  it('should return null without coordinates and zero at the same venue', () => {
+    expect(estimateTravelMinutes(KITS, { latitude: null, longitude: null })).toBeNull();
+    expect(estimateTravelMinutes(KITS, KITS)?.minutes).toBe(0);
+  });
+
+  it('should include a buffer on top of the drive', () => {
+    const travel = estimateTravelMinutes(KITS, BURNABY)!;
+    expect(travel.distanceKm).toBeGreaterThan(11);
+    expect(travel.distanceKm).toBeLessThan(13);
+    expect(travel.minutes).toBe(38);
+  });
+});
+
+describe('detectScheduleConflicts', () => {
+  it('should report sibling overlaps once per pair with a date count', () => {
+    const conflicts = detectScheduleConflicts([
+      item('swim'),
+      item('piano', { childId: 'child-2', childName: 'Leo', startTime: '4:30 pm', endTime: '5:30 pm' }),
+    ], { from, horizonDays: 14 });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      type: 'overlap',
+      severity: 'medium',
+      sameChild: false,
+      date: '2025-09-08',
+      occurrences: 2,
+      overlapType: 'partial-end',
+      overlapMinutes: 30,
+    });
+    expect(conflicts[0].message).toBe(
+      "Maya's Activity swim overlaps Leo's Activity piano by 30 minutes on Mon, Sep 8 (and 1 more date)"
+    );
+  });
+
+  it('should flag back-to-back activities across town', () => {
+    const conflicts = detectScheduleConflicts([
+      item('swim', { ...KITS }),
+      item('hockey', { ...BURNABY, startTime: '5:15 pm', endTime: '6:15 pm' }),
+    ], { from, horizonDays: 7 });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      type: 'travel',
+      severity: 'high',
+      sameChild: true,
+      gapMinutes: 15,
+      travelMinutes: 38,
+    });
+  });
+
+  it('should ignore siblings in the same activity and activities on different days', () => {
+    const conflicts = detectScheduleConflicts([
+      item('swim'),
+      { ...item('swim'), id: 'swim-leo', childId: 'child-2', childName: 'Leo' },
+      item('art', { dayOfWeek: ['Tuesday'] }),
+    ], { from, horizonDays: 14 });
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should only check pairs involving focused items', () => {
+    const conflicts = detectScheduleConflicts([
+      item('swim'),
+      item('piano'),
+      item('new', { startTime: '4:45 pm', endTime: '5:45 pm' }),
+    ], { from, horizonDays: 7, focusIds: ['new'] });
+
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts.every(c => c.activity.childActivityId === 'new')).toBe(true);
+    expect(conflicts[0].overlapType).toBe('partial-start');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Snapshot Trends Tests
+ * Tests for daily rollups and sell-out projections
+ */
+import {
+  rollupSnapshotsByDay,
+  projectFillRate,
+  describeFillProjection,
+  DailySnapshotPoint,
+} from '../../../../server/src/utils/snapshotTrends';
+
+const dayPoint = (day: string, spotsClose: number | null): DailySnapshotPoint => ({
+  day: new Date(`${day}T00:00:00Z`),
+  spotsMin: spotsClose,
+  spotsMax: spotsClose,
+  spotsClose,
+  costMin: 100,
+  costMax: 100,
+  costClose: 100,
+  sampleCount: 1,
+});
+
+describe('rollupSnapshotsByDay', () => {
+  it('should aggregate samples into one point per UTC day', () => {
+    const points = rollupSnapshotsByDay([
+      { spotsAvailable: 8, cost: 120, capturedAt: new Date('2025-09-02T18:00:00Z') },
+      { spotsAvailable: 10, cost: 120, capturedAt: new Date('2025-09-02T06:00:00Z') },
+      { spotsAvailable: null, cost: 95, capturedAt: new Date('2025-09-02T23:00:00Z') },
+      { spotsAvailable: 5, cost: 95, capturedAt: new Date('2025-09-03T06:00:00Z') },
+    ]);
+
+    expect(points).toHaveLength(2);
+    expect(points[0]).toMatchObject({
+      spotsMin: 8,
+      spotsMax: 10,
+      spotsClose: 8,
+      costMin: 95,
+      costMax: 120,
+      costClose: 95,
+      sampleCount: 3,
+    });
+    expect(points[1].day.toISOString()).toBe('2025-09-03T00:00:00.000Z');
+  });
+});
+
+describe('projectFillRate', () => {
+  const now = new Date('2025-09-10T12:00:00Z');
+
+  it('should project days until full from a steady decline', () => {
+    const projection = projectFillRate(
+      [dayPoint('2025-09-07', 14), dayPoint('2025-09-08', 12), dayPoint('2025-09-09', 10), dayPoint('2025-09-10', 8)],
+      { now }
+    );
+
+    expect(projection.spotsPerDay).toBe(2);
+    expect(projection.daysUntilFull).toBe(4);
+    expect(projection.projectedFullAt?.toISOString()).toBe('2025-09-14T00:00:00.000Z');
+    expect(projection.message).toBe('At current pace this fills in ~4 days');
+  });
+
+  it('should not project when spots are flat or increasing', () => {
+    const projection = projectFillRate([dayPoint('2025-09-08', 5), dayPoint('2025-09-09', 6)], { now });
+
+    expect(projection.daysUntilFull).toBeNull();
+    expect(projection.message).toBeNull();
+    expect(projection.spotsPerDay).toBe(0);
+  });
+
+  it('should not project with too little data or when already full', () => {
+    expect(projectFillRate([dayPoint('2025-09-10', 5)], { now }).daysUntilFull).toBeNull();
+    expect(projectFillRate([dayPoint('2025-09-09', 2), dayPoint('2025-09-10', 0)], { now }).daysUntilFull).toBeNull();
+  });
+
+  it('should ignore points outside the window and sell-outs beyond the horizon', () => {
+    const projection = projectFillRate(
+      [dayPoint('2025-08-01', 100), dayPoint('2025-09-09', 80), dayPoint('2025-09-10', 79)],
+      { now }
+    );
+
+    expect(projection.basedOnDays).toBe(2);
+    expect(projection.spotsPerDay).toBe(1);
+    expect(projection.daysUntilFull).toBeNull();
+  });
+});
+
+describe('describeFillProjection', () => {
+  it('should say within a day for imminent sell-outs', () => {
+    expect(describeFillProjection(1)).toBe('At current pace this fills within a day');
+    expect(describeFillProjection(null)).toBeNull();
+  });
+});
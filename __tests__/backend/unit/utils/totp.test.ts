@@ -0,0 +1,108 @@
+/**
+ * TOTP Tests
+ * Tests for authenticator app codes and recovery codes
+ */
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  timeStep,
+  verifyTotp,
+} from '../../../../server/src/utils/totp';
+
+// RFC 6238 test secret: ASCII "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 255, 128, 64]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('encodes the RFC secret', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+  });
+
+  it('ignores case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==')).toEqual(Buffer.from('12345678901234567890'));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, timeStep(at(seconds)))).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = at(1111111111);
+  const step = timeStep(now);
+
+  it('returns the matching step', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', now)).toBe(step);
+  });
+
+  it('allows one step of clock drift either way', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now)).toBeNull();
+  });
+
+  it('rejects a code already used', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', now, step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '050471', now, step - 1)).toBe(step);
+  });
+
+  it('accepts spaces in the code', () => {
+    expect(verifyTotp(RFC_SECRET, '050 471', now)).toBe(step);
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '05047', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('includes the issuer in the label and parameters', () => {
+    const url = buildOtpauthUrl('Kids Activity Tracker', 'parent@example.com', RFC_SECRET);
+    expect(url.startsWith('otpauth://totp/Kids%20Activity%20Tracker%3Aparent%40example.com?')).toBe(true);
+
+    const params = new URL(url).searchParams;
+    expect(params.get('secret')).toBe(RFC_SECRET);
+    expect(params.get('issuer')).toBe('Kids Activity Tracker');
+    expect(params.get('digits')).toBe('6');
+    expect(params.get('period')).toBe('30');
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct codes in the abcd-efgh format', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}$/));
+  });
+
+  it('hashes ignoring case, spaces and dashes', () => {
+    expect(hashRecoveryCode('ABCD EFGH')).toBe(hashRecoveryCode('abcd-efgh'));
+    expect(hashRecoveryCode('abcdefgh')).toBe(hashRecoveryCode('abcd-efgh'));
+    expect(hashRecoveryCode('abcd-efgj')).not.toBe(hashRecoveryCode('abcd-efgh'));
+  });
+});
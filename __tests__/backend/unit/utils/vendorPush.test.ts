@@ -0,0 +1,48 @@
+/**
+ * Vendor Push Tests
+ * Tests for batch duplicate detection, approval and import limits
+ */
+import {
+  allocateCreateQuota,
+  canAutoApprove,
+  findDuplicateExternalIds,
+} from '../../../../server/src/utils/vendorPush';
+
+describe('findDuplicateExternalIds', () => {
+  it('should return only repeated external IDs with their positions', () => {
+    const duplicates = findDuplicateExternalIds(['a', 'b', 'a', null, 'c', 'a', undefined, null]);
+
+    expect([...duplicates.entries()]).toEqual([['a', [0, 2, 5]]]);
+  });
+});
+
+describe('canAutoApprove', () => {
+  it('should apply batches from vendors without review', () => {
+    expect(canAutoApprove({ requiresApproval: false, autoApproveUpdates: false }, 3)).toBe(true);
+  });
+
+  it('should skip review for update-only batches when allowed', () => {
+    const settings = { requiresApproval: true, autoApproveUpdates: true };
+    expect(canAutoApprove(settings, 0)).toBe(true);
+    expect(canAutoApprove(settings, 1)).toBe(false);
+  });
+
+  it('should require review otherwise', () => {
+    expect(canAutoApprove({ requiresApproval: true, autoApproveUpdates: false }, 0)).toBe(false);
+  });
+});
+
+describe('allocateCreateQuota', () => {
+  it('should allow creates up to the tighter limit and every update', () => {
+    const allowed = allocateCreateQuota(
+      [true, false, true, true, false],
+      { dailyRemaining: 5, monthlyRemaining: 2 }
+    );
+
+    expect(allowed).toEqual([true, true, true, false, true]);
+  });
+
+  it('should still allow updates when the limit is used up', () => {
+    expect(allocateCreateQuota([true, false], { dailyRemaining: 0, monthlyRemaining: 10 })).toEqual([false, true]);
+  });
+});
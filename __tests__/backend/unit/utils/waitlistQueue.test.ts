@@ -0,0 +1,122 @@
+/**
+ * Waitlist Queue Tests
+ * Tests for family queue ordering, promotion with holds and re-arming
+ */
+import {
+  groupWaitlistFamilies,
+  getWaitlistQueuePositions,
+  planWaitlistPromotion,
+  WaitlistQueueEntry,
+  WAITLIST_HOLD_MINUTES,
+} from '../../../../server/src/utils/waitlistQueue';
+
+const now = new Date('2025-09-10T12:00:00Z');
+
+const entry = (
+  id: string,
+  userId: string,
+  joinedMinutesAgo: number,
+  overrides: Partial<WaitlistQueueEntry> = {}
+): WaitlistQueueEntry => ({
+  id,
+  childId: `child-${id}`,
+  userId,
+  createdAt: new Date(now.getTime() - joinedMinutesAgo * 60 * 1000),
+  status: 'waiting',
+  holdExpiresAt: null,
+  ...overrides,
+});
+
+describe('groupWaitlistFamilies', () => {
+  it('should order families by their earliest-joined child', () => {
+    const families = groupWaitlistFamilies([
+      entry('a', 'user-1', 10),
+      entry('b', 'user-2', 30),
+      entry('c', 'user-1', 60),
+    ]);
+
+    expect(families.map(f => f.userId)).toEqual(['user-1', 'user-2']);
+    expect(families[0].entries.map(e => e.id)).toEqual(['c', 'a']);
+    expect(families.map(f => f.queuePosition)).toEqual([1, 2]);
+  });
+});
+
+describe('getWaitlistQueuePositions', () => {
+  it('should skip families that were already alerted', () => {
+    const positions = getWaitlistQueuePositions([
+      entry('a', 'user-1', 60, { status: 'notified' }),
+      entry('b', 'user-2', 30),
+      entry('c', 'user-3', 10),
+    ]);
+
+    expect(positions.get('a')).toBeUndefined();
+    expect(positions.get('b')).toBe(1);
+    expect(positions.get('c')).toBe(2);
+  });
+});
+
+describe('planWaitlistPromotion', () => {
+  it('should promote one family per open spot in queue order', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60),
+      entry('b', 'user-2', 30),
+      entry('c', 'user-1', 20),
+      entry('d', 'user-3', 10),
+    ], 2, now);
+
+    expect(plan.promote.map(f => f.userId)).toEqual(['user-1', 'user-2']);
+    expect(plan.promote[0].entries.map(e => e.id)).toEqual(['a', 'c']);
+    expect(plan.holdExpiresAt).toEqual(new Date(now.getTime() + WAITLIST_HOLD_MINUTES * 60 * 1000));
+    expect(plan.rearmEntryIds).toEqual([]);
+  });
+
+  it('should skip families that cannot be alerted without moving anyone up the queue', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60),
+      entry('b', 'user-2', 30),
+      entry('c', 'user-3', 10),
+    ], 1, now, userId => userId !== 'user-1');
+
+    expect(plan.promote.map(f => [f.userId, f.queuePosition])).toEqual([['user-2', 2]]);
+  });
+
+  it('should count unexpired holds against open spots', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60, { status: 'notified', holdExpiresAt: new Date(now.getTime() + 60000) }),
+      entry('b', 'user-2', 30),
+    ], 1, now);
+
+    expect(plan.activeHolds).toBe(1);
+    expect(plan.promote).toEqual([]);
+  });
+
+  it('should move to the next family once a hold expires', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60, { status: 'notified', holdExpiresAt: new Date(now.getTime() - 60000) }),
+      entry('b', 'user-2', 30),
+    ], 1, now);
+
+    expect(plan.promote.map(f => f.userId)).toEqual(['user-2']);
+    expect(plan.promote[0].queuePosition).toBe(1);
+  });
+
+  it('should re-arm notified entries when the activity is full again', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60, { status: 'notified', holdExpiresAt: new Date(now.getTime() - 60000) }),
+      entry('b', 'user-2', 30),
+    ], 0, now);
+
+    expect(plan.rearmEntryIds).toEqual(['a']);
+    expect(plan.promote).toEqual([]);
+  });
+
+  it('should do nothing when the spot count is unknown', () => {
+    const plan = planWaitlistPromotion([
+      entry('a', 'user-1', 60, { status: 'notified' }),
+      entry('b', 'user-2', 30),
+    ], null, now);
+
+    expect(plan.rearmEntryIds).toEqual([]);
+    expect(plan.promote).toEqual([]);
+  });
+});
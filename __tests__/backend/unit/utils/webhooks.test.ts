@@ -0,0 +1,65 @@
+/**
+ * Webhook Tests
+ * Tests for event filtering, payload signing and retry backoff
+ */
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  endpointWantsEvent,
+  nextRetryAt,
+  signPayload,
+  verifySignature,
+} from '../../../../server/src/utils/webhooks';
+
+describe('endpointWantsEvent', () => {
+  it('should deliver every event to endpoints without a filter', () => {
+    expect(endpointWantsEvent([], 'import.rejected')).toBe(true);
+  });
+
+  it('should only deliver subscribed events, plus test events', () => {
+    const events = ['import.approved'];
+    expect(endpointWantsEvent(events, 'import.approved')).toBe(true);
+    expect(endpointWantsEvent(events, 'sponsored.impression_cap_reached')).toBe(false);
+    expect(endpointWantsEvent(events, 'webhook.test')).toBe(true);
+  });
+});
+
+describe('signPayload / verifySignature', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ event: 'webhook.test' });
+  const timestamp = 1700000000;
+
+  it('should produce a signature the receiver can verify', () => {
+    const header = signPayload(secret, body, timestamp);
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifySignature(secret, body, header, 300, timestamp + 10)).toBe(true);
+  });
+
+  it('should reject a tampered body or wrong secret', () => {
+    const header = signPayload(secret, body, timestamp);
+
+    expect(verifySignature(secret, body + ' ', header, 300, timestamp)).toBe(false);
+    expect(verifySignature('whsec_other', body, header, 300, timestamp)).toBe(false);
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    const header = signPayload(secret, body, timestamp);
+
+    expect(verifySignature(secret, body, header, 300, timestamp + 301)).toBe(false);
+  });
+});
+
+describe('nextRetryAt', () => {
+  const from = new Date('2026-01-01T00:00:00Z');
+  const minutesAfter = (date: Date | null) => (date!.getTime() - from.getTime()) / 60000;
+
+  it('should double the delay after each attempt', () => {
+    expect(minutesAfter(nextRetryAt(1, from))).toBe(1);
+    expect(minutesAfter(nextRetryAt(2, from))).toBe(2);
+    expect(minutesAfter(nextRetryAt(5, from))).toBe(16);
+  });
+
+  it('should stop retrying once attempts are used up', () => {
+    expect(nextRetryAt(MAX_DELIVERY_ATTEMPTS, from)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Deep Link Tests
+ * Tests for building shareable links and reading search filters back out of them
+ */
+import {
+  DEEP_LINK_BASE_URL,
+  buildCalendarDayLink,
+  buildCityLink,
+  buildSearchLink,
+  encodeSearchFilters,
+  isValidLinkDate,
+  parseSearchLinkFilters,
+} from '../../../../src/utils/deepLinks';
+import { ContextualFilters } from '../../../../src/types/filters';
+
+describe('search link filters', () => {
+  it('should round trip contextual filters through the query string', () => {
+    const filters: ContextualFilters = {
+      activityTypes: ['swimming-aquatics', 'team-sports'],
+      ageRange: { min: 4, max: 8 },
+      priceRange: { min: 0, max: 150 },
+      daysOfWeek: ['Saturday', 'Sunday'],
+      timeOfDay: ['morning'],
+      environment: 'indoor',
+    };
+
+    expect(parseSearchLinkFilters(encodeSearchFilters(filters))).toEqual(filters);
+  });
+
+  it('should drop unknown and malformed values', () => {
+    const filters = parseSearchLinkFilters({
+      types: 'swimming-aquatics,,',
+      age: '8-4',
+      price: 'free',
+      days: 'Saturday,Funday',
+      time: 'night,evening',
+      env: 'underwater',
+    });
+
+    expect(filters).toEqual({
+      activityTypes: ['swimming-aquatics'],
+      daysOfWeek: ['Saturday'],
+      timeOfDay: ['evening'],
+    });
+  });
+
+  it('should return undefined when the link has no filters', () => {
+    expect(parseSearchLinkFilters({})).toBeUndefined();
+    expect(encodeSearchFilters({ environment: 'all' })).toEqual({});
+  });
+});
+
+describe('link builders', () => {
+  it('should build a search link with the screen type, title and filters', () => {
+    const link = buildSearchLink({
+      type: 'activityType',
+      activityType: 'swimming-aquatics',
+      title: 'Swim & Splash',
+      filters: { ageRange: { min: 3, max: 5 } },
+    });
+
+    expect(link).toBe(
+      `${DEEP_LINK_BASE_URL}/search?type=activityType&activityType=swimming-aquatics&title=Swim%20%26%20Splash&age=3-5`
+    );
+  });
+
+  it('should encode path segments', () => {
+    expect(buildCityLink('North Vancouver')).toBe(`${DEEP_LINK_BASE_URL}/city/North%20Vancouver`);
+    expect(buildCalendarDayLink('child-1', '2026-05-02')).toBe(`${DEEP_LINK_BASE_URL}/calendar/child-1/2026-05-02`);
+  });
+});
+
+describe('isValidLinkDate', () => {
+  it('should accept real days only', () => {
+    expect(isValidLinkDate('2026-02-28')).toBe(true);
+    expect(isValidLinkDate('2026-02-30')).toBe(false);
+    expect(isValidLinkDate('2026-2-3')).toBe(false);
+    expect(isValidLinkDate(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Dismissal Tests
+ * Tests for the "not interested" choices offered for an activity
+ */
+import { describeDismissal, getNotInterestedOptions } from '../../../../src/utils/dismissals';
+import { Activity } from '../../../../src/types';
+
+const baseActivity = {
+  id: 'activity-1',
+  name: 'Learn to Skate',
+  provider: 'City Rec',
+  location: 'Unknown',
+} as Activity;
+
+describe('getNotInterestedOptions', () => {
+  it('should offer the activity, provider, location, subtype and category', () => {
+    const options = getNotInterestedOptions({
+      ...baseActivity,
+      providerId: 'provider-1',
+      location: { name: 'West Arena', address: '1 Main St' },
+      locationId: 'location-1',
+      activitySubtype: { id: 'subtype-1', name: 'Figure Skating' },
+      category: 'Skating',
+    });
+
+    expect(options).toEqual([
+      { kind: 'activity', targetId: 'activity-1', label: 'This activity' },
+      { kind: 'provider', targetId: 'provider-1', label: 'Anything from City Rec' },
+      { kind: 'location', targetId: 'location-1', label: 'Anything at West Arena' },
+      { kind: 'subtype', targetId: 'subtype-1', label: 'All Figure Skating' },
+      { kind: 'category', category: 'Skating', label: 'Anything in Skating' },
+    ]);
+  });
+
+  it('should skip choices the activity has no id or name for', () => {
+    const options = getNotInterestedOptions({ ...baseActivity, locationId: 'location-1' });
+
+    expect(options.map(option => option.kind)).toEqual(['activity']);
+  });
+});
+
+describe('describeDismissal', () => {
+  it('should describe dismissals with and without a saved name', () => {
+    expect(describeDismissal('provider', 'City Rec')).toBe('Anything from City Rec');
+    expect(describeDismissal('activity', null)).toBe('An activity');
+    expect(describeDismissal('subtype', 'Figure Skating')).toBe('All Figure Skating');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Offline Sync Tests
+ * Tests for the offline queue rules: collapsing, replay outcomes, status
+ * conflicts and laying pending changes over lists
+ */
+import {
+  OfflineMutation,
+  applyPendingMutations,
+  applyPendingStatusChanges,
+  classifyReplayError,
+  enqueueMutation,
+  hasStatusConflict,
+  isCacheFresh,
+} from '../../../../src/utils/offlineSync';
+
+const mutation = (overrides: Partial<OfflineMutation>): OfflineMutation => ({
+  id: 'm1',
+  type: 'favorite.add',
+  childId: 'child-1',
+  activityId: 'activity-1',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  attempts: 0,
+  ...overrides,
+});
+
+describe('enqueueMutation', () => {
+  it('should keep only the latest change for the same item', () => {
+    const queue = enqueueMutation([mutation({ id: 'a' })], mutation({ id: 'b', type: 'favorite.remove' }));
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ id: 'b', type: 'favorite.remove' });
+  });
+
+  it('should keep changes for different children, activities and lists', () => {
+    let queue = enqueueMutation([], mutation({ id: 'a' }));
+    queue = enqueueMutation(queue, mutation({ id: 'b', childId: 'child-2' }));
+    queue = enqueueMutation(queue, mutation({ id: 'c', activityId: 'activity-2' }));
+    queue = enqueueMutation(queue, mutation({ id: 'd', type: 'waitlist.join' }));
+
+    expect(queue.map(m => m.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should merge status changes and keep the time of the first', () => {
+    const first = mutation({ id: 'a', type: 'activity.status', payload: { status: 'completed' } });
+    const second = mutation({
+      id: 'b',
+      type: 'activity.status',
+      payload: { rating: 5 },
+      createdAt: '2026-03-01T11:00:00.000Z',
+    });
+
+    const queue = enqueueMutation([first], second);
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload).toEqual({ status: 'completed', rating: 5 });
+    expect(queue[0].createdAt).toBe(first.createdAt);
+  });
+});
+
+describe('classifyReplayError', () => {
+  it('should retry when the server was not reached or is unavailable', () => {
+    const add = mutation({});
+
+    expect(classifyReplayError(add, new Error('Network Error'))).toBe('retry');
+    expect(classifyReplayError(add, { response: { status: 503 } })).toBe('retry');
+    expect(classifyReplayError(add, { response: { status: 401 } })).toBe('retry');
+    expect(classifyReplayError(add, { response: { status: 429 } })).toBe('retry');
+  });
+
+  it('should treat 409 as a conflict', () => {
+    expect(classifyReplayError(mutation({}), { response: { status: 409 } })).toBe('conflict');
+  });
+
+  it('should count a refused removal as applied and a refused add as rejected', () => {
+    const error = { response: { status: 400 } };
+
+    expect(classifyReplayError(mutation({ type: 'favorite.remove' }), error)).toBe('applied');
+    expect(classifyReplayError(mutation({ type: 'waitlist.leave' }), error)).toBe('applied');
+    expect(classifyReplayError(mutation({ type: 'waitlist.join' }), error)).toBe('rejected');
+    expect(classifyReplayError(mutation({ type: 'activity.status' }), { response: { status: 404 } })).toBe('rejected');
+  });
+});
+
+describe('hasStatusConflict', () => {
+  const change = mutation({ type: 'activity.status', payload: { status: 'completed' } });
+
+  it('should conflict when the activity is no longer on the calendar', () => {
+    expect(hasStatusConflict(change, undefined)).toBe(true);
+  });
+
+  it('should conflict when the server copy changed after the offline edit', () => {
+    expect(hasStatusConflict(change, { updatedAt: '2026-03-01T10:30:00.000Z' })).toBe(true);
+  });
+
+  it('should apply when the server copy is older', () => {
+    expect(hasStatusConflict(change, { updatedAt: '2026-03-01T09:00:00.000Z' })).toBe(false);
+    expect(hasStatusConflict(change, { updatedAt: null })).toBe(false);
+  });
+});
+
+describe('applyPendingMutations', () => {
+  const placeholder = (m: OfflineMutation) => ({ childId: m.childId, activityId: m.activityId, placeholder: true });
+
+  it('should drop items removed offline and add items added offline', () => {
+    const items = [
+      { childId: 'child-1', activityId: 'activity-1', placeholder: false },
+      { childId: 'child-1', activityId: 'activity-2', placeholder: false },
+    ];
+    const pending = [
+      mutation({ type: 'favorite.remove', activityId: 'activity-1' }),
+      mutation({ type: 'favorite.add', activityId: 'activity-3' }),
+      mutation({ type: 'waitlist.join', activityId: 'activity-4' }),
+    ];
+
+    const result = applyPendingMutations(items, pending, 'favorite.add', 'favorite.remove', placeholder);
+
+    expect(result.map(item => item.activityId)).toEqual(['activity-2', 'activity-3']);
+    expect(result[1].placeholder).toBe(true);
+  });
+
+  it('should not duplicate an item the server already has', () => {
+    const items = [{ childId: 'child-1', activityId: 'activity-1', placeholder: false }];
+
+    const result = applyPendingMutations(items, [mutation({})], 'favorite.add', 'favorite.remove', placeholder);
+
+    expect(result).toEqual(items);
+  });
+});
+
+describe('applyPendingStatusChanges', () => {
+  it('should apply queued status changes to matching entries', () => {
+    const items = [
+      { childId: 'child-1', activityId: 'activity-1', status: 'planned' },
+      { childId: 'child-1', activityId: 'activity-2', status: 'planned' },
+    ];
+    const pending = [mutation({ type: 'activity.status', payload: { status: 'completed', rating: 4 } })];
+
+    expect(applyPendingStatusChanges(items, pending)).toEqual([
+      { childId: 'child-1', activityId: 'activity-1', status: 'completed', rating: 4 },
+      { childId: 'child-1', activityId: 'activity-2', status: 'planned' },
+    ]);
+  });
+});
+
+describe('isCacheFresh', () => {
+  it('should be fresh until the entry expires', () => {
+    expect(isCacheFresh({ expiresAt: 2000 }, 1999)).toBe(true);
+    expect(isCacheFresh({ expiresAt: 2000 }, 2000)).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * SSE Parser Tests
+ * Tests for incremental Server-Sent Events parsing
+ */
+import { parseSseBuffer } from '../../../../src/utils/sseParser';
+
+describe('parseSseBuffer', () => {
+  it('should parse complete events and keep the partial remainder', () => {
+    const { messages, remainder } = parseSseBuffer(
+      'event: status\ndata: {"message":"Thinking…"}\n\nevent: token\ndata: {"text":"Hel'
+    );
+
+    expect(messages).toEqual([{ event: 'status', data: '{"message":"Thinking…"}' }]);
+    expect(remainder).toBe('event: token\ndata: {"text":"Hel');
+  });
+
+  it('should resume parsing when the rest of a message arrives', () => {
+    const first = parseSseBuffer('event: token\ndata: {"text":"Hel');
+    const second = parseSseBuffer(`${first.remainder}lo"}\n\n`);
+
+    expect(first.messages).toEqual([]);
+    expect(second.messages).toEqual([{ event: 'token', data: '{"text":"Hello"}' }]);
+    expect(second.remainder).toBe('');
+  });
+
+  it('should join multi-line data, default the event name and skip comments', () => {
+    const { messages } = parseSseBuffer(': keep-alive\n\ndata: line one\r\ndata: line two\r\n\r\n');
+
+    expect(messages).toEqual([{ event: 'message', data: 'line one\nline two' }]);
+  });
+});
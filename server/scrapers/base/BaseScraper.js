@@ -220,6 +220,10 @@ class BaseScraper {
               changes: hasChanges.changes
             });
 
+            await this.recordActivityHistory(
+              this.buildHistoryEntries(existingActivity, filteredActivityData, hasChanges.changes)
+            );
+
             // Log the specific changes detected
             const changesStr = hasChanges.changes.map(c => `${c.field}: "${c.oldValue}" → "${c.newValue}"`).join(', ');
             console.log(`📝 UPDATED: "${updated.name}" [${updated.externalId}] - ${changesStr}`);
@@ -236,6 +240,10 @@ class BaseScraper {
             });
             processedActivityIds.push(updated.id);
             stats.unchanged++;
+
+            await this.recordActivityHistory(
+              this.buildHistoryEntries(existingActivity, filteredActivityData, [])
+            );
           }
         } else {
           // Before creating, check for potential duplicates (renamed activities)
@@ -322,18 +330,7 @@ class BaseScraper {
     const shouldDeactivate = activities.length >= minRequiredActivities || currentActiveCount < 10;
 
     if (shouldDeactivate) {
-      const inactiveResult = await this.prisma.activity.updateMany({
-        where: {
-          providerId,
-          id: { notIn: processedActivityIds },
-          isActive: true  // Only deactivate currently active activities
-        },
-        data: {
-          isActive: false,
-          updatedAt: new Date()
-        }
-      });
-      stats.removed = inactiveResult.count;
+      stats.removed = await this.deactivateMissingActivities(providerId, processedActivityIds);
     } else {
       console.warn(`⚠️  SAFEGUARD: Skipping deactivation - only ${activities.length} activities returned vs ${currentActiveCount} currently active (need at least ${minRequiredActivities})`);
       stats.removed = 0;
@@ -432,6 +429,7 @@ class BaseScraper {
         activitySubtypeId: true,
         dateStart: true,
         dateEnd: true,
+        isActive: true,
         manuallyEditedFields: true
       }
     });
@@ -510,6 +508,7 @@ class BaseScraper {
       const toCreate = [];
       const toUpdate = [];
       const toUnchange = [];
+      const historyEntries = [];
 
       for (const activity of batch) {
         try {
@@ -566,6 +565,7 @@ class BaseScraper {
             } else {
               toUnchange.push(existing.id);
             }
+            historyEntries.push(...this.buildHistoryEntries(existing, filteredData, hasChanges.changes));
             processedActivityIds.push(existing.id);
           } else {
             toCreate.push({
@@ -627,6 +627,8 @@ class BaseScraper {
           maxWait: 60000  // Wait up to 60 seconds to acquire connection
         });
 
+        await this.recordActivityHistory(historyEntries);
+
         // Get IDs of newly created activities
         if (toCreate.length > 0) {
           const newActivities = await this.prisma.activity.findMany({
@@ -668,18 +670,7 @@ class BaseScraper {
     const shouldDeactivate = activities.length >= minRequiredActivities || currentActiveCount < 10;
 
     if (shouldDeactivate) {
-      const inactiveResult = await this.prisma.activity.updateMany({
-        where: {
-          providerId,
-          id: { notIn: processedActivityIds },
-          isActive: true
-        },
-        data: {
-          isActive: false,
-          updatedAt: new Date()
-        }
-      });
-      stats.removed = inactiveResult.count;
+      stats.removed = await this.deactivateMissingActivities(providerId, processedActivityIds);
     } else {
       console.warn(`⚠️  SAFEGUARD: Skipping deactivation - only ${activities.length} activities returned vs ${currentActiveCount} currently active (need at least ${minRequiredActivities})`);
       stats.removed = 0;
@@ -717,6 +708,117 @@ class BaseScraper {
     return stats;
   }
 
+  /**
+   * Mark a provider's active activities that weren't seen in this run as inactive
+   * and record the deactivation in ActivityHistory
+   * @param {String} providerId - Provider ID
+   * @param {Array} processedActivityIds - IDs seen in this run
+   * @returns {Number} - Number of activities deactivated
+   */
+  async deactivateMissingActivities(providerId, processedActivityIds) {
+    const missing = await this.prisma.activity.findMany({
+      where: {
+        providerId,
+        id: { notIn: processedActivityIds },
+        isActive: true  // Only deactivate currently active activities
+      },
+      select: { id: true }
+    });
+
+    if (missing.length === 0) {
+      return 0;
+    }
+
+    const ids = missing.map(a => a.id);
+    const result = await this.prisma.activity.updateMany({
+      where: { id: { in: ids }, isActive: true },
+      data: {
+        isActive: false,
+        updatedAt: new Date()
+      }
+    });
+
+    await this.recordActivityHistory(ids.map(activityId => ({
+      activityId,
+      changeType: 'deactivated',
+      previousData: { isActive: true },
+      newData: { isActive: false },
+      changedFields: ['isActive']
+    })));
+
+    return result.count;
+  }
+
+  /**
+   * Build ActivityHistory rows for an existing activity seen in this run
+   * @param {Object} existing - Activity as stored before the update
+   * @param {Object} newData - Data being written
+   * @param {Array} changes - Changes from detectActivityChanges
+   * @returns {Array} - Rows for activityHistory.createMany
+   */
+  buildHistoryEntries(existing, newData, changes) {
+    const entries = [];
+
+    if (changes.length > 0) {
+      const changedFields = [];
+      const previousData = {};
+      const updatedData = {};
+
+      for (const change of changes) {
+        // detectActivityChanges reports both dates as one display string; store the real values
+        const fields = change.field === 'dates' ? ['dateStart', 'dateEnd'] : [change.field];
+        for (const field of fields) {
+          if (change.field === 'dates' && this.sameDate(existing[field], newData[field])) {
+            continue;
+          }
+          changedFields.push(field);
+          previousData[field] = existing[field] ?? null;
+          updatedData[field] = newData[field] ?? null;
+        }
+      }
+
+      entries.push({
+        activityId: existing.id,
+        changeType: 'updated',
+        previousData,
+        newData: updatedData,
+        changedFields
+      });
+    }
+
+    if (existing.isActive === false) {
+      entries.push({
+        activityId: existing.id,
+        changeType: 'reactivated',
+        previousData: { isActive: false },
+        newData: { isActive: true },
+        changedFields: ['isActive']
+      });
+    }
+
+    return entries;
+  }
+
+  sameDate(a, b) {
+    if (!a || !b) return !a && !b;
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+
+  /**
+   * Save ActivityHistory rows. Failures are logged, not thrown, so history
+   * never blocks a scrape.
+   * @param {Array} entries - Rows from buildHistoryEntries
+   */
+  async recordActivityHistory(entries) {
+    if (entries.length === 0) return;
+
+    try {
+      await this.prisma.activityHistory.createMany({ data: entries });
+    } catch (error) {
+      console.warn(`⚠️  Could not record activity history:`, error.message);
+    }
+  }
+
   /**
    * Detect changes between existing and new activity data
    * @param {Object} existing - Existing activity from database
@@ -6,7 +6,9 @@
  * Processes activity changes and sends immediate alerts to users:
  * - Capacity alerts for favorited activities running low on spots
  * - Price drop alerts for favorited activities
- * - Spots available alerts for waitlisted activities
+ * - Spots available alerts for waitlisted activities (child waitlists are
+ *   promoted in queue order; the API server's waitlist watcher handles
+ *   re-arming and hold expiry between runs)
  *
  * This should be called after each scraper run completes to capture
  * snapshots and detect changes.
@@ -27,12 +29,14 @@ const path = require('path');
 require('dotenv').config({ path: path.join(__dirname, '../../.env') });
 
 // Import compiled services
-let notificationService, activitySnapshotService;
+let notificationService, activitySnapshotService, waitlistService;
 try {
   const notificationModule = require('../../dist/services/notificationService');
   const snapshotModule = require('../../dist/services/activitySnapshotService');
+  const waitlistModule = require('../../dist/services/waitlistService');
   notificationService = notificationModule.notificationService;
   activitySnapshotService = snapshotModule.activitySnapshotService;
+  waitlistService = waitlistModule.waitlistService;
 } catch (error) {
   console.error('Error loading services. Run "npm run build" first:', error.message);
   process.exit(1);
@@ -102,6 +106,8 @@ async function processAlerts() {
       console.log('   Processing waitlist notifications...');
       for (const event of newlyAvailable) {
         await notificationService.processWaitlistNotifications(event.activityId);
+        // Child waitlists alert families in queue order
+        await waitlistService.processActivity(event.activityId);
       }
       console.log('   Done processing waitlist notifications');
     }
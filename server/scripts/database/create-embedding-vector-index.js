@@ -0,0 +1,46 @@
+/**
+ * pgvector column and HNSW index for ActivityEmbedding top-k search.
+ * Safe to run more than once; run after `prisma db push`.
+ *
+ * Usage: node scripts/database/create-embedding-vector-index.js
+ */
+const { PrismaClient } = require('../../generated/prisma');
+const prisma = new PrismaClient();
+
+const VECTOR_DIMENSIONS = 1536;
+
+async function main() {
+  console.log('🧭 Setting up the ActivityEmbedding vector index...');
+
+  await prisma.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS vector');
+
+  // Databases pushed before the column had a dimension: drop vectors of other
+  // sizes (they're still searched by brute force from "embedding"), then fix
+  // the column's size so it can be indexed
+  await prisma.$executeRawUnsafe(
+    `ALTER TABLE "ActivityEmbedding" ADD COLUMN IF NOT EXISTS "vector" vector(${VECTOR_DIMENSIONS})`
+  );
+  const cleared = await prisma.$executeRawUnsafe(
+    `UPDATE "ActivityEmbedding" SET "vector" = NULL WHERE "vector" IS NOT NULL AND vector_dims("vector") <> ${VECTOR_DIMENSIONS}`
+  );
+  await prisma.$executeRawUnsafe(
+    `ALTER TABLE "ActivityEmbedding" ALTER COLUMN "vector" TYPE vector(${VECTOR_DIMENSIONS})`
+  );
+  console.log(`✅ vector column is vector(${VECTOR_DIMENSIONS}) (${cleared} vector(s) of another size cleared)`);
+
+  // Cosine distance (<=>) index used by findNearestWithPgvector
+  await prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS "ActivityEmbedding_vector_hnsw_idx"
+    ON "ActivityEmbedding" USING hnsw ("vector" vector_cosine_ops)
+  `);
+  console.log('✅ HNSW index ready');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Vector index setup failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -19,6 +19,7 @@ async function main() {
       hasInstantAlerts: false,
       hasSavedSearches: false,
       savedSearchLimit: 0,
+      familySeats: 0,
       isActive: true,
       displayOrder: 0
     },
@@ -36,8 +37,27 @@ async function main() {
       hasInstantAlerts: true,
       hasSavedSearches: true,
       savedSearchLimit: 10,
+      familySeats: 0,
       isActive: true,
       displayOrder: 1
+    },
+    {
+      code: 'family',
+      name: 'Family Pro Household',
+      description: 'Family Pro for every parent in your household',
+      monthlyPrice: 8.99,
+      annualPrice: 74.99,
+      maxChildren: 99,
+      maxFavorites: 999,
+      maxSharedUsers: 99,
+      hasAdvancedFilters: true,
+      hasCalendarExport: true,
+      hasInstantAlerts: true,
+      hasSavedSearches: true,
+      savedSearchLimit: 10,
+      familySeats: 3,
+      isActive: true,
+      displayOrder: 2
     }
   ];
 
@@ -57,6 +77,7 @@ async function main() {
         hasInstantAlerts: plan.hasInstantAlerts,
         hasSavedSearches: plan.hasSavedSearches,
         savedSearchLimit: plan.savedSearchLimit,
+        familySeats: plan.familySeats,
         isActive: plan.isActive,
         displayOrder: plan.displayOrder
       },
@@ -82,7 +103,8 @@ async function main() {
   ├─ Advanced Filters: ${plan.hasAdvancedFilters ? '✓' : '✗'}
   ├─ Calendar Export: ${plan.hasCalendarExport ? '✓' : '✗'}
   ├─ Instant Alerts: ${plan.hasInstantAlerts ? '✓' : '✗'}
-  └─ Saved Searches: ${plan.hasSavedSearches ? `✓ (${plan.savedSearchLimit})` : '✗'}
+  ├─ Saved Searches: ${plan.hasSavedSearches ? `✓ (${plan.savedSearchLimit})` : '✗'}
+  └─ Co-parent Seats: ${plan.familySeats}
     `);
   }
 
@@ -18,6 +18,7 @@ import {
 } from '@langchain/core/prompts';
 import {
   AIMessage,
+  AIMessageChunk,
   HumanMessage,
   SystemMessage,
   BaseMessage,
@@ -40,6 +41,15 @@ import { determineClarification, ClarificationDecision, generateFollowUpSuggesti
 import { extractOverrides, mergeOverrides, summarizeOverrides } from '../utils/conversationOverrides';
 import { ConversationOverrides } from '../utils/activityScorer';
 import { resolveTemporalExpression } from '../utils/temporalResolver';
+import {
+  StoredConversation,
+  NewTurnMessage,
+  buildConversationTitle,
+  createConversation,
+  getConversation,
+  saveTurn,
+} from '../services/conversationService';
+import { ChatStreamHandler, describeToolCall } from '../utils/chatStreamEvents';
 
 // Types for family context
 export interface ChildPreferencesData {
@@ -136,6 +146,12 @@ interface ConversationState {
   pendingClarification?: ClarificationDecision; // Pending clarification question
 }
 
+// The parts of ConversationState stored alongside the message history
+type PersistedConversationState = Pick<
+  ConversationState,
+  'parameters' | 'conversationOverrides' | 'pendingClarification'
+>;
+
 const AGENT_SYSTEM_PROMPT = `You are a friendly AI assistant for KidsActivityTracker, helping parents find activities for their children.
 
 IMPORTANT: You have complete information about the user's children below. DO NOT ask for information that is already provided in the FAMILY CONTEXT (such as ages, preferences, schedules, or location). Use this information to personalize your recommendations immediately.
@@ -567,7 +583,6 @@ function formatScheduleForResponse(activity: any): string {
  * Manages conversations and executes the agent
  */
 export class ActivityChatService {
-  private conversations: Map<string, ConversationState> = new Map();
   private model: ChatOpenAI;
   private maxTurns = 5;
 
@@ -578,19 +593,32 @@ export class ActivityChatService {
 
   /**
    * Process a chat message
+   *
+   * Conversations are loaded from and saved to the database on every turn,
+   * so any instance can continue a conversation started on another.
+   *
+   * Pass onEvent to stream tokens, tool progress and activities as they
+   * resolve; the returned response is the same either way.
    */
   async chat(
     userId: string,
-    conversationId: string | null,
+    requestedConversationId: string | null,
     message: string,
     familyContext?: EnhancedFamilyContext,
-    extractedParams?: ConversationParameters
+    extractedParams?: ConversationParameters,
+    isPro: boolean = false,
+    onEvent?: ChatStreamHandler
   ): Promise<ChatResponse> {
-    let conversation = conversationId ? this.conversations.get(conversationId) : null;
-
-    // Create new conversation if needed
-    if (!conversation) {
-      conversationId = `conv_${Date.now()}_${userId}`;
+    const stored = requestedConversationId
+      ? await getConversation(userId, requestedConversationId)
+      : null;
+    let conversationId: string;
+    let conversation: ConversationState;
+
+    // Create new conversation if needed (unknown, expired or another user's)
+    if (!stored) {
+      const created = await createConversation(userId, buildConversationTitle(message), isPro);
+      conversationId = created.id;
       conversation = {
         messages: [],
         turnsUsed: 0,
@@ -599,8 +627,10 @@ export class ActivityChatService {
         parameters: extractedParams || {}, // Initialize with extracted params
         conversationOverrides: { explicitRequirements: [] }, // Initialize overrides
       };
-      this.conversations.set(conversationId, conversation);
     } else {
+      conversationId = stored.id;
+      conversation = this.restoreConversation(userId, stored, familyContext);
+
       // Merge new extracted params into existing conversation params
       if (extractedParams) {
         // New extracted values override old ones (higher priority in current message)
@@ -658,13 +688,17 @@ export class ActivityChatService {
           canProceedWithDefaults: false,
         };
 
-        // Add human message for context
-        conversation.messages.push(new HumanMessage(message));
+        const clarificationText = temporalResolution.clarificationQuestion || `I'd be happy to help you plan activities! When exactly is ${quickEntities.temporal}? Different schools have different dates.`;
         conversation.turnsUsed++;
 
+        await this.persistTurn(conversationId, conversation, [
+          { role: 'user', content: message },
+          { role: 'assistant', content: clarificationText },
+        ], isPro);
+
         return {
-          conversationId: conversationId!,
-          text: temporalResolution.clarificationQuestion || `I'd be happy to help you plan activities! When exactly is ${quickEntities.temporal}? Different schools have different dates.`,
+          conversationId,
+          text: clarificationText,
           activities: [],
           followUpPrompts: temporalResolution.suggestedDates?.map(d => d.label) || ['This weekend', 'Next week', 'Custom dates'],
           turnsRemaining: this.maxTurns - conversation.turnsUsed,
@@ -720,7 +754,7 @@ export class ActivityChatService {
     const modelWithTools = this.model.bindTools(activityTools);
 
     // Execute with tool calling loop
-    let response: AIMessage;
+    let response: AIMessageChunk;
     const toolsUsed: string[] = [];
     let iterations = 0;
     const maxIterations = 5;
@@ -732,8 +766,12 @@ export class ActivityChatService {
       ...conversation.messages,
     ];
 
+    onEvent?.({ type: 'status', stage: 'thinking', message: 'Thinking…' });
+
     while (iterations < maxIterations) {
-      response = await modelWithTools.invoke(allMessages);
+      response = onEvent
+        ? await this.streamModelResponse(modelWithTools, allMessages, onEvent)
+        : await modelWithTools.invoke(allMessages);
 
       // Check if there are tool calls
       if (response.tool_calls && response.tool_calls.length > 0) {
@@ -744,12 +782,27 @@ export class ActivityChatService {
           const tool = activityTools.find(t => t.name === toolCall.name);
           if (tool) {
             toolsUsed.push(toolCall.name);
+            onEvent?.({
+              type: 'status',
+              stage: 'tool',
+              tool: toolCall.name,
+              message: describeToolCall(toolCall.name, toolCall.args),
+            });
             try {
               // Inject userId for tools that need it
               const args = { ...toolCall.args };
               if (toolCall.name === 'get_child_context' && !args.userId) {
                 args.userId = userId;
               }
+              // Search tools hide what the selected children were marked not interested in
+              const childIds = conversation.lastContext?.children?.map(c => c.child_id);
+              if (toolCall.name === 'search_activities') {
+                args.userId = userId;
+                args.childIds = childIds;
+              } else if (toolCall.name === 'enhanced_search') {
+                args.userContext = { ...args.userContext, userId };
+                args.childIds = childIds;
+              }
 
               const toolResult = await (tool as any).invoke(args);
 
@@ -757,7 +810,7 @@ export class ActivityChatService {
               if (toolCall.name === 'search_activities') {
                 // Store search parameters for follow-up queries
                 const searchArgs = toolCall.args as any;
-                conversation!.parameters.lastSearchFilters = {
+                conversation.parameters.lastSearchFilters = {
                   searchTerm: searchArgs.searchTerm,
                   minAge: searchArgs.minAge,
                   maxAge: searchArgs.maxAge,
@@ -767,15 +820,16 @@ export class ActivityChatService {
                 };
                 // Also extract activity type from search term for easier reference
                 if (searchArgs.searchTerm) {
-                  conversation!.parameters.extractedActivityType = searchArgs.searchTerm;
+                  conversation.parameters.extractedActivityType = searchArgs.searchTerm;
                 }
-                console.log(`[ActivityChatService] Stored search params:`, conversation!.parameters.lastSearchFilters);
+                console.log(`[ActivityChatService] Stored search params:`, conversation.parameters.lastSearchFilters);
 
                 try {
                   const parsed = JSON.parse(toolResult);
                   if (parsed.activities && Array.isArray(parsed.activities)) {
                     foundActivities = parsed.activities;
                     console.log(`[ActivityChatService] Found ${foundActivities.length} activities from search`);
+                    onEvent?.({ type: 'activities', activities: foundActivities });
                   }
                 } catch (e) {
                   // Ignore parse errors
@@ -804,8 +858,6 @@ export class ActivityChatService {
       }
     }
 
-    // Add assistant response to conversation
-    conversation.messages.push(response!);
     conversation.turnsUsed++;
 
     // Extract content
@@ -820,6 +872,11 @@ export class ActivityChatService {
       ? foundActivities
       : await extractActivitiesFromResponse(responseText);
 
+    await this.persistTurn(conversationId, conversation, [
+      { role: 'user', content: message },
+      { role: 'assistant', content: responseText, activities, toolsUsed },
+    ], isPro);
+
     // Generate enhanced follow-up suggestions based on results
     const followUpPrompts = conversation.lastQueryUnderstanding
       ? generateFollowUpSuggestions(
@@ -852,22 +909,81 @@ export class ActivityChatService {
   }
 
   /**
-   * Clear a conversation
+   * Stream one model call, forwarding text tokens as they arrive and
+   * returning the aggregated message (including any tool calls)
    */
-  clearConversation(conversationId: string): void {
-    this.conversations.delete(conversationId);
+  private async streamModelResponse(
+    model: ReturnType<ChatOpenAI['bindTools']>,
+    messages: BaseMessage[],
+    onEvent: ChatStreamHandler
+  ): Promise<AIMessageChunk> {
+    let aggregate: AIMessageChunk | null = null;
+
+    for await (const chunk of await model.stream(messages)) {
+      aggregate = aggregate ? aggregate.concat(chunk) : chunk;
+      if (typeof chunk.content === 'string' && chunk.content) {
+        onEvent({ type: 'token', text: chunk.content });
+      }
+    }
+
+    return aggregate ?? new AIMessageChunk({ content: '' });
   }
 
   /**
-   * Clean up old conversations (call periodically)
+   * Turns left in a conversation that has used the given number
    */
-  cleanupOldConversations(maxAgeMs: number = 30 * 60 * 1000): void {
-    const now = Date.now();
-    for (const [id, _conversation] of this.conversations) {
-      const timestamp = parseInt(id.split('_')[1] || '0');
-      if (now - timestamp > maxAgeMs) {
-        this.conversations.delete(id);
-      }
+  getTurnsRemaining(turnsUsed: number): number {
+    return Math.max(this.maxTurns - turnsUsed, 0);
+  }
+
+  /**
+   * Rebuild in-memory conversation state from its stored form
+   */
+  private restoreConversation(
+    userId: string,
+    stored: StoredConversation,
+    familyContext?: EnhancedFamilyContext
+  ): ConversationState {
+    const state = stored.state as Partial<PersistedConversationState>;
+
+    return {
+      messages: stored.messages.map(m =>
+        m.role === 'user' ? new HumanMessage(m.content) : new AIMessage(m.content)
+      ),
+      turnsUsed: stored.turnsUsed,
+      userId,
+      lastContext: familyContext,
+      parameters: state.parameters || {},
+      conversationOverrides: state.conversationOverrides || { explicitRequirements: [] },
+      pendingClarification: state.pendingClarification,
+    };
+  }
+
+  /**
+   * Save a completed turn. Failures are logged rather than thrown so the
+   * user still gets the response they waited for.
+   */
+  private async persistTurn(
+    conversationId: string,
+    conversation: ConversationState,
+    messages: NewTurnMessage[],
+    isPro: boolean
+  ): Promise<void> {
+    const state: PersistedConversationState = {
+      parameters: conversation.parameters,
+      conversationOverrides: conversation.conversationOverrides,
+      pendingClarification: conversation.pendingClarification,
+    };
+
+    try {
+      await saveTurn(conversationId, {
+        messages,
+        turnsUsed: conversation.turnsUsed,
+        state,
+        isPro,
+      });
+    } catch (error) {
+      console.error('[ActivityChatService] Failed to save conversation turn:', error);
     }
   }
 }
@@ -23,6 +23,8 @@ import { CompressedActivity, ActivitySearchParams, ChildAIProfile } from '../../
 import { PrismaClient } from '../../../../generated/prisma';
 import { EnhancedActivityService } from '../../../services/activityService.enhanced';
 import { compressActivities } from '../../utils/contextCompressor';
+import { childDismissalService } from '../../../services/childDismissalService';
+import { exclusionsForChild } from '../../../utils/childDismissals';
 
 // Singleton prisma instance
 let _prisma: PrismaClient | null = null;
@@ -321,6 +323,15 @@ export async function fetchCandidatesNode(state: AIGraphStateType): Promise<Part
     return await legacyFetchCandidates(state, activityService);
   }
 
+  // What each child was marked not interested in
+  const exclusions = state.user_id
+    ? await childDismissalService.getExclusions(
+        state.user_id,
+        childrenProfiles.map(child => child.child_id),
+        filterMode
+      )
+    : undefined;
+
   // Track all activities and their match data
   const activityMap = new Map<string, {
     activity: any;
@@ -336,6 +347,7 @@ export async function fetchCandidatesNode(state: AIGraphStateType): Promise<Part
     console.log(`🔍 [FetchCandidatesNode] TOGETHER mode: searching for activities ALL ${childrenProfiles.length} children can do`);
 
     const searchFilters = buildTogetherModeFilters(childrenProfiles, state.parsed_filters || {});
+    searchFilters.exclusions = exclusions;
     console.log(`🔍 [FetchCandidatesNode] Together mode filters:`, JSON.stringify(searchFilters, null, 2));
 
     try {
@@ -375,6 +387,7 @@ export async function fetchCandidatesNode(state: AIGraphStateType): Promise<Part
       console.log(`🔍 [FetchCandidatesNode] Child location:`, child.location);
 
       const searchFilters = buildChildSearchFilters(child, state.parsed_filters || {});
+      searchFilters.exclusions = exclusions && exclusionsForChild(exclusions, child.child_id);
       activitiesPerChild.set(child.child_id, []);
 
       try {
@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import crypto from 'crypto';
 import { PrismaClient } from '../../../generated/prisma';
 import { EnhancedActivityService } from '../../services/activityService.enhanced';
 import { AICacheService } from '../cache/cacheService';
@@ -8,7 +9,9 @@ import { compressActivities } from '../utils/contextCompressor';
 import { buildFamilyContext, buildContextFromFilters, buildScoringContext, buildScoringContextFromFilters } from '../utils/contextBuilder';
 import { validateAndSanitize } from '../utils/responseValidator';
 import { CostTrackerCallback } from '../callbacks/costTracker';
-import { scoreAndRankActivities, ScoringContext } from '../utils/activityScorer';
+import { scoreAndRankActivities, scoreForRecommendations, ScoringContext } from '../utils/activityScorer';
+import { BASELINE_RANKING_VERSION, LLM_RANKING_VERSION } from '../utils/rankingModel';
+import { rankingFeedbackService } from '../../services/rankingFeedbackService';
 import {
   AIRecommendationRequest,
   AIResponseWithMeta,
@@ -54,8 +57,30 @@ export class AIOrchestrator {
 
   /**
    * Get AI-powered recommendations (backwards compatible)
+   * Each response gets a request_id that feedback is reported against
    */
   async getRecommendations(request: AIRecommendationRequest): Promise<AIResponseWithMeta> {
+    const requestId = crypto.randomUUID();
+    const response = await this.rankRecommendations(request, requestId);
+    const rankingVersion = response.ranking_version || LLM_RANKING_VERSION;
+
+    if (request.user_id) {
+      this.recordImpressions(request.user_id, requestId, rankingVersion, response).catch(error => {
+        console.warn('[AI Orchestrator] Failed to record impressions:', error.message);
+      });
+    }
+
+    return {
+      ...response,
+      request_id: requestId,
+      ranking_version: rankingVersion
+    };
+  }
+
+  private async rankRecommendations(
+    request: AIRecommendationRequest,
+    requestId: string
+  ): Promise<AIResponseWithMeta> {
     const startTime = Date.now();
 
     try {
@@ -99,7 +124,7 @@ export class AIOrchestrator {
 
       // 7. Execute LangGraph
       const graphResult = await executeAIGraph({
-        request_id: `req_${Date.now()}`,
+        request_id: requestId,
         request_type: requestType,
         search_intent: request.search_intent,
         raw_query: request.search_intent,
@@ -554,7 +579,7 @@ export class AIOrchestrator {
     let scoringContext: ScoringContext;
     if (request.user_id) {
       try {
-        scoringContext = await buildScoringContext(request.user_id);
+        scoringContext = await buildScoringContext(request.user_id, { rankingMode: 'recommendations' });
       } catch (error) {
         console.warn('[AI Orchestrator] Failed to build scoring context, using filters:', error);
         scoringContext = buildScoringContextFromFilters(request.filters);
@@ -596,10 +621,38 @@ export class AIOrchestrator {
       assumptions: ['Using enhanced matching based on your profile and preferences'],
       questions: [],
       source: 'heuristic',
-      latency_ms: Date.now() - startTime
+      latency_ms: Date.now() - startTime,
+      ranking_version: scoringContext.rankingVersion || BASELINE_RANKING_VERSION
     };
   }
 
+  /**
+   * Log what was shown, with the unweighted score breakdown of each activity
+   * so ranking weights can be fit from the feedback later
+   */
+  private async recordImpressions(
+    userId: string,
+    requestId: string,
+    rankingVersion: string,
+    response: AIResponseWithMeta
+  ): Promise<void> {
+    if (!response.recommendations?.length) return;
+
+    const scoringContext = await buildScoringContext(userId);
+    const impressions = response.recommendations.map((rec, index) => {
+      const activity = response.activities?.[rec.activity_id];
+      const scored = activity ? scoreForRecommendations(activity, scoringContext) : null;
+
+      return {
+        activityId: rec.activity_id,
+        rank: rec.rank || index + 1,
+        features: scored?.scoreBreakdown ?? null
+      };
+    });
+
+    await rankingFeedbackService.recordImpressions(userId, requestId, 'recommendations', rankingVersion, impressions);
+  }
+
   /**
    * Generate reasons based on score breakdown
    */
@@ -632,6 +685,9 @@ export class AIOrchestrator {
     if (breakdown.providerBonus > 0) {
       reasons.push('From a provider you trust');
     }
+    if (breakdown.learnedPreferenceBonus > 0) {
+      reasons.push('Like activities your family has engaged with');
+    }
 
     // Add age suitability
     if (activity.ageMin !== null && activity.ageMax !== null) {
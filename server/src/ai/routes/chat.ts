@@ -8,8 +8,15 @@ import { Router, Request, Response } from 'express';
 import { getChatService, EnhancedFamilyContext, EnhancedChildProfile, ConversationParameters } from '../agents/activityAssistantAgent';
 import { checkTopicAllowed, getBlockedMessage, getBlockedSuggestedPrompts } from '../chains/topicGuardChain';
 import { getSmallModel } from '../models/chatModels';
-import { checkAIQuota, recordAIUsage, getUsageStats, getTurnLimit } from '../services/quotaService';
+import { checkAIQuota, recordAIUsage, getUsageStats, getTurnLimit, getHistoryRetentionDays } from '../services/quotaService';
+import {
+  listConversations,
+  getConversation,
+  renameConversation,
+  deleteConversation,
+} from '../services/conversationService';
 import { buildEnhancedFamilyContext } from '../utils/contextBuilder';
+import { ChatStreamEvent, formatSseEvent } from '../utils/chatStreamEvents';
 import { verifyToken } from '../../middleware/auth';
 
 const router = Router();
@@ -37,12 +44,45 @@ function createVirtualChildFromExtraction(
   };
 }
 
+/**
+ * Switch a response into Server-Sent Events mode and return a writer.
+ * Writes after the client disconnects are dropped. The response's close event
+ * marks the disconnect; the request's fires as soon as its body is read.
+ */
+function openEventStream(res: Response): (event: ChatStreamEvent) => void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return (event: ChatStreamEvent) => {
+    if (!closed && !res.writableEnded && !res.destroyed) {
+      res.write(formatSseEvent(event));
+    }
+  };
+}
+
 /**
  * POST /api/v1/ai/chat
  * Main conversational AI endpoint
+ *
+ * Send `"stream": true` (or `Accept: text/event-stream`) to receive the reply
+ * as Server-Sent Events: `status`, `token` and `activities` events while the
+ * agent works, then a single `done` event carrying the normal JSON response.
+ * Validation and quota errors are still returned as plain JSON.
  */
 router.post('/', verifyToken, async (req: Request, res: Response) => {
   const startTime = Date.now();
+  const wantsStream = req.body?.stream === true || !!req.headers.accept?.includes('text/event-stream');
+  let emit: ((event: ChatStreamEvent) => void) | null = null;
 
   try {
     const { message, conversationId, childIds, childSelectionMode } = req.body;
@@ -87,7 +127,7 @@ router.post('/', verifyToken, async (req: Request, res: Response) => {
         metadata: { blocked: true, category: topicCheck.category },
       });
 
-      return res.json({
+      const blockedResponse = {
         conversationId: null,
         text: getBlockedMessage(topicCheck.category),
         activities: [],
@@ -98,7 +138,18 @@ router.post('/', verifyToken, async (req: Request, res: Response) => {
           daily: quota.daily,
           monthly: quota.monthly,
         },
-      });
+      };
+
+      if (wantsStream) {
+        openEventStream(res)({ type: 'done', response: blockedResponse });
+        return res.end();
+      }
+
+      return res.json(blockedResponse);
+    }
+
+    if (wantsStream) {
+      emit = openEventStream(res);
     }
 
     // Load family context
@@ -178,7 +229,9 @@ router.post('/', verifyToken, async (req: Request, res: Response) => {
       conversationId,
       message,
       familyContext,
-      extractedParams
+      extractedParams,
+      quota.isPro,
+      emit ?? undefined
     );
 
     // Record usage
@@ -197,14 +250,21 @@ router.post('/', verifyToken, async (req: Request, res: Response) => {
       },
     });
 
-    res.json({
+    const body = {
       ...response,
       quota: {
         daily: { used: quota.daily.used + 1, limit: quota.daily.limit },
         monthly: { used: quota.monthly.used + 1, limit: quota.monthly.limit },
       },
       latencyMs,
-    });
+    };
+
+    if (emit) {
+      emit({ type: 'done', response: body });
+      return res.end();
+    }
+
+    res.json(body);
   } catch (error: any) {
     console.error('[AI Chat] Error:', error);
 
@@ -218,20 +278,141 @@ router.post('/', verifyToken, async (req: Request, res: Response) => {
       });
     }
 
+    // Headers are already sent once streaming starts, so report in-band
+    if (emit) {
+      emit({ type: 'error', error: 'Failed to process chat message' });
+      return res.end();
+    }
+
     res.status(500).json({ error: 'Failed to process chat message' });
   }
 });
 
 /**
- * DELETE /api/v1/ai/chat/:conversationId
- * End a conversation
+ * GET /api/v1/ai/chat/conversations
+ * List the user's saved conversations, most recent first
+ */
+router.get('/conversations', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 50);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+    const [{ conversations, total }, quota] = await Promise.all([
+      listConversations(userId, { limit, offset }),
+      checkAIQuota(userId),
+    ]);
+
+    res.json({
+      conversations,
+      total,
+      limit,
+      offset,
+      retentionDays: getHistoryRetentionDays(quota.isPro),
+    });
+  } catch (error: any) {
+    console.error('[AI Chat] Error listing conversations:', error);
+    res.status(500).json({ error: 'Failed to list conversations' });
+  }
+});
+
+/**
+ * GET /api/v1/ai/chat/conversations/:conversationId
+ * Get a conversation with its messages so it can be resumed
+ */
+router.get('/conversations/:conversationId', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await getConversation(userId, req.params.conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Internal agent state stays server-side
+    res.json({
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        turnsUsed: conversation.turnsUsed,
+        messages: conversation.messages,
+        lastMessageAt: conversation.lastMessageAt,
+        expiresAt: conversation.expiresAt,
+        createdAt: conversation.createdAt,
+        turnsRemaining: getChatService().getTurnsRemaining(conversation.turnsUsed),
+      },
+    });
+  } catch (error: any) {
+    console.error('[AI Chat] Error getting conversation:', error);
+    res.status(500).json({ error: 'Failed to get conversation' });
+  }
+});
+
+/**
+ * PATCH /api/v1/ai/chat/conversations/:conversationId
+ * Rename a conversation
  */
-router.delete('/:conversationId', (req: Request, res: Response) => {
-  const { conversationId } = req.params;
-  getChatService().clearConversation(conversationId);
-  res.json({ success: true });
+router.patch('/conversations/:conversationId', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+    if (!title) {
+      return res.status(400).json({ error: 'Title is required' });
+    }
+    if (title.length > 100) {
+      return res.status(400).json({ error: 'Title too long (max 100 characters)' });
+    }
+
+    const conversation = await renameConversation(userId, req.params.conversationId, title);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    res.json({ conversation });
+  } catch (error: any) {
+    console.error('[AI Chat] Error renaming conversation:', error);
+    res.status(500).json({ error: 'Failed to rename conversation' });
+  }
 });
 
+/**
+ * DELETE /api/v1/ai/chat/conversations/:conversationId
+ * DELETE /api/v1/ai/chat/:conversationId (older clients)
+ * Delete a conversation and its history
+ */
+const deleteConversationHandler = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const deleted = await deleteConversation(userId, req.params.conversationId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[AI Chat] Error deleting conversation:', error);
+    res.status(500).json({ error: 'Failed to delete conversation' });
+  }
+};
+
+router.delete('/conversations/:conversationId', verifyToken, deleteConversationHandler);
+router.delete('/:conversationId', verifyToken, deleteConversationHandler);
+
 /**
  * GET /api/v1/ai/chat/quota
  * Get user's AI quota status
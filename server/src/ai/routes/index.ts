@@ -12,11 +12,14 @@ const router = Router();
  *
  * Endpoints:
  * - POST /api/v1/ai/recommendations - Get AI-powered recommendations
+ * - POST /api/v1/ai/recommendations/feedback - Report what the user did with a recommendation
  * - POST /api/v1/ai/parse-search - Parse NL to structured filters
  * - POST /api/v1/ai/explain - Get activity explanations for children
  * - POST /api/v1/ai/plan-week - Generate weekly activity schedule
  * - POST /api/v1/ai/chat - Conversational AI assistant
  * - GET /api/v1/ai/chat/quota - Get AI usage quota
+ * - GET /api/v1/ai/chat/conversations - List saved conversations
+ * - GET/PATCH/DELETE /api/v1/ai/chat/conversations/:id - Resume, rename, delete
  * - GET /api/v1/ai/health - Health check
  * - GET /api/v1/ai/metrics - Usage metrics
  *
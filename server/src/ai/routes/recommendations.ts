@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
 import { getAIOrchestrator, isAIInitialized } from '../index';
 import { AIRecommendationRequest } from '../types/ai.types';
+import { optionalAuth, verifyToken } from '../../middleware/auth';
+import { CLIENT_FEEDBACK_EVENTS, RecommendationEventType } from '../utils/rankingModel';
+import { rankingFeedbackService } from '../../services/rankingFeedbackService';
 
 const router = Router();
 const isProduction = process.env.NODE_ENV === 'production';
@@ -46,9 +49,12 @@ const aiRateLimiter = rateLimit({
  * - recommendations: array of ranked activities with explanations
  * - assumptions: array of assumptions made by AI
  * - questions: array of clarifying questions (if any)
+ * - request_id: string - Pass back to /feedback when the user acts on a recommendation
+ * - ranking_version: string - Ranking version that ordered the recommendations
  * - _meta: object with source, model, latency info
  */
 router.post('/',
+  optionalAuth,
   aiRateLimiter,
   async (req: Request, res: Response) => {
     try {
@@ -119,6 +125,64 @@ router.post('/',
   }
 );
 
+/**
+ * POST /api/v1/ai/recommendations/feedback
+ *
+ * Report what the user did with a recommendation. Favorites, waitlist joins
+ * and registrations are recorded by the server when they happen.
+ *
+ * Request body:
+ * - request_id: string - From the recommendations response
+ * - activity_id: string - The recommended activity
+ * - event: 'detail_open' | 'dismiss'
+ * - child_id: string (optional) - Child the user was looking for
+ */
+router.post('/feedback', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+    const { request_id, activity_id, event, child_id } = req.body;
+
+    if (typeof request_id !== 'string' || typeof activity_id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'request_id and activity_id are required'
+      });
+    }
+
+    if (!CLIENT_FEEDBACK_EVENTS.includes(event)) {
+      return res.status(400).json({
+        success: false,
+        error: `event must be one of: ${CLIENT_FEEDBACK_EVENTS.join(', ')}`
+      });
+    }
+
+    const recorded = await rankingFeedbackService.recordFeedback(
+      userId,
+      request_id,
+      activity_id,
+      event as RecommendationEventType,
+      typeof child_id === 'string' ? child_id : undefined
+    );
+
+    if (!recorded) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recommendation not found'
+      });
+    }
+
+    res.json({ success: true });
+
+  } catch (error: any) {
+    console.error('[AI Route] Feedback error:', error);
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record feedback'
+    });
+  }
+});
+
 /**
  * GET /api/v1/ai/health
  * 
@@ -0,0 +1,284 @@
+/**
+ * AI Conversation Service
+ *
+ * Persists chat conversations so they survive restarts and can be resumed
+ * from any instance. History is kept for the user's tier retention window
+ * after the last message.
+ */
+
+import { Conversation, ConversationMessage, Prisma } from '../../../generated/prisma';
+import { prisma } from '../../lib/prisma';
+import { getHistoryRetentionDays } from './quotaService';
+
+const TITLE_MAX_LENGTH = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Last assistant reply (for the preview line) plus a message count
+const summaryInclude = {
+  messages: {
+    where: { role: 'assistant' },
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: { content: true },
+  },
+  _count: { select: { messages: true } },
+} as const;
+
+type ConversationWithSummary = Prisma.ConversationGetPayload<{ include: typeof summaryInclude }>;
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface StoredMessage {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  activities: any[] | null;
+  toolsUsed: string[];
+  createdAt: Date;
+}
+
+export interface StoredConversation {
+  id: string;
+  title: string | null;
+  turnsUsed: number;
+  state: Record<string, any>;
+  messages: StoredMessage[];
+  lastMessageAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  preview: string | null;
+  turnsUsed: number;
+  messageCount: number;
+  lastMessageAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface NewTurnMessage {
+  role: ConversationRole;
+  content: string;
+  activities?: any[];
+  toolsUsed?: string[];
+}
+
+/**
+ * Derive a conversation title from the opening message
+ */
+export function buildConversationTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= TITLE_MAX_LENGTH) {
+    return singleLine;
+  }
+
+  const cut = singleLine.slice(0, TITLE_MAX_LENGTH - 1);
+  const lastSpace = singleLine[cut.length] === ' ' ? cut.length : cut.lastIndexOf(' ');
+  // Break on a word boundary unless that would drop most of the title
+  const trimmed = lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${trimmed.trimEnd()}…`;
+}
+
+/**
+ * Compute when a conversation expires given the time of its last message
+ */
+export function getConversationExpiry(isPro: boolean, lastMessageAt: Date = new Date()): Date {
+  return new Date(lastMessageAt.getTime() + getHistoryRetentionDays(isPro) * DAY_MS);
+}
+
+/**
+ * Create an empty conversation for a user
+ */
+export async function createConversation(
+  userId: string,
+  title: string | null,
+  isPro: boolean
+): Promise<StoredConversation> {
+  const now = new Date();
+  const conversation = await prisma.conversation.create({
+    data: {
+      userId,
+      title,
+      lastMessageAt: now,
+      expiresAt: getConversationExpiry(isPro, now),
+    },
+  });
+
+  return toStoredConversation(conversation, []);
+}
+
+/**
+ * Load a conversation with its messages.
+ * Returns null when it doesn't exist, belongs to another user, or has expired.
+ */
+export async function getConversation(
+  userId: string,
+  conversationId: string
+): Promise<StoredConversation | null> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, userId, expiresAt: { gt: new Date() } },
+    include: { messages: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!conversation) {
+    return null;
+  }
+
+  return toStoredConversation(conversation, conversation.messages);
+}
+
+/**
+ * List a user's unexpired conversations, most recent first
+ */
+export async function listConversations(
+  userId: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ conversations: ConversationSummary[]; total: number }> {
+  const where = { userId, expiresAt: { gt: new Date() } };
+
+  const [conversations, total] = await Promise.all([
+    prisma.conversation.findMany({
+      where,
+      orderBy: { lastMessageAt: 'desc' },
+      take: options.limit ?? 20,
+      skip: options.offset ?? 0,
+      include: summaryInclude,
+    }),
+    prisma.conversation.count({ where }),
+  ]);
+
+  return {
+    conversations: conversations.map(toSummary),
+    total,
+  };
+}
+
+/**
+ * Append the messages from one turn and save the updated conversation state.
+ * Each turn pushes the expiry out by the user's retention window.
+ */
+export async function saveTurn(
+  conversationId: string,
+  turn: {
+    messages: NewTurnMessage[];
+    turnsUsed: number;
+    state: Record<string, any>;
+    isPro: boolean;
+  }
+): Promise<void> {
+  const now = new Date();
+
+  await prisma.$transaction([
+    ...turn.messages.map((message, index) =>
+      prisma.conversationMessage.create({
+        data: {
+          conversationId,
+          role: message.role,
+          content: message.content,
+          activities: message.activities?.length ? message.activities : Prisma.JsonNull,
+          toolsUsed: message.toolsUsed ?? [],
+          // Keep ordering stable for messages written in the same transaction
+          createdAt: new Date(now.getTime() + index),
+        },
+      })
+    ),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        turnsUsed: turn.turnsUsed,
+        state: turn.state as Prisma.InputJsonValue,
+        lastMessageAt: now,
+        expiresAt: getConversationExpiry(turn.isPro, now),
+      },
+    }),
+  ]);
+}
+
+/**
+ * Rename a conversation. Returns null if the user doesn't own it.
+ */
+export async function renameConversation(
+  userId: string,
+  conversationId: string,
+  title: string
+): Promise<ConversationSummary | null> {
+  const result = await prisma.conversation.updateMany({
+    where: { id: conversationId, userId, expiresAt: { gt: new Date() } },
+    data: { title },
+  });
+
+  if (result.count === 0) {
+    return null;
+  }
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: summaryInclude,
+  });
+
+  return conversation ? toSummary(conversation) : null;
+}
+
+/**
+ * Delete a conversation and its messages. Returns false if the user doesn't own it.
+ */
+export async function deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+  const result = await prisma.conversation.deleteMany({
+    where: { id: conversationId, userId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Remove conversations past their retention window
+ */
+export async function deleteExpiredConversations(): Promise<number> {
+  const result = await prisma.conversation.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  if (result.count > 0) {
+    console.log(`[ConversationService] Deleted ${result.count} expired conversations`);
+  }
+
+  return result.count;
+}
+
+function toSummary(conversation: ConversationWithSummary): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    preview: conversation.messages[0]?.content ?? null,
+    turnsUsed: conversation.turnsUsed,
+    messageCount: conversation._count.messages,
+    lastMessageAt: conversation.lastMessageAt,
+    expiresAt: conversation.expiresAt,
+    createdAt: conversation.createdAt,
+  };
+}
+
+function toStoredConversation(
+  conversation: Conversation,
+  messages: ConversationMessage[]
+): StoredConversation {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    turnsUsed: conversation.turnsUsed,
+    state: (conversation.state as Record<string, any>) || {},
+    messages: messages.map(message => ({
+      id: message.id,
+      role: message.role as ConversationRole,
+      content: message.content,
+      activities: Array.isArray(message.activities) ? (message.activities as any[]) : null,
+      toolsUsed: message.toolsUsed,
+      createdAt: message.createdAt,
+    })),
+    lastMessageAt: conversation.lastMessageAt,
+    expiresAt: conversation.expiresAt,
+    createdAt: conversation.createdAt,
+  };
+}
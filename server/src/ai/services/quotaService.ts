@@ -5,6 +5,7 @@
  */
 
 import { PrismaClient } from '../../../generated/prisma';
+import { subscriptionService } from '../../services/subscriptionService';
 
 // Singleton prisma instance
 let _prisma: PrismaClient | null = null;
@@ -30,11 +31,13 @@ const LIMITS = {
     daily: 3,
     monthly: 30,
     turnsPerConversation: 1,
+    historyRetentionDays: 7,
   },
   pro: {
     daily: 30,
     monthly: 1000,
     turnsPerConversation: 5,
+    historyRetentionDays: 90,
   },
 };
 
@@ -45,23 +48,8 @@ export async function checkAIQuota(userId: string): Promise<QuotaStatus> {
   const prisma = getPrisma();
 
   try {
-    // Get user subscription status via subscription relation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        subscription: {
-          include: {
-            plan: true,
-          },
-        },
-      },
-    });
-
-    // Check if user has active subscription (not free plan)
-    const subscription = user?.subscription;
-    const isPro = subscription?.status === 'active' &&
-                  subscription.plan?.name !== 'free' &&
-                  subscription.plan?.name !== 'Free';
+    // Own premium, or premium shared through a family plan
+    const isPro = await subscriptionService.isPremiumUser(userId);
 
     const limits = isPro ? LIMITS.pro : LIMITS.free;
 
@@ -224,3 +212,10 @@ export async function getUsageStats(userId: string): Promise<{
 export function getTurnLimit(isPro: boolean): number {
   return isPro ? LIMITS.pro.turnsPerConversation : LIMITS.free.turnsPerConversation;
 }
+
+/**
+ * Get how many days a user's chat history is kept after the last message
+ */
+export function getHistoryRetentionDays(isPro: boolean): number {
+  return isPro ? LIMITS.pro.historyRetentionDays : LIMITS.free.historyRetentionDays;
+}
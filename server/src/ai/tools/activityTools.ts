@@ -18,6 +18,8 @@ import {
 } from '../utils/activityScorer';
 import { hybridSearch, HybridSearchOptions } from '../utils/semanticSearch';
 import { extractOverrides } from '../utils/conversationOverrides';
+import { buildExclusionWhere } from '../../utils/childDismissals';
+import { childDismissalService } from '../../services/childDismissalService';
 
 // Singleton prisma instance
 let _prisma: PrismaClient | null = null;
@@ -100,8 +102,10 @@ export const searchActivitiesTool = new DynamicStructuredTool({
     maxPrice: z.number().optional().describe('Maximum price in dollars'),
     daysOfWeek: z.array(z.string()).optional().describe('Preferred days (e.g., ["Saturday", "Sunday"])'),
     limit: z.number().optional().default(10).describe('Number of results to return (max 20)'),
+    userId: z.string().optional().describe('Filled in by the server'),
+    childIds: z.array(z.string()).optional().describe('Filled in by the server'),
   }),
-  func: async ({ category, minAge, maxAge, gender, city, maxPrice, daysOfWeek, searchTerm, limit, latitude, longitude }) => {
+  func: async ({ category, minAge, maxAge, gender, city, maxPrice, daysOfWeek, searchTerm, limit, latitude, longitude, userId, childIds }) => {
     const prisma = getPrisma();
 
     try {
@@ -202,6 +206,14 @@ export const searchActivitiesTool = new DynamicStructuredTool({
         where.category = { contains: category, mode: 'insensitive' };
       }
 
+      // Hide what the children were marked not interested in
+      if (userId) {
+        const exclusionWhere = buildExclusionWhere(await childDismissalService.getExclusions(userId, childIds));
+        if (exclusionWhere) {
+          where.AND = [...(where.AND || []), exclusionWhere];
+        }
+      }
+
       console.log('[searchActivities] Query where:', JSON.stringify(where, null, 2));
 
       // Fetch more results initially if we need to filter by distance
@@ -646,8 +658,9 @@ export const enhancedSearchTool = new DynamicStructuredTool({
     conversationContext: z.string().optional().describe('Recent conversation history for extracting overrides'),
     useSemanticSearch: z.boolean().optional().default(false).describe('Use semantic embeddings for better matching (slower but more accurate)'),
     limit: z.number().optional().default(15).describe('Number of results to return'),
+    childIds: z.array(z.string()).optional().describe('Filled in by the server'),
   }),
-  func: async ({ query, userContext, conversationContext, useSemanticSearch, limit }) => {
+  func: async ({ query, userContext, conversationContext, useSemanticSearch, limit, childIds }) => {
     const prisma = getPrisma();
 
     try {
@@ -684,6 +697,13 @@ export const enhancedSearchTool = new DynamicStructuredTool({
           priceRange: userContext?.maxPrice ? { max: userContext.maxPrice } : undefined,
           distanceRadiusKm: userContext?.maxDistanceKm || overrides.locationOverride?.maxDistanceKm || 50,
         },
+        // Hide what the children were marked not interested in
+        exclusions: userContext?.userId
+          ? await childDismissalService.getExclusions(
+              userContext.userId,
+              childIds ?? userContext.children?.map(c => c.id)
+            )
+          : undefined,
       };
 
       let results: any[];
@@ -741,6 +761,11 @@ export const enhancedSearchTool = new DynamicStructuredTool({
           }
         }
 
+        const exclusionWhere = buildExclusionWhere(scoringContext.exclusions);
+        if (exclusionWhere) {
+          where.AND = [...(where.AND || []), exclusionWhere];
+        }
+
         // Fetch candidates
         const candidates = await prisma.activity.findMany({
           where,
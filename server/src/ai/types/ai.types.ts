@@ -174,6 +174,10 @@ export interface AIResponseWithMeta extends AIResponse {
   latency_ms?: number;
   /** Full activity data keyed by activity_id - avoids client needing to fetch each activity */
   activities?: Record<string, any>;
+  /** Identifies this set of recommendations when reporting feedback on it */
+  request_id?: string;
+  /** Ranking version that ordered the recommendations */
+  ranking_version?: string;
 }
 
 /**
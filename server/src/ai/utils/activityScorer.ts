@@ -2,13 +2,17 @@
  * Activity Scorer
  *
  * Implements tiered scoring system for activity recommendations.
- * - Tier 1: Hard filters (location, age, registration) - eliminates results
+ * - Tier 1: Hard filters (location, age, registration, "not interested"
+ *   dismissals and excluded categories) - eliminates results
  * - Tier 2: Strong preferences (type, days, budget, interests) - high weight
  * - Tier 3: Soft preferences (provider, diversity, time) - lower weight
  * - Tier 4: Contextual signals (skill, availability, distance) - adjustments
+ * - Learned: family category affinity and weight multipliers fit from
+ *   recommendation feedback (see rankingModel.ts)
  */
 
 import { Activity, Child, Location } from '../../../generated/prisma';
+import { ActivityExclusions, exclusionsForChild, isActivityExcluded } from '../../utils/childDismissals';
 
 // Types
 export interface UserPreferences {
@@ -43,8 +47,20 @@ export interface ScoringContext {
   // 'or' (default): Show activities suitable for ANY selected child
   // 'and': Show activities suitable for ALL selected children together (premium)
   filterMode?: 'or' | 'and';
+  // Learned from recommendation feedback (see rankingModel.ts)
+  learnedPreferences?: PreferenceVector;
+  rankingWeights?: RankingWeights;
+  rankingVersion?: string;
+  // Children's "not interested" dismissals and excluded categories
+  exclusions?: ActivityExclusions;
 }
 
+// Category -> affinity in [-1, 1]
+export type PreferenceVector = Record<string, number>;
+
+// Multiplier per breakdown component; missing components keep the hand-tuned weight
+export type RankingWeights = Partial<Record<keyof ScoreBreakdown, number>>;
+
 export interface ConversationOverrides {
   locationOverride?: { city?: string; maxDistanceKm?: number };
   ageOverride?: number;
@@ -75,6 +91,7 @@ export interface ScoreBreakdown {
   distancePenalty: number;
   explicitRequirementBonus: number;
   favoriteTypeBonus: number;
+  learnedPreferenceBonus: number;
 }
 
 // Scoring weights
@@ -88,6 +105,7 @@ const WEIGHTS = {
   // Tier 3: Soft preferences
   PROVIDER_FAMILIARITY: 10,
   FAVORITE_TYPE: 10,
+  LEARNED_PREFERENCE: 10,
   DIVERSITY_BONUS: 5,
   TIME_PREFERENCE: 5,
   ENVIRONMENT_PREFERENCE: 5,
@@ -499,6 +517,29 @@ function getDistancePenalty(distance: number | null): number {
   return Math.floor(distance / 5) * WEIGHTS.DISTANCE_PENALTY_PER_5KM;
 }
 
+/**
+ * Get bonus/penalty from the family's learned category affinity
+ */
+function getLearnedPreferenceBonus(activity: Activity, preferences?: PreferenceVector): number {
+  if (!preferences) return 0;
+
+  const category = activity.category?.toLowerCase();
+  const affinity = category ? preferences[category] : undefined;
+  if (!affinity) return 0;
+
+  return Math.round(affinity * WEIGHTS.LEARNED_PREFERENCE);
+}
+
+/**
+ * Sum a score breakdown, applying learned weight multipliers if any
+ */
+export function applyRankingWeights(breakdown: ScoreBreakdown, weights?: RankingWeights): number {
+  return (Object.keys(breakdown) as Array<keyof ScoreBreakdown>).reduce(
+    (sum, key) => sum + breakdown[key] * (weights?.[key] ?? 1),
+    0
+  );
+}
+
 /**
  * Score a single activity for recommendations (profile-driven)
  */
@@ -516,6 +557,8 @@ export function scoreForRecommendations(
 
   if (!isRegistrationOpen(activity)) return null;
 
+  if (isActivityExcluded(activity, context.exclusions)) return null;
+
   // TIER 2-4: SCORING
   const breakdown: ScoreBreakdown = {
     activityTypeMatch: matchesActivityType(activity, context.preferences.preferredActivityTypes)
@@ -548,9 +591,10 @@ export function scoreForRecommendations(
     availabilityBonus: getAvailabilityBonus(activity),
     distancePenalty: getDistancePenalty(distanceCheck.distance),
     explicitRequirementBonus: 0, // Not used in recommendations
+    learnedPreferenceBonus: getLearnedPreferenceBonus(activity, context.learnedPreferences),
   };
 
-  const score = Object.values(breakdown).reduce((sum, val) => sum + val, 0);
+  const score = applyRankingWeights(breakdown, context.rankingWeights);
 
   return {
     activity,
@@ -585,6 +629,8 @@ export function scoreForChat(
 
   if (!isRegistrationOpen(activity)) return null;
 
+  if (isActivityExcluded(activity, context.exclusions)) return null;
+
   // Hard filter on explicit days if specified
   if (overrides.daysOverride && overrides.daysOverride.length > 0) {
     if (!matchesDaysOfWeek(activity, overrides.daysOverride)) return null;
@@ -632,9 +678,10 @@ export function scoreForChat(
     ),
     availabilityBonus: getAvailabilityBonus(activity),
     distancePenalty: getDistancePenalty(distanceCheck.distance),
+    learnedPreferenceBonus: getLearnedPreferenceBonus(activity, context.learnedPreferences),
   };
 
-  const score = Object.values(breakdown).reduce((sum, val) => sum + val, 0);
+  const score = applyRankingWeights(breakdown, context.rankingWeights);
 
   return {
     activity,
@@ -663,6 +710,10 @@ export function scoreForScheduler(
 
   if (!isRegistrationOpen(activity)) return null;
 
+  if (context.exclusions && isActivityExcluded(activity, exclusionsForChild(context.exclusions, child.id))) {
+    return null;
+  }
+
   // Check for time conflicts
   const activityDays = activity.dayOfWeek || [];
   const activityStart = activity.startTime;
@@ -730,6 +781,7 @@ export function scoreForScheduler(
     availabilityBonus: getAvailabilityBonus(activity),
     distancePenalty: getDistancePenalty(distanceCheck.distance),
     explicitRequirementBonus: 0,
+    learnedPreferenceBonus: getLearnedPreferenceBonus(activity, context.learnedPreferences),
   };
 
   // Balance across the week bonus
@@ -744,7 +796,7 @@ export function scoreForScheduler(
     }
   }
 
-  const score = Object.values(breakdown).reduce((sum, val) => sum + val, 0);
+  const score = applyRankingWeights(breakdown, context.rankingWeights);
 
   return {
     activity,
@@ -849,6 +901,7 @@ export default {
   scoreForChat,
   scoreForScheduler,
   scoreAndRankActivities,
+  applyRankingWeights,
   calculateDistanceKm,
   expandSearchTerm,
 };
@@ -0,0 +1,48 @@
+/**
+ * Chat Stream Events
+ *
+ * Event types and Server-Sent Events framing for streaming chat responses.
+ * The agent emits these as a turn progresses so the client can render the
+ * reply incrementally instead of waiting for the whole tool-calling loop.
+ */
+
+export type ChatStreamEvent =
+  | { type: 'status'; stage: 'thinking' | 'tool'; tool?: string; message: string }
+  | { type: 'token'; text: string }
+  | { type: 'activities'; activities: any[] }
+  | { type: 'done'; response: Record<string, any> }
+  | { type: 'error'; error: string; status?: number; [key: string]: any };
+
+export type ChatStreamHandler = (event: ChatStreamEvent) => void;
+
+/**
+ * Describe a tool call as a short progress message for the user
+ */
+export function describeToolCall(toolName: string, args: Record<string, any> = {}): string {
+  switch (toolName) {
+    case 'search_activities': {
+      const term = typeof args.searchTerm === 'string' ? args.searchTerm.trim() : '';
+      return term ? `Searching ${term} activities…` : 'Searching activities…';
+    }
+    case 'enhanced_search':
+      return 'Searching activities…';
+    case 'compare_activities': {
+      const count = Array.isArray(args.activityIds) ? Math.min(args.activityIds.length, 5) : 0;
+      return count > 1 ? `Comparing ${count} programs…` : 'Comparing programs…';
+    }
+    case 'get_activity_details':
+      return 'Looking up activity details…';
+    case 'get_child_context':
+      return 'Checking your family profile…';
+    default:
+      return 'Working on it…';
+  }
+}
+
+/**
+ * Frame an event for a text/event-stream response
+ */
+export function formatSseEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
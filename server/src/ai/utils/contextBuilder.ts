@@ -2,6 +2,9 @@ import { FamilyContext, ChildProfile, FamilyPreferences } from '../types/ai.type
 import { EnhancedChildProfile, EnhancedFamilyContext } from '../agents/activityAssistantAgent';
 import { PrismaClient } from '../../../generated/prisma';
 import { ScoringContext, ChildProfile as ScorerChildProfile, UserPreferences } from './activityScorer';
+import { RankingMode } from './rankingModel';
+import { rankingFeedbackService } from '../../services/rankingFeedbackService';
+import { buildChildExclusions } from '../../utils/childDismissals';
 
 // Singleton prisma for enhanced context builder
 let _prismaEnhanced: PrismaClient | null = null;
@@ -612,10 +615,12 @@ export async function buildScoringContext(
     includeRecentActivity?: boolean;
     includeFavorites?: boolean;
     filterMode?: 'or' | 'and';
+    // Load the user's ranking version for this scorer mode
+    rankingMode?: RankingMode;
   }
 ): Promise<ScoringContext> {
   const prisma = getPrismaEnhanced();
-  const { selectedChildIds, includeRecentActivity = true, includeFavorites = true, filterMode = 'or' } = options || {};
+  const { selectedChildIds, includeRecentActivity = true, includeFavorites = true, filterMode = 'or', rankingMode } = options || {};
 
   // Fetch user with preferences (fallback only)
   const user = await prisma.user.findUnique({
@@ -650,6 +655,9 @@ export async function buildScoringContext(
       },
       // Include child-specific preferences
       preferences: true,
+      dismissals: {
+        select: { type: true, targetId: true },
+      },
     },
   });
 
@@ -760,6 +768,22 @@ export async function buildScoringContext(
   const longitude = childLoc?.longitude || userPrefs.longitude || -123.1207;
   const city = childLoc?.city || userPrefs.locations?.[0] || userPrefs.preferredLocation || userPrefs.city;
 
+  // Learned from recommendation feedback
+  const learnedPreferences = await rankingFeedbackService.getPreferenceVector(userId);
+  const ranking = rankingMode
+    ? await rankingFeedbackService.getRankingWeights(userId, rankingMode)
+    : undefined;
+
+  // "Not interested" dismissals and excluded categories are hard filters
+  const exclusions = buildChildExclusions(
+    children.map(child => ({
+      childId: child.id,
+      dismissals: child.dismissals,
+      excludedCategories: child.preferences?.excludedCategories,
+    })),
+    filterMode
+  );
+
   return {
     userLocation: {
       latitude,
@@ -772,6 +796,10 @@ export async function buildScoringContext(
     favoriteProviders: favoriteProviders.length > 0 ? favoriteProviders : undefined,
     favoriteActivityTypes: favoriteActivityTypes.length > 0 ? favoriteActivityTypes : undefined,
     filterMode, // Include for downstream scoring
+    learnedPreferences,
+    rankingWeights: ranking?.weights,
+    rankingVersion: ranking?.version,
+    exclusions,
   };
 }
 
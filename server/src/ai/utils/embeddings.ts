@@ -0,0 +1,204 @@
+/**
+ * Embedding Providers
+ *
+ * Turns text into vectors for semantic search. OpenAI is used in production;
+ * the local provider hashes words into a fixed-size vector so tests and
+ * development get stable embeddings without network calls or API cost.
+ * Stored embeddings are keyed by the provider's model name, so switching
+ * providers never mixes vectors from different spaces.
+ */
+
+import crypto from 'crypto';
+import OpenAI from 'openai';
+
+export interface EmbeddingProvider {
+  /** Stored in ActivityEmbedding.model */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ScoredItem<T> {
+  item: T;
+  similarity: number;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_EMBEDDING_DIMENSIONS = 1536;
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep
+// request bodies and retries cheap
+const OPENAI_BATCH_SIZE = 100;
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model = OPENAI_EMBEDDING_MODEL;
+  readonly dimensions = OPENAI_EMBEDDING_DIMENSIONS;
+  private client: OpenAI | null = null;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+        dimensions: this.dimensions,
+      });
+      // The API returns items with an index; don't rely on response order
+      const batch = [...response.data].sort((a, b) => a.index - b.index);
+      embeddings.push(...batch.map(item => item.embedding));
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Deterministic stand-in: each word (and each pair of neighbouring words) is
+ * hashed to a dimension and sign, and the counts are normalized. Texts that
+ * share words score as similar, which is enough to exercise ranking.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const digest = crypto.createHash('md5').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      vector[index] += digest[4] % 2 === 0 ? 1 : -1;
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Provider chosen by EMBEDDING_PROVIDER ('openai' by default, or 'local')
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = process.env.EMBEDDING_PROVIDER === 'local'
+      ? new LocalEmbeddingProvider()
+      : new OpenAIEmbeddingProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (tests, or a different embeddings vendor)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Hash of the text an embedding was made from; a different hash means the
+ * stored embedding is stale
+ */
+export function hashEmbeddingText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Pack a vector as little-endian float32 for ActivityEmbedding.embedding
+ */
+export function encodeEmbedding(embedding: number[]): Buffer {
+  const buffer = Buffer.alloc(embedding.length * 4);
+  embedding.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer;
+}
+
+export function decodeEmbedding(buffer: Uint8Array): number[] {
+  const bytes = Buffer.from(buffer);
+  if (bytes.length % 4 !== 0) {
+    throw new Error('Embedding byte length must be a multiple of 4');
+  }
+
+  const embedding = new Array<number>(bytes.length / 4);
+  for (let i = 0; i < embedding.length; i++) {
+    embedding[i] = bytes.readFloatLE(i * 4);
+  }
+  return embedding;
+}
+
+/**
+ * pgvector text format, e.g. [0.1,0.2,0.3]
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  normA = Math.sqrt(normA);
+  normB = Math.sqrt(normB);
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (normA * normB);
+}
+
+/**
+ * Brute-force top-k by cosine similarity. Items whose vector has a different
+ * length (another model) are skipped.
+ */
+export function topKBySimilarity<T>(
+  query: number[],
+  items: T[],
+  getEmbedding: (item: T) => number[],
+  k: number
+): ScoredItem<T>[] {
+  const scored: ScoredItem<T>[] = [];
+
+  for (const item of items) {
+    const embedding = getEmbedding(item);
+    if (embedding.length !== query.length) continue;
+    scored.push({ item, similarity: cosineSimilarity(query, embedding) });
+  }
+
+  scored.sort((a, b) => b.similarity - a.similarity);
+  return scored.slice(0, k);
+}
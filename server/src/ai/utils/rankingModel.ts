@@ -0,0 +1,365 @@
+/**
+ * Ranking Model
+ *
+ * Learns from what families do with AI recommendations.
+ * - Feedback events are graded (a registration counts more than a detail open)
+ * - Scorer weights are fit offline with a pairwise (RankNet-style) logistic
+ *   model over the ScoreBreakdown, pulled toward the hand-tuned weights
+ * - A per-user preference vector tracks which categories a family engages with
+ * - Ranking versions are compared on engagement rates
+ */
+
+import crypto from 'crypto';
+import { PreferenceVector, RankingWeights, ScoreBreakdown } from './activityScorer';
+
+// Types
+export type RecommendationEventType =
+  | 'impression'
+  | 'detail_open'
+  | 'favorite'
+  | 'waitlist_join'
+  | 'registration'
+  | 'dismiss';
+
+export type RankingMode = 'recommendations' | 'chat' | 'scheduler';
+
+export interface RankingItem {
+  activityId: string;
+  features: Partial<ScoreBreakdown>;
+  // Best feedback the item got: EVENT_GAINS value, or 0 if only shown
+  gain: number;
+}
+
+export interface RankingList {
+  requestId: string;
+  items: RankingItem[];
+}
+
+export interface FeedbackEvent {
+  requestId: string;
+  activityId: string;
+  eventType: RecommendationEventType;
+  features?: Partial<ScoreBreakdown> | null;
+}
+
+export interface FitOptions {
+  epochs?: number;
+  learningRate?: number;
+  // Pull toward the hand-tuned weights (multiplier 1)
+  regularization?: number;
+}
+
+export interface RankingModelMetrics {
+  ndcg: number;
+  baselineNdcg: number;
+  lists: number;
+  pairs: number;
+}
+
+export interface RankingModelCandidate {
+  version: string;
+  trafficPercent: number;
+}
+
+export interface PreferenceEvent {
+  category: string | null;
+  eventType: RecommendationEventType;
+  createdAt: Date;
+}
+
+export interface VersionEventCount {
+  version: string;
+  eventType: RecommendationEventType;
+  events: number;
+  requests: number;
+}
+
+// Impressions of a version that got positive feedback
+export interface VersionEngagement {
+  impressions: number;
+  avgRank: number | null;
+}
+
+export interface RankingVersionReport {
+  version: string;
+  requests: number;
+  impressions: number;
+  detailOpenRate: number;
+  favoriteRate: number;
+  waitlistRate: number;
+  registrationRate: number;
+  dismissRate: number;
+  // Share of impressions with any positive feedback
+  engagementRate: number;
+  // Average shown position of items that got positive feedback (lower is better)
+  avgEngagedRank: number | null;
+}
+
+export const BASELINE_RANKING_VERSION = 'baseline';
+export const LLM_RANKING_VERSION = 'llm';
+
+export const RANKING_FEATURES: Array<keyof ScoreBreakdown> = [
+  'activityTypeMatch',
+  'dayOfWeekMatch',
+  'budgetMatch',
+  'interestMatch',
+  'providerBonus',
+  'diversityBonus',
+  'timePreferenceBonus',
+  'skillLevelBonus',
+  'availabilityBonus',
+  'distancePenalty',
+  'explicitRequirementBonus',
+  'favoriteTypeBonus',
+  'learnedPreferenceBonus',
+];
+
+// Graded relevance of each event; dismissals rank below items that were only shown
+export const EVENT_GAINS: Record<RecommendationEventType, number> = {
+  impression: 0,
+  detail_open: 1,
+  favorite: 2,
+  waitlist_join: 3,
+  registration: 4,
+  dismiss: -1,
+};
+
+// Events the app reports; the rest are recorded by the server
+export const CLIENT_FEEDBACK_EVENTS: RecommendationEventType[] = ['detail_open', 'dismiss'];
+
+export const POSITIVE_EVENTS: RecommendationEventType[] = ['detail_open', 'favorite', 'waitlist_join', 'registration'];
+
+// Breakdown values are on the scorer's point scale (roughly -10 to 30)
+const FEATURE_SCALE = 10;
+const MIN_WEIGHT = 0;
+const MAX_WEIGHT = 3;
+
+const PREFERENCE_HALF_LIFE_DAYS = 30;
+// Shown but ignored counts slightly against a category
+const IGNORED_IMPRESSION_GAIN = -0.05;
+const MAX_PREFERENCE_CATEGORIES = 20;
+
+/**
+ * Group feedback events into one graded list per recommendation request.
+ * Items need an impression with features to be used for training.
+ */
+export function buildRankingLists(events: FeedbackEvent[]): RankingList[] {
+  const lists = new Map<string, Map<string, RankingItem & { dismissed: boolean }>>();
+
+  for (const event of events) {
+    if (event.eventType !== 'impression' || !event.features) continue;
+    const items = lists.get(event.requestId) || new Map();
+    items.set(event.activityId, { activityId: event.activityId, features: event.features, gain: 0, dismissed: false });
+    lists.set(event.requestId, items);
+  }
+
+  for (const event of events) {
+    const item = lists.get(event.requestId)?.get(event.activityId);
+    if (!item) continue;
+    if (event.eventType === 'dismiss') {
+      item.dismissed = true;
+    } else {
+      item.gain = Math.max(item.gain, EVENT_GAINS[event.eventType]);
+    }
+  }
+
+  return [...lists.entries()].map(([requestId, items]) => ({
+    requestId,
+    items: [...items.values()].map(({ dismissed, ...item }) => ({
+      ...item,
+      // Positive feedback wins over a later dismissal
+      gain: item.gain > 0 ? item.gain : dismissed ? EVENT_GAINS.dismiss : 0,
+    })),
+  }));
+}
+
+/**
+ * Weighted score of an item's features
+ */
+export function scoreFeatures(features: Partial<ScoreBreakdown>, weights: RankingWeights = {}): number {
+  return RANKING_FEATURES.reduce(
+    (sum, feature) => sum + (features[feature] ?? 0) * (weights[feature] ?? 1),
+    0
+  );
+}
+
+/**
+ * Fit weight multipliers on the ScoreBreakdown from graded lists. Every pair
+ * in a list where one item got better feedback is a training example; the
+ * multipliers start at, and are regularized toward, the hand-tuned weights.
+ */
+export function fitRankingWeights(lists: RankingList[], options: FitOptions = {}): RankingWeights {
+  const { epochs = 100, learningRate = 0.5, regularization = 0.01 } = options;
+  const weights: Record<string, number> = Object.fromEntries(RANKING_FEATURES.map(feature => [feature, 1]));
+
+  const pairs: number[][] = [];
+  for (const list of lists) {
+    for (const better of list.items) {
+      for (const worse of list.items) {
+        if (better.gain <= worse.gain) continue;
+        pairs.push(
+          RANKING_FEATURES.map(feature =>
+            ((better.features[feature] ?? 0) - (worse.features[feature] ?? 0)) / FEATURE_SCALE
+          )
+        );
+      }
+    }
+  }
+
+  if (pairs.length === 0) return weights;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = RANKING_FEATURES.map(feature => regularization * (weights[feature] - 1));
+
+    for (const diff of pairs) {
+      const margin = diff.reduce((sum, value, i) => sum + value * weights[RANKING_FEATURES[i]], 0);
+      // d/dw of log(1 + e^-margin)
+      const scale = -1 / (1 + Math.exp(margin)) / pairs.length;
+      diff.forEach((value, i) => {
+        gradient[i] += scale * value;
+      });
+    }
+
+    RANKING_FEATURES.forEach((feature, i) => {
+      weights[feature] = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, weights[feature] - learningRate * gradient[i]));
+    });
+  }
+
+  return Object.fromEntries(
+    RANKING_FEATURES.map(feature => [feature, Math.round(weights[feature] * 1000) / 1000])
+  );
+}
+
+/**
+ * Mean NDCG@k of the lists re-ranked with the given weights. Lists without
+ * positive feedback carry no signal and are skipped.
+ */
+export function ndcgAtK(lists: RankingList[], weights: RankingWeights = {}, k: number = 10): number {
+  const dcg = (gains: number[]) =>
+    gains.slice(0, k).reduce((sum, gain, i) => sum + (Math.pow(2, Math.max(0, gain)) - 1) / Math.log2(i + 2), 0);
+
+  const scores: number[] = [];
+  for (const list of lists) {
+    if (!list.items.some(item => item.gain > 0)) continue;
+
+    const ranked = [...list.items]
+      .sort((a, b) => scoreFeatures(b.features, weights) - scoreFeatures(a.features, weights))
+      .map(item => item.gain);
+    const ideal = list.items.map(item => item.gain).sort((a, b) => b - a);
+
+    scores.push(dcg(ranked) / dcg(ideal));
+  }
+
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+}
+
+/**
+ * Fit weights and score them against the hand-tuned baseline
+ */
+export function trainRankingWeights(
+  lists: RankingList[],
+  options?: FitOptions
+): { weights: RankingWeights; metrics: RankingModelMetrics } {
+  const weights = fitRankingWeights(lists, options);
+  const pairs = lists.reduce(
+    (sum, list) =>
+      sum + list.items.reduce((count, a) => count + list.items.filter(b => a.gain > b.gain).length, 0),
+    0
+  );
+
+  return {
+    weights,
+    metrics: {
+      ndcg: ndcgAtK(lists, weights),
+      baselineNdcg: ndcgAtK(lists),
+      lists: lists.length,
+      pairs,
+    },
+  };
+}
+
+/**
+ * Stable 0-99 bucket for a user, so they keep seeing the same ranking version
+ */
+export function rankingBucket(userId: string): number {
+  const hash = crypto.createHash('sha256').update(userId).digest('hex');
+  return parseInt(hash.slice(0, 8), 16) % 100;
+}
+
+/**
+ * Pick the ranking version for a user from the models receiving traffic.
+ * Buckets not covered by any model get the hand-tuned baseline.
+ */
+export function pickRankingVersion(userId: string, models: RankingModelCandidate[]): string {
+  const bucket = rankingBucket(userId);
+  let upper = 0;
+
+  for (const model of models) {
+    upper += Math.max(0, model.trafficPercent);
+    if (bucket < upper) return model.version;
+  }
+
+  return BASELINE_RANKING_VERSION;
+}
+
+/**
+ * Category affinities in [-1, 1] from a user's feedback, with recent events
+ * counting more
+ */
+export function buildPreferenceVector(events: PreferenceEvent[], now: Date = new Date()): PreferenceVector {
+  const totals: Record<string, number> = {};
+
+  for (const event of events) {
+    if (!event.category) continue;
+    const gain = event.eventType === 'impression' ? IGNORED_IMPRESSION_GAIN : EVENT_GAINS[event.eventType];
+    const ageDays = Math.max(0, (now.getTime() - event.createdAt.getTime()) / (24 * 60 * 60 * 1000));
+    const decay = Math.pow(0.5, ageDays / PREFERENCE_HALF_LIFE_DAYS);
+    const category = event.category.toLowerCase();
+    totals[category] = (totals[category] || 0) + gain * decay;
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals)
+      .map(([category, total]) => [category, Math.round(Math.tanh(total / 4) * 1000) / 1000] as [string, number])
+      .filter(([, affinity]) => affinity !== 0)
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, MAX_PREFERENCE_CATEGORIES)
+  );
+}
+
+/**
+ * Engagement rates per ranking version from event counts
+ */
+export function summarizeRankingVersions(
+  counts: VersionEventCount[],
+  engagement: Record<string, VersionEngagement> = {}
+): RankingVersionReport[] {
+  const byVersion = new Map<string, Partial<Record<RecommendationEventType, VersionEventCount>>>();
+  for (const count of counts) {
+    const events = byVersion.get(count.version) || {};
+    events[count.eventType] = count;
+    byVersion.set(count.version, events);
+  }
+
+  const rate = (count: number, impressions: number) =>
+    impressions > 0 ? Math.round((count / impressions) * 10000) / 10000 : 0;
+
+  return [...byVersion.entries()]
+    .map(([version, events]) => {
+      const impressions = events.impression?.events ?? 0;
+
+      return {
+        version,
+        requests: events.impression?.requests ?? 0,
+        impressions,
+        detailOpenRate: rate(events.detail_open?.events ?? 0, impressions),
+        favoriteRate: rate(events.favorite?.events ?? 0, impressions),
+        waitlistRate: rate(events.waitlist_join?.events ?? 0, impressions),
+        registrationRate: rate(events.registration?.events ?? 0, impressions),
+        dismissRate: rate(events.dismiss?.events ?? 0, impressions),
+        engagementRate: rate(engagement[version]?.impressions ?? 0, impressions),
+        avgEngagedRank: engagement[version]?.avgRank ?? null,
+      };
+    })
+    .sort((a, b) => b.impressions - a.impressions);
+}
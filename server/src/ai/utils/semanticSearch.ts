@@ -2,25 +2,22 @@
  * Semantic Search Service
  *
  * Provides embedding-based semantic search for activities.
- * Uses OpenAI embeddings with a hybrid approach combining
- * structured filters with semantic similarity.
+ * Uses stored activity embeddings (see vectorIndex) with a hybrid
+ * approach combining structured filters with semantic similarity.
  */
 
-import OpenAI from 'openai';
 import { PrismaClient, Activity, Location } from '../../../generated/prisma';
 import { ScoringContext, ConversationOverrides, scoreForChat, scoreForRecommendations } from './activityScorer';
+import { cosineSimilarity, getEmbeddingProvider, hashEmbeddingText } from './embeddings';
+import {
+  EMBEDDABLE_ACTIVITY_SELECT,
+  ensureActivityEmbeddings,
+  findNearestActivities,
+  getActivitySearchText,
+} from './vectorIndex';
+import { buildExclusionWhere } from '../../utils/childDismissals';
 
-// Singleton OpenAI client
-let _openai: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    _openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return _openai;
-}
+export { cosineSimilarity, getActivitySearchText };
 
 // Singleton Prisma client
 let _prisma: PrismaClient | null = null;
@@ -33,13 +30,6 @@ function getPrisma(): PrismaClient {
 }
 
 // Types
-export interface ActivityEmbedding {
-  activityId: string;
-  embedding: number[];
-  textHash: string;
-  createdAt: Date;
-}
-
 export interface SemanticSearchResult {
   activity: Activity & { location?: Location | null };
   semanticScore: number;
@@ -58,37 +48,31 @@ export interface HybridSearchOptions {
   structuredWeight?: number; // 0-1, default 0.7
 }
 
-// Embedding model config
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIMENSIONS = 1536;
-
-// In-memory embedding cache (for development/small deployments)
-// In production, this would be stored in pgvector or a vector database
+// Query embeddings are cached in memory since the same searches repeat;
+// activity embeddings live in the ActivityEmbedding table
+const QUERY_CACHE_MAX_SIZE = 1000;
 const embeddingCache = new Map<string, number[]>();
 
 /**
- * Generate embedding for text using OpenAI
+ * Generate embedding for text with the configured provider
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
+
   // Check cache first
-  const cacheKey = hashText(text);
+  const cacheKey = `${provider.model}:${hashEmbeddingText(text)}`;
   const cached = embeddingCache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
-  const openai = getOpenAI();
-
   try {
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    const embedding = response.data[0].embedding;
+    const [embedding] = await provider.embed([text]);
 
-    // Cache the result
+    // Cache the result, dropping the oldest entry when full
+    if (embeddingCache.size >= QUERY_CACHE_MAX_SIZE) {
+      embeddingCache.delete(embeddingCache.keys().next().value as string);
+    }
     embeddingCache.set(cacheKey, embedding);
 
     return embedding;
@@ -99,62 +83,23 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 }
 
 /**
- * Generate embedding for an activity's searchable content
- */
-export function getActivitySearchText(activity: Activity): string {
-  const parts: string[] = [];
-
-  if (activity.name) parts.push(activity.name);
-  if (activity.category) parts.push(activity.category);
-  if (activity.subcategory) parts.push(activity.subcategory);
-  if (activity.description) {
-    // Truncate description to avoid token limits
-    const desc = activity.description.slice(0, 500);
-    parts.push(desc);
-  }
-
-  return parts.join(' ').toLowerCase();
-}
-
-/**
- * Simple hash function for cache keys
- */
-function hashText(text: string): string {
-  let hash = 0;
-  for (let i = 0; i < text.length; i++) {
-    const char = text.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return hash.toString(36);
-}
-
-/**
- * Calculate cosine similarity between two vectors
+ * Similarity of each activity to the query, from stored embeddings.
+ * Activities without an up-to-date embedding are embedded first.
  */
-export function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  normA = Math.sqrt(normA);
-  normB = Math.sqrt(normB);
-
-  if (normA === 0 || normB === 0) {
-    return 0;
-  }
+async function scoreActivitiesByQuery(
+  query: string,
+  activities: Activity[],
+  limit: number
+): Promise<Map<string, number>> {
+  const queryEmbedding = await generateEmbedding(query.toLowerCase());
+  await ensureActivityEmbeddings(activities);
+
+  const nearest = await findNearestActivities(queryEmbedding, {
+    activityIds: activities.map(activity => activity.id),
+    limit,
+  });
 
-  return dotProduct / (normA * normB);
+  return new Map(nearest.map(match => [match.activityId, match.similarity]));
 }
 
 /**
@@ -221,6 +166,13 @@ export async function hybridSearch(
     };
   }
 
+  // Children's "not interested" dismissals and excluded categories, so they
+  // don't take up the candidate pool
+  const exclusionWhere = buildExclusionWhere(context.exclusions);
+  if (exclusionWhere) {
+    where.AND = [...(where.AND || []), exclusionWhere];
+  }
+
   // Fetch candidates (more than we need for re-ranking)
   const candidateLimit = Math.min(limit * 10, 500);
 
@@ -241,12 +193,12 @@ export async function hybridSearch(
     return [];
   }
 
-  // Step 2: Generate query embedding
-  let queryEmbedding: number[] | null = null;
+  // Step 2: Look up semantic similarity for the candidate pool
+  let similarities: Map<string, number> | null = null;
   try {
-    queryEmbedding = await generateEmbedding(query.toLowerCase());
+    similarities = await scoreActivitiesByQuery(query, candidates, candidates.length);
   } catch (error) {
-    console.warn('[SemanticSearch] Failed to generate query embedding, falling back to structured only');
+    console.warn('[SemanticSearch] Semantic scoring failed, falling back to structured only');
   }
 
   // Step 3: Score each candidate
@@ -264,21 +216,8 @@ export async function hybridSearch(
     // Skip if hard filters rejected
     if (!structuredResult) continue;
 
-    // Calculate semantic score (if embedding available)
-    let semanticScore = 0;
-    if (queryEmbedding) {
-      try {
-        const activityText = getActivitySearchText(activity);
-        const activityEmbedding = await generateEmbedding(activityText);
-        semanticScore = cosineSimilarity(queryEmbedding, activityEmbedding);
-
-        // Normalize to 0-100 scale (cosine similarity is -1 to 1, usually 0 to 1 for similar texts)
-        semanticScore = Math.max(0, semanticScore) * 100;
-      } catch (error) {
-        // Skip semantic scoring for this activity
-        semanticScore = 0;
-      }
-    }
+    // Normalize to 0-100 scale (cosine similarity is -1 to 1, usually 0 to 1 for similar texts)
+    const semanticScore = Math.max(0, similarities?.get(activity.id) ?? 0) * 100;
 
     // Normalize structured score to 0-100 scale
     const maxStructuredScore = 100; // Approximate max possible score
@@ -313,21 +252,13 @@ export async function semanticOnlySearch(
   topK: number = 10
 ): Promise<Array<{ activity: Activity & { location?: Location | null }; similarity: number }>> {
   try {
-    const queryEmbedding = await generateEmbedding(query.toLowerCase());
-
-    const scored: Array<{ activity: Activity & { location?: Location | null }; similarity: number }> = [];
-
-    for (const activity of activities) {
-      const activityText = getActivitySearchText(activity);
-      const activityEmbedding = await generateEmbedding(activityText);
-      const similarity = cosineSimilarity(queryEmbedding, activityEmbedding);
-
-      scored.push({ activity, similarity });
-    }
-
-    scored.sort((a, b) => b.similarity - a.similarity);
+    const similarities = await scoreActivitiesByQuery(query, activities, topK);
+    const byId = new Map(activities.map(activity => [activity.id, activity]));
 
-    return scored.slice(0, topK);
+    return [...similarities.entries()].map(([activityId, similarity]) => ({
+      activity: byId.get(activityId)!,
+      similarity,
+    }));
   } catch (error) {
     console.error('[SemanticSearch] Semantic only search error:', error);
     return [];
@@ -335,8 +266,8 @@ export async function semanticOnlySearch(
 }
 
 /**
- * Pre-compute embeddings for activities (batch processing)
- * Call this in a background job to pre-populate embeddings
+ * Pre-compute embeddings for activities (batch processing) and store them
+ * in ActivityEmbedding. Activities whose text hasn't changed are skipped.
  */
 export async function precomputeEmbeddings(
   activityIds?: string[],
@@ -344,9 +275,6 @@ export async function precomputeEmbeddings(
 ): Promise<{ processed: number; failed: number }> {
   const prisma = getPrisma();
 
-  let processed = 0;
-  let failed = 0;
-
   // Get activities to process
   const where: any = {
     isActive: true,
@@ -358,37 +286,19 @@ export async function precomputeEmbeddings(
 
   const activities = await prisma.activity.findMany({
     where,
-    select: {
-      id: true,
-      name: true,
-      category: true,
-      subcategory: true,
-      description: true,
-    },
+    select: EMBEDDABLE_ACTIVITY_SELECT,
     take: batchSize,
   });
 
-  for (const activity of activities) {
-    try {
-      const text = getActivitySearchText(activity as Activity);
-      await generateEmbedding(text);
-      processed++;
-    } catch (error) {
-      console.error(`[SemanticSearch] Failed to embed activity ${activity.id}:`, error);
-      failed++;
-    }
-
-    // Rate limiting - avoid hitting API limits
-    await new Promise(resolve => setTimeout(resolve, 100));
-  }
+  const result = await ensureActivityEmbeddings(activities);
 
-  console.log(`[SemanticSearch] Pre-computed embeddings: ${processed} processed, ${failed} failed`);
+  console.log(`[SemanticSearch] Pre-computed embeddings: ${result.embedded} embedded, ${result.unchanged} unchanged, ${result.failed} failed`);
 
-  return { processed, failed };
+  return { processed: result.embedded + result.unchanged, failed: result.failed };
 }
 
 /**
- * Clear embedding cache (for testing/memory management)
+ * Clear query embedding cache (for testing/memory management)
  */
 export function clearEmbeddingCache(): void {
   embeddingCache.clear();
@@ -0,0 +1,309 @@
+/**
+ * Activity Vector Index
+ *
+ * Keeps one ActivityEmbedding row per activity and embedding model, re-embedding
+ * only when the activity's search text hash changes. Nearest-neighbour lookups
+ * run in Postgres against pgvector's HNSW index when the vector column exists
+ * and the model's embeddings fit it, and fall back to brute-force cosine over
+ * the stored bytes otherwise.
+ */
+
+import { Prisma } from '../../../generated/prisma';
+import { prisma } from '../../lib/prisma';
+import { scheduledTaskService } from '../../services/scheduledTaskService';
+import {
+  EmbeddingProvider,
+  decodeEmbedding,
+  encodeEmbedding,
+  getEmbeddingProvider,
+  hashEmbeddingText,
+  toVectorLiteral,
+  topKBySimilarity,
+} from './embeddings';
+
+export interface EmbeddableActivity {
+  id: string;
+  name: string | null;
+  category: string | null;
+  subcategory: string | null;
+  description: string | null;
+}
+
+export interface NearestActivity {
+  activityId: string;
+  similarity: number;
+}
+
+export interface EmbeddingSyncResult {
+  embedded: number;
+  unchanged: number;
+  failed: number;
+}
+
+/** Fields getActivitySearchText reads */
+export const EMBEDDABLE_ACTIVITY_SELECT = {
+  id: true,
+  name: true,
+  category: true,
+  subcategory: true,
+  description: true,
+} as const;
+
+// Activities embedded per provider call
+const EMBED_BATCH_SIZE = 100;
+const VECTOR_BACKFILL_BATCH_SIZE = 200;
+// Size of ActivityEmbedding.vector. Models with other sizes (the local
+// provider) only use brute force.
+export const VECTOR_COLUMN_DIMENSIONS = 1536;
+
+const EMBEDDING_SYNC_TASK = 'embedding-sync';
+
+let vectorColumnAvailable: Promise<boolean> | null = null;
+
+/**
+ * Text an activity is embedded from
+ */
+export function getActivitySearchText(activity: EmbeddableActivity): string {
+  const parts: string[] = [];
+
+  if (activity.name) parts.push(activity.name);
+  if (activity.category) parts.push(activity.category);
+  if (activity.subcategory) parts.push(activity.subcategory);
+  if (activity.description) {
+    // Truncate description to avoid token limits
+    const desc = activity.description.slice(0, 500);
+    parts.push(desc);
+  }
+
+  return parts.join(' ').toLowerCase();
+}
+
+/**
+ * Whether ActivityEmbedding has its pgvector column. Databases pushed
+ * before the column was added, or without the extension, use brute force.
+ */
+export function isVectorSearchAvailable(): Promise<boolean> {
+  if (!vectorColumnAvailable) {
+    vectorColumnAvailable = prisma
+      .$queryRaw<Array<{ exists: boolean }>>`
+        SELECT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'ActivityEmbedding' AND column_name = 'vector'
+        ) AS "exists"
+      `
+      .then(rows => !!rows[0]?.exists)
+      .catch(error => {
+        console.warn('[VectorIndex] Could not check for pgvector, using brute force:', error);
+        return false;
+      });
+  }
+  return vectorColumnAvailable;
+}
+
+/**
+ * Make sure each activity has an up-to-date embedding for the current
+ * provider. Only activities whose search text changed (or that have no
+ * embedding yet) are sent to the provider.
+ */
+export async function ensureActivityEmbeddings(
+  activities: EmbeddableActivity[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<EmbeddingSyncResult> {
+  const result: EmbeddingSyncResult = { embedded: 0, unchanged: 0, failed: 0 };
+  if (activities.length === 0) return result;
+
+  const existing = await prisma.activityEmbedding.findMany({
+    where: {
+      model: provider.model,
+      activityId: { in: activities.map(a => a.id) },
+    },
+    select: { activityId: true, textHash: true },
+  });
+  const storedHashes = new Map(existing.map(row => [row.activityId, row.textHash]));
+
+  const stale: Array<{ activityId: string; text: string; textHash: string }> = [];
+  for (const activity of activities) {
+    const text = getActivitySearchText(activity);
+    const textHash = hashEmbeddingText(text);
+    if (storedHashes.get(activity.id) === textHash) {
+      result.unchanged++;
+    } else {
+      stale.push({ activityId: activity.id, text, textHash });
+    }
+  }
+
+  const useVector = stale.length > 0 && await isVectorSearchAvailable();
+
+  for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+    const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+    try {
+      const embeddings = await provider.embed(batch.map(entry => entry.text));
+
+      for (let j = 0; j < batch.length; j++) {
+        await storeEmbedding(provider, batch[j].activityId, batch[j].textHash, embeddings[j], useVector);
+      }
+      result.embedded += batch.length;
+    } catch (error) {
+      console.error(`[VectorIndex] Failed to embed ${batch.length} activity(ies):`, error);
+      result.failed += batch.length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Activities closest to the query embedding, most similar first. Pass
+ * activityIds to rank within an already-filtered candidate pool.
+ */
+export async function findNearestActivities(
+  queryEmbedding: number[],
+  options: { activityIds?: string[]; limit: number; provider?: EmbeddingProvider }
+): Promise<NearestActivity[]> {
+  const { activityIds, limit, provider = getEmbeddingProvider() } = options;
+  if (limit <= 0 || activityIds?.length === 0) return [];
+
+  if (queryEmbedding.length === VECTOR_COLUMN_DIMENSIONS && await isVectorSearchAvailable()) {
+    try {
+      return await findNearestWithPgvector(queryEmbedding, provider.model, activityIds, limit);
+    } catch (error) {
+      console.warn('[VectorIndex] pgvector query failed, using brute force:', error);
+    }
+  }
+
+  return findNearestBruteForce(queryEmbedding, provider.model, activityIds, limit);
+}
+
+/**
+ * Scheduled sync: walks active activities a batch at a time, embedding new
+ * and changed ones, and copies stored embeddings into the pgvector column
+ * where it's still empty. The cursor is shared by all instances; a run that
+ * loses the claim on its batch does nothing.
+ */
+export async function syncActivityEmbeddings(
+  batchSize: number = 500
+): Promise<EmbeddingSyncResult & { backfilled: number }> {
+  const state = await scheduledTaskService.getState(EMBEDDING_SYNC_TASK);
+
+  const activities = await prisma.activity.findMany({
+    where: { isActive: true, ...(state.cursor ? { id: { gt: state.cursor } } : {}) },
+    select: EMBEDDABLE_ACTIVITY_SELECT,
+    orderBy: { id: 'asc' },
+    take: batchSize,
+  });
+
+  // Start over from the beginning once the end is reached
+  const nextCursor = activities.length === batchSize ? activities[activities.length - 1].id : null;
+  if (!await scheduledTaskService.advanceCursor(state, nextCursor)) {
+    return { embedded: 0, unchanged: 0, failed: 0, backfilled: 0 };
+  }
+
+  const result = await ensureActivityEmbeddings(activities);
+  const backfilled = await backfillVectorColumn();
+
+  return { ...result, backfilled };
+}
+
+async function storeEmbedding(
+  provider: EmbeddingProvider,
+  activityId: string,
+  textHash: string,
+  embedding: number[],
+  useVector: boolean
+): Promise<void> {
+  const data = {
+    embedding: encodeEmbedding(embedding),
+    textHash,
+    dimensions: embedding.length,
+  };
+
+  const row = await prisma.activityEmbedding.upsert({
+    where: { activityId_model: { activityId, model: provider.model } },
+    create: { activityId, model: provider.model, ...data },
+    update: data,
+    select: { id: true },
+  });
+
+  if (useVector && embedding.length === VECTOR_COLUMN_DIMENSIONS) {
+    await prisma.$executeRaw`
+      UPDATE "ActivityEmbedding" SET "vector" = ${toVectorLiteral(embedding)}::vector WHERE "id" = ${row.id}
+    `;
+  }
+}
+
+async function findNearestWithPgvector(
+  queryEmbedding: number[],
+  model: string,
+  activityIds: string[] | undefined,
+  limit: number
+): Promise<NearestActivity[]> {
+  const vector = toVectorLiteral(queryEmbedding);
+  const idFilter = activityIds
+    ? Prisma.sql`AND "activityId" IN (${Prisma.join(activityIds)})`
+    : Prisma.empty;
+
+  // <=> is cosine distance. Ordering by the operator itself with a LIMIT
+  // lets Postgres walk the HNSW (vector_cosine_ops) index.
+  const rows = await prisma.$queryRaw<Array<{ activityId: string; distance: number }>>`
+    SELECT "activityId", ("vector" <=> ${vector}::vector(1536)) AS distance
+    FROM "ActivityEmbedding"
+    WHERE "model" = ${model}
+      AND "vector" IS NOT NULL
+      ${idFilter}
+    ORDER BY "vector" <=> ${vector}::vector(1536)
+    LIMIT ${limit}
+  `;
+
+  return rows.map(row => ({ activityId: row.activityId, similarity: 1 - Number(row.distance) }));
+}
+
+async function findNearestBruteForce(
+  queryEmbedding: number[],
+  model: string,
+  activityIds: string[] | undefined,
+  limit: number
+): Promise<NearestActivity[]> {
+  const rows = await prisma.activityEmbedding.findMany({
+    where: {
+      model,
+      embedding: { not: null },
+      ...(activityIds ? { activityId: { in: activityIds } } : {}),
+    },
+    select: { activityId: true, embedding: true },
+  });
+
+  const decoded = rows.map(row => ({ activityId: row.activityId, embedding: decodeEmbedding(row.embedding!) }));
+
+  return topKBySimilarity(queryEmbedding, decoded, row => row.embedding, limit)
+    .map(({ item, similarity }) => ({ activityId: item.activityId, similarity }));
+}
+
+/**
+ * Fill the pgvector column for rows stored before it existed
+ */
+async function backfillVectorColumn(): Promise<number> {
+  if (!await isVectorSearchAvailable()) return 0;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; embedding: Buffer }>>`
+    SELECT "id", "embedding" FROM "ActivityEmbedding"
+    WHERE "vector" IS NULL AND "embedding" IS NOT NULL AND "dimensions" = ${VECTOR_COLUMN_DIMENSIONS}
+    LIMIT ${VECTOR_BACKFILL_BATCH_SIZE}
+  `;
+
+  for (const row of rows) {
+    await prisma.$executeRaw`
+      UPDATE "ActivityEmbedding" SET "vector" = ${toVectorLiteral(decodeEmbedding(row.embedding))}::vector
+      WHERE "id" = ${row.id}
+    `;
+  }
+
+  return rows.length;
+}
+
+export default {
+  getActivitySearchText,
+  isVectorSearchAvailable,
+  ensureActivityEmbeddings,
+  findNearestActivities,
+  syncActivityEmbeddings,
+};
@@ -57,6 +57,15 @@ export const requireAdmin = (minRole?: AdminRole) => {
         });
       }
 
+      // Admins must have 2FA on; verifyToken has already checked the code
+      if (!req.user.twoFactorEnabled) {
+        return res.status(403).json({
+          success: false,
+          error: 'TWO_FACTOR_SETUP_REQUIRED',
+          message: 'Turn on two-factor authentication to use admin tools'
+        });
+      }
+
       // Check minimum role requirement
       if (minRole) {
         const requiredLevel = ROLE_HIERARCHY[minRole];
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
 import { verifyFirebaseToken, isFirebaseInitialized } from '../config/firebase';
 import { tokenUtils } from '../utils/tokenUtils';
+import { twoFactorService } from '../services/twoFactorService';
+import { sessionService } from '../services/sessionService';
+import { securityUtils } from '../utils/securityUtils';
+import { requireSecret } from '../utils/secrets';
 
 // Extend Express Request type to include user
 declare global {
@@ -12,6 +17,9 @@ declare global {
         email: string;
         firebaseUid?: string;
         authProvider?: string;
+        twoFactorEnabled?: boolean;
+        // The Session row for this Firebase sign-in
+        sessionId?: string;
       };
       firebaseUser?: {
         uid: string;
@@ -19,6 +27,8 @@ declare global {
         name?: string;
         picture?: string;
         emailVerified?: boolean;
+        // When the user signed in (seconds), unchanged by token refreshes
+        authTime?: number;
       };
       session?: any;
     }
@@ -35,6 +45,36 @@ function extractBearerToken(authHeader: string | undefined): string | null {
   return authHeader.substring(7);
 }
 
+const AUTH_USER_SELECT = {
+  id: true,
+  email: true,
+  firebaseUid: true,
+  authProvider: true,
+  twoFactorCredential: { select: { enabledAt: true } }
+} as const;
+
+interface AuthUser {
+  id: string;
+  email: string;
+  firebaseUid: string;
+  authProvider: string;
+  twoFactorEnabled: boolean;
+}
+
+const toAuthUser = (user: {
+  id: string;
+  email: string;
+  firebaseUid: string | null;
+  authProvider: string;
+  twoFactorCredential: { enabledAt: Date | null } | null;
+}): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  firebaseUid: user.firebaseUid!,
+  authProvider: user.authProvider,
+  twoFactorEnabled: !!user.twoFactorCredential?.enabledAt
+});
+
 /**
  * Find or create PostgreSQL user from Firebase user data
  */
@@ -43,22 +83,22 @@ async function findOrCreateUser(
   email: string,
   name: string | undefined,
   authProvider: string
-): Promise<{ id: string; email: string; firebaseUid: string; authProvider: string } | null> {
+): Promise<AuthUser | null> {
   try {
     // First, try to find user by firebaseUid
     let user = await prisma.user.findUnique({
       where: { firebaseUid },
-      select: { id: true, email: true, firebaseUid: true, authProvider: true }
+      select: AUTH_USER_SELECT
     });
 
     if (user && user.firebaseUid) {
-      return { ...user, firebaseUid: user.firebaseUid };
+      return toAuthUser(user);
     }
 
     // Check if user exists by email (for linking accounts)
     user = await prisma.user.findUnique({
       where: { email },
-      select: { id: true, email: true, firebaseUid: true, authProvider: true }
+      select: AUTH_USER_SELECT
     });
 
     if (user) {
@@ -70,10 +110,10 @@ async function findOrCreateUser(
           authProvider,
           isVerified: true, // Firebase has verified the email
         },
-        select: { id: true, email: true, firebaseUid: true, authProvider: true }
+        select: AUTH_USER_SELECT
       });
       console.log(`[Auth] Linked existing user ${user.id} to Firebase account ${firebaseUid}`);
-      return { ...user, firebaseUid: user.firebaseUid! };
+      return toAuthUser(user);
     }
 
     // Create new user
@@ -85,22 +125,93 @@ async function findOrCreateUser(
         authProvider,
         isVerified: true, // Firebase handles email verification
       },
-      select: { id: true, email: true, firebaseUid: true, authProvider: true }
+      select: AUTH_USER_SELECT
     });
 
     console.log(`[Auth] Created new user ${user.id} from Firebase account ${firebaseUid}`);
-    return { ...user, firebaseUid: user.firebaseUid! };
+    return toAuthUser(user);
   } catch (error) {
     console.error('[Auth] Error finding/creating user:', error);
     return null;
   }
 }
 
+const TWO_FACTOR_TOKEN_SECRET = requireSecret('TWO_FACTOR_TOKEN_SECRET', 'JWT_SECRET');
+const TWO_FACTOR_TOKEN_EXPIRY = '30d';
+
 /**
- * Verify Firebase ID token and attach user to request
- * This replaces the old JWT verification
+ * Create a token showing the second factor was checked for one Firebase
+ * sign-in. It's tied to the sign-in time, so signing in again (on this or
+ * another device) needs a new code unless the device is remembered.
  */
-export const verifyToken = async (req: Request, res: Response, next: NextFunction) => {
+export const createTwoFactorToken = (userId: string, authTime: number): string => {
+  return jwt.sign(
+    { userId, authTime, purpose: 'two_factor' },
+    TWO_FACTOR_TOKEN_SECRET,
+    { expiresIn: TWO_FACTOR_TOKEN_EXPIRY }
+  );
+};
+
+/**
+ * Whether the request carries a second factor: a two-factor token for this
+ * sign-in, or the token of a device the user chose to remember
+ */
+async function hasSecondFactor(req: Request, userId: string, authTime: number | undefined): Promise<boolean> {
+  const twoFactorToken = req.headers['x-two-factor-token'];
+  if (typeof twoFactorToken === 'string' && twoFactorToken) {
+    try {
+      const decoded = jwt.verify(twoFactorToken, TWO_FACTOR_TOKEN_SECRET) as { userId: string; authTime: number; purpose?: string };
+      if (decoded.purpose === 'two_factor' && decoded.userId === userId && decoded.authTime === authTime) {
+        return true;
+      }
+    } catch {
+      // Expired or from another sign-in - fall through to the device check
+    }
+  }
+
+  const deviceToken = req.headers['x-trusted-device'];
+  if (typeof deviceToken === 'string' && deviceToken) {
+    return twoFactorService.isTrustedDevice(userId, deviceToken);
+  }
+
+  return false;
+}
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+/**
+ * Record the request's Firebase sign-in as a session. Returns null if the
+ * sign-in was signed out from another device.
+ */
+async function trackSignIn(req: Request, userId: string, firebaseUid: string, authTime: number) {
+  const deviceName = req.headers['x-device-name'];
+
+  return sessionService.touchSignIn(userId, `${firebaseUid}:${authTime}`, {
+    userAgent: securityUtils.getUserAgent(req),
+    deviceName: typeof deviceName === 'string'
+      ? securityUtils.sanitizeInput(deviceName).slice(0, MAX_DEVICE_NAME_LENGTH)
+      : undefined,
+    ipAddress: securityUtils.getClientIp(req).slice(0, 45),
+    authTime
+  });
+}
+
+/**
+ * Whether a request past verifyFirstFactor still owes a 2FA code
+ */
+export async function needsSecondFactor(req: Request): Promise<boolean> {
+  if (!req.user?.twoFactorEnabled) {
+    return false;
+  }
+  return !(await hasSecondFactor(req, req.user.id, req.firebaseUser?.authTime));
+}
+
+/**
+ * Verify Firebase ID token and attach user to request, without checking
+ * two-factor authentication. Only for sign-in sync and the routes that
+ * complete 2FA.
+ */
+export const verifyFirstFactor = async (req: Request, res: Response, next: NextFunction) => {
   try {
     // Check if Firebase is configured
     if (!isFirebaseInitialized()) {
@@ -165,12 +276,24 @@ export const verifyToken = async (req: Request, res: Response, next: NextFunctio
       });
     }
 
+    // Refuse sign-ins that were signed out from another device
+    const session = await trackSignIn(req, user.id, firebaseUid, decodedToken.auth_time);
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        error: 'SESSION_REVOKED',
+        message: 'This device was signed out. Please sign in again.'
+      });
+    }
+
     // Attach user info to request
     req.user = {
       id: user.id,
       email: user.email,
       firebaseUid: user.firebaseUid || undefined,
-      authProvider: user.authProvider
+      authProvider: user.authProvider,
+      twoFactorEnabled: user.twoFactorEnabled,
+      sessionId: session.id
     };
 
     // Also attach Firebase user info for additional data (like profile picture)
@@ -179,7 +302,8 @@ export const verifyToken = async (req: Request, res: Response, next: NextFunctio
       email,
       name,
       picture,
-      emailVerified
+      emailVerified,
+      authTime: decodedToken.auth_time
     };
 
     next();
@@ -192,6 +316,32 @@ export const verifyToken = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
+/**
+ * Verify Firebase ID token and attach user to request. Users with
+ * two-factor authentication on must also send a second factor.
+ */
+export const verifyToken = async (req: Request, res: Response, next: NextFunction) => {
+  return verifyFirstFactor(req, res, async () => {
+    try {
+      if (!(await needsSecondFactor(req))) {
+        return next();
+      }
+
+      return res.status(403).json({
+        success: false,
+        error: 'TWO_FACTOR_REQUIRED',
+        message: 'Enter the code from your authenticator app to continue'
+      });
+    } catch (error: any) {
+      console.error('[Auth] Two-factor check error:', error);
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication failed'
+      });
+    }
+  });
+};
+
 /**
  * Optional authentication - doesn't fail if no token
  * Useful for endpoints that work both authenticated and unauthenticated
@@ -207,15 +357,23 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
         // Try to find existing user
         const user = await prisma.user.findUnique({
           where: { firebaseUid: decodedToken.uid },
-          select: { id: true, email: true, firebaseUid: true, authProvider: true }
+          select: AUTH_USER_SELECT
         });
 
-        if (user) {
+        // Without the second factor, or once signed out remotely, the request
+        // is treated as signed out
+        const twoFactorEnabled = !!user?.twoFactorCredential?.enabledAt;
+        const session = user && (!twoFactorEnabled || await hasSecondFactor(req, user.id, decodedToken.auth_time))
+          ? await trackSignIn(req, user.id, decodedToken.uid, decodedToken.auth_time)
+          : null;
+        if (user && session) {
           req.user = {
             id: user.id,
             email: user.email,
             firebaseUid: user.firebaseUid || undefined,
-            authProvider: user.authProvider
+            authProvider: user.authProvider,
+            twoFactorEnabled,
+            sessionId: session.id
           };
 
           req.firebaseUser = {
@@ -223,7 +381,8 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
             email: decodedToken.email,
             name: decodedToken.name as string | undefined,
             picture: decodedToken.picture as string | undefined,
-            emailVerified: decodedToken.email_verified
+            emailVerified: decodedToken.email_verified,
+            authTime: decodedToken.auth_time
           };
         }
       }
@@ -235,6 +394,55 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
   next();
 };
 
+const BILLING_LINK_SECRET = requireSecret('BILLING_LINK_SECRET', 'JWT_SECRET');
+const BILLING_LINK_EXPIRY = '30m';
+
+/**
+ * Create a short-lived token that lets a signed-in app user manage premium
+ * on the website, which has no consumer login. It's tied to the app's
+ * sign-in, so signing that out remotely also ends the billing link.
+ */
+export const createBillingLinkToken = (user: { id: string; email: string; sessionId?: string }): string => {
+  if (!user.sessionId) {
+    throw new Error('Billing links need a signed-in session');
+  }
+
+  return jwt.sign(
+    { userId: user.id, email: user.email, sessionId: user.sessionId, purpose: 'billing' },
+    BILLING_LINK_SECRET,
+    { expiresIn: BILLING_LINK_EXPIRY }
+  );
+};
+
+/**
+ * Accept a billing link token (website) or a Firebase ID token (app)
+ */
+export const verifyBillingToken = async (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req.headers.authorization);
+
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, BILLING_LINK_SECRET) as { userId: string; email: string; sessionId?: string; purpose?: string };
+      if (decoded.purpose === 'billing') {
+        if (!decoded.sessionId || !await sessionService.isSessionActive(decoded.userId, decoded.sessionId)) {
+          return res.status(401).json({
+            success: false,
+            error: 'SESSION_REVOKED',
+            message: 'This billing link was signed out. Please open it again from the app.'
+          });
+        }
+
+        req.user = { id: decoded.userId, email: decoded.email, sessionId: decoded.sessionId };
+        return next();
+      }
+    } catch {
+      // Not a billing link token - try Firebase
+    }
+  }
+
+  return verifyToken(req, res, next);
+};
+
 /**
  * Rate limiting middleware
  * Disabled in non-production environments for easier testing
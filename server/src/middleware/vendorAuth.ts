@@ -2,7 +2,9 @@ import { Request, Response, NextFunction } from 'express';
 import { VendorUserRole, VendorStatus } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
 import { verifyToken } from './auth';
-import crypto from 'crypto';
+import { vendorService } from '../services/vendorService';
+import { twoFactorService, TwoFactorAccount } from '../services/twoFactorService';
+import { requireSecret } from '../utils/secrets';
 import jwt from 'jsonwebtoken';
 
 // Role hierarchy for vendors
@@ -12,7 +14,8 @@ const VENDOR_ROLE_HIERARCHY: Record<VendorUserRole, number> = {
   'OWNER': 3,
 };
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+// Portal tokens carry the twoFactorVerified claim, so no fallback secret
+const JWT_SECRET = requireSecret('JWT_SECRET');
 
 // Extend Express Request to include vendor context
 declare global {
@@ -51,16 +54,8 @@ export const requireVendorApiKey = () => {
         });
       }
 
-      // Hash the provided key to compare with stored hash
-      const keyHash = crypto.createHash('sha256').update(apiKey).digest('hex');
-
-      // Find vendor by API key hash
-      const vendor = await prisma.vendor.findFirst({
-        where: {
-          apiKeyHash: keyHash,
-          status: 'ACTIVE',
-        },
-      });
+      // Find the active vendor by API key hash (also records last use)
+      const vendor = await vendorService.getVendorByApiKey(apiKey);
 
       if (!vendor) {
         return res.status(401).json({
@@ -89,11 +84,27 @@ export const requireVendorApiKey = () => {
   };
 };
 
+/**
+ * Vendor owners must use 2FA. Their portal tokens say whether the code was
+ * checked at sign-in; tell the client whether to set it up or sign in again.
+ */
+const rejectWithoutTwoFactor = async (res: Response, account: TwoFactorAccount) => {
+  const enrolled = await twoFactorService.isEnabled(account);
+  return res.status(enrolled ? 401 : 403).json({
+    success: false,
+    error: enrolled ? 'TWO_FACTOR_REQUIRED' : 'TWO_FACTOR_SETUP_REQUIRED',
+    message: enrolled
+      ? 'Sign in again with your authentication code'
+      : 'Turn on two-factor authentication to use the vendor portal'
+  });
+};
+
 /**
  * Middleware to verify vendor user session
  * Supports both:
  * 1. Direct vendor login (vendor JWT with vendorId)
- * 2. User-based vendor access (user JWT + VendorUser membership)
+ * 2. User-based vendor access (user JWT + VendorUser membership), for
+ *    members below OWNER only
  */
 export const requireVendorAuth = (minRole?: VendorUserRole) => {
   return async (req: Request, res: Response, next: NextFunction) => {
@@ -159,7 +170,11 @@ export const requireVendorAuth = (minRole?: VendorUserRole) => {
           });
         }
 
-        // Direct vendor login gets OWNER role
+        // Direct vendor login gets OWNER role, which requires 2FA
+        if (!decoded.twoFactorVerified) {
+          return rejectWithoutTwoFactor(res, { vendorId: vendor.id });
+        }
+
         req.vendor = {
           id: vendor.id,
           code: vendor.code,
@@ -246,6 +261,16 @@ export const requireVendorAuth = (minRole?: VendorUserRole) => {
           });
         }
 
+        // No sign-in issues legacy user tokens with a 2FA claim, so owners
+        // can't be let in here; they use the portal login, which checks codes
+        if (vendorUser.role === 'OWNER') {
+          return res.status(403).json({
+            success: false,
+            error: 'VENDOR_PORTAL_SIGN_IN_REQUIRED',
+            message: 'Vendor owners must sign in to the vendor portal with two-factor authentication'
+          });
+        }
+
         // Attach user and vendor context to request
         req.user = {
           id: user.id,
@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { EnhancedActivityService } from '../services/activityService.enhanced';
 import { aggregationService } from '../services/aggregationService';
+import { activitySnapshotService, DAILY_SNAPSHOT_RETENTION_DAYS } from '../services/activitySnapshotService';
 import { optionalAuth } from '../middleware/auth';
+import { childDismissalService } from '../services/childDismissalService';
+import { ACTIVITY_CHANGE_KINDS, ActivityChangeKind } from '../utils/activityTimeline';
 
 const router = Router();
 const activityService = new EnhancedActivityService();
@@ -68,6 +71,9 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       // Sponsored activity options
       sponsoredMode = 'top', // 'top' (default), 'section', or 'none'
       sessionId, // For impression tracking
+      // Children whose "not interested" dismissals apply (signed-in users only)
+      childIds,
+      filterMode,
       // Aggregation options
       includeAggregations = 'false' // Include filter aggregations in response
     } = req.query;
@@ -99,6 +105,15 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
     const isActivityTypeSearch = !!(activityType || activitySubtype || categories);
     console.log('📍 [ROUTE] Activity Type Search:', isActivityTypeSearch, '| Has location:', !!(location || locations));
     
+    // Hide what the selected children were marked not interested in
+    const exclusions = req.user && childIds
+      ? await childDismissalService.getExclusions(
+          req.user.id,
+          (childIds as string).split(',').map(id => id.trim()).filter(Boolean),
+          filterMode === 'and' ? 'and' : 'or'
+        )
+      : undefined;
+
     // Map parameters, supporting both naming conventions
     const params = {
       search: search as string,
@@ -137,6 +152,7 @@ router.get('/', optionalAuth, async (req: Request, res: Response) => {
       city: city as string,
       province: province as string,
       providerId: providerId as string,
+      exclusions,
       hideClosedActivities: hideClosedActivities === 'true',
       hideFullActivities: hideFullActivities === 'true',
       hideClosedOrFull: hideClosedOrFull === 'true',
@@ -375,6 +391,88 @@ router.get('/stats/summary', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   GET /api/v1/activities/:id/history
+ * @desc    Get the timeline of price, capacity, schedule, instructor and status changes
+ * @access  Public
+ */
+router.get('/:id/history', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { types, limit } = req.query;
+
+    let kinds: ActivityChangeKind[] | undefined;
+    if (types) {
+      const requested = String(types).split(',').map(t => t.trim()).filter(Boolean);
+      const invalid = requested.filter(t => !ACTIVITY_CHANGE_KINDS.includes(t as ActivityChangeKind));
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid change type: ${invalid.join(', ')}. Expected one of ${ACTIVITY_CHANGE_KINDS.join(', ')}`
+        });
+      }
+      kinds = requested as ActivityChangeKind[];
+    }
+
+    const parsedLimit = limit ? Math.min(Math.max(parseInt(limit as string, 10) || 0, 1), 200) : undefined;
+    const changes = await activityService.getActivityTimeline(id, { kinds, limit: parsedLimit });
+
+    if (!changes) {
+      return res.status(404).json({
+        success: false,
+        error: 'Activity not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      activityId: id,
+      changes
+    });
+  } catch (error: any) {
+    console.error('Activity history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get activity history'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/v1/activities/:id/trends
+ * @desc    Get daily spots available and price for an activity, plus a sell-out projection
+ * @access  Public
+ */
+router.get('/:id/trends', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const days = Math.min(
+      Math.max(parseInt(req.query.days as string, 10) || 90, 1),
+      DAILY_SNAPSHOT_RETENTION_DAYS
+    );
+
+    const series = await activitySnapshotService.getTimeSeries(id, days);
+
+    if (!series) {
+      return res.status(404).json({
+        success: false,
+        error: 'Activity not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      ...series
+    });
+  } catch (error: any) {
+    console.error('Activity trends error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get activity trends'
+    });
+  }
+});
+
 /**
  * @route   GET /api/v1/activities/:id
  * @desc    Get activity details
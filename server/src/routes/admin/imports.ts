@@ -17,7 +17,7 @@ const upload = multer({
   fileFilter: (req, file, cb) => {
     const fileType = fileParserService.validateFileType(file.originalname, file.mimetype);
     if (!fileType) {
-      cb(new Error('Invalid file type. Only CSV and XLSX files are supported.'));
+      cb(new Error('Invalid file type. Supported formats are CSV, XLSX, iCalendar (.ics) and JSON-LD.'));
     } else {
       cb(null, true);
     }
@@ -200,7 +200,7 @@ router.post(
   upload.single('file'),
   async (req: Request, res: Response) => {
     try {
-      const { vendorId, fieldMapping } = req.body;
+      const { vendorId, fieldMapping, deactivateMissing } = req.body;
       const file = req.file;
 
       if (!file) {
@@ -240,7 +240,8 @@ router.post(
           size: file.size,
         },
         req.user!.id,
-        mapping
+        mapping,
+        { deactivateMissing: deactivateMissing === 'true' || deactivateMissing === true }
       );
 
       res.status(201).json({
@@ -345,6 +346,40 @@ router.get('/:id/audit', requireAdmin(), async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/imports/{id}/diff:
+ *   get:
+ *     summary: Dry-run diff of what processing the batch would change
+ *     tags: [Admin - Imports]
+ *     security:
+ *       - bearerAuth: []
+ */
+router.get('/:id/diff', requireAdmin(), async (req: Request, res: Response) => {
+  try {
+    const batch = await importService.getImportBatchStatus(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Import batch not found',
+      });
+    }
+
+    const diff = await importService.getImportDiff(req.params.id);
+
+    res.json({
+      success: true,
+      diff,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/imports/{id}/validate:
@@ -694,7 +729,7 @@ router.post(
 
       // Suggest field mappings
       const headers = fileParserService.detectHeaders(rows);
-      const suggestedMappings = fileParserService.suggestFieldMappings(headers);
+      const suggestedMappings = fileParserService.suggestFieldMappings(headers, fileType, rows);
 
       res.json({
         success: true,
@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
-import { param, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma';
 import { verifyToken } from '../middleware/auth';
+import { rankingFeedbackService } from '../services/rankingFeedbackService';
 
 const router = Router();
 
@@ -20,6 +21,11 @@ const requireAdmin = async (req: Request, res: Response, next: any) => {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
 
+    // Admins must have 2FA on; verifyToken has already checked the code
+    if (!req.user.twoFactorEnabled) {
+      return res.status(403).json({ success: false, error: 'TWO_FACTOR_SETUP_REQUIRED', message: 'Turn on two-factor authentication to use admin tools' });
+    }
+
     (req as any).adminUser = adminUser;
     next();
   } catch (error) {
@@ -750,6 +756,112 @@ router.get('/ai/budget', verifyToken, requireAdmin, async (req: Request, res: Re
   }
 });
 
+/**
+ * @route   GET /api/admin/monitoring/ai/ranking
+ * @desc    Compare recommendation engagement across ranking versions
+ * @access  Admin
+ */
+router.get('/ai/ranking', [
+  query('days').optional().isInt({ min: 1, max: 90 }),
+], verifyToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const days = parseInt((req.query.days as string) || '30', 10);
+    const report = await rankingFeedbackService.getReport(days);
+
+    res.json({
+      success: true,
+      ranking: {
+        startDate: report.since.toISOString(),
+        endDate: new Date().toISOString(),
+        versions: report.versions,
+        models: report.models
+      }
+    });
+  } catch (error: any) {
+    console.error('[AdminMonitoring] Ranking report failed:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to get ranking report'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/monitoring/ai/ranking/train
+ * @desc    Fit a candidate ranking model from recent feedback
+ * @access  Admin
+ */
+router.post('/ai/ranking/train', [
+  body('mode').optional().isIn(['recommendations', 'chat', 'scheduler']),
+], verifyToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const model = await rankingFeedbackService.trainModel(req.body.mode || 'recommendations');
+
+    if (!model) {
+      return res.status(422).json({
+        success: false,
+        error: 'Not enough recommendation feedback to train a model yet'
+      });
+    }
+
+    res.json({
+      success: true,
+      model
+    });
+  } catch (error: any) {
+    console.error('[AdminMonitoring] Ranking training failed:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to train ranking model'
+    });
+  }
+});
+
+/**
+ * @route   PATCH /api/admin/monitoring/ai/ranking/models/:version
+ * @desc    Activate, ramp or retire a ranking model
+ * @access  Admin
+ */
+router.patch('/ai/ranking/models/:version', [
+  param('version').isString().notEmpty(),
+  body('status').optional().isIn(['candidate', 'active', 'retired']),
+  body('trafficPercent').optional().isInt({ min: 0, max: 100 }),
+], verifyToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, errors: errors.array() });
+    }
+
+    const model = await rankingFeedbackService.updateModel(req.params.version, {
+      status: req.body.status,
+      trafficPercent: req.body.trafficPercent
+    });
+
+    res.json({
+      success: true,
+      model
+    });
+  } catch (error: any) {
+    console.error('[AdminMonitoring] Ranking model update failed:', error);
+    const status = error.message === 'Ranking model not found' ? 404 : 400;
+    res.status(status).json({
+      success: false,
+      error: error.message || 'Failed to update ranking model'
+    });
+  }
+});
+
 // ============================================
 // NOTIFICATION ENDPOINTS
 // ============================================
@@ -20,6 +20,11 @@ const requireAdmin = async (req: Request, res: Response, next: any) => {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
 
+    // Admins must have 2FA on; verifyToken has already checked the code
+    if (!req.user.twoFactorEnabled) {
+      return res.status(403).json({ success: false, error: 'TWO_FACTOR_SETUP_REQUIRED', message: 'Turn on two-factor authentication to use admin tools' });
+    }
+
     (req as any).adminUser = adminUser;
     next();
   } catch (error) {
@@ -15,9 +15,14 @@ import { prisma } from '../lib/prisma';
 import { deleteFirebaseUser } from '../config/firebase';
 import {
   verifyToken,
+  verifyFirstFactor,
+  needsSecondFactor,
+  createTwoFactorToken,
   authLimiter,
   logActivity
 } from '../middleware/auth';
+import { twoFactorService } from '../services/twoFactorService';
+import { sessionService } from '../services/sessionService';
 
 const router = Router();
 
@@ -27,10 +32,11 @@ const router = Router();
  * @access  Private (requires Firebase token)
  *
  * This endpoint is called after a user logs in via Firebase.
- * The verifyToken middleware automatically creates/links the PostgreSQL user.
- * This endpoint returns the full user profile.
+ * The verifyFirstFactor middleware automatically creates/links the PostgreSQL user.
+ * This endpoint returns the full user profile, and whether the app must ask
+ * for a 2FA code before other requests will succeed.
  */
-router.post('/sync', verifyToken, logActivity('sync'), async (req: Request, res: Response) => {
+router.post('/sync', verifyFirstFactor, logActivity('sync'), async (req: Request, res: Response) => {
   try {
     // The user is already created/linked by verifyToken middleware
     // Just fetch and return the full profile
@@ -77,7 +83,8 @@ router.post('/sync', verifyToken, logActivity('sync'), async (req: Request, res:
         ...user,
         // Add Firebase profile data if available
         profilePicture: firebaseUser?.picture || null,
-      }
+      },
+      twoFactorRequired: await needsSecondFactor(req)
     });
   } catch (error: any) {
     console.error('Sync error:', error);
@@ -90,12 +97,17 @@ router.post('/sync', verifyToken, logActivity('sync'), async (req: Request, res:
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user (acknowledgment only - Firebase handles token invalidation)
+ * @desc    Logout user (Firebase handles token invalidation; this ends the session)
  * @access  Private
  */
 router.post('/logout', verifyToken, logActivity('logout'), async (req: Request, res: Response) => {
-  // Firebase handles token invalidation on the client side
-  // This is just an acknowledgment endpoint
+  // Firebase handles token invalidation on the client side. Ending the
+  // session here takes the device off the sessions list.
+  if (req.user!.sessionId) {
+    await sessionService.revokeSession(req.user!.id, req.user!.sessionId)
+      .catch(error => console.error('Logout session error:', error));
+  }
+
   res.json({
     success: true,
     message: 'Logout successful'
@@ -286,4 +298,286 @@ router.delete('/delete-account', verifyToken, authLimiter, logActivity('delete-a
   }
 });
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    Devices signed in to the account, and devices remembered for 2FA
+ * @access  Private
+ */
+router.get('/sessions', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const [sessions, trustedDevices] = await Promise.all([
+      sessionService.getUserSessions(userId),
+      sessionService.getTrustedDevices(userId)
+    ]);
+
+    res.json({
+      success: true,
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.user!.sessionId
+      })),
+      trustedDevices
+    });
+  } catch (error: any) {
+    console.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sessions'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Sign out every other device
+ * @access  Private
+ */
+router.delete('/sessions', verifyToken, authLimiter, logActivity('revoke-other-sessions'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await sessionService.revokeOtherSessions(req.user!.id, req.user!.sessionId);
+
+    res.json({
+      success: true,
+      revoked
+    });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign out other devices'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Sign out one device
+ * @access  Private
+ */
+router.delete('/sessions/:id', verifyToken, logActivity('revoke-session'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await sessionService.revokeSession(req.user!.id, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign out device'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Two-factor authentication status and remembered devices
+ * @access  Private (first factor only, so the app can show the code prompt)
+ */
+router.get('/2fa', verifyFirstFactor, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const [status, trustedDevices] = await Promise.all([
+      twoFactorService.getStatus({ userId }),
+      sessionService.getTrustedDevices(userId)
+    ]);
+
+    res.json({
+      success: true,
+      ...status,
+      trustedDevices
+    });
+  } catch (error: any) {
+    console.error('Two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get two-factor status'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor setup; returns the secret and QR code
+ * @access  Private
+ */
+router.post('/2fa/setup', verifyToken, logActivity('two-factor-setup'), async (req: Request, res: Response) => {
+  try {
+    const setup = await twoFactorService.beginEnrollment({ userId: req.user!.id });
+
+    res.json({
+      success: true,
+      ...setup
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Turn on two-factor authentication with the first code from the app
+ * @access  Private
+ * @body    { code, rememberDevice?, deviceName? }
+ */
+router.post('/2fa/enable', verifyToken, authLimiter, logActivity('two-factor-enable'), async (req: Request, res: Response) => {
+  try {
+    const { code, rememberDevice, deviceName } = req.body;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Code is required'
+      });
+    }
+
+    const userId = req.user!.id;
+    const recoveryCodes = await twoFactorService.confirmEnrollment({ userId }, String(code));
+
+    res.json({
+      success: true,
+      recoveryCodes,
+      // Setting up 2FA counts as passing it for this sign-in
+      twoFactorToken: createTwoFactorToken(userId, req.firebaseUser!.authTime!),
+      trustedDeviceToken: rememberDevice ? await twoFactorService.trustDevice(userId, deviceName) : undefined
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Check an authenticator or recovery code after signing in
+ * @access  Private (first factor only)
+ * @body    { code, rememberDevice?, deviceName? }
+ */
+router.post('/2fa/verify', verifyFirstFactor, authLimiter, logActivity('two-factor-verify'), async (req: Request, res: Response) => {
+  try {
+    const { code, rememberDevice, deviceName } = req.body;
+    const userId = req.user!.id;
+
+    if (!code) {
+      return res.status(400).json({
+        success: false,
+        error: 'Code is required'
+      });
+    }
+
+    const method = await twoFactorService.verifyCode({ userId }, String(code));
+    if (!method) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    const status = await twoFactorService.getStatus({ userId });
+
+    res.json({
+      success: true,
+      method,
+      twoFactorToken: createTwoFactorToken(userId, req.firebaseUser!.authTime!),
+      trustedDeviceToken: rememberDevice ? await twoFactorService.trustDevice(userId, deviceName) : undefined,
+      recoveryCodesRemaining: status.recoveryCodesRemaining
+    });
+  } catch (error: any) {
+    console.error('Two-factor verify error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify code'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace recovery codes after checking a current code
+ * @access  Private
+ * @body    { code }
+ */
+router.post('/2fa/recovery-codes', verifyToken, authLimiter, logActivity('two-factor-recovery-codes'), async (req: Request, res: Response) => {
+  try {
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      { userId: req.user!.id },
+      String(req.body.code || '')
+    );
+
+    res.json({
+      success: true,
+      recoveryCodes
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Turn off two-factor authentication (not allowed for admins and vendor owners)
+ * @access  Private
+ * @body    { code }
+ */
+router.post('/2fa/disable', verifyToken, authLimiter, logActivity('two-factor-disable'), async (req: Request, res: Response) => {
+  try {
+    await twoFactorService.disable({ userId: req.user!.id }, String(req.body.code || ''));
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication turned off'
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/2fa/trusted-devices/:id
+ * @desc    Forget a remembered device so it's asked for a code again
+ * @access  Private
+ */
+router.delete('/2fa/trusted-devices/:id', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const removed = await sessionService.removeTrustedDeviceById(req.user!.id, req.params.id);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Device not found'
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  } catch (error: any) {
+    console.error('Remove trusted device error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove device'
+    });
+  }
+});
+
 export default router;
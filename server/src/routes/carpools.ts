@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { verifyToken } from '../middleware/auth';
+import { carpoolService } from '../services/carpoolService';
+
+const router = Router();
+
+const validatePropose = [
+  body('activityId').isUUID().withMessage('Valid activity ID is required'),
+  body('name').optional().isString().trim().isLength({ max: 100 }).withMessage('Name must be 100 characters or less'),
+  body('memberUserIds').isArray({ min: 1 }).withMessage('Invite at least one other family'),
+  body('memberUserIds.*').isUUID().withMessage('Invalid family ID'),
+  body('childIds').isArray({ min: 1 }).withMessage('Choose at least one child'),
+  body('childIds.*').isUUID().withMessage('Invalid child ID'),
+  body('daysOfWeek').optional().isArray().withMessage('daysOfWeek must be an array'),
+  body('daysOfWeek.*').isString(),
+  body('pickupTime').optional().isString().trim().isLength({ max: 20 }),
+  body('notes').optional().isString().trim().isLength({ max: 500 }).withMessage('Notes must be 500 characters or less'),
+  body('startDate').optional().isISO8601().withMessage('Valid start date is required'),
+  body('endDate').optional().isISO8601().withMessage('Valid end date is required')
+];
+
+const validateRespond = [
+  param('id').isUUID().withMessage('Invalid carpool ID'),
+  body('accept').isBoolean().withMessage('accept must be true or false'),
+  body('childIds').optional().isArray().withMessage('childIds must be an array'),
+  body('childIds.*').isUUID().withMessage('Invalid child ID')
+];
+
+const validateDriver = [
+  param('id').isUUID().withMessage('Invalid carpool ID'),
+  param('weekStart').isISO8601().withMessage('Valid week start date is required'),
+  body('driverUserId').isUUID().withMessage('Valid driver is required')
+];
+
+const handleValidationErrors = (req: Request, res: Response, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: errors.array()[0].msg
+    });
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/v1/carpools
+ * @desc    List the user's carpools with members and upcoming drivers
+ * @access  Private
+ */
+router.get('/', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const carpools = await carpoolService.listCarpools(req.user!.id);
+
+    res.json({
+      success: true,
+      carpools
+    });
+  } catch (error: any) {
+    console.error('List carpools error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get carpools'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/v1/carpools/suggestions
+ * @desc    Children of connected families in the same activity or at the same venue at similar times
+ * @access  Private
+ */
+router.get('/suggestions', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const suggestions = await carpoolService.getSuggestions(req.user!.id);
+
+    res.json({
+      success: true,
+      suggestions
+    });
+  } catch (error: any) {
+    console.error('Carpool suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get carpool suggestions'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/v1/carpools
+ * @desc    Propose a driving rotation to connected families
+ * @access  Private
+ */
+router.post('/', verifyToken, validatePropose, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const carpool = await carpoolService.proposeCarpool(req.user!.id, {
+      activityId: req.body.activityId,
+      name: req.body.name,
+      memberUserIds: req.body.memberUserIds,
+      childIds: req.body.childIds,
+      daysOfWeek: req.body.daysOfWeek || [],
+      pickupTime: req.body.pickupTime,
+      notes: req.body.notes,
+      startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
+      endDate: req.body.endDate ? new Date(req.body.endDate) : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      carpool
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   GET /api/v1/carpools/:id
+ * @desc    Get a carpool
+ * @access  Private
+ */
+router.get('/:id', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const carpool = await carpoolService.getCarpool(req.user!.id, req.params.id);
+
+    if (!carpool) {
+      return res.status(404).json({
+        success: false,
+        error: 'Carpool not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      carpool
+    });
+  } catch (error: any) {
+    console.error('Get carpool error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get carpool'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/v1/carpools/:id/respond
+ * @desc    Accept (with the children riding) or decline a carpool
+ * @access  Private
+ */
+router.post('/:id/respond', verifyToken, validateRespond, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const carpool = await carpoolService.respond(req.user!.id, req.params.id, req.body.accept, req.body.childIds);
+
+    if (!carpool) {
+      return res.status(404).json({
+        success: false,
+        error: 'Carpool not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      carpool
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/v1/carpools/:id/weeks/:weekStart
+ * @desc    Change who drives in a week
+ * @access  Private
+ */
+router.put('/:id/weeks/:weekStart', verifyToken, validateDriver, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const carpool = await carpoolService.setDriver(
+      req.user!.id,
+      req.params.id,
+      new Date(req.params.weekStart),
+      req.body.driverUserId
+    );
+
+    if (!carpool) {
+      return res.status(404).json({
+        success: false,
+        error: 'Active carpool not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      carpool
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/v1/carpools/:id
+ * @desc    Cancel a carpool (organizer) or leave it (other families)
+ * @access  Private
+ */
+router.delete('/:id', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const removed = await carpoolService.leaveOrCancel(req.user!.id, req.params.id);
+
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Carpool not found'
+      });
+    }
+
+    res.json({
+      success: true
+    });
+  } catch (error: any) {
+    console.error('Leave carpool error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to leave carpool'
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { verifyToken } from '../middleware/auth';
 import { childActivityService, ActivityStatus } from '../services/childActivityService';
+import { calendarFeedService, CalendarFeedInfo } from '../services/calendarFeedService';
+import { subscriptionService } from '../services/subscriptionService';
+import { scheduleConflictService } from '../services/scheduleConflictService';
 import { body, query, validationResult } from 'express-validator';
 
 const router = Router();
@@ -30,6 +33,17 @@ const handleValidationErrors = (req: Request, res: Response, next: any) => {
   next();
 };
 
+// Build the public subscription URLs for a feed
+const withFeedUrls = (req: Request, feed: CalendarFeedInfo) => {
+  const baseUrl = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  const url = `${baseUrl}/api/v1/child-activities/calendar/feed/${feed.token}.ics`;
+  return {
+    ...feed,
+    url,
+    webcalUrl: url.replace(/^https?:\/\//, 'webcal://')
+  };
+};
+
 // Link an activity to a child
 router.post('/link', verifyToken, validateActivityLink, handleValidationErrors, async (req: Request, res: Response) => {
   try {
@@ -40,9 +54,12 @@ router.post('/link', verifyToken, validateActivityLink, handleValidationErrors,
       notes: req.body.notes
     });
 
+    const conflicts = await scheduleConflictService.checkNewLinks(req.user!.id, req.body.childId, [req.body.activityId]);
+
     res.status(201).json({
       success: true,
-      childActivity
+      childActivity,
+      conflicts
     });
   } catch (error: any) {
     res.status(400).json({
@@ -71,10 +88,13 @@ router.post('/bulk-link', verifyToken, async (req: Request, res: Response) => {
       status as ActivityStatus
     );
 
+    const conflicts = await scheduleConflictService.checkNewLinks(req.user!.id, childId, activityIds);
+
     res.json({
       success: true,
       linkedCount: count,
-      message: `${count} activities linked successfully`
+      message: `${count} activities linked successfully`,
+      conflicts
     });
   } catch (error: any) {
     res.status(400).json({
@@ -168,6 +188,35 @@ router.get('/history', verifyToken, async (req: Request, res: Response) => {
   }
 });
 
+// Get schedule conflicts across the family (own and shared children)
+router.get(
+  '/conflicts',
+  verifyToken,
+  [
+    query('childId').optional().isUUID().withMessage('Valid child ID is required'),
+    query('days').optional().isInt({ min: 1, max: 365 }).withMessage('Days must be between 1 and 365')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const conflicts = await scheduleConflictService.getFamilyConflicts(req.user!.id, {
+        childId: req.query.childId as string | undefined,
+        days: req.query.days ? parseInt(req.query.days as string, 10) : undefined
+      });
+
+      res.json({
+        success: true,
+        conflicts
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
 // Get age-appropriate activity recommendations
 router.get('/:childId/recommendations', verifyToken, async (req: Request, res: Response) => {
   try {
@@ -208,6 +257,121 @@ router.get('/:childId/favorites', verifyToken, async (req: Request, res: Respons
   }
 });
 
+// Public iCalendar feed - the token in the URL is the credential
+router.get('/calendar/feed/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const ics = await calendarFeedService.renderFeed(req.params.token);
+
+    if (!ics) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="kids-activities.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(ics);
+  } catch (error: any) {
+    console.error('[CalendarFeed] Failed to render feed:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate calendar feed'
+    });
+  }
+});
+
+// List calendar subscription feeds
+router.get('/calendar/feeds', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const feeds = await calendarFeedService.listFeeds(req.user!.id);
+
+    res.json({
+      success: true,
+      feeds: feeds.map(feed => withFeedUrls(req, feed))
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get or create a calendar subscription feed (family-wide, or per child with childId)
+router.post(
+  '/calendar/feeds',
+  verifyToken,
+  [
+    body('childId').optional().isUUID().withMessage('Valid child ID is required'),
+    body('name').optional().trim().isLength({ max: 100 })
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const hasAccess = await subscriptionService.hasFeature(req.user!.id, 'hasCalendarExport');
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: 'SUBSCRIPTION_LIMIT_REACHED',
+          message: 'Calendar subscriptions are a Premium feature. Upgrade to sync activities with your calendar.'
+        });
+      }
+
+      const feed = await calendarFeedService.getOrCreateFeed(
+        req.user!.id,
+        req.body.childId,
+        req.body.name
+      );
+
+      res.status(201).json({
+        success: true,
+        feed: withFeedUrls(req, feed)
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+// Rotate a feed token (old subscription URL stops working)
+router.post('/calendar/feeds/:feedId/rotate', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const feed = await calendarFeedService.rotateFeed(req.user!.id, req.params.feedId);
+
+    res.json({
+      success: true,
+      feed: withFeedUrls(req, feed)
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Calendar feed not found' ? 404 : 400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Revoke a feed
+router.delete('/calendar/feeds/:feedId', verifyToken, async (req: Request, res: Response) => {
+  try {
+    await calendarFeedService.revokeFeed(req.user!.id, req.params.feedId);
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked'
+    });
+  } catch (error: any) {
+    res.status(error.message === 'Calendar feed not found' ? 404 : 400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 // Get calendar data
 router.get('/calendar', verifyToken, async (req: Request, res: Response) => {
   try {
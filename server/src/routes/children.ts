@@ -3,7 +3,12 @@ import { verifyToken } from '../middleware/auth';
 import { childrenService } from '../services/childrenService';
 import { subscriptionService } from '../services/subscriptionService';
 import { childFavoritesService } from '../services/childFavoritesService';
-import { body, param, validationResult } from 'express-validator';
+import { scheduleConflictService } from '../services/scheduleConflictService';
+import { attendanceService } from '../services/attendanceService';
+import { childDismissalService } from '../services/childDismissalService';
+import { ATTENDANCE_STATUSES } from '../utils/attendance';
+import { DISMISSAL_TYPES, DismissalType } from '../utils/childDismissals';
+import { body, param, query, validationResult } from 'express-validator';
 
 const router = Router();
 
@@ -506,9 +511,12 @@ router.post('/:childId/activities', verifyToken, async (req: Request, res: Respo
       notes
     );
 
+    const conflicts = await scheduleConflictService.checkNewLinks(req.user!.id, req.params.childId, [activityId]);
+
     res.status(201).json({
       success: true,
-      childActivity
+      childActivity,
+      conflicts
     });
   } catch (error: any) {
     res.status(400).json({
@@ -786,6 +794,166 @@ router.delete('/:childId/skills/:skillCategory', verifyToken, async (req: Reques
   }
 });
 
+// ============= Attendance Tracking =============
+
+const validateAttendanceRange = [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date')
+];
+
+const validateAttendance = [
+  param('activityId').isUUID(),
+  param('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be in yyyy-MM-dd format'),
+  body('status').isIn([...ATTENDANCE_STATUSES]).withMessage(`Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`),
+  body('notes').optional({ nullable: true }).isString().trim().isLength({ max: 500 }).withMessage('Notes must be 500 characters or less'),
+  body('durationMinutes').optional().isInt({ min: 1, max: 1440 }).withMessage('durationMinutes must be between 1 and 1440').toInt()
+];
+
+// Get attendance for multiple children (calendar check-ins)
+router.get('/attendance/multi', verifyToken, validateAttendanceRange, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const childIds = (req.query.childIds as string)?.split(',').filter(Boolean);
+
+    if (!childIds || childIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'childIds query parameter is required'
+      });
+    }
+
+    const attendance = await attendanceService.getAttendanceForChildren(req.user!.id, childIds, {
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      attendance
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get a child's attendance with rate and streaks, overall and per activity
+router.get('/:childId/attendance', verifyToken, validateAttendanceRange, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const result = await attendanceService.getChildAttendance(req.user!.id, req.params.childId, {
+      activityId: req.query.activityId as string | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get an activity's sessions for a child with attendance marked
+router.get(
+  '/:childId/activities/:activityId/attendance',
+  verifyToken,
+  [param('activityId').isUUID()],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await attendanceService.getActivitySessions(
+        req.user!.id,
+        req.params.childId,
+        req.params.activityId
+      );
+
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+// Mark a session attended, missed, cancelled or makeup
+router.put(
+  '/:childId/activities/:activityId/attendance/:date',
+  verifyToken,
+  validateAttendance,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await attendanceService.recordAttendance(
+        req.user!.id,
+        req.params.childId,
+        req.params.activityId,
+        req.params.date,
+        {
+          status: req.body.status,
+          notes: req.body.notes,
+          durationMinutes: req.body.durationMinutes
+        }
+      );
+
+      res.json({
+        success: true,
+        ...result
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+// Clear a session's attendance
+router.delete(
+  '/:childId/activities/:activityId/attendance/:date',
+  verifyToken,
+  [param('activityId').isUUID()],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const removed = await attendanceService.clearAttendance(
+        req.user!.id,
+        req.params.childId,
+        req.params.activityId,
+        req.params.date
+      );
+
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: 'No attendance recorded for this session'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Attendance cleared'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
 // ============= Child Preferences Management =============
 
 // Get child preferences
@@ -1491,6 +1659,87 @@ router.get(
   }
 );
 
+// ============= Child Dismissals ("Not Interested") =============
+
+// Get a child's dismissed activities, providers, locations and subtypes
+router.get('/:childId/dismissals', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const dismissals = await childDismissalService.getDismissals(
+      req.params.childId,
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      dismissals
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Mark an activity, provider, location or subtype as not interesting for a child
+router.post(
+  '/:childId/dismissals',
+  verifyToken,
+  [
+    body('type').isIn([...DISMISSAL_TYPES]),
+    body('targetId').isUUID()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const dismissal = await childDismissalService.dismiss(
+        req.params.childId,
+        req.user!.id,
+        req.body.type as DismissalType,
+        req.body.targetId
+      );
+
+      res.status(201).json({
+        success: true,
+        dismissal,
+        message: 'Marked as not interested'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+// Undo a dismissal
+router.delete(
+  '/:childId/dismissals/:dismissalId',
+  verifyToken,
+  [param('dismissalId').isUUID()],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      await childDismissalService.undoDismissal(
+        req.params.childId,
+        req.user!.id,
+        req.params.dismissalId
+      );
+
+      res.json({
+        success: true,
+        message: 'Dismissal removed'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
 // ============= Child Notification Preferences =============
 
 // Get notification preferences for a child
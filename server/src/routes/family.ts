@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { verifyToken, authLimiter } from '../middleware/auth';
+import { familyService } from '../services/familyService';
+import { body, param, validationResult } from 'express-validator';
+
+const router = Router();
+
+const handleValidationErrors = (req: Request, res: Response, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+/**
+ * Get the family plan the user pays for or belongs to
+ * GET /api/family
+ */
+router.get('/', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const family = await familyService.getFamily(req.user!.id);
+
+    res.json({
+      success: true,
+      family
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch family plan'
+    });
+  }
+});
+
+/**
+ * Invite a co-parent to the family plan
+ * POST /api/family/members
+ */
+router.post(
+  '/members',
+  verifyToken,
+  authLimiter,
+  [
+    // Not normalizeEmail(): it strips Gmail dots and +tags, and acceptance
+    // compares the invited address with the account's own email
+    body('email').isEmail().withMessage('Valid email is required')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const member = await familyService.inviteMember(req.user!.id, req.body.email);
+
+      res.status(201).json({
+        success: true,
+        member: {
+          id: member.id,
+          email: member.email,
+          status: member.status,
+          expiresAt: member.expiresAt
+        }
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Remove a co-parent or cancel their invitation
+ * DELETE /api/family/members/:id
+ */
+router.delete(
+  '/members/:id',
+  verifyToken,
+  [
+    param('id').isUUID().withMessage('Invalid member ID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const removed = await familyService.removeMember(req.user!.id, req.params.id);
+
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: 'Family member not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Removed from your family plan'
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Join a family plan from an invitation
+ * POST /api/family/join
+ */
+router.post(
+  '/join',
+  verifyToken,
+  [
+    body('token').isString().notEmpty().withMessage('Invitation token is required')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await familyService.acceptInvitation(req.body.token, req.user!.id);
+
+      res.json({
+        success: true,
+        message: `You now share ${result.ownerName}'s family plan`,
+        ownerName: result.ownerName,
+        hasRenewingSubscription: result.hasRenewingSubscription
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Leave the family plan
+ * POST /api/family/leave
+ */
+router.post('/leave', verifyToken, async (req: Request, res: Response) => {
+  try {
+    await familyService.leaveFamily(req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'You have left the family plan'
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import { body, query, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma';
 import { verifyToken } from '../middleware/auth';
 import { emailService } from '../utils/emailService';
+import { createWebhookEndpointsRouter } from './webhookEndpoints';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
@@ -1157,4 +1158,13 @@ router.get('/cities', verifyPartnerToken, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * @route   /api/partner/webhooks
+ * @desc    Manage webhook endpoints, view deliveries and send test events
+ * @access  Partner
+ */
+router.use('/webhooks', verifyPartnerToken, createWebhookEndpointsRouter((req: Request) => ({
+  partnerAccountId: (req as any).partner.id
+})));
+
 export default router;
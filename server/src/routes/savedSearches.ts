@@ -0,0 +1,277 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { verifyToken } from '../middleware/auth';
+import { savedSearchService } from '../services/savedSearchService';
+import { subscriptionService } from '../services/subscriptionService';
+
+const router = Router();
+
+const validateCreate = [
+  body('name').optional().isString().trim().isLength({ max: 100 }).withMessage('Name must be 100 characters or less'),
+  body('filters').isObject().withMessage('Filters are required'),
+  body('notifyOnNew').optional().isBoolean().withMessage('notifyOnNew must be true or false')
+];
+
+const validateUpdate = [
+  param('id').isUUID().withMessage('Invalid saved search ID'),
+  body('name').optional().isString().trim().notEmpty().isLength({ max: 100 }).withMessage('Name must be 1-100 characters'),
+  body('filters').optional().isObject().withMessage('Filters must be an object'),
+  body('notifyOnNew').optional().isBoolean().withMessage('notifyOnNew must be true or false')
+];
+
+const handleValidationErrors = (req: Request, res: Response, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: errors.array()[0].msg
+    });
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/v1/saved-searches
+ * @desc    List the user's saved searches with their plan usage
+ * @access  Private
+ */
+router.get('/', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const [savedSearches, limitCheck] = await Promise.all([
+      savedSearchService.listSavedSearches(req.user!.id),
+      subscriptionService.canCreateSavedSearch(req.user!.id)
+    ]);
+
+    res.json({
+      success: true,
+      savedSearches,
+      limit: limitCheck.limit,
+      canCreate: limitCheck.allowed
+    });
+  } catch (error: any) {
+    console.error('List saved searches error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get saved searches'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/v1/saved-searches
+ * @desc    Save a search. The name defaults to a summary of the filters.
+ * @access  Private
+ */
+router.post('/', verifyToken, validateCreate, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const limitCheck = await subscriptionService.canCreateSavedSearch(req.user!.id);
+    if (!limitCheck.allowed) {
+      return res.status(403).json({
+        success: false,
+        error: 'SUBSCRIPTION_LIMIT_REACHED',
+        message: limitCheck.limit === 0
+          ? 'Saved searches are a Premium feature. Upgrade to save searches and get alerts for new matches.'
+          : `You have reached your limit of ${limitCheck.limit} saved searches.`,
+        limit: limitCheck.limit,
+        current: limitCheck.current
+      });
+    }
+
+    const savedSearch = await savedSearchService.createSavedSearch(req.user!.id, {
+      name: req.body.name,
+      filters: req.body.filters,
+      notifyOnNew: req.body.notifyOnNew
+    });
+
+    res.status(201).json({
+      success: true,
+      savedSearch
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   GET /api/v1/saved-searches/shared/:shareToken
+ * @desc    Get the name and filters of a saved search from a share link.
+ *          Alert settings and owner are not exposed.
+ * @access  Public
+ */
+router.get('/shared/:shareToken', param('shareToken').isHexadecimal().isLength({ min: 48, max: 48 }).withMessage('Invalid share link'), handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const savedSearch = await savedSearchService.getSharedSavedSearch(req.params.shareToken);
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      savedSearch
+    });
+  } catch (error: any) {
+    console.error('Get shared saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get saved search'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/v1/saved-searches/:id/share
+ * @desc    Create a share link token for a saved search, replacing any
+ *          previous one
+ * @access  Private
+ */
+router.post('/:id/share', verifyToken, param('id').isUUID().withMessage('Invalid saved search ID'), handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const shareToken = await savedSearchService.shareSavedSearch(req.user!.id, req.params.id);
+
+    if (!shareToken) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      shareToken
+    });
+  } catch (error: any) {
+    console.error('Share saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to share saved search'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/v1/saved-searches/:id/share
+ * @desc    Stop sharing a saved search; existing links stop working
+ * @access  Private
+ */
+router.delete('/:id/share', verifyToken, param('id').isUUID().withMessage('Invalid saved search ID'), handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const stopped = await savedSearchService.stopSharingSavedSearch(req.user!.id, req.params.id);
+
+    if (!stopped) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Saved search is no longer shared'
+    });
+  } catch (error: any) {
+    console.error('Stop sharing saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to stop sharing saved search'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/v1/saved-searches/:id
+ * @desc    Get a saved search
+ * @access  Private
+ */
+router.get('/:id', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const savedSearch = await savedSearchService.getSavedSearch(req.user!.id, req.params.id);
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      savedSearch
+    });
+  } catch (error: any) {
+    console.error('Get saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get saved search'
+    });
+  }
+});
+
+/**
+ * @route   PATCH /api/v1/saved-searches/:id
+ * @desc    Rename a saved search, change its filters or toggle alerts
+ * @access  Private
+ */
+router.patch('/:id', verifyToken, validateUpdate, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const savedSearch = await savedSearchService.updateSavedSearch(req.user!.id, req.params.id, {
+      name: req.body.name,
+      filters: req.body.filters,
+      notifyOnNew: req.body.notifyOnNew
+    });
+
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      savedSearch
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/v1/saved-searches/:id
+ * @desc    Delete a saved search
+ * @access  Private
+ */
+router.delete('/:id', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const deleted = await savedSearchService.deleteSavedSearch(req.user!.id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Saved search deleted'
+    });
+  } catch (error: any) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete saved search'
+    });
+  }
+});
+
+export default router;
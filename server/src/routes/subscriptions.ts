@@ -1,10 +1,12 @@
 import { Router, Request, Response } from 'express';
-import { verifyToken, optionalAuth } from '../middleware/auth';
+import { verifyToken, optionalAuth, verifyBillingToken, createBillingLinkToken } from '../middleware/auth';
 import { subscriptionService } from '../services/subscriptionService';
 import { body, validationResult } from 'express-validator';
 
 const router = Router();
 
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3001';
+
 // Validation middleware
 const handleValidationErrors = (req: Request, res: Response, next: any) => {
   const errors = validationResult(req);
@@ -55,11 +57,12 @@ router.get('/plans', async (req: Request, res: Response) => {
 
 /**
  * GET /api/subscriptions/current
- * Get current user's subscription with usage stats
+ * Get current user's subscription with usage stats and the purchases it comes from
  */
-router.get('/current', verifyToken, async (req: Request, res: Response) => {
+router.get('/current', verifyBillingToken, async (req: Request, res: Response) => {
   try {
     const info = await subscriptionService.getUserSubscriptionInfo(req.user!.id);
+    const entitlements = await subscriptionService.getEntitlements(req.user!.id);
 
     res.json({
       success: true,
@@ -82,7 +85,17 @@ router.get('/current', verifyToken, async (req: Request, res: Response) => {
       limits: info.limits,
       usage: info.usage,
       isTrialing: info.isTrialing,
-      trialDaysRemaining: info.trialDaysRemaining
+      trialDaysRemaining: info.trialDaysRemaining,
+      family: info.family,
+      entitlements: entitlements.map(entitlement => ({
+        provider: entitlement.provider,
+        planCode: entitlement.planCode,
+        status: entitlement.status,
+        billingCycle: entitlement.billingCycle,
+        currentPeriodEnd: entitlement.currentPeriodEnd,
+        cancelAtPeriodEnd: entitlement.cancelAtPeriodEnd,
+        refundedAt: entitlement.refundedAt
+      }))
     });
   } catch (error: any) {
     res.status(500).json({
@@ -315,11 +328,19 @@ router.post(
 
 /**
  * POST /api/subscriptions/cancel
- * Cancel the current subscription
+ * Cancel the current subscription. Web subscriptions are cancelled in
+ * Stripe; store subscriptions still have to be cancelled in the store.
  */
-router.post('/cancel', verifyToken, async (req: Request, res: Response) => {
+router.post('/cancel', verifyBillingToken, async (req: Request, res: Response) => {
   try {
-    await subscriptionService.cancelSubscription(req.user!.id);
+    const current = await subscriptionService.getUserSubscriptionInfo(req.user!.id);
+
+    if (current.subscription?.externalProvider === 'stripe') {
+      const { cancelConsumerSubscription } = await import('../services/stripeService');
+      await cancelConsumerSubscription(req.user!.id);
+    } else {
+      await subscriptionService.cancelSubscription(req.user!.id);
+    }
 
     const info = await subscriptionService.getUserSubscriptionInfo(req.user!.id);
 
@@ -340,6 +361,138 @@ router.post('/cancel', verifyToken, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/subscriptions/web-link
+ * Get a short-lived link that opens premium checkout and billing on the website
+ */
+router.post('/web-link', verifyToken, async (req: Request, res: Response) => {
+  try {
+    const token = createBillingLinkToken(req.user!);
+
+    res.json({
+      success: true,
+      url: `${FRONTEND_URL}/premium?token=${encodeURIComponent(token)}`,
+      expiresIn: 30 * 60
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create billing link'
+    });
+  }
+});
+
+/**
+ * POST /api/subscriptions/stripe/checkout
+ * Start a Stripe Checkout session for premium on the website
+ */
+router.post(
+  '/stripe/checkout',
+  verifyBillingToken,
+  [
+    body('billingCycle').isIn(['monthly', 'annual']),
+    body('planCode').optional().isString()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const { createConsumerCheckoutSession } = await import('../services/stripeService');
+      const session = await createConsumerCheckoutSession({
+        userId: req.user!.id,
+        planCode: req.body.planCode,
+        billingCycle: req.body.billingCycle,
+        successUrl: `${FRONTEND_URL}/premium?status=success`,
+        cancelUrl: `${FRONTEND_URL}/premium?status=cancelled`
+      });
+
+      res.json({
+        success: true,
+        url: session.url
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to start checkout'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/subscriptions/stripe/portal
+ * Open the Stripe Customer Portal for payment methods and invoices
+ */
+router.post('/stripe/portal', verifyBillingToken, async (req: Request, res: Response) => {
+  try {
+    const { createConsumerPortalSession } = await import('../services/stripeService');
+    const session = await createConsumerPortalSession({
+      userId: req.user!.id,
+      returnUrl: `${FRONTEND_URL}/premium`
+    });
+
+    res.json({
+      success: true,
+      url: session.url
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to open billing portal'
+    });
+  }
+});
+
+/**
+ * POST /api/subscriptions/stripe/billing-cycle
+ * Switch a web subscription between monthly and annual billing (prorated)
+ */
+router.post(
+  '/stripe/billing-cycle',
+  verifyBillingToken,
+  [
+    body('billingCycle').isIn(['monthly', 'annual'])
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const { changeConsumerBillingCycle } = await import('../services/stripeService');
+      const { prorationAmount } = await changeConsumerBillingCycle(req.user!.id, req.body.billingCycle);
+
+      res.json({
+        success: true,
+        message: `You're now billed ${req.body.billingCycle === 'annual' ? 'annually' : 'monthly'}.`,
+        prorationAmount
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message || 'Failed to change billing cycle'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/subscriptions/stripe/resume
+ * Undo a scheduled cancellation of a web subscription
+ */
+router.post('/stripe/resume', verifyBillingToken, async (req: Request, res: Response) => {
+  try {
+    const { resumeConsumerSubscription } = await import('../services/stripeService');
+    await resumeConsumerSubscription(req.user!.id);
+
+    res.json({
+      success: true,
+      message: 'Your subscription will renew as usual.'
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: error.message || 'Failed to resume subscription'
+    });
+  }
+});
+
 /**
  * GET /api/subscriptions/trial-eligibility
  * Check if user is eligible for a free trial (hasn't used trial before)
@@ -0,0 +1,195 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { webhookService, WebhookOwner } from '../services/webhookService';
+import { WEBHOOK_EVENTS, isWebhookEvent } from '../utils/webhooks';
+
+const validateEndpoint = (optional: boolean) => [
+  (optional ? body('url').optional() : body('url'))
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .withMessage('A valid URL is required'),
+  body('events').optional().isArray().withMessage('events must be an array'),
+  body('events.*').custom(isWebhookEvent).withMessage(`events must be one of: ${WEBHOOK_EVENTS.join(', ')}`),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 200 }),
+  body('isActive').optional().isBoolean()
+];
+
+const validateEndpointId = [param('endpointId').isUUID().withMessage('Invalid endpoint ID')];
+
+const handleValidationErrors = (req: Request, res: Response, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: errors.array()[0].msg
+    });
+  }
+  next();
+};
+
+const notFound = (res: Response) => res.status(404).json({
+  success: false,
+  error: 'Webhook endpoint not found'
+});
+
+/**
+ * Webhook endpoint management, shared by the vendor portal
+ * (/api/vendor/:vendorId/webhooks) and the partner portal
+ * (/api/partner/webhooks). Mount after the portal's auth middleware;
+ * getOwner reads the authenticated vendor or partner account from the request.
+ */
+export function createWebhookEndpointsRouter(getOwner: (req: Request) => WebhookOwner): Router {
+  const router = Router({ mergeParams: true });
+
+  /**
+   * GET /webhooks
+   * List webhook endpoints and the events they can subscribe to
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const endpoints = await webhookService.listEndpoints(getOwner(req));
+
+      res.json({
+        success: true,
+        endpoints,
+        availableEvents: WEBHOOK_EVENTS
+      });
+    } catch (error: any) {
+      console.error('List webhooks error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list webhook endpoints'
+      });
+    }
+  });
+
+  /**
+   * POST /webhooks
+   * Register a webhook endpoint. The signing secret is only returned here.
+   */
+  router.post('/', validateEndpoint(false), handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const endpoint = await webhookService.createEndpoint(getOwner(req), req.body);
+
+      res.status(201).json({
+        success: true,
+        endpoint
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * PUT /webhooks/:endpointId
+   * Update a webhook endpoint
+   */
+  router.put('/:endpointId', validateEndpointId, validateEndpoint(true), handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const endpoint = await webhookService.updateEndpoint(getOwner(req), req.params.endpointId, req.body);
+      if (!endpoint) return notFound(res);
+
+      res.json({
+        success: true,
+        endpoint
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * DELETE /webhooks/:endpointId
+   * Delete a webhook endpoint and its delivery log
+   */
+  router.delete('/:endpointId', validateEndpointId, handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const deleted = await webhookService.deleteEndpoint(getOwner(req), req.params.endpointId);
+      if (!deleted) return notFound(res);
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint deleted'
+      });
+    } catch (error: any) {
+      console.error('Delete webhook error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete webhook endpoint'
+      });
+    }
+  });
+
+  /**
+   * POST /webhooks/:endpointId/rotate-secret
+   * Replace the signing secret; the new one is returned once
+   */
+  router.post('/:endpointId/rotate-secret', validateEndpointId, handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const endpoint = await webhookService.rotateSecret(getOwner(req), req.params.endpointId);
+      if (!endpoint) return notFound(res);
+
+      res.json({
+        success: true,
+        endpoint
+      });
+    } catch (error: any) {
+      console.error('Rotate webhook secret error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rotate secret'
+      });
+    }
+  });
+
+  /**
+   * GET /webhooks/:endpointId/deliveries
+   * Recent deliveries with their response status and retry state
+   */
+  router.get('/:endpointId/deliveries', validateEndpointId, handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const deliveries = await webhookService.getDeliveries(getOwner(req), req.params.endpointId);
+      if (!deliveries) return notFound(res);
+
+      res.json({
+        success: true,
+        deliveries
+      });
+    } catch (error: any) {
+      console.error('List webhook deliveries error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list deliveries'
+      });
+    }
+  });
+
+  /**
+   * POST /webhooks/:endpointId/test
+   * Send a test event now and return the delivery result
+   */
+  router.post('/:endpointId/test', validateEndpointId, handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const delivery = await webhookService.sendTestEvent(getOwner(req), req.params.endpointId);
+      if (!delivery) return notFound(res);
+
+      res.json({
+        success: true,
+        delivery
+      });
+    } catch (error: any) {
+      console.error('Send test webhook error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send test event'
+      });
+    }
+  });
+
+  return router;
+}
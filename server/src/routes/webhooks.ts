@@ -85,50 +85,92 @@ router.post('/revenuecat', async (req: Request, res: Response) => {
       case 'RENEWAL':
       case 'UNCANCELLATION':
         // Activate or renew subscription
-        if (entitlements.includes('premium') || entitlements.includes('pro')) {
+        if (entitlements.includes('family') || entitlements.includes('premium') || entitlements.includes('pro')) {
           await subscriptionService.activateFromExternal(
             appUserId,
             event.event?.original_transaction_id || appUserId,
             'revenuecat',
-            'premium',
+            entitlements.includes('family') ? 'family' : 'premium',
             billingCycle as 'monthly' | 'annual',
             expirationDate
           );
           console.log(`[RevenueCat] Activated premium for user: ${appUserId}`);
+
+          // Stop a web subscription from also renewing
+          if (eventType === 'INITIAL_PURCHASE') {
+            const { cancelDuplicateConsumerSubscription } = await import('../services/stripeService');
+            await cancelDuplicateConsumerSubscription(appUserId);
+          }
         }
         break;
 
       case 'EXPIRATION':
-      case 'BILLING_ISSUE':
         // Deactivate subscription
-        await subscriptionService.deactivateFromExternal(appUserId);
+        await subscriptionService.deactivateFromExternal(appUserId, 'revenuecat');
         console.log(`[RevenueCat] Deactivated subscription for user: ${appUserId}`);
         break;
 
-      case 'CANCELLATION':
-        // User cancelled but may still have access
-        // Just log it - they keep access until expiration
+      case 'BILLING_ISSUE': {
+        // Store is retrying the payment; access lasts until the grace period ends
+        const gracePeriodEnd = event.event?.grace_period_expiration_at_ms
+          ? new Date(event.event.grace_period_expiration_at_ms)
+          : expirationDate;
+        const updated = await subscriptionService.updateEntitlement(appUserId, 'revenuecat', {
+          status: 'past_due',
+          currentPeriodEnd: gracePeriodEnd ?? null
+        });
+        if (!updated) {
+          await subscriptionService.deactivateFromExternal(appUserId, 'revenuecat');
+        }
+        console.log(`[RevenueCat] Billing issue for user ${appUserId} (access until ${gracePeriodEnd})`);
+        break;
+      }
+
+      case 'CANCELLATION': {
+        // Refunds issued by Apple/Google support end access immediately
+        if (event.event?.cancel_reason === 'CUSTOMER_SUPPORT') {
+          await subscriptionService.deactivateFromExternal(appUserId, 'revenuecat', 'refunded');
+          console.log(`[RevenueCat] Refund processed, premium ended for user: ${appUserId}`);
+          break;
+        }
+
+        // User cancelled but keeps access until expiration
         console.log(`[RevenueCat] User ${appUserId} cancelled subscription (access until ${expirationDate})`);
-        // Update status to cancelled but keep the plan
-        await subscriptionService.updateSubscription(appUserId, {
-          status: 'cancelled'
-        }).catch(() => {
-          // Ignore if no subscription exists
+        const updated = await subscriptionService.updateEntitlement(appUserId, 'revenuecat', {
+          status: 'cancelled',
+          cancelAtPeriodEnd: true,
+          ...(expirationDate && { currentPeriodEnd: expirationDate })
         });
+        if (!updated) {
+          await subscriptionService.updateSubscription(appUserId, {
+            status: 'cancelled'
+          }).catch(() => {
+            // Ignore if no subscription exists
+          });
+        }
         break;
+      }
 
-      case 'PRODUCT_CHANGE':
-        // User changed plans
+      case 'PRODUCT_CHANGE': {
+        // User changed plans (e.g. premium to family); the store prorates the price
         const newProductId = event.event?.new_product_id;
         const newBillingCycle = newProductId?.includes('annual') ? 'annual' : 'monthly';
-        await subscriptionService.updateSubscription(appUserId, {
+        const updated = await subscriptionService.updateEntitlement(appUserId, 'revenuecat', {
+          planCode: newProductId?.includes('family') ? 'family' : 'premium',
           billingCycle: newBillingCycle,
-          currentPeriodEnd: expirationDate
-        }).catch(() => {
-          // Ignore if no subscription exists
+          ...(expirationDate && { currentPeriodEnd: expirationDate })
         });
+        if (!updated) {
+          await subscriptionService.updateSubscription(appUserId, {
+            billingCycle: newBillingCycle,
+            currentPeriodEnd: expirationDate
+          }).catch(() => {
+            // Ignore if no subscription exists
+          });
+        }
         console.log(`[RevenueCat] User ${appUserId} changed to ${newBillingCycle} billing`);
         break;
+      }
 
       case 'SUBSCRIPTION_PAUSED':
         console.log(`[RevenueCat] Subscription paused for user: ${appUserId}`);
@@ -154,7 +196,7 @@ router.post('/revenuecat', async (req: Request, res: Response) => {
 
 /**
  * POST /api/webhooks/stripe
- * Handle Stripe subscription events for partner payments
+ * Handle Stripe subscription events for partner payments and consumer premium
  *
  * IMPORTANT: This route must receive raw body for signature verification.
  * The raw body middleware is configured in server.ts
@@ -17,6 +17,8 @@ import sharingRoutes from './routes/sharing';
 import sharedActivitiesRoutes from './routes/sharedActivities';
 import setupRoutes from './routes/setup';
 import activitiesRoutes from './routes/activities';
+import savedSearchesRoutes from './routes/savedSearches';
+import carpoolsRoutes from './routes/carpools';
 import activityTypesRoutes from './routes/activityTypes';
 import referenceRoutes from './routes/reference';
 import citiesRoutes from './routes/cities';
@@ -24,6 +26,7 @@ import categoriesRoutes from './routes/categories';
 import locationsRoutes from './routes/locations';
 import partnersRoutes from './routes/partners';
 import subscriptionsRoutes from './routes/subscriptions';
+import familyRoutes from './routes/family';
 import notificationsRoutes from './routes/notifications';
 import webhooksRoutes from './routes/webhooks';
 import analyticsRoutes from './routes/analytics';
@@ -142,7 +145,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Two-Factor-Token', 'X-Trusted-Device', 'X-Device-Name'],
 }));
 
 // Stripe webhook needs raw body for signature verification
@@ -202,6 +205,10 @@ app.use('/api', setupRoutes);
 // Activity routes (v1 API)
 app.use('/api/v1/activities', activitiesRoutes);
 
+// Saved searches routes (v1 API)
+app.use('/api/v1/saved-searches', savedSearchesRoutes);
+app.use('/api/v1/carpools', carpoolsRoutes);
+
 // Activity types routes (v1 API)
 app.use('/api/v1/activity-types', activityTypesRoutes);
 
@@ -234,6 +241,9 @@ app.use('/api/v1/ai', aiRoutes);
 // Subscription management routes
 app.use('/api/subscriptions', subscriptionsRoutes);
 
+// Family plans - co-parents sharing one payer's premium
+app.use('/api/family', familyRoutes);
+
 // User notification management routes (email digests, waitlist, unsubscribe)
 app.use('/api/notifications', notificationsRoutes);
 
@@ -426,10 +436,256 @@ const schedulePartnerCleanup = async () => {
   }
 };
 
+// Schedule cleanup of AI chat conversations past their retention window
+const scheduleConversationCleanup = async () => {
+  try {
+    const { deleteExpiredConversations } = await import('./ai/services/conversationService');
+
+    await deleteExpiredConversations();
+
+    const SIX_HOURS = 6 * 60 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await deleteExpiredConversations();
+      } catch (error) {
+        console.error('[Scheduler] Conversation cleanup failed:', error);
+      }
+    }, SIX_HOURS);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize conversation cleanup:', error);
+  }
+};
+
+// Schedule downsampling of activity snapshots into daily aggregates
+const scheduleSnapshotRetention = async () => {
+  try {
+    const { activitySnapshotService } = await import('./services/activitySnapshotService');
+
+    const runRetention = async () => {
+      const result = await activitySnapshotService.cleanupOldSnapshots();
+      console.log(`[Scheduler] Snapshot retention: ${result.daysRolledUp} day(s) rolled up, ${result.rawDeleted} raw and ${result.dailyDeleted} daily snapshot(s) deleted`);
+    };
+
+    await runRetention();
+
+    const ONE_DAY = 24 * 60 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runRetention();
+      } catch (error) {
+        console.error('[Scheduler] Snapshot retention failed:', error);
+      }
+    }, ONE_DAY);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize snapshot retention:', error);
+  }
+};
+
+// Schedule hourly evaluation of saved searches for new-match alerts (each search
+// is claimed before it's checked, so instances don't send the same alert)
+const scheduleSavedSearchAlerts = async () => {
+  try {
+    const { savedSearchService } = await import('./services/savedSearchService');
+
+    const runEvaluation = async () => {
+      const result = await savedSearchService.evaluateSavedSearches();
+      console.log(`[Scheduler] Saved searches: ${result.searchesChecked} checked, ${result.usersNotified} user(s) notified`);
+    };
+
+    const ONE_HOUR = 60 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runEvaluation();
+      } catch (error) {
+        console.error('[Scheduler] Saved search evaluation failed:', error);
+      }
+    }, ONE_HOUR);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize saved search alerts:', error);
+  }
+};
+
+// Watch child waitlists: alert the next family in line when spots open or a hold
+// expires, and re-arm entries when an activity fills up again. Families are
+// claimed before they're alerted, so instances don't alert the same family.
+const scheduleWaitlistWatcher = async () => {
+  try {
+    const { waitlistService } = await import('./services/waitlistService');
+
+    const runWatcher = async () => {
+      const result = await waitlistService.processPendingWaitlists();
+      if (result.familiesNotified > 0 || result.entriesRearmed > 0) {
+        console.log(`[Scheduler] Waitlists: ${result.familiesNotified} family(ies) notified, ${result.entriesRearmed} entry(ies) re-armed`);
+      }
+    };
+
+    const TEN_MINUTES = 10 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runWatcher();
+      } catch (error) {
+        console.error('[Scheduler] Waitlist watcher failed:', error);
+      }
+    }, TEN_MINUTES);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize waitlist watcher:', error);
+  }
+};
+
+// Schedule carpool day-before driver reminders (hourly, one reminder per ride,
+// claimed before sending so instances don't repeat it)
+const scheduleCarpoolReminders = async () => {
+  try {
+    const { carpoolService } = await import('./services/carpoolService');
+
+    const runReminders = async () => {
+      const result = await carpoolService.sendDayBeforeReminders();
+      if (result.remindersSent > 0) {
+        console.log(`[Scheduler] Carpools: ${result.remindersSent} reminder(s) sent across ${result.groupsChecked} carpool(s)`);
+      }
+    };
+
+    const ONE_HOUR = 60 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runReminders();
+      } catch (error) {
+        console.error('[Scheduler] Carpool reminders failed:', error);
+      }
+    }, ONE_HOUR);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize carpool reminders:', error);
+  }
+};
+
+// Schedule outbound webhook retries (checked every minute; each delivery backs off exponentially)
+const scheduleWebhookRetries = async () => {
+  try {
+    const { webhookService } = await import('./services/webhookService');
+
+    const runRetries = async () => {
+      const result = await webhookService.processDueDeliveries();
+      if (result.attempted > 0) {
+        console.log(`[Scheduler] Webhooks: ${result.delivered}/${result.attempted} retried delivery(ies) succeeded`);
+      }
+    };
+
+    const ONE_MINUTE = 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runRetries();
+      } catch (error) {
+        console.error('[Scheduler] Webhook retries failed:', error);
+      }
+    }, ONE_MINUTE);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize webhook retries:', error);
+  }
+};
+
+// Pull vendors' remote import sources that are due (checked every 10 minutes;
+// each source runs hourly, daily or weekly)
+const scheduleImportSources = async () => {
+  try {
+    const { importSourceService } = await import('./services/importSourceService');
+
+    const runSources = async () => {
+      const result = await importSourceService.processDueSources();
+      if (result.checked > 0) {
+        console.log(`[Scheduler] Import sources: ${result.imported} imported, ${result.unchanged} unchanged, ${result.failed} failed`);
+      }
+    };
+
+    const TEN_MINUTES = 10 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runSources();
+      } catch (error) {
+        console.error('[Scheduler] Import sources failed:', error);
+      }
+    }, TEN_MINUTES);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize import sources:', error);
+  }
+};
+
+// Keep activity embeddings for semantic search current (every 10 minutes;
+// each run claims the next batch of activities and only re-embeds changed text)
+const scheduleEmbeddingSync = async () => {
+  if (!process.env.OPENAI_API_KEY && process.env.EMBEDDING_PROVIDER !== 'local') {
+    console.log('[Scheduler] Embedding sync disabled: no embedding provider configured');
+    return;
+  }
+
+  try {
+    const { syncActivityEmbeddings } = await import('./ai/utils/vectorIndex');
+
+    const runSync = async () => {
+      const result = await syncActivityEmbeddings();
+      if (result.embedded > 0 || result.failed > 0 || result.backfilled > 0) {
+        console.log(`[Scheduler] Embeddings: ${result.embedded} embedded, ${result.failed} failed, ${result.backfilled} copied to pgvector`);
+      }
+    };
+
+    const TEN_MINUTES = 10 * 60 * 1000;
+    setInterval(async () => {
+      try {
+        await runSync();
+      } catch (error) {
+        console.error('[Scheduler] Embedding sync failed:', error);
+      }
+    }, TEN_MINUTES);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize embedding sync:', error);
+  }
+};
+
+// Schedule a daily refresh of recommendation preference vectors and a
+// candidate ranking model. Candidates only get traffic once an admin activates them.
+// Every instance checks hourly; the first to find a day since the last run claims it.
+const scheduleRankingTraining = async () => {
+  try {
+    const { rankingFeedbackService } = await import('./services/rankingFeedbackService');
+    const { scheduledTaskService } = await import('./services/scheduledTaskService');
+
+    const ONE_HOUR = 60 * 60 * 1000;
+    const ONE_DAY = 24 * ONE_HOUR;
+
+    const runTraining = async () => {
+      const previous = await scheduledTaskService.claimRun('ranking-training', ONE_DAY);
+      if (!previous) return;
+
+      const since = previous.lastRunAt ?? new Date(Date.now() - ONE_DAY);
+      const refreshed = await rankingFeedbackService.refreshRecentPreferenceVectors(since);
+      const model = await rankingFeedbackService.trainModel('recommendations');
+      console.log(`[Scheduler] Ranking: ${refreshed} preference vector(s) refreshed, ${model ? `candidate ${model.version} trained` : 'not enough feedback to train'}`);
+    };
+
+    setInterval(async () => {
+      try {
+        await runTraining();
+      } catch (error) {
+        console.error('[Scheduler] Ranking training failed:', error);
+      }
+    }, ONE_HOUR);
+  } catch (error) {
+    console.warn('[Scheduler] Could not initialize ranking training:', error);
+  }
+};
+
 // Start server
 const server = app.listen(PORT as number, '0.0.0.0', () => {
   // Schedule cleanup after server starts
   schedulePartnerCleanup();
+  scheduleConversationCleanup();
+  scheduleSnapshotRetention();
+  scheduleSavedSearchAlerts();
+  scheduleWaitlistWatcher();
+  scheduleCarpoolReminders();
+  scheduleWebhookRetries();
+  scheduleImportSources();
+  scheduleEmbeddingSync();
+  scheduleRankingTraining();
 
   console.log(`
 ╔═══════════════════════════════════════════════════╗
@@ -479,6 +735,7 @@ const server = app.listen(PORT as number, '0.0.0.0', () => {
 ║     DELETE /api/child-activities/:childId/        ║
 ║            activities/:activityId                 ║
 ║     GET    /api/child-activities/history          ║
+║     GET    /api/child-activities/conflicts        ║
 ║     GET    /api/child-activities/:childId/        ║
 ║            recommendations                        ║
 ║     GET    /api/child-activities/:childId/        ║
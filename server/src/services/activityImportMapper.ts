@@ -1,6 +1,8 @@
 import { Activity, Vendor } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
 import { RawRow } from './fileParserService';
+import { omitLockedFields } from '../utils/importDiff';
+import { parseAgeRange, parseDayPattern } from '../utils/columnDetection';
 
 // Field mapping configuration
 export interface FieldMapping {
@@ -22,6 +24,13 @@ export interface RowValidationResult {
   warnings: FieldValidationError[];
 }
 
+// A dated session of an imported activity
+export interface ImportedSession {
+  date: string; // yyyy-MM-dd
+  startTime?: string;
+  endTime?: string;
+}
+
 // Normalized activity data ready for database
 export interface NormalizedActivity {
   externalId: string;
@@ -48,8 +57,11 @@ export interface NormalizedActivity {
   registrationStatus?: string;
   prerequisites?: string;
   whatToBring?: string;
+  sessions?: ImportedSession[];
 }
 
+const SESSION_DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 // Validation rules for each field
 const VALIDATION_RULES: Record<string, {
   required?: boolean;
@@ -157,6 +169,46 @@ export class ActivityImportMapper {
     return activity;
   }
 
+  /**
+   * Map a JSON item pushed through the vendor API, keyed by activity field names
+   */
+  mapJsonToActivity(item: Record<string, any>): NormalizedActivity {
+    const mapping: FieldMapping = {};
+    for (const field of Object.keys(this.getDefaultMapping())) {
+      mapping[field] = field;
+    }
+
+    const rawData: RawRow = {};
+    for (const [field, value] of Object.entries(item)) {
+      if (field === 'sessions' && Array.isArray(value)) {
+        rawData[field] = JSON.stringify(value);
+      } else {
+        rawData[field] = Array.isArray(value) ? value.join(',') : value;
+      }
+    }
+
+    return this.mapRawToActivity(rawData, mapping);
+  }
+
+  /**
+   * Normalized fields of an existing activity, for applying partial updates
+   */
+  fromActivity(activity: Activity): NormalizedActivity {
+    const normalized: NormalizedActivity = {
+      externalId: activity.externalId,
+      name: activity.name,
+    };
+
+    for (const field of Object.keys(this.getDefaultMapping())) {
+      const value = (activity as any)[field];
+      if (value !== null && value !== undefined && !(field in normalized)) {
+        (normalized as any)[field] = value;
+      }
+    }
+
+    return normalized;
+  }
+
   /**
    * Normalize a single value based on field type
    */
@@ -186,8 +238,10 @@ export class ActivityImportMapper {
         return this.parseCost(stringValue);
 
       case 'ageMin':
+        return this.parseAge(stringValue, 'min');
+
       case 'ageMax':
-        return this.parseAge(stringValue);
+        return this.parseAge(stringValue, 'max');
 
       case 'spotsAvailable':
       case 'totalSpots':
@@ -208,6 +262,9 @@ export class ActivityImportMapper {
       case 'dayOfWeek':
         return this.parseDaysOfWeek(stringValue);
 
+      case 'sessions':
+        return this.parseSessions(stringValue);
+
       default:
         return stringValue;
     }
@@ -232,8 +289,13 @@ export class ActivityImportMapper {
   /**
    * Parse age string to number
    */
-  private parseAge(value: string): number | null {
-    // Handle ranges like "5-10" - take the first number
+  private parseAge(value: string, bound: 'min' | 'max'): number | null {
+    // Ranges like "Ages 6-12" give ageMin 6 and ageMax 12
+    const range = parseAgeRange(value);
+    if (range) {
+      return range[bound] ?? null;
+    }
+
     const match = value.match(/(\d+)/);
     if (match) {
       return parseInt(match[1], 10);
@@ -241,6 +303,7 @@ export class ActivityImportMapper {
     return null;
   }
 
+
   /**
    * Parse integer string
    */
@@ -319,44 +382,41 @@ export class ActivityImportMapper {
   }
 
   /**
-   * Parse days of week string
+   * Parse days of week string ("Monday, Wednesday", "M/W/F", "Mon-Fri", "TTh")
    */
   private parseDaysOfWeek(value: string): string[] {
-    const dayMappings: Record<string, string> = {
-      'monday': 'Mon',
-      'mon': 'Mon',
-      'm': 'Mon',
-      'tuesday': 'Tue',
-      'tues': 'Tue',
-      'tue': 'Tue',
-      't': 'Tue',
-      'wednesday': 'Wed',
-      'wed': 'Wed',
-      'w': 'Wed',
-      'thursday': 'Thu',
-      'thurs': 'Thu',
-      'thu': 'Thu',
-      'friday': 'Fri',
-      'fri': 'Fri',
-      'f': 'Fri',
-      'saturday': 'Sat',
-      'sat': 'Sat',
-      's': 'Sat',
-      'sunday': 'Sun',
-      'sun': 'Sun',
-    };
-
-    // Split by common separators
-    const parts = value.split(/[,;\/\-&]+/).map(p => p.trim().toLowerCase());
-    const days: string[] = [];
+    return parseDayPattern(value);
+  }
 
-    for (const part of parts) {
-      if (dayMappings[part]) {
-        days.push(dayMappings[part]);
+  /**
+   * Parse session dates: a JSON array of { date, startTime, endTime } (as
+   * produced by the iCalendar and JSON-LD parsers) or a list of plain dates
+   */
+  private parseSessions(value: string): ImportedSession[] | null {
+    let entries: any[];
+    if (value.startsWith('[')) {
+      try {
+        entries = JSON.parse(value);
+      } catch {
+        return null;
       }
+    } else {
+      entries = value.split(/[;\n|]+|,(?!\s*\d{4}\b(?!-))/).map(date => ({ date: date.trim() }));
     }
 
-    return days;
+    const sessions: ImportedSession[] = [];
+    for (const entry of entries) {
+      const date = entry?.date ? this.parseDate(String(entry.date).trim()) : null;
+      if (!date) continue;
+
+      sessions.push({
+        date: date.toISOString().split('T')[0],
+        ...(entry.startTime && { startTime: this.parseTime(String(entry.startTime).trim()) || undefined }),
+        ...(entry.endTime && { endTime: this.parseTime(String(entry.endTime).trim()) || undefined }),
+      });
+    }
+
+    return sessions.length > 0 ? sessions : null;
   }
 
   /**
@@ -524,30 +584,7 @@ export class ActivityImportMapper {
 
     // Build activity data
     const activityData = {
-      name: activity.name,
-      category: activity.category || 'Uncategorized',
-      subcategory: activity.subcategory,
-      description: activity.description,
-      dateStart: activity.dateStart,
-      dateEnd: activity.dateEnd,
-      startTime: activity.startTime,
-      endTime: activity.endTime,
-      dayOfWeek: activity.dayOfWeek || [],
-      cost: activity.cost || 0,
-      ageMin: activity.ageMin,
-      ageMax: activity.ageMax,
-      locationName: activity.locationName,
-      fullAddress: activity.fullAddress,
-      latitude: activity.latitude,
-      longitude: activity.longitude,
-      instructor: activity.instructor,
-      spotsAvailable: activity.spotsAvailable,
-      totalSpots: activity.totalSpots,
-      registrationUrl: activity.registrationUrl,
-      registrationStatus: activity.registrationStatus || 'Unknown',
-      prerequisites: activity.prerequisites,
-      whatToBring: activity.whatToBring,
-      isActive: true,
+      ...this.toActivityFields(activity),
       lastSeenAt: new Date(),
       lastImportedAt: new Date(),
       importBatchId,
@@ -563,14 +600,19 @@ export class ActivityImportMapper {
 
     if (existing) {
       // Update existing activity
+      // Fields an admin edited by hand keep their values
       const updated = await prisma.activity.update({
         where: { id: existing.id },
         data: {
-          ...activityData,
+          ...omitLockedFields(activityData, existing.manuallyEditedFields || []),
           isUpdated: true,
         },
       });
 
+      if (activity.sessions) {
+        await this.syncSessions(updated, activity.sessions);
+      }
+
       return { activity: updated, action: 'updated' };
     } else {
       // Create new activity
@@ -584,10 +626,87 @@ export class ActivityImportMapper {
         },
       });
 
+      if (activity.sessions) {
+        await this.syncSessions(created, activity.sessions);
+      }
+
       return { activity: created, action: 'created' };
     }
   }
 
+  /**
+   * Activity columns written for an imported activity. Also used by the
+   * import dry run, so its diff matches what processing writes.
+   */
+  toActivityFields(activity: NormalizedActivity) {
+    return {
+      name: activity.name,
+      category: activity.category || 'Uncategorized',
+      subcategory: activity.subcategory,
+      description: activity.description,
+      dateStart: activity.dateStart,
+      dateEnd: activity.dateEnd,
+      startTime: activity.startTime,
+      endTime: activity.endTime,
+      dayOfWeek: activity.dayOfWeek || [],
+      cost: activity.cost || 0,
+      ageMin: activity.ageMin,
+      ageMax: activity.ageMax,
+      locationName: activity.locationName,
+      fullAddress: activity.fullAddress,
+      latitude: activity.latitude,
+      longitude: activity.longitude,
+      instructor: activity.instructor,
+      spotsAvailable: activity.spotsAvailable,
+      totalSpots: activity.totalSpots,
+      registrationUrl: activity.registrationUrl,
+      registrationStatus: activity.registrationStatus || 'Unknown',
+      prerequisites: activity.prerequisites,
+      whatToBring: activity.whatToBring,
+      isActive: true,
+    };
+  }
+
+  /**
+   * Reconcile an activity's sessions with the imported dates. Sessions are
+   * matched by date so existing ones (and their attendance) are kept.
+   */
+  private async syncSessions(activity: Activity, sessions: ImportedSession[]): Promise<void> {
+    const existing = await prisma.activitySession.findMany({
+      where: { activityId: activity.id },
+    });
+    const byDate = new Map(existing.filter(session => session.date).map(session => [session.date!, session]));
+    const imported = [...sessions].sort((a, b) => a.date.localeCompare(b.date));
+    const importedDates = new Set(imported.map(session => session.date));
+
+    const removed = existing.filter(session => !session.date || !importedDates.has(session.date));
+    if (removed.length > 0) {
+      await prisma.activitySession.deleteMany({
+        where: { id: { in: removed.map(session => session.id) } },
+      });
+    }
+
+    for (const [index, session] of imported.entries()) {
+      const data = {
+        sessionNumber: index + 1,
+        dayOfWeek: SESSION_DAY_NAMES[new Date(`${session.date}T00:00:00Z`).getUTCDay()],
+        startTime: session.startTime || activity.startTime,
+        endTime: session.endTime || activity.endTime,
+        location: activity.locationName,
+        instructor: activity.instructor,
+      };
+
+      const match = byDate.get(session.date);
+      if (match) {
+        await prisma.activitySession.update({ where: { id: match.id }, data });
+      } else {
+        await prisma.activitySession.create({
+          data: { activityId: activity.id, date: session.date, ...data },
+        });
+      }
+    }
+  }
+
   /**
    * Get default field mapping based on detected headers
    */
@@ -617,6 +736,7 @@ export class ActivityImportMapper {
       registrationStatus: null,
       prerequisites: null,
       whatToBring: null,
+      sessions: null,
     };
   }
 }
@@ -4,8 +4,10 @@ const { convertToActivityTypes } = require('../constants/activityTypes');
 import { buildActivityWhereClause, GlobalActivityFilters } from '../utils/activityFilters';
 import { sponsoredActivityService } from './sponsoredActivityService';
 import { calculateDistance } from '../utils/distanceUtils';
+import { buildActivityTimeline, ActivityChange, ActivityChangeKind } from '../utils/activityTimeline';
+import { ActivityExclusions, buildExclusionWhere } from '../utils/childDismissals';
 
-interface SearchParams {
+export interface SearchParams {
   search?: string;
   category?: string;
   categories?: string; // Comma-separated list of categories or activity types
@@ -25,6 +27,8 @@ interface SearchParams {
   city?: string; // Filter by city name (fallback when no coordinates)
   province?: string; // Filter by province/state (fallback when no coordinates)
   providerId?: string;
+  createdAfter?: Date; // Only activities first listed after this time (saved search alerts)
+  exclusions?: ActivityExclusions; // Children's "not interested" dismissals and excluded categories
   hideClosedActivities?: boolean; // Hide activities that are closed for registration
   hideFullActivities?: boolean; // Hide activities with no spots available
   hideClosedOrFull?: boolean; // Hide activities that are closed OR full
@@ -76,6 +80,8 @@ export class EnhancedActivityService {
       city, // Filter by city name
       province, // Filter by province/state
       providerId,
+      createdAfter,
+      exclusions,
       hideClosedActivities = false,
       hideFullActivities = false,
       hideClosedOrFull = false,
@@ -559,6 +565,18 @@ export class EnhancedActivityService {
       where.providerId = providerId;
     }
 
+    // Newly listed filter
+    if (createdAfter) {
+      where.createdAt = { gt: createdAfter };
+    }
+
+    // Children's dismissals and excluded categories
+    const exclusionWhere = buildExclusionWhere(exclusions);
+    if (exclusionWhere) {
+      where.AND = where.AND || [];
+      (where.AND as Prisma.ActivityWhereInput[]).push(exclusionWhere);
+    }
+
     // Apply global filters using shared utility (includes distance filtering)
     console.log('🔧 [ActivityService] Global filter params:', {
       hideClosedActivities,
@@ -982,6 +1000,24 @@ export class EnhancedActivityService {
     });
   }
 
+  /**
+   * Get the parent-facing change timeline for an activity.
+   * Returns null if the activity doesn't exist (inactive activities keep their history).
+   */
+  async getActivityTimeline(
+    activityId: string,
+    options: { kinds?: ActivityChangeKind[]; limit?: number } = {}
+  ): Promise<ActivityChange[] | null> {
+    const exists = await this.prisma.activity.count({ where: { id: activityId } });
+    if (!exists) {
+      return null;
+    }
+
+    const history = await this.getActivityHistory(activityId);
+    const timeline = buildActivityTimeline(history, { kinds: options.kinds });
+    return options.limit ? timeline.slice(0, options.limit) : timeline;
+  }
+
   async getProviderStats(providerId: string) {
     const [activeCount, inactiveCount, lastRun] = await Promise.all([
       this.prisma.activity.count({
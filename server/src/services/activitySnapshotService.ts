@@ -1,5 +1,19 @@
 import { Activity, ActivitySnapshot } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
+import {
+  rollupSnapshotsByDay,
+  projectFillRate,
+  toUtcDay,
+  DailySnapshotPoint,
+  FillRateProjection
+} from '../utils/snapshotTrends';
+
+// Raw snapshots are kept for this long, then rolled up into daily aggregates
+export const RAW_SNAPSHOT_RETENTION_DAYS = 14;
+// Daily aggregates cover a full season of registration
+export const DAILY_SNAPSHOT_RETENTION_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface PriceDropEvent {
   activityId: string;
@@ -24,6 +38,28 @@ export interface SpotsAvailableEvent {
   spotsAvailable: number;
 }
 
+export interface ActivityTrendPoint {
+  date: string; // YYYY-MM-DD
+  spotsAvailable: number | null;
+  spotsMin: number | null;
+  spotsMax: number | null;
+  cost: number | null;
+}
+
+export interface ActivityTimeSeries {
+  activityId: string;
+  days: number;
+  totalSpots: number | null;
+  points: ActivityTrendPoint[];
+  projection: FillRateProjection;
+}
+
+export interface SnapshotRetentionResult {
+  daysRolledUp: number;
+  rawDeleted: number;
+  dailyDeleted: number;
+}
+
 /**
  * Service for capturing and tracking activity state changes
  * Used for detecting price drops, capacity changes, and spots becoming available
@@ -251,18 +287,145 @@ export class ActivitySnapshotService {
   }
 
   /**
-   * Clean up old snapshots to prevent database bloat
-   * Keeps only the last N days of snapshots
+   * Roll raw snapshots captured before `before` into daily aggregates, then delete them.
+   * Each activity is handled in its own transaction, so a partial run can simply be repeated.
    */
-  async cleanupOldSnapshots(daysToKeep: number = 30): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+  async rollupDailySnapshots(before: Date): Promise<{ daysRolledUp: number; rawDeleted: number }> {
+    const cutoff = toUtcDay(before);
+    const activities = await prisma.activitySnapshot.groupBy({
+      by: ['activityId'],
+      where: { capturedAt: { lt: cutoff } }
+    });
 
-    const result = await prisma.activitySnapshot.deleteMany({
-      where: { capturedAt: { lt: cutoffDate } }
+    let daysRolledUp = 0;
+    let rawDeleted = 0;
+
+    for (const { activityId } of activities) {
+      const samples = await prisma.activitySnapshot.findMany({
+        where: { activityId, capturedAt: { lt: cutoff } },
+        select: { spotsAvailable: true, cost: true, capturedAt: true }
+      });
+      const days = rollupSnapshotsByDay(samples);
+
+      const results = await prisma.$transaction([
+        ...days.map(({ day, ...aggregate }) =>
+          prisma.activitySnapshotDaily.upsert({
+            where: { activityId_day: { activityId, day } },
+            create: { activityId, day, ...aggregate },
+            update: aggregate
+          })
+        ),
+        prisma.activitySnapshot.deleteMany({
+          where: { activityId, capturedAt: { lt: cutoff } }
+        })
+      ]);
+      const deleted = results[results.length - 1] as { count: number };
+
+      daysRolledUp += days.length;
+      rawDeleted += deleted.count;
+    }
+
+    return { daysRolledUp, rawDeleted };
+  }
+
+  /**
+   * Apply the snapshot retention policy: raw snapshots older than
+   * `rawDaysToKeep` are downsampled to daily aggregates, and daily
+   * aggregates older than a season are deleted.
+   */
+  async cleanupOldSnapshots(
+    rawDaysToKeep: number = RAW_SNAPSHOT_RETENTION_DAYS,
+    dailyDaysToKeep: number = DAILY_SNAPSHOT_RETENTION_DAYS
+  ): Promise<SnapshotRetentionResult> {
+    const now = Date.now();
+    const { daysRolledUp, rawDeleted } = await this.rollupDailySnapshots(
+      new Date(now - rawDaysToKeep * DAY_MS)
+    );
+
+    const dailyResult = await prisma.activitySnapshotDaily.deleteMany({
+      where: { day: { lt: toUtcDay(new Date(now - dailyDaysToKeep * DAY_MS)) } }
     });
 
-    return result.count;
+    return { daysRolledUp, rawDeleted, dailyDeleted: dailyResult.count };
+  }
+
+  /**
+   * Get one point per day of spots available and price for an activity,
+   * plus a projection of when it will fill up.
+   * Returns null if the activity doesn't exist.
+   */
+  async getTimeSeries(activityId: string, days: number = 90): Promise<ActivityTimeSeries | null> {
+    const activity = await prisma.activity.findUnique({
+      where: { id: activityId },
+      select: { id: true, spotsAvailable: true, totalSpots: true, cost: true, isActive: true }
+    });
+
+    if (!activity) {
+      return null;
+    }
+
+    const now = new Date();
+    const from = toUtcDay(new Date(now.getTime() - days * DAY_MS));
+
+    const [dailyRows, rawSnapshots] = await Promise.all([
+      prisma.activitySnapshotDaily.findMany({
+        where: { activityId, day: { gte: from } },
+        orderBy: { day: 'asc' }
+      }),
+      prisma.activitySnapshot.findMany({
+        where: { activityId, capturedAt: { gte: from } },
+        select: { spotsAvailable: true, cost: true, capturedAt: true }
+      })
+    ]);
+
+    // Recent days come from raw snapshots; they win if a day somehow exists in both
+    const byDay = new Map<number, DailySnapshotPoint>();
+    for (const row of dailyRows) {
+      byDay.set(row.day.getTime(), row);
+    }
+    for (const point of rollupSnapshotsByDay(rawSnapshots)) {
+      byDay.set(point.day.getTime(), point);
+    }
+
+    // Make sure the series ends with the activity's current state
+    const today = toUtcDay(now);
+    if (activity.isActive && !byDay.has(today.getTime())) {
+      byDay.set(today.getTime(), {
+        day: today,
+        spotsMin: activity.spotsAvailable,
+        spotsMax: activity.spotsAvailable,
+        spotsClose: activity.spotsAvailable,
+        costMin: activity.cost,
+        costMax: activity.cost,
+        costClose: activity.cost,
+        sampleCount: 1
+      });
+    }
+
+    const points = Array.from(byDay.values()).sort((a, b) => a.day.getTime() - b.day.getTime());
+
+    return {
+      activityId,
+      days,
+      totalSpots: activity.totalSpots,
+      points: points.map(point => ({
+        date: point.day.toISOString().slice(0, 10),
+        spotsAvailable: point.spotsClose,
+        spotsMin: point.spotsMin,
+        spotsMax: point.spotsMax,
+        cost: point.costClose
+      })),
+      // Inactive activities can't fill up, so don't project
+      projection: projectFillRate(activity.isActive ? points : [], { now })
+    };
+  }
+
+  /**
+   * Project when an activity will fill up from the last two weeks of snapshots
+   */
+  async getFillProjection(activityId: string): Promise<FillRateProjection | null> {
+    const series = await this.getTimeSeries(activityId, 14);
+    return series ? series.projection : null;
   }
 }
 
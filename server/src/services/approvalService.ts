@@ -1,6 +1,8 @@
 import { ImportBatch, ImportApproval, ApprovalStatus, ImportStatus, Prisma } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
-import { importService } from './importService';
+import { ImportDiff, importService } from './importService';
+import { ImportDiffSummary } from '../utils/importDiff';
+import { webhookService } from './webhookService';
 
 // Approval queue item
 export interface ApprovalQueueItem {
@@ -10,15 +12,18 @@ export interface ApprovalQueueItem {
     name: string;
     code: string;
   };
+  // Null for batches pushed through the vendor API
   uploadedBy: {
     id: string;
     email: string;
     name: string;
-  };
+  } | null;
   submittedAt: Date;
   rowCount: number;
   validRows: number;
   invalidRows: number;
+  // Dry-run counts from validation; null for batches pushed through the API
+  diffSummary: ImportDiffSummary | null;
 }
 
 // Approval history item
@@ -162,10 +167,12 @@ export class ApprovalService {
     // Process the import
     await importService.processImportBatch(batchId);
 
-    // Return updated batch
-    return prisma.importBatch.findUniqueOrThrow({
+    const processed = await prisma.importBatch.findUniqueOrThrow({
       where: { id: batchId },
     });
+    await webhookService.notifyImportStatus(processed, 'import.approved');
+
+    return processed;
   }
 
   /**
@@ -212,10 +219,12 @@ export class ApprovalService {
     // Process the import
     await importService.processImportBatch(batchId);
 
-    // Return updated batch
-    return prisma.importBatch.findUniqueOrThrow({
+    const processed = await prisma.importBatch.findUniqueOrThrow({
       where: { id: batchId },
     });
+    await webhookService.notifyImportStatus(processed, 'import.approved', notes);
+
+    return processed;
   }
 
   /**
@@ -255,6 +264,7 @@ export class ApprovalService {
         rejectionReason: reason,
       },
     });
+    await webhookService.notifyImportStatus(updated, 'import.rejected', reason);
 
     return updated;
   }
@@ -297,6 +307,7 @@ export class ApprovalService {
         approvalStatus: 'CHANGES_REQUESTED',
       },
     });
+    await webhookService.notifyImportStatus(updated, 'import.changes_requested', feedback);
 
     return updated;
   }
@@ -366,6 +377,7 @@ export class ApprovalService {
       rowCount: batch.rows.length,
       validRows: batch.rows.filter(r => r.status === 'VALID').length,
       invalidRows: batch.rows.filter(r => r.status === 'INVALID').length,
+      diffSummary: batch.diffSummary as unknown as ImportDiffSummary | null,
     }));
 
     return {
@@ -466,6 +478,7 @@ export class ApprovalService {
       parsedData: any;
       validationErrors: any;
     }[];
+    diff: ImportDiff | null;
   }> {
     const batch = await prisma.importBatch.findUnique({
       where: { id: batchId },
@@ -491,6 +504,9 @@ export class ApprovalService {
       throw new Error('Import batch not found');
     }
 
+    // What approving would change, as of now
+    const diff = batch.validationCompletedAt ? await importService.getImportDiff(batchId) : null;
+
     return {
       batch: {
         ...batch,
@@ -498,6 +514,7 @@ export class ApprovalService {
         approvals: undefined,
         rows: undefined,
       } as unknown as ImportBatch,
+      diff,
       approvalHistory: batch.approvals,
       vendor: batch.vendor,
       rows: batch.rows.map(row => ({
@@ -0,0 +1,420 @@
+import { Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import {
+  AttendanceStatus,
+  AttendanceSummary,
+  attendedHours,
+  countsAsAttended,
+  sessionMinutes,
+  skillCategoryForActivity,
+  summarizeAttendance
+} from '../utils/attendance';
+import { ScheduleItem, expandOccurrences, startOfUtcDay, toDateKey } from '../utils/scheduleConflicts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far back the session list goes for programs without a start date */
+const SESSION_LOOKBACK_DAYS = 180;
+/** Upcoming sessions listed so cancellations can be marked ahead of time */
+const SESSION_LOOKAHEAD_DAYS = 14;
+
+const attendanceChildActivityInclude = {
+  child: { select: { id: true, name: true, userId: true } },
+  activity: {
+    include: {
+      activityType: { select: { code: true } },
+      sessions: { select: { id: true, date: true, startTime: true, endTime: true } }
+    }
+  }
+} as const;
+
+type AttendanceChildActivity = Prisma.ChildActivityGetPayload<{
+  include: typeof attendanceChildActivityInclude;
+}>;
+
+export interface RecordAttendanceInput {
+  status: AttendanceStatus;
+  notes?: string | null;
+  durationMinutes?: number;
+}
+
+export interface AttendanceSession {
+  date: string;
+  sessionId: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  attendance: {
+    id: string;
+    status: string;
+    notes: string | null;
+    durationMinutes: number | null;
+  } | null;
+}
+
+export interface AttendanceDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Service for per-session attendance on a child's registered activities.
+ * Attended and makeup sessions roll up into the child's skill hours.
+ */
+export class AttendanceService {
+  /**
+   * Attendance records and summary for a child, optionally for one activity
+   */
+  async getChildAttendance(
+    userId: string,
+    childId: string,
+    options: AttendanceDateRange & { activityId?: string } = {}
+  ) {
+    await this.assertChildOwner(userId, childId);
+
+    const records = await prisma.activityAttendance.findMany({
+      where: {
+        childId,
+        ...(options.activityId && { activityId: options.activityId }),
+        ...this.dateFilter(options)
+      },
+      include: { childActivity: { select: { activity: { select: { name: true } } } } },
+      orderBy: { date: 'desc' }
+    });
+
+    const byActivity = new Map<string, { activityId: string; activityName: string; records: typeof records }>();
+    for (const record of records) {
+      const entry = byActivity.get(record.activityId) || {
+        activityId: record.activityId,
+        activityName: record.childActivity.activity.name,
+        records: []
+      };
+      entry.records.push(record);
+      byActivity.set(record.activityId, entry);
+    }
+
+    return {
+      records: records.map(({ childActivity, ...record }) => ({
+        ...record,
+        date: toDateKey(record.date),
+        activityName: childActivity.activity.name
+      })),
+      summary: summarizeAttendance(records),
+      activities: [...byActivity.values()].map(entry => ({
+        activityId: entry.activityId,
+        activityName: entry.activityName,
+        summary: summarizeAttendance(entry.records)
+      }))
+    };
+  }
+
+  /**
+   * Attendance records for several of the user's children, for calendar check-ins
+   */
+  async getAttendanceForChildren(userId: string, childIds: string[], range: AttendanceDateRange = {}) {
+    const children = await prisma.child.findMany({
+      where: { id: { in: childIds }, userId },
+      select: { id: true }
+    });
+
+    const records = await prisma.activityAttendance.findMany({
+      where: {
+        childId: { in: children.map(child => child.id) },
+        ...this.dateFilter(range)
+      },
+      orderBy: { date: 'asc' }
+    });
+
+    return records.map(record => ({ ...record, date: toDateKey(record.date) }));
+  }
+
+  /**
+   * The activity's past and upcoming sessions for a child with any
+   * attendance marked, plus makeup sessions recorded on other dates
+   */
+  async getActivitySessions(
+    userId: string,
+    childId: string,
+    activityId: string,
+    now: Date = new Date()
+  ): Promise<{ sessions: AttendanceSession[]; summary: AttendanceSummary }> {
+    const childActivity = await this.getChildActivity(userId, childId, activityId);
+    const records = await prisma.activityAttendance.findMany({
+      where: { childActivityId: childActivity.id },
+      orderBy: { date: 'asc' }
+    });
+
+    const today = startOfUtcDay(now);
+    const until = new Date(today.getTime() + (SESSION_LOOKAHEAD_DAYS + 1) * DAY_MS);
+    const from = childActivity.activity.dateStart && childActivity.activity.dateStart < today
+      ? startOfUtcDay(childActivity.activity.dateStart)
+      : new Date(today.getTime() - SESSION_LOOKBACK_DAYS * DAY_MS);
+
+    const sessionsByDate = this.sessionsByDate(childActivity);
+    const recordsByDate = new Map(records.map(record => [toDateKey(record.date), record]));
+    const dates = new Set([
+      ...expandOccurrences(this.toScheduleItem(childActivity), from, until).map(o => o.date),
+      ...recordsByDate.keys()
+    ]);
+
+    const sessions = [...dates].sort().map(date => {
+      const session = sessionsByDate.get(date);
+      const record = recordsByDate.get(date);
+      return {
+        date,
+        sessionId: session?.id || null,
+        startTime: session?.startTime || childActivity.startTime || childActivity.activity.startTime,
+        endTime: session?.endTime || childActivity.endTime || childActivity.activity.endTime,
+        attendance: record
+          ? { id: record.id, status: record.status, notes: record.notes, durationMinutes: record.durationMinutes }
+          : null
+      };
+    });
+
+    return { sessions, summary: summarizeAttendance(records) };
+  }
+
+  /**
+   * Mark a session (by date, yyyy-MM-dd) and update the skill hours it counts toward
+   */
+  async recordAttendance(
+    userId: string,
+    childId: string,
+    activityId: string,
+    date: string,
+    input: RecordAttendanceInput
+  ) {
+    const childActivity = await this.getChildActivity(userId, childId, activityId);
+    const day = this.parseDay(date);
+    const session = this.sessionsByDate(childActivity).get(date);
+
+    const durationMinutes = input.durationMinutes ?? sessionMinutes(
+      session?.startTime || childActivity.startTime || childActivity.activity.startTime,
+      session?.endTime || childActivity.endTime || childActivity.activity.endTime
+    );
+
+    const where = { childActivityId_date: { childActivityId: childActivity.id, date: day } };
+    const existing = await prisma.activityAttendance.findUnique({ where });
+
+    const attendance = await prisma.activityAttendance.upsert({
+      where,
+      create: {
+        childActivityId: childActivity.id,
+        childId,
+        activityId,
+        sessionId: session?.id || null,
+        date: day,
+        status: input.status,
+        durationMinutes,
+        notes: input.notes || null,
+        recordedByUserId: userId
+      },
+      update: {
+        status: input.status,
+        durationMinutes,
+        notes: input.notes === undefined ? existing?.notes : input.notes,
+        recordedByUserId: userId
+      }
+    });
+
+    if (countsAsAttended(attendance.status)) {
+      await this.removeSkillEstimate(childActivity);
+    }
+
+    const skill = await this.applySkillHours(
+      childActivity,
+      attendedHours(attendance) - attendedHours(existing),
+      countsAsAttended(attendance.status) ? day : null
+    );
+
+    return {
+      attendance: { ...attendance, date: toDateKey(attendance.date) },
+      summary: await this.getActivitySummary(childActivity.id),
+      skill
+    };
+  }
+
+  /**
+   * Clear a session's attendance; returns false when nothing was recorded
+   */
+  async clearAttendance(userId: string, childId: string, activityId: string, date: string): Promise<boolean> {
+    const childActivity = await this.getChildActivity(userId, childId, activityId);
+    const where = { childActivityId_date: { childActivityId: childActivity.id, date: this.parseDay(date) } };
+
+    const existing = await prisma.activityAttendance.findUnique({ where });
+    if (!existing) return false;
+
+    await prisma.activityAttendance.delete({ where });
+    await this.applySkillHours(childActivity, -attendedHours(existing), null);
+    return true;
+  }
+
+  /**
+   * Whether any attended hours for the activity are already in the child's skill progress
+   */
+  async hasAttendedSessions(childId: string, activityId: string): Promise<boolean> {
+    const count = await prisma.activityAttendance.count({
+      where: { childId, activityId, status: { in: ['attended', 'makeup'] } }
+    });
+    return count > 0;
+  }
+
+  private async getActivitySummary(childActivityId: string): Promise<AttendanceSummary> {
+    const records = await prisma.activityAttendance.findMany({
+      where: { childActivityId },
+      select: { date: true, status: true, durationMinutes: true }
+    });
+    return summarizeAttendance(records);
+  }
+
+  private async applySkillHours(childActivity: AttendanceChildActivity, hours: number, attendedOn: Date | null) {
+    if (hours === 0 && !attendedOn) return null;
+
+    const skillCategory = skillCategoryForActivity({
+      activityTypeCode: childActivity.activity.activityType?.code,
+      category: childActivity.activity.category
+    });
+    const key = { childId_skillCategory: { childId: childActivity.childId, skillCategory } };
+    const existing = await prisma.childSkillProgress.findUnique({ where: key });
+
+    const lastActivity = attendedOn && (!existing?.lastActivityDate || existing.lastActivityDate <= attendedOn)
+      ? { lastActivityDate: attendedOn, lastActivityName: childActivity.activity.name }
+      : {};
+
+    if (existing) {
+      return this.incrementSkillHours(existing.id, hours, lastActivity);
+    }
+
+    if (hours <= 0) return null;
+
+    return prisma.childSkillProgress.upsert({
+      where: key,
+      create: {
+        childId: childActivity.childId,
+        skillCategory,
+        totalHours: hours,
+        achievements: ['Started learning!'],
+        ...lastActivity
+      },
+      update: {
+        totalHours: { increment: hours },
+        ...lastActivity
+      }
+    });
+  }
+
+  /**
+   * Add (or, with negative hours, take off) skill hours in a single update so
+   * concurrent sessions don't overwrite each other. Totals never go below zero.
+   */
+  private async incrementSkillHours(id: string, hours: number, data: Prisma.ChildSkillProgressUpdateInput = {}) {
+    const progress = await prisma.childSkillProgress.update({
+      where: { id },
+      data: { totalHours: { increment: hours }, ...data }
+    });
+    if (progress.totalHours >= 0) return progress;
+
+    await prisma.childSkillProgress.updateMany({
+      where: { id, totalHours: { lt: 0 } },
+      data: { totalHours: 0 }
+    });
+    return { ...progress, totalHours: 0 };
+  }
+
+  /**
+   * Take back the hours log-completion estimated for the activity before
+   * attendance was tracked, so the recorded sessions aren't counted twice.
+   * The estimate is cleared first so only one request removes it.
+   */
+  private async removeSkillEstimate(childActivity: AttendanceChildActivity): Promise<void> {
+    const { estimatedHours, estimateCategory } = childActivity;
+    if (estimatedHours <= 0 || !estimateCategory) return;
+
+    const cleared = await prisma.childActivity.updateMany({
+      where: { id: childActivity.id, estimatedHours },
+      data: { estimatedHours: 0, estimateCategory: null }
+    });
+    if (cleared.count === 0) return;
+
+    const progress = await prisma.childSkillProgress.findUnique({
+      where: { childId_skillCategory: { childId: childActivity.childId, skillCategory: estimateCategory } }
+    });
+    if (progress) {
+      await this.incrementSkillHours(progress.id, -estimatedHours);
+    }
+  }
+
+  private async assertChildOwner(userId: string, childId: string): Promise<void> {
+    const child = await prisma.child.findFirst({ where: { id: childId, userId }, select: { id: true } });
+    if (!child) {
+      throw new Error('Child not found');
+    }
+  }
+
+  private async getChildActivity(userId: string, childId: string, activityId: string): Promise<AttendanceChildActivity> {
+    await this.assertChildOwner(userId, childId);
+
+    const childActivity = await prisma.childActivity.findUnique({
+      where: { childId_activityId: { childId, activityId } },
+      include: attendanceChildActivityInclude
+    });
+
+    if (!childActivity) {
+      throw new Error('Activity is not on this child\'s schedule');
+    }
+    return childActivity;
+  }
+
+  private sessionsByDate(childActivity: AttendanceChildActivity) {
+    const sessions = new Map<string, AttendanceChildActivity['activity']['sessions'][number]>();
+    for (const session of childActivity.activity.sessions) {
+      const date = session.date ? new Date(session.date) : null;
+      if (date && !isNaN(date.getTime())) {
+        sessions.set(toDateKey(startOfUtcDay(date)), session);
+      }
+    }
+    return sessions;
+  }
+
+  private toScheduleItem(childActivity: AttendanceChildActivity): ScheduleItem {
+    const { activity } = childActivity;
+
+    return {
+      id: childActivity.id,
+      childId: childActivity.childId,
+      childName: childActivity.child.name,
+      activityId: activity.id,
+      activityName: activity.name,
+      locationName: activity.locationName,
+      latitude: null,
+      longitude: null,
+      dateStart: activity.dateStart,
+      dateEnd: activity.dateEnd,
+      dayOfWeek: activity.dayOfWeek || [],
+      // Occurrences without a time still need a session to check in to
+      startTime: childActivity.startTime || activity.startTime || '12:00 am',
+      endTime: childActivity.endTime || activity.endTime,
+      scheduledDate: childActivity.scheduledDate,
+      sessions: activity.sessions
+    };
+  }
+
+  private parseDay(date: string): Date {
+    const day = new Date(`${date}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(day.getTime())) {
+      throw new Error('Date must be in yyyy-MM-dd format');
+    }
+    return day;
+  }
+
+  private dateFilter(range: AttendanceDateRange) {
+    if (!range.from && !range.to) return {};
+    return {
+      date: {
+        ...(range.from && { gte: startOfUtcDay(range.from) }),
+        ...(range.to && { lte: startOfUtcDay(range.to) })
+      }
+    };
+  }
+}
+
+export const attendanceService = new AttendanceService();
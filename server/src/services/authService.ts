@@ -4,6 +4,7 @@ import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { emailService } from '../utils/emailService';
 import { tokenUtils } from '../utils/tokenUtils';
+import { twoFactorService } from './twoFactorService';
 
 // Validate JWT secrets - fail fast in production
 const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET;
@@ -35,6 +36,18 @@ interface RegisterData {
 interface LoginData {
   email: string;
   password: string;
+  // Token from an earlier "remember this device", skips the 2FA code
+  trustedDeviceToken?: string;
+}
+
+interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+}
+
+interface CompleteTwoFactorOptions {
+  rememberDevice?: boolean;
+  deviceName?: string;
 }
 
 interface TokenPayload {
@@ -58,6 +71,7 @@ interface ResetPasswordData {
 export class AuthService {
   private readonly SALT_ROUNDS = 12;
   private readonly ACCESS_TOKEN_EXPIRY = '15m';
+  private readonly TWO_FACTOR_CHALLENGE_EXPIRY = '5m';
   private readonly REFRESH_TOKEN_EXPIRY = '7d';
   private readonly RESET_TOKEN_EXPIRY_HOURS = 2;
   private readonly VERIFICATION_TOKEN_EXPIRY_HOURS = 24;
@@ -117,8 +131,8 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(data: LoginData): Promise<{ user: any; tokens: AuthTokens }> {
-    const { email, password } = data;
+  async login(data: LoginData): Promise<{ user: any; tokens: AuthTokens } | TwoFactorChallenge> {
+    const { email, password, trustedDeviceToken } = data;
 
     // Find user
     const user = await prisma.user.findUnique({
@@ -149,6 +163,22 @@ export class AuthService {
       throw new Error('Please verify your email before logging in');
     }
 
+    // Ask for the authenticator code unless this device was remembered
+    if (await twoFactorService.isEnabled({ userId: user.id })) {
+      const trusted = trustedDeviceToken
+        ? await twoFactorService.isTrustedDevice(user.id, trustedDeviceToken)
+        : false;
+
+      if (!trusted) {
+        const challengeToken = jwt.sign(
+          { userId: user.id, type: 'two_factor_challenge' },
+          getAccessSecret(),
+          { expiresIn: this.TWO_FACTOR_CHALLENGE_EXPIRY }
+        );
+        return { requiresTwoFactor: true, challengeToken };
+      }
+    }
+
     // Generate tokens
     const tokens = this.generateTokens(user.id, user.email);
 
@@ -158,6 +188,53 @@ export class AuthService {
     return { user: userWithoutPassword, tokens };
   }
 
+  /**
+   * Finish a login that needed a 2FA code
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    options: CompleteTwoFactorOptions = {}
+  ): Promise<{ user: any; tokens: AuthTokens; trustedDeviceToken?: string }> {
+    let userId: string;
+    try {
+      const decoded = jwt.verify(challengeToken, getAccessSecret()) as { userId: string; type: string };
+      if (decoded.type !== 'two_factor_challenge') {
+        throw new Error('Invalid token type');
+      }
+      userId = decoded.userId;
+    } catch (error) {
+      throw new Error('Your sign-in expired. Please log in again.');
+    }
+
+    if (!(await twoFactorService.verifyCode({ userId }, code))) {
+      throw new Error('Invalid authentication code');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        isVerified: true,
+        phoneNumber: true,
+        createdAt: true
+      }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const tokens = this.generateTokens(user.id, user.email);
+    const trustedDeviceToken = options.rememberDevice
+      ? await twoFactorService.trustDevice(user.id, options.deviceName)
+      : undefined;
+
+    return { user, tokens, trustedDeviceToken };
+  }
+
   /**
    * Refresh access token
    */
@@ -0,0 +1,342 @@
+import { CalendarFeed, Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { childrenService } from './childrenService';
+import { tokenUtils } from '../utils/tokenUtils';
+import { parseDateSafely } from '../utils/dateUtils';
+import {
+  IcsEvent,
+  buildCalendar,
+  buildWeeklyRRule,
+  firstOccurrenceOnOrAfter,
+  parseClockTime,
+  toRRuleDays,
+  toWallClock,
+} from '../utils/icsBuilder';
+
+// Activities that ended longer ago than this are left out of feeds
+const FEED_HISTORY_DAYS = 180;
+const FEED_TIMEZONE = process.env.CALENDAR_FEED_TIMEZONE || 'America/Vancouver';
+const UID_DOMAIN = 'kidsactivitytracker.com';
+
+const feedChildActivityInclude = {
+  child: true,
+  activity: {
+    include: {
+      location: true,
+      provider: true,
+      sessions: true
+    }
+  }
+} as const;
+
+export type FeedChildActivity = Prisma.ChildActivityGetPayload<{
+  include: typeof feedChildActivityInclude;
+}>;
+
+export interface CalendarFeedInfo {
+  id: string;
+  childId: string | null;
+  childName: string | null;
+  name: string | null;
+  token: string;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+}
+
+export class CalendarFeedService {
+  /**
+   * List active (non-revoked) feeds for a user
+   */
+  async listFeeds(userId: string): Promise<CalendarFeedInfo[]> {
+    const feeds = await prisma.calendarFeed.findMany({
+      where: { userId, revokedAt: null },
+      include: { child: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return feeds.map(feed => this.toFeedInfo(feed, feed.child?.name ?? null));
+  }
+
+  /**
+   * Get the active feed for a scope, creating one if needed.
+   * Omit childId for a family-wide feed covering all children.
+   */
+  async getOrCreateFeed(userId: string, childId?: string, name?: string): Promise<CalendarFeedInfo> {
+    let childName: string | null = null;
+
+    if (childId) {
+      const child = await childrenService.getChildById(childId, userId);
+      if (!child) {
+        throw new Error('Unauthorized: You do not own this child profile');
+      }
+      childName = child.name;
+    }
+
+    const existing = await prisma.calendarFeed.findFirst({
+      where: { userId, childId: childId ?? null, revokedAt: null }
+    });
+
+    if (existing) {
+      return this.toFeedInfo(existing, childName);
+    }
+
+    const feed = await prisma.calendarFeed.create({
+      data: {
+        userId,
+        childId: childId ?? null,
+        name: name || null,
+        token: tokenUtils.generateRandomToken(24)
+      }
+    });
+
+    return this.toFeedInfo(feed, childName);
+  }
+
+  /**
+   * Replace a feed's token. Calendars subscribed to the old URL stop syncing.
+   */
+  async rotateFeed(userId: string, feedId: string): Promise<CalendarFeedInfo> {
+    const feed = await this.getOwnedFeed(userId, feedId);
+
+    const updated = await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { token: tokenUtils.generateRandomToken(24), lastAccessedAt: null },
+      include: { child: { select: { name: true } } }
+    });
+
+    return this.toFeedInfo(updated, updated.child?.name ?? null);
+  }
+
+  /**
+   * Revoke a feed so its URL no longer returns events
+   */
+  async revokeFeed(userId: string, feedId: string): Promise<void> {
+    const feed = await this.getOwnedFeed(userId, feedId);
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  /**
+   * Render the iCalendar document for a feed token.
+   * Returns null when the token is unknown or revoked.
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token },
+      include: { child: true }
+    });
+
+    if (!feed || feed.revokedAt) {
+      return null;
+    }
+
+    // A per-child feed for a deleted child stops returning events
+    if (feed.child && !feed.child.isActive) {
+      return null;
+    }
+
+    // Don't block the response on bookkeeping
+    prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() }
+    }).catch(err => console.warn('[CalendarFeed] Failed to record access:', err.message));
+
+    const cutoff = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    const childActivities = await prisma.childActivity.findMany({
+      where: {
+        child: {
+          userId: feed.userId,
+          isActive: true,
+          ...(feed.childId && { id: feed.childId })
+        },
+        status: { in: ['planned', 'in_progress', 'completed'] },
+        OR: [
+          { scheduledDate: { gte: cutoff } },
+          { activity: { dateEnd: { gte: cutoff } } },
+          { activity: { dateEnd: null, dateStart: { gte: cutoff } } }
+        ]
+      },
+      include: feedChildActivityInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const name = feed.name
+      || (feed.child ? `${feed.child.name}'s Activities` : 'Family Activities');
+
+    return buildCalendar({
+      name,
+      description: 'Kids Activity Tracker schedule',
+      timezone: FEED_TIMEZONE,
+      events: this.buildEvents(childActivities)
+    });
+  }
+
+  /**
+   * Expand child activities into calendar events.
+   *
+   * Precedence: explicit session dates, then the child's scheduled date,
+   * then a weekly RRULE from the activity's dayOfWeek and date range,
+   * then a single event on the activity's start date.
+   */
+  buildEvents(childActivities: FeedChildActivity[]): IcsEvent[] {
+    const events: IcsEvent[] = [];
+
+    for (const item of childActivities) {
+      const { activity, child } = item;
+      const base = {
+        summary: `${activity.name} (${child.name})`,
+        description: this.buildDescription(item),
+        location: this.buildLocation(item),
+        url: activity.directRegistrationUrl || activity.registrationUrl || activity.detailUrl || undefined,
+        status: (item.status === 'planned' ? 'TENTATIVE' : 'CONFIRMED') as IcsEvent['status'],
+        categories: [activity.category].filter(Boolean),
+        lastModified: item.updatedAt > activity.updatedAt ? item.updatedAt : activity.updatedAt
+      };
+
+      const defaultStart = parseClockTime(item.startTime || activity.startTime);
+      const defaultEnd = parseClockTime(item.endTime || activity.endTime);
+
+      const datedSessions = activity.sessions
+        .map(session => ({ session, date: session.date ? parseDateSafely(session.date) : null }))
+        .filter((entry): entry is { session: typeof entry.session; date: Date } => entry.date !== null);
+
+      if (datedSessions.length > 0) {
+        for (const { session, date } of datedSessions) {
+          const start = parseClockTime(session.startTime) || defaultStart;
+          const end = parseClockTime(session.endTime) || defaultEnd;
+          events.push({
+            ...base,
+            uid: `${item.id}-${session.id}@${UID_DOMAIN}`,
+            ...this.buildTiming(date, start, end),
+            location: session.location || base.location
+          });
+        }
+        continue;
+      }
+
+      if (item.scheduledDate) {
+        events.push({
+          ...base,
+          uid: `${item.id}@${UID_DOMAIN}`,
+          ...this.buildTiming(item.scheduledDate, defaultStart, defaultEnd)
+        });
+        continue;
+      }
+
+      const rruleDays = toRRuleDays(activity.dayOfWeek || []);
+      if (
+        rruleDays.length > 0 &&
+        activity.dateStart &&
+        activity.dateEnd &&
+        activity.dateEnd > activity.dateStart
+      ) {
+        const first = firstOccurrenceOnOrAfter(activity.dateStart, rruleDays);
+        if (first && first <= toWallClock(activity.dateEnd)) {
+          const timing = this.buildTiming(first, defaultStart, defaultEnd);
+          events.push({
+            ...base,
+            uid: `${item.id}@${UID_DOMAIN}`,
+            ...timing,
+            rrule: buildWeeklyRRule(rruleDays, activity.dateEnd, timing.allDay)
+          });
+          continue;
+        }
+      }
+
+      if (activity.dateStart) {
+        const timing = this.buildTiming(activity.dateStart, defaultStart, defaultEnd);
+
+        // Untimed multi-day programs (camps) become one all-day span
+        if (timing.allDay && activity.dateEnd && activity.dateEnd > activity.dateStart) {
+          const end = toWallClock(activity.dateEnd);
+          end.setUTCDate(end.getUTCDate() + 1);
+          timing.end = end;
+        }
+
+        events.push({
+          ...base,
+          uid: `${item.id}@${UID_DOMAIN}`,
+          ...timing
+        });
+      }
+    }
+
+    return events;
+  }
+
+  private buildTiming(
+    date: Date,
+    start: ReturnType<typeof parseClockTime>,
+    end: ReturnType<typeof parseClockTime>
+  ): { start: Date; end: Date; allDay: boolean } {
+    if (!start) {
+      const day = toWallClock(date);
+      const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+      return { start: day, end: nextDay, allDay: true };
+    }
+
+    const startAt = toWallClock(date, start);
+    let endAt = end ? toWallClock(date, end) : null;
+    if (!endAt || endAt <= startAt) {
+      endAt = new Date(startAt.getTime() + 60 * 60 * 1000);
+    }
+
+    return { start: startAt, end: endAt, allDay: false };
+  }
+
+  private buildLocation(item: FeedChildActivity): string | undefined {
+    const { activity } = item;
+    const location = activity.location;
+
+    if (location) {
+      const address = location.fullAddress || [location.address, location.city].filter(Boolean).join(', ');
+      return [location.name, address].filter(Boolean).join(', ');
+    }
+
+    return activity.fullAddress || activity.locationName || undefined;
+  }
+
+  private buildDescription(item: FeedChildActivity): string {
+    const { activity } = item;
+    const lines = [
+      activity.provider?.name && `Provider: ${activity.provider.name}`,
+      activity.facility && `Facility: ${activity.facility}`,
+      activity.instructor && `Instructor: ${activity.instructor}`,
+      item.notes && `Notes: ${item.notes}`,
+      (activity.directRegistrationUrl || activity.registrationUrl) &&
+        `Registration: ${activity.directRegistrationUrl || activity.registrationUrl}`
+    ];
+
+    return lines.filter(Boolean).join('\n');
+  }
+
+  private async getOwnedFeed(userId: string, feedId: string): Promise<CalendarFeed> {
+    const feed = await prisma.calendarFeed.findFirst({
+      where: { id: feedId, userId, revokedAt: null }
+    });
+
+    if (!feed) {
+      throw new Error('Calendar feed not found');
+    }
+
+    return feed;
+  }
+
+  private toFeedInfo(feed: CalendarFeed, childName: string | null): CalendarFeedInfo {
+    return {
+      id: feed.id,
+      childId: feed.childId,
+      childName,
+      name: feed.name,
+      token: feed.token,
+      lastAccessedAt: feed.lastAccessedAt,
+      createdAt: feed.createdAt
+    };
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,512 @@
+import { Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { pushNotificationService } from './pushNotificationService';
+import { scheduleConflictService } from './scheduleConflictService';
+import { toDateKey } from '../utils/scheduleConflicts';
+import {
+  CarpoolMatch,
+  findCarpoolMatches,
+  getWeekStart,
+  isRideDay,
+  listRotationWeeks,
+  planRotation
+} from '../utils/carpoolPlanning';
+
+// Upcoming weeks returned with each carpool
+const UPCOMING_WEEKS = 4;
+
+const carpoolInclude = {
+  activity: {
+    select: { id: true, name: true, locationName: true, startTime: true, endTime: true, dateEnd: true }
+  },
+  members: {
+    include: { user: { select: { id: true, name: true } } },
+    orderBy: { rotationOrder: 'asc' }
+  },
+  assignments: {
+    include: { driver: { select: { id: true, name: true } } },
+    orderBy: { weekStart: 'asc' }
+  }
+} as const;
+
+type CarpoolWithDetails = Prisma.CarpoolGroupGetPayload<{ include: typeof carpoolInclude }>;
+
+export interface ProposeCarpoolData {
+  activityId: string;
+  name?: string;
+  memberUserIds: string[];
+  childIds: string[];
+  daysOfWeek: string[];
+  pickupTime?: string;
+  notes?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface CarpoolSuggestion extends CarpoolMatch {
+  familyName: string;
+}
+
+export interface CarpoolMemberSummary {
+  userId: string;
+  name: string;
+  status: string;
+  rotationOrder: number;
+  children: { id: string; name: string }[];
+}
+
+export interface CarpoolWeek {
+  weekStart: Date;
+  driverUserId: string;
+  driverName: string;
+}
+
+export interface CarpoolSummary {
+  id: string;
+  name: string;
+  status: string;
+  activity: { id: string; name: string; locationName: string | null; startTime: string | null; endTime: string | null };
+  daysOfWeek: string[];
+  pickupTime: string | null;
+  notes: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  isOrganizer: boolean;
+  myStatus: string;
+  members: CarpoolMemberSummary[];
+  upcoming: CarpoolWeek[];
+}
+
+export interface CarpoolReminderResult {
+  groupsChecked: number;
+  remindersSent: number;
+}
+
+/**
+ * Service for carpools between connected families: suggestions from shared
+ * schedules, proposals, accept/decline, weekly driver rotation and
+ * day-before reminders
+ */
+export class CarpoolService {
+  /**
+   * Users connected to this user by an active share in either direction
+   */
+  private async getConnectedUserIds(userId: string): Promise<Set<string>> {
+    const shares = await prisma.activityShare.findMany({
+      where: {
+        isActive: true,
+        OR: [{ sharingUserId: userId }, { sharedWithUserId: userId }],
+        AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }]
+      },
+      select: { sharingUserId: true, sharedWithUserId: true }
+    });
+
+    return new Set(shares.map(share =>
+      share.sharingUserId === userId ? share.sharedWithUserId : share.sharingUserId
+    ));
+  }
+
+  /**
+   * Carpool opportunities with connected families, skipping activities the
+   * user already carpools for with that family
+   */
+  async getSuggestions(userId: string): Promise<CarpoolSuggestion[]> {
+    const schedule = await scheduleConflictService.getFamilySchedule(userId);
+    const matches = findCarpoolMatches(schedule, userId);
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const [existing, families] = await Promise.all([
+      prisma.carpoolGroup.findMany({
+        where: {
+          status: { not: 'cancelled' },
+          activityId: { in: matches.map(m => m.activityId) },
+          members: { some: { userId, status: { not: 'declined' } } }
+        },
+        include: { members: { select: { userId: true, status: true } } }
+      }),
+      prisma.user.findMany({
+        where: { id: { in: matches.map(m => m.familyUserId) } },
+        select: { id: true, name: true }
+      })
+    ]);
+
+    const familyNames = new Map(families.map(f => [f.id, f.name]));
+
+    return matches
+      .filter(match => !existing.some(group =>
+        group.activityId === match.activityId &&
+        group.members.some(m => m.userId === match.familyUserId && m.status !== 'declined')
+      ))
+      .map(match => ({ ...match, familyName: familyNames.get(match.familyUserId) || 'Connected family' }));
+  }
+
+  /**
+   * List the user's carpools (any that haven't been cancelled or declined)
+   */
+  async listCarpools(userId: string): Promise<CarpoolSummary[]> {
+    const groups = await prisma.carpoolGroup.findMany({
+      where: {
+        status: { not: 'cancelled' },
+        members: { some: { userId, status: { not: 'declined' } } }
+      },
+      include: carpoolInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return this.toSummaries(userId, groups);
+  }
+
+  /**
+   * Get one carpool the user belongs to
+   */
+  async getCarpool(userId: string, groupId: string): Promise<CarpoolSummary | null> {
+    const group = await prisma.carpoolGroup.findFirst({
+      where: { id: groupId, members: { some: { userId } } },
+      include: carpoolInclude
+    });
+
+    if (!group) {
+      return null;
+    }
+
+    const [summary] = await this.toSummaries(userId, [group]);
+    return summary;
+  }
+
+  /**
+   * Propose a driving rotation. The proposer is the first driver and is
+   * accepted; invited families are asked to accept in the order given.
+   */
+  async proposeCarpool(userId: string, data: ProposeCarpoolData): Promise<CarpoolSummary> {
+    const invitees = [...new Set(data.memberUserIds)].filter(id => id !== userId);
+    if (invitees.length === 0) {
+      throw new Error('Invite at least one other family');
+    }
+
+    const connected = await this.getConnectedUserIds(userId);
+    if (invitees.some(id => !connected.has(id))) {
+      throw new Error('You can only carpool with families you share activities with');
+    }
+
+    const [activity, children] = await Promise.all([
+      prisma.activity.findUnique({ where: { id: data.activityId } }),
+      prisma.child.findMany({
+        where: { id: { in: data.childIds }, userId, isActive: true },
+        select: { id: true }
+      })
+    ]);
+
+    if (!activity) {
+      throw new Error('Activity not found');
+    }
+    if (children.length === 0 || children.length !== new Set(data.childIds).size) {
+      throw new Error('One or more children not found');
+    }
+
+    const daysOfWeek = data.daysOfWeek.length > 0 ? data.daysOfWeek : activity.dayOfWeek;
+    if (daysOfWeek.length === 0) {
+      throw new Error('Choose at least one ride day');
+    }
+
+    const now = new Date();
+    const group = await prisma.carpoolGroup.create({
+      data: {
+        activityId: activity.id,
+        createdByUserId: userId,
+        name: data.name?.trim() || `${activity.name} carpool`,
+        daysOfWeek,
+        pickupTime: data.pickupTime || null,
+        notes: data.notes || null,
+        startDate: data.startDate || (activity.dateStart && activity.dateStart > now ? activity.dateStart : now),
+        endDate: data.endDate || activity.dateEnd,
+        members: {
+          create: [
+            { userId, childIds: children.map(c => c.id), status: 'accepted', rotationOrder: 0, respondedAt: now },
+            ...invitees.map((inviteeId, index) => ({
+              userId: inviteeId,
+              childIds: [],
+              status: 'pending',
+              rotationOrder: index + 1
+            }))
+          ]
+        }
+      },
+      include: { createdBy: { select: { name: true } } }
+    });
+
+    for (const inviteeId of invitees) {
+      pushNotificationService
+        .sendCarpoolInviteNotification(inviteeId, group.createdBy.name, group.id, activity.name)
+        .catch(err => console.error('[Carpool] Failed to send invite notification:', err));
+    }
+
+    return (await this.getCarpool(userId, group.id))!;
+  }
+
+  /**
+   * Accept or decline a carpool. Accepting families add the children riding
+   * with them (default: their children linked to the activity). The rotation is rebuilt whenever the accepted families change.
+   */
+  async respond(userId: string, groupId: string, accept: boolean, childIds: string[] = []): Promise<CarpoolSummary | null> {
+    const member = await prisma.carpoolMember.findFirst({
+      where: { groupId, userId, group: { status: { not: 'cancelled' } } },
+      include: { group: { select: { createdByUserId: true, name: true, activityId: true } } }
+    });
+
+    if (!member) {
+      return null;
+    }
+
+    let riders: string[] = [];
+    if (accept) {
+      // Without an explicit choice, the children linked to the activity ride
+      const children = await prisma.child.findMany({
+        where: childIds.length > 0
+          ? { id: { in: childIds }, userId, isActive: true }
+          : { userId, isActive: true, childActivities: { some: { activityId: member.group.activityId } } },
+        select: { id: true }
+      });
+      if (children.length === 0) {
+        throw new Error('Choose at least one child for this carpool');
+      }
+      riders = children.map(c => c.id);
+    }
+
+    await prisma.carpoolMember.update({
+      where: { id: member.id },
+      data: { status: accept ? 'accepted' : 'declined', childIds: riders, respondedAt: new Date() }
+    });
+
+    await this.rebuildRotation(groupId);
+
+    if (member.group.createdByUserId !== userId) {
+      const responder = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+      pushNotificationService
+        .sendCarpoolResponseNotification(member.group.createdByUserId, responder?.name || 'A family', member.group.name, groupId, accept)
+        .catch(err => console.error('[Carpool] Failed to send response notification:', err));
+    }
+
+    return this.getCarpool(userId, groupId);
+  }
+
+  /**
+   * Swap the driver for one week. Any accepted family can do this, and the
+   * new driver must also be an accepted family.
+   */
+  async setDriver(userId: string, groupId: string, weekStart: Date, driverUserId: string): Promise<CarpoolSummary | null> {
+    const group = await prisma.carpoolGroup.findFirst({
+      where: { id: groupId, status: 'active', members: { some: { userId, status: 'accepted' } } },
+      include: { members: true }
+    });
+
+    if (!group) {
+      return null;
+    }
+
+    if (!group.members.some(m => m.userId === driverUserId && m.status === 'accepted')) {
+      throw new Error('Driver must be a family that has accepted this carpool');
+    }
+
+    const week = getWeekStart(weekStart);
+    await prisma.carpoolAssignment.upsert({
+      where: { groupId_weekStart: { groupId, weekStart: week } },
+      create: { groupId, weekStart: week, driverUserId },
+      update: { driverUserId, lastReminderDate: null }
+    });
+
+    return this.getCarpool(userId, groupId);
+  }
+
+  /**
+   * The organizer cancels the carpool; anyone else leaves it
+   */
+  async leaveOrCancel(userId: string, groupId: string): Promise<boolean> {
+    const group = await prisma.carpoolGroup.findFirst({
+      where: { id: groupId, status: { not: 'cancelled' }, members: { some: { userId } } }
+    });
+
+    if (!group) {
+      return false;
+    }
+
+    if (group.createdByUserId === userId) {
+      await prisma.$transaction([
+        prisma.carpoolGroup.update({ where: { id: groupId }, data: { status: 'cancelled' } }),
+        prisma.carpoolAssignment.deleteMany({ where: { groupId, weekStart: { gte: getWeekStart(new Date()) } } })
+      ]);
+      return true;
+    }
+
+    await prisma.carpoolMember.update({
+      where: { groupId_userId: { groupId, userId } },
+      data: { status: 'declined', childIds: [], respondedAt: new Date() }
+    });
+    await this.rebuildRotation(groupId);
+    return true;
+  }
+
+  /**
+   * Re-plan weeks from the current week on. A carpool is active while at
+   * least two families have accepted; otherwise it goes back to proposed.
+   */
+  private async rebuildRotation(groupId: string): Promise<void> {
+    const group = await prisma.carpoolGroup.findUnique({
+      where: { id: groupId },
+      include: { members: { where: { status: 'accepted' }, orderBy: { rotationOrder: 'asc' } } }
+    });
+    if (!group) return;
+
+    const currentWeek = getWeekStart(new Date());
+    const isActive = group.members.length >= 2;
+
+    await prisma.$transaction([
+      prisma.carpoolGroup.update({ where: { id: groupId }, data: { status: isActive ? 'active' : 'proposed' } }),
+      prisma.carpoolAssignment.deleteMany({ where: { groupId, weekStart: { gte: currentWeek } } })
+    ]);
+
+    if (isActive) {
+      await this.extendRotation(groupId);
+    }
+  }
+
+  /**
+   * Fill in driver assignments up to ROTATION_WEEKS_AHEAD, continuing the
+   * rotation after the last assigned week
+   */
+  private async extendRotation(groupId: string): Promise<number> {
+    const group = await prisma.carpoolGroup.findUnique({
+      where: { id: groupId },
+      include: {
+        members: { where: { status: 'accepted' }, orderBy: { rotationOrder: 'asc' } },
+        assignments: { orderBy: { weekStart: 'desc' }, take: 1 }
+      }
+    });
+    if (!group || group.status !== 'active' || group.members.length < 2) return 0;
+
+    const [lastAssignment] = group.assignments;
+    const from = lastAssignment
+      ? new Date(lastAssignment.weekStart.getTime() + 7 * 24 * 60 * 60 * 1000)
+      : group.startDate;
+    const weeks = listRotationWeeks(from, group.endDate);
+
+    const rotation = planRotation(
+      group.members.map(m => m.userId),
+      weeks,
+      lastAssignment?.driverUserId ?? null
+    );
+    if (rotation.length === 0) return 0;
+
+    const result = await prisma.carpoolAssignment.createMany({
+      data: rotation.map(week => ({ groupId, weekStart: week.weekStart, driverUserId: week.driverUserId })),
+      skipDuplicates: true
+    });
+    return result.count;
+  }
+
+  /**
+   * Remind the driver (and let the other families know) the day before
+   * each ride. Also keeps every active rotation planned ahead.
+   */
+  async sendDayBeforeReminders(now: Date = new Date()): Promise<CarpoolReminderResult> {
+    const result: CarpoolReminderResult = { groupsChecked: 0, remindersSent: 0 };
+    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    const rideDate = toDateKey(tomorrow);
+
+    const groups = await prisma.carpoolGroup.findMany({
+      where: { status: 'active' },
+      include: {
+        activity: { select: { name: true } },
+        members: { where: { status: 'accepted' }, include: { user: { select: { id: true, name: true } } } }
+      }
+    });
+
+    for (const group of groups) {
+      result.groupsChecked++;
+      try {
+        await this.extendRotation(group.id);
+        if (!isRideDay(group, tomorrow)) continue;
+
+        const assignment = await prisma.carpoolAssignment.findUnique({
+          where: { groupId_weekStart: { groupId: group.id, weekStart: getWeekStart(tomorrow) } },
+          include: { driver: { select: { id: true, name: true } } }
+        });
+        if (!assignment || assignment.lastReminderDate === rideDate) continue;
+
+        // Claim the reminder before sending, so overlapping runs on other
+        // instances don't send it twice
+        const claimed = await prisma.carpoolAssignment.updateMany({
+          where: { id: assignment.id, lastReminderDate: assignment.lastReminderDate },
+          data: { lastReminderDate: rideDate }
+        });
+        if (claimed.count === 0) continue;
+
+        const riderIds = group.members.flatMap(m => m.childIds);
+        const riders = await prisma.child.findMany({ where: { id: { in: riderIds } }, select: { name: true } });
+
+        await pushNotificationService.sendCarpoolReminderNotification(
+          assignment.driverUserId,
+          group.members.filter(m => m.userId !== assignment.driverUserId).map(m => m.userId),
+          {
+            groupId: group.id,
+            carpoolName: group.name,
+            activityName: group.activity.name,
+            driverName: assignment.driver.name,
+            pickupTime: group.pickupTime,
+            childNames: riders.map(r => r.name)
+          }
+        );
+        result.remindersSent++;
+      } catch (error) {
+        console.error(`[Carpool] Failed to process reminders for carpool ${group.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async toSummaries(userId: string, groups: CarpoolWithDetails[]): Promise<CarpoolSummary[]> {
+    const childIds = groups.flatMap(g => g.members.flatMap(m => m.childIds));
+    const children = childIds.length > 0
+      ? await prisma.child.findMany({ where: { id: { in: childIds } }, select: { id: true, name: true } })
+      : [];
+    const childNames = new Map(children.map(c => [c.id, c.name]));
+    const currentWeek = getWeekStart(new Date());
+
+    return groups.map(group => ({
+      id: group.id,
+      name: group.name,
+      status: group.status,
+      activity: {
+        id: group.activity.id,
+        name: group.activity.name,
+        locationName: group.activity.locationName,
+        startTime: group.activity.startTime,
+        endTime: group.activity.endTime
+      },
+      daysOfWeek: group.daysOfWeek,
+      pickupTime: group.pickupTime,
+      notes: group.notes,
+      startDate: group.startDate,
+      endDate: group.endDate,
+      isOrganizer: group.createdByUserId === userId,
+      myStatus: group.members.find(m => m.userId === userId)?.status || 'declined',
+      members: group.members.map(member => ({
+        userId: member.userId,
+        name: member.user.name,
+        status: member.status,
+        rotationOrder: member.rotationOrder,
+        children: member.childIds
+          .filter(id => childNames.has(id))
+          .map(id => ({ id, name: childNames.get(id)! }))
+      })),
+      upcoming: group.assignments
+        .filter(a => a.weekStart >= currentWeek)
+        .slice(0, UPCOMING_WEEKS)
+        .map(a => ({ weekStart: a.weekStart, driverUserId: a.driverUserId, driverName: a.driver.name }))
+    }));
+  }
+}
+
+export const carpoolService = new CarpoolService();
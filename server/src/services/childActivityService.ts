@@ -2,6 +2,7 @@ import { ChildActivity, Activity, Prisma } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
 import { calculateAge, getAgeAppropriateRange, getCalendarDateRange } from '../utils/dateUtils';
 import { childrenService } from './childrenService';
+import { rankingFeedbackService } from './rankingFeedbackService';
 import { v4 as uuidv4 } from 'uuid';
 
 export type ActivityStatus = 'planned' | 'in_progress' | 'completed';
@@ -93,23 +94,27 @@ export class ChildActivityService {
       ...(input.status === 'completed' && { completedAt: now })
     };
 
-    if (existingLink) {
-      return await prisma.childActivity.update({
-        where: { id: existingLink.id },
-        data
-      });
+    const link = existingLink
+      ? await prisma.childActivity.update({
+          where: { id: existingLink.id },
+          data
+        })
+      : await prisma.childActivity.create({
+          data: {
+            childId: input.childId,
+            activityId: input.activityId,
+            status: input.status,
+            notes: input.notes,
+            ...(input.status === 'in_progress' && { registeredAt: now }),
+            ...(input.status === 'completed' && { completedAt: now }),
+          }
+        });
+
+    if (input.status === 'in_progress' && !existingLink?.registeredAt) {
+      this.creditRegistration(userId, input.childId, input.activityId);
     }
 
-    return await prisma.childActivity.create({
-      data: {
-        childId: input.childId,
-        activityId: input.activityId,
-        status: input.status,
-        notes: input.notes,
-        ...(input.status === 'in_progress' && { registeredAt: now }),
-        ...(input.status === 'completed' && { completedAt: now }),
-      }
-    });
+    return link;
   }
 
   /**
@@ -146,10 +151,25 @@ export class ChildActivityService {
       ...(input.status === 'completed' && { completedAt: now })
     };
 
-    return await prisma.childActivity.update({
+    const updated = await prisma.childActivity.update({
       where: { id: childActivity.id },
       data
     });
+
+    if (input.status === 'in_progress' && !childActivity.registeredAt) {
+      this.creditRegistration(userId, childId, activityId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Credit a registration to the AI recommendation that led to it, if any
+   */
+  private creditRegistration(userId: string, childId: string, activityId: string): void {
+    rankingFeedbackService.attributeAction(userId, activityId, 'registration', childId).catch(error => {
+      console.warn('Failed to record recommendation feedback:', error.message);
+    });
   }
 
   /**
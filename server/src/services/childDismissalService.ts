@@ -0,0 +1,128 @@
+import { prisma } from '../lib/prisma';
+import {
+  ActivityExclusions,
+  DismissalType,
+  buildChildExclusions,
+} from '../utils/childDismissals';
+
+/**
+ * Service for per-child "not interested" feedback. Dismissed activities,
+ * providers, locations and subtypes, along with the categories excluded in
+ * the child's preferences, are left out of search and recommendations.
+ */
+class ChildDismissalService {
+  /**
+   * Get a child's dismissals, most recent first
+   */
+  async getDismissals(childId: string, userId: string) {
+    await this.verifyChild(childId, userId);
+
+    return prisma.childDismissal.findMany({
+      where: { childId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Mark an activity, provider, location or subtype as not interesting for a
+   * child. Dismissing the same target again returns the existing dismissal.
+   */
+  async dismiss(childId: string, userId: string, type: DismissalType, targetId: string) {
+    await this.verifyChild(childId, userId);
+
+    const label = await this.resolveLabel(type, targetId);
+
+    return prisma.childDismissal.upsert({
+      where: { childId_type_targetId: { childId, type, targetId } },
+      create: { childId, type, targetId, label },
+      update: { label }
+    });
+  }
+
+  /**
+   * Undo a dismissal
+   */
+  async undoDismissal(childId: string, userId: string, dismissalId: string): Promise<void> {
+    await this.verifyChild(childId, userId);
+
+    const { count } = await prisma.childDismissal.deleteMany({
+      where: { id: dismissalId, childId }
+    });
+
+    if (count === 0) {
+      throw new Error('Dismissal not found');
+    }
+  }
+
+  /**
+   * Exclusions for a user's children. Uses all of their active children when
+   * no ids are given; ids of other users' children are ignored.
+   */
+  async getExclusions(
+    userId: string,
+    childIds?: string[],
+    filterMode: 'or' | 'and' = 'or'
+  ): Promise<ActivityExclusions | undefined> {
+    const children = await prisma.child.findMany({
+      where: {
+        userId,
+        isActive: true,
+        ...(childIds && childIds.length > 0 && { id: { in: childIds } })
+      },
+      select: {
+        id: true,
+        dismissals: { select: { type: true, targetId: true } },
+        preferences: { select: { excludedCategories: true } }
+      }
+    });
+
+    if (children.length === 0) return undefined;
+
+    return buildChildExclusions(
+      children.map(child => ({
+        childId: child.id,
+        dismissals: child.dismissals,
+        excludedCategories: child.preferences?.excludedCategories
+      })),
+      filterMode
+    );
+  }
+
+  private async verifyChild(childId: string, userId: string): Promise<void> {
+    const child = await prisma.child.findFirst({
+      where: { id: childId, userId, isActive: true }
+    });
+
+    if (!child) {
+      throw new Error('Child not found');
+    }
+  }
+
+  private async resolveLabel(type: DismissalType, targetId: string): Promise<string> {
+    const select = { name: true };
+    let target: { name: string } | null;
+
+    switch (type) {
+      case 'activity':
+        target = await prisma.activity.findUnique({ where: { id: targetId }, select });
+        break;
+      case 'provider':
+        target = await prisma.provider.findUnique({ where: { id: targetId }, select });
+        break;
+      case 'location':
+        target = await prisma.location.findUnique({ where: { id: targetId }, select });
+        break;
+      case 'subtype':
+        target = await prisma.activitySubtype.findUnique({ where: { id: targetId }, select });
+        break;
+    }
+
+    if (!target) {
+      throw new Error(`${type.charAt(0).toUpperCase()}${type.slice(1)} not found`);
+    }
+
+    return target.name;
+  }
+}
+
+export const childDismissalService = new ChildDismissalService();
@@ -1,4 +1,6 @@
 import { prisma } from '../lib/prisma';
+import { waitlistService } from './waitlistService';
+import { rankingFeedbackService } from './rankingFeedbackService';
 
 /**
  * Service for managing child-centric favorites, waitlist entries, and notification preferences
@@ -176,6 +178,11 @@ class ChildFavoritesService {
       }
     });
 
+    // Credit the AI recommendation that led here, if any
+    rankingFeedbackService.attributeAction(userId, activityId, 'favorite', childId).catch(error => {
+      console.warn('Failed to record recommendation feedback:', error.message);
+    });
+
     return {
       id: favorite.id,
       childId: favorite.childId,
@@ -310,12 +317,18 @@ class ChildFavoritesService {
       orderBy: { createdAt: 'desc' }
     });
 
+    const details = await waitlistService.getEntryDetails(entries);
+
     return entries.map(entry => ({
       id: entry.id,
       childId: entry.childId,
       activityId: entry.activityId,
       joinedAt: entry.createdAt,
       notifiedAt: entry.notifiedAt,
+      status: entry.status,
+      holdExpiresAt: entry.holdExpiresAt,
+      queuePosition: details.get(entry.id)?.queuePosition ?? null,
+      alerts: details.get(entry.id)?.alerts || [],
       activity: {
         id: entry.activity.id,
         name: entry.activity.name,
@@ -362,6 +375,8 @@ class ChildFavoritesService {
       orderBy: { createdAt: 'desc' }
     });
 
+    const details = await waitlistService.getEntryDetails(entries);
+
     return entries.map(entry => ({
       id: entry.id,
       childId: entry.childId,
@@ -369,6 +384,10 @@ class ChildFavoritesService {
       activityId: entry.activityId,
       joinedAt: entry.createdAt,
       notifiedAt: entry.notifiedAt,
+      status: entry.status,
+      holdExpiresAt: entry.holdExpiresAt,
+      queuePosition: details.get(entry.id)?.queuePosition ?? null,
+      alerts: details.get(entry.id)?.alerts || [],
       activity: {
         id: entry.activity.id,
         name: entry.activity.name,
@@ -431,6 +450,10 @@ class ChildFavoritesService {
       }
     });
 
+    rankingFeedbackService.attributeAction(userId, activityId, 'waitlist_join', childId).catch(error => {
+      console.warn('Failed to record recommendation feedback:', error.message);
+    });
+
     return {
       id: entry.id,
       childId: entry.childId,
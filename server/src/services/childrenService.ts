@@ -3,6 +3,7 @@ import { prisma } from '../lib/prisma';
 import { calculateAge } from '../utils/dateUtils';
 import { v4 as uuidv4 } from 'uuid';
 import { geocodingService } from './geocodingService';
+import { attendanceService } from './attendanceService';
 
 export interface CreateChildInput {
   userId: string;
@@ -1133,7 +1134,11 @@ export class ChildrenService {
   }
 
   /**
-   * Log activity completion and update skill progress
+   * Log activity completion and update skill progress.
+   * Hours for an activity with attendance recorded were already added
+   * session by session, so only the estimate for untracked activities is used.
+   * The estimate is kept on the child's activity so recording attendance
+   * later can take it back off.
    */
   async logActivityCompletion(
     childId: string,
@@ -1156,6 +1161,20 @@ export class ChildrenService {
       throw new Error('Child not found');
     }
 
+    const hoursSpent = data.activityId && await attendanceService.hasAttendedSessions(childId, data.activityId)
+      ? 0
+      : data.hoursSpent;
+
+    if (data.activityId && hoursSpent > 0) {
+      await prisma.childActivity.updateMany({
+        where: { childId, activityId: data.activityId },
+        data: {
+          estimatedHours: { increment: hoursSpent },
+          estimateCategory: data.skillCategory
+        }
+      });
+    }
+
     const existing = await prisma.childSkillProgress.findUnique({
       where: {
         childId_skillCategory: { childId, skillCategory: data.skillCategory }
@@ -1174,8 +1193,8 @@ export class ChildrenService {
 
     if (existing) {
       const updateData: any = {
-        activitiesCompleted: existing.activitiesCompleted + 1,
-        totalHours: existing.totalHours + data.hoursSpent,
+        activitiesCompleted: { increment: 1 },
+        totalHours: { increment: hoursSpent },
         lastActivityName: data.activityName,
         lastActivityDate: new Date(),
         updatedAt: new Date()
@@ -1201,7 +1220,7 @@ export class ChildrenService {
           childId,
           skillCategory: data.skillCategory,
           currentLevel: data.levelUp ? 'intermediate' : 'beginner',
-          totalHours: data.hoursSpent,
+          totalHours: hoursSpent,
           lastActivityName: data.activityName,
           lastActivityDate: new Date(),
           activitiesCompleted: 1,
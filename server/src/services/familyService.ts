@@ -0,0 +1,318 @@
+import { FamilyMember } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { emailService } from '../utils/emailService';
+import { securityUtils } from '../utils/securityUtils';
+import { willRenew } from '../utils/entitlements';
+import { FAMILY_INVITE_EXPIRY_DAYS, remainingSeats, seatedMemberIds } from '../utils/family';
+import { subscriptionService } from './subscriptionService';
+
+export interface FamilyOverview {
+  role: 'owner' | 'member';
+  owner: { id: string; name: string; email: string };
+  plan: { code: string; name: string } | null;
+  seats: number;
+  seatsRemaining: number;
+  members: Array<{
+    id: string;
+    email: string;
+    name: string | null;
+    status: string;
+    hasSeat: boolean;
+    joinedAt: Date | null;
+    expiresAt: Date;
+  }>;
+}
+
+export interface AcceptFamilyInvitationResult {
+  member: FamilyMember;
+  ownerName: string;
+  // The new member still pays for premium themselves
+  hasRenewingSubscription: boolean;
+}
+
+export class FamilyService {
+  /**
+   * Get the family a user pays for or belongs to. Null when they're in
+   * neither and their plan has no family seats.
+   */
+  async getFamily(userId: string): Promise<FamilyOverview | null> {
+    const membership = await prisma.familyMember.findFirst({
+      where: { memberId: userId, status: 'active' }
+    });
+    const ownerId = membership ? membership.ownerId : userId;
+
+    const [owner, members, seats] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: ownerId },
+        select: { id: true, name: true, email: true, subscription: { include: { plan: true } } }
+      }),
+      prisma.familyMember.findMany({
+        where: { ownerId, status: { in: ['pending', 'active'] } },
+        include: { member: { select: { name: true } } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.getSeats(ownerId)
+    ]);
+
+    if (!owner || (!membership && members.length === 0 && seats === 0)) {
+      return null;
+    }
+
+    const seated = seatedMemberIds(members, seats);
+    const plan = owner.subscription?.plan;
+
+    return {
+      role: membership ? 'member' : 'owner',
+      owner: { id: owner.id, name: owner.name, email: owner.email },
+      plan: plan ? { code: plan.code, name: plan.name } : null,
+      seats,
+      seatsRemaining: remainingSeats(members, seats),
+      members: members.map(member => ({
+        id: member.id,
+        email: member.email,
+        name: member.member?.name ?? null,
+        status: member.status === 'pending' && member.expiresAt < new Date() ? 'expired' : member.status,
+        hasSeat: !!member.memberId && seated.includes(member.memberId),
+        joinedAt: member.joinedAt,
+        expiresAt: member.expiresAt
+      }))
+    };
+  }
+
+  /**
+   * Invite a co-parent to share the owner's family plan
+   */
+  async inviteMember(ownerId: string, email: string): Promise<FamilyMember> {
+    const owner = await prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { id: true, name: true, email: true }
+    });
+
+    if (!owner) {
+      throw new Error('User not found');
+    }
+
+    const normalizedEmail = email.toLowerCase().trim();
+
+    if (normalizedEmail === owner.email.toLowerCase()) {
+      throw new Error('Cannot invite yourself');
+    }
+
+    const ownMembership = await prisma.familyMember.findFirst({
+      where: { memberId: ownerId, status: 'active' }
+    });
+    if (ownMembership) {
+      throw new Error('Only the person who pays for the family plan can invite co-parents');
+    }
+
+    const seats = await this.getSeats(ownerId);
+    if (seats === 0) {
+      throw new Error('Your plan does not include family sharing. Upgrade to a family plan to invite co-parents.');
+    }
+
+    const members = await prisma.familyMember.findMany({
+      where: { ownerId }
+    });
+
+    const existing = members.find(member => member.email === normalizedEmail);
+    if (existing?.status === 'active') {
+      throw new Error('This person is already on your family plan');
+    }
+    if (existing?.status === 'pending' && existing.expiresAt > new Date()) {
+      throw new Error('An invitation to this email is already pending');
+    }
+
+    if (remainingSeats(members, seats) === 0) {
+      throw new Error(`Your plan covers ${seats} co-parent${seats === 1 ? '' : 's'}. Remove someone to invite another.`);
+    }
+
+    const token = securityUtils.generateSecureToken();
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + FAMILY_INVITE_EXPIRY_DAYS);
+
+    // Re-inviting someone reuses their old row
+    const invitation = await prisma.familyMember.upsert({
+      where: { ownerId_email: { ownerId, email: normalizedEmail } },
+      update: {
+        memberId: null,
+        status: 'pending',
+        token,
+        expiresAt,
+        joinedAt: null,
+        removedAt: null
+      },
+      create: {
+        ownerId,
+        email: normalizedEmail,
+        token,
+        expiresAt
+      }
+    });
+
+    await emailService.sendFamilyInvitation(normalizedEmail, owner.name, token, FAMILY_INVITE_EXPIRY_DAYS);
+
+    console.log({
+      action: 'family_invitation_created',
+      ownerId,
+      recipientEmail: normalizedEmail,
+      familyMemberId: invitation.id,
+      timestamp: new Date().toISOString()
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Join a family plan from an invitation
+   */
+  async acceptInvitation(token: string, userId: string): Promise<AcceptFamilyInvitationResult> {
+    const invitation = await prisma.familyMember.findUnique({
+      where: { token },
+      include: { owner: { select: { id: true, name: true } } }
+    });
+
+    if (!invitation || invitation.status !== 'pending') {
+      throw new Error('Invalid or already used invitation');
+    }
+
+    if (invitation.expiresAt < new Date()) {
+      throw new Error('This invitation has expired');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error('This invitation is not for your email address');
+    }
+
+    if (invitation.ownerId === userId) {
+      throw new Error('Cannot join your own family plan');
+    }
+
+    const [otherMembership, ownActiveMembers] = await Promise.all([
+      prisma.familyMember.findFirst({
+        where: { memberId: userId, status: 'active' }
+      }),
+      prisma.familyMember.count({
+        where: { ownerId: userId, status: 'active' }
+      })
+    ]);
+
+    if (otherMembership) {
+      throw new Error('You are already on another family plan. Leave it before joining this one.');
+    }
+    if (ownActiveMembers > 0) {
+      throw new Error('You share your own family plan with others, so you can\'t join another one');
+    }
+
+    const seats = await this.getSeats(invitation.ownerId);
+    const activeCount = await prisma.familyMember.count({
+      where: { ownerId: invitation.ownerId, status: 'active' }
+    });
+
+    if (activeCount >= seats) {
+      throw new Error('This family plan has no free seats');
+    }
+
+    const member = await prisma.familyMember.update({
+      where: { id: invitation.id },
+      data: {
+        memberId: userId,
+        status: 'active',
+        joinedAt: new Date()
+      }
+    });
+
+    const entitlements = await subscriptionService.getEntitlements(userId);
+
+    return {
+      member,
+      ownerName: invitation.owner.name,
+      hasRenewingSubscription: entitlements.some(entitlement => willRenew(entitlement))
+    };
+  }
+
+  /**
+   * Remove a co-parent or cancel their invitation. They drop back to their
+   * own plan straight away. Returns false if the member isn't the owner's.
+   */
+  async removeMember(ownerId: string, familyMemberId: string): Promise<boolean> {
+    const member = await prisma.familyMember.findFirst({
+      where: { id: familyMemberId, ownerId, status: { in: ['pending', 'active'] } },
+      include: {
+        owner: { select: { name: true } },
+        member: { select: { name: true, email: true } }
+      }
+    });
+
+    if (!member) {
+      return false;
+    }
+
+    await prisma.familyMember.update({
+      where: { id: member.id },
+      data: { status: 'removed', removedAt: new Date() }
+    });
+
+    if (member.member) {
+      await emailService.sendFamilyMembershipEnded(member.member.email, member.member.name, {
+        otherName: member.owner.name,
+        reason: 'removed'
+      }).catch(error => console.error('[Family] Failed to send removal email:', error));
+    }
+
+    return true;
+  }
+
+  /**
+   * Leave the family plan the user belongs to
+   */
+  async leaveFamily(userId: string): Promise<void> {
+    const membership = await prisma.familyMember.findFirst({
+      where: { memberId: userId, status: 'active' },
+      include: {
+        owner: { select: { name: true, email: true } },
+        member: { select: { name: true } }
+      }
+    });
+
+    if (!membership) {
+      throw new Error('You are not on a family plan');
+    }
+
+    await prisma.familyMember.update({
+      where: { id: membership.id },
+      data: { status: 'removed', removedAt: new Date() }
+    });
+
+    await emailService.sendFamilyMembershipEnded(membership.owner.email, membership.owner.name, {
+      otherName: membership.member?.name || membership.email,
+      reason: 'left'
+    }).catch(error => console.error('[Family] Failed to send leave email:', error));
+  }
+
+  /**
+   * Co-parent seats the owner's own subscription currently pays for
+   */
+  private async getSeats(ownerId: string): Promise<number> {
+    const subscription = await prisma.subscription.findUnique({
+      where: { userId: ownerId },
+      include: { plan: true }
+    });
+
+    if (!subscription || !subscriptionService.isPaidAccess(subscription)) {
+      return 0;
+    }
+
+    return subscription.plan.familySeats;
+  }
+}
+
+export const familyService = new FamilyService();
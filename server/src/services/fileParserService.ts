@@ -1,5 +1,12 @@
 import { parse } from 'csv-parse/sync';
 import * as XLSX from 'xlsx';
+import { parseIcsRows } from '../utils/icsImport';
+import { parseJsonLdRows } from '../utils/jsonLdImport';
+import { STRUCTURED_IMPORT_COLUMNS } from '../utils/structuredImport';
+import { MIN_SUGGESTION_SCORE, assignColumns, rankColumns } from '../utils/columnDetection';
+
+// Supported upload formats
+export type ImportFileType = 'csv' | 'xlsx' | 'ics' | 'jsonld';
 
 // Raw row from CSV/XLSX
 export interface RawRow {
@@ -20,9 +27,13 @@ export interface FieldMappingSuggestion {
     suggestedColumn: string | null;
     confidence: 'high' | 'medium' | 'low' | 'none';
     alternatives: string[];
+    score?: number; // 0-1, from header and sample-value matching
   };
 }
 
+// Rows sampled for value type sniffing
+const SAMPLE_ROW_COUNT = 25;
+
 // Default column name mappings (case-insensitive matching)
 const DEFAULT_COLUMN_MAPPINGS: Record<string, string[]> = {
   externalId: ['course id', 'external id', 'id', 'activity id', 'program id', 'course_id', 'external_id'],
@@ -32,23 +43,24 @@ const DEFAULT_COLUMN_MAPPINGS: Record<string, string[]> = {
   description: ['description', 'summary', 'about', 'details', 'overview'],
   dateStart: ['start date', 'begin date', 'from', 'date start', 'starts', 'start'],
   dateEnd: ['end date', 'finish date', 'to', 'date end', 'ends', 'end'],
-  startTime: ['start time', 'begin time', 'time start', 'from time'],
+  startTime: ['start time', 'begin time', 'time start', 'from time', 'time'],
   endTime: ['end time', 'finish time', 'time end', 'to time'],
-  dayOfWeek: ['days', 'day of week', 'days of week', 'schedule days', 'weekdays'],
+  dayOfWeek: ['days', 'day of week', 'days of week', 'schedule days', 'weekdays', 'day', 'meets'],
   cost: ['price', 'cost', 'fee', 'amount', 'rate', 'tuition'],
-  ageMin: ['minimum age', 'age min', 'from age', 'min age', 'age from', 'age minimum'],
-  ageMax: ['maximum age', 'age max', 'to age', 'max age', 'age to', 'age maximum'],
+  ageMin: ['minimum age', 'age min', 'from age', 'min age', 'age from', 'age minimum', 'ages', 'age range', 'age'],
+  ageMax: ['maximum age', 'age max', 'to age', 'max age', 'age to', 'age maximum', 'ages', 'age range', 'age'],
   locationName: ['location', 'venue', 'facility', 'site', 'place', 'address'],
   instructor: ['instructor', 'teacher', 'coach', 'leader', 'staff'],
   spotsAvailable: ['spots available', 'availability', 'spots', 'openings', 'seats available'],
   totalSpots: ['total spots', 'capacity', 'max spots', 'total capacity', 'max participants'],
-  registrationUrl: ['registration url', 'registration link', 'sign up url', 'register url', 'url'],
+  registrationUrl: ['registration url', 'registration link', 'sign up url', 'register url', 'url', 'register link', 'link'],
   registrationStatus: ['registration status', 'status', 'availability status'],
   prerequisites: ['prerequisites', 'requirements', 'prereqs', 'required'],
   whatToBring: ['what to bring', 'items needed', 'bring', 'required items', 'equipment'],
   fullAddress: ['full address', 'street address', 'address', 'location address'],
   latitude: ['latitude', 'lat'],
   longitude: ['longitude', 'lng', 'lon'],
+  sessions: ['sessions', 'session dates', 'class dates'],
 };
 
 export class FileParserService {
@@ -112,6 +124,29 @@ export class FileParserService {
     }
   }
 
+  /**
+   * Parse an iCalendar (.ics) feed to one row per event series
+   */
+  parseICS(buffer: Buffer): RawRow[] {
+    try {
+      return parseIcsRows(buffer.toString('utf-8'));
+    } catch (error: any) {
+      throw new Error(`Failed to parse iCalendar: ${error.message}`);
+    }
+  }
+
+  /**
+   * Parse schema.org Event/Course JSON-LD (or an HTML page embedding it)
+   * to one row per activity
+   */
+  parseJSONLD(buffer: Buffer): RawRow[] {
+    try {
+      return parseJsonLdRows(buffer.toString('utf-8'));
+    } catch (error: any) {
+      throw new Error(`Failed to parse JSON-LD: ${error.message}`);
+    }
+  }
+
   /**
    * Get available sheet names from XLSX
    */
@@ -165,64 +200,77 @@ export class FileParserService {
   }
 
   /**
-   * Suggest field mappings based on column headers
+   * Suggest field mappings based on column headers and, when given, sample
+   * rows: columns are ranked by fuzzy header matching and by whether their
+   * values look like the field (dates, times, prices, age ranges, days).
+   * iCalendar and JSON-LD rows always use the same columns, so those map
+   * exactly.
    */
-  suggestFieldMappings(headers: string[]): FieldMappingSuggestion {
+  suggestFieldMappings(headers: string[], fileType?: ImportFileType, sampleRows: RawRow[] = []): FieldMappingSuggestion {
+    if (fileType === 'ics' || fileType === 'jsonld') {
+      return this.suggestStructuredMappings(headers);
+    }
+
+    const rankings = rankColumns(headers, sampleRows.slice(0, SAMPLE_ROW_COUNT), DEFAULT_COLUMN_MAPPINGS);
+    const assignments = assignColumns(rankings);
     const suggestions: FieldMappingSuggestion = {};
-    const normalizedHeaders = headers.map(h => h.toLowerCase().trim());
-
-    for (const [activityField, columnNames] of Object.entries(DEFAULT_COLUMN_MAPPINGS)) {
-      let suggestedColumn: string | null = null;
-      let confidence: 'high' | 'medium' | 'low' | 'none' = 'none';
-      const alternatives: string[] = [];
-
-      // Look for exact matches first
-      for (const columnName of columnNames) {
-        const index = normalizedHeaders.findIndex(h => h === columnName);
-        if (index !== -1) {
-          suggestedColumn = headers[index];
-          confidence = 'high';
-          break;
-        }
-      }
 
-      // If no exact match, look for partial matches
-      if (!suggestedColumn) {
-        for (const columnName of columnNames) {
-          for (let i = 0; i < normalizedHeaders.length; i++) {
-            if (normalizedHeaders[i].includes(columnName) || columnName.includes(normalizedHeaders[i])) {
-              if (!suggestedColumn) {
-                suggestedColumn = headers[i];
-                confidence = 'medium';
-              } else if (!alternatives.includes(headers[i])) {
-                alternatives.push(headers[i]);
-              }
-            }
-          }
-        }
-      }
+    for (const [activityField, assignment] of Object.entries(assignments)) {
+      suggestions[activityField] = {
+        suggestedColumn: assignment.column,
+        confidence: this.toConfidence(assignment.column ? assignment.score : 0),
+        alternatives: assignment.alternatives.map(alternative => alternative.column),
+        score: assignment.score,
+      };
+    }
 
-      // If still no match, check for similar words
-      if (!suggestedColumn) {
-        for (const columnName of columnNames) {
-          const words = columnName.split(' ');
-          for (let i = 0; i < normalizedHeaders.length; i++) {
-            if (words.some(word => normalizedHeaders[i].includes(word))) {
-              if (!suggestedColumn) {
-                suggestedColumn = headers[i];
-                confidence = 'low';
-              } else if (!alternatives.includes(headers[i])) {
-                alternatives.push(headers[i]);
-              }
-            }
-          }
-        }
-      }
+    return suggestions;
+  }
+
+  /**
+   * Suggestions from a saved mapping template, which takes precedence over
+   * detection for every field
+   */
+  applyTemplateMapping(
+    suggestions: FieldMappingSuggestion,
+    mapping: Record<string, string | null>
+  ): FieldMappingSuggestion {
+    const applied: FieldMappingSuggestion = {};
+
+    for (const [activityField, suggestion] of Object.entries(suggestions)) {
+      const column = mapping[activityField] ?? null;
+      applied[activityField] = {
+        suggestedColumn: column,
+        confidence: column ? 'high' : 'none',
+        alternatives: suggestion.alternatives.filter(alternative => alternative !== column),
+        score: column ? 1 : 0,
+      };
+    }
+
+    return applied;
+  }
+
+  private toConfidence(score: number): 'high' | 'medium' | 'low' | 'none' {
+    if (score >= 0.85) return 'high';
+    if (score >= 0.6) return 'medium';
+    if (score >= MIN_SUGGESTION_SCORE) return 'low';
+    return 'none';
+  }
+
+  /**
+   * Mapping suggestions for the fixed columns of iCalendar and JSON-LD rows
+   */
+  private suggestStructuredMappings(headers: string[]): FieldMappingSuggestion {
+    const suggestions: FieldMappingSuggestion = {};
+
+    for (const activityField of Object.keys(DEFAULT_COLUMN_MAPPINGS)) {
+      const column = (STRUCTURED_IMPORT_COLUMNS as Record<string, string>)[activityField];
+      const present = column !== undefined && headers.includes(column);
 
       suggestions[activityField] = {
-        suggestedColumn,
-        confidence,
-        alternatives: alternatives.slice(0, 3), // Limit to 3 alternatives
+        suggestedColumn: present ? column : null,
+        confidence: present ? 'high' : 'none',
+        alternatives: [],
       };
     }
 
@@ -232,9 +280,24 @@ export class FileParserService {
   /**
    * Validate file type
    */
-  validateFileType(fileName: string, mimeType: string): 'csv' | 'xlsx' | null {
+  validateFileType(fileName: string, mimeType: string): ImportFileType | null {
     const extension = fileName.toLowerCase().split('.').pop();
 
+    if (extension === 'ics' || extension === 'ical' || mimeType === 'text/calendar') {
+      return 'ics';
+    }
+
+    if (
+      extension === 'jsonld' ||
+      extension === 'json' ||
+      extension === 'html' ||
+      extension === 'htm' ||
+      mimeType === 'application/ld+json' ||
+      mimeType === 'text/html'
+    ) {
+      return 'jsonld';
+    }
+
     if (extension === 'csv' || mimeType === 'text/csv' || mimeType === 'application/csv') {
       return 'csv';
     }
@@ -254,11 +317,16 @@ export class FileParserService {
   /**
    * Parse file based on type
    */
-  parseFile(buffer: Buffer, fileType: 'csv' | 'xlsx', options?: ParseOptions): RawRow[] {
-    if (fileType === 'csv') {
-      return this.parseCSV(buffer, options);
-    } else {
-      return this.parseXLSX(buffer);
+  parseFile(buffer: Buffer, fileType: ImportFileType, options?: ParseOptions): RawRow[] {
+    switch (fileType) {
+      case 'csv':
+        return this.parseCSV(buffer, options);
+      case 'ics':
+        return this.parseICS(buffer);
+      case 'jsonld':
+        return this.parseJSONLD(buffer);
+      default:
+        return this.parseXLSX(buffer);
     }
   }
 
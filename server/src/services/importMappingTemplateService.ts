@@ -0,0 +1,208 @@
+import { ImportFieldMapping, Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { activityImportMapper, FieldMapping } from './activityImportMapper';
+import { headerOverlap, resolveTemplateMapping } from '../utils/columnDetection';
+
+export interface MappingTemplateInput {
+  name: string;
+  description?: string | null;
+  mappings: FieldMapping;
+  sourceHeaders?: string[];
+  isDefault?: boolean;
+}
+
+export interface MappingTemplateMatch {
+  template: ImportFieldMapping;
+  mapping: FieldMapping; // resolved against the file's headers
+  overlap: number;
+}
+
+const MAX_TEMPLATES_PER_VENDOR = 25;
+
+// Share of headers a file must have in common with a template's source file
+const AUTO_APPLY_OVERLAP = 0.8;
+
+/**
+ * Service for vendors' saved import field mappings
+ */
+export class ImportMappingTemplateService {
+  /**
+   * List a vendor's templates, most recently used first
+   */
+  async listTemplates(vendorId: string): Promise<ImportFieldMapping[]> {
+    return prisma.importFieldMapping.findMany({
+      where: { vendorId },
+      orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Save a mapping as a named template
+   */
+  async createTemplate(vendorId: string, input: MappingTemplateInput): Promise<ImportFieldMapping> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+
+    const mappings = this.validateMappings(input.mappings);
+
+    const count = await prisma.importFieldMapping.count({ where: { vendorId } });
+    if (count >= MAX_TEMPLATES_PER_VENDOR) {
+      throw new Error(`You can save at most ${MAX_TEMPLATES_PER_VENDOR} mapping templates`);
+    }
+
+    const existing = await prisma.importFieldMapping.findUnique({
+      where: { vendorId_name: { vendorId, name } },
+    });
+    if (existing) {
+      throw new Error('A template with this name already exists');
+    }
+
+    if (input.isDefault) {
+      await this.clearDefault(vendorId);
+    }
+
+    return prisma.importFieldMapping.create({
+      data: {
+        vendorId,
+        name,
+        description: input.description || null,
+        mappings: mappings as Prisma.InputJsonValue,
+        sourceHeaders: input.sourceHeaders || [],
+        isDefault: input.isDefault || false,
+      },
+    });
+  }
+
+  /**
+   * Update a template's name, description, mappings or default flag
+   */
+  async updateTemplate(
+    vendorId: string,
+    templateId: string,
+    input: Partial<MappingTemplateInput>
+  ): Promise<ImportFieldMapping | null> {
+    const template = await prisma.importFieldMapping.findFirst({
+      where: { id: templateId, vendorId },
+    });
+
+    if (!template) {
+      return null;
+    }
+
+    const data: Prisma.ImportFieldMappingUpdateInput = {};
+
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (!name) {
+        throw new Error('Template name is required');
+      }
+
+      const clash = await prisma.importFieldMapping.findUnique({
+        where: { vendorId_name: { vendorId, name } },
+      });
+      if (clash && clash.id !== templateId) {
+        throw new Error('A template with this name already exists');
+      }
+      data.name = name;
+    }
+
+    if (input.description !== undefined) data.description = input.description || null;
+    if (input.mappings !== undefined) data.mappings = this.validateMappings(input.mappings) as Prisma.InputJsonValue;
+    if (input.sourceHeaders !== undefined) data.sourceHeaders = input.sourceHeaders;
+
+    if (input.isDefault !== undefined) {
+      if (input.isDefault) {
+        await this.clearDefault(vendorId);
+      }
+      data.isDefault = input.isDefault;
+    }
+
+    return prisma.importFieldMapping.update({
+      where: { id: templateId },
+      data,
+    });
+  }
+
+  /**
+   * Delete a template
+   */
+  async deleteTemplate(vendorId: string, templateId: string): Promise<boolean> {
+    const result = await prisma.importFieldMapping.deleteMany({
+      where: { id: templateId, vendorId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * The template to apply to a file with these headers: the one saved from
+   * the most similar file, or the vendor's default. Every column a template
+   * maps must be present in the file.
+   */
+  async findMatchingTemplate(vendorId: string, headers: string[]): Promise<MappingTemplateMatch | null> {
+    const templates = await this.listTemplates(vendorId);
+    let best: MappingTemplateMatch | null = null;
+
+    for (const template of templates) {
+      const mapping = resolveTemplateMapping(template.mappings as FieldMapping, headers);
+      if (!mapping) continue;
+
+      const overlap = headerOverlap(template.sourceHeaders, headers);
+      if (overlap < AUTO_APPLY_OVERLAP && !template.isDefault) continue;
+
+      // Templates are listed most recently used first, so ties keep the newer one
+      if (!best || overlap > best.overlap) {
+        best = { template, mapping, overlap };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Record that a template was used for an upload
+   */
+  async markUsed(vendorId: string, templateId: string): Promise<void> {
+    await prisma.importFieldMapping.updateMany({
+      where: { id: templateId, vendorId },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  private async clearDefault(vendorId: string): Promise<void> {
+    await prisma.importFieldMapping.updateMany({
+      where: { vendorId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  /**
+   * Keep only known activity fields mapped to column names
+   */
+  private validateMappings(mappings: FieldMapping): FieldMapping {
+    if (!mappings || typeof mappings !== 'object' || Array.isArray(mappings)) {
+      throw new Error('Mappings must be an object of activity fields to column names');
+    }
+
+    const fields = Object.keys(activityImportMapper.getDefaultMapping());
+    const unknown = Object.keys(mappings).filter(field => !fields.includes(field));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown activity fields: ${unknown.join(', ')}`);
+    }
+
+    const validated: FieldMapping = {};
+    for (const [field, column] of Object.entries(mappings)) {
+      validated[field] = typeof column === 'string' && column.trim() ? column.trim() : null;
+    }
+
+    if (!validated.name) {
+      throw new Error('A template must map a column to the activity name');
+    }
+
+    return validated;
+  }
+}
+
+// Export singleton instance
+export const importMappingTemplateService = new ImportMappingTemplateService();
@@ -3,6 +3,7 @@ import { prisma } from '../lib/prisma';
 import { fileParserService, RawRow } from './fileParserService';
 import { activityImportMapper, FieldMapping, NormalizedActivity, RowValidationResult, FieldValidationError } from './activityImportMapper';
 import { vendorService } from './vendorService';
+import { ImportDiffEntry, ImportDiffSummary, diffActivityFields, summarizeImportDiff } from '../utils/importDiff';
 
 // File interface for multer uploads
 interface UploadedFile {
@@ -35,6 +36,7 @@ export interface ProcessingResult {
   updated: number;
   skipped: number;
   failed: number;
+  deactivated: number;
   errors: Array<{
     rowNumber: number;
     externalId: string;
@@ -42,6 +44,12 @@ export interface ProcessingResult {
   }>;
 }
 
+export interface ImportDiff {
+  deactivateMissing: boolean;
+  summary: ImportDiffSummary;
+  entries: ImportDiffEntry[];
+}
+
 export interface ImportBatchWithDetails extends ImportBatch {
   vendor?: {
     id: string;
@@ -65,8 +73,9 @@ export class ImportService {
   async createImportBatch(
     vendorId: string,
     file: UploadedFile,
-    uploadedBy: string,
-    fieldMapping?: FieldMapping
+    uploadedBy: string | null,
+    fieldMapping?: FieldMapping,
+    options: { deactivateMissing?: boolean; importSourceId?: string } = {}
   ): Promise<ImportBatch> {
     // Validate file type
     const fileType = fileParserService.validateFileType(
@@ -75,7 +84,7 @@ export class ImportService {
     );
 
     if (!fileType) {
-      throw new Error('Invalid file type. Only CSV and XLSX files are supported.');
+      throw new Error('Invalid file type. Supported formats are CSV, XLSX, iCalendar (.ics) and JSON-LD.');
     }
 
     // Get vendor to check approval settings
@@ -108,6 +117,7 @@ export class ImportService {
       data: {
         vendorId,
         uploadedBy,
+        ...(options.importSourceId && { source: 'scheduled', importSourceId: options.importSourceId }),
         fileName: file.originalname,
         fileSize: file.size,
         fileType,
@@ -116,6 +126,7 @@ export class ImportService {
         requiresApproval: vendor.requiresApproval,
         approvalStatus: vendor.requiresApproval ? 'PENDING' : 'AUTO_APPROVED',
         fieldMappingUsed: fieldMapping || null,
+        deactivateMissing: options.deactivateMissing || false,
       },
     });
 
@@ -240,7 +251,7 @@ export class ImportService {
       ? 'VALIDATION_FAILED'
       : 'VALIDATED';
 
-    await prisma.importBatch.update({
+    const batch = await prisma.importBatch.update({
       where: { id: batchId },
       data: {
         status: batchStatus,
@@ -252,6 +263,13 @@ export class ImportService {
       },
     });
 
+    // Dry run against the vendor's current activities
+    const diff = validRows > 0 ? await this.buildImportDiff(batch) : null;
+    await prisma.importBatch.update({
+      where: { id: batchId },
+      data: { diffSummary: diff ? diff.summary as unknown as Prisma.InputJsonValue : Prisma.JsonNull },
+    });
+
     return {
       success: validRows > 0,
       totalRows: rows.length,
@@ -363,6 +381,8 @@ export class ImportService {
       }
     }
 
+    const deactivated = batch.deactivateMissing ? await this.deactivateMissingActivities(batch) : 0;
+
     // Update batch with results
     const finalStatus: ImportStatus = failed > 0
       ? created + updated > 0
@@ -379,6 +399,7 @@ export class ImportService {
         activitiesUpdated: updated,
         activitiesSkipped: skipped,
         activitiesFailed: failed,
+        activitiesDeactivated: deactivated,
       },
     });
 
@@ -389,10 +410,135 @@ export class ImportService {
       updated,
       skipped,
       failed,
+      deactivated,
       errors,
     };
   }
 
+  /**
+   * Dry run of an import: what processing the batch's valid rows would do
+   * to the vendor's activities, without writing anything
+   */
+  async getImportDiff(batchId: string): Promise<ImportDiff | null> {
+    const batch = await prisma.importBatch.findUnique({
+      where: { id: batchId },
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    if (!batch.validationCompletedAt) {
+      throw new Error('Import batch has not been validated');
+    }
+
+    return this.buildImportDiff(batch);
+  }
+
+  private async buildImportDiff(batch: ImportBatch): Promise<ImportDiff> {
+    const rows = await prisma.importRow.findMany({
+      where: { importBatchId: batch.id, status: 'VALID' },
+      orderBy: { rowNumber: 'asc' },
+    });
+
+    const entries: ImportDiffEntry[] = [];
+
+    for (const row of rows) {
+      const activity = row.parsedData as unknown as NormalizedActivity;
+      if (!activity?.externalId) continue;
+
+      const incoming = activityImportMapper.toActivityFields(activity);
+      const existing = await activityImportMapper.findExistingActivity(batch.vendorId, activity.externalId);
+
+      if (!existing) {
+        entries.push({
+          rowNumber: row.rowNumber,
+          externalId: activity.externalId,
+          name: activity.name,
+          action: 'created',
+          activityId: null,
+          changes: [],
+          lockedChanges: [],
+        });
+        continue;
+      }
+
+      const { changes, lockedChanges } = diffActivityFields(existing, incoming, existing.manuallyEditedFields);
+      entries.push({
+        rowNumber: row.rowNumber,
+        externalId: activity.externalId,
+        name: existing.name,
+        action: changes.length > 0 ? 'updated' : 'unchanged',
+        activityId: existing.id,
+        changes,
+        lockedChanges,
+      });
+    }
+
+    if (batch.deactivateMissing) {
+      for (const activity of await this.findMissingActivities(batch)) {
+        const change = { field: 'isActive', before: true, after: false };
+        const locked = activity.manuallyEditedFields.includes('isActive');
+        entries.push({
+          rowNumber: null,
+          externalId: activity.externalId,
+          name: activity.name,
+          action: locked ? 'unchanged' : 'deactivated',
+          activityId: activity.id,
+          changes: locked ? [] : [change],
+          lockedChanges: locked ? [change] : [],
+        });
+      }
+    }
+
+    return {
+      deactivateMissing: batch.deactivateMissing,
+      summary: summarizeImportDiff(entries),
+      entries,
+    };
+  }
+
+  /**
+   * The vendor's active activities with no row in the batch. Rows that
+   * failed validation still count as present.
+   */
+  private async findMissingActivities(batch: ImportBatch) {
+    const rows = await prisma.importRow.findMany({
+      where: { importBatchId: batch.id, externalId: { not: null } },
+      select: { externalId: true },
+    });
+
+    return prisma.activity.findMany({
+      where: {
+        vendorId: batch.vendorId,
+        isActive: true,
+        externalId: { notIn: rows.map(row => row.externalId!) },
+      },
+      select: { id: true, externalId: true, name: true, manuallyEditedFields: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Deactivate the vendor's activities that aren't in the batch, except
+   * ones an admin has locked active
+   */
+  private async deactivateMissingActivities(batch: ImportBatch): Promise<number> {
+    const missing = (await this.findMissingActivities(batch))
+      .filter(activity => !activity.manuallyEditedFields.includes('isActive'));
+
+    if (missing.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.activity.updateMany({
+      where: { id: { in: missing.map(activity => activity.id) }, isActive: true },
+      data: { isActive: false, isUpdated: true },
+    });
+
+    return result.count;
+  }
+
   /**
    * Get import batch with details
    */
@@ -601,6 +747,7 @@ export class ImportService {
       updated,
       skipped: 0,
       failed,
+      deactivated: 0,
       errors,
     };
   }
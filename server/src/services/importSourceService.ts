@@ -0,0 +1,445 @@
+import { ImportSource, Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { importService } from './importService';
+import { approvalService } from './approvalService';
+import { fileParserService, ImportFileType } from './fileParserService';
+import { importMappingTemplateService } from './importMappingTemplateService';
+import { webhookService } from './webhookService';
+import { FieldMapping } from './activityImportMapper';
+import { emailService } from '../utils/emailService';
+import { resolveTemplateMapping } from '../utils/columnDetection';
+import {
+  HttpFetcher,
+  RemoteFetcher,
+  fetchRemoteFile,
+  hashContent,
+  isImportSourceFrequency,
+  nextScheduledRun
+} from '../utils/remoteImport';
+import { assertPublicHost } from '../utils/outboundRequests';
+
+export interface ImportSourceInput {
+  name: string;
+  url: string;
+  frequency?: string;
+  fieldMappingId?: string | null;
+  deactivateMissing?: boolean;
+  isActive?: boolean;
+}
+
+export type ImportSourceRunStatus = 'imported' | 'unchanged' | 'failed';
+
+export interface ImportSourceRunResult {
+  status: ImportSourceRunStatus;
+  batchId: string | null;
+  error?: string;
+}
+
+const MAX_SOURCES_PER_VENDOR = 5;
+// A source is paused after this many failed runs in a row
+const MAX_CONSECUTIVE_FAILURES = 5;
+const DUE_BATCH_SIZE = 20;
+const RECENT_BATCH_COUNT = 10;
+
+/**
+ * Service for vendors' remote import sources: files pulled from a URL on a
+ * schedule and imported through the normal validation and approval flow
+ */
+export class ImportSourceService {
+  private readonly fetchers: Record<string, RemoteFetcher>;
+
+  constructor(fetchers?: Record<string, RemoteFetcher>) {
+    const http = new HttpFetcher();
+    this.fetchers = fetchers || { 'http:': http, 'https:': http };
+  }
+
+  /**
+   * Add a fetcher for another URL protocol (e.g. "sftp")
+   */
+  registerFetcher(protocol: string, fetcher: RemoteFetcher): void {
+    this.fetchers[protocol.endsWith(':') ? protocol : `${protocol}:`] = fetcher;
+  }
+
+  /**
+   * List a vendor's sources
+   */
+  async listSources(vendorId: string): Promise<ImportSource[]> {
+    return prisma.importSource.findMany({
+      where: { vendorId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * A source with its most recent batches
+   */
+  async getSource(vendorId: string, sourceId: string) {
+    return prisma.importSource.findFirst({
+      where: { id: sourceId, vendorId },
+      include: {
+        batches: {
+          orderBy: { uploadedAt: 'desc' },
+          take: RECENT_BATCH_COUNT,
+          select: {
+            id: true,
+            fileName: true,
+            status: true,
+            approvalStatus: true,
+            totalRows: true,
+            validRows: true,
+            invalidRows: true,
+            uploadedAt: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Register a source. Its first pull happens on the next scheduler run.
+   */
+  async createSource(vendorId: string, createdBy: string | null, input: ImportSourceInput): Promise<ImportSource> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Source name is required');
+    }
+
+    await this.assertUrlAllowed(input.url);
+    const frequency = this.validateFrequency(input.frequency ?? 'daily');
+    await this.assertTemplateOwned(vendorId, input.fieldMappingId);
+
+    const count = await prisma.importSource.count({ where: { vendorId } });
+    if (count >= MAX_SOURCES_PER_VENDOR) {
+      throw new Error(`You can register at most ${MAX_SOURCES_PER_VENDOR} import sources`);
+    }
+
+    return prisma.importSource.create({
+      data: {
+        vendorId,
+        name,
+        url: input.url.trim(),
+        frequency,
+        fieldMappingId: input.fieldMappingId || null,
+        deactivateMissing: input.deactivateMissing || false,
+        isActive: input.isActive ?? true,
+        createdBy,
+      },
+    });
+  }
+
+  /**
+   * Update a source. Resuming a paused source clears its failure count, and
+   * a new URL is always re-imported on its next run.
+   */
+  async updateSource(
+    vendorId: string,
+    sourceId: string,
+    input: Partial<ImportSourceInput>
+  ): Promise<ImportSource | null> {
+    const source = await prisma.importSource.findFirst({
+      where: { id: sourceId, vendorId },
+    });
+
+    if (!source) {
+      return null;
+    }
+
+    const data: Prisma.ImportSourceUncheckedUpdateInput = {};
+
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (!name) {
+        throw new Error('Source name is required');
+      }
+      data.name = name;
+    }
+
+    if (input.url !== undefined && input.url.trim() !== source.url) {
+      await this.assertUrlAllowed(input.url);
+      data.url = input.url.trim();
+      data.lastContentHash = null;
+    }
+
+    if (input.frequency !== undefined) {
+      data.frequency = this.validateFrequency(input.frequency);
+    }
+
+    if (input.fieldMappingId !== undefined) {
+      await this.assertTemplateOwned(vendorId, input.fieldMappingId);
+      data.fieldMappingId = input.fieldMappingId || null;
+    }
+
+    if (input.deactivateMissing !== undefined) data.deactivateMissing = input.deactivateMissing;
+
+    if (input.isActive !== undefined) {
+      data.isActive = input.isActive;
+      if (input.isActive && !source.isActive) {
+        data.consecutiveFailures = 0;
+        data.nextRunAt = new Date();
+      }
+    }
+
+    return prisma.importSource.update({
+      where: { id: sourceId },
+      data,
+    });
+  }
+
+  /**
+   * Delete a source. Its batches are kept.
+   */
+  async deleteSource(vendorId: string, sourceId: string): Promise<boolean> {
+    const result = await prisma.importSource.deleteMany({
+      where: { id: sourceId, vendorId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Pull a source now, outside its schedule
+   */
+  async runNow(vendorId: string, sourceId: string): Promise<ImportSourceRunResult | null> {
+    const source = await prisma.importSource.findFirst({
+      where: { id: sourceId, vendorId },
+    });
+
+    if (!source) {
+      return null;
+    }
+
+    return this.runSource(source);
+  }
+
+  /**
+   * Pull every active source that is due. Called periodically by the scheduler.
+   */
+  async processDueSources(now: Date = new Date()): Promise<Record<ImportSourceRunStatus, number> & { checked: number }> {
+    const result = { checked: 0, imported: 0, unchanged: 0, failed: 0 };
+
+    const due = await prisma.importSource.findMany({
+      where: { isActive: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: DUE_BATCH_SIZE,
+    });
+
+    for (const source of due) {
+      // Claim the run by moving nextRunAt forward, so overlapping scheduler
+      // runs don't pull the same source twice
+      const frequency = isImportSourceFrequency(source.frequency) ? source.frequency : 'daily';
+      const claimed = await prisma.importSource.updateMany({
+        where: { id: source.id, nextRunAt: source.nextRunAt },
+        data: { nextRunAt: nextScheduledRun(frequency, now) },
+      });
+      if (claimed.count === 0) continue;
+
+      result.checked++;
+      const run = await this.runSource(source);
+      result[run.status]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a source and, if the file changed since the last import, create,
+   * validate and submit a batch for it
+   */
+  private async runSource(source: ImportSource): Promise<ImportSourceRunResult> {
+    let batchId: string | null = null;
+
+    try {
+      const file = await fetchRemoteFile(source.url, this.fetchers);
+      const contentHash = hashContent(file.buffer);
+
+      if (contentHash === source.lastContentHash) {
+        await this.recordRun(source, { lastStatus: 'unchanged' });
+        return { status: 'unchanged', batchId: null };
+      }
+
+      const fileType = fileParserService.validateFileType(file.fileName, file.mimeType);
+      if (!fileType) {
+        throw new Error(`"${file.fileName}" isn't a CSV, XLSX, iCalendar (.ics) or JSON-LD file`);
+      }
+
+      const rows = fileParserService.parseFile(file.buffer, fileType);
+      const { mapping, templateId } = await this.resolveMapping(source, fileType, fileParserService.detectHeaders(rows));
+
+      const batch = await importService.createImportBatch(
+        source.vendorId,
+        {
+          originalname: file.fileName,
+          mimetype: file.mimeType,
+          buffer: file.buffer,
+          size: file.buffer.length,
+        },
+        null,
+        mapping,
+        { deactivateMissing: source.deactivateMissing, importSourceId: source.id }
+      );
+      batchId = batch.id;
+
+      if (templateId) {
+        await importMappingTemplateService.markUsed(source.vendorId, templateId);
+      }
+
+      const validation = await importService.validateImportBatch(batch.id, mapping);
+      if (!validation.success) {
+        throw new Error(`None of the ${validation.totalRows} rows passed validation`);
+      }
+
+      await approvalService.submitForApproval(
+        batch.id,
+        source.createdBy || 'SYSTEM',
+        `Scheduled import from ${source.name}`
+      );
+
+      await this.recordRun(source, {
+        lastStatus: 'imported',
+        lastContentHash: contentHash,
+        lastBatchId: batch.id,
+      });
+      return { status: 'imported', batchId: batch.id };
+    } catch (error: any) {
+      await this.recordFailure(source, error.message, batchId);
+      return { status: 'failed', batchId, error: error.message };
+    }
+  }
+
+  /**
+   * The mapping for a pulled file: the source's template, or else the saved
+   * template matching the file's headers. iCalendar and JSON-LD files always
+   * use the same columns, so they don't need one.
+   */
+  private async resolveMapping(
+    source: ImportSource,
+    fileType: ImportFileType,
+    headers: string[]
+  ): Promise<{ mapping: FieldMapping; templateId: string | null }> {
+    if (fileType === 'ics' || fileType === 'jsonld') {
+      const suggestions = fileParserService.suggestFieldMappings(headers, fileType);
+      const mapping: FieldMapping = {};
+      for (const [field, suggestion] of Object.entries(suggestions)) {
+        mapping[field] = suggestion.suggestedColumn;
+      }
+      return { mapping, templateId: null };
+    }
+
+    if (source.fieldMappingId) {
+      const template = await prisma.importFieldMapping.findFirst({
+        where: { id: source.fieldMappingId, vendorId: source.vendorId },
+      });
+
+      if (template) {
+        const mapping = resolveTemplateMapping(template.mappings as FieldMapping, headers);
+        if (!mapping) {
+          throw new Error(`The file no longer has every column the "${template.name}" template maps`);
+        }
+        return { mapping, templateId: template.id };
+      }
+    }
+
+    const match = await importMappingTemplateService.findMatchingTemplate(source.vendorId, headers);
+    if (!match) {
+      throw new Error("No saved mapping template matches this file's columns. Upload the file once and save its mapping as a template.");
+    }
+
+    return { mapping: match.mapping, templateId: match.template.id };
+  }
+
+  private async recordRun(source: ImportSource, data: Prisma.ImportSourceUncheckedUpdateInput): Promise<void> {
+    await prisma.importSource.update({
+      where: { id: source.id },
+      data: {
+        ...data,
+        lastRunAt: new Date(),
+        lastError: null,
+        consecutiveFailures: 0,
+      },
+    });
+  }
+
+  /**
+   * Record a failed run and alert the vendor: by webhook every time, and by
+   * email on the first failure in a row and when the source is paused
+   */
+  private async recordFailure(source: ImportSource, error: string, batchId: string | null): Promise<void> {
+    const consecutiveFailures = source.consecutiveFailures + 1;
+    const paused = consecutiveFailures >= MAX_CONSECUTIVE_FAILURES;
+
+    const updated = await prisma.importSource.update({
+      where: { id: source.id },
+      data: {
+        lastRunAt: new Date(),
+        lastStatus: 'failed',
+        lastError: error,
+        lastBatchId: batchId ?? source.lastBatchId,
+        consecutiveFailures,
+        ...(paused && { isActive: false }),
+      },
+      include: { vendor: { select: { name: true, email: true } } },
+    });
+
+    try {
+      await webhookService.notifyImportSourceFailed(updated, error);
+
+      if (consecutiveFailures === 1 || paused) {
+        await emailService.sendImportSourceFailedEmail(updated.vendor.email, updated.vendor.name, {
+          name: updated.name,
+          url: updated.url,
+          error,
+          paused,
+        });
+      }
+    } catch (alertError) {
+      console.error(`[ImportSources] Could not alert vendor about source ${source.id}:`, alertError);
+    }
+  }
+
+  private async assertUrlAllowed(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url?.trim());
+    } catch {
+      throw new Error('Source URL is not valid');
+    }
+
+    if (!this.fetchers[parsed.protocol]) {
+      throw new Error(`Unsupported source protocol: ${parsed.protocol.replace(':', '')}`);
+    }
+
+    // Plain http is only accepted outside production, for local testing
+    if (parsed.protocol === 'http:' && process.env.NODE_ENV === 'production') {
+      throw new Error('Source URL must use https');
+    }
+
+    // Fail early on internal hosts; the fetcher also checks every request
+    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+      try {
+        await assertPublicHost(parsed.hostname);
+      } catch {
+        throw new Error('Source URL must point to a public host');
+      }
+    }
+  }
+
+  private validateFrequency(frequency: string): string {
+    if (!isImportSourceFrequency(frequency)) {
+      throw new Error('Frequency must be hourly, daily or weekly');
+    }
+    return frequency;
+  }
+
+  private async assertTemplateOwned(vendorId: string, fieldMappingId?: string | null): Promise<void> {
+    if (!fieldMappingId) return;
+
+    const template = await prisma.importFieldMapping.findFirst({
+      where: { id: fieldMappingId, vendorId },
+    });
+    if (!template) {
+      throw new Error('Mapping template not found');
+    }
+  }
+}
+
+// Export singleton instance
+export const importSourceService = new ImportSourceService();
@@ -6,8 +6,9 @@ import { userPreferenceMatcherService } from './userPreferenceMatcherService';
 import { activitySnapshotService, PriceDropEvent, CapacityChangeEvent } from './activitySnapshotService';
 import { pushNotificationService } from './pushNotificationService';
 import { subscriptionService } from './subscriptionService';
+import type { SavedSearchMatch } from './savedSearchService';
 
-type NotificationType = 'daily_digest' | 'weekly_digest' | 'capacity_alert' | 'price_drop' | 'spots_available';
+type NotificationType = 'daily_digest' | 'weekly_digest' | 'capacity_alert' | 'price_drop' | 'spots_available' | 'saved_search';
 
 interface EmailNotificationResult {
   success: boolean;
@@ -401,6 +402,80 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send a waitlist promotion email to one family.
+   * Not deduplicated: the waitlist watcher only alerts a family again after the activity re-fills.
+   */
+  async sendWaitlistPromotionAlert(
+    userId: string,
+    activityId: string,
+    childNames: string[],
+    holdExpiresAt: Date
+  ): Promise<EmailNotificationResult> {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user || !user.email) {
+        return { success: false, error: 'User not found or has no email' };
+      }
+
+      const activity = await prisma.activity.findUnique({
+        where: { id: activityId },
+        include: { provider: true, location: true }
+      });
+
+      if (!activity) {
+        return { success: false, error: 'Activity not found' };
+      }
+
+      const unsubscribeUrl = await this.generateUnsubscribeUrl(userId, 'all');
+
+      await emailService.sendSpotsAvailableAlert(user, activity, unsubscribeUrl, { childNames, holdExpiresAt });
+
+      const logId = await this.logNotification(
+        userId,
+        user.email,
+        'spots_available',
+        [activityId],
+        'sent'
+      );
+
+      return { success: true, logId };
+    } catch (error) {
+      console.error(`Failed to send waitlist promotion to user ${userId}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Send new matches for a user's saved searches as an email digest
+   * Plan limits are enforced by the saved search evaluator
+   */
+  async sendSavedSearchAlert(userId: string, matches: SavedSearchMatch[]): Promise<EmailNotificationResult> {
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user || !user.email) {
+        return { success: false, error: 'User not found or has no email' };
+      }
+
+      const unsubscribeUrl = await this.generateUnsubscribeUrl(userId, 'saved_searches');
+
+      await emailService.sendSavedSearchDigest(user, matches, unsubscribeUrl);
+
+      const logId = await this.logNotification(
+        userId,
+        user.email,
+        'saved_search',
+        matches.flatMap(match => match.activities.map(a => a.id)),
+        'sent'
+      );
+
+      return { success: true, logId };
+    } catch (error) {
+      console.error(`Failed to send saved search alert to user ${userId}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   /**
    * Process capacity changes and send alerts to affected users
    */
@@ -426,6 +501,25 @@ export class NotificationService {
         console.error(`[Notification] Failed to send capacity alert push:`, error);
       }
 
+      // Parents watching this activity for a child also get the sell-out projection
+      try {
+        const projection = await activitySnapshotService.getFillProjection(change.activityId);
+        const favoritedBy = await prisma.favorite.findMany({
+          where: { activityId: change.activityId, notifyOnChange: true },
+          select: { userId: true }
+        });
+        const watchResult = await pushNotificationService.sendWatchingCapacityNotification(
+          change.activityId,
+          activity,
+          change.newSpots,
+          projection?.message ?? null,
+          favoritedBy.map(f => f.userId)
+        );
+        console.log(`[Notification] Watched capacity alert push sent: ${watchResult.successCount} success`);
+      } catch (error) {
+        console.error(`[Notification] Failed to send watched capacity alert push:`, error);
+      }
+
       // Get users who have favorited this activity and want capacity alerts (for email)
       const users = await userPreferenceMatcherService.getUsersWithFavoriteCapacityAlerts(change.activityId);
 
@@ -589,6 +683,13 @@ export class NotificationService {
       notifications.priceDrops = false;
     }
 
+    if (unsubToken.type === 'saved_searches') {
+      await prisma.savedSearch.updateMany({
+        where: { userId: unsubToken.userId },
+        data: { notifyOnNew: false }
+      });
+    }
+
     await prisma.user.update({
       where: { id: unsubToken.userId },
       data: { preferences: { ...prefs, notifications } }
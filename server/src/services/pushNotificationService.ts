@@ -8,6 +8,7 @@ import { prisma } from '../lib/prisma';
 import { Activity, User } from '../../generated/prisma';
 import { initializeFirebase, getFirebaseMessaging, admin } from '../config/firebase';
 import { subscriptionService } from './subscriptionService';
+import type { SavedSearchMatch } from './savedSearchService';
 
 export interface PushNotificationPayload {
   title: string;
@@ -297,6 +298,71 @@ class PushNotificationService {
     return this.sendToUsers(userIds, payload);
   }
 
+  /**
+   * Send capacity notification to parents watching an activity for a child
+   * Includes the sell-out projection when there is one, e.g. "At current pace this fills in ~4 days"
+   * Note: Only premium users receive these notifications (paywalled)
+   */
+  async sendWatchingCapacityNotification(
+    activityId: string,
+    activity: Activity,
+    spotsRemaining: number,
+    projectionMessage: string | null,
+    excludeUserIds: string[] = []
+  ): Promise<SendResult> {
+    const watching = await prisma.childWatching.findMany({
+      where: {
+        activityId,
+        notifyAlmostFull: true,
+        child: { isActive: true, userId: { notIn: excludeUserIds } },
+      },
+      select: { child: { select: { userId: true, name: true } } },
+    });
+
+    if (watching.length === 0) {
+      return { successCount: 0, failureCount: 0, invalidTokens: [] };
+    }
+
+    // One notification per parent, naming each child they're watching for
+    const childNamesByUser = new Map<string, string[]>();
+    for (const { child } of watching) {
+      childNamesByUser.set(child.userId, [...(childNamesByUser.get(child.userId) || []), child.name]);
+    }
+
+    const userIds = await this.filterPremiumUsers(Array.from(childNamesByUser.keys()));
+    if (userIds.length === 0) {
+      console.log('[FCM] No premium users to notify for watched capacity alert');
+      return { successCount: 0, failureCount: 0, invalidTokens: [] };
+    }
+
+    const spotsText = spotsRemaining === 1 ? 'Only 1 spot left' : `Only ${spotsRemaining} spots left`;
+    const total: SendResult = { successCount: 0, failureCount: 0, invalidTokens: [] };
+
+    for (const userId of userIds) {
+      const childNames = childNamesByUser.get(userId)!.join(' & ');
+      const payload: PushNotificationPayload = {
+        title: `Filling up for ${childNames}`,
+        body: projectionMessage
+          ? `${spotsText} in ${activity.name}. ${projectionMessage}.`
+          : `${spotsText} in ${activity.name}!`,
+        data: {
+          type: 'capacity_alert',
+          activityId: activity.id,
+          activityName: activity.name,
+          spotsRemaining: spotsRemaining.toString(),
+          screen: 'ActivityDetail',
+        },
+      };
+
+      const result = await this.sendToUser(userId, payload);
+      total.successCount += result.successCount;
+      total.failureCount += result.failureCount;
+      total.invalidTokens.push(...result.invalidTokens);
+    }
+
+    return total;
+  }
+
   /**
    * Send price drop notification to users who favorited an activity
    * Note: Only premium users receive these notifications (paywalled)
@@ -346,6 +412,60 @@ class PushNotificationService {
     return this.sendToUsers(userIds, payload);
   }
 
+  /**
+   * Send new matches for a user's saved searches
+   * Plan limits are enforced by the saved search evaluator
+   */
+  async sendSavedSearchNotification(userId: string, matches: SavedSearchMatch[]): Promise<SendResult> {
+    const total = matches.reduce((sum, match) => sum + match.total, 0);
+    const [first] = matches;
+    const singleActivity = matches.length === 1 && first.total === 1 ? first.activities[0] : null;
+
+    const payload: PushNotificationPayload = {
+      title: matches.length === 1 ? `New for "${first.savedSearchName}"` : 'New matches for your saved searches',
+      body: singleActivity
+        ? `${singleActivity.name} was just listed`
+        : `${total} new ${total === 1 ? 'activity matches' : 'activities match'} ${matches.length === 1 ? 'this search' : `${matches.length} of your searches`}`,
+      data: {
+        type: 'saved_search',
+        savedSearchId: first.savedSearchId,
+        ...(singleActivity ? { activityId: singleActivity.id, activityName: singleActivity.name } : {}),
+        screen: singleActivity ? 'ActivityDetail' : 'SavedSearches',
+      },
+    };
+
+    return this.sendToUser(userId, payload);
+  }
+
+  /**
+   * Send a waitlist promotion to one family. Tapping it opens the registration page directly.
+   * Premium and queue order are enforced by the waitlist watcher
+   */
+  async sendWaitlistSpotNotification(
+    userId: string,
+    activity: Activity,
+    childNames: string[],
+    holdExpiresAt: Date
+  ): Promise<SendResult> {
+    const registrationUrl = activity.directRegistrationUrl || activity.registrationUrl;
+    const holdMinutes = Math.max(1, Math.round((holdExpiresAt.getTime() - Date.now()) / 60000));
+
+    const payload: PushNotificationPayload = {
+      title: `Spot open for ${childNames.join(' & ')}!`,
+      body: `A spot opened up in ${activity.name}. We're holding your place in line for ${holdMinutes} minutes - tap to register.`,
+      data: {
+        type: 'spots_available',
+        activityId: activity.id,
+        activityName: activity.name,
+        holdExpiresAt: holdExpiresAt.toISOString(),
+        ...(registrationUrl ? { registrationUrl } : {}),
+        screen: 'ActivityDetail',
+      },
+    };
+
+    return this.sendToUser(userId, payload);
+  }
+
   /**
    * Send invitation notification to a user
    */
@@ -388,6 +508,108 @@ class PushNotificationService {
     return this.sendToUser(senderUserId, payload);
   }
 
+  /**
+   * Tell a user their account was signed in to on a new device
+   */
+  async sendNewSignInNotification(userId: string, deviceName: string): Promise<SendResult> {
+    const payload: PushNotificationPayload = {
+      title: 'New Sign-in',
+      body: `${deviceName} signed in to your account. Not you? Sign it out in Devices & Sessions.`,
+      data: {
+        type: 'new_sign_in',
+        screen: 'DevicesSessions',
+      },
+    };
+
+    return this.sendToUser(userId, payload);
+  }
+
+  /**
+   * Invite a connected family to a carpool
+   */
+  async sendCarpoolInviteNotification(
+    recipientUserId: string,
+    organizerName: string,
+    groupId: string,
+    activityName: string
+  ): Promise<SendResult> {
+    const payload: PushNotificationPayload = {
+      title: 'Carpool Invitation',
+      body: `${organizerName} wants to share driving to ${activityName}`,
+      data: {
+        type: 'carpool',
+        groupId,
+        screen: 'SharedActivities',
+      },
+    };
+
+    return this.sendToUser(recipientUserId, payload);
+  }
+
+  /**
+   * Tell a carpool organizer that a family accepted or declined
+   */
+  async sendCarpoolResponseNotification(
+    organizerUserId: string,
+    responderName: string,
+    carpoolName: string,
+    groupId: string,
+    accepted: boolean
+  ): Promise<SendResult> {
+    const payload: PushNotificationPayload = {
+      title: accepted ? 'Carpool Accepted' : 'Carpool Declined',
+      body: `${responderName} ${accepted ? 'joined' : 'declined'} ${carpoolName}`,
+      data: {
+        type: 'carpool',
+        groupId,
+        screen: 'SharedActivities',
+      },
+    };
+
+    return this.sendToUser(organizerUserId, payload);
+  }
+
+  /**
+   * Remind tomorrow's carpool driver, and let the other families know who's driving
+   */
+  async sendCarpoolReminderNotification(
+    driverUserId: string,
+    otherUserIds: string[],
+    ride: {
+      groupId: string;
+      carpoolName: string;
+      activityName: string;
+      driverName: string;
+      pickupTime: string | null;
+      childNames: string[];
+    }
+  ): Promise<SendResult> {
+    const pickup = ride.pickupTime ? ` Pickup at ${ride.pickupTime}.` : '';
+    const data = { type: 'carpool', groupId: ride.groupId, screen: 'SharedActivities' };
+
+    const driverResult = await this.sendToUser(driverUserId, {
+      title: "You're driving tomorrow",
+      body: `${ride.activityName} carpool: ${ride.childNames.join(', ')}.${pickup}`,
+      data,
+    });
+
+    if (otherUserIds.length === 0) {
+      return driverResult;
+    }
+
+    const othersResult = await this.sendToUsers(otherUserIds, {
+      title: `${ride.carpoolName} tomorrow`,
+      body: `${ride.driverName} is driving to ${ride.activityName}.${pickup}`,
+      data,
+    });
+
+    return {
+      successCount: driverResult.successCount + othersResult.successCount,
+      failureCount: driverResult.failureCount + othersResult.failureCount,
+      invalidTokens: [...driverResult.invalidTokens, ...othersResult.invalidTokens],
+    };
+  }
+
   /**
    * Send a test notification to a user (for debugging)
    */
@@ -0,0 +1,386 @@
+import { Prisma, RankingModel } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { PreferenceVector, RankingWeights, ScoreBreakdown } from '../ai/utils/activityScorer';
+import {
+  POSITIVE_EVENTS,
+  RankingMode,
+  RankingVersionReport,
+  RecommendationEventType,
+  VersionEngagement,
+  buildPreferenceVector,
+  buildRankingLists,
+  pickRankingVersion,
+  summarizeRankingVersions,
+  trainRankingWeights,
+} from '../ai/utils/rankingModel';
+
+// Server-side actions are credited to a recommendation shown this recently
+const ATTRIBUTION_WINDOW_DAYS = 14;
+const TRAINING_WINDOW_DAYS = 90;
+const PREFERENCE_WINDOW_DAYS = 180;
+// Requests with feedback needed before a model is worth fitting
+const MIN_TRAINING_LISTS = 20;
+const MAX_TRAINING_LISTS = 5000;
+const MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecommendationImpression {
+  activityId: string;
+  rank: number;
+  childId?: string | null;
+  features?: ScoreBreakdown | null;
+}
+
+export interface RankingModelUpdate {
+  status?: 'candidate' | 'active' | 'retired';
+  trafficPercent?: number;
+}
+
+export interface RankingReport {
+  since: Date;
+  versions: RankingVersionReport[];
+  models: RankingModel[];
+}
+
+interface ActiveModel {
+  version: string;
+  trafficPercent: number;
+  weights: RankingWeights;
+}
+
+/**
+ * Service for recommendation feedback: records what families do with AI
+ * recommendations, fits scorer weights from it and reports on ranking versions
+ */
+export class RankingFeedbackService {
+  private modelCache = new Map<RankingMode, { models: ActiveModel[]; loadedAt: number }>();
+
+  /**
+   * Weights to rank with for a user. Active models split traffic by user;
+   * everyone else gets the hand-tuned weights.
+   */
+  async getRankingWeights(
+    userId: string,
+    mode: RankingMode
+  ): Promise<{ version: string; weights?: RankingWeights }> {
+    const models = await this.getActiveModels(mode);
+    const version = pickRankingVersion(userId, models);
+    const model = models.find(m => m.version === version);
+
+    return { version, weights: model?.weights };
+  }
+
+  /**
+   * A user's learned category affinity, if they've given any feedback
+   */
+  async getPreferenceVector(userId: string): Promise<PreferenceVector | undefined> {
+    const preference = await prisma.userRankingPreference.findUnique({
+      where: { userId }
+    });
+
+    return preference ? (preference.vector as PreferenceVector) : undefined;
+  }
+
+  /**
+   * Record the recommendations shown for a request
+   */
+  async recordImpressions(
+    userId: string,
+    requestId: string,
+    mode: RankingMode,
+    rankingVersion: string,
+    impressions: RecommendationImpression[]
+  ): Promise<number> {
+    if (impressions.length === 0) return 0;
+
+    const result = await prisma.recommendationEvent.createMany({
+      data: impressions.map(impression => ({
+        requestId,
+        userId,
+        activityId: impression.activityId,
+        childId: impression.childId || null,
+        eventType: 'impression',
+        mode,
+        rank: impression.rank,
+        rankingVersion,
+        features: impression.features
+          ? (impression.features as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+      })),
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Record feedback on a recommendation the user was shown. Returns false if
+   * the request didn't show them that activity.
+   */
+  async recordFeedback(
+    userId: string,
+    requestId: string,
+    activityId: string,
+    eventType: RecommendationEventType,
+    childId?: string | null
+  ): Promise<boolean> {
+    const impression = await prisma.recommendationEvent.findFirst({
+      where: { requestId, activityId, userId, eventType: 'impression' }
+    });
+
+    if (!impression) return false;
+
+    await prisma.recommendationEvent.createMany({
+      data: [{
+        requestId,
+        userId,
+        activityId,
+        childId: childId || impression.childId,
+        eventType,
+        mode: impression.mode,
+        rankingVersion: impression.rankingVersion,
+      }],
+      skipDuplicates: true
+    });
+
+    await this.refreshPreferenceVector(userId);
+    return true;
+  }
+
+  /**
+   * Credit a favorite, waitlist join or registration to the latest
+   * recommendation that showed the activity, if there was one
+   */
+  async attributeAction(
+    userId: string,
+    activityId: string,
+    eventType: Extract<RecommendationEventType, 'favorite' | 'waitlist_join' | 'registration'>,
+    childId?: string
+  ): Promise<boolean> {
+    const impression = await prisma.recommendationEvent.findFirst({
+      where: {
+        userId,
+        activityId,
+        eventType: 'impression',
+        createdAt: { gte: new Date(Date.now() - ATTRIBUTION_WINDOW_DAYS * DAY_MS) }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!impression) return false;
+
+    return this.recordFeedback(userId, impression.requestId, activityId, eventType, childId);
+  }
+
+  /**
+   * Rebuild a user's preference vector from their recent feedback
+   */
+  async refreshPreferenceVector(userId: string): Promise<PreferenceVector> {
+    const events = await prisma.recommendationEvent.findMany({
+      where: {
+        userId,
+        createdAt: { gte: new Date(Date.now() - PREFERENCE_WINDOW_DAYS * DAY_MS) }
+      },
+      select: { activityId: true, eventType: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: 1000
+    });
+
+    const activities = await prisma.activity.findMany({
+      where: { id: { in: [...new Set(events.map(e => e.activityId))] } },
+      select: { id: true, category: true }
+    });
+    const categories = new Map(activities.map(a => [a.id, a.category]));
+
+    const vector = buildPreferenceVector(
+      events.map(event => ({
+        category: categories.get(event.activityId) || null,
+        eventType: event.eventType as RecommendationEventType,
+        createdAt: event.createdAt,
+      }))
+    );
+
+    await prisma.userRankingPreference.upsert({
+      where: { userId },
+      create: { userId, vector, eventCount: events.length },
+      update: { vector, eventCount: events.length }
+    });
+
+    return vector;
+  }
+
+  /**
+   * Refresh preference vectors for users who gave feedback since a date
+   */
+  async refreshRecentPreferenceVectors(since: Date): Promise<number> {
+    const users = await prisma.recommendationEvent.findMany({
+      where: { createdAt: { gte: since }, eventType: { not: 'impression' } },
+      select: { userId: true },
+      distinct: ['userId']
+    });
+
+    for (const { userId } of users) {
+      await this.refreshPreferenceVector(userId);
+    }
+
+    return users.length;
+  }
+
+  /**
+   * Fit a candidate model from recent feedback. Returns null if there isn't
+   * enough feedback yet. Candidates get no traffic until an admin activates them.
+   */
+  async trainModel(mode: RankingMode = 'recommendations'): Promise<RankingModel | null> {
+    const since = new Date(Date.now() - TRAINING_WINDOW_DAYS * DAY_MS);
+
+    const withFeedback = await prisma.recommendationEvent.findMany({
+      where: {
+        mode,
+        createdAt: { gte: since },
+        eventType: { in: [...POSITIVE_EVENTS, 'dismiss'] }
+      },
+      select: { requestId: true },
+      distinct: ['requestId'],
+      orderBy: { requestId: 'asc' },
+      take: MAX_TRAINING_LISTS
+    });
+
+    if (withFeedback.length < MIN_TRAINING_LISTS) return null;
+
+    const events = await prisma.recommendationEvent.findMany({
+      where: { requestId: { in: withFeedback.map(e => e.requestId) } },
+      select: { requestId: true, activityId: true, eventType: true, features: true }
+    });
+
+    const lists = buildRankingLists(
+      events.map(event => ({
+        requestId: event.requestId,
+        activityId: event.activityId,
+        eventType: event.eventType as RecommendationEventType,
+        features: event.features as Partial<ScoreBreakdown> | null,
+      }))
+    ).filter(list => list.items.length > 1);
+
+    if (lists.length < MIN_TRAINING_LISTS) return null;
+
+    const { weights, metrics } = trainRankingWeights(lists);
+    const version = `${mode}-${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '')}`;
+
+    return prisma.rankingModel.create({
+      data: {
+        version,
+        mode,
+        weights: weights as Prisma.InputJsonValue,
+        metrics: metrics as unknown as Prisma.InputJsonValue,
+        sampleCount: lists.length,
+      }
+    });
+  }
+
+  /**
+   * Activate, ramp or retire a model. Active models of a mode can't take
+   * more than 100% of traffic between them.
+   */
+  async updateModel(version: string, update: RankingModelUpdate): Promise<RankingModel> {
+    const model = await prisma.rankingModel.findUnique({ where: { version } });
+    if (!model) {
+      throw new Error('Ranking model not found');
+    }
+
+    const status = update.status ?? model.status;
+    const trafficPercent = status === 'active' ? (update.trafficPercent ?? model.trafficPercent) : 0;
+
+    if (status === 'active') {
+      const others = await prisma.rankingModel.aggregate({
+        where: { mode: model.mode, status: 'active', version: { not: version } },
+        _sum: { trafficPercent: true }
+      });
+      if ((others._sum.trafficPercent || 0) + trafficPercent > 100) {
+        throw new Error('Active models would get more than 100% of traffic');
+      }
+    }
+
+    const updated = await prisma.rankingModel.update({
+      where: { version },
+      data: {
+        status,
+        trafficPercent,
+        ...(status === 'active' && model.status !== 'active' && { activatedAt: new Date() })
+      }
+    });
+
+    this.modelCache.delete(model.mode as RankingMode);
+    return updated;
+  }
+
+  /**
+   * Engagement per ranking version over the last few days, with all models
+   */
+  async getReport(days: number = 30): Promise<RankingReport> {
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const [counts, engaged, models] = await Promise.all([
+      prisma.$queryRaw<Array<{ version: string; event_type: string; events: number; requests: number }>>`
+        SELECT "rankingVersion" AS version, "eventType" AS event_type,
+          COUNT(*)::int AS events, COUNT(DISTINCT "requestId")::int AS requests
+        FROM "RecommendationEvent"
+        WHERE "createdAt" >= ${since}
+        GROUP BY "rankingVersion", "eventType"
+      `,
+      prisma.$queryRaw<Array<{ version: string; impressions: number; avg_rank: number | null }>>`
+        SELECT i."rankingVersion" AS version, COUNT(*)::int AS impressions, AVG(i."rank")::float AS avg_rank
+        FROM "RecommendationEvent" i
+        WHERE i."eventType" = 'impression' AND i."createdAt" >= ${since}
+          AND EXISTS (
+            SELECT 1 FROM "RecommendationEvent" e
+            WHERE e."requestId" = i."requestId" AND e."activityId" = i."activityId"
+              AND e."eventType" IN (${Prisma.join(POSITIVE_EVENTS)})
+          )
+        GROUP BY i."rankingVersion"
+      `,
+      prisma.rankingModel.findMany({ orderBy: { trainedAt: 'desc' }, take: 20 })
+    ]);
+
+    const engagement: Record<string, VersionEngagement> = {};
+    for (const row of engaged) {
+      engagement[row.version] = { impressions: row.impressions, avgRank: row.avg_rank };
+    }
+
+    return {
+      since,
+      versions: summarizeRankingVersions(
+        counts.map(row => ({
+          version: row.version,
+          eventType: row.event_type as RecommendationEventType,
+          events: row.events,
+          requests: row.requests,
+        })),
+        engagement
+      ),
+      models,
+    };
+  }
+
+  private async getActiveModels(mode: RankingMode): Promise<ActiveModel[]> {
+    const cached = this.modelCache.get(mode);
+    if (cached && Date.now() - cached.loadedAt < MODEL_CACHE_TTL_MS) {
+      return cached.models;
+    }
+
+    const rows = await prisma.rankingModel.findMany({
+      where: { mode, status: 'active', trafficPercent: { gt: 0 } },
+      orderBy: { activatedAt: 'asc' }
+    });
+    const models = rows.map(row => ({
+      version: row.version,
+      trafficPercent: row.trafficPercent,
+      weights: row.weights as RankingWeights,
+    }));
+
+    this.modelCache.set(mode, { models, loadedAt: Date.now() });
+    return models;
+  }
+}
+
+export const rankingFeedbackService = new RankingFeedbackService();
@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import { Activity, SavedSearch } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { EnhancedActivityService } from './activityService.enhanced';
+import { subscriptionService } from './subscriptionService';
+import { notificationService } from './notificationService';
+import { pushNotificationService } from './pushNotificationService';
+import { userPreferenceMatcherService } from './userPreferenceMatcherService';
+import {
+  SavedSearchFilters,
+  normalizeSavedSearchFilters,
+  toSearchParams,
+  describeSavedSearch
+} from '../utils/savedSearchFilters';
+
+// Matches included per saved search in a single alert
+const MAX_MATCHES_PER_SEARCH = 20;
+
+export interface CreateSavedSearchData {
+  name?: string;
+  filters: unknown;
+  notifyOnNew?: boolean;
+}
+
+export interface UpdateSavedSearchData {
+  name?: string;
+  filters?: unknown;
+  notifyOnNew?: boolean;
+}
+
+export interface SavedSearchMatch {
+  savedSearchId: string;
+  savedSearchName: string;
+  activities: Activity[];
+  total: number;
+}
+
+export interface SavedSearchEvaluationResult {
+  usersChecked: number;
+  searchesChecked: number;
+  usersNotified: number;
+  matchesFound: number;
+}
+
+/**
+ * Service for saved searches and their new-match alerts
+ */
+export class SavedSearchService {
+  private activityService = new EnhancedActivityService();
+
+  /**
+   * List a user's saved searches, newest first
+   */
+  async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get a saved search owned by the user
+   */
+  async getSavedSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    return prisma.savedSearch.findFirst({
+      where: { id, userId }
+    });
+  }
+
+  /**
+   * Get the shareable part of a saved search (name and filters) by its share
+   * token, for share links opened by someone other than the owner
+   */
+  async getSharedSavedSearch(shareToken: string): Promise<Pick<SavedSearch, 'name' | 'filters'> | null> {
+    return prisma.savedSearch.findUnique({
+      where: { shareToken },
+      select: { name: true, filters: true }
+    });
+  }
+
+  /**
+   * Give a saved search owned by the user a new share token. Links made with
+   * the previous token stop working.
+   */
+  async shareSavedSearch(userId: string, id: string): Promise<string | null> {
+    const shareToken = crypto.randomBytes(24).toString('hex');
+
+    const result = await prisma.savedSearch.updateMany({
+      where: { id, userId },
+      data: { shareToken }
+    });
+    return result.count > 0 ? shareToken : null;
+  }
+
+  /**
+   * Stop sharing a saved search owned by the user
+   */
+  async stopSharingSavedSearch(userId: string, id: string): Promise<boolean> {
+    const result = await prisma.savedSearch.updateMany({
+      where: { id, userId },
+      data: { shareToken: null }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Create a saved search. Callers check the plan limit first.
+   * Alerts only cover activities listed after the search was saved.
+   */
+  async createSavedSearch(userId: string, data: CreateSavedSearchData): Promise<SavedSearch> {
+    const filters = normalizeSavedSearchFilters(data.filters);
+
+    return prisma.savedSearch.create({
+      data: {
+        userId,
+        name: data.name?.trim() || describeSavedSearch(filters),
+        filters: filters as any,
+        notifyOnNew: data.notifyOnNew ?? true,
+        lastChecked: new Date()
+      }
+    });
+  }
+
+  /**
+   * Update a saved search owned by the user
+   */
+  async updateSavedSearch(userId: string, id: string, data: UpdateSavedSearchData): Promise<SavedSearch | null> {
+    const existing = await this.getSavedSearch(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    const updateData: Record<string, any> = {};
+    if (data.name !== undefined) {
+      updateData.name = data.name.trim() || existing.name;
+    }
+    if (data.filters !== undefined) {
+      updateData.filters = normalizeSavedSearchFilters(data.filters);
+      // Changed criteria shouldn't alert on everything already listed
+      updateData.lastChecked = new Date();
+    }
+    if (data.notifyOnNew !== undefined) {
+      updateData.notifyOnNew = data.notifyOnNew;
+      if (data.notifyOnNew && !existing.notifyOnNew) {
+        updateData.lastChecked = new Date();
+      }
+    }
+
+    return prisma.savedSearch.update({
+      where: { id },
+      data: updateData
+    });
+  }
+
+  /**
+   * Delete a saved search owned by the user
+   */
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    const result = await prisma.savedSearch.deleteMany({
+      where: { id, userId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Find activities listed since the search was last checked
+   */
+  async findNewMatches(savedSearch: SavedSearch): Promise<SavedSearchMatch> {
+    const filters = savedSearch.filters as SavedSearchFilters;
+    const since = savedSearch.lastChecked || savedSearch.createdAt;
+
+    const result = await this.activityService.searchActivities({
+      ...toSearchParams(filters),
+      createdAfter: since,
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      sponsoredMode: 'none',
+      limit: MAX_MATCHES_PER_SEARCH
+    });
+
+    return {
+      savedSearchId: savedSearch.id,
+      savedSearchName: savedSearch.name,
+      activities: result.activities as Activity[],
+      total: result.pagination.total
+    };
+  }
+
+  /**
+   * Evaluate every saved search with alerts on and notify users about new matches.
+   *
+   * Only the oldest `savedSearchLimit` searches are evaluated for each user, so
+   * searches kept after a downgrade stop alerting. Users in quiet hours are
+   * skipped without advancing lastChecked, so their matches go out next run.
+   */
+  async evaluateSavedSearches(): Promise<SavedSearchEvaluationResult> {
+    const result: SavedSearchEvaluationResult = {
+      usersChecked: 0,
+      searchesChecked: 0,
+      usersNotified: 0,
+      matchesFound: 0
+    };
+
+    const searches = await prisma.savedSearch.findMany({
+      where: { notifyOnNew: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const searchesByUser = new Map<string, SavedSearch[]>();
+    for (const search of searches) {
+      searchesByUser.set(search.userId, [...(searchesByUser.get(search.userId) || []), search]);
+    }
+
+    for (const [userId, userSearches] of searchesByUser) {
+      try {
+        const limits = await subscriptionService.getUserLimits(userId);
+        if (!limits.hasSavedSearches || limits.savedSearchLimit <= 0) {
+          continue;
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user || userPreferenceMatcherService.isInQuietHours(user)) {
+          continue;
+        }
+
+        result.usersChecked++;
+        const checkedAt = new Date();
+        const matches: SavedSearchMatch[] = [];
+
+        for (const search of userSearches.slice(0, limits.savedSearchLimit)) {
+          // Claim the search by moving lastChecked forward, so overlapping
+          // runs on other instances don't alert on the same matches
+          const claimed = await prisma.savedSearch.updateMany({
+            where: { id: search.id, lastChecked: search.lastChecked },
+            data: { lastChecked: checkedAt }
+          });
+          if (claimed.count === 0) continue;
+
+          const match = await this.findNewMatches(search);
+          result.searchesChecked++;
+
+          if (match.activities.length > 0) {
+            matches.push(match);
+            result.matchesFound += match.total;
+          }
+        }
+
+        if (matches.length === 0) {
+          continue;
+        }
+
+        await notificationService.sendSavedSearchAlert(userId, matches);
+        await pushNotificationService.sendSavedSearchNotification(userId, matches);
+        result.usersNotified++;
+      } catch (error) {
+        console.error(`[SavedSearch] Failed to evaluate saved searches for user ${userId}:`, error);
+      }
+    }
+
+    return result;
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,144 @@
+import { Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import {
+  ScheduleConflict,
+  ScheduleItem,
+  CONFLICT_HORIZON_DAYS,
+  detectScheduleConflicts
+} from '../utils/scheduleConflicts';
+
+const scheduleChildActivityInclude = {
+  child: { select: { id: true, name: true, userId: true } },
+  activity: {
+    include: {
+      location: { select: { name: true, latitude: true, longitude: true } },
+      sessions: { select: { date: true, startTime: true, endTime: true } }
+    }
+  }
+} as const;
+
+type ScheduleChildActivity = Prisma.ChildActivityGetPayload<{
+  include: typeof scheduleChildActivityInclude;
+}>;
+
+export interface FamilyConflictOptions {
+  childId?: string;
+  days?: number;
+}
+
+/**
+ * Service for family-wide schedule conflicts: overlaps and impossible
+ * drives between activities of a user's children and the children
+ * co-parents share with them
+ */
+export class ScheduleConflictService {
+  /**
+   * Load the family's current (not completed) activities as schedule items.
+   * Shared children only contribute activities the share lets this user see.
+   */
+  async getFamilySchedule(userId: string): Promise<ScheduleItem[]> {
+    const shares = await prisma.activityShare.findMany({
+      where: {
+        sharedWithUserId: userId,
+        isActive: true,
+        OR: [
+          { expiresAt: null },
+          { expiresAt: { gt: new Date() } }
+        ]
+      },
+      include: { profiles: true }
+    });
+
+    const sharedProfiles = new Map(
+      shares.flatMap(share => share.profiles.map(profile => [profile.childId, profile] as const))
+    );
+
+    const childActivities = await prisma.childActivity.findMany({
+      where: {
+        status: { not: 'completed' },
+        child: {
+          isActive: true,
+          OR: [
+            { userId },
+            { id: { in: [...sharedProfiles.keys()] } }
+          ]
+        }
+      },
+      include: scheduleChildActivityInclude
+    });
+
+    return childActivities
+      .filter(item => {
+        const profile = sharedProfiles.get(item.childId);
+        if (!profile) return true;
+        // in_progress is a registration; planned means planning to join
+        return item.status === 'in_progress'
+          ? profile.canViewRegistered
+          : profile.canViewInterested;
+      })
+      .map(item => this.toScheduleItem(item));
+  }
+
+  /**
+   * All conflicts across the family, optionally only those involving one child
+   */
+  async getFamilyConflicts(userId: string, options: FamilyConflictOptions = {}): Promise<ScheduleConflict[]> {
+    const schedule = await this.getFamilySchedule(userId);
+    const focusIds = options.childId
+      ? schedule.filter(item => item.childId === options.childId).map(item => item.id)
+      : undefined;
+
+    return detectScheduleConflicts(schedule, {
+      horizonDays: options.days ?? CONFLICT_HORIZON_DAYS,
+      focusIds
+    });
+  }
+
+  /**
+   * Conflicts caused by activities just linked to a child. Failures are
+   * logged and reported as no conflicts so they never block the link.
+   */
+  async checkNewLinks(userId: string, childId: string, activityIds: string[]): Promise<ScheduleConflict[]> {
+    try {
+      const schedule = await this.getFamilySchedule(userId);
+      const focusIds = schedule
+        .filter(item => item.childId === childId && activityIds.includes(item.activityId))
+        .map(item => item.id);
+
+      if (focusIds.length === 0) {
+        return [];
+      }
+
+      return detectScheduleConflicts(schedule, { focusIds });
+    } catch (error) {
+      console.error('[ScheduleConflicts] Failed to check new links:', error);
+      return [];
+    }
+  }
+
+  private toScheduleItem(item: ScheduleChildActivity): ScheduleItem {
+    const { activity } = item;
+
+    return {
+      id: item.id,
+      childId: item.childId,
+      childName: item.child.name,
+      familyUserId: item.child.userId,
+      activityId: activity.id,
+      activityName: activity.name,
+      locationId: activity.locationId,
+      locationName: activity.location?.name || activity.locationName,
+      latitude: activity.latitude ?? activity.location?.latitude ?? null,
+      longitude: activity.longitude ?? activity.location?.longitude ?? null,
+      dateStart: activity.dateStart,
+      dateEnd: activity.dateEnd,
+      dayOfWeek: activity.dayOfWeek || [],
+      startTime: item.startTime || activity.startTime,
+      endTime: item.endTime || activity.endTime,
+      scheduledDate: item.scheduledDate,
+      sessions: activity.sessions
+    };
+  }
+}
+
+export const scheduleConflictService = new ScheduleConflictService();
@@ -0,0 +1,56 @@
+import { ScheduledTaskState } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+
+/**
+ * Service for scheduled jobs that run on every API instance. Instances share
+ * each job's state in the database, and a run claims its work by moving that
+ * state on with a conditional update, so two instances never do the same batch.
+ */
+export class ScheduledTaskService {
+  /**
+   * A task's current state, created on first use
+   */
+  async getState(name: string): Promise<ScheduledTaskState> {
+    const state = await prisma.scheduledTaskState.findUnique({ where: { name } });
+    if (state) {
+      return state;
+    }
+
+    await prisma.scheduledTaskState.createMany({ data: [{ name }], skipDuplicates: true });
+    return prisma.scheduledTaskState.findUniqueOrThrow({ where: { name } });
+  }
+
+  /**
+   * Move a task's cursor on from the state a run read. Returns false if
+   * another instance moved it first, in which case that instance owns the batch.
+   */
+  async advanceCursor(state: ScheduledTaskState, cursor: string | null): Promise<boolean> {
+    const result = await prisma.scheduledTaskState.updateMany({
+      where: { name: state.name, version: state.version },
+      data: { cursor, version: { increment: 1 } }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Claim a run of a task that should run at most once per interval across
+   * all instances. Returns the state from before the claim (for the previous
+   * lastRunAt), or null if it ran too recently or another instance claimed it.
+   */
+  async claimRun(name: string, minIntervalMs: number, now: Date = new Date()): Promise<ScheduledTaskState | null> {
+    const state = await this.getState(name);
+    if (state.lastRunAt && now.getTime() - state.lastRunAt.getTime() < minIntervalMs) {
+      return null;
+    }
+
+    const result = await prisma.scheduledTaskState.updateMany({
+      where: { name, version: state.version },
+      data: { lastRunAt: now, version: { increment: 1 } }
+    });
+
+    return result.count > 0 ? state : null;
+  }
+}
+
+export const scheduledTaskService = new ScheduledTaskService();
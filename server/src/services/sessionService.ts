@@ -1,5 +1,7 @@
 import { prisma } from '../lib/prisma';
 import { tokenUtils } from '../utils/tokenUtils';
+import { emailService } from '../utils/emailService';
+import { pushNotificationService } from './pushNotificationService';
 import crypto from 'crypto';
 
 interface SessionData {
@@ -12,15 +14,30 @@ interface SessionData {
 interface SessionInfo {
   id: string;
   userAgent: string | null;
+  deviceName: string | null;
   ipAddress: string | null;
   createdAt: Date | null;
   lastAccessedAt: Date | null;
 }
 
+interface SignInContext {
+  userAgent?: string;
+  deviceName?: string;
+  ipAddress?: string;
+  // When the user entered their password (Firebase auth_time, seconds)
+  authTime?: number;
+}
+
 export class SessionService {
   private readonly SESSION_EXPIRY_DAYS = 7;
   private readonly MAX_SESSIONS_PER_USER = 5;
   private readonly TRUSTED_DEVICE_EXPIRY_DAYS = 30;
+  private readonly SIGN_IN_EXPIRY_DAYS = 30;
+  // Revoked sign-ins are kept long enough to outlive any token from them
+  private readonly REVOKED_SESSION_RETENTION_DAYS = 365;
+  private readonly ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+  // Only sign-ins this recent count as new devices, not ones from before tracking started
+  private readonly NEW_SIGN_IN_WINDOW_SECONDS = 10 * 60;
 
   /**
    * Create a new session
@@ -61,7 +78,8 @@ export class SessionService {
       where: {
         userId,
         refreshTokenHash: hashedToken,
-        expiresAt: { gt: new Date() }
+        expiresAt: { gt: new Date() },
+        revokedAt: null
       }
     });
 
@@ -97,6 +115,105 @@ export class SessionService {
     });
   }
 
+  /**
+   * Track a Firebase sign-in as a session. Firebase issues the refresh
+   * tokens, so the sign-in (uid + auth_time) stands in for one. Returns null
+   * if the sign-in was signed out remotely.
+   */
+  async touchSignIn(userId: string, signInKey: string, context: SignInContext): Promise<{ id: string; isNew: boolean } | null> {
+    const hashedKey = tokenUtils.hashToken(signInKey);
+    const where = { userId_refreshTokenHash: { userId, refreshTokenHash: hashedKey } };
+
+    const existing = await prisma.session.findUnique({
+      where,
+      select: { id: true, revokedAt: true, lastAccessedAt: true }
+    });
+
+    if (existing) {
+      if (existing.revokedAt) {
+        return null;
+      }
+
+      // Only write now and then, not on every request
+      const lastAccessed = existing.lastAccessedAt?.getTime() ?? 0;
+      if (Date.now() - lastAccessed > this.ACTIVITY_UPDATE_INTERVAL_MS) {
+        await prisma.session.update({
+          where: { id: existing.id },
+          data: {
+            lastAccessedAt: new Date(),
+            expiresAt: this.daysFromNow(this.SIGN_IN_EXPIRY_DAYS),
+            ipAddress: context.ipAddress
+          }
+        }).catch(() => {
+          // Session might have been deleted, ignore error
+        });
+      }
+
+      return { id: existing.id, isNew: false };
+    }
+
+    try {
+      const session = await prisma.session.create({
+        data: {
+          userId,
+          refreshTokenHash: hashedKey,
+          userAgent: context.userAgent,
+          deviceName: context.deviceName,
+          ipAddress: context.ipAddress,
+          expiresAt: this.daysFromNow(this.SIGN_IN_EXPIRY_DAYS),
+          lastAccessedAt: new Date()
+        }
+      });
+
+      this.notifyNewSignIn(userId, session.id, context).catch(error =>
+        console.error('[Session] Failed to send new sign-in notice:', error)
+      );
+
+      return { id: session.id, isNew: true };
+    } catch (error: any) {
+      // Another request from the same sign-in created it first
+      if (error.code === 'P2002') {
+        const session = await prisma.session.findUnique({ where, select: { id: true, revokedAt: true } });
+        return session && !session.revokedAt ? { id: session.id, isNew: false } : null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out one session. Returns false if it isn't the user's.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        expiresAt: this.daysFromNow(this.REVOKED_SESSION_RETENTION_DAYS)
+      }
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Sign out every session except the current one
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(currentSessionId && { id: { not: currentSessionId } })
+      },
+      data: {
+        revokedAt: new Date(),
+        expiresAt: this.daysFromNow(this.REVOKED_SESSION_RETENTION_DAYS)
+      }
+    });
+
+    return result.count;
+  }
+
   /**
    * Get active sessions for a user
    */
@@ -104,11 +221,13 @@ export class SessionService {
     const sessions = await prisma.session.findMany({
       where: {
         userId,
-        expiresAt: { gt: new Date() }
+        expiresAt: { gt: new Date() },
+        revokedAt: null
       },
       select: {
         id: true,
         userAgent: true,
+        deviceName: true,
         ipAddress: true,
         createdAt: true,
         lastAccessedAt: true
@@ -119,6 +238,18 @@ export class SessionService {
     return sessions;
   }
 
+  /**
+   * Whether a session exists and hasn't been signed out or expired
+   */
+  async isSessionActive(userId: string, sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true }
+    });
+
+    return !!session;
+  }
+
   /**
    * Update session last accessed time
    */
@@ -148,9 +279,10 @@ export class SessionService {
    * Clean up old sessions for a user (keep only the most recent ones)
    */
   private async cleanupUserSessions(userId: string): Promise<void> {
-    // Get all sessions for user, ordered by creation date
+    // Get all sessions for user, ordered by creation date. Revoked ones stay
+    // so their sign-ins keep being refused.
     const sessions = await prisma.session.findMany({
-      where: { userId },
+      where: { userId, revokedAt: null },
       orderBy: { createdAt: 'desc' },
       select: { id: true }
     });
@@ -168,6 +300,43 @@ export class SessionService {
     }
   }
 
+  /**
+   * Tell the user by email and push when a new device signs in, unless it's
+   * their first device
+   */
+  private async notifyNewSignIn(userId: string, sessionId: string, context: SignInContext): Promise<void> {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (!context.authTime || nowSeconds - context.authTime > this.NEW_SIGN_IN_WINDOW_SECONDS) {
+      return;
+    }
+
+    const [otherSessions, user] = await Promise.all([
+      prisma.session.count({ where: { userId, id: { not: sessionId } } }),
+      prisma.user.findUnique({ where: { id: userId }, select: { email: true, name: true } })
+    ]);
+
+    if (otherSessions === 0 || !user) {
+      return;
+    }
+
+    const deviceName = context.deviceName || 'A new device';
+
+    await Promise.all([
+      emailService.sendNewSignInEmail(user.email, user.name, {
+        deviceName,
+        ipAddress: context.ipAddress,
+        signedInAt: new Date(context.authTime * 1000)
+      }),
+      pushNotificationService.sendNewSignInNotification(userId, deviceName)
+    ]);
+  }
+
+  private daysFromNow(days: number): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return date;
+  }
+
   /**
    * Generate device fingerprint
    */
@@ -230,6 +399,21 @@ export class SessionService {
     });
   }
 
+  /**
+   * Remove trusted device by ID (from a device list). Returns false if the
+   * device isn't the user's.
+   */
+  async removeTrustedDeviceById(userId: string, deviceId: string): Promise<boolean> {
+    const result = await prisma.trustedDevice.deleteMany({
+      where: {
+        id: deviceId,
+        userId
+      }
+    });
+
+    return result.count > 0;
+  }
+
   /**
    * Get all trusted devices for a user
    */
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma, Activity } from '../../generated/prisma';
 import { prisma as sharedPrisma } from '../lib/prisma';
+import { webhookService } from './webhookService';
 
 // Tier configuration
 const TIER_CONFIG = {
@@ -249,7 +250,7 @@ export class SponsoredActivityService {
 
     // Update monthly stats (upsert for each activity)
     for (const activityId of activityIds) {
-      await this.prisma.sponsoredMonthlyStats.upsert({
+      const stats = await this.prisma.sponsoredMonthlyStats.upsert({
         where: {
           activityId_year_month: {
             activityId,
@@ -277,11 +278,45 @@ export class SponsoredActivityService {
           // Note: uniqueUsers tracking requires more complex logic
         }
       });
+
+      if (impressionType === 'top_result') {
+        await this.notifyIfCapReached(activityId, stats.topResultCount, currentYear, currentMonth);
+      }
     }
 
     console.log(`[SponsoredService] Recorded ${activityIds.length} ${impressionType} impressions`);
   }
 
+  /**
+   * Let the provider's webhook endpoints know when an activity has used up
+   * its monthly top-result quota. Fires once, on the impression that hits it.
+   */
+  private async notifyIfCapReached(activityId: string, topResultCount: number, year: number, month: number): Promise<void> {
+    // Skip the lookup unless the count matches some tier's limit
+    if (!Object.values(TIER_CONFIG).some(config => config.monthlyLimit === topResultCount)) return;
+
+    const activity = await this.prisma.activity.findUnique({
+      where: { id: activityId },
+      select: { id: true, name: true, externalId: true, providerId: true, featuredTier: true }
+    });
+    if (!activity?.providerId) return;
+
+    const tier = (activity.featuredTier?.toLowerCase() || 'bronze') as keyof typeof TIER_CONFIG;
+    const config = TIER_CONFIG[tier] || TIER_CONFIG.bronze;
+    if (config.monthlyLimit === null || topResultCount !== config.monthlyLimit) return;
+
+    await webhookService.emitToProvider(activity.providerId, 'sponsored.impression_cap_reached', {
+      activityId: activity.id,
+      activityName: activity.name,
+      externalId: activity.externalId,
+      tier,
+      monthlyLimit: config.monthlyLimit,
+      impressions: topResultCount,
+      year,
+      month
+    });
+  }
+
   /**
    * Get analytics for a sponsored activity.
    */
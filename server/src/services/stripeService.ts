@@ -1,10 +1,13 @@
 /**
- * Stripe Service for Partner Payments
- * Handles subscription management for Bronze, Silver, and Gold partner tiers
+ * Stripe Service for Partner and Consumer Payments
+ * Handles subscription management for Bronze, Silver, and Gold partner tiers,
+ * and consumer premium bought on the website
  */
 
 import Stripe from 'stripe';
 import { prisma } from '../lib/prisma';
+import { subscriptionService } from './subscriptionService';
+import { fromStripeStatus, grantsAccess, willRenew } from '../utils/entitlements';
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -393,29 +396,48 @@ export async function handleWebhookEvent(event: Stripe.Event): Promise<void> {
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
-      await handleCheckoutComplete(session);
+      if (session.metadata?.userId) {
+        await handleConsumerCheckoutComplete(session);
+      } else {
+        await handleCheckoutComplete(session);
+      }
       break;
     }
 
     case 'customer.subscription.created':
     case 'customer.subscription.updated': {
       const subscription = event.data.object as Stripe.Subscription;
-      await handleSubscriptionUpdate(subscription);
+      if (subscription.metadata?.userId) {
+        await syncConsumerSubscription(subscription);
+      } else {
+        await handleSubscriptionUpdate(subscription);
+      }
       break;
     }
 
     case 'customer.subscription.deleted': {
       const subscription = event.data.object as Stripe.Subscription;
-      await handleSubscriptionCancelled(subscription);
+      if (subscription.metadata?.userId) {
+        await syncConsumerSubscription(subscription);
+      } else {
+        await handleSubscriptionCancelled(subscription);
+      }
       break;
     }
 
+    // Consumer past-due states arrive as subscription updates
     case 'invoice.payment_failed': {
       const invoice = event.data.object as Stripe.Invoice;
       await handlePaymentFailed(invoice);
       break;
     }
 
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      await handleConsumerChargeRefunded(charge);
+      break;
+    }
+
     default:
       console.log(`[Stripe Webhook] Unhandled event type: ${event.type}`);
   }
@@ -900,6 +922,373 @@ export async function getSubscriptionDetails(partnerAccountId: string): Promise<
   }
 }
 
+// ==================== Consumer Premium ====================
+
+const CONSUMER_TRIAL_DAYS = 7;
+
+// Cache for consumer plan product/price IDs, by plan code and price amounts
+const consumerProducts: Record<string, StripeProductConfig> = {};
+
+/**
+ * Get or create the Stripe product and prices for a consumer plan. Prices
+ * follow the plan's monthly and annual prices, so a new price is created
+ * when those change.
+ */
+async function getConsumerProduct(planCode: string): Promise<StripeProductConfig> {
+  const plan = await subscriptionService.getPlanByCode(planCode);
+  if (!plan || !plan.isActive || plan.code === 'free') {
+    throw new Error(`Plan not available: ${planCode}`);
+  }
+
+  const monthlyAmount = Math.round(plan.monthlyPrice * 100);
+  const yearlyAmount = Math.round(plan.annualPrice * 100);
+  // A price change gets a new key, so new Stripe prices are found or created
+  const cacheKey = `${planCode}:${monthlyAmount}:${yearlyAmount}`;
+  const cached = consumerProducts[cacheKey];
+  if (cached) {
+    return cached;
+  }
+
+  const existingProducts = await stripe.products.search({
+    query: `metadata['planCode']:'${planCode}'`,
+  });
+
+  const product = existingProducts.data[0] || await stripe.products.create({
+    name: plan.name,
+    description: plan.description || undefined,
+    metadata: { planCode },
+  });
+
+  const existingPrices = await stripe.prices.list({
+    product: product.id,
+    active: true,
+  });
+
+  const findPrice = (interval: 'month' | 'year', amount: number) =>
+    existingPrices.data.find(price => price.recurring?.interval === interval && price.unit_amount === amount)?.id;
+
+  const monthlyPriceId = findPrice('month', monthlyAmount) || (await stripe.prices.create({
+    product: product.id,
+    unit_amount: monthlyAmount,
+    currency: 'cad',
+    recurring: { interval: 'month' },
+    metadata: { planCode, billingCycle: 'monthly' },
+  })).id;
+
+  const yearlyPriceId = findPrice('year', yearlyAmount) || (await stripe.prices.create({
+    product: product.id,
+    unit_amount: yearlyAmount,
+    currency: 'cad',
+    recurring: { interval: 'year' },
+    metadata: { planCode, billingCycle: 'annual' },
+  })).id;
+
+  consumerProducts[cacheKey] = { productId: product.id, monthlyPriceId, yearlyPriceId };
+  return consumerProducts[cacheKey];
+}
+
+/**
+ * Period end of a subscription, from the subscription or its first item
+ */
+function getPeriodEnd(subscription: Stripe.Subscription): Date | null {
+  const timestamp = (subscription as any).current_period_end ?? (subscription.items?.data?.[0] as any)?.current_period_end;
+  return timestamp ? new Date(timestamp * 1000) : null;
+}
+
+/**
+ * The user's Stripe subscription, if it still grants access
+ */
+async function getActiveConsumerSubscription(userId: string): Promise<Stripe.Subscription> {
+  const entitlement = await prisma.subscriptionEntitlement.findUnique({
+    where: { userId_provider: { userId, provider: 'stripe' } },
+  });
+
+  if (!entitlement || !grantsAccess(entitlement)) {
+    throw new Error('No active web subscription found');
+  }
+
+  return stripe.subscriptions.retrieve(entitlement.externalId);
+}
+
+/**
+ * Create a Stripe Checkout session for consumer premium. First-time
+ * subscribers get the same free trial as in the app.
+ */
+export async function createConsumerCheckoutSession(params: {
+  userId: string;
+  planCode?: string;
+  billingCycle: 'monthly' | 'annual';
+  successUrl: string;
+  cancelUrl: string;
+}): Promise<Stripe.Checkout.Session> {
+  const { userId, billingCycle, successUrl, cancelUrl } = params;
+  const planCode = params.planCode || 'premium';
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { subscription: { include: { plan: true } } },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // Don't bill twice for the same plan
+  const current = user.subscription;
+  if (current && current.plan.code !== 'free' && ['active', 'trialing', 'past_due'].includes(current.status)) {
+    throw new Error(current.externalProvider === 'revenuecat'
+      ? 'You already have Premium through the App Store or Google Play'
+      : 'You already have Premium');
+  }
+
+  const productConfig = await getConsumerProduct(planCode);
+  const priceId = billingCycle === 'monthly'
+    ? productConfig.monthlyPriceId
+    : productConfig.yearlyPriceId;
+
+  let customerId = user.stripeCustomerId;
+
+  if (!customerId) {
+    const customer = await stripe.customers.create({
+      email: user.email,
+      name: user.name,
+      metadata: { userId },
+    });
+    customerId = customer.id;
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { stripeCustomerId: customerId },
+    });
+  }
+
+  const metadata = { userId, planCode, billingCycle };
+
+  return stripe.checkout.sessions.create({
+    customer: customerId,
+    client_reference_id: userId,
+    mode: 'subscription',
+    line_items: [
+      {
+        price: priceId,
+        quantity: 1,
+      },
+    ],
+    success_url: `${successUrl}${successUrl.includes('?') ? '&' : '?'}session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: cancelUrl,
+    metadata,
+    subscription_data: {
+      metadata,
+      ...(!user.trialUsedAt && { trial_period_days: CONSUMER_TRIAL_DAYS }),
+    },
+    allow_promotion_codes: true,
+  });
+}
+
+/**
+ * Create a Stripe Customer Portal session for a consumer's web subscription
+ */
+export async function createConsumerPortalSession(params: {
+  userId: string;
+  returnUrl: string;
+}): Promise<Stripe.BillingPortal.Session> {
+  const user = await prisma.user.findUnique({
+    where: { id: params.userId },
+  });
+
+  if (!user?.stripeCustomerId) {
+    throw new Error('No web subscription found');
+  }
+
+  return stripe.billingPortal.sessions.create({
+    customer: user.stripeCustomerId,
+    return_url: params.returnUrl,
+  });
+}
+
+/**
+ * Cancel a consumer's web subscription at the end of the paid period
+ */
+export async function cancelConsumerSubscription(userId: string): Promise<void> {
+  const subscription = await getActiveConsumerSubscription(userId);
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    cancel_at_period_end: true,
+  });
+  await syncConsumerSubscription(updated);
+
+  console.log(`[Stripe] Premium cancellation scheduled for user ${userId}`);
+}
+
+/**
+ * Undo a scheduled cancellation
+ */
+export async function resumeConsumerSubscription(userId: string): Promise<void> {
+  const subscription = await getActiveConsumerSubscription(userId);
+
+  if (!subscription.cancel_at_period_end) {
+    throw new Error('Subscription is not scheduled to cancel');
+  }
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    cancel_at_period_end: false,
+  });
+  await syncConsumerSubscription(updated);
+}
+
+/**
+ * Switch a consumer's web subscription between monthly and annual billing.
+ * The change applies now: unused time on the current price is credited and
+ * the prorated difference is invoiced immediately.
+ */
+export async function changeConsumerBillingCycle(
+  userId: string,
+  billingCycle: 'monthly' | 'annual'
+): Promise<{ prorationAmount: number | null }> {
+  const subscription = await getActiveConsumerSubscription(userId);
+  const item = subscription.items.data[0];
+  const currentCycle = item.price.recurring?.interval === 'year' ? 'annual' : 'monthly';
+
+  if (currentCycle === billingCycle) {
+    throw new Error(`Subscription is already billed ${billingCycle === 'annual' ? 'annually' : 'monthly'}`);
+  }
+
+  const planCode = subscription.metadata?.planCode || 'premium';
+  const productConfig = await getConsumerProduct(planCode);
+
+  const updated = await stripe.subscriptions.update(subscription.id, {
+    items: [{
+      id: item.id,
+      price: billingCycle === 'monthly' ? productConfig.monthlyPriceId : productConfig.yearlyPriceId,
+    }],
+    proration_behavior: 'always_invoice',
+    metadata: {
+      ...subscription.metadata,
+      billingCycle,
+    },
+    expand: ['latest_invoice'],
+  });
+  await syncConsumerSubscription(updated);
+
+  const invoice = updated.latest_invoice as Stripe.Invoice | null;
+  return { prorationAmount: invoice ? invoice.amount_due / 100 : null };
+}
+
+/**
+ * Stop a web subscription from renewing when the user also buys premium in
+ * the app, so they aren't billed twice. They keep what they've paid for.
+ */
+export async function cancelDuplicateConsumerSubscription(userId: string): Promise<boolean> {
+  const entitlement = await prisma.subscriptionEntitlement.findUnique({
+    where: { userId_provider: { userId, provider: 'stripe' } },
+  });
+
+  if (!entitlement || !willRenew(entitlement)) {
+    return false;
+  }
+
+  const updated = await stripe.subscriptions.update(entitlement.externalId, {
+    cancel_at_period_end: true,
+  });
+  await syncConsumerSubscription(updated);
+
+  console.log(`[Stripe] Stopped web renewal for user ${userId} after an in-app purchase`);
+  return true;
+}
+
+/**
+ * Handle completed consumer checkout
+ */
+async function handleConsumerCheckoutComplete(session: Stripe.Checkout.Session): Promise<void> {
+  const userId = session.metadata?.userId;
+  const subscriptionId = session.subscription as string;
+
+  if (!userId || !subscriptionId) {
+    console.error('[Stripe] Missing user or subscription in consumer checkout session');
+    return;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  await syncConsumerSubscription(subscription);
+
+  if (subscription.status === 'trialing') {
+    await subscriptionService.recordTrialStart(userId);
+  }
+
+  console.log(`[Stripe] Checkout complete for user ${userId} (${subscription.status})`);
+}
+
+/**
+ * Record a consumer subscription's state as the user's Stripe entitlement
+ */
+async function syncConsumerSubscription(subscription: Stripe.Subscription): Promise<void> {
+  const userId = subscription.metadata?.userId;
+  if (!userId) {
+    return;
+  }
+
+  const status = fromStripeStatus(subscription.status, subscription.cancel_at_period_end);
+
+  // Ignore late events for a subscription the user has since replaced
+  const existing = await prisma.subscriptionEntitlement.findUnique({
+    where: { userId_provider: { userId, provider: 'stripe' } },
+  });
+  if (existing && existing.externalId !== subscription.id && status === 'expired') {
+    return;
+  }
+
+  await subscriptionService.upsertEntitlement(userId, 'stripe', {
+    externalId: subscription.id,
+    planCode: subscription.metadata?.planCode || 'premium',
+    status,
+    billingCycle: subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'annual' : 'monthly',
+    currentPeriodEnd: getPeriodEnd(subscription),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  });
+}
+
+/**
+ * Handle refunds of consumer charges. A full refund ends the subscription
+ * and premium immediately; partial refunds (goodwill credits) don't.
+ */
+async function handleConsumerChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const customerId = typeof charge.customer === 'string' ? charge.customer : charge.customer?.id;
+  if (!customerId) {
+    return;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { stripeCustomerId: customerId },
+  });
+  if (!user) {
+    return; // Partner charge
+  }
+
+  if (!charge.refunded) {
+    console.log(`[Stripe] Partial refund for user ${user.id}, premium unchanged`);
+    return;
+  }
+
+  const entitlement = await prisma.subscriptionEntitlement.findUnique({
+    where: { userId_provider: { userId: user.id, provider: 'stripe' } },
+  });
+  if (!entitlement || entitlement.status === 'refunded') {
+    return;
+  }
+
+  try {
+    await stripe.subscriptions.cancel(entitlement.externalId);
+  } catch (err: any) {
+    // Already cancelled
+    if (err.code !== 'resource_missing') {
+      throw err;
+    }
+  }
+
+  await subscriptionService.deactivateFromExternal(user.id, 'stripe', 'refunded');
+  console.log(`[Stripe] Refund processed, premium ended for user ${user.id}`);
+}
+
 // Verify webhook signature
 export function constructWebhookEvent(
   payload: string | Buffer,
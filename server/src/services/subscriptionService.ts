@@ -1,5 +1,12 @@
-import { SubscriptionPlan, Subscription } from '../../generated/prisma';
+import { SubscriptionPlan, Subscription, SubscriptionEntitlement } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
+import {
+  EntitlementProvider,
+  EntitlementStatus,
+  resolveEntitlement,
+  toSubscriptionStatus
+} from '../utils/entitlements';
+import { seatedMemberIds } from '../utils/family';
 
 // Default free plan limits (fallback if database lookup fails)
 const DEFAULT_FREE_LIMITS: PlanLimits = {
@@ -36,6 +43,16 @@ export interface UserSubscriptionInfo {
   };
   isTrialing: boolean;
   trialDaysRemaining: number | null;
+  // Set when the plan comes from another parent's family plan
+  family: { ownerId: string; ownerName: string } | null;
+}
+
+type SubscriptionWithPlan = Subscription & { plan: SubscriptionPlan };
+
+export interface EffectivePlan {
+  plan: SubscriptionPlan | null;
+  subscription: SubscriptionWithPlan | null;
+  family: { ownerId: string; ownerName: string } | null;
 }
 
 export interface CreateSubscriptionData {
@@ -47,6 +64,15 @@ export interface CreateSubscriptionData {
   trialDays?: number;
 }
 
+export interface EntitlementUpdate {
+  externalId: string;
+  planCode?: string;
+  status: EntitlementStatus;
+  billingCycle?: 'monthly' | 'annual' | null;
+  currentPeriodEnd?: Date | null;
+  cancelAtPeriodEnd?: boolean;
+}
+
 export class SubscriptionService {
   private readonly DEFAULT_TRIAL_DAYS = 7;
 
@@ -73,17 +99,11 @@ export class SubscriptionService {
    * Get user's current subscription with full details
    */
   async getUserSubscriptionInfo(userId: string): Promise<UserSubscriptionInfo> {
-    // Get user's subscription with plan
-    const subscription = await prisma.subscription.findUnique({
-      where: { userId },
-      include: { plan: true }
-    });
+    // Get user's own or family plan
+    const { plan: effectivePlan, subscription, family } = await this.getEffectivePlan(userId);
 
     // Get free plan as fallback
-    const freePlan = await this.getPlanByCode('free');
-
-    // Determine current plan
-    const plan = subscription?.plan || freePlan;
+    const plan = effectivePlan || await this.getPlanByCode('free');
 
     if (!plan) {
       throw new Error('No subscription plans configured in database');
@@ -120,7 +140,8 @@ export class SubscriptionService {
         savedSearchesCount
       },
       isTrialing,
-      trialDaysRemaining
+      trialDaysRemaining,
+      family
     };
   }
 
@@ -133,28 +154,95 @@ export class SubscriptionService {
       include: { plan: true }
     });
 
-    if (!subscription || !subscription.plan) {
-      return false;
+    if (subscription?.plan && this.isPaidAccess(subscription)) {
+      return true;
     }
 
-    // Check if subscription is active/trialing AND plan is not free
-    const isActiveSubscription = subscription.status === 'active' || subscription.status === 'trialing';
-    const isPaidPlan = subscription.plan.code !== 'free';
-
-    return isActiveSubscription && isPaidPlan;
+    // Premium shared by a co-parent's family plan
+    return (await this.getFamilyPlan(userId)) !== null;
   }
 
   /**
-   * Get just the limits for a user (faster query for limit checks)
+   * The plan a user's limits come from: their own paid plan, else a family
+   * plan they've joined, else their own (free) plan
    */
-  async getUserLimits(userId: string): Promise<PlanLimits> {
+  async getEffectivePlan(userId: string): Promise<EffectivePlan> {
     const subscription = await prisma.subscription.findUnique({
       where: { userId },
       include: { plan: true }
     });
 
-    if (subscription?.plan) {
-      return this.extractLimits(subscription.plan);
+    if (subscription?.plan && this.isPaidAccess(subscription)) {
+      return { plan: subscription.plan, subscription, family: null };
+    }
+
+    const familyPlan = await this.getFamilyPlan(userId);
+    if (familyPlan) {
+      return { plan: familyPlan.plan, subscription, family: familyPlan.family };
+    }
+
+    return { plan: subscription?.plan || null, subscription, family: null };
+  }
+
+  /**
+   * Plan shared with a user through a family plan they've joined, while the
+   * payer's subscription still covers their seat
+   */
+  async getFamilyPlan(userId: string): Promise<{
+    plan: SubscriptionPlan;
+    family: { ownerId: string; ownerName: string };
+  } | null> {
+    const membership = await prisma.familyMember.findFirst({
+      where: { memberId: userId, status: 'active' },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true,
+            subscription: { include: { plan: true } }
+          }
+        }
+      }
+    });
+
+    const ownerSubscription = membership?.owner.subscription;
+    if (!membership || !ownerSubscription || !this.isPaidAccess(ownerSubscription)) {
+      return null;
+    }
+
+    const members = await prisma.familyMember.findMany({
+      where: { ownerId: membership.ownerId, status: 'active' }
+    });
+
+    if (!seatedMemberIds(members, ownerSubscription.plan.familySeats).includes(userId)) {
+      return null;
+    }
+
+    return {
+      plan: ownerSubscription.plan,
+      family: { ownerId: membership.owner.id, ownerName: membership.owner.name }
+    };
+  }
+
+  /**
+   * Whether a subscription gives access to a paid plan. Past-due and
+   * cancelled subscriptions run until the period ends.
+   */
+  isPaidAccess(subscription: SubscriptionWithPlan): boolean {
+    const isActiveSubscription = ['active', 'trialing', 'past_due'].includes(subscription.status) ||
+      (subscription.status === 'cancelled' && !!subscription.currentPeriodEnd && subscription.currentPeriodEnd > new Date());
+
+    return isActiveSubscription && subscription.plan.code !== 'free';
+  }
+
+  /**
+   * Get just the limits for a user (faster query for limit checks)
+   */
+  async getUserLimits(userId: string): Promise<PlanLimits> {
+    const { plan } = await this.getEffectivePlan(userId);
+
+    if (plan) {
+      return this.extractLimits(plan);
     }
 
     // User has no subscription, use free plan limits
@@ -366,49 +454,54 @@ export class SubscriptionService {
   }
 
   /**
-   * Activate subscription (from RevenueCat webhook)
+   * Activate premium bought through RevenueCat or Stripe
    */
   async activateFromExternal(
     userId: string,
     externalId: string,
-    externalProvider: 'revenuecat' | 'stripe',
+    externalProvider: EntitlementProvider,
     planCode: string = 'premium',
     billingCycle: 'monthly' | 'annual' = 'monthly',
     currentPeriodEnd?: Date
   ): Promise<Subscription> {
-    const plan = await this.getPlanByCode(planCode);
-    if (!plan) {
-      throw new Error(`Plan not found: ${planCode}`);
-    }
-
-    // Upsert subscription
-    return prisma.subscription.upsert({
-      where: { userId },
-      update: {
-        planId: plan.id,
-        status: 'active',
-        billingCycle,
-        externalId,
-        externalProvider,
-        currentPeriodEnd,
-        cancelledAt: null
-      },
-      create: {
-        userId,
-        planId: plan.id,
-        status: 'active',
-        billingCycle,
-        externalId,
-        externalProvider,
-        currentPeriodEnd
-      }
+    return this.upsertEntitlement(userId, externalProvider, {
+      externalId,
+      planCode,
+      status: 'active',
+      billingCycle,
+      currentPeriodEnd: currentPeriodEnd ?? null,
+      cancelAtPeriodEnd: false
     });
   }
 
   /**
-   * Deactivate subscription (from RevenueCat webhook - expiration/cancellation)
+   * End a provider's entitlement (expiration or refund). The user keeps
+   * premium if another provider's entitlement still grants it.
    */
-  async deactivateFromExternal(userId: string): Promise<void> {
+  async deactivateFromExternal(
+    userId: string,
+    externalProvider: EntitlementProvider = 'revenuecat',
+    status: 'expired' | 'refunded' = 'expired'
+  ): Promise<void> {
+    const entitlement = await prisma.subscriptionEntitlement.findUnique({
+      where: { userId_provider: { userId, provider: externalProvider } }
+    });
+
+    if (entitlement) {
+      await prisma.subscriptionEntitlement.update({
+        where: { id: entitlement.id },
+        data: {
+          status,
+          cancelAtPeriodEnd: false,
+          ...(status === 'refunded' && { refundedAt: new Date() })
+        }
+      });
+      await this.syncSubscription(userId);
+      return;
+    }
+
+    // Purchases from before entitlements were tracked only have the
+    // subscription row, so downgrade it directly
     const freePlan = await this.getPlanByCode('free');
     if (!freePlan) {
       throw new Error('Free plan not found');
@@ -418,7 +511,7 @@ export class SubscriptionService {
       where: { userId }
     });
 
-    if (subscription) {
+    if (subscription && subscription.externalProvider === externalProvider) {
       await prisma.subscription.update({
         where: { userId },
         data: {
@@ -431,6 +524,142 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Get a user's entitlements from each payment provider
+   */
+  async getEntitlements(userId: string): Promise<SubscriptionEntitlement[]> {
+    return prisma.subscriptionEntitlement.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Find the entitlement for a provider's subscription ID
+   */
+  async findEntitlementByExternalId(
+    provider: EntitlementProvider,
+    externalId: string
+  ): Promise<SubscriptionEntitlement | null> {
+    return prisma.subscriptionEntitlement.findFirst({
+      where: { provider, externalId }
+    });
+  }
+
+  /**
+   * Record a provider's view of a user's purchase and update their plan.
+   * A refund is final for that purchase, so later events for the same
+   * subscription (e.g. its deletion) don't change it back.
+   */
+  async upsertEntitlement(
+    userId: string,
+    provider: EntitlementProvider,
+    update: EntitlementUpdate
+  ): Promise<Subscription> {
+    const existing = await prisma.subscriptionEntitlement.findUnique({
+      where: { userId_provider: { userId, provider } }
+    });
+
+    const keepRefund = existing?.status === 'refunded' && existing.externalId === update.externalId;
+    const status = keepRefund ? 'refunded' : update.status;
+    const cancelAtPeriodEnd = update.cancelAtPeriodEnd ?? false;
+
+    const data = {
+      externalId: update.externalId,
+      planCode: update.planCode || 'premium',
+      status,
+      billingCycle: update.billingCycle ?? null,
+      currentPeriodEnd: update.currentPeriodEnd ?? null,
+      cancelAtPeriodEnd,
+      cancelledAt: status === 'cancelled' || cancelAtPeriodEnd ? existing?.cancelledAt || new Date() : null
+    };
+
+    await prisma.subscriptionEntitlement.upsert({
+      where: { userId_provider: { userId, provider } },
+      update: {
+        ...data,
+        // A new purchase replaces a refunded one
+        ...(existing?.externalId !== update.externalId && { refundedAt: null })
+      },
+      create: { userId, provider, ...data }
+    });
+
+    return this.syncSubscription(userId);
+  }
+
+  /**
+   * Apply a provider event (cancellation, billing issue, plan change) to the
+   * user's existing entitlement from that provider. Returns null when there
+   * is none.
+   */
+  async updateEntitlement(
+    userId: string,
+    provider: EntitlementProvider,
+    changes: Partial<EntitlementUpdate>
+  ): Promise<Subscription | null> {
+    const existing = await prisma.subscriptionEntitlement.findUnique({
+      where: { userId_provider: { userId, provider } }
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    return this.upsertEntitlement(userId, provider, {
+      externalId: existing.externalId,
+      planCode: existing.planCode,
+      status: existing.status as EntitlementStatus,
+      billingCycle: existing.billingCycle as 'monthly' | 'annual' | null,
+      currentPeriodEnd: existing.currentPeriodEnd,
+      cancelAtPeriodEnd: existing.cancelAtPeriodEnd,
+      ...changes
+    });
+  }
+
+  /**
+   * Set the user's plan from their best entitlement, or the free plan when
+   * none grants access. Users without entitlements (free users and manual
+   * trials) are left as they are.
+   */
+  async syncSubscription(userId: string): Promise<Subscription> {
+    const entitlements = await this.getEntitlements(userId);
+    if (entitlements.length === 0) {
+      return this.ensureSubscription(userId);
+    }
+
+    const plans = await prisma.subscriptionPlan.findMany();
+    const planRank = Object.fromEntries(plans.map(plan => [plan.code, plan.displayOrder]));
+    const best = resolveEntitlement(entitlements, planRank);
+    const plan = plans.find(p => p.code === (best ? best.planCode : 'free'));
+
+    if (!plan) {
+      throw new Error(`Plan not found: ${best ? best.planCode : 'free'}`);
+    }
+
+    const data = best
+      ? {
+          planId: plan.id,
+          status: toSubscriptionStatus(best),
+          billingCycle: best.billingCycle,
+          currentPeriodEnd: best.currentPeriodEnd,
+          cancelledAt: best.cancelledAt,
+          externalId: best.externalId,
+          externalProvider: best.provider
+        }
+      : {
+          planId: plan.id,
+          status: 'expired',
+          billingCycle: null,
+          currentPeriodEnd: null
+        };
+
+    return prisma.subscription.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data }
+    });
+  }
+
   /**
    * Extract limits from a plan object
    */
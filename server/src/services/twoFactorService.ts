@@ -0,0 +1,301 @@
+import QRCode from 'qrcode';
+import { prisma } from '../lib/prisma';
+import { emailService } from '../utils/emailService';
+import { requireSecret } from '../utils/secrets';
+import { securityUtils } from '../utils/securityUtils';
+import { tokenUtils } from '../utils/tokenUtils';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../utils/totp';
+import { sessionService } from './sessionService';
+
+const TWO_FACTOR_ENCRYPTION_KEY = requireSecret('TWO_FACTOR_ENCRYPTION_KEY', 'JWT_SECRET');
+const TOTP_ISSUER = 'Kids Activity Tracker';
+// Tries at using a recovery code while other codes are being used at the same time
+const RECOVERY_CODE_ATTEMPTS = 3;
+
+// A parent account or a vendor portal login
+export type TwoFactorAccount = { userId: string } | { vendorId: string };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins and vendor owners can't turn 2FA off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL for authenticator apps to scan
+  qrCode: string;
+}
+
+export class TwoFactorService {
+  /**
+   * Whether 2FA is on, and whether the account may turn it off
+   */
+  async getStatus(account: TwoFactorAccount): Promise<TwoFactorStatus> {
+    const [credential, required] = await Promise.all([
+      prisma.twoFactorCredential.findUnique({ where: account }),
+      this.isRequired(account)
+    ]);
+
+    return {
+      enabled: !!credential?.enabledAt,
+      required,
+      recoveryCodesRemaining: credential?.enabledAt ? credential.recoveryCodes.length : 0
+    };
+  }
+
+  async isEnabled(account: TwoFactorAccount): Promise<boolean> {
+    const credential = await prisma.twoFactorCredential.findUnique({
+      where: account,
+      select: { enabledAt: true }
+    });
+    return !!credential?.enabledAt;
+  }
+
+  /**
+   * 2FA is mandatory for admins and vendor owners. A direct vendor login is
+   * always the vendor's owner.
+   */
+  async isRequired(account: TwoFactorAccount): Promise<boolean> {
+    if ('vendorId' in account) {
+      return true;
+    }
+
+    const [adminUser, ownerMembership] = await Promise.all([
+      prisma.adminUser.findUnique({ where: { userId: account.userId }, select: { id: true } }),
+      prisma.vendorUser.findFirst({
+        where: { userId: account.userId, role: 'OWNER', isActive: true },
+        select: { id: true }
+      })
+    ]);
+
+    return !!adminUser || !!ownerMembership;
+  }
+
+  /**
+   * Start enrollment with a new secret. Nothing changes for sign-in until
+   * the first code is confirmed.
+   */
+  async beginEnrollment(account: TwoFactorAccount): Promise<TwoFactorSetup> {
+    const existing = await prisma.twoFactorCredential.findUnique({ where: account });
+    if (existing?.enabledAt) {
+      throw new Error('Two-factor authentication is already on');
+    }
+
+    const contact = await this.getContact(account);
+    const secret = generateTotpSecret();
+    const encryptedSecret = securityUtils.encrypt(secret, TWO_FACTOR_ENCRYPTION_KEY);
+
+    await prisma.twoFactorCredential.upsert({
+      where: account,
+      update: { secret: encryptedSecret, lastUsedStep: null, recoveryCodes: [] },
+      create: { ...account, secret: encryptedSecret }
+    });
+
+    const otpauthUrl = buildOtpauthUrl(TOTP_ISSUER, contact.email, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the authenticator app. Returns the
+   * recovery codes, which are only ever shown this once.
+   */
+  async confirmEnrollment(account: TwoFactorAccount, code: string): Promise<string[]> {
+    const credential = await prisma.twoFactorCredential.findUnique({ where: account });
+    if (!credential) {
+      throw new Error('Start two-factor setup first');
+    }
+    if (credential.enabledAt) {
+      throw new Error('Two-factor authentication is already on');
+    }
+
+    const step = verifyTotp(this.decryptSecret(credential.secret), code);
+    if (step === null) {
+      throw new Error('Invalid code. Check the time on your phone is set automatically and try again.');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.twoFactorCredential.update({
+      where: { id: credential.id },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      }
+    });
+
+    const contact = await this.getContact(account);
+    await emailService.sendTwoFactorChangedEmail(contact.email, contact.name, true)
+      .catch(error => console.error('[TwoFactor] Failed to send enabled email:', error));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check an authenticator code or a recovery code. Recovery codes are
+   * used up; authenticator codes can't be reused within their window.
+   */
+  async verifyCode(account: TwoFactorAccount, code: string): Promise<'totp' | 'recovery' | null> {
+    const credential = await prisma.twoFactorCredential.findUnique({ where: account });
+    if (!credential?.enabledAt || !code) {
+      return null;
+    }
+
+    const step = verifyTotp(this.decryptSecret(credential.secret), code, new Date(), credential.lastUsedStep);
+    if (step !== null) {
+      // Conditional update so two requests can't both use the same code
+      const { count } = await prisma.twoFactorCredential.updateMany({
+        where: {
+          id: credential.id,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }]
+        },
+        data: { lastUsedStep: step }
+      });
+      return count > 0 ? 'totp' : null;
+    }
+
+    return this.useRecoveryCode(account, credential, hashRecoveryCode(code));
+  }
+
+  /**
+   * Remove a recovery code from the credential. The update only applies to
+   * the list as it was read, so a code can't be used twice and two codes used
+   * at once can't put each other back; a lost race re-reads and tries again.
+   */
+  private async useRecoveryCode(
+    account: TwoFactorAccount,
+    credential: { id: string; recoveryCodes: string[] },
+    hash: string
+  ): Promise<'recovery' | null> {
+    let recoveryCodes = credential.recoveryCodes;
+
+    for (let attempt = 0; attempt < RECOVERY_CODE_ATTEMPTS; attempt++) {
+      if (!recoveryCodes.includes(hash)) {
+        return null;
+      }
+
+      const remaining = recoveryCodes.filter(existing => existing !== hash);
+      const { count } = await prisma.twoFactorCredential.updateMany({
+        where: { id: credential.id, recoveryCodes: { equals: recoveryCodes } },
+        data: { recoveryCodes: { set: remaining } }
+      });
+
+      if (count > 0) {
+        console.log({
+          action: 'two_factor_recovery_code_used',
+          ...account,
+          remaining: remaining.length,
+          timestamp: new Date().toISOString()
+        });
+        return 'recovery';
+      }
+
+      const current = await prisma.twoFactorCredential.findUnique({
+        where: { id: credential.id },
+        select: { recoveryCodes: true }
+      });
+      if (!current) {
+        return null;
+      }
+      recoveryCodes = current.recoveryCodes;
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all recovery codes after checking a current code
+   */
+  async regenerateRecoveryCodes(account: TwoFactorAccount, code: string): Promise<string[]> {
+    if (!(await this.verifyCode(account, code))) {
+      throw new Error('Invalid code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.twoFactorCredential.update({
+      where: account,
+      data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off after checking a current code. Remembered devices are
+   * forgotten so turning it back on asks for a code everywhere.
+   */
+  async disable(account: TwoFactorAccount, code: string): Promise<void> {
+    if (await this.isRequired(account)) {
+      throw new Error('Two-factor authentication is required for admin and vendor owner accounts');
+    }
+
+    if (!(await this.verifyCode(account, code))) {
+      throw new Error('Invalid code');
+    }
+
+    await prisma.twoFactorCredential.delete({ where: account });
+
+    if ('userId' in account) {
+      await prisma.trustedDevice.deleteMany({ where: { userId: account.userId } });
+    }
+
+    const contact = await this.getContact(account);
+    await emailService.sendTwoFactorChangedEmail(contact.email, contact.name, false)
+      .catch(error => console.error('[TwoFactor] Failed to send disabled email:', error));
+  }
+
+  /**
+   * Remember a device so it isn't asked for a code again for 30 days.
+   * Returns a token the device sends back; only its hash is stored.
+   */
+  async trustDevice(userId: string, deviceName?: string): Promise<string> {
+    const deviceToken = tokenUtils.generateRandomToken(32);
+    await sessionService.addTrustedDevice(userId, tokenUtils.hashToken(deviceToken), deviceName);
+    return deviceToken;
+  }
+
+  async isTrustedDevice(userId: string, deviceToken: string): Promise<boolean> {
+    return sessionService.isDeviceTrusted(userId, tokenUtils.hashToken(deviceToken));
+  }
+
+  private decryptSecret(encryptedSecret: string): string {
+    return securityUtils.decrypt(encryptedSecret, TWO_FACTOR_ENCRYPTION_KEY);
+  }
+
+  private async getContact(account: TwoFactorAccount): Promise<{ email: string; name: string }> {
+    if ('vendorId' in account) {
+      const vendor = await prisma.vendor.findUnique({
+        where: { id: account.vendorId },
+        select: { email: true, name: true, contactName: true }
+      });
+      if (!vendor) {
+        throw new Error('Vendor not found');
+      }
+      return { email: vendor.email, name: vendor.contactName || vendor.name };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: account.userId },
+      select: { email: true, name: true }
+    });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,334 @@
+import { ImportRowStatus, Prisma } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { activityImportMapper, FieldValidationError, NormalizedActivity } from './activityImportMapper';
+import { importService } from './importService';
+import { vendorService } from './vendorService';
+import {
+  MAX_PUSH_BATCH_SIZE,
+  allocateCreateQuota,
+  canAutoApprove,
+  findDuplicateExternalIds
+} from '../utils/vendorPush';
+
+export type PushMode = 'upsert' | 'patch';
+
+export type PushItemStatus = 'created' | 'updated' | 'pending_approval' | 'invalid' | 'failed';
+
+export interface PushItemResult {
+  index: number;
+  externalId: string | null;
+  status: PushItemStatus;
+  activityId?: string;
+  errors?: Array<{ field: string; message: string }>;
+  warnings?: Array<{ field: string; message: string }>;
+}
+
+export interface PushResult {
+  batchId: string | null;
+  approvalStatus: string | null;
+  summary: Record<PushItemStatus, number>;
+  results: PushItemResult[];
+}
+
+interface PreparedItem {
+  index: number;
+  raw: Record<string, any>;
+  activity: NormalizedActivity | null;
+  existingId: string | null;
+  errors: FieldValidationError[];
+  warnings: FieldValidationError[];
+}
+
+const ROW_RESULT_STATUS: Partial<Record<ImportRowStatus, PushItemStatus>> = {
+  CREATED: 'created',
+  UPDATED: 'updated',
+  FAILED: 'failed',
+  INVALID: 'invalid'
+};
+
+const toMessages = (issues: FieldValidationError[]) =>
+  issues.map(issue => ({ field: issue.field, message: issue.message }));
+
+/**
+ * Service for the vendor push API: JSON batches of activities keyed by the
+ * vendor's own external IDs. Batches are recorded as import batches so they
+ * share validation, approval and processing with file imports.
+ */
+export class VendorApiService {
+  /**
+   * Create or update activities (upsert), or apply partial updates to
+   * existing ones (patch), returning a result for every item
+   */
+  async pushActivities(vendorId: string, items: Record<string, any>[], mode: PushMode): Promise<PushResult> {
+    if (items.length > MAX_PUSH_BATCH_SIZE) {
+      throw new Error(`A batch can contain at most ${MAX_PUSH_BATCH_SIZE} activities`);
+    }
+
+    const vendor = await vendorService.getVendorById(vendorId);
+    if (!vendor?.providerId) {
+      throw new Error('Vendor is not linked to a provider yet');
+    }
+
+    const prepared = await this.prepareItems(vendor.providerId, items, mode);
+    await this.applyImportLimits(vendorId, prepared);
+
+    const valid = prepared.filter(item => item.errors.length === 0);
+    if (valid.length === 0) {
+      return this.buildResult(null, null, prepared.map(item => this.invalidResult(item)));
+    }
+
+    const autoApprove = canAutoApprove(vendor, valid.filter(item => !item.existingId).length);
+    const batch = await this.recordBatch(vendorId, prepared, mode, vendor.requiresApproval, autoApprove);
+
+    if (!autoApprove) {
+      return this.buildResult(batch.id, batch.approvalStatus, prepared.map(item =>
+        item.errors.length > 0
+          ? this.invalidResult(item)
+          : {
+              index: item.index,
+              externalId: item.activity!.externalId,
+              status: 'pending_approval' as const,
+              ...(item.existingId && { activityId: item.existingId }),
+              ...(item.warnings.length > 0 && { warnings: toMessages(item.warnings) })
+            }
+      ));
+    }
+
+    await importService.processImportBatch(batch.id);
+
+    const rows = await prisma.importRow.findMany({
+      where: { importBatchId: batch.id },
+      orderBy: { rowNumber: 'asc' }
+    });
+
+    return this.buildResult(batch.id, batch.approvalStatus, rows.map((row, index) => {
+      const item = prepared[index];
+      if (item.errors.length > 0) return this.invalidResult(item);
+
+      return {
+        index: item.index,
+        externalId: row.externalId,
+        status: ROW_RESULT_STATUS[row.status] || 'failed',
+        ...(row.activityId && { activityId: row.activityId }),
+        ...(row.status === 'FAILED' && { errors: row.validationErrors as Array<{ field: string; message: string }> }),
+        ...(item.warnings.length > 0 && { warnings: toMessages(item.warnings) })
+      };
+    }));
+  }
+
+  /**
+   * Deactivate activities by external ID. Like deactivating in the vendor
+   * portal, this takes effect immediately.
+   */
+  async deactivateActivities(vendorId: string, externalIds: string[]) {
+    const providerId = await this.getProviderId(vendorId);
+
+    const existing = await prisma.activity.findMany({
+      where: { providerId, externalId: { in: externalIds } },
+      select: { id: true, externalId: true }
+    });
+
+    await prisma.activity.updateMany({
+      where: { id: { in: existing.map(activity => activity.id) } },
+      data: { isActive: false, isUpdated: true }
+    });
+
+    const byExternalId = new Map(existing.map(activity => [activity.externalId, activity.id]));
+    return externalIds.map(externalId => byExternalId.has(externalId)
+      ? { externalId, status: 'deactivated' as const, activityId: byExternalId.get(externalId) }
+      : { externalId, status: 'not_found' as const });
+  }
+
+  /**
+   * Get one of the vendor's activities by external ID
+   */
+  async getActivity(vendorId: string, externalId: string) {
+    const providerId = await this.getProviderId(vendorId);
+
+    return prisma.activity.findUnique({
+      where: { providerId_externalId: { providerId, externalId } }
+    });
+  }
+
+  /**
+   * Status of a pushed batch, including per-item results once processed
+   */
+  async getBatch(vendorId: string, batchId: string) {
+    const batch = await importService.getImportBatchStatus(batchId);
+    if (!batch || batch.vendorId !== vendorId) {
+      return null;
+    }
+
+    const rows = await prisma.importRow.findMany({
+      where: { importBatchId: batchId },
+      select: { rowNumber: true, externalId: true, status: true, activityId: true, validationErrors: true },
+      orderBy: { rowNumber: 'asc' }
+    });
+
+    return { ...batch, rows };
+  }
+
+  private async getProviderId(vendorId: string): Promise<string> {
+    const vendor = await prisma.vendor.findUnique({
+      where: { id: vendorId },
+      select: { providerId: true }
+    });
+
+    if (!vendor?.providerId) {
+      throw new Error('Vendor is not linked to a provider yet');
+    }
+    return vendor.providerId;
+  }
+
+  private async prepareItems(providerId: string, items: Record<string, any>[], mode: PushMode): Promise<PreparedItem[]> {
+    const externalIds = items.map(item => (item?.externalId === undefined || item?.externalId === null)
+      ? null
+      : String(item.externalId).trim());
+
+    const existing = await prisma.activity.findMany({
+      where: { providerId, externalId: { in: externalIds.filter(Boolean) as string[] } }
+    });
+    const existingByExternalId = new Map(existing.map(activity => [activity.externalId, activity]));
+    const duplicates = findDuplicateExternalIds(externalIds);
+
+    return items.map((raw, index) => {
+      const externalId = externalIds[index];
+      const current = externalId ? existingByExternalId.get(externalId) : undefined;
+      const item: PreparedItem = { index, raw, activity: null, existingId: current?.id || null, errors: [], warnings: [] };
+
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        item.errors.push({ field: 'item', value: raw, message: 'Each activity must be an object', severity: 'error' });
+        return item;
+      }
+
+      if (mode === 'patch') {
+        if (!current) {
+          item.errors.push({ field: 'externalId', value: externalId, message: 'No activity with this externalId', severity: 'error' });
+          return item;
+        }
+        item.activity = this.applyPatch(activityImportMapper.fromActivity(current), raw);
+      } else {
+        item.activity = activityImportMapper.mapJsonToActivity(raw);
+      }
+
+      const validation = activityImportMapper.validateActivity(item.activity);
+      item.errors.push(...validation.errors);
+      item.warnings.push(...validation.warnings);
+
+      if (externalId && duplicates.has(externalId)) {
+        item.errors.push({
+          field: 'externalId',
+          value: externalId,
+          message: `Duplicate externalId at items: ${duplicates.get(externalId)!.join(', ')}`,
+          severity: 'error'
+        });
+      }
+
+      return item;
+    });
+  }
+
+  /**
+   * Overlay the fields present in a patch; null clears a field
+   */
+  private applyPatch(current: NormalizedActivity, patch: Record<string, any>): NormalizedActivity {
+    const changes = activityImportMapper.mapJsonToActivity(patch);
+    const merged: NormalizedActivity = { ...current };
+
+    for (const field of Object.keys(patch)) {
+      if (field === 'externalId' || !(field in activityImportMapper.getDefaultMapping())) continue;
+      (merged as any)[field] = patch[field] === null ? undefined : (changes as any)[field];
+    }
+
+    return merged;
+  }
+
+  private async applyImportLimits(vendorId: string, prepared: PreparedItem[]): Promise<void> {
+    const candidates = prepared.filter(item => item.errors.length === 0);
+    const limits = await vendorService.checkImportLimits(vendorId);
+    const allowed = allocateCreateQuota(candidates.map(item => !item.existingId), limits);
+
+    candidates.forEach((item, index) => {
+      if (!allowed[index]) {
+        item.errors.push({
+          field: 'externalId',
+          value: item.activity?.externalId,
+          message: `Import limit reached (${limits.dailyLimit} new activities per day, ${limits.monthlyLimit} per month)`,
+          severity: 'error'
+        });
+      }
+    });
+  }
+
+  private async recordBatch(
+    vendorId: string,
+    prepared: PreparedItem[],
+    mode: PushMode,
+    requiresApproval: boolean,
+    autoApprove: boolean
+  ) {
+    const validRows = prepared.filter(item => item.errors.length === 0).length;
+    const now = new Date();
+
+    const batch = await prisma.importBatch.create({
+      data: {
+        vendorId,
+        source: 'api',
+        fileName: `api-${mode}-${now.toISOString()}.json`,
+        fileSize: Buffer.byteLength(JSON.stringify(prepared.map(item => item.raw))),
+        fileType: 'json',
+        totalRows: prepared.length,
+        validRows,
+        invalidRows: prepared.length - validRows,
+        validationStartedAt: now,
+        validationCompletedAt: now,
+        requiresApproval,
+        ...(autoApprove
+          ? { status: 'APPROVED', approvalStatus: 'AUTO_APPROVED', approvedAt: now, approvedBy: 'SYSTEM' }
+          : { status: 'PENDING_APPROVAL', approvalStatus: 'PENDING', submittedForApprovalAt: now })
+      }
+    });
+
+    await prisma.importRow.createMany({
+      data: prepared.map(item => ({
+        importBatchId: batch.id,
+        rowNumber: item.index + 1,
+        rawData: item.raw as Prisma.InputJsonValue,
+        parsedData: item.activity ? item.activity as unknown as Prisma.InputJsonValue : Prisma.JsonNull,
+        externalId: item.activity?.externalId || null,
+        status: item.errors.length === 0 ? 'VALID' as ImportRowStatus : 'INVALID' as ImportRowStatus,
+        validationErrors: item.errors.length > 0 ? toMessages(item.errors) : Prisma.JsonNull,
+        validationWarnings: item.warnings.length > 0 ? toMessages(item.warnings) : Prisma.JsonNull
+      }))
+    });
+
+    return batch;
+  }
+
+  private invalidResult(item: PreparedItem): PushItemResult {
+    return {
+      index: item.index,
+      externalId: item.activity?.externalId || (item.raw?.externalId ?? null),
+      status: 'invalid',
+      errors: toMessages(item.errors),
+      ...(item.warnings.length > 0 && { warnings: toMessages(item.warnings) })
+    };
+  }
+
+  private buildResult(batchId: string | null, approvalStatus: string | null, results: PushItemResult[]): PushResult {
+    const summary: Record<PushItemStatus, number> = {
+      created: 0,
+      updated: 0,
+      pending_approval: 0,
+      invalid: 0,
+      failed: 0
+    };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+
+    return { batchId, approvalStatus, summary, results };
+  }
+}
+
+export const vendorApiService = new VendorApiService();
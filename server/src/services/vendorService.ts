@@ -1,7 +1,6 @@
 import { Vendor, VendorStatus, VendorUserRole } from '../../generated/prisma';
 import { prisma } from '../lib/prisma';
 import crypto from 'crypto';
-import bcrypt from 'bcrypt';
 
 // Input types
 export interface CreateVendorInput {
@@ -343,17 +342,20 @@ export class VendorService {
   }
 
   /**
-   * Hash API key for storage
+   * Hash API key for storage. Keys are 256 random bits, so an unsalted
+   * SHA-256 is safe and lets requests look the vendor up by hash.
    */
   private async hashApiKey(apiKey: string): Promise<string> {
-    return bcrypt.hash(apiKey, 10);
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
   }
 
   /**
    * Validate API key against stored hash
    */
   async validateApiKey(apiKey: string, apiKeyHash: string): Promise<boolean> {
-    return bcrypt.compare(apiKey, apiKeyHash);
+    const candidate = Buffer.from(await this.hashApiKey(apiKey), 'hex');
+    const stored = Buffer.from(apiKeyHash, 'hex');
+    return candidate.length === stored.length && crypto.timingSafeEqual(candidate, stored);
   }
 
   /**
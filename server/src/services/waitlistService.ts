@@ -0,0 +1,260 @@
+import { Activity } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { notificationService } from './notificationService';
+import { pushNotificationService } from './pushNotificationService';
+import { subscriptionService } from './subscriptionService';
+import {
+  WaitlistFamily,
+  getWaitlistQueuePositions,
+  planWaitlistPromotion
+} from '../utils/waitlistQueue';
+
+// Alerts returned per entry in waitlist listings
+const ALERT_HISTORY_LIMIT = 10;
+
+export interface WaitlistAlertSummary {
+  id: string;
+  channel: string;
+  status: string;
+  spotsAvailable: number | null;
+  queuePosition: number;
+  sentAt: Date;
+}
+
+export interface WaitlistEntryDetails {
+  queuePosition: number | null;
+  alerts: WaitlistAlertSummary[];
+}
+
+export interface WaitlistProcessResult {
+  activitiesChecked: number;
+  entriesRearmed: number;
+  familiesNotified: number;
+}
+
+type QueueEntry = {
+  id: string;
+  childId: string;
+  userId: string;
+  childName: string;
+  createdAt: Date;
+  status: string;
+  holdExpiresAt: Date | null;
+};
+
+/**
+ * Service for the child waitlist queue: promotes families in order when
+ * spots open, re-arms entries when the activity fills again and records
+ * every alert sent
+ */
+export class WaitlistService {
+  /**
+   * Load an activity's queue with each entry's parent account
+   */
+  private async getQueue(activityId: string): Promise<QueueEntry[]> {
+    const entries = await prisma.childWaitlistEntry.findMany({
+      where: { activityId, child: { isActive: true } },
+      include: { child: { select: { name: true, userId: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return entries.map(entry => ({
+      id: entry.id,
+      childId: entry.childId,
+      userId: entry.child.userId,
+      childName: entry.child.name,
+      createdAt: entry.createdAt,
+      status: entry.status,
+      holdExpiresAt: entry.holdExpiresAt
+    }));
+  }
+
+  /**
+   * Re-arm or promote the queue for one activity
+   */
+  async processActivity(activityId: string): Promise<Omit<WaitlistProcessResult, 'activitiesChecked'>> {
+    const activity = await prisma.activity.findUnique({ where: { id: activityId } });
+    if (!activity) {
+      return { entriesRearmed: 0, familiesNotified: 0 };
+    }
+
+    const queue = await this.getQueue(activityId);
+    const spotsAvailable = activity.isActive ? activity.spotsAvailable : 0;
+
+    // Non-premium families keep their place but aren't alerted (notifications are paywalled)
+    const premiumUserIds = new Set<string>();
+    for (const userId of new Set(queue.map(e => e.userId))) {
+      if (await subscriptionService.isPremiumUser(userId)) {
+        premiumUserIds.add(userId);
+      }
+    }
+
+    const plan = planWaitlistPromotion(queue, spotsAvailable, new Date(), userId => premiumUserIds.has(userId));
+
+    const isFull = spotsAvailable !== null && spotsAvailable <= 0;
+    const entriesRearmed = isFull ? await this.rearm(activityId, plan.rearmEntryIds) : 0;
+
+    let familiesNotified = 0;
+    for (const family of plan.promote) {
+      if (await this.notifyFamily(activity, family, plan.holdExpiresAt!)) {
+        familiesNotified++;
+      }
+    }
+
+    return { entriesRearmed, familiesNotified };
+  }
+
+  /**
+   * Put notified entries back in line once the activity is full again.
+   * The legacy user-level waitlist is re-armed too.
+   */
+  private async rearm(activityId: string, entryIds: string[]): Promise<number> {
+    await prisma.waitlistEntry.updateMany({
+      where: { activityId, notifiedAt: { not: null } },
+      data: { notifiedAt: null }
+    });
+
+    if (entryIds.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.childWaitlistEntry.updateMany({
+      where: { id: { in: entryIds } },
+      data: { status: 'waiting', notifiedAt: null, holdExpiresAt: null }
+    });
+
+    console.log(`[Waitlist] Re-armed ${result.count} entries for activity ${activityId}`);
+    return result.count;
+  }
+
+  /**
+   * Alert one family by push and email, record each alert and start their
+   * hold. Returns false if another run already alerted them.
+   */
+  private async notifyFamily(activity: Activity, family: WaitlistFamily<QueueEntry>, holdExpiresAt: Date): Promise<boolean> {
+    const entryIds = family.entries.map(e => e.id);
+
+    // Claim the family by starting their hold before sending, so overlapping
+    // runs (other instances, the alerts job) don't alert them twice
+    const claimed = await prisma.childWaitlistEntry.updateMany({
+      where: { id: { in: entryIds }, status: 'waiting' },
+      data: { status: 'notified', notifiedAt: new Date(), holdExpiresAt }
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const childNames = family.entries.map(e => e.childName);
+    const alerts: { channel: string; status: string; error?: string }[] = [];
+
+    try {
+      const push = await pushNotificationService.sendWaitlistSpotNotification(family.userId, activity, childNames, holdExpiresAt);
+      if (push.successCount > 0) {
+        alerts.push({ channel: 'push', status: 'sent' });
+      } else if (push.failureCount > 0) {
+        alerts.push({ channel: 'push', status: 'failed', error: 'Delivery failed on all devices' });
+      }
+    } catch (error) {
+      alerts.push({ channel: 'push', status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    const email = await notificationService.sendWaitlistPromotionAlert(family.userId, activity.id, childNames, holdExpiresAt);
+    alerts.push({ channel: 'email', status: email.success ? 'sent' : 'failed', error: email.error });
+
+    await prisma.waitlistAlert.createMany({
+      data: family.entries.flatMap(entry => alerts.map(alert => ({
+        entryId: entry.id,
+        userId: family.userId,
+        activityId: activity.id,
+        channel: alert.channel,
+        status: alert.status,
+        spotsAvailable: activity.spotsAvailable,
+        queuePosition: family.queuePosition,
+        holdExpiresAt,
+        error: alert.error
+      })))
+    });
+
+    console.log(`[Waitlist] Notified family ${family.userId} (#${family.queuePosition}) for activity ${activity.id}`);
+    return true;
+  }
+
+  /**
+   * Check every activity with child waitlist entries, plus activities whose
+   * legacy waitlist entries need re-arming
+   */
+  async processPendingWaitlists(): Promise<WaitlistProcessResult> {
+    const result: WaitlistProcessResult = { activitiesChecked: 0, entriesRearmed: 0, familiesNotified: 0 };
+
+    const [childEntries, legacyEntries] = await Promise.all([
+      prisma.childWaitlistEntry.findMany({
+        distinct: ['activityId'],
+        select: { activityId: true }
+      }),
+      prisma.waitlistEntry.findMany({
+        where: { notifiedAt: { not: null } },
+        distinct: ['activityId'],
+        select: { activityId: true }
+      })
+    ]);
+
+    const activityIds = new Set([...childEntries, ...legacyEntries].map(e => e.activityId));
+
+    for (const activityId of activityIds) {
+      try {
+        const activityResult = await this.processActivity(activityId);
+        result.activitiesChecked++;
+        result.entriesRearmed += activityResult.entriesRearmed;
+        result.familiesNotified += activityResult.familiesNotified;
+      } catch (error) {
+        console.error(`[Waitlist] Failed to process waitlist for activity ${activityId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Each entry's place in line and recent alerts, keyed by entry ID
+   */
+  async getEntryDetails(entries: { id: string; activityId: string }[]): Promise<Map<string, WaitlistEntryDetails>> {
+    const details = new Map<string, WaitlistEntryDetails>();
+    if (entries.length === 0) {
+      return details;
+    }
+
+    const activityIds = [...new Set(entries.map(e => e.activityId))];
+    const positions = new Map<string, number>();
+    for (const activityId of activityIds) {
+      for (const [entryId, position] of getWaitlistQueuePositions(await this.getQueue(activityId))) {
+        positions.set(entryId, position);
+      }
+    }
+
+    const alerts = await prisma.waitlistAlert.findMany({
+      where: { entryId: { in: entries.map(e => e.id) } },
+      orderBy: { sentAt: 'desc' }
+    });
+
+    for (const entry of entries) {
+      details.set(entry.id, {
+        queuePosition: positions.get(entry.id) ?? null,
+        alerts: alerts
+          .filter(alert => alert.entryId === entry.id)
+          .slice(0, ALERT_HISTORY_LIMIT)
+          .map(alert => ({
+            id: alert.id,
+            channel: alert.channel,
+            status: alert.status,
+            spotsAvailable: alert.spotsAvailable,
+            queuePosition: alert.queuePosition,
+            sentAt: alert.sentAt
+          }))
+      });
+    }
+
+    return details;
+  }
+}
+
+export const waitlistService = new WaitlistService();
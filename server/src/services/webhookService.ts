@@ -0,0 +1,351 @@
+import axios from 'axios';
+import { ImportBatch, ImportSource, Prisma, WebhookDelivery, WebhookEndpoint } from '../../generated/prisma';
+import { prisma } from '../lib/prisma';
+import { assertPublicHost, isPrivateAddress, publicHttpAgent, publicHttpsAgent } from '../utils/outboundRequests';
+import {
+  SIGNATURE_HEADER,
+  WebhookEvent,
+  endpointWantsEvent,
+  generateWebhookSecret,
+  nextRetryAt,
+  signPayload
+} from '../utils/webhooks';
+
+/** Who an endpoint belongs to: a vendor or a partner (sponsor) account */
+export type WebhookOwner = { vendorId: string } | { partnerAccountId: string };
+
+export interface WebhookEndpointInput {
+  url: string;
+  events?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+const MAX_ENDPOINTS_PER_OWNER = 5;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const RETRY_BATCH_SIZE = 50;
+
+// The secret is only returned when an endpoint is created or its secret rotated
+const endpointSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true
+} satisfies Prisma.WebhookEndpointSelect;
+
+/**
+ * Service for outbound webhooks: endpoint management for vendors and
+ * partners, signed delivery, retries with backoff and the delivery log
+ */
+export class WebhookService {
+  /**
+   * List an owner's endpoints (without secrets)
+   */
+  async listEndpoints(owner: WebhookOwner) {
+    return prisma.webhookEndpoint.findMany({
+      where: owner,
+      select: endpointSelect,
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Register an endpoint; the response includes the signing secret
+   */
+  async createEndpoint(owner: WebhookOwner, input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+    await this.assertUrlAllowed(input.url);
+
+    const count = await prisma.webhookEndpoint.count({ where: owner });
+    if (count >= MAX_ENDPOINTS_PER_OWNER) {
+      throw new Error(`You can register at most ${MAX_ENDPOINTS_PER_OWNER} webhook endpoints`);
+    }
+
+    return prisma.webhookEndpoint.create({
+      data: {
+        ...owner,
+        url: input.url,
+        events: input.events || [],
+        description: input.description || null,
+        isActive: input.isActive ?? true,
+        secret: generateWebhookSecret()
+      }
+    });
+  }
+
+  /**
+   * Update an endpoint's URL, events, description or active flag
+   */
+  async updateEndpoint(owner: WebhookOwner, endpointId: string, input: Partial<WebhookEndpointInput>) {
+    if (!(await this.findEndpoint(owner, endpointId))) return null;
+    if (input.url !== undefined) await this.assertUrlAllowed(input.url);
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.events !== undefined && { events: input.events }),
+        ...(input.description !== undefined && { description: input.description || null }),
+        ...(input.isActive !== undefined && { isActive: input.isActive })
+      },
+      select: endpointSelect
+    });
+  }
+
+  /**
+   * Delete an endpoint and its delivery log
+   */
+  async deleteEndpoint(owner: WebhookOwner, endpointId: string): Promise<boolean> {
+    const result = await prisma.webhookEndpoint.deleteMany({
+      where: { ...owner, id: endpointId }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Replace an endpoint's signing secret
+   */
+  async rotateSecret(owner: WebhookOwner, endpointId: string): Promise<WebhookEndpoint | null> {
+    if (!(await this.findEndpoint(owner, endpointId))) return null;
+
+    return prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { secret: generateWebhookSecret() }
+    });
+  }
+
+  /**
+   * Recent deliveries to an endpoint, newest first
+   */
+  async getDeliveries(owner: WebhookOwner, endpointId: string, limit = 50) {
+    if (!(await this.findEndpoint(owner, endpointId))) return null;
+
+    return prisma.webhookDelivery.findMany({
+      where: { endpointId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Send a `webhook.test` event right away and return the delivery
+   */
+  async sendTestEvent(owner: WebhookOwner, endpointId: string): Promise<WebhookDelivery | null> {
+    const endpoint = await this.findEndpoint(owner, endpointId);
+    if (!endpoint) return null;
+
+    const delivery = await this.createDelivery(endpoint, 'webhook.test', {
+      message: 'This is a test event from Kids Activity Tracker'
+    });
+    return this.attemptDelivery(delivery.id);
+  }
+
+  /**
+   * Notify a vendor's endpoints that an import batch was approved,
+   * rejected or sent back for changes
+   */
+  async notifyImportStatus(batch: ImportBatch, event: WebhookEvent, comments?: string | null): Promise<void> {
+    await this.emit({ vendorId: batch.vendorId }, event, {
+      batchId: batch.id,
+      fileName: batch.fileName,
+      source: batch.source,
+      status: batch.status,
+      approvalStatus: batch.approvalStatus,
+      totalRows: batch.totalRows,
+      validRows: batch.validRows,
+      invalidRows: batch.invalidRows,
+      activitiesCreated: batch.activitiesCreated,
+      activitiesUpdated: batch.activitiesUpdated,
+      comments: comments || null
+    });
+  }
+
+  /**
+   * Notify a vendor's endpoints that a scheduled pull of a remote source
+   * failed
+   */
+  async notifyImportSourceFailed(source: ImportSource, error: string): Promise<void> {
+    await this.emit({ vendorId: source.vendorId }, 'import.source_failed', {
+      sourceId: source.id,
+      name: source.name,
+      url: source.url,
+      error,
+      consecutiveFailures: source.consecutiveFailures,
+      paused: !source.isActive
+    });
+  }
+
+  /**
+   * Queue an event for every active endpoint of the vendor and partner
+   * account linked to a provider
+   */
+  async emitToProvider(providerId: string, event: WebhookEvent, data: Record<string, any>): Promise<void> {
+    await this.emit({
+      OR: [
+        { vendor: { providerId } },
+        { partnerAccount: { providerId } }
+      ]
+    }, event, data);
+  }
+
+  /**
+   * Retry deliveries that are due. Called periodically by the scheduler.
+   */
+  async processDueDeliveries(): Promise<{ attempted: number; delivered: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: RETRY_BATCH_SIZE
+    });
+
+    let delivered = 0;
+    for (const { id } of due) {
+      const result = await this.attemptDelivery(id);
+      if (result?.status === 'delivered') delivered++;
+    }
+
+    return { attempted: due.length, delivered };
+  }
+
+  /**
+   * Record a delivery for each matching endpoint and send them in the
+   * background. Failures here never break the action that raised the event.
+   */
+  private async emit(where: Prisma.WebhookEndpointWhereInput, event: WebhookEvent, data: Record<string, any>): Promise<void> {
+    try {
+      const endpoints = await prisma.webhookEndpoint.findMany({
+        where: { ...where, isActive: true }
+      });
+
+      for (const endpoint of endpoints.filter(candidate => endpointWantsEvent(candidate.events, event))) {
+        const delivery = await this.createDelivery(endpoint, event, data);
+        this.attemptDelivery(delivery.id).catch(error =>
+          console.error(`[WebhookService] Delivery ${delivery.id} failed:`, error));
+      }
+    } catch (error) {
+      console.error(`[WebhookService] Failed to queue ${event}:`, error);
+    }
+  }
+
+  private async createDelivery(endpoint: WebhookEndpoint, event: WebhookEvent, data: Record<string, any>) {
+    const now = new Date();
+
+    return prisma.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        event,
+        payload: { event, createdAt: now.toISOString(), data } as Prisma.InputJsonValue,
+        // The first attempt is made straight away; this only matters if it never runs
+        nextAttemptAt: nextRetryAt(0, now)
+      }
+    });
+  }
+
+  /**
+   * POST a delivery to its endpoint, recording the outcome and scheduling
+   * a retry on failure
+   */
+  private async attemptDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true }
+    });
+    if (!delivery || delivery.status !== 'pending') return delivery;
+
+    const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Record<string, any>) });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    const retryAt = nextRetryAt(attempts, now);
+
+    // Claim the attempt before sending, so overlapping scheduler runs or
+    // instances don't POST it twice. Until the outcome is recorded the
+    // delivery looks like a failed attempt waiting for its retry.
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+      data: { attempts, lastAttemptAt: now, nextAttemptAt: retryAt }
+    });
+    if (claimed.count === 0) return null;
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // Hostnames are checked by the agents as they connect
+      if (isPrivateAddress(new URL(delivery.endpoint.url).hostname)) {
+        throw new Error('Webhook URL is not a public address');
+      }
+
+      const response = await axios.post(delivery.endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'KidsActivityTracker-Webhooks/1.0',
+          'X-KAT-Event': delivery.event,
+          'X-KAT-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signPayload(delivery.endpoint.secret, body, timestamp)
+        },
+        timeout: DELIVERY_TIMEOUT_MS,
+        maxRedirects: 0,
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        validateStatus: () => true
+      });
+      responseStatus = response.status;
+      responseBody = typeof response.data === 'string'
+        ? response.data.slice(0, MAX_RESPONSE_BODY_LENGTH)
+        : JSON.stringify(response.data ?? '').slice(0, MAX_RESPONSE_BODY_LENGTH);
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.message || 'Request failed';
+    }
+
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        responseStatus,
+        responseBody,
+        error,
+        status: !error ? 'delivered' : retryAt ? 'pending' : 'failed',
+        nextAttemptAt: error ? retryAt : null,
+        ...(!error && { deliveredAt: now })
+      }
+    });
+  }
+
+  private async findEndpoint(owner: WebhookOwner, endpointId: string): Promise<WebhookEndpoint | null> {
+    return prisma.webhookEndpoint.findFirst({
+      where: { ...owner, id: endpointId }
+    });
+  }
+
+  private async assertUrlAllowed(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Webhook URL is not valid');
+    }
+
+    // Plain http is only accepted outside production, for local testing
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && process.env.NODE_ENV !== 'production')) {
+      throw new Error('Webhook URL must use https');
+    }
+
+    // Loopback, private and link-local hosts would let an owner probe
+    // internal services and read the responses in the delivery log
+    try {
+      await assertPublicHost(parsed.hostname);
+    } catch {
+      throw new Error('Webhook URL must point to a public host');
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,156 @@
+/**
+ * Normalizes ActivityHistory rows into a parent-facing "what changed" timeline.
+ *
+ * History rows store the raw scraper diff: the changed field names plus the
+ * previous and new values of those fields. Only the fields parents care about
+ * (price, capacity, schedule, instructor, status) become timeline entries;
+ * edits to descriptions, names and type mappings are skipped.
+ */
+
+export type ActivityChangeKind = 'price' | 'capacity' | 'schedule' | 'instructor' | 'status';
+
+export interface ActivityChange {
+  id: string;
+  kind: ActivityChangeKind;
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+  summary: string;
+  changedAt: Date;
+}
+
+export interface ActivityHistoryEntry {
+  id: string;
+  changeType: string;
+  previousData: unknown;
+  newData: unknown;
+  changedFields: string[];
+  createdAt: Date;
+}
+
+interface FieldConfig {
+  kind: ActivityChangeKind;
+  label: string;
+  format: (value: unknown) => string | number | null;
+}
+
+export const ACTIVITY_CHANGE_KINDS: ActivityChangeKind[] = ['price', 'capacity', 'schedule', 'instructor', 'status'];
+
+const formatText = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text || null;
+};
+
+const formatNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const formatDate = (value: unknown): string | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) return formatText(value);
+  // Activity dates are stored as midnight UTC
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+};
+
+const formatDays = (value: unknown): string | null => {
+  if (!Array.isArray(value)) return formatText(value);
+  return value.length > 0 ? value.join(', ') : null;
+};
+
+const FIELD_CONFIG: Record<string, FieldConfig> = {
+  cost: { kind: 'price', label: 'Price', format: formatNumber },
+  spotsAvailable: { kind: 'capacity', label: 'Spots available', format: formatNumber },
+  totalSpots: { kind: 'capacity', label: 'Total spots', format: formatNumber },
+  schedule: { kind: 'schedule', label: 'Schedule', format: formatText },
+  startTime: { kind: 'schedule', label: 'Start time', format: formatText },
+  endTime: { kind: 'schedule', label: 'End time', format: formatText },
+  dateStart: { kind: 'schedule', label: 'Start date', format: formatDate },
+  dateEnd: { kind: 'schedule', label: 'End date', format: formatDate },
+  dayOfWeek: { kind: 'schedule', label: 'Days', format: formatDays },
+  instructor: { kind: 'instructor', label: 'Instructor', format: formatText },
+  registrationStatus: { kind: 'status', label: 'Registration', format: formatText },
+};
+
+const formatPrice = (value: string | number | null): string => {
+  if (value === null) return 'not listed';
+  const num = Number(value);
+  return Number.isInteger(num) ? `$${num}` : `$${num.toFixed(2)}`;
+};
+
+function describeChange(config: FieldConfig, from: string | number | null, to: string | number | null): string {
+  if (config.kind === 'price') {
+    return `Price went from ${formatPrice(from)} to ${formatPrice(to)}`;
+  }
+  if (from === null) {
+    return `${config.label} set to ${to}`;
+  }
+  if (to === null) {
+    return `${config.label} removed (was ${from})`;
+  }
+  if (config.kind === 'capacity') {
+    return `${config.label} went from ${from} to ${to}`;
+  }
+  return `${config.label} changed from ${from} to ${to}`;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * Turn raw history rows into timeline entries, newest first
+ */
+export function buildActivityTimeline(
+  entries: ActivityHistoryEntry[],
+  options: { kinds?: ActivityChangeKind[] } = {}
+): ActivityChange[] {
+  const kinds = options.kinds && options.kinds.length > 0 ? new Set(options.kinds) : null;
+  const changes: ActivityChange[] = [];
+
+  for (const entry of entries) {
+    const previous = asRecord(entry.previousData);
+    const next = asRecord(entry.newData);
+
+    if (entry.changeType === 'deactivated' || entry.changeType === 'reactivated') {
+      if (kinds && !kinds.has('status')) continue;
+      const removed = entry.changeType === 'deactivated';
+      changes.push({
+        id: `${entry.id}:isActive`,
+        kind: 'status',
+        field: 'isActive',
+        label: 'Listing',
+        from: removed ? 'Listed' : 'Not listed',
+        to: removed ? 'Not listed' : 'Listed',
+        summary: removed ? 'No longer listed by the provider' : 'Listed again by the provider',
+        changedAt: entry.createdAt,
+      });
+      continue;
+    }
+
+    for (const field of entry.changedFields) {
+      const config = FIELD_CONFIG[field];
+      if (!config || (kinds && !kinds.has(config.kind))) continue;
+
+      const from = config.format(previous[field]);
+      const to = config.format(next[field]);
+      if (from === to) continue;
+
+      changes.push({
+        id: `${entry.id}:${field}`,
+        kind: config.kind,
+        field,
+        label: config.label,
+        from,
+        to,
+        summary: describeChange(config, from, to),
+        changedAt: entry.createdAt,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+}
@@ -0,0 +1,145 @@
+/**
+ * Attendance helpers
+ * Pure functions for per-session attendance: which statuses count as
+ * time spent, session length, attendance rate and streaks, and the
+ * skill category an activity's hours roll up into.
+ */
+import { parseClockTime } from './icsBuilder';
+
+export const ATTENDANCE_STATUSES = ['attended', 'missed', 'cancelled', 'makeup'] as const;
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+/** Session length assumed when an activity has no usable start/end times */
+export const DEFAULT_SESSION_MINUTES = 60;
+
+export interface AttendanceRecordLike {
+  date: Date;
+  status: string;
+  durationMinutes: number | null;
+}
+
+export interface AttendanceSummary {
+  total: number;
+  attended: number;
+  missed: number;
+  cancelled: number;
+  makeup: number;
+  /** Share of held sessions (attended, makeup, missed) the child made, 0-1; null before any */
+  rate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  hours: number;
+}
+
+// Activity type codes whose skill category differs from the code itself.
+// Keys on the right match the icons in the app's SkillProgressCard.
+const SKILL_CATEGORY_BY_TYPE: Record<string, string> = {
+  'swimming-aquatics': 'swimming',
+  'skating-wheels': 'skating',
+  'gymnastics-movement': 'gymnastics',
+  'stem-education': 'stem',
+  'fitness-wellness': 'fitness',
+  'culinary-arts': 'cooking',
+  'individual-sports': 'sports',
+  'racquet-sports': 'sports',
+  'multi-sport': 'sports'
+};
+
+export const isAttendanceStatus = (value: unknown): value is AttendanceStatus =>
+  typeof value === 'string' && (ATTENDANCE_STATUSES as readonly string[]).includes(value);
+
+/**
+ * Attended and makeup sessions count toward skill hours and streaks
+ */
+export const countsAsAttended = (status: string): boolean =>
+  status === 'attended' || status === 'makeup';
+
+const toMinutes = (value: string | null | undefined): number | null => {
+  const time = parseClockTime(value);
+  return time ? time.hours * 60 + time.minutes : null;
+};
+
+/**
+ * Length of a session from its clock times ("4:00 pm", "16:45")
+ */
+export function sessionMinutes(startTime: string | null | undefined, endTime: string | null | undefined): number {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  if (start === null || end === null || end <= start) return DEFAULT_SESSION_MINUTES;
+  return end - start;
+}
+
+/**
+ * Hours a record contributes to skill progress
+ */
+export function attendedHours(record: Pick<AttendanceRecordLike, 'status' | 'durationMinutes'> | null): number {
+  if (!record || !countsAsAttended(record.status)) return 0;
+  return (record.durationMinutes ?? DEFAULT_SESSION_MINUTES) / 60;
+}
+
+/**
+ * Totals, attendance rate and streaks. Cancelled sessions are left out of
+ * the rate and neither extend nor break a streak; a missed session ends one.
+ */
+export function summarizeAttendance(records: AttendanceRecordLike[]): AttendanceSummary {
+  const summary: AttendanceSummary = {
+    total: records.length,
+    attended: 0,
+    missed: 0,
+    cancelled: 0,
+    makeup: 0,
+    rate: null,
+    currentStreak: 0,
+    longestStreak: 0,
+    hours: 0
+  };
+
+  const ordered = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+  let streak = 0;
+
+  for (const record of ordered) {
+    if (isAttendanceStatus(record.status)) {
+      summary[record.status]++;
+    }
+
+    if (countsAsAttended(record.status)) {
+      streak++;
+      summary.longestStreak = Math.max(summary.longestStreak, streak);
+      summary.hours += attendedHours(record);
+    } else if (record.status === 'missed') {
+      streak = 0;
+    }
+  }
+
+  summary.currentStreak = streak;
+  summary.hours = Math.round(summary.hours * 10) / 10;
+
+  const held = summary.attended + summary.makeup + summary.missed;
+  if (held > 0) {
+    summary.rate = Math.round(((summary.attended + summary.makeup) / held) * 100) / 100;
+  }
+
+  return summary;
+}
+
+/**
+ * Skill category an activity's attended hours count toward: the activity
+ * type code mapped to the app's skill names, else a slug of the category
+ */
+export function skillCategoryForActivity(activity: {
+  activityTypeCode?: string | null;
+  category?: string | null;
+}): string {
+  const code = activity.activityTypeCode?.trim().toLowerCase();
+  if (code && code !== 'other-activity') {
+    return SKILL_CATEGORY_BY_TYPE[code] || code;
+  }
+
+  const slug = (activity.category || '')
+    .toLowerCase()
+    .replace(/&/g, ' ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return slug || 'other';
+}
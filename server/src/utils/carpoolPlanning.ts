@@ -0,0 +1,232 @@
+/**
+ * Carpool matching and driving rotation
+ *
+ * Matches compare a user's children against children that connected families
+ * share with them: the same activity, or the same venue at a similar time on
+ * the same day. Rotations hand each week to the next accepted family in
+ * rotation order; weeks start on Monday (UTC midnight).
+ */
+import { calculateDistance } from './distanceUtils';
+import {
+  ScheduleItem,
+  ScheduleOccurrence,
+  SAME_VENUE_KM,
+  expandOccurrences,
+  formatClockMinutes,
+  startOfUtcDay
+} from './scheduleConflicts';
+
+// Start times this close together at the same venue can share a ride
+export const SIMILAR_TIME_MINUTES = 30;
+export const CARPOOL_MATCH_HORIZON_DAYS = 28;
+export const ROTATION_WEEKS_AHEAD = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type CarpoolMatchType = 'same_activity' | 'same_location';
+
+export interface CarpoolMatchChild {
+  childId: string;
+  childName: string;
+  familyUserId: string;
+  activityId: string;
+  activityName: string;
+}
+
+export interface CarpoolMatch {
+  matchType: CarpoolMatchType;
+  activityId: string;
+  activityName: string;
+  locationName: string | null;
+  familyUserId: string;
+  children: CarpoolMatchChild[];
+  daysOfWeek: string[];
+  startTime: string;
+  nextDate: string;
+  sharedDates: number;
+}
+
+export interface RotationWeek {
+  weekStart: Date;
+  driverUserId: string;
+}
+
+/**
+ * Monday (UTC midnight) of the week containing the date
+ */
+export function getWeekStart(date: Date): Date {
+  const day = startOfUtcDay(date);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+const isSameVenue = (a: ScheduleItem, b: ScheduleItem): boolean => {
+  if (a.locationId && b.locationId) {
+    return a.locationId === b.locationId;
+  }
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) {
+    return false;
+  }
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) < SAME_VENUE_KM;
+};
+
+const toMatchChild = (item: ScheduleItem): CarpoolMatchChild => ({
+  childId: item.childId,
+  childName: item.childName,
+  familyUserId: item.familyUserId!,
+  activityId: item.activityId,
+  activityName: item.activityName
+});
+
+/**
+ * Occurrences of `other` that line up with `own`: same day, and for different
+ * activities, a start time within SIMILAR_TIME_MINUTES
+ */
+function sharedOccurrences(
+  own: ScheduleOccurrence[],
+  other: ScheduleOccurrence[],
+  sameActivity: boolean
+): ScheduleOccurrence[] {
+  return own.filter(occurrence => other.some(o =>
+    o.date === occurrence.date &&
+    (sameActivity || Math.abs(o.start - occurrence.start) <= SIMILAR_TIME_MINUTES)
+  ));
+}
+
+/**
+ * Find carpool opportunities between the user's children and children of
+ * other families in the schedule. One match per (activity, family), listing
+ * every child on both sides who could share the ride.
+ */
+export function findCarpoolMatches(
+  items: ScheduleItem[],
+  userId: string,
+  options: { from?: Date; horizonDays?: number } = {}
+): CarpoolMatch[] {
+  const from = startOfUtcDay(options.from || new Date());
+  const until = new Date(from.getTime() + (options.horizonDays ?? CARPOOL_MATCH_HORIZON_DAYS) * DAY_MS);
+
+  const expanded = items.map(item => ({ item, occurrences: expandOccurrences(item, from, until) }));
+  const own = expanded.filter(e => e.item.familyUserId === userId && e.occurrences.length > 0);
+  const others = expanded.filter(e => e.item.familyUserId && e.item.familyUserId !== userId && e.occurrences.length > 0);
+
+  const matches = new Map<string, CarpoolMatch & { dates: Set<string> }>();
+
+  for (const mine of own) {
+    for (const theirs of others) {
+      const sameActivity = mine.item.activityId === theirs.item.activityId;
+      if (!sameActivity && !isSameVenue(mine.item, theirs.item)) continue;
+
+      const shared = sharedOccurrences(mine.occurrences, theirs.occurrences, sameActivity);
+      if (shared.length === 0) continue;
+
+      const key = `${mine.item.activityId}:${theirs.item.familyUserId}`;
+      let match = matches.get(key);
+      if (!match) {
+        match = {
+          matchType: sameActivity ? 'same_activity' : 'same_location',
+          activityId: mine.item.activityId,
+          activityName: mine.item.activityName,
+          locationName: mine.item.locationName,
+          familyUserId: theirs.item.familyUserId!,
+          children: [],
+          daysOfWeek: [],
+          startTime: formatClockMinutes(shared[0].start),
+          nextDate: shared[0].date,
+          sharedDates: 0,
+          dates: new Set()
+        };
+        matches.set(key, match);
+      }
+
+      if (sameActivity) {
+        match.matchType = 'same_activity';
+      }
+      for (const child of [toMatchChild(mine.item), toMatchChild(theirs.item)]) {
+        if (!match.children.some(c => c.childId === child.childId)) {
+          match.children.push(child);
+        }
+      }
+      for (const occurrence of shared) {
+        match.dates.add(occurrence.date);
+        if (occurrence.date < match.nextDate) {
+          match.nextDate = occurrence.date;
+          match.startTime = formatClockMinutes(occurrence.start);
+        }
+      }
+    }
+  }
+
+  return [...matches.values()]
+    .map(({ dates, ...match }) => {
+      const weekdays = new Set([...dates].map(date => new Date(`${date}T00:00:00Z`).getUTCDay()));
+      return {
+        ...match,
+        daysOfWeek: DAY_NAMES.filter((_, index) => weekdays.has(index)),
+        sharedDates: dates.size
+      };
+    })
+    .sort((a, b) =>
+      (a.matchType === b.matchType ? 0 : a.matchType === 'same_activity' ? -1 : 1) ||
+      a.nextDate.localeCompare(b.nextDate)
+    );
+}
+
+/**
+ * Week starts from the week containing `start` through the week containing
+ * `end` (or ROTATION_WEEKS_AHEAD weeks when there's no end), never before
+ * the week containing `now`
+ */
+export function listRotationWeeks(start: Date, end: Date | null, now: Date = new Date()): Date[] {
+  const first = getWeekStart(start > now ? start : now);
+  const horizon = new Date(getWeekStart(now).getTime() + (ROTATION_WEEKS_AHEAD - 1) * WEEK_MS);
+  const last = end && getWeekStart(end) < horizon ? getWeekStart(end) : horizon;
+
+  const weeks: Date[] = [];
+  for (let week = first; week <= last; week = new Date(week.getTime() + WEEK_MS)) {
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Assign drivers to weeks in rotation order, continuing after the family
+ * that drove last
+ */
+export function planRotation(
+  driverUserIds: string[],
+  weekStarts: Date[],
+  lastDriverUserId: string | null = null
+): RotationWeek[] {
+  if (driverUserIds.length === 0) {
+    return [];
+  }
+
+  const lastIndex = lastDriverUserId ? driverUserIds.indexOf(lastDriverUserId) : -1;
+
+  return weekStarts.map((weekStart, index) => ({
+    weekStart,
+    driverUserId: driverUserIds[(lastIndex + 1 + index) % driverUserIds.length]
+  }));
+}
+
+/**
+ * Whether the carpool rides on the given day
+ */
+export function isRideDay(
+  group: { daysOfWeek: string[]; startDate: Date; endDate: Date | null },
+  date: Date
+): boolean {
+  const day = startOfUtcDay(date);
+  if (day < startOfUtcDay(group.startDate)) return false;
+  if (group.endDate && day > startOfUtcDay(group.endDate)) return false;
+
+  const dayName = DAY_NAMES[day.getUTCDay()].toLowerCase();
+  return group.daysOfWeek.some(d => {
+    const value = d.trim().toLowerCase();
+    return value.length >= 2 && dayName.startsWith(value);
+  });
+}
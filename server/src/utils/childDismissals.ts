@@ -0,0 +1,170 @@
+/**
+ * Child dismissal helpers
+ *
+ * Parents can mark an activity, provider, location or subtype as "not
+ * interested" for a child, and exclude whole categories in the child's
+ * preferences. These helpers turn a child's dismissals into exclusions and
+ * apply them to candidate activities, either in memory or as a Prisma where
+ * clause for GET /api/v1/activities, hybrid search and the AI tools.
+ */
+import { Prisma } from '../../generated/prisma';
+
+export const DISMISSAL_TYPES = ['activity', 'provider', 'location', 'subtype'] as const;
+
+export type DismissalType = typeof DISMISSAL_TYPES[number];
+
+export interface DismissalRecord {
+  type: string;
+  targetId: string;
+}
+
+export interface ChildExclusionSource {
+  childId: string;
+  dismissals: DismissalRecord[];
+  excludedCategories?: string[];
+}
+
+export interface ChildExclusions {
+  childId: string;
+  activityIds: string[];
+  providerIds: string[];
+  locationIds: string[];
+  subtypeIds: string[];
+  // Lowercased
+  categories: string[];
+}
+
+/**
+ * Exclusions for the selected children. In 'or' mode an activity is only
+ * hidden when every child excludes it, since it may still suit another
+ * child; in 'and' mode one child excluding it is enough.
+ */
+export interface ActivityExclusions {
+  filterMode: 'or' | 'and';
+  children: ChildExclusions[];
+}
+
+export interface ExcludableActivity {
+  id: string;
+  providerId?: string | null;
+  locationId?: string | null;
+  activitySubtypeId?: string | null;
+  category?: string | null;
+}
+
+export function isDismissalType(value: unknown): value is DismissalType {
+  return typeof value === 'string' && (DISMISSAL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Group each child's dismissals and excluded categories
+ */
+export function buildChildExclusions(
+  sources: ChildExclusionSource[],
+  filterMode: 'or' | 'and' = 'or'
+): ActivityExclusions {
+  const children = sources.map(source => {
+    const idsOf = (type: DismissalType) =>
+      [...new Set(source.dismissals.filter(d => d.type === type).map(d => d.targetId))];
+
+    return {
+      childId: source.childId,
+      activityIds: idsOf('activity'),
+      providerIds: idsOf('provider'),
+      locationIds: idsOf('location'),
+      subtypeIds: idsOf('subtype'),
+      categories: [...new Set(
+        (source.excludedCategories || []).map(c => c.trim().toLowerCase()).filter(Boolean)
+      )],
+    };
+  });
+
+  return { filterMode, children };
+}
+
+function childHasExclusions(child: ChildExclusions): boolean {
+  return child.activityIds.length > 0 ||
+    child.providerIds.length > 0 ||
+    child.locationIds.length > 0 ||
+    child.subtypeIds.length > 0 ||
+    child.categories.length > 0;
+}
+
+/**
+ * Whether the exclusions can hide anything at all
+ */
+export function hasExclusions(exclusions?: ActivityExclusions | null): exclusions is ActivityExclusions {
+  if (!exclusions || exclusions.children.length === 0) return false;
+
+  return exclusions.filterMode === 'and'
+    ? exclusions.children.some(childHasExclusions)
+    : exclusions.children.every(childHasExclusions);
+}
+
+/**
+ * Just one child's exclusions, for per-child scoring
+ */
+export function exclusionsForChild(exclusions: ActivityExclusions, childId: string): ActivityExclusions {
+  return {
+    filterMode: exclusions.filterMode,
+    children: exclusions.children.filter(child => child.childId === childId),
+  };
+}
+
+function isExcludedForChild(activity: ExcludableActivity, child: ChildExclusions): boolean {
+  return child.activityIds.includes(activity.id) ||
+    (!!activity.providerId && child.providerIds.includes(activity.providerId)) ||
+    (!!activity.locationId && child.locationIds.includes(activity.locationId)) ||
+    (!!activity.activitySubtypeId && child.subtypeIds.includes(activity.activitySubtypeId)) ||
+    (!!activity.category && child.categories.includes(activity.category.toLowerCase()));
+}
+
+/**
+ * Whether an activity should be hidden for the selected children
+ */
+export function isActivityExcluded(activity: ExcludableActivity, exclusions?: ActivityExclusions | null): boolean {
+  if (!hasExclusions(exclusions)) return false;
+
+  return exclusions.filterMode === 'and'
+    ? exclusions.children.some(child => isExcludedForChild(activity, child))
+    : exclusions.children.every(child => isExcludedForChild(activity, child));
+}
+
+function buildChildExclusionWhere(child: ChildExclusions): Prisma.ActivityWhereInput {
+  const conditions: Prisma.ActivityWhereInput[] = [];
+
+  if (child.activityIds.length > 0) {
+    conditions.push({ id: { notIn: child.activityIds } });
+  }
+  if (child.providerIds.length > 0) {
+    conditions.push({ providerId: { notIn: child.providerIds } });
+  }
+  // Activities without a location or subtype can't have been dismissed by one
+  if (child.locationIds.length > 0) {
+    conditions.push({ OR: [{ locationId: null }, { locationId: { notIn: child.locationIds } }] });
+  }
+  if (child.subtypeIds.length > 0) {
+    conditions.push({ OR: [{ activitySubtypeId: null }, { activitySubtypeId: { notIn: child.subtypeIds } }] });
+  }
+  if (child.categories.length > 0) {
+    conditions.push({
+      NOT: { OR: child.categories.map(category => ({ category: { equals: category, mode: 'insensitive' as const } })) }
+    });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { AND: conditions };
+}
+
+/**
+ * Prisma condition that leaves out excluded activities, or undefined if
+ * nothing is excluded. Push it onto where.AND.
+ */
+export function buildExclusionWhere(exclusions?: ActivityExclusions | null): Prisma.ActivityWhereInput | undefined {
+  if (!hasExclusions(exclusions)) return undefined;
+
+  const children = exclusions.children.filter(childHasExclusions);
+  if (children.length === 1) return buildChildExclusionWhere(children[0]);
+
+  const perChild = children.map(buildChildExclusionWhere);
+  return exclusions.filterMode === 'and' ? { AND: perChild } : { OR: perChild };
+}
@@ -0,0 +1,358 @@
+/**
+ * Import column detection
+ * Ranks spreadsheet columns for each activity field using header synonyms
+ * (with fuzzy matching for reordered words and typos) and the kind of values
+ * in sample rows, and parses the free-form values vendors put in those
+ * columns: age ranges ("Ages 6-12") and day patterns ("M/W/F").
+ */
+
+export type ValueKind = 'date' | 'time' | 'price' | 'ageRange' | 'days' | 'url' | 'number';
+
+export interface ColumnRanking {
+  column: string;
+  score: number; // 0-1
+}
+
+export interface ColumnAssignment {
+  column: string | null;
+  score: number;
+  alternatives: ColumnRanking[];
+}
+
+export interface AgeRange {
+  min?: number;
+  max?: number;
+}
+
+/** Value kind expected for fields that aren't free text */
+export const FIELD_VALUE_KINDS: Record<string, ValueKind> = {
+  dateStart: 'date',
+  dateEnd: 'date',
+  startTime: 'time',
+  endTime: 'time',
+  dayOfWeek: 'days',
+  cost: 'price',
+  ageMin: 'ageRange',
+  ageMax: 'ageRange',
+  registrationUrl: 'url',
+  spotsAvailable: 'number',
+  totalSpots: 'number',
+  latitude: 'number',
+  longitude: 'number',
+};
+
+/** Lowest score worth suggesting */
+export const MIN_SUGGESTION_SCORE = 0.35;
+
+// Fields that may share one column, e.g. an "Ages" column holding "6-12"
+const SHARED_COLUMN_FIELDS = [['ageMin', 'ageMax']];
+
+const WEEK = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAY_TOKENS: Record<string, string> = {
+  monday: 'Mon', mon: 'Mon', mo: 'Mon', m: 'Mon',
+  tuesday: 'Tue', tues: 'Tue', tue: 'Tue', tu: 'Tue', t: 'Tue',
+  wednesday: 'Wed', weds: 'Wed', wed: 'Wed', we: 'Wed', w: 'Wed',
+  thursday: 'Thu', thurs: 'Thu', thur: 'Thu', thu: 'Thu', th: 'Thu', r: 'Thu',
+  friday: 'Fri', fri: 'Fri', fr: 'Fri', f: 'Fri',
+  saturday: 'Sat', sat: 'Sat', sa: 'Sat', s: 'Sat',
+  sunday: 'Sun', sun: 'Sun', su: 'Sun', u: 'Sun',
+};
+
+const DAY_GROUPS: Record<string, string[]> = {
+  weekdays: WEEK.slice(0, 5),
+  weekday: WEEK.slice(0, 5),
+  weekends: WEEK.slice(5),
+  weekend: WEEK.slice(5),
+  daily: WEEK,
+  everyday: WEEK,
+};
+
+// Run-together letter codes: "MWF", "TTh", "TuTh", "MTWRF"
+const COMPACT_DAYS = /^(th|tu|sa|su|m|t|w|r|f|s|u)+$/i;
+const COMPACT_DAY = /th|tu|sa|su|m|t|w|r|f|s|u/gi;
+
+function dayToken(token: string): string[] | null {
+  const key = token.toLowerCase().replace(/\.$/, '');
+  if (DAY_TOKENS[key]) return [DAY_TOKENS[key]];
+  if (DAY_GROUPS[key]) return DAY_GROUPS[key];
+  if (key.length <= 10 && COMPACT_DAYS.test(key)) {
+    // Codes run in week order, so words like "must" aren't read as days
+    const days = (key.match(COMPACT_DAY) || []).map(code => DAY_TOKENS[code]);
+    const ordered = days.every((day, i) => i === 0 || WEEK.indexOf(day) > WEEK.indexOf(days[i - 1]));
+    return ordered ? days : null;
+  }
+  return null;
+}
+
+/**
+ * Days named in a schedule ("M/W/F", "Mon-Fri", "Tues & Thurs", "TTh",
+ * "Weekends"), as three-letter names in week order. Unrecognized parts
+ * are ignored.
+ */
+export function parseDayPattern(value: string): string[] {
+  const days = new Set<string>();
+  const normalized = value
+    .replace(/\s+(?:to|through|thru)\s+/gi, '-')
+    .replace(/\s*[-–]\s*/g, '-');
+
+  for (const part of normalized.split(/[\s,;/&+]+|\band\b/i)) {
+    if (!part) continue;
+
+    const range = part.match(/^([a-z.]+)-([a-z.]+)$/i);
+    if (range) {
+      const from = dayToken(range[1]);
+      const to = dayToken(range[2]);
+      if (from?.length === 1 && to?.length === 1) {
+        const start = WEEK.indexOf(from[0]);
+        const end = WEEK.indexOf(to[0]);
+        for (let i = start; ; i = (i + 1) % 7) {
+          days.add(WEEK[i]);
+          if (i === end) break;
+        }
+        continue;
+      }
+    }
+
+    for (const day of dayToken(part) || []) {
+      days.add(day);
+    }
+  }
+
+  return WEEK.filter(day => days.has(day));
+}
+
+function toYears(amount: string, unit?: string): number {
+  const value = parseFloat(amount);
+  return unit && /^m/i.test(unit) ? Math.floor(value / 12) : Math.floor(value);
+}
+
+/**
+ * Ages from free text: "Ages 6-12", "6 to 12 yrs", "18 months - 3 years",
+ * "8+", "10 and up", "Under 5", "up to 5". Months are rounded down to years.
+ */
+export function parseAgeRange(value: string): AgeRange | null {
+  const text = value.toLowerCase().trim();
+  // Times, prices and dates aren't ages
+  if (/[:$]/.test(text) || /\d{3,}/.test(text)) return null;
+  const age = '(\\d+(?:\\.\\d+)?)\\s*(months?|mos?|m\\b|years?|yrs?|y\\b)?';
+
+  const range = text.match(new RegExp(`${age}\\s*(?:-|–|to|through)\\s*${age}`));
+  if (range) {
+    return { min: toYears(range[1], range[2] || range[4]), max: toYears(range[3], range[4]) };
+  }
+
+  const under = text.match(new RegExp(`(under|younger than|less than|up to|max(?:imum)?)\\s*${age}`));
+  if (under) {
+    const max = toYears(under[2], under[3]);
+    return { max: under[1] === 'up to' || under[1].startsWith('max') ? max : Math.max(0, max - 1) };
+  }
+
+  const minimum = text.match(new RegExp(`${age}\\s*(\\+|and (?:up|older|over)|& (?:up|older|over)|or older)`));
+  if (minimum) {
+    return { min: toYears(minimum[1], minimum[2]) };
+  }
+
+  const single = text.match(new RegExp(`^(?:ages?\\s*)?${age}$`));
+  if (single) {
+    const years = toYears(single[1], single[2]);
+    return { min: years, max: years };
+  }
+
+  return null;
+}
+
+const VALUE_MATCHERS: Record<ValueKind, (value: string) => boolean> = {
+  date: value =>
+    /^\d{4}-\d{1,2}-\d{1,2}/.test(value) ||
+    /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/.test(value) ||
+    /^[a-z]{3,9}\.? \d{1,2}(st|nd|rd|th)?,? \d{4}$/i.test(value) ||
+    /^\d{1,2} [a-z]{3,9}\.? \d{4}$/i.test(value),
+  time: value => /^\d{1,2}(:\d{2})?\s*([ap]\.?m\.?)$/i.test(value) || /^\d{1,2}:\d{2}(:\d{2})?$/.test(value),
+  price: value => /^(free|\$?\s*\d{1,6}(\.\d{2})?(\s*(cad|usd))?)$/i.test(value) && !/^\d{4}$/.test(value),
+  ageRange: value => /\d/.test(value) && parseAgeRange(value) !== null && !/^\d+(\.\d+)?$/.test(value),
+  days: value => parseDayPattern(value).length > 0 && value.split(/[\s,;/&+-]+/).every(part => !part || dayToken(part) !== null || /^(and|to|thru|through)$/i.test(part)),
+  url: value => /^(https?:\/\/|www\.)\S+$/i.test(value),
+  number: value => /^-?\d+(\.\d+)?$/.test(value),
+};
+
+/**
+ * Share of the non-empty sample values that look like the given kind, or
+ * null when there are no values to judge by
+ */
+export function valueKindFit(kind: ValueKind, values: unknown[]): number | null {
+  const present = values
+    .filter(value => value !== null && value !== undefined && String(value).trim() !== '')
+    .map(value => String(value).trim());
+  if (present.length === 0) return null;
+
+  // Whole numbers are plausible ages
+  const matches = kind === 'ageRange'
+    ? present.filter(value => VALUE_MATCHERS.ageRange(value) || /^\d{1,2}$/.test(value))
+    : present.filter(VALUE_MATCHERS[kind]);
+
+  return matches.length / present.length;
+}
+
+/**
+ * Lowercase words of a header: "ClassStartDate", "class_start-date" and
+ * "Class Start Date" all become "class start date"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[_\-./()#:*?]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a header matches one synonym: 1 for the same words, less for
+ * a synonym inside a longer header, shared words, or near-spellings
+ */
+export function headerSimilarity(header: string, synonym: string): number {
+  const a = normalizeHeader(header);
+  const b = normalizeHeader(synonym);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const aWords = a.split(' ');
+  const bWords = b.split(' ');
+  let score = 0;
+
+  // "Class Start Date" contains "start date"
+  if (bWords.every(word => aWords.includes(word))) {
+    score = 0.6 + 0.3 * (bWords.length / aWords.length);
+  } else {
+    const shared = bWords.filter(word => aWords.includes(word)).length;
+    const union = new Set([...aWords, ...bWords]).size;
+    score = 0.7 * (shared / union);
+  }
+
+  // Typos and spacing: "strat date", "startdate"
+  if (a.length >= 4 && b.length >= 4) {
+    const spelling = 1 - editDistance(a.replace(/ /g, ''), b.replace(/ /g, '')) / Math.max(a.length, b.length);
+    if (spelling >= 0.8) score = Math.max(score, spelling * 0.9);
+  }
+
+  return score;
+}
+
+/**
+ * Score every column for every field, best first. Columns whose sample
+ * values don't fit the field's kind are pushed down; ones that do are
+ * lifted a little.
+ */
+export function rankColumns(
+  headers: string[],
+  samples: Record<string, unknown>[],
+  synonyms: Record<string, string[]>
+): Record<string, ColumnRanking[]> {
+  const rankings: Record<string, ColumnRanking[]> = {};
+
+  for (const [field, names] of Object.entries(synonyms)) {
+    const kind = FIELD_VALUE_KINDS[field];
+
+    rankings[field] = headers
+      .map(column => {
+        const header = Math.max(...names.map(name => headerSimilarity(column, name)), 0);
+        const fit = kind ? valueKindFit(kind, samples.map(row => row[column])) : null;
+        const score = fit === null ? header : Math.min(1, header * (0.5 + 0.5 * fit) + 0.2 * fit);
+        return { column, score: Math.round(score * 100) / 100 };
+      })
+      .filter(ranking => ranking.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  return rankings;
+}
+
+/**
+ * Pick one column per field, best scores first, using each column once
+ * (except for fields that may share a column, like ageMin and ageMax)
+ */
+export function assignColumns(rankings: Record<string, ColumnRanking[]>): Record<string, ColumnAssignment> {
+  const candidates = Object.entries(rankings)
+    .flatMap(([field, ranked]) => ranked.map(ranking => ({ field, ...ranking })))
+    .sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<string, ColumnRanking>();
+  const usedBy = new Map<string, string>();
+
+  for (const candidate of candidates) {
+    if (assigned.has(candidate.field)) continue;
+
+    const owner = usedBy.get(candidate.column);
+    const shareable = owner !== undefined &&
+      SHARED_COLUMN_FIELDS.some(group => group.includes(owner) && group.includes(candidate.field));
+    if (owner !== undefined && !shareable) continue;
+
+    assigned.set(candidate.field, { column: candidate.column, score: candidate.score });
+    usedBy.set(candidate.column, candidate.field);
+  }
+
+  const result: Record<string, ColumnAssignment> = {};
+  for (const [field, ranked] of Object.entries(rankings)) {
+    const choice = assigned.get(field);
+    result[field] = {
+      column: choice?.column ?? null,
+      score: choice?.score ?? 0,
+      alternatives: ranked.filter(ranking => ranking.column !== choice?.column).slice(0, 3),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Share of headers two files have in common (Jaccard), ignoring case and
+ * punctuation
+ */
+export function headerOverlap(a: string[], b: string[]): number {
+  const left = new Set(a.map(normalizeHeader));
+  const right = new Set(b.map(normalizeHeader));
+  if (left.size === 0 && right.size === 0) return 0;
+
+  const shared = [...left].filter(header => right.has(header)).length;
+  return shared / new Set([...left, ...right]).size;
+}
+
+/**
+ * A saved field → column mapping resolved against a file's headers (so
+ * "start date" finds "Start Date"), or null if a mapped column is missing
+ */
+export function resolveTemplateMapping(
+  mappings: Record<string, string | null>,
+  headers: string[]
+): Record<string, string | null> | null {
+  const byNormalized = new Map(headers.map(header => [normalizeHeader(header), header]));
+  const resolved: Record<string, string | null> = {};
+
+  for (const [field, column] of Object.entries(mappings)) {
+    if (!column) {
+      resolved[field] = null;
+      continue;
+    }
+
+    const header = byNormalized.get(normalizeHeader(column));
+    if (!header) return null;
+    resolved[field] = header;
+  }
+
+  return resolved;
+}
@@ -7,6 +7,22 @@ interface EmailOptions {
   html: string;
 }
 
+interface DigestActivity {
+  id: string;
+  name: string;
+  description?: string | null;
+  cost?: number;
+  spotsAvailable?: number | null;
+  dayOfWeek?: string[];
+  startTime?: string | null;
+  endTime?: string | null;
+  ageMin?: number | null;
+  ageMax?: number | null;
+  registrationUrl?: string | null;
+  provider?: { name: string } | null;
+  location?: { name: string; city: string } | null;
+}
+
 export class EmailService {
   private transporter: Transporter;
   private readonly fromEmail: string;
@@ -186,6 +202,109 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send two-factor authentication turned on/off notification
+   */
+  async sendTwoFactorChangedEmail(email: string, name: string, enabled: boolean): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2196F3; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f4f4f4; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+          .alert { background-color: #f8d7da; border: 1px solid #f5c6cb; padding: 10px; margin: 10px 0; border-radius: 5px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Two-Factor Authentication ${enabled ? 'Turned On' : 'Turned Off'}</h1>
+          </div>
+          <div class="content">
+            <h2>Hi ${name},</h2>
+            ${enabled
+              ? '<p>Two-factor authentication is now on for your Kids Activity Tracker account. Signing in on a new device will ask for a code from your authenticator app.</p><p>Keep your recovery codes somewhere safe. Each one lets you sign in once if you lose your phone.</p>'
+              : '<p>Two-factor authentication has been turned off for your Kids Activity Tracker account. Signing in now only needs your password.</p>'}
+            <p>The change was made on: <strong>${new Date().toLocaleString()}</strong></p>
+            <div class="alert">
+              <strong>Didn't make this change?</strong> Please reset your password and contact our support team immediately.
+            </div>
+            <p>Best regards,<br>The Kids Activity Tracker Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: `Two-factor authentication ${enabled ? 'turned on' : 'turned off'} for Kids Activity Tracker`,
+      html
+    });
+  }
+
+  /**
+   * Send new device sign-in notification
+   */
+  async sendNewSignInEmail(
+    email: string,
+    name: string,
+    signIn: { deviceName: string; ipAddress?: string; signedInAt: Date }
+  ): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2196F3; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f4f4f4; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+          .alert { background-color: #f8d7da; border: 1px solid #f5c6cb; padding: 10px; margin: 10px 0; border-radius: 5px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>New Sign-in</h1>
+          </div>
+          <div class="content">
+            <h2>Hi ${name},</h2>
+            <p>Your Kids Activity Tracker account was just signed in to on a new device.</p>
+            <p>
+              Device: <strong>${signIn.deviceName}</strong><br>
+              ${signIn.ipAddress ? `IP address: <strong>${signIn.ipAddress}</strong><br>` : ''}
+              Time: <strong>${signIn.signedInAt.toLocaleString()}</strong>
+            </p>
+            <p>If this was you, there's nothing to do.</p>
+            <div class="alert">
+              <strong>Don't recognize this device?</strong> Sign it out from Profile &gt; Devices &amp; Sessions in the app, then change your password.
+            </div>
+            <p>Best regards,<br>The Kids Activity Tracker Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: 'New sign-in to your Kids Activity Tracker account',
+      html
+    });
+  }
+
   /**
    * Send welcome email (after email verification)
    */
@@ -609,64 +728,55 @@ export class EmailService {
     });
   }
 
+  /**
+   * Render an activity card for digest emails
+   */
+  private renderActivityCard(activity: DigestActivity): string {
+    const price = activity.cost ? `$${activity.cost.toFixed(2)}` : 'Free';
+    const spots = activity.spotsAvailable !== null && activity.spotsAvailable !== undefined
+      ? `${activity.spotsAvailable} spots left`
+      : '';
+    const days = activity.dayOfWeek?.join(', ') || '';
+    const time = activity.startTime && activity.endTime
+      ? `${activity.startTime} - ${activity.endTime}`
+      : activity.startTime || '';
+    const ages = activity.ageMin !== null && activity.ageMax !== null
+      ? `Ages ${activity.ageMin}-${activity.ageMax}`
+      : '';
+    const location = activity.location
+      ? `${activity.location.name}, ${activity.location.city}`
+      : '';
+
+    return `
+      <div style="background: white; border: 1px solid #e0e0e0; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+        <h3 style="margin: 0 0 8px 0; color: #222;">${activity.name}</h3>
+        <p style="margin: 0 0 8px 0; color: #666; font-size: 14px;">${activity.provider?.name || 'Provider'}</p>
+        <div style="display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 12px;">
+          ${ages ? `<span style="background: #FFE5EC; color: #FF385C; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${ages}</span>` : ''}
+          ${days ? `<span style="background: #E3F2FD; color: #1976D2; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${days}</span>` : ''}
+          ${time ? `<span style="background: #F3E5F5; color: #7B1FA2; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${time}</span>` : ''}
+        </div>
+        <div style="display: flex; justify-content: space-between; align-items: center;">
+          <div>
+            <span style="font-weight: bold; color: #222;">${price}</span>
+            ${spots ? `<span style="margin-left: 12px; color: ${activity.spotsAvailable && activity.spotsAvailable <= 3 ? '#FF385C' : '#666'}; font-size: 14px;">${spots}</span>` : ''}
+          </div>
+          <a href="${activity.registrationUrl || this.baseUrl}" style="background: #FF385C; color: white; padding: 8px 16px; border-radius: 6px; text-decoration: none; font-size: 14px;">View Details</a>
+        </div>
+        ${location ? `<p style="margin: 12px 0 0 0; color: #888; font-size: 12px;">📍 ${location}</p>` : ''}
+      </div>
+    `;
+  }
+
   /**
    * Send daily digest email with new activities matching user preferences
    */
   async sendDailyDigest(
     user: { name: string; email: string },
-    activities: Array<{
-      id: string;
-      name: string;
-      description?: string | null;
-      cost?: number;
-      spotsAvailable?: number | null;
-      dayOfWeek?: string[];
-      startTime?: string | null;
-      endTime?: string | null;
-      ageMin?: number | null;
-      ageMax?: number | null;
-      registrationUrl?: string | null;
-      provider?: { name: string } | null;
-      location?: { name: string; city: string } | null;
-    }>,
+    activities: DigestActivity[],
     unsubscribeUrl: string
   ): Promise<void> {
-    const activityCardsHtml = activities.slice(0, 10).map(activity => {
-      const price = activity.cost ? `$${activity.cost.toFixed(2)}` : 'Free';
-      const spots = activity.spotsAvailable !== null && activity.spotsAvailable !== undefined
-        ? `${activity.spotsAvailable} spots left`
-        : '';
-      const days = activity.dayOfWeek?.join(', ') || '';
-      const time = activity.startTime && activity.endTime
-        ? `${activity.startTime} - ${activity.endTime}`
-        : activity.startTime || '';
-      const ages = activity.ageMin !== null && activity.ageMax !== null
-        ? `Ages ${activity.ageMin}-${activity.ageMax}`
-        : '';
-      const location = activity.location
-        ? `${activity.location.name}, ${activity.location.city}`
-        : '';
-
-      return `
-        <div style="background: white; border: 1px solid #e0e0e0; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
-          <h3 style="margin: 0 0 8px 0; color: #222;">${activity.name}</h3>
-          <p style="margin: 0 0 8px 0; color: #666; font-size: 14px;">${activity.provider?.name || 'Provider'}</p>
-          <div style="display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 12px;">
-            ${ages ? `<span style="background: #FFE5EC; color: #FF385C; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${ages}</span>` : ''}
-            ${days ? `<span style="background: #E3F2FD; color: #1976D2; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${days}</span>` : ''}
-            ${time ? `<span style="background: #F3E5F5; color: #7B1FA2; padding: 4px 8px; border-radius: 4px; font-size: 12px;">${time}</span>` : ''}
-          </div>
-          <div style="display: flex; justify-content: space-between; align-items: center;">
-            <div>
-              <span style="font-weight: bold; color: #222;">${price}</span>
-              ${spots ? `<span style="margin-left: 12px; color: ${activity.spotsAvailable && activity.spotsAvailable <= 3 ? '#FF385C' : '#666'}; font-size: 14px;">${spots}</span>` : ''}
-            </div>
-            <a href="${activity.registrationUrl || this.baseUrl}" style="background: #FF385C; color: white; padding: 8px 16px; border-radius: 6px; text-decoration: none; font-size: 14px;">View Details</a>
-          </div>
-          ${location ? `<p style="margin: 12px 0 0 0; color: #888; font-size: 12px;">📍 ${location}</p>` : ''}
-        </div>
-      `;
-    }).join('');
+    const activityCardsHtml = activities.slice(0, 10).map(activity => this.renderActivityCard(activity)).join('');
 
     const html = `
       <!DOCTYPE html>
@@ -716,6 +826,71 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send new matches for a user's saved searches, grouped by search
+   */
+  async sendSavedSearchDigest(
+    user: { name: string; email: string },
+    matches: Array<{ savedSearchName: string; activities: DigestActivity[]; total: number }>,
+    unsubscribeUrl: string
+  ): Promise<void> {
+    const totalMatches = matches.reduce((sum, match) => sum + match.total, 0);
+
+    const sectionsHtml = matches.map(match => `
+      <h2 style="margin: 24px 0 12px 0; font-size: 18px; color: #222;">🔖 ${match.savedSearchName}</h2>
+      ${match.activities.slice(0, 5).map(activity => this.renderActivityCard(activity)).join('')}
+      ${match.total > 5 ? `<p style="text-align: center; color: #666;">+ ${match.total - 5} more in the app</p>` : ''}
+    `).join('');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f5f5f5; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #FF385C 0%, #FF6B6B 100%); color: white; padding: 30px 20px; text-align: center; border-radius: 12px 12px 0 0; }
+          .header h1 { margin: 0; font-size: 24px; }
+          .header p { margin: 8px 0 0 0; opacity: 0.9; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 12px 12px; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #888; }
+          .footer a { color: #FF385C; text-decoration: none; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔖 ${totalMatches} New ${totalMatches === 1 ? 'Match' : 'Matches'}</h1>
+            <p>For your saved searches</p>
+          </div>
+          <div class="content">
+            <p style="margin: 0 0 8px 0;">Hi ${user.name},</p>
+            <p style="margin: 0;">New activities were just listed that match your saved searches:</p>
+            ${sectionsHtml}
+            <div style="text-align: center; margin-top: 24px;">
+              <a href="${this.baseUrl}" style="background: #FF385C; color: white; padding: 12px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block;">Open the App</a>
+            </div>
+          </div>
+          <div class="footer">
+            <p>You're receiving this because you turned on alerts for a saved search.</p>
+            <p><a href="${unsubscribeUrl}">Turn off saved search alerts</a> | <a href="${this.baseUrl}/settings/notifications">Manage Preferences</a></p>
+            <p>Kids Activity Tracker</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: user.email,
+      subject: matches.length === 1
+        ? `🔖 ${totalMatches} new ${totalMatches === 1 ? 'match' : 'matches'} for "${matches[0].savedSearchName}"`
+        : `🔖 ${totalMatches} new matches for your saved searches`,
+      html
+    });
+  }
+
   /**
    * Send weekly digest summary email
    */
@@ -996,13 +1171,20 @@ export class EmailService {
       dayOfWeek?: string[];
       startTime?: string | null;
       registrationUrl?: string | null;
+      directRegistrationUrl?: string | null;
       provider?: { name: string } | null;
       location?: { name: string; city: string } | null;
     },
-    unsubscribeUrl: string
+    unsubscribeUrl: string,
+    options: { childNames?: string[]; holdExpiresAt?: Date } = {}
   ): Promise<void> {
     const days = activity.dayOfWeek?.join(', ') || '';
     const location = activity.location ? `${activity.location.name}, ${activity.location.city}` : '';
+    const registerUrl = activity.directRegistrationUrl || activity.registrationUrl || this.baseUrl;
+    const forChildren = options.childNames?.length ? ` for ${options.childNames.join(' and ')}` : '';
+    const holdUntil = options.holdExpiresAt
+      ? options.holdExpiresAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+      : null;
 
     const html = `
       <!DOCTYPE html>
@@ -1028,7 +1210,7 @@ export class EmailService {
           </div>
           <div class="content">
             <p>Hi ${user.name},</p>
-            <p>Great news! An activity you joined the waitlist for now has spots available:</p>
+            <p>Great news! An activity you joined the waitlist for${forChildren} now has spots available:</p>
 
             <div class="alert-box">
               <div class="checkmark">✅</div>
@@ -1044,10 +1226,12 @@ export class EmailService {
             </div>
 
             <div style="text-align: center; margin-top: 24px;">
-              <a href="${activity.registrationUrl || this.baseUrl}" style="background: #2196F3; color: white; padding: 14px 36px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block; font-size: 16px;">Register Now</a>
+              <a href="${registerUrl}" style="background: #2196F3; color: white; padding: 14px 36px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block; font-size: 16px;">Register Now</a>
             </div>
 
-            <p style="text-align: center; color: #888; margin-top: 16px; font-size: 14px;">Act fast - these spots may fill up quickly!</p>
+            ${holdUntil
+              ? `<p style="text-align: center; color: #888; margin-top: 16px; font-size: 14px;">We're holding your place in line until ${holdUntil}. After that, the next family on the waitlist is notified.</p>`
+              : `<p style="text-align: center; color: #888; margin-top: 16px; font-size: 14px;">Act fast - these spots may fill up quickly!</p>`}
           </div>
           <div class="footer">
             <p>You're receiving this because you joined the waitlist for this activity.</p>
@@ -1066,6 +1250,178 @@ export class EmailService {
     });
   }
 
+  /**
+   * Alert a vendor that a scheduled pull of one of their import sources failed
+   */
+  async sendImportSourceFailedEmail(
+    email: string,
+    vendorName: string,
+    source: { name: string; url: string; error: string; paused: boolean }
+  ): Promise<void> {
+    const sourcesUrl = `${this.baseUrl}/vendor/dashboard/imports/sources`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #E8638B; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f4f4f4; }
+          .button { display: inline-block; padding: 12px 30px; background-color: #E8638B; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+          .alert { background-color: #f8d7da; border: 1px solid #f5c6cb; padding: 10px; margin: 10px 0; border-radius: 5px; word-break: break-word; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Scheduled Import Failed</h1>
+          </div>
+          <div class="content">
+            <h2>Hi ${vendorName},</h2>
+            <p>We couldn't import your schedule from <strong>${source.name}</strong> (${source.url}).</p>
+            <div class="alert">${source.error}</div>
+            ${source.paused
+              ? '<p>This source has failed several times in a row, so we have paused it. Fix the problem and resume it from your dashboard.</p>'
+              : '<p>We will try again at the next scheduled time.</p>'}
+            <div style="text-align: center;">
+              <a href="${sourcesUrl}" class="button">View Import Sources</a>
+            </div>
+            <p>Best regards,<br>The Kids Activity Tracker Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: email,
+      subject: `Scheduled import failed: ${source.name}`,
+      html
+    });
+  }
+
+  /**
+   * Send family plan invitation to a co-parent
+   */
+  async sendFamilyInvitation(
+    recipientEmail: string,
+    ownerName: string,
+    token: string,
+    expiresInDays: number = 7
+  ): Promise<void> {
+    // Deep link that opens the app or falls back to the web landing page
+    const invitationUrl = `https://kidsactivitytracker.ca/family/${token}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #E8638B; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f4f4f4; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #E8638B; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+          .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 10px; margin: 10px 0; border-radius: 5px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Join ${ownerName}'s Family Plan</h1>
+          </div>
+          <div class="content">
+            <h2>Hi,</h2>
+            <p><strong>${ownerName}</strong> has invited you to share their Family Pro Household plan on Kids Activity Tracker, at no extra cost to you.</p>
+            <p>Once you join, you'll get:</p>
+            <ul>
+              <li>Unlimited children and favorites</li>
+              <li>Saved searches and instant alerts</li>
+              <li>Calendar export and more AI searches</li>
+            </ul>
+            <center>
+              <a href="${invitationUrl}" class="button">Join Family Plan</a>
+            </center>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${invitationUrl}</p>
+            <div class="warning">
+              <strong>Note:</strong> This invitation will expire in ${expiresInDays} days.
+            </div>
+            <p>Best regards,<br>The Kids Activity Tracker Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject: `${ownerName} invited you to their family plan`,
+      html
+    });
+  }
+
+  /**
+   * Tell one side of a family plan that a co-parent is no longer on it
+   */
+  async sendFamilyMembershipEnded(
+    recipientEmail: string,
+    recipientName: string,
+    details: { otherName: string; reason: 'removed' | 'left' }
+  ): Promise<void> {
+    const message = details.reason === 'removed'
+      ? `${details.otherName} has removed you from their family plan. Your account is back on your own plan; your children, favorites and saved searches are kept, but you can't add more than the free plan allows until you upgrade.`
+      : `${details.otherName} has left your family plan, which frees up a seat for someone else.`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #E8638B; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f4f4f4; }
+          .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Family Plan Updated</h1>
+          </div>
+          <div class="content">
+            <h2>Hi ${recipientName},</h2>
+            <p>${message}</p>
+            <p>Best regards,<br>The Kids Activity Tracker Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message, please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject: details.reason === 'removed'
+        ? `You've been removed from ${details.otherName}'s family plan`
+        : `${details.otherName} left your family plan`,
+      html
+    });
+  }
+
   /**
    * Verify transporter connection
    */
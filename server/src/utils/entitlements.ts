@@ -0,0 +1,93 @@
+/**
+ * Subscription entitlements
+ * Premium can be bought in the app (App Store / Google Play through
+ * RevenueCat) or on the website (Stripe). Each provider's purchase is kept
+ * as its own entitlement, and the user's plan comes from the best one that
+ * still grants access, so limits are the same wherever they paid.
+ */
+
+export type EntitlementProvider = 'revenuecat' | 'stripe';
+
+export type EntitlementStatus = 'active' | 'trialing' | 'past_due' | 'cancelled' | 'expired' | 'refunded';
+
+export interface EntitlementState {
+  provider: string;
+  externalId: string;
+  planCode: string;
+  status: string;
+  billingCycle: string | null;
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+/**
+ * Whether an entitlement gives access now. Cancelled and past-due
+ * entitlements keep access until the end of the period already paid for;
+ * expired and refunded ones never do.
+ */
+export function grantsAccess(entitlement: EntitlementState, now: Date = new Date()): boolean {
+  switch (entitlement.status) {
+    case 'active':
+    case 'trialing':
+      return true;
+    case 'past_due':
+    case 'cancelled':
+      return entitlement.currentPeriodEnd !== null && entitlement.currentPeriodEnd > now;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether an entitlement will renew on its own
+ */
+export function willRenew(entitlement: EntitlementState): boolean {
+  return (entitlement.status === 'active' || entitlement.status === 'trialing') && !entitlement.cancelAtPeriodEnd;
+}
+
+/**
+ * The entitlement a user's plan should come from: the highest-ranked plan,
+ * then one that will renew, then the one paid up furthest. Null when none
+ * grants access.
+ */
+export function resolveEntitlement<T extends EntitlementState>(
+  entitlements: T[],
+  planRank: Record<string, number>,
+  now: Date = new Date()
+): T | null {
+  const candidates = entitlements.filter(entitlement => grantsAccess(entitlement, now));
+  if (candidates.length === 0) return null;
+
+  return candidates.sort((a, b) =>
+    (planRank[b.planCode] ?? 0) - (planRank[a.planCode] ?? 0) ||
+    Number(willRenew(b)) - Number(willRenew(a)) ||
+    (b.currentPeriodEnd?.getTime() ?? Infinity) - (a.currentPeriodEnd?.getTime() ?? Infinity)
+  )[0];
+}
+
+/**
+ * Subscription status shown for an entitlement that grants access
+ */
+export function toSubscriptionStatus(entitlement: EntitlementState): 'active' | 'trialing' | 'past_due' | 'cancelled' {
+  if (entitlement.status === 'past_due') return 'past_due';
+  if (entitlement.status === 'cancelled' || entitlement.cancelAtPeriodEnd) return 'cancelled';
+  return entitlement.status === 'trialing' ? 'trialing' : 'active';
+}
+
+/**
+ * Entitlement status for a Stripe subscription status
+ */
+export function fromStripeStatus(status: string, cancelAtPeriodEnd = false): EntitlementStatus {
+  switch (status) {
+    case 'active':
+      return cancelAtPeriodEnd ? 'cancelled' : 'active';
+    case 'trialing':
+      return cancelAtPeriodEnd ? 'cancelled' : 'trialing';
+    case 'past_due':
+    case 'unpaid':
+      return 'past_due';
+    default:
+      // canceled, incomplete, incomplete_expired, paused
+      return 'expired';
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Family plans
+ * The payer of a family plan can invite co-parents, who get the same
+ * premium limits without paying for their own subscription. A plan's seats
+ * are the co-parents it covers besides the payer. Seats are worked out when
+ * limits are checked rather than stored, so when the payer's plan lapses or
+ * moves to fewer seats, members drop back to their own plan straight away
+ * and whoever joined first keeps a seat.
+ */
+
+export const FAMILY_INVITE_EXPIRY_DAYS = 7;
+
+export interface FamilySeatHolder {
+  memberId: string | null;
+  status: string;
+  joinedAt: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * Active members covered by the plan's seats, earliest joined first
+ */
+export function seatedMemberIds(members: FamilySeatHolder[], seats: number): string[] {
+  return members
+    .filter(member => member.status === 'active' && member.memberId)
+    .sort((a, b) => (a.joinedAt?.getTime() ?? 0) - (b.joinedAt?.getTime() ?? 0))
+    .slice(0, Math.max(0, seats))
+    .map(member => member.memberId as string);
+}
+
+/**
+ * Seats left for new invitations. Unexpired pending invitations hold a seat
+ * so a payer can't invite more people than the plan covers.
+ */
+export function remainingSeats(members: FamilySeatHolder[], seats: number, now: Date = new Date()): number {
+  const taken = members.filter(member =>
+    member.status === 'active' || (member.status === 'pending' && member.expiresAt > now)
+  ).length;
+  return Math.max(0, seats - taken);
+}
@@ -0,0 +1,257 @@
+/**
+ * iCalendar (RFC 5545) builder for subscribable calendar feeds.
+ *
+ * Activity times are stored as local wall-clock strings ("9:30 am"), so events
+ * are written as floating date-times and the calendar's X-WR-TIMEZONE tells
+ * subscribing clients which zone to interpret them in. Wall-clock values are
+ * carried in Date objects using their UTC fields so output does not depend on
+ * the server's timezone.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+  description?: string;
+  location?: string;
+  url?: string;
+  rrule?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories?: string[];
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  timezone?: string;
+  refreshIntervalMinutes?: number;
+  events: IcsEvent[];
+}
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+}
+
+const PRODUCT_ID = '-//Kids Activity Tracker//Calendar Feed//EN';
+
+const DAY_TO_RRULE: Record<string, string> = {
+  su: 'SU', sun: 'SU', sunday: 'SU',
+  mo: 'MO', mon: 'MO', monday: 'MO',
+  tu: 'TU', tue: 'TU', tues: 'TU', tuesday: 'TU',
+  we: 'WE', wed: 'WE', wednesday: 'WE',
+  th: 'TH', thu: 'TH', thur: 'TH', thurs: 'TH', thursday: 'TH',
+  fr: 'FR', fri: 'FR', friday: 'FR',
+  sa: 'SA', sat: 'SA', saturday: 'SA',
+};
+
+const RRULE_DAY_INDEX: Record<string, number> = {
+  SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6,
+};
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0');
+
+/**
+ * Escape a TEXT value (commas, semicolons, backslashes and newlines)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets per RFC 5545 section 3.1
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a wall-clock date as YYYYMMDD
+ */
+export function formatIcsDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Format a wall-clock date-time as a floating YYYYMMDDTHHMMSS value
+ */
+export function formatIcsDateTime(date: Date): string {
+  return `${formatIcsDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Format an absolute instant as a UTC YYYYMMDDTHHMMSSZ value (DTSTAMP, LAST-MODIFIED)
+ */
+export function formatIcsUtc(date: Date): string {
+  return `${formatIcsDateTime(date)}Z`;
+}
+
+/**
+ * Parse a time string like "9:30 am", "9am", "09:30" or "12:00 p.m."
+ */
+export function parseClockTime(value: string | null | undefined): ClockTime | null {
+  if (!value) return null;
+
+  const match = value
+    .trim()
+    .toLowerCase()
+    .replace(/\./g, '')
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const period = match[3];
+
+  // A bare number without minutes or am/pm is too ambiguous to be a time
+  if (!match[2] && !period) return null;
+
+  if (period === 'pm' && hours < 12) hours += 12;
+  if (period === 'am' && hours === 12) hours = 0;
+
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/**
+ * Convert day names ("Mon", "Tuesday", "Thurs") to RRULE BYDAY codes, preserving week order
+ */
+export function toRRuleDays(days: string[]): string[] {
+  const codes = new Set<string>();
+  for (const day of days) {
+    const code = DAY_TO_RRULE[day.trim().toLowerCase()];
+    if (code) codes.add(code);
+  }
+  return Array.from(codes).sort((a, b) => RRULE_DAY_INDEX[a] - RRULE_DAY_INDEX[b]);
+}
+
+/**
+ * Build a wall-clock Date from a calendar date and optional clock time
+ */
+export function toWallClock(date: Date, time?: ClockTime | null): Date {
+  return new Date(Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    time?.hours ?? 0,
+    time?.minutes ?? 0
+  ));
+}
+
+/**
+ * Find the first date on or after `from` that falls on one of the RRULE days
+ */
+export function firstOccurrenceOnOrAfter(from: Date, rruleDays: string[]): Date | null {
+  const wanted = new Set(rruleDays.map(day => RRULE_DAY_INDEX[day]));
+  if (wanted.size === 0) return null;
+
+  const candidate = toWallClock(from);
+  for (let i = 0; i < 7; i++) {
+    if (wanted.has(candidate.getUTCDay())) {
+      return candidate;
+    }
+    candidate.setUTCDate(candidate.getUTCDate() + 1);
+  }
+  return null;
+}
+
+/**
+ * Build a weekly RRULE ending on the given date (inclusive)
+ */
+export function buildWeeklyRRule(rruleDays: string[], until: Date, allDay = false): string {
+  const untilValue = allDay
+    ? formatIcsDate(until)
+    : `${formatIcsDate(until)}T235959`;
+  return `FREQ=WEEKLY;BYDAY=${rruleDays.join(',')};UNTIL=${untilValue}`;
+}
+
+function buildEventLines(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsUtc(stamp)}`,
+  ];
+
+  if (event.allDay) {
+    const end = event.end ?? new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(end)}`);
+  } else {
+    const end = event.end ?? new Date(event.start.getTime() + 60 * 60 * 1000);
+    lines.push(`DTSTART:${formatIcsDateTime(event.start)}`);
+    lines.push(`DTEND:${formatIcsDateTime(end)}`);
+  }
+
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsUtc(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serialize a calendar to an iCalendar string with CRLF line endings
+ */
+export function buildCalendar(calendar: IcsCalendar, stamp: Date = new Date()): string {
+  const refresh = calendar.refreshIntervalMinutes ?? 360;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  if (calendar.timezone) lines.push(`X-WR-TIMEZONE:${calendar.timezone}`);
+  lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`);
+  lines.push(`X-PUBLISHED-TTL:PT${refresh}M`);
+
+  for (const event of calendar.events) {
+    lines.push(...buildEventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
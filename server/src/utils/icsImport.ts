@@ -0,0 +1,361 @@
+/**
+ * iCalendar (RFC 5545) import
+ * Turns VEVENTs from a studio's .ics feed into structured activities. Weekly
+ * and daily RRULEs become weekdays, a date range and one session per
+ * occurrence, with EXDATEs, RDATEs and moved or cancelled instances
+ * (RECURRENCE-ID) applied.
+ */
+import {
+  MAX_EXPANDED_SESSIONS,
+  Recurrence,
+  StructuredActivity,
+  StructuredSession,
+  expandRecurrence,
+  rruleDaysToNames,
+  toImportRow,
+  weekdayCode,
+} from './structuredImport';
+import { toDateKey } from './scheduleConflicts';
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateValue {
+  date: Date; // wall clock in UTC fields
+  allDay: boolean;
+}
+
+interface IcsEventData {
+  uid: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  categories: string[];
+  geo?: { latitude: number; longitude: number };
+  status?: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  rrule?: string;
+  exdates: Set<string>;
+  rdates: IcsDateValue[];
+  recurrenceId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Join folded lines (continuations start with a space or tab)
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Wall-clock time in a timezone for an absolute instant. Falls back to UTC
+ * when the zone isn't known.
+ */
+function toZonedWallClock(instant: Date, timeZone?: string): Date {
+  if (!timeZone) return instant;
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute')));
+  } catch {
+    return instant;
+  }
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. Floating and TZID times are already wall
+ * clock; UTC times are converted to the calendar's timezone.
+ */
+export function parseIcsDate(value: string, calendarTimeZone?: string): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (hours === undefined) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day)), allDay: true };
+  }
+
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+  return { date: utc ? toZonedWallClock(date, calendarTimeZone) : date, allDay: false };
+}
+
+/**
+ * Parse a DURATION like PT1H30M or P1D into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (Number(weeks || 0) * 7 + Number(days || 0)) * DAY_MS
+    + Number(hours || 0) * 3600000 + Number(minutes || 0) * 60000 + Number(seconds || 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse an RRULE. Only DAILY and WEEKLY rules can be described as a weekly
+ * schedule; other frequencies return null.
+ */
+export function parseIcsRRule(value: string, calendarTimeZone?: string): Recurrence | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) parts[key.toUpperCase()] = val;
+  }
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return null;
+
+  const until = parts.UNTIL ? parseIcsDate(parts.UNTIL, calendarTimeZone) : null;
+  return {
+    frequency: parts.FREQ,
+    interval: parts.INTERVAL ? Math.max(1, parseInt(parts.INTERVAL, 10) || 1) : 1,
+    // Ordinal prefixes ("1MO") only mean something for monthly rules
+    byDay: parts.BYDAY ? parts.BYDAY.split(',').map(day => day.replace(/^[+-]?\d+/, '').toUpperCase()) : [],
+    ...(until && { until: until.date }),
+    ...(parts.COUNT && { count: parseInt(parts.COUNT, 10) || undefined }),
+  };
+}
+
+const formatTime = (date: Date): string =>
+  `${date.getUTCHours().toString().padStart(2, '0')}:${date.getUTCMinutes().toString().padStart(2, '0')}`;
+
+function readEvents(text: string): { events: IcsEventData[]; timeZone?: string } {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+
+  const timeZone = lines
+    .map(parseProperty)
+    .find(property => property?.name === 'X-WR-TIMEZONE')?.value.trim();
+
+  const events: IcsEventData[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Skip nested components such as VALARM
+    if (upper.startsWith('BEGIN:')) depth++;
+    else if (upper.startsWith('END:') && depth > 0) depth--;
+    else if (upper === 'END:VEVENT') {
+      const event = toEventData(current, timeZone);
+      if (event) events.push(event);
+      current = null;
+    } else if (depth === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return { events, timeZone };
+}
+
+function toEventData(properties: IcsProperty[], timeZone?: string): IcsEventData | null {
+  const get = (name: string) => properties.find(property => property.name === name);
+  const all = (name: string) => properties.filter(property => property.name === name);
+  const dateValues = (property: IcsProperty) => property.value
+    .split(',')
+    .map(value => parseIcsDate(value, timeZone))
+    .filter((value): value is IcsDateValue => value !== null);
+
+  // Cancelled instances often carry only their RECURRENCE-ID
+  const recurrenceId = get('RECURRENCE-ID') ? parseIcsDate(get('RECURRENCE-ID')!.value, timeZone) : null;
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseIcsDate(dtStart.value, timeZone) : recurrenceId;
+  if (!start) return null;
+
+  let end = get('DTEND') ? parseIcsDate(get('DTEND')!.value, timeZone) || undefined : undefined;
+  const duration = get('DURATION') ? parseDuration(get('DURATION')!.value) : null;
+  if (!end && duration !== null) {
+    end = { date: new Date(start.date.getTime() + duration), allDay: start.allDay };
+  }
+
+  const geo = get('GEO')?.value.split(/[;,]/).map(Number);
+
+  return {
+    uid: get('UID') ? unescapeText(get('UID')!.value) : `${toDateKey(start.date)}-${get('SUMMARY')?.value || 'event'}`,
+    summary: get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : undefined,
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : undefined,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : undefined,
+    url: get('URL')?.value.trim(),
+    categories: all('CATEGORIES').flatMap(property => property.value.split(',').map(unescapeText)).filter(Boolean),
+    ...(geo && geo.length === 2 && geo.every(Number.isFinite) && { geo: { latitude: geo[0], longitude: geo[1] } }),
+    status: get('STATUS')?.value.trim().toUpperCase(),
+    start,
+    end,
+    rrule: get('RRULE')?.value,
+    exdates: new Set(all('EXDATE').flatMap(dateValues).map(value => toDateKey(value.date))),
+    rdates: all('RDATE').flatMap(dateValues),
+    ...(recurrenceId && { recurrenceId: toDateKey(recurrenceId.date) }),
+  };
+}
+
+function sessionFor(date: Date, start: IcsDateValue, end?: IcsDateValue): StructuredSession {
+  return {
+    date: toDateKey(date),
+    ...(!start.allDay && { startTime: formatTime(start.date) }),
+    ...(!start.allDay && end && !end.allDay && { endTime: formatTime(end.date) }),
+  };
+}
+
+/**
+ * Build one activity from a series: the master event plus any instances it
+ * moved (RECURRENCE-ID) or cancelled
+ */
+function toStructuredActivity(master: IcsEventData, overrides: IcsEventData[], timeZone?: string): StructuredActivity {
+  const recurrence = master.rrule ? parseIcsRRule(master.rrule, timeZone) : null;
+  const exceptions = new Set(master.exdates);
+  let sessionDates: string[] | null;
+
+  if (recurrence) {
+    sessionDates = expandRecurrence(master.start.date, recurrence, exceptions);
+  } else if (master.rrule) {
+    // Monthly or yearly series can't be described as weekdays or sessions
+    sessionDates = null;
+  } else if (master.start.allDay && master.end && master.end.date.getTime() - master.start.date.getTime() > DAY_MS) {
+    // Multi-day all-day events (camps) run every day up to the exclusive end
+    sessionDates = [];
+    for (let day = master.start.date; day < master.end.date && sessionDates.length < MAX_EXPANDED_SESSIONS; day = new Date(day.getTime() + DAY_MS)) {
+      sessionDates.push(toDateKey(day));
+    }
+  } else {
+    sessionDates = [toDateKey(master.start.date)];
+  }
+
+  let sessions: StructuredSession[] | undefined;
+  if (sessionDates) {
+    const byDate = new Map(sessionDates.map(date => [date, sessionFor(new Date(`${date}T00:00:00Z`), master.start, master.end)]));
+
+    for (const rdate of master.rdates) {
+      byDate.set(toDateKey(rdate.date), sessionFor(rdate.date, rdate.allDay ? master.start : rdate, master.end));
+    }
+
+    for (const override of overrides) {
+      byDate.delete(override.recurrenceId!);
+      if (override.status !== 'CANCELLED') {
+        byDate.set(toDateKey(override.start.date), sessionFor(override.start.date, override.start, override.end));
+      }
+    }
+
+    sessions = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  const weekdays = recurrence
+    ? recurrence.frequency === 'WEEKLY'
+      ? rruleDaysToNames(recurrence.byDay.length > 0 ? recurrence.byDay : [weekdayCode(master.start.date)])
+      : recurrence.interval === 1 ? rruleDaysToNames(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']) : []
+    : rruleDaysToNames([...new Set((sessions || []).map(session => weekdayCode(new Date(`${session.date}T00:00:00Z`))))]);
+
+  const first = sessions?.[0]?.date ?? toDateKey(master.start.date);
+  const last = sessions && sessions.length > 0
+    ? sessions[sessions.length - 1].date
+    : recurrence?.until ? toDateKey(recurrence.until) : undefined;
+
+  return {
+    externalId: master.uid,
+    name: master.summary,
+    description: master.description,
+    category: master.categories[0],
+    locationName: master.location,
+    registrationUrl: master.url,
+    latitude: master.geo?.latitude,
+    longitude: master.geo?.longitude,
+    dateStart: first,
+    dateEnd: last,
+    ...(!master.start.allDay && { startTime: formatTime(master.start.date) }),
+    ...(!master.start.allDay && master.end && !master.end.allDay && { endTime: formatTime(master.end.date) }),
+    dayOfWeek: weekdays,
+    sessions,
+  };
+}
+
+/**
+ * Parse an .ics file into structured activities, one per event series.
+ * Cancelled series are left out.
+ */
+export function parseIcsActivities(text: string): StructuredActivity[] {
+  const { events, timeZone } = readEvents(text);
+
+  const masters = new Map<string, IcsEventData>();
+  const overrides = new Map<string, IcsEventData[]>();
+  for (const event of events) {
+    if (event.recurrenceId) {
+      overrides.set(event.uid, [...(overrides.get(event.uid) || []), event]);
+    } else if (!masters.has(event.uid)) {
+      masters.set(event.uid, event);
+    }
+  }
+
+  return [...masters.values()]
+    .filter(master => master.status !== 'CANCELLED')
+    .map(master => toStructuredActivity(master, overrides.get(master.uid) || [], timeZone));
+}
+
+/**
+ * Parse an .ics file into import rows
+ */
+export function parseIcsRows(text: string): Record<string, string | number | null>[] {
+  return parseIcsActivities(text).map(toImportRow);
+}
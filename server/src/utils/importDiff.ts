@@ -0,0 +1,112 @@
+/**
+ * Import dry-run diff
+ * Compares the activity fields an import would write against the stored
+ * activity, field by field, so vendors and reviewers can see what a batch
+ * will change before it is processed. Fields locked by a manual admin edit
+ * (manuallyEditedFields) are never overwritten and are reported separately.
+ */
+
+export type ImportDiffAction = 'created' | 'updated' | 'unchanged' | 'deactivated';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportDiffEntry {
+  rowNumber: number | null; // null for activities that aren't in the file
+  externalId: string;
+  name: string;
+  action: ImportDiffAction;
+  activityId: string | null;
+  changes: FieldChange[];
+  lockedChanges: FieldChange[]; // changes skipped because the field is locked
+}
+
+export interface ImportDiffSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  deactivated: number;
+  locked: number; // entries with at least one locked change
+}
+
+const DATE_FIELDS = new Set(['dateStart', 'dateEnd']);
+
+/**
+ * Comparable form of a stored or imported value: dates as yyyy-MM-dd,
+ * trimmed strings, nulls for empty values
+ */
+function normalize(field: string, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (DATE_FIELDS.has(field) || value instanceof Date) {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return isNaN(date.getTime()) ? String(value) : date.toISOString().split('T')[0];
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(item => String(item).trim()) : null;
+  }
+
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Field-level changes between a stored activity and the fields an import
+ * would write. Undefined incoming values aren't written, so they never
+ * count as changes.
+ */
+export function diffActivityFields(
+  existing: Record<string, any>,
+  incoming: Record<string, any>,
+  lockedFields: string[] = []
+): { changes: FieldChange[]; lockedChanges: FieldChange[] } {
+  const locked = new Set(lockedFields);
+  const changes: FieldChange[] = [];
+  const lockedChanges: FieldChange[] = [];
+
+  for (const [field, value] of Object.entries(incoming)) {
+    if (value === undefined) continue;
+
+    const before = normalize(field, existing[field]);
+    const after = normalize(field, value);
+    if (isEqual(before, after)) continue;
+
+    (locked.has(field) ? lockedChanges : changes).push({ field, before, after });
+  }
+
+  return { changes, lockedChanges };
+}
+
+/**
+ * Copy of update data without the locked fields
+ */
+export function omitLockedFields<T extends Record<string, any>>(data: T, lockedFields: string[]): Partial<T> {
+  if (lockedFields.length === 0) return data;
+
+  const filtered: Partial<T> = { ...data };
+  for (const field of lockedFields) {
+    delete filtered[field];
+  }
+  return filtered;
+}
+
+export function summarizeImportDiff(entries: ImportDiffEntry[]): ImportDiffSummary {
+  const summary: ImportDiffSummary = { created: 0, updated: 0, unchanged: 0, deactivated: 0, locked: 0 };
+
+  for (const entry of entries) {
+    summary[entry.action]++;
+    if (entry.lockedChanges.length > 0) summary.locked++;
+  }
+
+  return summary;
+}
@@ -0,0 +1,376 @@
+/**
+ * schema.org JSON-LD import
+ * Turns Event and Course markup (from a .jsonld file or the
+ * <script type="application/ld+json"> blocks of a saved web page) into
+ * structured activities. Event schedules (eventSchedule / courseSchedule)
+ * become weekdays, a date range and sessions; each CourseInstance becomes
+ * its own activity.
+ */
+import {
+  MAX_EXPANDED_SESSIONS,
+  Recurrence,
+  StructuredActivity,
+  StructuredSession,
+  expandRecurrence,
+  rruleDaysToNames,
+  toImportRow,
+  weekdayCode,
+} from './structuredImport';
+import { toRRuleDays } from './icsBuilder';
+import { toDateKey } from './scheduleConflicts';
+
+type JsonLdNode = Record<string, any>;
+
+interface DateTimeValue {
+  date: string; // yyyy-MM-dd
+  time?: string; // HH:mm
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCRIPT_PATTERN = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Strip schema.org prefixes from a type or enumeration value
+ * ("https://schema.org/Monday" → "Monday")
+ */
+function schemaName(value: string): string {
+  return value.replace(/^(https?:\/\/schema\.org\/|schema:)/i, '').trim();
+}
+
+function typesOf(node: JsonLdNode): string[] {
+  return asArray(node['@type']).filter((type): type is string => typeof type === 'string').map(schemaName);
+}
+
+const isEventType = (type: string) => type === 'Event' || (type.endsWith('Event') && type !== 'PublicationEvent');
+
+/**
+ * Text from a string, a { name } / { @value } object or the first of an array
+ */
+function text(value: any): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined || first === null) return undefined;
+  if (typeof first === 'string' || typeof first === 'number') return String(first).trim() || undefined;
+  return text(first.name ?? first['@value'] ?? first.value);
+}
+
+function toNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Date and wall-clock time from an ISO 8601 value, keeping the local time as
+ * written rather than converting its offset
+ */
+export function parseSchemaDateTime(value: any): DateTimeValue | null {
+  const match = typeof value === 'string'
+    ? value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2}))?/)
+    : null;
+  if (!match) return null;
+  return { date: match[1], ...(match[2] && { time: `${match[2]}:${match[3]}` }) };
+}
+
+function parseTime(value: any): string | undefined {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})/) : null;
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+}
+
+function parseIsoDuration(value: any): { days: number; weeks: number; minutes: number } | null {
+  const match = typeof value === 'string'
+    ? value.trim().match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/i)
+    : null;
+  if (!match) return null;
+  return {
+    weeks: Number(match[1] || 0),
+    days: Number(match[2] || 0),
+    minutes: Number(match[3] || 0) * 60 + Number(match[4] || 0),
+  };
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+const toDate = (key: string) => new Date(`${key}T00:00:00Z`);
+
+/**
+ * Recurrence for a schema.org Schedule, or null when it doesn't repeat
+ * daily or weekly
+ */
+export function scheduleToRecurrence(schedule: JsonLdNode): Recurrence | null {
+  const byDay = toRRuleDays(asArray(schedule.byDay).map(day => schemaName(text(day) || '')));
+  const frequency = typeof schedule.repeatFrequency === 'string' ? schedule.repeatFrequency.trim() : '';
+  const duration = parseIsoDuration(frequency);
+  const end = parseSchemaDateTime(schedule.endDate);
+
+  let recurrence: Pick<Recurrence, 'frequency' | 'interval'> | null = null;
+  if (duration?.weeks) recurrence = { frequency: 'WEEKLY', interval: duration.weeks };
+  else if (duration?.days && duration.days % 7 === 0) recurrence = { frequency: 'WEEKLY', interval: duration.days / 7 };
+  else if (duration?.days) recurrence = { frequency: 'DAILY', interval: duration.days };
+  else if (/^weekly$/i.test(frequency) || (!frequency && byDay.length > 0)) recurrence = { frequency: 'WEEKLY', interval: 1 };
+  else if (/^daily$/i.test(frequency)) recurrence = { frequency: 'DAILY', interval: 1 };
+  if (!recurrence) return null;
+
+  return {
+    ...recurrence,
+    byDay,
+    ...(end && { until: toDate(end.date) }),
+    ...(toNumber(schedule.repeatCount) && { count: toNumber(schedule.repeatCount) }),
+  };
+}
+
+function locationFields(value: any): StructuredActivity {
+  const location = asArray(value)[0];
+  if (!location) return {};
+  if (typeof location === 'string') return { locationName: location };
+
+  if (typesOf(location).includes('VirtualLocation')) {
+    return { locationName: text(location.name) || 'Online' };
+  }
+
+  const address = location.address;
+  const fullAddress = typeof address === 'string'
+    ? address
+    : address
+      ? [address.streetAddress, address.addressLocality, address.addressRegion, address.postalCode]
+          .map(text).filter(Boolean).join(', ')
+      : undefined;
+
+  return {
+    locationName: text(location.name) || fullAddress,
+    fullAddress: fullAddress || undefined,
+    latitude: toNumber(location.geo?.latitude),
+    longitude: toNumber(location.geo?.longitude),
+  };
+}
+
+function offerFields(value: any): StructuredActivity {
+  const offers = asArray(value).flatMap(offer => [offer, ...asArray(offer?.offers)]).filter(Boolean);
+  const prices = offers
+    .map(offer => toNumber(offer.price ?? offer.lowPrice ?? offer.priceSpecification?.price))
+    .filter((price): price is number => price !== undefined);
+  const url = offers.map(offer => text(offer.url)).find(Boolean);
+
+  return {
+    ...(prices.length > 0 && { cost: Math.min(...prices) }),
+    ...(url && { registrationUrl: url }),
+  };
+}
+
+function audienceFields(node: JsonLdNode): StructuredActivity {
+  const range = text(node.typicalAgeRange)?.match(/(\d+)\s*(?:-\s*(\d+)?|\+)?/);
+  const audience = asArray(node.audience)[0];
+
+  const ageMin = range ? Number(range[1]) : toNumber(audience?.suggestedMinAge);
+  const ageMax = range?.[2] ? Number(range[2]) : toNumber(audience?.suggestedMaxAge);
+
+  return {
+    ...(ageMin !== undefined && { ageMin }),
+    ...(ageMax !== undefined && { ageMax }),
+  };
+}
+
+function categoryOf(node: JsonLdNode): string | undefined {
+  const keywords = typeof node.keywords === 'string' ? node.keywords.split(',') : node.keywords;
+  return text(node.about) || text(keywords) || text(node.educationalCredentialAwarded);
+}
+
+function identifierOf(node: JsonLdNode): string | undefined {
+  return text(node.identifier) || text(node.courseCode) || text(node['@id']) || text(node.url);
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+}
+
+/**
+ * Sessions, dates and weekdays for an Event or CourseInstance
+ */
+function scheduleFields(node: JsonLdNode): StructuredActivity {
+  const start = parseSchemaDateTime(node.startDate);
+  const end = parseSchemaDateTime(node.endDate);
+  const schedule = asArray(node.eventSchedule ?? node.courseSchedule)[0];
+  let sessions: StructuredSession[] | undefined;
+  let dayOfWeek: string[] | undefined;
+  let startTime = start?.time;
+  let endTime = end?.time;
+  let dateStart = start?.date;
+  let dateEnd = end?.date;
+
+  if (schedule) {
+    const scheduleStart = parseSchemaDateTime(schedule.startDate);
+    const scheduleEnd = parseSchemaDateTime(schedule.endDate);
+    const recurrence = scheduleToRecurrence(schedule);
+    const duration = parseIsoDuration(schedule.duration);
+
+    startTime = parseTime(schedule.startTime) || scheduleStart?.time || startTime;
+    endTime = parseTime(schedule.endTime)
+      || (startTime && duration?.minutes ? addMinutes(startTime, duration.minutes) : undefined)
+      || endTime;
+    dateStart = scheduleStart?.date || dateStart;
+    dateEnd = scheduleEnd?.date || dateEnd;
+
+    if (recurrence && dateStart) {
+      if (!recurrence.until && dateEnd) recurrence.until = toDate(dateEnd);
+      const exceptions = new Set(asArray(schedule.exceptDate)
+        .map(value => parseSchemaDateTime(value)?.date)
+        .filter((date): date is string => Boolean(date)));
+      const dates = expandRecurrence(toDate(dateStart), recurrence, exceptions);
+      if (dates) {
+        sessions = dates.map(date => ({ date, ...(startTime && { startTime }), ...(endTime && { endTime }) }));
+      }
+      dayOfWeek = recurrence.frequency === 'WEEKLY'
+        ? rruleDaysToNames(recurrence.byDay.length > 0 ? recurrence.byDay : [weekdayCode(toDate(dateStart))])
+        : recurrence.interval === 1 ? rruleDaysToNames(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']) : [];
+    }
+  } else if (asArray(node.subEvent).length > 0) {
+    sessions = asArray(node.subEvent)
+      .map((subEvent: JsonLdNode): StructuredSession | null => {
+        const subStart = parseSchemaDateTime(subEvent.startDate);
+        const subEnd = parseSchemaDateTime(subEvent.endDate);
+        return subStart && {
+          date: subStart.date,
+          ...(subStart.time && { startTime: subStart.time }),
+          ...(subEnd?.time && { endTime: subEnd.time }),
+        };
+      })
+      .filter((session): session is StructuredSession => Boolean(session))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } else if (start) {
+    // Events spanning several days (camps) run every day in the range
+    sessions = [];
+    const last = toDate(end?.date && end.date > start.date ? end.date : start.date);
+    for (let day = toDate(start.date); day <= last && sessions.length < MAX_EXPANDED_SESSIONS; day = new Date(day.getTime() + DAY_MS)) {
+      sessions.push({ date: toDateKey(day), ...(startTime && { startTime }), ...(endTime && { endTime }) });
+    }
+  }
+
+  if (sessions && sessions.length > 0) {
+    dateStart = sessions[0].date;
+    dateEnd = sessions[sessions.length - 1].date;
+    dayOfWeek = dayOfWeek || rruleDaysToNames([...new Set(sessions.map(session => weekdayCode(toDate(session.date))))]);
+  }
+
+  return { dateStart, dateEnd, startTime, endTime, dayOfWeek, sessions };
+}
+
+/**
+ * Fields shared by Events and CourseInstances, layered over `base`
+ */
+function fromEventLike(node: JsonLdNode, base: StructuredActivity = {}): StructuredActivity {
+  const overlay: StructuredActivity = {
+    name: text(node.name),
+    description: text(node.description),
+    category: categoryOf(node),
+    instructor: text(node.instructor) || text(node.performer),
+    totalSpots: toNumber(node.maximumAttendeeCapacity),
+    spotsAvailable: toNumber(node.remainingAttendeeCapacity),
+    registrationUrl: text(node.url),
+    ...locationFields(node.location),
+    ...offerFields(node.offers),
+    ...audienceFields(node),
+    ...scheduleFields(node),
+  };
+
+  const merged: StructuredActivity = { ...base };
+  for (const [field, value] of Object.entries(overlay)) {
+    if (value !== undefined) (merged as any)[field] = value;
+  }
+  return merged;
+}
+
+function withExternalId(activity: StructuredActivity, id: string | undefined): StructuredActivity {
+  const externalId = id || (activity.name ? `${slug(String(activity.name))}-${activity.dateStart || 'undated'}` : undefined);
+  return { ...activity, externalId };
+}
+
+function fromCourse(course: JsonLdNode): StructuredActivity[] {
+  const courseId = identifierOf(course);
+  const base: StructuredActivity = {
+    name: text(course.name),
+    description: text(course.description),
+    category: categoryOf(course),
+    registrationUrl: text(course.url),
+    ...offerFields(course.offers),
+    ...audienceFields(course),
+  };
+
+  const instances = asArray(course.hasCourseInstance).filter(instance => instance && typeof instance === 'object');
+  if (instances.length === 0) {
+    return [withExternalId(base, courseId)];
+  }
+
+  return instances
+    .filter(instance => schemaName(text(instance.eventStatus) || '') !== 'EventCancelled')
+    .map((instance, index) => {
+      const activity = fromEventLike(instance, base);
+      const instanceId = text(instance.identifier) || text(instance['@id'])
+        || (courseId && (instances.length > 1 ? `${courseId}-${activity.dateStart || index + 1}` : courseId));
+      return withExternalId(activity, instanceId);
+    });
+}
+
+/**
+ * Every Event and Course node in a JSON-LD document, including those inside
+ * @graph, ItemLists and other containers. Nodes inside a found Event or
+ * Course (subEvent, hasCourseInstance) are read as part of it.
+ */
+function collectNodes(value: any, found: JsonLdNode[] = []): JsonLdNode[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, found));
+  } else if (value && typeof value === 'object') {
+    const types = typesOf(value);
+    if (types.includes('Course') || types.some(isEventType)) {
+      found.push(value);
+    } else {
+      Object.values(value).forEach(child => collectNodes(child, found));
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse JSON-LD (a document, or HTML with ld+json script blocks) into
+ * structured activities. Cancelled events are left out.
+ */
+export function parseJsonLdActivities(content: string): StructuredActivity[] {
+  const blocks = /<script/i.test(content)
+    ? [...content.matchAll(SCRIPT_PATTERN)].map(match => match[1])
+    : [content];
+
+  const documents = blocks.flatMap(block => {
+    try {
+      return [JSON.parse(block.trim())];
+    } catch {
+      return [];
+    }
+  });
+
+  if (documents.length === 0) {
+    throw new Error('No valid JSON-LD found');
+  }
+
+  const nodes = collectNodes(documents);
+  if (nodes.length === 0) {
+    throw new Error('No schema.org Event or Course found in the JSON-LD');
+  }
+
+  return nodes.flatMap(node => {
+    if (typesOf(node).includes('Course')) return fromCourse(node);
+    if (schemaName(text(node.eventStatus) || '') === 'EventCancelled') return [];
+    return [withExternalId(fromEventLike(node), identifierOf(node))];
+  });
+}
+
+/**
+ * Parse JSON-LD into import rows
+ */
+export function parseJsonLdRows(content: string): Record<string, string | number | null>[] {
+  return parseJsonLdActivities(content).map(toImportRow);
+}
@@ -0,0 +1,98 @@
+/**
+ * Outbound request guard
+ *
+ * Vendors and partners choose some of the URLs the server calls (webhook
+ * endpoints, remote import sources) and can read back what comes of it. These
+ * helpers keep those requests off loopback, private, link-local and other
+ * internal addresses. Hostnames are checked as each connection is made, so
+ * DNS changes after registration and redirects can't get around the check.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],        // "This" network
+  ['10.0.0.0', 8, 'ipv4'],       // Private
+  ['100.64.0.0', 10, 'ipv4'],    // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],      // Loopback
+  ['169.254.0.0', 16, 'ipv4'],   // Link-local, including cloud metadata
+  ['172.16.0.0', 12, 'ipv4'],    // Private
+  ['192.0.0.0', 24, 'ipv4'],     // IETF protocol assignments
+  ['192.168.0.0', 16, 'ipv4'],   // Private
+  ['198.18.0.0', 15, 'ipv4'],    // Benchmarking
+  ['224.0.0.0', 4, 'ipv4'],      // Multicast
+  ['240.0.0.0', 4, 'ipv4'],      // Reserved and broadcast
+  ['::', 128, 'ipv6'],           // Unspecified
+  ['::1', 128, 'ipv6'],          // Loopback
+  ['fc00::', 7, 'ipv6'],         // Unique local
+  ['fe80::', 10, 'ipv6'],        // Link-local
+  ['ff00::', 8, 'ipv6'],         // Multicast
+];
+
+const blockList = new net.BlockList();
+for (const [address, prefix, family] of BLOCKED_SUBNETS) {
+  blockList.addSubnet(address, prefix, family);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. Hostnames return false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '');
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+
+  return blockList.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throw if a host is, or resolves to, a non-public address
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${hostname} is not a public address`);
+  }
+}
+
+/**
+ * dns.lookup for sockets that refuses hosts resolving to non-public addresses.
+ * Connections to IP literals skip lookup, so check those with isPrivateAddress.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error(`${hostname} is not a public address`), { code: 'EADDRNOTPUBLIC' }), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/** Agents whose connections only reach public addresses */
+export const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
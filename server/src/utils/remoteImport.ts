@@ -0,0 +1,149 @@
+/**
+ * Remote import sources
+ * Vendors can publish their schedule file at a stable URL and have it pulled
+ * on a schedule instead of re-uploading it. Fetchers are looked up by URL
+ * protocol, so other transports (SFTP, object storage) can be registered
+ * alongside HTTP and tests can point a source at a local file server.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import axios from 'axios';
+import { isPrivateAddress, publicHttpAgent, publicHttpsAgent } from './outboundRequests';
+
+export const IMPORT_SOURCE_FREQUENCIES = ['hourly', 'daily', 'weekly'] as const;
+export type ImportSourceFrequency = typeof IMPORT_SOURCE_FREQUENCIES[number];
+
+/** Same cap as file uploads */
+export const MAX_REMOTE_FILE_SIZE = 10 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 30 * 1000;
+
+const FREQUENCY_MS: Record<ImportSourceFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface RemoteFile {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface RemoteFetcher {
+  fetch(url: URL): Promise<RemoteFile>;
+}
+
+export function isImportSourceFrequency(value: unknown): value is ImportSourceFrequency {
+  return typeof value === 'string' && (IMPORT_SOURCE_FREQUENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * When a source should next be pulled
+ */
+export function nextScheduledRun(frequency: ImportSourceFrequency, from: Date = new Date()): Date {
+  return new Date(from.getTime() + FREQUENCY_MS[frequency]);
+}
+
+/**
+ * Content hash used to skip runs when the file hasn't changed
+ */
+export function hashContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * File name for a fetched file: from Content-Disposition when the server
+ * sends one, otherwise the last segment of the URL path. The extension is
+ * what decides the file type, so it matters more than the name.
+ */
+export function remoteFileName(url: URL, contentDisposition?: string | null): string {
+  const match = contentDisposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (match) {
+    return path.basename(decodeURIComponent(match[1].trim()));
+  }
+
+  const segment = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() || '');
+  return segment || url.hostname;
+}
+
+/**
+ * Throw if a request (or a redirect) would leave https or go to a
+ * non-public IP address. Hostnames are checked by the agents as they connect.
+ */
+function assertAllowedHop(originalProtocol: string, protocol: string, hostname: string): void {
+  if (originalProtocol === 'https:' && protocol !== 'https:') {
+    throw new Error('Source redirected from https to an insecure URL');
+  }
+  if (isPrivateAddress(hostname)) {
+    throw new Error('Source URL is not a public address');
+  }
+}
+
+/**
+ * Fetches files over HTTP(S). Vendors choose the URL and can read back what
+ * was imported, so loopback, private and link-local hosts are refused on
+ * every hop unless allowPrivateAddresses is set (tests with a local server).
+ */
+export class HttpFetcher implements RemoteFetcher {
+  constructor(
+    private readonly timeoutMs = FETCH_TIMEOUT_MS,
+    private readonly options: { allowPrivateAddresses?: boolean } = {}
+  ) {}
+
+  async fetch(url: URL): Promise<RemoteFile> {
+    const guarded = !this.options.allowPrivateAddresses;
+    if (guarded) {
+      assertAllowedHop(url.protocol, url.protocol, url.hostname);
+    }
+
+    const response = await axios.get<ArrayBuffer>(url.toString(), {
+      responseType: 'arraybuffer',
+      timeout: this.timeoutMs,
+      maxContentLength: MAX_REMOTE_FILE_SIZE,
+      maxRedirects: 3,
+      ...(guarded && {
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        beforeRedirect: (options: Record<string, any>) => {
+          assertAllowedHop(url.protocol, options.protocol, options.hostname);
+        },
+      }),
+      validateStatus: () => true,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Source responded with HTTP ${response.status}`);
+    }
+
+    const contentType = String(response.headers['content-type'] || '');
+
+    return {
+      buffer: Buffer.from(response.data),
+      fileName: remoteFileName(url, response.headers['content-disposition']),
+      mimeType: contentType.split(';')[0].trim(),
+    };
+  }
+}
+
+/**
+ * Fetch a file with the fetcher registered for its protocol
+ */
+export async function fetchRemoteFile(url: string, fetchers: Record<string, RemoteFetcher>): Promise<RemoteFile> {
+  const parsed = new URL(url);
+  const fetcher = fetchers[parsed.protocol];
+  if (!fetcher) {
+    throw new Error(`Unsupported source protocol: ${parsed.protocol.replace(':', '')}`);
+  }
+
+  const file = await fetcher.fetch(parsed);
+  if (file.buffer.length === 0) {
+    throw new Error('Source returned an empty file');
+  }
+  if (file.buffer.length > MAX_REMOTE_FILE_SIZE) {
+    throw new Error('Source file exceeds the 10MB limit');
+  }
+
+  return file;
+}
@@ -0,0 +1,173 @@
+/**
+ * Saved search filter helpers
+ *
+ * Saved searches store the app's search parameters (the same shape the
+ * Search and Filters screens send to GET /api/v1/activities). These helpers
+ * whitelist that shape before it is stored and translate it into the
+ * parameters EnhancedActivityService.searchActivities expects.
+ */
+import type { SearchParams } from '../services/activityService.enhanced';
+
+export interface SavedSearchFilters {
+  search?: string;
+  category?: string;
+  activityType?: string;
+  activityTypes?: string[];
+  activitySubtype?: string;
+  ageMin?: number;
+  ageMax?: number;
+  costMin?: number;
+  costMax?: number;
+  location?: string;
+  locations?: string[];
+  city?: string;
+  province?: string;
+  daysOfWeek?: string[];
+  startDateAfter?: string;
+  startDateBefore?: string;
+  dateMatchMode?: 'partial' | 'full';
+  hideClosedActivities?: boolean;
+  hideFullActivities?: boolean;
+  hideClosedOrFull?: boolean;
+  environmentFilter?: 'indoor' | 'outdoor';
+  userLat?: number;
+  userLon?: number;
+  radiusKm?: number;
+}
+
+const STRING_FIELDS = [
+  'search', 'category', 'activityType', 'activitySubtype', 'location', 'city', 'province',
+  'startDateAfter', 'startDateBefore'
+] as const;
+const NUMBER_FIELDS = ['ageMin', 'ageMax', 'costMin', 'costMax', 'userLat', 'userLon', 'radiusKm'] as const;
+const BOOLEAN_FIELDS = ['hideClosedActivities', 'hideFullActivities', 'hideClosedOrFull'] as const;
+const LIST_FIELDS = ['activityTypes', 'locations', 'daysOfWeek'] as const;
+
+const toList = (value: unknown): string[] | undefined => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const cleaned = items.map(item => String(item).trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+/**
+ * Keep only known filter fields with valid values.
+ * Accepts the app's aliases (minCost/maxCost, ageRange, environment, dayOfWeek).
+ * Throws if the input isn't an object.
+ */
+export function normalizeSavedSearchFilters(input: unknown): SavedSearchFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Filters must be an object');
+  }
+
+  const raw = { ...(input as Record<string, any>) };
+  if (raw.minCost !== undefined && raw.costMin === undefined) raw.costMin = raw.minCost;
+  if (raw.maxCost !== undefined && raw.costMax === undefined) raw.costMax = raw.maxCost;
+  if (raw.ageRange && typeof raw.ageRange === 'object') {
+    raw.ageMin ??= raw.ageRange.min;
+    raw.ageMax ??= raw.ageRange.max;
+  }
+  if (raw.environment !== undefined && raw.environmentFilter === undefined) raw.environmentFilter = raw.environment;
+  if (raw.dayOfWeek !== undefined && raw.daysOfWeek === undefined) raw.daysOfWeek = raw.dayOfWeek;
+
+  const filters: SavedSearchFilters = {};
+
+  for (const field of STRING_FIELDS) {
+    const value = typeof raw[field] === 'string' ? raw[field].trim() : '';
+    if (value) filters[field] = value;
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = raw[field] === '' || raw[field] === null ? NaN : Number(raw[field]);
+    if (Number.isFinite(value)) filters[field] = value;
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    if (raw[field] === true || raw[field] === 'true') filters[field] = true;
+  }
+  for (const field of LIST_FIELDS) {
+    const value = toList(raw[field]);
+    if (value) filters[field] = value;
+  }
+
+  if (raw.dateMatchMode === 'partial' || raw.dateMatchMode === 'full') {
+    filters.dateMatchMode = raw.dateMatchMode;
+  }
+  if (raw.environmentFilter === 'indoor' || raw.environmentFilter === 'outdoor') {
+    filters.environmentFilter = raw.environmentFilter;
+  }
+
+  return filters;
+}
+
+/**
+ * Translate stored filters into searchActivities parameters
+ */
+export function toSearchParams(filters: SavedSearchFilters): Partial<SearchParams> {
+  const validDate = (value?: string) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  };
+
+  return {
+    search: filters.search,
+    category: filters.category,
+    categories: filters.activityTypes?.join(','),
+    activityType: filters.activityType,
+    activitySubtype: filters.activitySubtype,
+    ageMin: filters.ageMin,
+    ageMax: filters.ageMax,
+    costMin: filters.costMin,
+    costMax: filters.costMax,
+    location: filters.location,
+    locations: filters.locations,
+    city: filters.city,
+    province: filters.province,
+    dayOfWeek: filters.daysOfWeek,
+    startDate: validDate(filters.startDateAfter),
+    endDate: validDate(filters.startDateBefore),
+    dateMatchMode: filters.dateMatchMode,
+    hideClosedActivities: filters.hideClosedActivities ?? false,
+    hideFullActivities: filters.hideFullActivities ?? false,
+    hideClosedOrFull: filters.hideClosedOrFull ?? false,
+    environmentFilter: filters.environmentFilter,
+    userLat: filters.userLat,
+    userLon: filters.userLon,
+    radiusKm: filters.radiusKm
+  };
+}
+
+const titleCase = (code: string) =>
+  code.split(/[-_\s]+/).filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * Build a short default name for a saved search, e.g. "Swimming Aquatics · Ages 5-8 · Up to $200"
+ */
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const parts: string[] = [];
+
+  if (filters.search) parts.push(`"${filters.search}"`);
+
+  const types = filters.activityTypes || (filters.activityType ? [filters.activityType] : []);
+  if (types.length === 1) parts.push(titleCase(types[0]));
+  else if (types.length > 1) parts.push(`${types.length} activity types`);
+
+  if (filters.ageMin !== undefined && filters.ageMax !== undefined) parts.push(`Ages ${filters.ageMin}-${filters.ageMax}`);
+  else if (filters.ageMin !== undefined) parts.push(`Ages ${filters.ageMin}+`);
+  else if (filters.ageMax !== undefined) parts.push(`Up to age ${filters.ageMax}`);
+
+  if (filters.costMax === 0) parts.push('Free');
+  else if (filters.costMax !== undefined) parts.push(`Up to $${filters.costMax}`);
+
+  const places = filters.locations || (filters.location ? [filters.location] : filters.city ? [filters.city] : []);
+  if (places.length === 1) parts.push(places[0]);
+  else if (places.length > 1) parts.push(`${places.length} locations`);
+
+  if (filters.daysOfWeek && filters.daysOfWeek.length > 0 && filters.daysOfWeek.length < 7) {
+    parts.push(filters.daysOfWeek.map(day => day.slice(0, 3)).join('/'));
+  }
+
+  return parts.length > 0 ? parts.slice(0, 4).join(' · ') : 'All activities';
+}
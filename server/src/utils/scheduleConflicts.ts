@@ -0,0 +1,418 @@
+/**
+ * Family schedule conflict detection
+ *
+ * Expands each child activity into dated occurrences (explicit sessions, the
+ * child's scheduled date, the activity's weekly days or its start date) and
+ * compares every pair across the family. Two kinds of conflict are reported:
+ *
+ * - overlap: both activities run at the same time on the same day
+ * - travel: they don't overlap, but the gap between them is shorter than the
+ *   estimated drive between the two venues
+ *
+ * Times are wall-clock values, so dates are keyed by their UTC calendar day
+ * (the same convention as the calendar feed builder).
+ */
+import { parseDateSafely } from './dateUtils';
+import { calculateDistance } from './distanceUtils';
+import { parseClockTime, toRRuleDays } from './icsBuilder';
+
+export const CONFLICT_HORIZON_DAYS = 90;
+
+// Straight-line distance is stretched to approximate the road route
+const ROAD_DISTANCE_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 35;
+// Parking, drop-off and getting kids in and out of the car
+const TRAVEL_BUFFER_MINUTES = 10;
+// Venues closer than this are treated as the same place (e.g. one community centre)
+export const SAME_VENUE_KM = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RRULE_DAY_INDEX: Record<string, number> = {
+  SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6,
+};
+
+export type OverlapType = 'full' | 'partial-start' | 'partial-end' | 'contains' | 'none';
+export type ScheduleConflictType = 'overlap' | 'travel';
+
+export interface ScheduleItemSession {
+  date: string | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface ScheduleItem {
+  id: string;
+  childId: string;
+  childName: string;
+  /** Parent account that owns the child */
+  familyUserId?: string;
+  activityId: string;
+  activityName: string;
+  locationId?: string | null;
+  locationName: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  dateStart: Date | null;
+  dateEnd: Date | null;
+  dayOfWeek: string[];
+  startTime: string | null;
+  endTime: string | null;
+  scheduledDate: Date | null;
+  sessions: ScheduleItemSession[];
+}
+
+export interface ScheduleOccurrence {
+  date: string;
+  start: number;
+  end: number;
+}
+
+export interface ConflictParty {
+  childActivityId: string;
+  childId: string;
+  childName: string;
+  activityId: string;
+  activityName: string;
+  locationName: string | null;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  severity: 'high' | 'medium';
+  sameChild: boolean;
+  date: string;
+  occurrences: number;
+  activity: ConflictParty;
+  conflictsWith: ConflictParty;
+  overlapType?: OverlapType;
+  overlapMinutes?: number;
+  gapMinutes?: number;
+  travelMinutes?: number;
+  distanceKm?: number;
+  message: string;
+}
+
+export interface ConflictDetectionOptions {
+  from?: Date;
+  horizonDays?: number;
+  /** Only report pairs involving one of these schedule item IDs */
+  focusIds?: string[];
+}
+
+export const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * The calendar day of a session date. ISO dates and strings with a zone are
+ * read in UTC, but text dates like "Sep 21, 2025" parse as local midnight,
+ * so their UTC day is a day early on servers east of UTC; use the local day.
+ */
+const parseSessionDay = (value: string): Date | null => {
+  const date = parseDateSafely(value);
+  if (!date) return null;
+
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || /(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    return startOfUtcDay(date);
+  }
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+const toMinutes = (value: string | null | undefined): number | null => {
+  const time = parseClockTime(value);
+  return time ? time.hours * 60 + time.minutes : null;
+};
+
+/**
+ * Format minutes since midnight as "4:30 pm"
+ */
+export function formatClockMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'pm' : 'am';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${(minutes % 60).toString().padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Format a duration as "45 minutes" or "1h 15m"
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  if (remainingMinutes === 0) {
+    return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  }
+  return `${hours}h ${remainingMinutes}m`;
+}
+
+/**
+ * Classify how the first time range overlaps the second (same rules as the app)
+ */
+export function calculateOverlap(
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): { type: OverlapType; minutes: number } {
+  if (aEnd <= aStart || bEnd <= bStart || aEnd <= bStart || aStart >= bEnd) {
+    return { type: 'none', minutes: 0 };
+  }
+  if (aStart <= bStart && aEnd >= bEnd) {
+    return { type: 'contains', minutes: bEnd - bStart };
+  }
+  if (bStart <= aStart && bEnd >= aEnd) {
+    return { type: 'full', minutes: aEnd - aStart };
+  }
+  if (aStart < bStart) {
+    return { type: 'partial-end', minutes: aEnd - bStart };
+  }
+  return { type: 'partial-start', minutes: bEnd - aStart };
+}
+
+/**
+ * Estimated drive time in minutes between two venues, or null when either
+ * venue has no coordinates
+ */
+export function estimateTravelMinutes(
+  a: Pick<ScheduleItem, 'latitude' | 'longitude'>,
+  b: Pick<ScheduleItem, 'latitude' | 'longitude'>
+): { minutes: number; distanceKm: number } | null {
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) {
+    return null;
+  }
+
+  const distanceKm = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+  if (distanceKm < SAME_VENUE_KM) {
+    return { minutes: 0, distanceKm };
+  }
+
+  const driveMinutes = (distanceKm * ROAD_DISTANCE_FACTOR / AVERAGE_SPEED_KMH) * 60;
+  return { minutes: Math.ceil(driveMinutes) + TRAVEL_BUFFER_MINUTES, distanceKm };
+}
+
+/**
+ * Expand a schedule item into timed occurrences within [from, until).
+ *
+ * Precedence matches the calendar feed: explicit session dates, then the
+ * child's scheduled date, then the weekly days within the activity's date
+ * range, then the activity's start date. Untimed occurrences are skipped.
+ */
+export function expandOccurrences(item: ScheduleItem, from: Date, until: Date): ScheduleOccurrence[] {
+  const occurrences: ScheduleOccurrence[] = [];
+  const defaultStart = toMinutes(item.startTime);
+  const defaultEnd = toMinutes(item.endTime);
+
+  const push = (date: Date, start: number | null, end: number | null) => {
+    if (start === null || date < from || date >= until) return;
+    occurrences.push({
+      date: toDateKey(date),
+      start,
+      // Missing or inverted end times are assumed to be one hour long
+      end: end !== null && end > start ? end : start + 60
+    });
+  };
+
+  const datedSessions = item.sessions
+    .map(session => ({ session, date: session.date ? parseSessionDay(session.date) : null }))
+    .filter(entry => entry.date !== null);
+
+  if (datedSessions.length > 0) {
+    for (const { session, date } of datedSessions) {
+      push(
+        date!,
+        toMinutes(session.startTime) ?? defaultStart,
+        toMinutes(session.endTime) ?? defaultEnd
+      );
+    }
+    return occurrences;
+  }
+
+  if (item.scheduledDate) {
+    push(startOfUtcDay(item.scheduledDate), defaultStart, defaultEnd);
+    return occurrences;
+  }
+
+  const weekdays = new Set(toRRuleDays(item.dayOfWeek || []).map(day => RRULE_DAY_INDEX[day]));
+  if (weekdays.size > 0) {
+    // Ongoing programs without an end date recur through the whole window
+    const first = item.dateStart && item.dateStart > from ? startOfUtcDay(item.dateStart) : from;
+    const last = item.dateEnd ? startOfUtcDay(item.dateEnd) : until;
+
+    for (let day = first; day <= last && day < until; day = new Date(day.getTime() + DAY_MS)) {
+      if (weekdays.has(day.getUTCDay())) {
+        push(day, defaultStart, defaultEnd);
+      }
+    }
+    return occurrences;
+  }
+
+  if (item.dateStart) {
+    push(startOfUtcDay(item.dateStart), defaultStart, defaultEnd);
+  }
+
+  return occurrences;
+}
+
+const toParty = (item: ScheduleItem, occurrence: ScheduleOccurrence): ConflictParty => ({
+  childActivityId: item.id,
+  childId: item.childId,
+  childName: item.childName,
+  activityId: item.activityId,
+  activityName: item.activityName,
+  locationName: item.locationName,
+  startTime: formatClockMinutes(occurrence.start),
+  endTime: formatClockMinutes(occurrence.end)
+});
+
+const formatDay = (dateKey: string): string =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+function describeConflict(conflict: Omit<ScheduleConflict, 'message'>): string {
+  const { activity, conflictsWith } = conflict;
+  const more = conflict.occurrences > 1 ? ` (and ${conflict.occurrences - 1} more date${conflict.occurrences > 2 ? 's' : ''})` : '';
+  const day = `${formatDay(conflict.date)}${more}`;
+
+  if (conflict.type === 'overlap') {
+    const overlap = formatDuration(conflict.overlapMinutes!);
+    return conflict.sameChild
+      ? `${activity.childName} can't attend both ${activity.activityName} and ${conflictsWith.activityName}: they overlap by ${overlap} on ${day}`
+      : `${activity.childName}'s ${activity.activityName} overlaps ${conflictsWith.childName}'s ${conflictsWith.activityName} by ${overlap} on ${day}`;
+  }
+
+  const gap = conflict.gapMinutes === 0 ? 'no time' : `only ${formatDuration(conflict.gapMinutes!)}`;
+  return `There's ${gap} between ${activity.activityName} (${activity.childName}) and ${conflictsWith.activityName} (${conflictsWith.childName}) on ${day}, ` +
+    `but the drive takes about ${formatDuration(conflict.travelMinutes!)} (${conflict.distanceKm!.toFixed(1)} km)`;
+}
+
+/**
+ * Compare two items' occurrences and return their earliest conflict, counting
+ * every date they collide on. Overlaps take priority over travel problems.
+ */
+function comparePair(
+  a: ScheduleItem,
+  b: ScheduleItem,
+  aOccurrences: ScheduleOccurrence[],
+  bByDate: Map<string, ScheduleOccurrence[]>
+): ScheduleConflict | null {
+  const travel = estimateTravelMinutes(a, b);
+  const sameChild = a.childId === b.childId;
+  let overlap: Omit<ScheduleConflict, 'message'> | null = null;
+  let tight: Omit<ScheduleConflict, 'message'> | null = null;
+  const overlapDates = new Set<string>();
+  const travelDates = new Set<string>();
+
+  for (const occurrence of aOccurrences) {
+    for (const other of bByDate.get(occurrence.date) || []) {
+      const result = calculateOverlap(occurrence.start, occurrence.end, other.start, other.end);
+
+      if (result.type !== 'none') {
+        overlapDates.add(occurrence.date);
+        if (!overlap || occurrence.date < overlap.date) {
+          overlap = {
+            type: 'overlap',
+            severity: sameChild ? 'high' : 'medium',
+            sameChild,
+            date: occurrence.date,
+            occurrences: 0,
+            activity: toParty(a, occurrence),
+            conflictsWith: toParty(b, other),
+            overlapType: result.type,
+            overlapMinutes: result.minutes
+          };
+        }
+        continue;
+      }
+
+      if (!travel || travel.minutes === 0) continue;
+
+      const gap = Math.max(other.start - occurrence.end, occurrence.start - other.end);
+      if (gap < travel.minutes) {
+        travelDates.add(occurrence.date);
+        if (!tight || occurrence.date < tight.date) {
+          tight = {
+            type: 'travel',
+            severity: sameChild ? 'high' : 'medium',
+            sameChild,
+            date: occurrence.date,
+            occurrences: 0,
+            activity: toParty(a, occurrence),
+            conflictsWith: toParty(b, other),
+            gapMinutes: gap,
+            travelMinutes: travel.minutes,
+            distanceKm: Math.round(travel.distanceKm * 10) / 10
+          };
+        }
+      }
+    }
+  }
+
+  const conflict = overlap
+    ? { ...overlap, occurrences: overlapDates.size }
+    : tight
+      ? { ...tight, occurrences: travelDates.size }
+      : null;
+
+  return conflict ? { ...conflict, message: describeConflict(conflict) } : null;
+}
+
+/**
+ * Find overlaps and travel-time conflicts between every pair of items.
+ *
+ * Siblings enrolled in the same activity aren't a conflict. With focusIds,
+ * only pairs involving a focused item are checked and the focused item is
+ * reported as `activity`.
+ */
+export function detectScheduleConflicts(
+  items: ScheduleItem[],
+  options: ConflictDetectionOptions = {}
+): ScheduleConflict[] {
+  const from = startOfUtcDay(options.from || new Date());
+  const until = new Date(from.getTime() + (options.horizonDays ?? CONFLICT_HORIZON_DAYS) * DAY_MS);
+  const focus = options.focusIds ? new Set(options.focusIds) : null;
+
+  const expanded = items.map(item => {
+    const occurrences = expandOccurrences(item, from, until);
+    const byDate = new Map<string, ScheduleOccurrence[]>();
+    for (const occurrence of occurrences) {
+      byDate.set(occurrence.date, [...(byDate.get(occurrence.date) || []), occurrence]);
+    }
+    return { item, occurrences, byDate };
+  });
+
+  const conflicts: ScheduleConflict[] = [];
+
+  for (let i = 0; i < expanded.length; i++) {
+    for (let j = i + 1; j < expanded.length; j++) {
+      let a = expanded[i];
+      let b = expanded[j];
+
+      if (focus && !focus.has(a.item.id)) {
+        if (!focus.has(b.item.id)) continue;
+        [a, b] = [b, a];
+      }
+      if (a.item.activityId === b.item.activityId) continue;
+
+      const conflict = comparePair(a.item, b.item, a.occurrences, b.byDate);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    }
+  }
+
+  return conflicts.sort((x, y) =>
+    x.date.localeCompare(y.date) ||
+    (x.severity === y.severity ? 0 : x.severity === 'high' ? -1 : 1)
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Signing and encryption secrets
+ *
+ * Secrets that guard 2FA and billing have no built-in default: a known
+ * fallback would let anyone forge the tokens they sign. Read them at module
+ * load so a missing secret stops the server at startup.
+ */
+
+/**
+ * The first of the given environment variables that is set. Throws when
+ * none of them are.
+ */
+export function requireSecret(...envVars: string[]): string {
+  for (const name of envVars) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+
+  throw new Error(`${envVars.join(' or ')} must be configured`);
+}
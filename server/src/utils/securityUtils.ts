@@ -200,6 +200,28 @@ export class SecurityUtils {
     );
   }
 
+  /**
+   * Encrypt a value for storage (AES-256-GCM, key derived from the passphrase)
+   */
+  encrypt(plaintext: string, passphrase: string): string {
+    const key = crypto.createHash('sha256').update(passphrase).digest();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypt a value produced by encrypt()
+   */
+  decrypt(ciphertext: string, passphrase: string): string {
+    const [iv, authTag, encrypted] = ciphertext.split('.').map(part => Buffer.from(part, 'base64'));
+    const key = crypto.createHash('sha256').update(passphrase).digest();
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
   /**
    * Generate secure filename
    */
@@ -0,0 +1,158 @@
+/**
+ * Snapshot trend helpers
+ *
+ * Raw ActivitySnapshot rows are captured on every scraper run. These helpers
+ * roll them up into one point per day and project when an activity will sell
+ * out from the recent trend in spots available.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotSample {
+  spotsAvailable: number | null;
+  cost: number | null;
+  capturedAt: Date;
+}
+
+export interface DailySnapshotPoint {
+  day: Date;
+  spotsMin: number | null;
+  spotsMax: number | null;
+  spotsClose: number | null;
+  costMin: number | null;
+  costMax: number | null;
+  costClose: number | null;
+  sampleCount: number;
+}
+
+export interface FillRateProjection {
+  spotsAvailable: number | null;
+  spotsPerDay: number | null;
+  daysUntilFull: number | null;
+  projectedFullAt: Date | null;
+  basedOnDays: number;
+  message: string | null;
+}
+
+/**
+ * Midnight UTC of the given date
+ */
+export function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+const minOf = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.min(a, b));
+const maxOf = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.max(a, b));
+
+/**
+ * Roll raw snapshots up into one point per UTC day, oldest first
+ */
+export function rollupSnapshotsByDay(samples: SnapshotSample[]): DailySnapshotPoint[] {
+  const sorted = [...samples].sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  const byDay = new Map<number, DailySnapshotPoint>();
+
+  for (const sample of sorted) {
+    const day = toUtcDay(sample.capturedAt);
+    const point = byDay.get(day.getTime()) ?? {
+      day,
+      spotsMin: null,
+      spotsMax: null,
+      spotsClose: null,
+      costMin: null,
+      costMax: null,
+      costClose: null,
+      sampleCount: 0,
+    };
+
+    point.spotsMin = minOf(point.spotsMin, sample.spotsAvailable);
+    point.spotsMax = maxOf(point.spotsMax, sample.spotsAvailable);
+    point.costMin = minOf(point.costMin, sample.cost);
+    point.costMax = maxOf(point.costMax, sample.cost);
+    // Samples are sorted, so the last non-null value is the day's close
+    if (sample.spotsAvailable !== null) point.spotsClose = sample.spotsAvailable;
+    if (sample.cost !== null) point.costClose = sample.cost;
+    point.sampleCount++;
+
+    byDay.set(day.getTime(), point);
+  }
+
+  return Array.from(byDay.values());
+}
+
+/**
+ * Describe a projection for parents, e.g. "At current pace this fills in ~4 days"
+ */
+export function describeFillProjection(daysUntilFull: number | null): string | null {
+  if (daysUntilFull === null) return null;
+  if (daysUntilFull <= 1) return 'At current pace this fills within a day';
+  return `At current pace this fills in ~${daysUntilFull} days`;
+}
+
+/**
+ * Estimate when an activity sells out from the daily closing spot counts.
+ *
+ * Fits a least-squares line to the last `windowDays` of points. No projection
+ * is made with fewer than two days of data, when spots aren't going down, or
+ * when the sell-out is further away than `horizonDays`.
+ */
+export function projectFillRate(
+  points: DailySnapshotPoint[],
+  options: { now?: Date; windowDays?: number; horizonDays?: number } = {}
+): FillRateProjection {
+  const now = options.now ?? new Date();
+  const windowDays = options.windowDays ?? 14;
+  const horizonDays = options.horizonDays ?? 60;
+  const windowStart = toUtcDay(now).getTime() - windowDays * DAY_MS;
+
+  const recent = points
+    .filter(p => p.spotsClose !== null && p.day.getTime() >= windowStart)
+    .sort((a, b) => a.day.getTime() - b.day.getTime());
+
+  const latest = recent.length > 0 ? recent[recent.length - 1].spotsClose : null;
+  const empty: FillRateProjection = {
+    spotsAvailable: latest,
+    spotsPerDay: null,
+    daysUntilFull: null,
+    projectedFullAt: null,
+    basedOnDays: recent.length,
+    message: null,
+  };
+
+  if (recent.length < 2 || latest === null || latest <= 0) {
+    return empty;
+  }
+
+  const origin = recent[0].day.getTime();
+  const xs = recent.map(p => (p.day.getTime() - origin) / DAY_MS);
+  const ys = recent.map(p => p.spotsClose as number);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < xs.length; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  }
+
+  const slope = denominator === 0 ? 0 : numerator / denominator;
+  const spotsPerDay = Math.round(-slope * 10) / 10;
+
+  if (slope >= 0) {
+    return { ...empty, spotsPerDay: Math.max(spotsPerDay, 0) };
+  }
+
+  const daysUntilFull = Math.max(1, Math.ceil(latest / -slope));
+  if (daysUntilFull > horizonDays) {
+    return { ...empty, spotsPerDay };
+  }
+
+  return {
+    spotsAvailable: latest,
+    spotsPerDay,
+    daysUntilFull,
+    projectedFullAt: new Date(toUtcDay(now).getTime() + daysUntilFull * DAY_MS),
+    basedOnDays: recent.length,
+    message: describeFillProjection(daysUntilFull),
+  };
+}
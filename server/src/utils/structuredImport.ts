@@ -0,0 +1,153 @@
+/**
+ * Structured schedule imports
+ * Shared by the iCalendar and schema.org JSON-LD parsers: the fixed columns
+ * their import rows use, and expansion of recurring schedules into session
+ * dates. Dates are wall-clock values carried in the UTC fields of a Date,
+ * like the calendar feed builder.
+ */
+import { toRRuleDays } from './icsBuilder';
+import { toDateKey } from './scheduleConflicts';
+
+/**
+ * Column names for rows produced from structured formats, keyed by the
+ * activity field each one maps to
+ */
+export const STRUCTURED_IMPORT_COLUMNS = {
+  externalId: 'External ID',
+  name: 'Name',
+  category: 'Category',
+  description: 'Description',
+  dateStart: 'Start Date',
+  dateEnd: 'End Date',
+  startTime: 'Start Time',
+  endTime: 'End Time',
+  dayOfWeek: 'Days',
+  cost: 'Price',
+  ageMin: 'Minimum Age',
+  ageMax: 'Maximum Age',
+  locationName: 'Location',
+  fullAddress: 'Full Address',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  instructor: 'Instructor',
+  spotsAvailable: 'Spots Available',
+  totalSpots: 'Capacity',
+  registrationUrl: 'Registration URL',
+  sessions: 'Sessions',
+} as const;
+
+export type StructuredField = keyof typeof STRUCTURED_IMPORT_COLUMNS;
+
+export interface StructuredSession {
+  date: string; // yyyy-MM-dd
+  startTime?: string; // HH:mm
+  endTime?: string;
+}
+
+export type StructuredActivity = Partial<Record<Exclude<StructuredField, 'dayOfWeek' | 'sessions'>, string | number>> & {
+  dayOfWeek?: string[];
+  sessions?: StructuredSession[];
+};
+
+export interface Recurrence {
+  frequency: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: string[]; // RRULE day codes
+  until?: Date; // inclusive
+  count?: number;
+}
+
+/** Most sessions expanded from one recurring schedule */
+export const MAX_EXPANDED_SESSIONS = 200;
+/**
+ * Furthest past its start a recurring schedule is expanded. Days are walked
+ * one at a time, so this bounds the work for huge intervals or schedules
+ * whose dates are all excluded.
+ */
+export const MAX_RECURRENCE_SPAN_DAYS = 2 * 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RRULE_DAY_NAMES: Record<string, string> = {
+  SU: 'Sunday', MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Full day names for RRULE codes, in week order
+ */
+export function rruleDaysToNames(codes: string[]): string[] {
+  return toRRuleDays(codes).map(code => RRULE_DAY_NAMES[code]);
+}
+
+/**
+ * RRULE day code for a date
+ */
+export function weekdayCode(date: Date): string {
+  return WEEKDAY_CODES[date.getUTCDay()];
+}
+
+/**
+ * Session dates for a recurring schedule starting on `start`. Weeks are
+ * counted from the Monday of the start week, as with RRULE's default WKST.
+ * Returns null for open-ended schedules, which are better described by
+ * their weekdays than by an arbitrary number of sessions. Sessions more than
+ * MAX_RECURRENCE_SPAN_DAYS after the start are left out.
+ */
+export function expandRecurrence(start: Date, recurrence: Recurrence, exceptions: Set<string> = new Set()): string[] | null {
+  if (!recurrence.until && !recurrence.count) return null;
+
+  const first = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  const interval = Math.max(1, recurrence.interval || 1);
+  const weekdays = new Set(recurrence.frequency === 'WEEKLY' && recurrence.byDay.length > 0
+    ? toRRuleDays(recurrence.byDay)
+    : [weekdayCode(first)]);
+  const weekAnchor = first.getTime() - ((first.getUTCDay() + 6) % 7) * DAY_MS;
+  const last = new Date(first.getTime() + MAX_RECURRENCE_SPAN_DAYS * DAY_MS);
+
+  const dates: string[] = [];
+  let matched = 0;
+
+  for (let day = first; dates.length < MAX_EXPANDED_SESSIONS; day = new Date(day.getTime() + DAY_MS)) {
+    if (day > last || (recurrence.until && day > recurrence.until)) break;
+    if (recurrence.count && matched >= recurrence.count) break;
+
+    const included = recurrence.frequency === 'DAILY'
+      ? Math.round((day.getTime() - first.getTime()) / DAY_MS) % interval === 0
+      : weekdays.has(weekdayCode(day)) && Math.floor((day.getTime() - weekAnchor) / (7 * DAY_MS)) % interval === 0;
+
+    if (!included) continue;
+
+    // Excluded dates still use up the count, as with RRULE and EXDATE
+    matched++;
+    const key = toDateKey(day);
+    if (!exceptions.has(key)) dates.push(key);
+  }
+
+  return dates;
+}
+
+/**
+ * An import row with every structured column, so header detection and
+ * mapping suggestions see the same columns for every file
+ */
+export function toImportRow(activity: StructuredActivity): Record<string, string | number | null> {
+  const row: Record<string, string | number | null> = {};
+
+  for (const [field, column] of Object.entries(STRUCTURED_IMPORT_COLUMNS) as [StructuredField, string][]) {
+    const value = activity[field];
+
+    if (value === undefined || value === null || value === '') {
+      row[column] = null;
+    } else if (field === 'sessions') {
+      row[column] = (value as StructuredSession[]).length > 0 ? JSON.stringify(value) : null;
+    } else if (Array.isArray(value)) {
+      row[column] = value.length > 0 ? value.join(', ') : null;
+    } else {
+      row[column] = value as string | number;
+    }
+  }
+
+  return row;
+}
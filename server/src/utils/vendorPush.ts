@@ -0,0 +1,60 @@
+/**
+ * Vendor push helpers
+ * Pure decisions for JSON batches pushed through the vendor API: duplicate
+ * external IDs, how many new activities fit the import limits, and whether
+ * a batch can skip manual review.
+ */
+
+/** Largest batch accepted in one request */
+export const MAX_PUSH_BATCH_SIZE = 500;
+
+export interface ApprovalSettings {
+  requiresApproval: boolean;
+  autoApproveUpdates: boolean;
+}
+
+/**
+ * External IDs that appear more than once, with the indexes they appear at
+ */
+export function findDuplicateExternalIds(externalIds: Array<string | null | undefined>): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+
+  externalIds.forEach((externalId, index) => {
+    if (!externalId) return;
+    positions.set(externalId, [...(positions.get(externalId) || []), index]);
+  });
+
+  for (const [externalId, indexes] of positions) {
+    if (indexes.length < 2) positions.delete(externalId);
+  }
+
+  return positions;
+}
+
+/**
+ * Whether a batch is applied straight away. Mirrors manual imports: vendors
+ * without review are always trusted, and vendors allowed to auto-approve
+ * updates skip review when the batch creates nothing new.
+ */
+export function canAutoApprove(settings: ApprovalSettings, creates: number): boolean {
+  if (!settings.requiresApproval) return true;
+  return settings.autoApproveUpdates && creates === 0;
+}
+
+/**
+ * Which items may create new activities given the remaining daily and
+ * monthly allowance. Updates never count toward the limits.
+ */
+export function allocateCreateQuota(
+  isCreate: boolean[],
+  limits: { dailyRemaining: number; monthlyRemaining: number }
+): boolean[] {
+  let remaining = Math.max(0, Math.min(limits.dailyRemaining, limits.monthlyRemaining));
+
+  return isCreate.map(create => {
+    if (!create) return true;
+    if (remaining === 0) return false;
+    remaining--;
+    return true;
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Waitlist queue planning
+ *
+ * Child waitlist entries form one queue per activity, ordered by when each
+ * child joined. A family (parent account) is promoted as a unit: all of its
+ * waiting children are alerted together and the family holds its place for
+ * WAITLIST_HOLD_MINUTES before the next family in line is alerted for the
+ * same spot. When the activity fills up again, notified entries are re-armed.
+ */
+
+export const WAITLIST_HOLD_MINUTES = 30;
+
+export type WaitlistEntryStatus = 'waiting' | 'notified';
+
+export interface WaitlistQueueEntry {
+  id: string;
+  childId: string;
+  userId: string;
+  createdAt: Date;
+  status: WaitlistEntryStatus | string;
+  holdExpiresAt: Date | null;
+}
+
+export interface WaitlistFamily<T extends WaitlistQueueEntry = WaitlistQueueEntry> {
+  userId: string;
+  queuePosition: number;
+  entries: T[];
+}
+
+export interface WaitlistPromotionPlan<T extends WaitlistQueueEntry = WaitlistQueueEntry> {
+  rearmEntryIds: string[];
+  promote: WaitlistFamily<T>[];
+  activeHolds: number;
+  holdExpiresAt: Date | null;
+}
+
+const byQueueOrder = (a: WaitlistQueueEntry, b: WaitlistQueueEntry) =>
+  a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+
+/**
+ * Group entries into families in queue order. A family's place is set by its
+ * earliest-joined child.
+ */
+export function groupWaitlistFamilies<T extends WaitlistQueueEntry>(entries: T[]): WaitlistFamily<T>[] {
+  const families = new Map<string, WaitlistFamily<T>>();
+
+  for (const entry of [...entries].sort(byQueueOrder)) {
+    const family = families.get(entry.userId);
+    if (family) {
+      family.entries.push(entry);
+    } else {
+      families.set(entry.userId, { userId: entry.userId, queuePosition: families.size + 1, entries: [entry] });
+    }
+  }
+
+  return [...families.values()];
+}
+
+/**
+ * Place in line for each waiting family (1 = next to be alerted).
+ * Families that have already been alerted aren't in line.
+ */
+export function getWaitlistQueuePositions(entries: WaitlistQueueEntry[]): Map<string, number> {
+  const positions = new Map<string, number>();
+  let position = 0;
+
+  for (const family of groupWaitlistFamilies(entries)) {
+    if (family.entries.some(e => e.status === 'notified')) continue;
+    position++;
+    for (const entry of family.entries) {
+      positions.set(entry.id, position);
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Decide which entries to re-arm and which families to alert.
+ *
+ * - Spot count unknown: nothing changes.
+ * - Activity full: every notified entry goes back to waiting, keeping its place.
+ * - Spots open: each family with an unexpired hold occupies one spot; the
+ *   remaining spots go to the next waiting families in line that can be
+ *   alerted. Families that can't be alerted keep their place in line, so
+ *   queue positions match getWaitlistQueuePositions.
+ */
+export function planWaitlistPromotion<T extends WaitlistQueueEntry>(
+  entries: T[],
+  spotsAvailable: number | null,
+  now: Date = new Date(),
+  canAlert: (userId: string) => boolean = () => true
+): WaitlistPromotionPlan<T> {
+  if (spotsAvailable === null) {
+    return { rearmEntryIds: [], promote: [], activeHolds: 0, holdExpiresAt: null };
+  }
+
+  if (spotsAvailable <= 0) {
+    return {
+      rearmEntryIds: entries.filter(e => e.status === 'notified').map(e => e.id),
+      promote: [],
+      activeHolds: 0,
+      holdExpiresAt: null
+    };
+  }
+
+  const families = groupWaitlistFamilies(entries);
+  const activeHolds = families.filter(family =>
+    family.entries.some(e => e.status === 'notified' && e.holdExpiresAt && e.holdExpiresAt > now)
+  ).length;
+
+  const waitingFamilies = families
+    .filter(family => !family.entries.some(e => e.status === 'notified'))
+    .map((family, index) => ({ ...family, queuePosition: index + 1 }))
+    .filter(family => canAlert(family.userId));
+
+  const openSpots = Math.max(0, spotsAvailable - activeHolds);
+
+  return {
+    rearmEntryIds: [],
+    promote: waitingFamilies.slice(0, openSpots),
+    activeHolds,
+    holdExpiresAt: new Date(now.getTime() + WAITLIST_HOLD_MINUTES * 60 * 1000)
+  };
+}
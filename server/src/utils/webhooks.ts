@@ -0,0 +1,86 @@
+/**
+ * Outbound webhook helpers
+ * Event names, HMAC signing and the retry schedule for deliveries to
+ * vendor and partner endpoints.
+ */
+import crypto from 'crypto';
+
+export const WEBHOOK_EVENTS = [
+  'import.approved',
+  'import.rejected',
+  'import.changes_requested',
+  'import.source_failed',
+  'sponsored.impression_cap_reached',
+  'webhook.test',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+/** Header carrying the signature, in the form `t=<unix seconds>,v1=<hex hmac>` */
+export const SIGNATURE_HEADER = 'X-KAT-Signature';
+
+/** Attempts before a delivery is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether an endpoint receives an event. Endpoints with no events listed
+ * receive everything; test events always go through.
+ */
+export function endpointWantsEvent(events: string[], event: WebhookEvent): boolean {
+  return event === 'webhook.test' || events.length === 0 || events.includes(event);
+}
+
+/**
+ * New signing secret for an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a payload. The timestamp is signed along with
+ * the body so receivers can reject replays.
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against a payload, as a receiver would
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split('v1=')[1]);
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * When to retry after a failed attempt: 1, 2, 4, 8... minutes, capped at
+ * six hours. Returns null once the attempts are used up.
+ */
+export function nextRetryAt(attempts: number, from: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  return new Date(from.getTime() + delay);
+}
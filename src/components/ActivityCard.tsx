@@ -72,6 +72,8 @@ interface ActivityCardProps {
   showOnCalendarBadge?: boolean;
   // Show "Great for:" badges with matching children (default: false)
   showGreatFor?: boolean;
+  // "Not interested" action (button hidden when not provided)
+  onNotInterestedPress?: () => void;
 }
 
 // Size presets for image height
@@ -98,6 +100,7 @@ const ActivityCard: React.FC<ActivityCardProps> = ({
   onWaitlistLimitReached,
   showOnCalendarBadge = true,
   showGreatFor = false,
+  onNotInterestedPress,
 }) => {
   // Calculate effective image height - custom overrides size preset
   const imageHeight = customImageHeight ?? SIZE_PRESETS[size];
@@ -808,6 +811,13 @@ const ActivityCard: React.FC<ActivityCardProps> = ({
               />
             )}
           </TouchableOpacity>
+
+          {/* Not interested button */}
+          {onNotInterestedPress && (
+            <TouchableOpacity style={styles.actionButton} onPress={onNotInterestedPress}>
+              <Icon name="eye-off-outline" size={18} color="#FFF" />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
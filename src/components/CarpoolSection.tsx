@@ -0,0 +1,386 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useAppSelector } from '../store';
+import carpoolService, { Carpool, CarpoolSuggestion } from '../services/carpoolService';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
+
+interface CarpoolSectionProps {
+  /** Bump to reload (e.g. on pull-to-refresh) */
+  refreshKey?: number;
+}
+
+const STATUS_ICONS: Record<string, string> = {
+  accepted: 'check-circle',
+  pending: 'clock-outline',
+  declined: 'close-circle-outline',
+};
+
+const shortDays = (days: string[]) => days.map(d => d.slice(0, 3)).join('/');
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Carpool suggestions and driving rotations with connected families
+ */
+const CarpoolSection: React.FC<CarpoolSectionProps> = ({ refreshKey = 0 }) => {
+  const currentUserId = useAppSelector((state) => state.auth.user?.id);
+
+  const [suggestions, setSuggestions] = useState<CarpoolSuggestion[]>([]);
+  const [carpools, setCarpools] = useState<Carpool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadCarpools = useCallback(async () => {
+    try {
+      const [nextSuggestions, nextCarpools] = await Promise.all([
+        carpoolService.getSuggestions(),
+        carpoolService.getCarpools(),
+      ]);
+      setSuggestions(nextSuggestions);
+      setCarpools(nextCarpools);
+    } catch (error) {
+      console.error('[CarpoolSection] Error loading carpools:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCarpools();
+  }, [loadCarpools, refreshKey]);
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await loadCarpools();
+    } catch (error: any) {
+      Alert.alert('Carpool', error?.message || 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePropose = (suggestion: CarpoolSuggestion) => {
+    const myChildIds = suggestion.children
+      .filter(c => c.familyUserId !== suggestion.familyUserId)
+      .map(c => c.childId);
+
+    Alert.alert(
+      'Propose Carpool',
+      `Share driving to ${suggestion.activityName} with ${suggestion.familyName}? You'll drive the first week, then you'll take turns.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Propose',
+          onPress: () => runAction(`${suggestion.activityId}:${suggestion.familyUserId}`, () =>
+            carpoolService.proposeCarpool({
+              activityId: suggestion.activityId,
+              memberUserIds: [suggestion.familyUserId],
+              childIds: myChildIds,
+              daysOfWeek: suggestion.daysOfWeek,
+            })
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleChangeDriver = (carpool: Carpool, weekStart: string) => {
+    const drivers = carpool.members.filter(m => m.status === 'accepted');
+
+    Alert.alert(
+      `Week of ${formatWeek(weekStart)}`,
+      'Who is driving this week?',
+      [
+        ...drivers.map(driver => ({
+          text: driver.userId === currentUserId ? 'Me' : driver.name,
+          onPress: () => runAction(carpool.id, () => carpoolService.setDriver(carpool.id, weekStart, driver.userId)),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleLeave = (carpool: Carpool) => {
+    Alert.alert(
+      carpool.isOrganizer ? 'Cancel Carpool' : 'Leave Carpool',
+      carpool.isOrganizer
+        ? `Cancel ${carpool.name} for everyone?`
+        : `Leave ${carpool.name}? The other families will keep taking turns.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: carpool.isOrganizer ? 'Cancel Carpool' : 'Leave',
+          style: 'destructive',
+          onPress: () => runAction(carpool.id, () => carpoolService.leave(carpool.id)),
+        },
+      ]
+    );
+  };
+
+  const renderSuggestion = (suggestion: CarpoolSuggestion) => {
+    const key = `${suggestion.activityId}:${suggestion.familyUserId}`;
+    const theirChildren = suggestion.children
+      .filter(c => c.familyUserId === suggestion.familyUserId)
+      .map(c => c.childName);
+
+    return (
+      <View key={key} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Icon name="car-multiple" size={22} color={ModernColors.primary} />
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle}>Carpool with {suggestion.familyName}?</Text>
+            <Text style={styles.cardSubtitle}>
+              {theirChildren.join(' & ')} {suggestion.matchType === 'same_activity' ? 'is also in' : 'is at the same place as'} {suggestion.activityName}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {shortDays(suggestion.daysOfWeek)} · {suggestion.startTime}
+              {suggestion.locationName ? ` · ${suggestion.locationName}` : ''}
+            </Text>
+          </View>
+        </View>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => handlePropose(suggestion)}
+          disabled={busyId === key}
+        >
+          {busyId === key ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Propose rotation</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderCarpool = (carpool: Carpool) => {
+    const isBusy = busyId === carpool.id;
+
+    return (
+      <View key={carpool.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Icon name="car" size={22} color={ModernColors.primary} />
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle}>{carpool.name}</Text>
+            <Text style={styles.cardMeta}>
+              {shortDays(carpool.daysOfWeek)}
+              {carpool.pickupTime ? ` · Pickup ${carpool.pickupTime}` : ''}
+              {carpool.status === 'proposed' ? ' · Waiting for families' : ''}
+            </Text>
+          </View>
+          {isBusy && <ActivityIndicator size="small" color={ModernColors.primary} />}
+        </View>
+
+        <View style={styles.members}>
+          {carpool.members.map(member => (
+            <View key={member.userId} style={styles.memberChip}>
+              <Icon
+                name={STATUS_ICONS[member.status] || 'account'}
+                size={14}
+                color={member.status === 'accepted' ? ModernColors.success : ModernColors.textSecondary}
+              />
+              <Text style={styles.memberText}>
+                {member.userId === currentUserId ? 'You' : member.name}
+                {member.children.length > 0 ? ` (${member.children.map(c => c.name).join(', ')})` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {carpool.status === 'active' && carpool.upcoming.length > 0 && (
+          <View style={styles.weeks}>
+            {carpool.upcoming.map(week => (
+              <TouchableOpacity
+                key={week.weekStart}
+                style={styles.weekRow}
+                onPress={() => handleChangeDriver(carpool, week.weekStart)}
+                disabled={isBusy}
+              >
+                <Text style={styles.weekLabel}>Week of {formatWeek(week.weekStart)}</Text>
+                <Text style={[styles.weekDriver, week.driverUserId === currentUserId && styles.weekDriverMe]}>
+                  {week.driverUserId === currentUserId ? 'You drive' : week.driverName}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {carpool.myStatus === 'pending' ? (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => runAction(carpool.id, () => carpoolService.respond(carpool.id, false))}
+              disabled={isBusy}
+            >
+              <Text style={styles.secondaryButtonText}>Decline</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.actionButton]}
+              onPress={() => runAction(carpool.id, () => carpoolService.respond(carpool.id, true))}
+              disabled={isBusy}
+            >
+              <Text style={styles.primaryButtonText}>Accept</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.linkButton} onPress={() => handleLeave(carpool)} disabled={isBusy}>
+            <Text style={styles.linkButtonText}>{carpool.isOrganizer ? 'Cancel carpool' : 'Leave carpool'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (loading || (suggestions.length === 0 && carpools.length === 0)) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Carpools</Text>
+      {carpools.map(renderCarpool)}
+      {suggestions.map(renderSuggestion)}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: ModernSpacing.lg,
+    marginBottom: ModernSpacing.md,
+  },
+  sectionTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+    marginBottom: ModernSpacing.sm,
+  },
+  card: {
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.md,
+    marginBottom: ModernSpacing.md,
+    ...ModernShadows.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  cardInfo: {
+    flex: 1,
+    marginLeft: ModernSpacing.sm,
+  },
+  cardTitle: {
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  cardSubtitle: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.text,
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  members: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: ModernSpacing.sm,
+  },
+  memberChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ModernColors.background,
+    borderRadius: ModernBorderRadius.md,
+    paddingHorizontal: ModernSpacing.sm,
+    paddingVertical: 4,
+    marginRight: ModernSpacing.xs,
+    marginBottom: ModernSpacing.xs,
+  },
+  memberText: {
+    fontSize: ModernTypography.sizes.xs,
+    color: ModernColors.text,
+    marginLeft: 4,
+  },
+  weeks: {
+    marginTop: ModernSpacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: ModernColors.border,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: ModernSpacing.xs,
+  },
+  weekLabel: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+  },
+  weekDriver: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.text,
+  },
+  weekDriverMe: {
+    fontWeight: '600',
+    color: ModernColors.primary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: ModernSpacing.sm,
+  },
+  actionButton: {
+    marginLeft: ModernSpacing.sm,
+    marginTop: 0,
+  },
+  primaryButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.md,
+    paddingVertical: ModernSpacing.sm,
+    paddingHorizontal: ModernSpacing.md,
+    alignItems: 'center',
+    marginTop: ModernSpacing.sm,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.sm,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderRadius: ModernBorderRadius.md,
+    borderWidth: 1,
+    borderColor: ModernColors.border,
+    paddingVertical: ModernSpacing.sm,
+    paddingHorizontal: ModernSpacing.md,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: ModernColors.text,
+    fontSize: ModernTypography.sizes.sm,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignSelf: 'flex-end',
+    marginTop: ModernSpacing.sm,
+  },
+  linkButtonText: {
+    color: ModernColors.textSecondary,
+    fontSize: ModernTypography.sizes.sm,
+  },
+});
+
+export default CarpoolSection;
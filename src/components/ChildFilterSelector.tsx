@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -20,7 +20,7 @@ import {
   ChildWithPreferences,
   ChildFilterMode,
 } from '../store/slices/childrenSlice';
-import { selectSubscription } from '../store/slices/subscriptionSlice';
+import { selectIsPremium } from '../store/slices/subscriptionSlice';
 import { ChildAvatar } from './children';
 import { getChildColor } from '../theme/childColors';
 
@@ -66,11 +66,11 @@ const ChildFilterSelector: React.FC<ChildFilterSelectorProps> = ({
   const colors = defaultColors;
 
   const children = useAppSelector(selectAllChildren);
-  const selectedChildIds = useAppSelector(selectSelectedChildIds) || [];
+  const storedChildIds = useAppSelector(selectSelectedChildIds);
+  const selectedChildIds = useMemo(() => storedChildIds || [], [storedChildIds]);
   const filterMode = useAppSelector(selectFilterMode) || 'or';
-  const subscription = useAppSelector(selectSubscription);
 
-  const isPremium = subscription?.currentPlan?.code === 'premium';
+  const isPremium = useAppSelector(selectIsPremium);
   const allSelected = selectedChildIds.length === children.length && children.length > 0;
 
   // Calculate child age from dateOfBirth
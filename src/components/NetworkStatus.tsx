@@ -1,69 +1,140 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
-  View,
   Text,
   StyleSheet,
   Animated,
   Platform,
 } from 'react-native';
-import NetInfo from '@react-native-community/netinfo';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { useTheme } from '../contexts/ThemeContext';
+import { useAppDispatch, useAppSelector } from '../store';
+import { clearSyncResult, selectOfflineState } from '../store/slices/offlineSlice';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+
+type BannerMode = 'offline' | 'syncing' | 'notApplied' | 'synced';
+
+const BANNER_COLORS: Record<BannerMode, string> = {
+  offline: '#FF6B6B',
+  syncing: '#F5A623',
+  notApplied: '#F5A623',
+  synced: '#4ECDC4',
+};
+
+const BANNER_ICONS: Record<BannerMode, string> = {
+  offline: 'wifi-off',
+  syncing: 'sync',
+  notApplied: 'alert-circle-outline',
+  synced: 'wifi',
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const formatAge = (timestamp: number): string => {
+  const hours = Math.floor((Date.now() - timestamp) / (60 * 60 * 1000));
+  if (hours < 1) return 'the last hour';
+  if (hours < 24) return `${plural(hours, 'hour')} ago`;
+  return `${plural(Math.floor(hours / 24), 'day')} ago`;
+};
 
 const NetworkStatus: React.FC = () => {
-  const [isConnected, setIsConnected] = useState<boolean | null>(true);
+  useOfflineSync();
+
+  const dispatch = useAppDispatch();
+  const { isOnline, pendingCount, syncing, lastConflicts, lastRejected, staleCacheSince } =
+    useAppSelector(selectOfflineState);
   const [showBanner, setShowBanner] = useState(false);
-  const slideAnim = new Animated.Value(-100);
-  const { colors } = useTheme();
+  const slideAnim = useRef(new Animated.Value(-100)).current;
+  const wasOffline = useRef(false);
+  const [showSynced, setShowSynced] = useState(false);
+
+  const notApplied = lastConflicts + lastRejected;
 
+  let mode: BannerMode | null = null;
+  if (!isOnline) {
+    mode = 'offline';
+  } else if (syncing || pendingCount > 0) {
+    mode = 'syncing';
+  } else if (notApplied > 0) {
+    mode = 'notApplied';
+  } else if (showSynced) {
+    mode = 'synced';
+  }
+
+  // Show "Back Online" briefly once everything queued offline has synced
   useEffect(() => {
-    const unsubscribe = NetInfo.addEventListener(state => {
-      const connected = state.isConnected;
-      setIsConnected(connected);
-      
-      if (connected === false) {
-        setShowBanner(true);
+    if (!isOnline) {
+      wasOffline.current = true;
+    } else if (wasOffline.current && !syncing && pendingCount === 0) {
+      wasOffline.current = false;
+      setShowSynced(true);
+    }
+  }, [isOnline, syncing, pendingCount]);
+
+  useEffect(() => {
+    if (mode) {
+      setShowBanner(true);
+      Animated.timing(slideAnim, {
+        toValue: 0,
+        duration: 300,
+        useNativeDriver: true,
+      }).start();
+    }
+
+    if (mode !== 'synced' && mode !== 'notApplied') {
+      if (!mode) {
         Animated.timing(slideAnim, {
-          toValue: 0,
+          toValue: -100,
           duration: 300,
           useNativeDriver: true,
-        }).start();
-      } else if (connected === true && showBanner) {
-        // Show "Back Online" message briefly
-        setTimeout(() => {
-          Animated.timing(slideAnim, {
-            toValue: -100,
-            duration: 300,
-            useNativeDriver: true,
-          }).start(() => {
-            setShowBanner(false);
-          });
-        }, 2000);
+        }).start(() => setShowBanner(false));
       }
-    });
+      return;
+    }
 
-    return () => unsubscribe();
-  }, [showBanner]);
+    // Messages about a finished sync hide themselves
+    const timer = setTimeout(() => {
+      setShowSynced(false);
+      dispatch(clearSyncResult());
+    }, mode === 'notApplied' ? 5000 : 2000);
+    return () => clearTimeout(timer);
+  }, [mode, slideAnim, dispatch]);
 
-  if (!showBanner) return null;
+  if (!showBanner || !mode) return null;
 
-  const isOffline = isConnected === false;
-  const backgroundColor = isOffline ? '#FF6B6B' : '#4ECDC4';
-  const message = isOffline ? 'No Internet Connection' : 'Back Online';
-  const iconName = isOffline ? 'wifi-off' : 'wifi';
+  let message: string;
+  switch (mode) {
+    case 'offline':
+      if (pendingCount > 0) {
+        message = `Offline · ${plural(pendingCount, 'change')} will sync when you reconnect`;
+      } else if (staleCacheSince) {
+        message = `Offline · showing saved data from ${formatAge(staleCacheSince)}`;
+      } else {
+        message = 'Offline · showing saved data';
+      }
+      break;
+    case 'syncing':
+      message = pendingCount > 0 ? `Syncing ${plural(pendingCount, 'change')}...` : 'Syncing...';
+      break;
+    case 'notApplied':
+      message = lastConflicts > 0
+        ? `${plural(lastConflicts, 'offline change')} skipped: updated on another device`
+        : `${plural(lastRejected, 'offline change')} couldn't be saved`;
+      break;
+    default:
+      message = 'Back Online · all changes synced';
+  }
 
   return (
     <Animated.View
       style={[
         styles.container,
         {
-          backgroundColor,
+          backgroundColor: BANNER_COLORS[mode],
           transform: [{ translateY: slideAnim }],
         },
       ]}
     >
-      <Icon name={iconName} size={20} color="#fff" />
-      <Text style={styles.text}>{message}</Text>
+      <Icon name={BANNER_ICONS[mode]} size={20} color="#fff" />
+      <Text style={styles.text} numberOfLines={2}>{message}</Text>
     </Animated.View>
   );
 };
@@ -88,7 +159,8 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
     marginLeft: 8,
+    flexShrink: 1,
   },
 });
 
-export default NetworkStatus;
\ No newline at end of file
+export default NetworkStatus;
@@ -17,6 +17,8 @@ import { Child } from '../../store/slices/childrenSlice';
 import childrenService, { ChildActivity } from '../../services/childrenService';
 import { shareActivityViaEmail } from '../../utils/sharing';
 import useSmartPaywallTrigger from '../../hooks/useSmartPaywallTrigger';
+import { useAppDispatch } from '../../store';
+import { updateActivityStatus as updateChildActivityStatus } from '../../store/slices/childActivitiesSlice';
 
 interface AssignActivityToChildModalProps {
   visible: boolean;
@@ -27,6 +29,7 @@ interface AssignActivityToChildModalProps {
 const AssignActivityToChildModal = ({ visible, activity, onClose }: AssignActivityToChildModalProps) => {
   const { colors } = useTheme();
   const navigation = useNavigation();
+  const dispatch = useAppDispatch();
   const { onCalendarAdd } = useSmartPaywallTrigger();
   const [children, setChildren] = useState<Child[]>([]);
   const [loading, setLoading] = useState(true);
@@ -102,15 +105,15 @@ const AssignActivityToChildModal = ({ visible, activity, onClose }: AssignActivi
             },
             {
               text: 'Mark as Planned',
-              onPress: () => updateActivityStatus(existingAssignment.id, 'planned'),
+              onPress: () => updateActivityStatus(child.id, existingAssignment, 'planned'),
             },
             {
               text: 'Mark as In Progress',
-              onPress: () => updateActivityStatus(existingAssignment.id, 'in_progress'),
+              onPress: () => updateActivityStatus(child.id, existingAssignment, 'in_progress'),
             },
             {
               text: 'Mark as Completed',
-              onPress: () => updateActivityStatus(existingAssignment.id, 'completed'),
+              onPress: () => updateActivityStatus(child.id, existingAssignment, 'completed'),
             },
             {
               text: 'Remove',
@@ -121,7 +124,7 @@ const AssignActivityToChildModal = ({ visible, activity, onClose }: AssignActivi
         );
       } else {
         // Assign new activity
-        const newAssignment = await childrenService.addActivityToChild(child.id, activity.id, 'planned');
+        const { conflicts, ...newAssignment } = await childrenService.addActivityToChild(child.id, activity.id, 'planned');
         setAssignedChildren(prev => ({
           ...prev,
           [child.id]: newAssignment,
@@ -129,8 +132,10 @@ const AssignActivityToChildModal = ({ visible, activity, onClose }: AssignActivi
         // Trigger smart paywall on first calendar add
         onCalendarAdd();
         Alert.alert(
-          'Success',
-          `Activity assigned to ${child.name}`,
+          conflicts.length > 0 ? 'Schedule Conflict' : 'Success',
+          conflicts.length > 0
+            ? `Activity assigned to ${child.name}, but:\n\n${conflicts.slice(0, 3).map(c => `• ${c.message}`).join('\n')}`
+            : `Activity assigned to ${child.name}`,
           [
             { text: 'OK', style: 'default' },
             { 
@@ -145,10 +150,18 @@ const AssignActivityToChildModal = ({ visible, activity, onClose }: AssignActivi
     }
   };
 
-  const updateActivityStatus = async (childActivityId: string, status: ChildActivity['status']) => {
+  const updateActivityStatus = async (childId: string, assignment: ChildActivity, status: ChildActivity['status']) => {
     try {
-      await childrenService.updateActivityStatus(childActivityId, status);
-      await loadChildrenAndAssignments();
+      // Goes through the store so the change is queued if we're offline
+      await dispatch(updateChildActivityStatus({
+        childId,
+        activityId: assignment.activityId,
+        input: { status },
+      })).unwrap();
+      setAssignedChildren(prev => ({
+        ...prev,
+        [childId]: { ...assignment, status },
+      }));
       Alert.alert('Success', 'Activity status updated');
     } catch (error) {
       Alert.alert('Error', 'Failed to update activity status');
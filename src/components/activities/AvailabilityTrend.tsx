@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { ActivityTrends } from '../../types';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius } from '../../theme/modernTheme';
+
+interface AvailabilityTrendProps {
+  trends: ActivityTrends;
+}
+
+const CHART_HEIGHT = 72;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatCost = (cost: number) => (Number.isInteger(cost) ? `$${cost}` : `$${cost.toFixed(2)}`);
+
+/**
+ * Bar chart of spots available per day, with the sell-out projection and any price movement
+ */
+const AvailabilityTrend: React.FC<AvailabilityTrendProps> = ({ trends }) => {
+  const spotPoints = trends.points.filter(p => p.spotsAvailable !== null);
+  const costs = trends.points.map(p => p.cost).filter((c): c is number => c !== null);
+
+  if (spotPoints.length < 2 && !trends.projection.message) {
+    return null;
+  }
+
+  const maxSpots = Math.max(trends.totalSpots || 0, ...spotPoints.map(p => p.spotsAvailable as number), 1);
+  const firstCost = costs[0];
+  const lastCost = costs[costs.length - 1];
+  const priceChanged = costs.length > 1 && firstCost !== lastCost;
+
+  return (
+    <View>
+      {!!trends.projection.message && (
+        <View style={styles.projection}>
+          <Icon name="trending-down" size={18} color={ModernColors.warningDark} />
+          <Text style={styles.projectionText}>{trends.projection.message}</Text>
+        </View>
+      )}
+
+      {spotPoints.length >= 2 && (
+        <>
+          <View style={styles.chart}>
+            {spotPoints.map(point => (
+              <View key={point.date} style={styles.barSlot}>
+                <View
+                  style={[
+                    styles.bar,
+                    { height: Math.max(2, ((point.spotsAvailable as number) / maxSpots) * CHART_HEIGHT) },
+                    point.spotsAvailable === 0 && styles.barFull,
+                  ]}
+                />
+              </View>
+            ))}
+          </View>
+          <View style={styles.axis}>
+            <Text style={styles.axisLabel}>{formatDay(spotPoints[0].date)}</Text>
+            <Text style={styles.axisLabel}>Spots available</Text>
+            <Text style={styles.axisLabel}>{formatDay(spotPoints[spotPoints.length - 1].date)}</Text>
+          </View>
+        </>
+      )}
+
+      {priceChanged && (
+        <Text style={styles.priceText}>
+          Price {lastCost < firstCost ? 'dropped' : 'rose'} from {formatCost(firstCost)} to {formatCost(lastCost)} since{' '}
+          {formatDay(trends.points.find(p => p.cost !== null)!.date)}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  projection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ModernColors.warningLight + '33',
+    borderRadius: ModernBorderRadius.md,
+    padding: ModernSpacing.sm,
+    marginBottom: ModernSpacing.md,
+  },
+  projectionText: {
+    flex: 1,
+    marginLeft: ModernSpacing.sm,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    height: '100%',
+  },
+  bar: {
+    width: '70%',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: ModernColors.primary,
+  },
+  barFull: {
+    backgroundColor: ModernColors.error,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: ModernSpacing.xs,
+  },
+  axisLabel: {
+    fontSize: ModernTypography.sizes.xs,
+    color: ModernColors.textSecondary,
+  },
+  priceText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.md,
+  },
+});
+
+export default AvailabilityTrend;
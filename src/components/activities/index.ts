@@ -1,2 +1,3 @@
 export { default as ChildActivityStatus } from './ChildActivityStatus';
-export { default as RegisterChildModal } from './RegisterChildModal';
\ No newline at end of file
+export { default as RegisterChildModal } from './RegisterChildModal';
+export { default as AvailabilityTrend } from './AvailabilityTrend';
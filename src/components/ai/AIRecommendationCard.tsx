@@ -19,6 +19,8 @@ interface AIRecommendationCardProps {
   activity: Activity;
   source: AISourceType;
   onPress?: () => void;
+  // Shows a "not for us" button that hides the recommendation
+  onDismiss?: () => void;
   showExplanation?: boolean;
   containerStyle?: any;
   children?: ChildWithPreferences[];
@@ -33,6 +35,7 @@ const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
   activity,
   source,
   onPress,
+  onDismiss,
   showExplanation = true,
   containerStyle,
   children: childrenProp,
@@ -272,6 +275,18 @@ const AIRecommendationCard: React.FC<AIRecommendationCardProps> = ({
           <Icon name="star" size={12} color="#fff" />
           <Text style={styles.fitText}>{fitScoreLabel}</Text>
         </View>
+
+        {/* Dismiss Button */}
+        {onDismiss && (
+          <TouchableOpacity
+            style={styles.dismissButton}
+            onPress={onDismiss}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel="Not interested"
+          >
+            <Icon name="close" size={16} color="#fff" />
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Content Section */}
@@ -516,6 +531,18 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '700',
   },
+  dismissButton: {
+    position: 'absolute',
+    bottom: 12,
+    right: 12,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1,
+  },
   imageOverlay: {
     position: 'absolute',
     bottom: 0,
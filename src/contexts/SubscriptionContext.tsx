@@ -1,6 +1,8 @@
 /**
  * Subscription Context
- * Provides app-wide access to RevenueCat subscription state and methods
+ * Provides app-wide access to RevenueCat subscription state and methods.
+ * Premium bought on the website (Stripe) comes from the server, so isPro
+ * covers both.
  */
 
 import React, {
@@ -19,6 +21,9 @@ import {
   getPaywallResult,
   PaywallResultType,
 } from '../services/revenueCatService';
+import { subscriptionService } from '../services/subscriptionService';
+import { useAppSelector } from '../store';
+import { selectIsPremium, selectBillingProvider } from '../store/slices/subscriptionSlice';
 import { CustomerInfo, PurchasesOfferings, PurchasesPackage } from 'react-native-purchases';
 
 interface SubscriptionState {
@@ -32,6 +37,9 @@ interface SubscriptionState {
 }
 
 interface SubscriptionContextType extends SubscriptionState {
+  // Where the active premium was bought
+  billingProvider: 'revenuecat' | 'stripe' | null;
+
   // Paywall methods
   presentPaywall: () => Promise<PaywallResultType>;
   presentPaywallIfNeeded: () => Promise<boolean>;
@@ -47,6 +55,7 @@ interface SubscriptionContextType extends SubscriptionState {
   // Utility methods
   refreshSubscription: () => Promise<void>;
   openManageSubscriptions: () => void;
+  openWebBilling: () => Promise<void>;
 
   // Package getters
   getMonthlyPackage: () => PurchasesPackage | null;
@@ -70,6 +79,10 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
     willRenew: false,
   });
 
+  // Server plan merges store and web purchases
+  const isServerPremium = useAppSelector(selectIsPremium);
+  const billingProvider = useAppSelector(selectBillingProvider);
+
   // Subscribe to RevenueCat state changes
   useEffect(() => {
     const unsubscribe = revenueCatService.subscribe((rcState) => {
@@ -241,9 +254,27 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
   }, []);
 
   /**
-   * Open native subscription management
+   * Open premium checkout and billing on the website
+   */
+  const openWebBilling = useCallback(async (): Promise<void> => {
+    try {
+      const url = await subscriptionService.getWebBillingLink();
+      await Linking.openURL(url);
+    } catch (error: any) {
+      console.error('[SubscriptionContext] Web billing error:', error);
+      Alert.alert('Error', error.message || 'Unable to open billing');
+    }
+  }, []);
+
+  /**
+   * Open subscription management where the subscription was bought
    */
   const openManageSubscriptions = useCallback(() => {
+    if (billingProvider === 'stripe') {
+      openWebBilling();
+      return;
+    }
+
     const url = revenueCatService.getManagementURL();
     if (url) {
       Linking.openURL(url);
@@ -257,7 +288,7 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
         Linking.openURL(fallbackUrl);
       }
     }
-  }, []);
+  }, [billingProvider, openWebBilling]);
 
   /**
    * Get monthly package
@@ -276,6 +307,8 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
   const value = useMemo<SubscriptionContextType>(
     () => ({
       ...state,
+      isPro: state.isPro || isServerPremium,
+      billingProvider,
       presentPaywall,
       presentPaywallIfNeeded,
       presentCustomerCenter,
@@ -284,11 +317,14 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
       restorePurchases,
       refreshSubscription,
       openManageSubscriptions,
+      openWebBilling,
       getMonthlyPackage,
       getYearlyPackage,
     }),
     [
       state,
+      isServerPremium,
+      billingProvider,
       presentPaywall,
       presentPaywallIfNeeded,
       presentCustomerCenter,
@@ -297,6 +333,7 @@ export const SubscriptionProvider: React.FC<SubscriptionProviderProps> = ({ chil
       restorePurchases,
       refreshSubscription,
       openManageSubscriptions,
+      openWebBilling,
       getMonthlyPackage,
       getYearlyPackage,
     ]
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { useAppDispatch } from '../store';
+import { offlineSyncService } from '../services/offlineSyncService';
+import { replayOfflineQueue, setOnline, setPendingCount } from '../store/slices/offlineSlice';
+
+/**
+ * Track connectivity and the offline queue, and replay queued changes
+ * whenever the app comes (or starts) online. Mount once, near the root.
+ */
+export const useOfflineSync = () => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    const unsubscribeQueue = offlineSyncService.subscribe(count => {
+      dispatch(setPendingCount(count));
+    });
+
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      const isOnline = state.isConnected !== false;
+      dispatch(setOnline(isOnline));
+      if (isOnline) {
+        dispatch(replayOfflineQueue());
+      }
+    });
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeNetInfo();
+    };
+  }, [dispatch]);
+};
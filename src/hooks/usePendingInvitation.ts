@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import { Alert } from 'react-native';
 import { deepLinkService } from '../services/deepLinkService';
 import { API_CONFIG } from '../config/api';
+import { getTwoFactorHeaders } from '../utils/secureStorage';
 
 interface UsePendingInvitationOptions {
   isAuthenticated: boolean;
@@ -48,6 +49,7 @@ export function usePendingInvitation({
             headers: {
               'Content-Type': 'application/json',
               'Authorization': `Bearer ${authToken}`,
+              ...getTwoFactorHeaders(),
             },
             body: JSON.stringify({ token: pendingToken }),
           }
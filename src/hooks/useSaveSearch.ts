@@ -0,0 +1,69 @@
+/**
+ * useSaveSearch Hook
+ * One-tap saving of the current search/filter state as a saved search with new-match alerts
+ */
+
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useAppSelector } from '../store';
+import { selectHasFeature } from '../store/slices/subscriptionSlice';
+import savedSearchService, { SavedSearch, SavedSearchLimitError } from '../services/savedSearchService';
+import { ActivitySearchParams } from '../types/api';
+
+interface UseSaveSearchReturn {
+  saveSearch: (filters: ActivitySearchParams) => Promise<SavedSearch | null>;
+  saving: boolean;
+
+  // Modal state for the saved searches upgrade prompt
+  showUpgradeModal: boolean;
+  hideUpgradeModal: () => void;
+}
+
+const useSaveSearch = (): UseSaveSearchReturn => {
+  const hasSavedSearches = useAppSelector((state) => selectHasFeature(state, 'hasSavedSearches'));
+
+  const [saving, setSaving] = useState(false);
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+
+  const hideUpgradeModal = useCallback(() => {
+    setShowUpgradeModal(false);
+  }, []);
+
+  const saveSearch = useCallback(async (filters: ActivitySearchParams): Promise<SavedSearch | null> => {
+    if (!hasSavedSearches) {
+      setShowUpgradeModal(true);
+      return null;
+    }
+
+    setSaving(true);
+    try {
+      const savedSearch = await savedSearchService.saveSearch(filters);
+      Alert.alert(
+        'Search Saved',
+        `We'll let you know when new activities match "${savedSearch.name}".`
+      );
+      return savedSearch;
+    } catch (error: any) {
+      if (error instanceof SavedSearchLimitError) {
+        Alert.alert('Saved Search Limit', error.message, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Upgrade', onPress: () => setShowUpgradeModal(true) },
+        ]);
+      } else {
+        Alert.alert('Error', error?.message || 'Failed to save search');
+      }
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [hasSavedSearches]);
+
+  return {
+    saveSearch,
+    saving,
+    showUpgradeModal,
+    hideUpgradeModal,
+  };
+};
+
+export default useSaveSearch;
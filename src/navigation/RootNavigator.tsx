@@ -49,8 +49,13 @@ import AIRecommendationsScreen from '../screens/AIRecommendationsScreen';
 import AIChatScreen from '../screens/AIChatScreen';
 import WeeklyPlannerScreen from '../screens/WeeklyPlannerScreen';
 import WaitingListScreen from '../screens/WaitingListScreen';
+import SavedSearchesScreen from '../screens/SavedSearchesScreen';
 import MapSearchScreen from '../screens/MapSearchScreen';
 import InvitationAcceptScreen from '../screens/InvitationAcceptScreen';
+import FamilyPlanScreen from '../screens/FamilyPlanScreen';
+import TwoFactorVerifyScreen from '../screens/TwoFactorVerifyScreen';
+import TwoFactorSettingsScreen from '../screens/TwoFactorSettingsScreen';
+import DevicesSessionsScreen from '../screens/DevicesSessionsScreen';
 import ChildPreferencesScreen from '../screens/ChildPreferencesScreen';
 
 
@@ -86,6 +91,7 @@ const HomeStack = () => (
     <Stack.Screen name="WeeklyPlanner" component={WeeklyPlannerScreen} />
     <Stack.Screen name="MapSearch" component={MapSearchScreen} />
     <Stack.Screen name="WaitingList" component={WaitingListScreen} />
+    <Stack.Screen name="SavedSearches" component={SavedSearchesScreen} />
     <Stack.Screen name="NotificationPreferences" component={NotificationPreferencesScreen} />
     <Stack.Screen name="ChildPreferences" component={ChildPreferencesScreen} />
   </Stack.Navigator>
@@ -116,6 +122,8 @@ const ProfileStack = () => (
     <Stack.Screen name="ProfileMain" component={ProfileScreen} />
     <Stack.Screen name="Children" component={ChildrenNavigator} />
     <Stack.Screen name="NotificationPreferences" component={NotificationPreferencesScreen} />
+    <Stack.Screen name="TwoFactorSettings" component={TwoFactorSettingsScreen} />
+    <Stack.Screen name="DevicesSessions" component={DevicesSessionsScreen} />
     <Stack.Screen name="Legal" component={LegalScreen} />
   </Stack.Navigator>
 );
@@ -326,10 +334,45 @@ const linking: LinkingOptions<any> = {
           token: (token: string) => token,
         },
       },
+      // Family plan invitation - joins the payer's family plan
+      FamilyPlan: {
+        path: 'family/:token',
+      },
       // Activity deep link - opens activity detail screen
       ActivityDeepLink: {
         path: 'activity/:activityId',
       },
+      // Shareable links into the Home stack (signed-in users). Links are built
+      // in utils/deepLinks and each has a fallback page on the website.
+      MainTabs: {
+        screens: {
+          FiltersTab: {
+            screens: {
+              // Search with filters in the query string, see SearchLinkParams
+              UnifiedResults: {
+                path: 'search',
+                parse: {
+                  ageMin: Number,
+                  ageMax: Number,
+                },
+              },
+              LocationBrowse: {
+                path: 'city/:city',
+                alias: ['venue/:locationId'],
+              },
+              ActivityTypeDetail: {
+                path: 'activity-type/:typeCode',
+              },
+              Calendar: {
+                path: 'calendar/:childId/:date',
+              },
+              SavedSearches: {
+                path: 'saved-search/:shareToken',
+              },
+            },
+          },
+        },
+      },
     },
   },
 };
@@ -339,6 +382,7 @@ const RootNavigator = () => {
   const dispatch = useAppDispatch();
   const isAuthenticated = useAppSelector((state) => state.auth?.isAuthenticated ?? false);
   const authLoading = useAppSelector((state) => state.auth?.isLoading ?? true);
+  const twoFactorRequired = useAppSelector((state) => state.auth?.twoFactorRequired ?? false);
   const [isLoading, setIsLoading] = useState(true);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
   const { colors } = useTheme();
@@ -497,6 +541,8 @@ const RootNavigator = () => {
                 options={{ presentation: 'modal' }}
               />
             </>
+          ) : twoFactorRequired ? (
+            <Stack.Screen name="TwoFactorVerify" component={TwoFactorVerifyScreen} />
           ) : !hasCompletedOnboarding ? (
             <>
               <Stack.Screen name="Onboarding" component={OnboardingNavigator} />
@@ -524,6 +570,11 @@ const RootNavigator = () => {
                 component={CustomerCenterScreen}
                 options={{ presentation: 'modal' }}
               />
+              <Stack.Screen
+                name="FamilyPlan"
+                component={FamilyPlanScreen}
+                options={{ presentation: 'modal' }}
+              />
               <Stack.Screen
                 name="InvitationAccept"
                 component={InvitationAcceptScreen}
@@ -12,10 +12,12 @@ import {
   Animated,
   Image,
   SafeAreaView,
+  Modal,
+  Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useNavigation } from '@react-navigation/native';
-import aiService, { ChatMessage, ChatQuota } from '../services/aiService';
+import aiService, { ChatMessage, ChatQuota, ConversationSummary } from '../services/aiService';
 import { useAppSelector, useAppDispatch } from '../store';
 import {
   addMessage,
@@ -24,6 +26,10 @@ import {
   setTurnsRemaining as setTurnsRemainingAction,
   setLastActivityIds,
   clearChat,
+  fetchConversations,
+  resumeConversation,
+  renameConversation,
+  deleteConversation,
 } from '../store/slices/chatSlice';
 import {
   selectAllChildren,
@@ -65,6 +71,18 @@ const extractActivityIdsFromText = (text: string): string[] => {
   return ids;
 };
 
+/**
+ * Format a conversation's last message time for the history list
+ */
+const formatHistoryDate = (isoDate: string): string => {
+  const date = new Date(isoDate);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
 /**
  * Generate personalized prompts based on children's data and preferences
  */
@@ -274,6 +292,9 @@ const AIChatScreen = () => {
   const conversationId = useAppSelector((state) => state.chat.conversationId);
   const turnsRemaining = useAppSelector((state) => state.chat.turnsRemaining);
   const lastActivityIds = useAppSelector((state) => state.chat.lastActivityIds);
+  const history = useAppSelector((state) => state.chat.history);
+  const historyLoading = useAppSelector((state) => state.chat.historyLoading);
+  const historyRetentionDays = useAppSelector((state) => state.chat.historyRetentionDays);
 
   // Local state (doesn't need persistence)
   const [inputText, setInputText] = useState('');
@@ -281,6 +302,14 @@ const AIChatScreen = () => {
   const [quota, setQuota] = useState<ChatQuota | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isRateLimited, setIsRateLimited] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  // Partial reply while a streamed response is arriving
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState('');
+  const [streamingActivities, setStreamingActivities] = useState<any[]>([]);
 
   // Animation for typing indicator
   const typingAnim = useRef(new Animated.Value(0)).current;
@@ -339,11 +368,20 @@ const AIChatScreen = () => {
     setError(null);
 
     try {
-      const response = await aiService.chat(
+      setStreamStatus(null);
+      setStreamingText('');
+      setStreamingActivities([]);
+
+      const response = await aiService.chatStream(
         text.trim(),
         conversationId || undefined,
         effectiveChildIds,
-        filterMode
+        filterMode,
+        {
+          onStatus: (status) => setStreamStatus(status),
+          onToken: (token) => setStreamingText((prev) => prev + token),
+          onActivities: (activities) => setStreamingActivities(activities),
+        }
       );
 
       dispatch(setConversationId(response.conversationId));
@@ -395,6 +433,9 @@ const AIChatScreen = () => {
       dispatch(addMessage(errorAssistantMessage));
     } finally {
       setIsLoading(false);
+      setStreamStatus(null);
+      setStreamingText('');
+      setStreamingActivities([]);
     }
   };
 
@@ -412,14 +453,80 @@ const AIChatScreen = () => {
     navigation.navigate('ActivityDetail' as never, { activityId } as never);
   };
 
+  // Previous conversations stay in history; this just clears the screen
   const startNewConversation = () => {
-    if (conversationId) {
-      aiService.endConversation(conversationId);
-    }
     dispatch(clearChat());
     setError(null);
   };
 
+  const openHistory = () => {
+    setShowHistory(true);
+    dispatch(fetchConversations());
+  };
+
+  const closeHistory = () => {
+    setShowHistory(false);
+    setRenamingId(null);
+  };
+
+  const handleResumeConversation = async (id: string) => {
+    if (id === conversationId) {
+      closeHistory();
+      return;
+    }
+    try {
+      await dispatch(resumeConversation(id)).unwrap();
+      setError(null);
+      closeHistory();
+    } catch (err) {
+      console.error('[AIChatScreen] Error resuming conversation:', err);
+      Alert.alert('Error', 'Could not open this conversation. It may have expired.');
+      dispatch(fetchConversations());
+    }
+  };
+
+  const startRename = (item: ConversationSummary) => {
+    setRenamingId(item.id);
+    setRenameText(item.title || '');
+  };
+
+  const submitRename = async () => {
+    const title = renameText.trim();
+    if (!renamingId || !title) {
+      setRenamingId(null);
+      return;
+    }
+    try {
+      await dispatch(renameConversation({ conversationId: renamingId, title })).unwrap();
+    } catch (err) {
+      console.error('[AIChatScreen] Error renaming conversation:', err);
+      Alert.alert('Error', 'Could not rename this conversation.');
+    }
+    setRenamingId(null);
+  };
+
+  const confirmDeleteConversation = (item: ConversationSummary) => {
+    Alert.alert(
+      'Delete Conversation',
+      `Delete "${item.title || 'Untitled chat'}"? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            dispatch(deleteConversation(item.id))
+              .unwrap()
+              .catch((err) => {
+                console.error('[AIChatScreen] Error deleting conversation:', err);
+                Alert.alert('Error', 'Could not delete this conversation.');
+              });
+          },
+        },
+      ]
+    );
+  };
+
   // Handle "View All" activities - navigate to results screen with activity IDs
   const handleViewAllActivities = (activityIds: string[]) => {
     if (activityIds.length > 0) {
@@ -521,7 +628,7 @@ const AIChatScreen = () => {
           )}
 
           {/* AI Response Text - Show BELOW activities */}
-          {item.content && (
+          {!!item.content && (
             isUser ? (
               <Text style={[styles.messageText, styles.userMessageText]}>
                 {item.content}
@@ -583,20 +690,127 @@ const AIChatScreen = () => {
     </View>
   );
 
+  const renderHistoryItem = ({ item }: { item: ConversationSummary }) => {
+    const isActive = item.id === conversationId;
+    const isRenaming = item.id === renamingId;
+
+    return (
+      <TouchableOpacity
+        style={[styles.historyItem, isActive && styles.historyItemActive]}
+        onPress={() => !isRenaming && handleResumeConversation(item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.historyItemContent}>
+          {isRenaming ? (
+            <TextInput
+              style={styles.historyRenameInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              onSubmitEditing={submitRename}
+              onBlur={submitRename}
+              maxLength={100}
+              autoFocus
+              returnKeyType="done"
+              selectionColor={colors.primary}
+            />
+          ) : (
+            <Text style={styles.historyTitle} numberOfLines={1}>
+              {item.title || 'Untitled chat'}
+            </Text>
+          )}
+          {item.preview && (
+            <Text style={styles.historyPreview} numberOfLines={2}>
+              {item.preview}
+            </Text>
+          )}
+          <Text style={styles.historyMeta}>
+            {formatHistoryDate(item.lastMessageAt)} · {item.messageCount} messages
+          </Text>
+        </View>
+        <View style={styles.historyActions}>
+          <TouchableOpacity onPress={() => startRename(item)} style={styles.historyActionButton}>
+            <Icon name="pencil-outline" size={18} color="#666" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDeleteConversation(item)} style={styles.historyActionButton}>
+            <Icon name="trash-can-outline" size={18} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHistoryDrawer = () => (
+    <Modal
+      visible={showHistory}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={closeHistory}
+    >
+      <SafeAreaView style={styles.historyContainer}>
+        <View style={styles.historyHeader}>
+          <Text style={styles.historyHeaderTitle}>Chat History</Text>
+          <TouchableOpacity onPress={closeHistory}>
+            <Icon name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+        {historyRetentionDays !== null && (
+          <Text style={styles.historyRetention}>
+            Conversations are kept for {historyRetentionDays} days after your last message.
+          </Text>
+        )}
+        {historyLoading && history.length === 0 ? (
+          <ActivityIndicator style={styles.historyLoading} color="#E8638B" />
+        ) : (
+          <FlatList
+            data={history}
+            renderItem={renderHistoryItem}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.historyList}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <View style={styles.historyEmpty}>
+                <Icon name="chat-outline" size={40} color="#CCC" />
+                <Text style={styles.historyEmptyText}>No saved conversations yet</Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+
   const renderTypingIndicator = () => {
     if (!isLoading) return null;
 
+    const hasPartialReply = streamingText.length > 0 || streamingActivities.length > 0;
+
     return (
-      <View style={[styles.messageContainer, styles.assistantMessageContainer]}>
-        <View style={styles.avatarContainer}>
-          <View style={styles.avatar}>
-            <Image source={aiRobotImage} style={styles.avatarImage} />
+      <>
+        {/* Streamed reply so far */}
+        {hasPartialReply && renderMessage({
+          item: {
+            id: 'streaming',
+            role: 'assistant',
+            content: streamingText,
+            timestamp: new Date(),
+            activities: streamingActivities,
+          },
+        })}
+
+        {/* Progress until the reply text starts arriving */}
+        {!streamingText && (
+          <View style={[styles.messageContainer, styles.assistantMessageContainer]}>
+            <View style={styles.avatarContainer}>
+              <View style={styles.avatar}>
+                <Image source={aiRobotImage} style={styles.avatarImage} />
+              </View>
+            </View>
+            <Animated.View style={[styles.typingBubble, { opacity: typingAnim }]}>
+              <Text style={styles.typingText}>{streamStatus || 'Thinking...'}</Text>
+            </Animated.View>
           </View>
-        </View>
-        <Animated.View style={[styles.typingBubble, { opacity: typingAnim }]}>
-          <Text style={styles.typingText}>Thinking...</Text>
-        </Animated.View>
-      </View>
+        )}
+      </>
     );
   };
 
@@ -614,12 +828,18 @@ const AIChatScreen = () => {
               <Text style={styles.turnsText}>{turnsRemaining} turns remaining</Text>
             )}
           </View>
-          {messages.length > 0 && (
-            <TouchableOpacity onPress={startNewConversation} style={styles.newChatButton}>
-              <Icon name="plus" size={18} color="#E8638B" />
-              <Text style={styles.newChatText}>New Chat</Text>
+          <View style={styles.subHeaderActions}>
+            <TouchableOpacity onPress={openHistory} style={styles.newChatButton}>
+              <Icon name="history" size={18} color="#E8638B" />
+              <Text style={styles.newChatText}>History</Text>
             </TouchableOpacity>
-          )}
+            {messages.length > 0 && (
+              <TouchableOpacity onPress={startNewConversation} style={styles.newChatButton}>
+                <Icon name="plus" size={18} color="#E8638B" />
+                <Text style={styles.newChatText}>New Chat</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         {/* Quota Warning - only for non-premium users */}
@@ -714,6 +934,8 @@ const AIChatScreen = () => {
           </View>
         </KeyboardAvoidingView>
       </SafeAreaView>
+
+      {renderHistoryDrawer()}
     </ScreenBackground>
   );
 };
@@ -739,6 +961,11 @@ const styles = StyleSheet.create({
   subHeaderLeft: {
     flex: 1,
   },
+  subHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   turnsText: {
     fontSize: 12,
     color: '#666',
@@ -1183,6 +1410,93 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: '#CCC',
   },
+  historyContainer: {
+    flex: 1,
+    backgroundColor: '#FFF',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  historyHeaderTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyRetention: {
+    fontSize: 12,
+    color: '#888',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  historyLoading: {
+    marginTop: 40,
+  },
+  historyList: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: '#F9F9F9',
+  },
+  historyItemActive: {
+    backgroundColor: '#FDF0F4',
+    borderWidth: 1,
+    borderColor: '#E8638B',
+  },
+  historyItemContent: {
+    flex: 1,
+    gap: 2,
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyRenameInput: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E8638B',
+    paddingVertical: 2,
+  },
+  historyPreview: {
+    fontSize: 13,
+    color: '#666',
+  },
+  historyMeta: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  historyActions: {
+    flexDirection: 'row',
+    marginLeft: 8,
+  },
+  historyActionButton: {
+    padding: 6,
+  },
+  historyEmpty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  historyEmptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
 });
 
 export default AIChatScreen;
@@ -85,6 +85,7 @@ const AIRecommendationsScreen = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [response, setResponse] = useState<AIRecommendationResponse | null>(null);
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set());
   const [activities, setActivities] = useState<Map<string, Activity>>(new Map());
   const [source, setSource] = useState<AISourceType>('heuristic');
 
@@ -383,6 +384,7 @@ const AIRecommendationsScreen = () => {
       });
 
       setResponse(result);
+      setDismissedIds(new Set());
       setSource(result._meta?.source || 'heuristic');
 
       // Use activities included in response
@@ -420,9 +422,22 @@ const AIRecommendationsScreen = () => {
   const handleActivityPress = (activityId: string) => {
     const activity = activities.get(activityId);
     if (activity) {
+      if (response?.request_id) {
+        aiService.sendRecommendationFeedback(response.request_id, activityId, 'detail_open');
+      }
       (navigation as any).navigate('ActivityDetail', { activity });
     }
   };
+
+  /**
+   * Hide a recommendation the family isn't interested in
+   */
+  const handleRecommendationDismiss = (activityId: string) => {
+    setDismissedIds(prev => new Set(prev).add(activityId));
+    if (response?.request_id) {
+      aiService.sendRecommendationFeedback(response.request_id, activityId, 'dismiss');
+    }
+  };
   
   /**
    * Handle retry after error
@@ -508,8 +523,8 @@ const AIRecommendationsScreen = () => {
   // Prepare recommendations data for FlatList
   const recommendationsData = useMemo(() => {
     if (!response?.recommendations?.length) return [];
-    return response.recommendations.filter(rec => activities.get(rec.activity_id));
-  }, [response?.recommendations, activities]);
+    return response.recommendations.filter(rec => activities.get(rec.activity_id) && !dismissedIds.has(rec.activity_id));
+  }, [response?.recommendations, activities, dismissedIds]);
 
   // Render individual recommendation item
   const renderRecommendationItem = ({ item: rec, index }: { item: AIRecommendation; index: number }) => {
@@ -522,6 +537,7 @@ const AIRecommendationsScreen = () => {
         activity={activity}
         source={source}
         onPress={() => handleActivityPress(rec.activity_id)}
+        onDismiss={response?.request_id ? () => handleRecommendationDismiss(rec.activity_id) : undefined}
         showExplanation={true}
         children={selectedChildren}
         containerStyle={{
@@ -29,6 +29,8 @@ import { getActivityImageByKey } from '../assets/images';
 import { Activity } from '../types';
 import useWaitlistSubscription from '../hooks/useWaitlistSubscription';
 import UpgradePromptModal from '../components/UpgradePromptModal';
+import { buildActivityTypeLink } from '../utils/deepLinks';
+import { shareLink } from '../utils/sharing';
 
 const { height } = Dimensions.get('window');
 
@@ -49,10 +51,12 @@ const ActivityTypeDetailScreen = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const params = route.params as any;
-  const activityType = params?.activityType;
-  const typeCode = activityType?.code || params?.typeCode;
-  const typeName = activityType?.name || params?.typeName;
+  const routeParams = route.params as any;
+  const activityType = routeParams?.activityType;
+  const typeCode = activityType?.code || routeParams?.typeCode;
+  // Activity type links carry only the code; the name is looked up on load
+  const [resolvedTypeName, setResolvedTypeName] = useState<string | undefined>(undefined);
+  const typeName = activityType?.name || routeParams?.typeName || resolvedTypeName;
 
   const [_activities, setActivities] = useState<Activity[]>([]);
   const [subtypes, setSubtypes] = useState<Subtype[]>([]);
@@ -181,6 +185,10 @@ const ActivityTypeDetailScreen = () => {
       const globalFilters = getGlobalFilterParams();
 
       const currentType = types.find(t => t.name === typeName || t.code === typeCode);
+      const name = typeName || currentType?.name;
+      if (!typeName && name) {
+        setResolvedTypeName(name);
+      }
 
       if (currentType && (currentType as any).subtypes) {
         const subtypesWithCounts = (currentType as any).subtypes
@@ -197,14 +205,14 @@ const ActivityTypeDetailScreen = () => {
         // Get actual filtered count using paginated search API with global + child filters
         const countResult = await activityService.searchActivitiesPaginated({
           ...globalFilters,
-          activityType: typeName,
+          activityType: name,
           limit: 1,
           offset: 0,
         }, childFilters);
         setTotalCount(countResult.total || 0);
       } else {
         const activityTypeService = ActivityTypeService.getInstance();
-        const typeInfo = await activityTypeService.getActivityTypeWithSubtypes(typeName);
+        const typeInfo = await activityTypeService.getActivityTypeWithSubtypes(name);
 
         if (typeInfo && typeInfo.subtypes) {
           const subtypesWithCounts = typeInfo.subtypes
@@ -221,7 +229,7 @@ const ActivityTypeDetailScreen = () => {
           // Get actual filtered count using paginated search API with global + child filters
           const countResult = await activityService.searchActivitiesPaginated({
             ...globalFilters,
-            activityType: typeName,
+            activityType: name,
             limit: 1,
             offset: 0,
           }, childFilters);
@@ -363,7 +371,18 @@ const ActivityTypeDetailScreen = () => {
                   <Icon name="arrow-left" size={22} color="#333" />
                 </View>
               </TouchableOpacity>
-              <View style={styles.spacer} />
+              {typeCode ? (
+                <TouchableOpacity
+                  style={styles.backButtonHero}
+                  onPress={() => shareLink(typeName || 'Activities', buildActivityTypeLink(typeCode), `${typeName || 'Kids'} activities on Kids Activity Tracker`)}
+                >
+                  <View style={styles.backButtonInner}>
+                    <Icon name="share-variant" size={22} color="#E8638B" />
+                  </View>
+                </TouchableOpacity>
+              ) : (
+                <View style={styles.spacer} />
+              )}
             </SafeAreaView>
 
             {/* Title and Count */}
@@ -29,7 +29,7 @@ import {
   getHours,
   isSameDay,
 } from 'date-fns';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
 import { useAppDispatch, useAppSelector } from '../store';
 import { fetchChildren, selectAllChildren } from '../store/slices/childrenSlice';
 import {
@@ -37,6 +37,10 @@ import {
   selectAllChildActivities,
 } from '../store/slices/childActivitiesSlice';
 import childrenService from '../services/childrenService';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { servedFromCache } from '../store/slices/offlineSlice';
+import { buildCalendarDayLink, isValidLinkDate } from '../utils/deepLinks';
+import { shareLink } from '../utils/sharing';
 import activityService from '../services/activityService';
 import { ModernColors } from '../theme/modernTheme';
 import { getChildColor } from '../theme/childColors';
@@ -52,6 +56,8 @@ import { parseTimeString, sortByTime, extractActivityTimes } from '../utils/cale
 import ConflictWarning from '../components/ConflictWarning';
 import ChildColorLegend from '../components/calendar/ChildColorLegend';
 import calendarExportService from '../services/calendarExportService';
+import carpoolService, { Carpool, getCarpoolDriverForDate } from '../services/carpoolService';
+import attendanceService, { AttendanceStatus, ATTENDANCE_STATUS_LABELS } from '../services/attendanceService';
 import AddEventModal, { CustomEvent } from '../components/calendar/AddEventModal';
 import useSubscription from '../hooks/useSubscription';
 import UpgradePromptModal from '../components/UpgradePromptModal';
@@ -109,6 +115,7 @@ interface ExtendedChildActivity {
 
 const CalendarScreenModernFixed = () => {
   const navigation = useNavigation<any>();
+  const route = useRoute<any>();
   const dispatch = useAppDispatch();
   const { children: myChildren } = useAppSelector((state) => state.children);
   const { user } = useAppSelector((state) => state.auth);
@@ -159,6 +166,24 @@ const CalendarScreenModernFixed = () => {
   const [showAddEventModal, setShowAddEventModal] = useState(false);
   const [addEventDate, setAddEventDate] = useState<string | undefined>(undefined);
 
+  // Active carpools, used to show who's driving on each day
+  const [carpools, setCarpools] = useState<Carpool[]>([]);
+
+  // Attendance on the selected date, keyed by `${childId}:${activityId}`
+  const [attendance, setAttendance] = useState<Record<string, AttendanceStatus>>({});
+  const [checkingIn, setCheckingIn] = useState<string | null>(null);
+
+  // Opened from a calendar link: show that child's day on its own
+  const linkedChildId = route.params?.childId as string | undefined;
+  const linkedDate = route.params?.date as string | undefined;
+
+  useEffect(() => {
+    if (isValidLinkDate(linkedDate)) {
+      setSelectedDate(linkedDate);
+      setViewMode('day');
+    }
+  }, [linkedDate, linkedChildId]);
+
   // Load children and their activities
   useEffect(() => {
     loadData();
@@ -224,17 +249,29 @@ const CalendarScreenModernFixed = () => {
       return {
         ...child,
         color: getChildColor(child.colorId).hex,
-        isVisible: true,
+        isVisible: !linkedChildId || child.id === linkedChildId,
         activities: mappedActivities,
       };
     });
 
     setChildrenWithActivities(processedChildren);
     setLoading(false);
-  }, [reduxChildActivities, myChildren]);
+  }, [reduxChildActivities, myChildren, linkedChildId]);
 
   // Note: useEffect for updating marked dates is defined after generateMarkedDates function
 
+  // Load check-ins for the selected date (own children only)
+  useEffect(() => {
+    const childIds = (myChildren || []).map((child) => child.id);
+    attendanceService.getAttendanceForChildren(childIds, selectedDate, selectedDate).then((records) => {
+      const byActivity: Record<string, AttendanceStatus> = {};
+      for (const record of records) {
+        byActivity[`${record.childId}:${record.activityId}`] = record.status;
+      }
+      setAttendance(byActivity);
+    });
+  }, [selectedDate, myChildren]);
+
   // Prevent re-renders when switching to agenda view
   useEffect(() => {
     if (viewMode === 'agenda' && !isAgendaReady && !loading) {
@@ -255,8 +292,10 @@ const CalendarScreenModernFixed = () => {
 
       // Fetch shared children (with error handling for 404)
       let shared: any[] = [];
+      let sharedLoaded = false;
       try {
         shared = await childrenService.getSharedChildren();
+        sharedLoaded = true;
       } catch (error: any) {
         if (error?.response?.status !== 404) {
           console.warn('Error fetching shared children:', error);
@@ -264,6 +303,10 @@ const CalendarScreenModernFixed = () => {
         // Continue with empty shared array if 404 or other error
       }
 
+      carpoolService.getCarpools()
+        .then(setCarpools)
+        .catch((error) => console.warn('[CalendarScreen] Error fetching carpools:', error));
+
       // Fetch activities for each child via Redux
       if (myChildren && myChildren.length > 0) {
         console.log('[CalendarScreen] Fetching activities for', myChildren.length, 'children via Redux');
@@ -286,8 +329,21 @@ const CalendarScreenModernFixed = () => {
           endDate
         );
         console.log('[CalendarScreen] Fetched shared children activities:', sharedChildrenActivities.length, 'children');
+        if (sharedLoaded) {
+          offlineCacheService.set('sharedCalendar', 'all', { shared, activities: sharedChildrenActivities });
+        }
       } catch (error) {
         console.warn('[CalendarScreen] Error fetching shared children activities:', error);
+        // Show the last copy of shared calendars when there's no signal
+        const cached = await offlineCacheService.get<{ shared: any[]; activities: typeof sharedChildrenActivities }>(
+          'sharedCalendar',
+          'all'
+        );
+        if (cached) {
+          shared = cached.data.shared;
+          sharedChildrenActivities = cached.data.activities;
+          dispatch(servedFromCache(cached));
+        }
       }
 
       // Create a map of shared children activities by childId for quick lookup
@@ -315,7 +371,7 @@ const CalendarScreenModernFixed = () => {
           id: childId,
           name: sharedChild.childName || sharedChild.name || `${sharedChild.ownerName}'s child`,
           color: CHILD_COLORS[(myChildren.length + index) % CHILD_COLORS.length],
-          isVisible: showSharedChildren,
+          isVisible: showSharedChildren && (!linkedChildId || childId === linkedChildId),
           isShared: true,
           sharedBy: sharedChild.ownerName || sharedChild.sharedBy,
           activities: activities,
@@ -340,7 +396,7 @@ const CalendarScreenModernFixed = () => {
             id: item.childId,
             name: item.childName,
             color: CHILD_COLORS[(myChildren.length + processedShared.length) % CHILD_COLORS.length],
-            isVisible: showSharedChildren,
+            isVisible: showSharedChildren && (!linkedChildId || item.childId === linkedChildId),
             isShared: true,
             sharedBy: undefined,
             activities: processedActivities,
@@ -1089,6 +1145,10 @@ const CalendarScreenModernFixed = () => {
       'Export Calendar',
       `Export ${activitiesToExport.length} activities to:`,
       [
+        {
+          text: 'Subscribe (Auto-Sync)',
+          onPress: () => subscribeToCalendar(),
+        },
         {
           text: 'Native Calendar',
           onPress: () => exportToNativeCalendar(activitiesToExport),
@@ -1109,6 +1169,23 @@ const CalendarScreenModernFixed = () => {
     );
   };
 
+  const subscribeToCalendar = async () => {
+    // A single visible child gets their own feed; otherwise subscribe to the whole family
+    const visibleOwnChildren = childrenWithActivities.filter(c => c.isVisible);
+    const childId = visibleOwnChildren.length === 1 ? visibleOwnChildren[0].id : undefined;
+
+    const feed = await calendarExportService.getOrCreateCalendarFeed(childId);
+    if (!feed) {
+      Alert.alert('Subscribe Failed', 'Unable to create a calendar subscription. Please try again.');
+      return;
+    }
+
+    const success = await calendarExportService.subscribeToCalendarFeed(feed);
+    if (!success) {
+      Alert.alert('Subscribe Failed', 'Unable to open your calendar app.');
+    }
+  };
+
   const exportToNativeCalendar = async (activities: any[]) => {
     try {
       const hasPermission = await calendarExportService.requestCalendarPermission();
@@ -1321,8 +1398,55 @@ const CalendarScreenModernFixed = () => {
     );
   };
 
+  const setAttendanceStatus = async (activity: ExtendedChildActivity, status: AttendanceStatus | null) => {
+    const key = `${activity.childId}:${activity.activityId}`;
+    setCheckingIn(key);
+    try {
+      if (status) {
+        await attendanceService.recordAttendance(activity.childId, activity.activityId, selectedDate, status);
+      } else {
+        await attendanceService.clearAttendance(activity.childId, activity.activityId, selectedDate);
+      }
+      setAttendance((prev) => {
+        const next = { ...prev };
+        if (status) {
+          next[key] = status;
+        } else {
+          delete next[key];
+        }
+        return next;
+      });
+    } catch (error: any) {
+      Alert.alert('Attendance', error?.message || 'Failed to update attendance');
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
+  // One tap checks a child in (or undoes it); long press picks another status
+  const handleCheckIn = (activity: ExtendedChildActivity) => {
+    const current = attendance[`${activity.childId}:${activity.activityId}`];
+    setAttendanceStatus(activity, current ? null : 'attended');
+  };
+
+  const handleAttendanceOptions = (activity: ExtendedChildActivity) => {
+    const statuses: AttendanceStatus[] = ['attended', 'missed', 'cancelled', 'makeup'];
+    Alert.alert(
+      activity.activity?.name || 'Attendance',
+      `${activity.childName} on ${format(parseISO(selectedDate), 'MMM d')}`,
+      [
+        ...statuses.map((status) => ({
+          text: ATTENDANCE_STATUS_LABELS[status],
+          onPress: () => setAttendanceStatus(activity, status),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const renderActivitiesList = () => {
     const activities = getActivitiesForDate(selectedDate);
+    const today = format(new Date(), 'yyyy-MM-dd');
 
     if (activities.length === 0) {
       return (
@@ -1340,41 +1464,78 @@ const CalendarScreenModernFixed = () => {
         <Text style={styles.activitiesListTitle}>
           Activities for {format(parseISO(selectedDate), 'MMMM d, yyyy')}
         </Text>
-        {activities.map((activity) => (
-          <TouchableOpacity
-            key={activity.id}
-            style={[
-              styles.activityListItem,
-              { borderLeftColor: activity.childColor, borderLeftWidth: 4 }
-            ]}
-            onPress={() => handleActivityPress(activity as any)}
-          >
-            <View style={styles.activityListHeader}>
-              <Text style={styles.activityListName}>{activity.activity?.name || 'Unknown Activity'}</Text>
-              <View style={[styles.activityListChildBadge, { backgroundColor: activity.childColor + '20' }]}>
-                <Text style={[styles.activityListChildName, { color: activity.childColor }]}>
-                  {activity.childName}
-                </Text>
-              </View>
-            </View>
-            <View style={styles.activityListDetails}>
-              <View style={styles.activityListDetailRow}>
-                <Icon name="clock-outline" size={16} color={ModernColors.textSecondary} />
-                <Text style={styles.activityListDetailText}>
-                  {activity.startTime} - {activity.endTime}
-                </Text>
+        {activities.map((activity) => {
+          const carpoolWeek = getCarpoolDriverForDate(carpools, activity.activityId, selectedDate);
+          const attendanceKey = `${activity.childId}:${activity.activityId}`;
+          const attendanceStatus = attendance[attendanceKey];
+          const canCheckIn = selectedDate <= today && (myChildren || []).some((child) => child.id === activity.childId);
+          return (
+            <TouchableOpacity
+              key={activity.id}
+              style={[
+                styles.activityListItem,
+                { borderLeftColor: activity.childColor, borderLeftWidth: 4 }
+              ]}
+              onPress={() => handleActivityPress(activity as any)}
+            >
+              <View style={styles.activityListHeader}>
+                <Text style={styles.activityListName}>{activity.activity?.name || 'Unknown Activity'}</Text>
+                <View style={[styles.activityListChildBadge, { backgroundColor: activity.childColor + '20' }]}>
+                  <Text style={[styles.activityListChildName, { color: activity.childColor }]}>
+                    {activity.childName}
+                  </Text>
+                </View>
               </View>
-              {(activity.activity?.locationName || (typeof activity.activity?.location === 'object' ? activity.activity?.location?.name : activity.activity?.location)) && (
+              <View style={styles.activityListDetails}>
                 <View style={styles.activityListDetailRow}>
-                  <Icon name="map-marker" size={16} color={ModernColors.textSecondary} />
+                  <Icon name="clock-outline" size={16} color={ModernColors.textSecondary} />
                   <Text style={styles.activityListDetailText}>
-                    {activity.activity?.locationName || (typeof activity.activity?.location === 'object' ? activity.activity?.location?.name : activity.activity?.location)}
+                    {activity.startTime} - {activity.endTime}
                   </Text>
                 </View>
+                {(activity.activity?.locationName || (typeof activity.activity?.location === 'object' ? activity.activity?.location?.name : activity.activity?.location)) && (
+                  <View style={styles.activityListDetailRow}>
+                    <Icon name="map-marker" size={16} color={ModernColors.textSecondary} />
+                    <Text style={styles.activityListDetailText}>
+                      {activity.activity?.locationName || (typeof activity.activity?.location === 'object' ? activity.activity?.location?.name : activity.activity?.location)}
+                    </Text>
+                  </View>
+                )}
+                {carpoolWeek && (
+                  <View style={styles.activityListDetailRow}>
+                    <Icon name="car" size={16} color={ModernColors.textSecondary} />
+                    <Text style={styles.activityListDetailText}>
+                      {carpoolWeek.driverUserId === user?.id ? "You're driving" : `${carpoolWeek.driverName} is driving`}
+                    </Text>
+                  </View>
+                )}
+              </View>
+              {canCheckIn && (
+                <TouchableOpacity
+                  style={[styles.checkInButton, attendanceStatus === 'attended' && styles.checkInButtonActive]}
+                  onPress={() => handleCheckIn(activity)}
+                  onLongPress={() => handleAttendanceOptions(activity)}
+                  disabled={checkingIn === attendanceKey}
+                >
+                  {checkingIn === attendanceKey ? (
+                    <ActivityIndicator size="small" color={ModernColors.primary} />
+                  ) : (
+                    <>
+                      <Icon
+                        name={attendanceStatus === 'attended' || attendanceStatus === 'makeup' ? 'check-circle' : attendanceStatus ? 'close-circle-outline' : 'checkbox-blank-circle-outline'}
+                        size={18}
+                        color={attendanceStatus === 'attended' ? ModernColors.success : ModernColors.textSecondary}
+                      />
+                      <Text style={[styles.checkInText, attendanceStatus === 'attended' && styles.checkInTextActive]}>
+                        {attendanceStatus ? ATTENDANCE_STATUS_LABELS[attendanceStatus] : 'Check in'}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
               )}
-            </View>
-          </TouchableOpacity>
-        ))}
+            </TouchableOpacity>
+          );
+        })}
       </View>
     );
   };
@@ -1622,6 +1783,10 @@ const CalendarScreenModernFixed = () => {
           }));
       });
 
+    // A day can be shared when it's showing a single child
+    const visibleChildren = [...childrenWithActivities, ...sharedChildren].filter(c => c.isVisible);
+    const shareableChild = visibleChildren.length === 1 ? visibleChildren[0] : null;
+
     return (
       <View style={styles.dayContainer}>
         {renderDateNavigation(
@@ -1629,6 +1794,19 @@ const CalendarScreenModernFixed = () => {
           () => navigateDay('prev'),
           () => navigateDay('next')
         )}
+        {shareableChild && (
+          <TouchableOpacity
+            style={styles.shareDayButton}
+            onPress={() => shareLink(
+              `${shareableChild.name}'s day`,
+              buildCalendarDayLink(shareableChild.id, selectedDate),
+              `${shareableChild.name}'s activities on ${format(currentDay, 'EEEE, MMMM d')}`
+            )}
+          >
+            <Icon name="share-variant" size={16} color={ModernColors.primary} />
+            <Text style={styles.shareDayText}>Share {shareableChild.name}'s day</Text>
+          </TouchableOpacity>
+        )}
         <ScrollView style={styles.dayScroll}>
           <View style={styles.dayTimeline}>
             {hours.map((hour) => {
@@ -2375,6 +2553,30 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: ModernColors.textSecondary,
   },
+  checkInButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: ModernColors.border,
+  },
+  checkInButtonActive: {
+    borderColor: ModernColors.success,
+    backgroundColor: ModernColors.success + '15',
+  },
+  checkInText: {
+    fontSize: 13,
+    color: ModernColors.textSecondary,
+  },
+  checkInTextActive: {
+    color: ModernColors.success,
+    fontWeight: '600',
+  },
   emptyActivitiesContainer: {
     padding: 40,
     alignItems: 'center',
@@ -2562,6 +2764,19 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: ModernColors.background,
   },
+  shareDayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  shareDayText: {
+    marginLeft: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: ModernColors.primary,
+  },
   dayHeader: {
     paddingHorizontal: 20,
     paddingVertical: 12,
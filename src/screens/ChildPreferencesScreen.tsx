@@ -27,8 +27,10 @@ import {
   fetchChildren,
   ChildWithPreferences,
 } from '../store/slices/childrenSlice';
-import { selectSubscription } from '../store/slices/subscriptionSlice';
+import { selectIsPremium } from '../store/slices/subscriptionSlice';
 import { preferencesService } from '../services/preferencesService';
+import childDismissalsService, { ChildDismissal } from '../services/childDismissalsService';
+import { describeDismissal } from '../utils/dismissals';
 import DayTimeGridSelector, {
   DayTimeSlots,
   createDefaultDayTimeSlots,
@@ -41,7 +43,7 @@ import { ModernColors } from '../theme/modernTheme';
 import TopTabNavigation from '../components/TopTabNavigation';
 import ScreenBackground from '../components/ScreenBackground';
 
-type PreferencesSection = 'activities' | 'environment' | 'distance' | 'cost' | 'when';
+type PreferencesSection = 'activities' | 'environment' | 'distance' | 'cost' | 'when' | 'hidden';
 
 const SECTIONS: { key: PreferencesSection; title: string; icon: string }[] = [
   { key: 'activities', title: 'Activity Types', icon: 'run' },
@@ -49,6 +51,7 @@ const SECTIONS: { key: PreferencesSection; title: string; icon: string }[] = [
   { key: 'distance', title: 'Distance', icon: 'map-marker-distance' },
   { key: 'cost', title: 'Cost', icon: 'currency-usd' },
   { key: 'when', title: 'When', icon: 'calendar-clock' },
+  { key: 'hidden', title: 'Not Interested', icon: 'eye-off-outline' },
 ];
 
 const DISTANCE_OPTIONS = [5, 10, 25, 50, 100];
@@ -66,6 +69,7 @@ const ENVIRONMENT_OPTIONS: { value: 'all' | 'indoor' | 'outdoor'; label: string;
  * - Child selector to switch between children
  * - Copy preferences from one child to another
  * - Expandable sections for each preference type
+ * - Undo list for "not interested" dismissals and excluded categories
  */
 const ChildPreferencesScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -73,8 +77,7 @@ const ChildPreferencesScreen: React.FC = () => {
 
   const children = useAppSelector(selectAllChildren);
   const childrenLoading = useAppSelector(selectChildrenLoading);
-  const subscription = useAppSelector(selectSubscription);
-  const isPremium = subscription?.currentPlan?.code === 'premium';
+  const isPremium = useAppSelector(selectIsPremium);
 
   // Track if we've done initial load
   const [initialLoadDone, setInitialLoadDone] = useState(false);
@@ -124,6 +127,9 @@ const ChildPreferencesScreen: React.FC = () => {
   const [priceRangeMax, setPriceRangeMax] = useState(500);
   const [dayTimeSlots, setDayTimeSlots] = useState<DayTimeSlots>(createDefaultDayTimeSlots());
 
+  // "Not interested" list for the current child (saved immediately, not with Save)
+  const [dismissals, setDismissals] = useState<ChildDismissal[]>([]);
+
   // Get selected child
   const selectedChild = useMemo(
     () => children.find(c => c.id === selectedChildId),
@@ -176,6 +182,29 @@ const ChildPreferencesScreen: React.FC = () => {
     loadChildPrefs();
   }, [selectedChildId, dispatch]);
 
+  // Load the child's dismissals on focus, since they're added from other screens
+  useFocusEffect(
+    useCallback(() => {
+      if (!selectedChildId) return;
+
+      let cancelled = false;
+      childDismissalsService.getDismissals(selectedChildId)
+        .then(result => {
+          if (!cancelled) setDismissals(result);
+        })
+        .catch(error => {
+          console.error('[ChildPreferences] Error loading dismissals:', error);
+          if (!cancelled) setDismissals([]);
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [selectedChildId])
+  );
+
+  const excludedCategories = selectedChild?.preferences?.excludedCategories ?? [];
+
   // Sync local state with Redux state when child preferences change
   useEffect(() => {
     console.log('[ChildPreferences] Syncing from Redux, selectedChild:', selectedChild?.name, 'preferences:', selectedChild?.preferences ? 'exists' : 'none');
@@ -290,6 +319,31 @@ const ChildPreferencesScreen: React.FC = () => {
     setHasChanges(true);
   }, []);
 
+  // Undo "not interested"
+  const handleUndoDismissal = async (dismissal: ChildDismissal) => {
+    if (!selectedChildId) return;
+
+    try {
+      await childDismissalsService.undoDismissal(selectedChildId, dismissal.id);
+      setDismissals(prev => prev.filter(d => d.id !== dismissal.id));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to undo');
+    }
+  };
+
+  const handleUndoExcludedCategory = async (category: string) => {
+    if (!selectedChildId) return;
+
+    try {
+      await dispatch(updateChildPreferences({
+        childId: selectedChildId,
+        updates: { excludedCategories: excludedCategories.filter(c => c !== category) },
+      })).unwrap();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to undo');
+    }
+  };
+
   // Handle copy preferences
   const handleCopyPreferences = () => {
     if (siblings.length === 0) {
@@ -407,6 +461,9 @@ const ChildPreferencesScreen: React.FC = () => {
           return total + (slots?.morning ? 1 : 0) + (slots?.afternoon ? 1 : 0) + (slots?.evening ? 1 : 0);
         }, 0);
         return enabledSlots === 21 ? 'Any time' : `${enabledSlots} time slots`;
+      case 'hidden':
+        const hiddenCount = dismissals.length + excludedCategories.length;
+        return hiddenCount === 0 ? 'Nothing hidden' : `${hiddenCount} hidden`;
       default:
         return '';
     }
@@ -729,6 +786,49 @@ const ChildPreferencesScreen: React.FC = () => {
                         />
                       </View>
                     )}
+
+                    {section.key === 'hidden' && (
+                      <View style={styles.hiddenContainer}>
+                        {dismissals.length === 0 && excludedCategories.length === 0 ? (
+                          <Text style={styles.distanceNote}>
+                            Tap the hide icon on an activity to stop seeing it, its provider, location or type for {selectedChild.name}
+                          </Text>
+                        ) : (
+                          <>
+                            {excludedCategories.map((category) => (
+                              <View key={`category-${category}`} style={styles.hiddenRow}>
+                                <Icon name="shape-outline" size={18} color={ModernColors.textSecondary} />
+                                <Text style={styles.hiddenLabel} numberOfLines={2}>
+                                  Anything in {category}
+                                </Text>
+                                <TouchableOpacity
+                                  style={styles.undoButton}
+                                  onPress={() => handleUndoExcludedCategory(category)}
+                                  activeOpacity={0.7}
+                                >
+                                  <Text style={styles.undoButtonText}>Undo</Text>
+                                </TouchableOpacity>
+                              </View>
+                            ))}
+                            {dismissals.map((dismissal) => (
+                              <View key={dismissal.id} style={styles.hiddenRow}>
+                                <Icon name="eye-off-outline" size={18} color={ModernColors.textSecondary} />
+                                <Text style={styles.hiddenLabel} numberOfLines={2}>
+                                  {describeDismissal(dismissal.type, dismissal.label)}
+                                </Text>
+                                <TouchableOpacity
+                                  style={styles.undoButton}
+                                  onPress={() => handleUndoDismissal(dismissal)}
+                                  activeOpacity={0.7}
+                                >
+                                  <Text style={styles.undoButtonText}>Undo</Text>
+                                </TouchableOpacity>
+                              </View>
+                            ))}
+                          </>
+                        )}
+                      </View>
+                    )}
                   </View>
                 )}
               </View>
@@ -1076,6 +1176,31 @@ const styles = StyleSheet.create({
   whenContainer: {
     gap: 12,
   },
+  hiddenContainer: {
+    gap: 10,
+  },
+  hiddenRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  hiddenLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  undoButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderColor: ModernColors.primary,
+  },
+  undoButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: ModernColors.primary,
+  },
   whenDescription: {
     fontSize: 14,
     color: ModernColors.textSecondary,
@@ -0,0 +1,311 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import sessionsService, { AccountSession, SessionsOverview } from '../services/sessionsService';
+import twoFactorService, { TrustedDevice } from '../services/twoFactorService';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
+
+const formatLastActive = (value: string | null): string => {
+  if (!value) return 'Unknown';
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 10) return 'Active now';
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+const DevicesSessionsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+
+  const [overview, setOverview] = useState<SessionsOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadSessions = async () => {
+    try {
+      setOverview(await sessionsService.getSessions());
+    } catch (error) {
+      console.error('[DevicesSessionsScreen] Error loading sessions:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [])
+  );
+
+  const handleRevokeSession = (session: AccountSession) => {
+    Alert.alert(
+      'Sign Out Device',
+      `${session.deviceName || 'This device'} will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await sessionsService.revokeSession(session.id);
+              await loadSessions();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to sign out device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Sign Out Other Devices',
+      'Every device except this one will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await sessionsService.revokeOtherSessions();
+              await loadSessions();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to sign out other devices');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleForgetDevice = (device: TrustedDevice) => {
+    Alert.alert(
+      'Forget Device',
+      `${device.name || 'This device'} will be asked for a two-factor code next time it signs in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await twoFactorService.removeTrustedDevice(device.id);
+              await loadSessions();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSession = (session: AccountSession) => (
+    <View key={session.id} style={styles.itemCard}>
+      <Icon
+        name="cellphone"
+        size={22}
+        color={session.current ? ModernColors.primary : ModernColors.textSecondary}
+      />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemName} numberOfLines={1}>
+          {session.deviceName || 'Unknown Device'}
+        </Text>
+        <Text style={styles.itemMeta}>
+          {session.current ? 'This device' : formatLastActive(session.lastAccessedAt)}
+          {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+        </Text>
+      </View>
+      {!session.current && (
+        <TouchableOpacity style={styles.removeButton} onPress={() => handleRevokeSession(session)}>
+          <Icon name="logout" size={18} color={ModernColors.textSecondary} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderTrustedDevice = (device: TrustedDevice) => (
+    <View key={device.id} style={styles.itemCard}>
+      <Icon name="shield-check-outline" size={22} color={ModernColors.textSecondary} />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemName} numberOfLines={1}>{device.name || 'Unknown Device'}</Text>
+        <Text style={styles.itemMeta}>
+          Skips the code until {new Date(device.expiresAt).toLocaleDateString()}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.removeButton} onPress={() => handleForgetDevice(device)}>
+        <Icon name="close" size={18} color={ModernColors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const otherSessions = overview?.sessions.filter(session => !session.current) ?? [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-left" size={24} color={ModernColors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Devices & Sessions</Text>
+        </View>
+        <View style={styles.headerRight} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={ModernColors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadSessions();
+              }}
+              tintColor={ModernColors.primary}
+            />
+          }
+        >
+          <Text style={styles.sectionTitle}>Signed in</Text>
+          {overview?.sessions.map(renderSession)}
+
+          {otherSessions.length > 0 && (
+            <TouchableOpacity style={styles.signOutAllButton} onPress={handleRevokeOthers}>
+              <Text style={styles.signOutAllText}>Sign Out All Other Devices</Text>
+            </TouchableOpacity>
+          )}
+
+          {!!overview?.trustedDevices.length && (
+            <>
+              <Text style={styles.sectionTitle}>Remembered for two-factor</Text>
+              {overview.trustedDevices.map(renderTrustedDevice)}
+            </>
+          )}
+
+          <Text style={styles.footnote}>
+            We email you when a new device signs in. If you don't recognize one, sign it out and change your password.
+          </Text>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: ModernSpacing.lg,
+    paddingVertical: ModernSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: ModernColors.border,
+    backgroundColor: ModernColors.surface,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: ModernSpacing.lg,
+    paddingBottom: ModernSpacing.xl * 2,
+  },
+  sectionTitle: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.md,
+    marginBottom: ModernSpacing.sm,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.md,
+    marginBottom: ModernSpacing.sm,
+    ...ModernShadows.sm,
+  },
+  itemInfo: {
+    flex: 1,
+    marginHorizontal: ModernSpacing.sm,
+  },
+  itemName: {
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  itemMeta: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: ModernColors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  signOutAllButton: {
+    alignItems: 'center',
+    paddingVertical: ModernSpacing.md,
+  },
+  signOutAllText: {
+    color: ModernColors.error,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  footnote: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.xl,
+    textAlign: 'center',
+  },
+});
+
+export default DevicesSessionsScreen;
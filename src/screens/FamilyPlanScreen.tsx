@@ -0,0 +1,447 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, useFocusEffect } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import familyService, { Family, FamilyMember } from '../services/familyService';
+import { useAppDispatch } from '../store';
+import { fetchSubscription } from '../store/slices/subscriptionSlice';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
+
+const ListSeparator = () => <View style={styles.separator} />;
+
+const FamilyPlanScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const dispatch = useAppDispatch();
+  const inviteToken: string | undefined = route.params?.token;
+
+  const [family, setFamily] = useState<Family | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const loadFamily = async () => {
+    try {
+      setFamily(await familyService.getFamily());
+    } catch (error) {
+      console.error('[FamilyPlanScreen] Error loading family:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFamily();
+    }, [])
+  );
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    const join = async () => {
+      setWorking(true);
+      try {
+        const result = await familyService.joinFamily(inviteToken);
+        dispatch(fetchSubscription());
+        await loadFamily();
+        Alert.alert(
+          'Welcome to the family',
+          result.hasRenewingSubscription
+            ? `You now share ${result.ownerName}'s premium. You still have your own subscription, so cancel it if you don't want to pay twice.`
+            : `You now share ${result.ownerName}'s premium.`
+        );
+      } catch (error: any) {
+        Alert.alert('Could not join', error?.message || 'Failed to join family plan');
+      } finally {
+        setWorking(false);
+        navigation.setParams({ token: undefined });
+      }
+    };
+
+    join();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inviteToken]);
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+
+    setWorking(true);
+    try {
+      await familyService.inviteMember(email.trim());
+      setEmail('');
+      await loadFamily();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to send invitation');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemove = (member: FamilyMember) => {
+    const label = member.name || member.email;
+    Alert.alert(
+      member.status === 'active' ? 'Remove Co-parent' : 'Cancel Invitation',
+      member.status === 'active'
+        ? `${label} will go back to their own plan. Their children and favorites stay on their account.`
+        : `Cancel the invitation to ${label}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await familyService.removeMember(member.id);
+              await loadFamily();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove family member');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      'Leave Family Plan',
+      'You will go back to your own plan. Anything over the free limits stays, but you won\'t be able to add more.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await familyService.leaveFamily();
+              dispatch(fetchSubscription());
+              await loadFamily();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to leave family plan');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const memberStatusText = (member: FamilyMember) => {
+    if (member.status === 'pending') return 'Invitation sent';
+    if (member.status === 'expired') return 'Invitation expired';
+    return member.hasSeat ? 'Sharing premium' : 'No seat on the current plan';
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <View style={styles.emptyIconContainer}>
+        <Icon name="account-group-outline" size={48} color="#E8638B" />
+      </View>
+      <Text style={styles.emptyTitle}>Share Premium with a Co-parent</Text>
+      <Text style={styles.emptySubtitle}>
+        The family plan covers you and up to 3 co-parents, each with their own account and premium limits.
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={() => navigation.navigate('Paywall')}>
+        <Icon name="crown-outline" size={20} color="#FFFFFF" />
+        <Text style={styles.primaryButtonText}>See Plans</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMemberView = (current: Family) => (
+    <View style={styles.content}>
+      <View style={styles.card}>
+        <Icon name="account-heart-outline" size={28} color={ModernColors.primary} />
+        <Text style={styles.cardTitle}>You share {current.owner.name}'s premium</Text>
+        <Text style={styles.cardText}>
+          {current.plan ? `${current.plan.name} is paid for by ${current.owner.name}.` : `${current.owner.name}'s plan has lapsed.`}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+        <Text style={styles.leaveButtonText}>Leave Family Plan</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMember = ({ item }: { item: FamilyMember }) => (
+    <View style={styles.memberCard}>
+      <Icon
+        name={item.status === 'active' ? 'account-check-outline' : 'email-outline'}
+        size={22}
+        color={item.status === 'active' && item.hasSeat ? ModernColors.primary : ModernColors.textSecondary}
+      />
+      <View style={styles.memberInfo}>
+        <Text style={styles.memberName} numberOfLines={1}>{item.name || item.email}</Text>
+        <Text style={styles.memberMeta}>{memberStatusText(item)}</Text>
+      </View>
+      <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(item)}>
+        <Icon name="close" size={18} color={ModernColors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderOwnerView = (current: Family) => (
+    <FlatList
+      data={current.members}
+      renderItem={renderMember}
+      keyExtractor={(item) => item.id}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+      ItemSeparatorComponent={ListSeparator}
+      ListHeaderComponent={
+        <View style={styles.inviteSection}>
+          <Text style={styles.sectionTitle}>
+            {current.seatsRemaining} of {current.seats} co-parent seat{current.seats === 1 ? '' : 's'} free
+          </Text>
+          {current.seatsRemaining > 0 && (
+            <View style={styles.inviteRow}>
+              <TextInput
+                style={styles.input}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="Co-parent's email"
+                placeholderTextColor={ModernColors.textSecondary}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[styles.inviteButton, (!email.trim() || working) && styles.disabled]}
+                onPress={handleInvite}
+                disabled={!email.trim() || working}
+              >
+                <Text style={styles.inviteButtonText}>Invite</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      }
+    />
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-left" size={24} color={ModernColors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Family Plan</Text>
+        </View>
+        <View style={styles.headerRight} />
+      </View>
+
+      {loading || (working && !family) ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={ModernColors.primary} />
+        </View>
+      ) : !family ? (
+        renderEmptyState()
+      ) : family.role === 'member' ? (
+        renderMemberView(family)
+      ) : (
+        renderOwnerView(family)
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: ModernSpacing.lg,
+    paddingVertical: ModernSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: ModernColors.border,
+    backgroundColor: ModernColors.surface,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: ModernSpacing.lg,
+    paddingBottom: ModernSpacing.xl * 2,
+  },
+  separator: {
+    height: ModernSpacing.sm,
+  },
+  card: {
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.lg,
+    alignItems: 'center',
+    ...ModernShadows.sm,
+  },
+  cardTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+    marginTop: ModernSpacing.sm,
+    textAlign: 'center',
+  },
+  cardText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.xs,
+    textAlign: 'center',
+  },
+  leaveButton: {
+    marginTop: ModernSpacing.xl,
+    alignItems: 'center',
+    paddingVertical: ModernSpacing.md,
+  },
+  leaveButtonText: {
+    color: ModernColors.error,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  inviteSection: {
+    marginBottom: ModernSpacing.lg,
+  },
+  sectionTitle: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginBottom: ModernSpacing.sm,
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    borderWidth: 1,
+    borderColor: ModernColors.border,
+    paddingHorizontal: ModernSpacing.md,
+    paddingVertical: ModernSpacing.sm,
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.text,
+  },
+  inviteButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.sm,
+    paddingHorizontal: ModernSpacing.lg,
+    marginLeft: ModernSpacing.sm,
+  },
+  inviteButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  memberCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.md,
+    ...ModernShadows.sm,
+  },
+  memberInfo: {
+    flex: 1,
+    marginHorizontal: ModernSpacing.sm,
+  },
+  memberName: {
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  memberMeta: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: ModernColors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: ModernSpacing.xl * 2,
+  },
+  emptyIconContainer: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: '#FFF5F8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: ModernSpacing.xl,
+  },
+  emptyTitle: {
+    fontSize: ModernTypography.sizes.xl,
+    fontWeight: '600',
+    color: ModernColors.text,
+    textAlign: 'center',
+    marginBottom: ModernSpacing.md,
+  },
+  emptySubtitle: {
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: ModernSpacing.xl,
+  },
+  primaryButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.md,
+    paddingHorizontal: ModernSpacing.xl,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    marginLeft: ModernSpacing.sm,
+  },
+});
+
+export default FamilyPlanScreen;
@@ -24,11 +24,13 @@ import TopTabNavigation from '../components/TopTabNavigation';
 import ScreenBackground from '../components/ScreenBackground';
 import { HierarchicalSelect, buildHierarchyFromAPI } from '../components/HierarchicalSelect';
 import useSubscription from '../hooks/useSubscription';
+import useSaveSearch from '../hooks/useSaveSearch';
 import UpgradePromptModal from '../components/UpgradePromptModal';
 import { LockedFeature } from '../components/PremiumBadge';
 import DistanceFilterSection from '../components/filters/DistanceFilterSection';
 import AddressAutocomplete from '../components/AddressAutocomplete/AddressAutocomplete';
 import { getActivityTypeIcon } from '../utils/activityTypeIcons';
+import { ActivitySearchParams } from '../types/api';
 import DayTimeGridSelector, {
   DayTimeSlots,
   createDefaultDayTimeSlots,
@@ -135,6 +137,12 @@ const FiltersScreen = () => {
     hideUpgradeModal,
     hasAdvancedFilters,
   } = useSubscription();
+  const {
+    saveSearch,
+    saving: savingSearch,
+    showUpgradeModal: showSavedSearchUpgrade,
+    hideUpgradeModal: hideSavedSearchUpgrade,
+  } = useSaveSearch();
 
   const [loading, setLoading] = useState(true);
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
@@ -479,14 +487,14 @@ const FiltersScreen = () => {
     }
   };
 
-  const updatePreferences = (updates: Partial<UserPreferences>) => {
+  const updatePreferences = useCallback((updates: Partial<UserPreferences>) => {
     if (!preferences) return;
 
     console.log('📝 [FiltersScreen] Updating preferences with:', updates);
     const updatedPrefs = preferencesService.updatePreferences(updates);
     console.log('📝 [FiltersScreen] Updated preferences:', updatedPrefs);
     setPreferences(updatedPrefs);
-  };
+  }, [preferences, preferencesService]);
 
   const toggleSection = (sectionId: string) => {
     setSections(prev => prev.map(section => 
@@ -691,6 +699,31 @@ const FiltersScreen = () => {
     }
   }, [navigation, isContextualMode, contextualFilters, returnKey, route.params?.returnScreen]);
 
+  // Save the filters shown on screen as a saved search with new-match alerts
+  const handleSaveSearch = useCallback(() => {
+    const activityTypeCodes = isContextualMode
+      ? (contextualFilters.activityTypes || [])
+      : (preferences?.preferredActivityTypes || []);
+    const ageRange = isContextualMode ? contextualFilters.ageRange : preferences?.ageRanges?.[0];
+    const priceRange = isContextualMode ? contextualFilters.priceRange : preferences?.priceRange;
+    const environment = isContextualMode ? contextualFilters.environment : preferences?.environmentFilter;
+    const days = isContextualMode ? (contextualFilters.daysOfWeek || []) : (preferences?.daysOfWeek || []);
+
+    const filters: ActivitySearchParams = {
+      activityTypes: activityTypeCodes.length > 0 ? activityTypeCodes : undefined,
+      ageMin: ageRange && ageRange.min > 0 ? ageRange.min : undefined,
+      ageMax: ageRange && ageRange.max < 18 ? ageRange.max : undefined,
+      costMin: priceRange && priceRange.min > 0 ? priceRange.min : undefined,
+      costMax: priceRange && priceRange.max < 10000 ? priceRange.max : undefined,
+      environmentFilter: environment && environment !== 'all' ? environment : undefined,
+      daysOfWeek: days.length > 0 && days.length < 7 ? days : undefined,
+      hideClosedActivities: !isContextualMode && preferences?.hideClosedActivities ? true : undefined,
+      hideFullActivities: !isContextualMode && preferences?.hideFullActivities ? true : undefined,
+    };
+
+    saveSearch(filters);
+  }, [isContextualMode, contextualFilters, preferences, saveSearch]);
+
   const getSectionSummary = (section: ExpandableSection) => {
     switch (section.id) {
       case 'activityTypes':
@@ -1950,9 +1983,26 @@ const FiltersScreen = () => {
 
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>
-          Filters
-        </Text>
+        <View style={styles.headerTitleRow}>
+          <Text style={styles.headerTitle}>
+            Filters
+          </Text>
+          {!isPreferencesMode && (
+            <TouchableOpacity
+              style={styles.saveSearchButton}
+              onPress={handleSaveSearch}
+              disabled={savingSearch}
+              accessibilityLabel="Save this search"
+            >
+              {savingSearch ? (
+                <ActivityIndicator size="small" color={ModernColors.primary} />
+              ) : (
+                <Icon name="bookmark-plus-outline" size={18} color={ModernColors.primary} />
+              )}
+              <Text style={styles.saveSearchText}>Save search</Text>
+            </TouchableOpacity>
+          )}
+        </View>
         <Text style={styles.headerSubtitle}>
           {isContextualMode
             ? 'Filter down the activities in this list'
@@ -2006,6 +2056,11 @@ const FiltersScreen = () => {
         feature={upgradeFeature || 'filters'}
         onClose={hideUpgradeModal}
       />
+      <UpgradePromptModal
+        visible={showSavedSearchUpgrade}
+        feature="savedSearches"
+        onClose={hideSavedSearchUpgrade}
+      />
       </SafeAreaView>
     </ScreenBackground>
   );
@@ -2039,6 +2094,25 @@ const styles = StyleSheet.create({
   headerContent: {
     alignItems: 'center',
   },
+  headerTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  saveSearchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  saveSearchText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: ModernColors.primary,
+  },
   headerTitle: {
     fontSize: 22,
     fontWeight: '600',
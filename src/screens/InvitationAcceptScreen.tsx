@@ -13,6 +13,7 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useAppSelector } from '../store';
 import { API_CONFIG } from '../config/api';
+import { getTwoFactorHeaders } from '../utils/secureStorage';
 import { deepLinkService } from '../services/deepLinkService';
 import { Colors } from '../theme';
 
@@ -131,6 +132,7 @@ const InvitationAcceptScreen = () => {
           headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${authToken}`,
+            ...getTwoFactorHeaders(),
           },
           body: JSON.stringify({ token: invitationToken }),
         }
@@ -189,6 +191,7 @@ const InvitationAcceptScreen = () => {
                   headers: {
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${authToken}`,
+                    ...getTwoFactorHeaders(),
                   },
                   body: JSON.stringify({ token: invitationToken }),
                 }
@@ -17,6 +17,8 @@ import ActivityService from '../services/activityService';
 import PreferencesService from '../services/preferencesService';
 import { Activity } from '../types';
 import { safeToISOString } from '../utils/safeAccessors';
+import { buildCityLink, buildVenueLink } from '../utils/deepLinks';
+import { shareLink } from '../utils/sharing';
 
 const { width, height } = Dimensions.get('window');
 
@@ -44,8 +46,12 @@ const LocationBrowseScreen = () => {
   const activityService = ActivityService.getInstance();
   const preferencesService = PreferencesService.getInstance();
 
+  // Venue links carry just the venue; its city is filled in once it loads
+  const venueId = route.params?.locationId as string | undefined;
+  const [venueCity, setVenueCity] = useState<string | undefined>(undefined);
+
   // Get city filter from navigation params
-  const cityFilter = route.params?.city as string | undefined;
+  const cityFilter = (route.params?.city as string | undefined) || venueCity;
   
   const [locations, setLocations] = useState<LocationData[]>([]);
   const [selectedLocation, setSelectedLocation] = useState<LocationData | null>(null);
@@ -82,6 +88,35 @@ const LocationBrowseScreen = () => {
     loadLocationData();
   }, [cityFilter]);
 
+  // Opened from a venue link: show that venue's activities
+  useEffect(() => {
+    if (!venueId) return;
+    activityService.getVenue(venueId).then(venue => {
+      if (!venue) return;
+      const city = venue.cityRecord?.name || venue.city;
+      setVenueCity(city);
+      selectLocation({
+        id: venue.id,
+        name: venue.name,
+        address: venue.address,
+        city,
+        province: venue.cityRecord?.province || venue.province,
+        postalCode: venue.postalCode,
+        facility: venue.facility,
+        activityCount: 0,
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [venueId]);
+
+  const handleShare = () => {
+    if (selectedLocation) {
+      shareLink(selectedLocation.name, buildVenueLink(selectedLocation.id), `Activities at ${selectedLocation.name}`);
+    } else if (cityFilter) {
+      shareLink(`${cityFilter} Locations`, buildCityLink(cityFilter), `Kids activities in ${cityFilter}`);
+    }
+  };
+
   const loadLocationData = async () => {
     try {
       setIsLoading(true);
@@ -317,9 +352,14 @@ const LocationBrowseScreen = () => {
             <TouchableOpacity onPress={clearSelection}>
               <Icon name="arrow-left" size={24} color="#fff" />
             </TouchableOpacity>
-            <TouchableOpacity onPress={() => navigation.goBack()}>
-              <Icon name="close" size={24} color="#fff" />
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity onPress={handleShare} style={styles.viewModeButton}>
+                <Icon name="share-variant" size={22} color="#fff" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => navigation.goBack()}>
+                <Icon name="close" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
           </View>
           <Text style={styles.headerTitle}>{selectedLocation.name}</Text>
           <Text style={styles.headerSubtitle}>
@@ -336,16 +376,23 @@ const LocationBrowseScreen = () => {
             <TouchableOpacity onPress={() => navigation.goBack()}>
               <Icon name="arrow-left" size={24} color="#fff" />
             </TouchableOpacity>
-            <TouchableOpacity 
-              onPress={() => setViewMode(viewMode === 'grid' ? 'list' : 'grid')}
-              style={styles.viewModeButton}
-            >
-              <Icon 
-                name={viewMode === 'grid' ? 'view-list' : 'view-grid'} 
-                size={24} 
-                color="#fff" 
-              />
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              {cityFilter && (
+                <TouchableOpacity onPress={handleShare} style={styles.viewModeButton}>
+                  <Icon name="share-variant" size={22} color="#fff" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity 
+                onPress={() => setViewMode(viewMode === 'grid' ? 'list' : 'grid')}
+                style={styles.viewModeButton}
+              >
+                <Icon 
+                  name={viewMode === 'grid' ? 'view-list' : 'view-grid'} 
+                  size={24} 
+                  color="#fff" 
+                />
+              </TouchableOpacity>
+            </View>
           </View>
           <Text style={styles.headerTitle}>Browse by Location</Text>
           <Text style={styles.headerSubtitle}>
@@ -462,6 +509,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   viewModeButton: {
     padding: 5,
   },
@@ -31,6 +31,7 @@ import {
   checkTrialEligibility,
 } from '../store/slices/subscriptionSlice';
 import { revenueCatService, getPaywallResult } from '../services/revenueCatService';
+import { useSubscriptionContext } from '../contexts/SubscriptionContext';
 import { analyticsService } from '../services/analyticsService';
 import { abTestService } from '../services/abTestService';
 
@@ -155,6 +156,7 @@ const PaywallScreen: React.FC<PaywallScreenProps> = ({ route }) => {
   const isTrialing = useAppSelector(selectIsTrialing);
   const trialEligible = useAppSelector(selectTrialEligible);
   const { isPurchasing } = useAppSelector((state) => state.subscription);
+  const { openWebBilling } = useSubscriptionContext();
 
   // Check trial eligibility on mount
   useEffect(() => {
@@ -506,7 +508,7 @@ const PaywallScreen: React.FC<PaywallScreenProps> = ({ route }) => {
     </Animated.View>
   );
 
-  if (currentTier === 'premium' && !isTrialing) {
+  if (currentTier !== 'free' && !isTrialing) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
         <View style={styles.header}>
@@ -798,6 +800,16 @@ const PaywallScreen: React.FC<PaywallScreenProps> = ({ route }) => {
                 </Text>
               )}
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.restoreButton}
+              onPress={openWebBilling}
+              disabled={isRestoring || isPurchasing}
+            >
+              <Text style={[styles.restoreButtonText, { color: colors.textSecondary }]}>
+                Subscribe on the web instead
+              </Text>
+            </TouchableOpacity>
           </>
         )}
       </View>
@@ -514,6 +514,35 @@ const ProfileScreenModern = () => {
             showPremiumBadge={!isPremium}
           />
           <View style={styles.divider} />
+          <ProfileItem
+            icon="bookmark-outline"
+            title="Saved Searches"
+            subtitle="Get alerts when new activities match"
+            onPress={() => (navigation as any).navigate('FiltersTab', { screen: 'SavedSearches' })}
+            showPremiumBadge={!isPremium}
+          />
+          <View style={styles.divider} />
+          <ProfileItem
+            icon="account-group-outline"
+            title="Family Plan"
+            subtitle="Share premium with co-parents"
+            onPress={() => (navigation as any).navigate('FamilyPlan')}
+          />
+          <View style={styles.divider} />
+          <ProfileItem
+            icon="shield-lock-outline"
+            title="Two-Factor Authentication"
+            subtitle="Require a code from an authenticator app"
+            onPress={() => (navigation as any).navigate('TwoFactorSettings')}
+          />
+          <View style={styles.divider} />
+          <ProfileItem
+            icon="devices"
+            title="Devices & Sessions"
+            subtitle="See where you're signed in"
+            onPress={() => (navigation as any).navigate('DevicesSessions')}
+          />
+          <View style={styles.divider} />
           <ProfileItem
             icon="account-remove-outline"
             title="Delete Account"
@@ -7,6 +7,9 @@ import {
   TouchableOpacity,
   RefreshControl,
   Dimensions,
+  Alert,
+  ActionSheetIOS,
+  Platform,
 } from 'react-native';
 
 const { width } = Dimensions.get('window');
@@ -17,14 +20,22 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import LinearGradient from 'react-native-linear-gradient';
 import ActivityService, { ChildBasedFilterParams } from '../services/activityService';
 import childPreferencesService from '../services/childPreferencesService';
+import childDismissalsService from '../services/childDismissalsService';
 import PreferencesService from '../services/preferencesService';
 import LoadingIndicator from '../components/LoadingIndicator';
 import ActivityCard from '../components/ActivityCard';
 import { Colors } from '../theme';
 import { Activity } from '../types';
 import { safeToISOString } from '../utils/safeAccessors';
+import { getNotInterestedOptions, NotInterestedOption } from '../utils/dismissals';
 import { useAppSelector, useAppDispatch } from '../store';
-import { selectAllChildren, selectSelectedChildIds, selectFilterMode, fetchChildren } from '../store/slices/childrenSlice';
+import {
+  selectAllChildren,
+  selectSelectedChildIds,
+  selectFilterMode,
+  fetchChildren,
+  updateChildPreferences,
+} from '../store/slices/childrenSlice';
 import { fetchChildFavorites, fetchChildWatching } from '../store/slices/childFavoritesSlice';
 
 const RecommendedActivitiesScreen = () => {
@@ -182,8 +193,8 @@ const RecommendedActivitiesScreen = () => {
           const unfilteredResponse = await activityService.searchActivitiesPaginated(unfilteredFilters);
           setUnfilteredCount(unfilteredResponse.total);
           setFilteredOutCount(unfilteredResponse.total - response.total);
-        } catch (error) {
-          console.error('Error fetching unfiltered count:', error);
+        } catch (countError) {
+          console.error('Error fetching unfiltered count:', countError);
           setUnfilteredCount(response.total);
           setFilteredOutCount(0);
         }
@@ -237,6 +248,63 @@ const RecommendedActivitiesScreen = () => {
     loadRecommendedActivities(true);
   };
 
+  // Hide something for every selected child. Categories go in the child's
+  // preferences; the server applies both when results are reloaded.
+  const hideForSelectedChildren = async (option: NotInterestedOption) => {
+    try {
+      await Promise.all(selectedChildren.map(child =>
+        option.kind === 'category'
+          ? dispatch(updateChildPreferences({
+              childId: child.id,
+              updates: {
+                excludedCategories: [
+                  ...new Set([...(child.preferences?.excludedCategories ?? []), option.category]),
+                ],
+              },
+            })).unwrap()
+          : childDismissalsService.dismiss(child.id, option.kind, option.targetId)
+      ));
+      loadRecommendedActivities(true);
+    } catch (err: any) {
+      Alert.alert('Error', err?.message || 'Failed to hide activity');
+    }
+  };
+
+  const handleNotInterested = (activity: Activity) => {
+    if (selectedChildren.length === 0) return;
+
+    const options = getNotInterestedOptions(activity);
+    const title = `Not interested for ${selectedChildren.map(c => c.name).join(', ')}`;
+
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          options: ['Cancel', ...options.map(o => o.label)],
+          cancelButtonIndex: 0,
+          title,
+          message: 'You can undo this in Child Preferences',
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0) {
+            hideForSelectedChildren(options[buttonIndex - 1]);
+          }
+        }
+      );
+    } else {
+      Alert.alert(
+        title,
+        'You can undo this in Child Preferences',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...options.map(o => ({
+            text: o.label,
+            onPress: () => hideForSelectedChildren(o),
+          })),
+        ]
+      );
+    }
+  };
+
   const renderActivity = ({ item, index }: { item: Activity; index: number }) => (
     <ActivityCard
       activity={item}
@@ -256,6 +324,7 @@ const RecommendedActivitiesScreen = () => {
         width: CARD_WIDTH,
         marginRight: index % 2 === 0 ? CARD_GAP : 0,
       }}
+      onNotInterestedPress={selectedChildren.length > 0 ? () => handleNotInterested(item) : undefined}
     />
   );
 
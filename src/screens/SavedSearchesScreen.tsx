@@ -0,0 +1,398 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, useFocusEffect } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import savedSearchService, { SavedSearch } from '../services/savedSearchService';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
+import { buildSavedSearchLink } from '../utils/deepLinks';
+import { shareLink } from '../utils/sharing';
+
+const ListSeparator = () => <View style={styles.separator} />;
+
+const SavedSearchesScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  // Set when opened from a saved search link
+  const linkedShareToken = route.params?.shareToken as string | undefined;
+
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [limit, setLimit] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadSavedSearches = async () => {
+    try {
+      const result = await savedSearchService.getSavedSearches();
+      setSavedSearches(result.savedSearches);
+      setLimit(result.limit);
+    } catch (error) {
+      console.error('[SavedSearchesScreen] Error loading saved searches:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSavedSearches();
+    }, [])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSavedSearches();
+  };
+
+  const handleOpen = (savedSearch: Pick<SavedSearch, 'filters'>) => {
+    navigation.navigate('SearchResults', {
+      filters: savedSearch.filters,
+      searchQuery: savedSearch.filters.search || '',
+    });
+  };
+
+  // Saved search links run the search, whoever saved it
+  useEffect(() => {
+    if (!linkedShareToken) return;
+    navigation.setParams({ shareToken: undefined });
+    savedSearchService.getSharedSavedSearch(linkedShareToken)
+      .then(handleOpen)
+      .catch((error: any) => {
+        Alert.alert('Saved Search', error?.message || 'This saved search is no longer available');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedShareToken]);
+
+  const sendShareLink = async (savedSearch: SavedSearch, newLink: boolean) => {
+    try {
+      let shareToken = savedSearch.shareToken;
+      if (!shareToken || newLink) {
+        shareToken = await savedSearchService.shareSavedSearch(savedSearch.id);
+        setSavedSearches(prev => prev.map(s => (s.id === savedSearch.id ? { ...s, shareToken } : s)));
+      }
+      shareLink(savedSearch.name, buildSavedSearchLink(shareToken), `Saved search: ${savedSearch.name}`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to share saved search');
+    }
+  };
+
+  const stopSharing = async (savedSearch: SavedSearch) => {
+    try {
+      await savedSearchService.stopSharingSavedSearch(savedSearch.id);
+      setSavedSearches(prev => prev.map(s => (s.id === savedSearch.id ? { ...s, shareToken: null } : s)));
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to stop sharing saved search');
+    }
+  };
+
+  // Once a search has a link, offer to resend it, replace it or turn it off
+  const handleShare = (savedSearch: SavedSearch) => {
+    if (!savedSearch.shareToken) {
+      sendShareLink(savedSearch, false);
+      return;
+    }
+
+    Alert.alert(
+      'Share Saved Search',
+      'Anyone with the link can run this search.',
+      [
+        { text: 'Share Link', onPress: () => sendShareLink(savedSearch, false) },
+        { text: 'New Link', onPress: () => sendShareLink(savedSearch, true) },
+        { text: 'Stop Sharing', style: 'destructive', onPress: () => stopSharing(savedSearch) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleToggleAlerts = async (savedSearch: SavedSearch, notifyOnNew: boolean) => {
+    setSavedSearches(prev => prev.map(s => (s.id === savedSearch.id ? { ...s, notifyOnNew } : s)));
+    try {
+      await savedSearchService.updateSavedSearch(savedSearch.id, { notifyOnNew });
+    } catch (error: any) {
+      setSavedSearches(prev => prev.map(s => (s.id === savedSearch.id ? savedSearch : s)));
+      Alert.alert('Error', error?.message || 'Failed to update saved search');
+    }
+  };
+
+  const handleDelete = (savedSearch: SavedSearch) => {
+    Alert.alert(
+      'Delete Saved Search',
+      `Stop getting alerts for "${savedSearch.name}" and remove it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await savedSearchService.deleteSavedSearch(savedSearch.id);
+              setSavedSearches(prev => prev.filter(s => s.id !== savedSearch.id));
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to delete saved search');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <View style={styles.emptyIconContainer}>
+        <Icon name="bookmark-outline" size={48} color="#E8638B" />
+      </View>
+      <Text style={styles.emptyTitle}>No Saved Searches</Text>
+      <Text style={styles.emptySubtitle}>
+        Tap the bookmark on the Search or Filters screen to save a search. We'll let you know when new activities match.
+      </Text>
+      <TouchableOpacity
+        style={styles.emptyButton}
+        onPress={() => navigation.navigate('SearchMain')}
+      >
+        <Icon name="magnify" size={20} color="#FFFFFF" />
+        <Text style={styles.emptyButtonText}>Start a Search</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSavedSearch = ({ item }: { item: SavedSearch }) => (
+    <TouchableOpacity style={styles.searchCard} onPress={() => handleOpen(item)} activeOpacity={0.8}>
+      <View style={styles.searchHeader}>
+        <Icon name="bookmark" size={20} color={ModernColors.primary} />
+        <View style={styles.searchInfo}>
+          <Text style={styles.searchName} numberOfLines={2}>{item.name}</Text>
+          <Text style={styles.searchMeta}>Saved {formatDate(item.createdAt)}</Text>
+        </View>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleShare(item)}>
+          <Icon name="share-variant" size={20} color={ModernColors.textSecondary} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+          <Icon name="trash-can-outline" size={20} color={ModernColors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchFooter}>
+        <View style={styles.alertLabel}>
+          <Icon
+            name={item.notifyOnNew ? 'bell-ring-outline' : 'bell-off-outline'}
+            size={16}
+            color={ModernColors.textSecondary}
+          />
+          <Text style={styles.alertLabelText}>Alert me about new matches</Text>
+        </View>
+        <Switch
+          value={item.notifyOnNew}
+          onValueChange={(value) => handleToggleAlerts(item, value)}
+          trackColor={{ false: ModernColors.border, true: ModernColors.primary }}
+        />
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-left" size={24} color={ModernColors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Saved Searches</Text>
+          {savedSearches.length > 0 && limit > 0 && (
+            <Text style={styles.headerSubtitle}>{savedSearches.length} of {limit}</Text>
+          )}
+        </View>
+        <View style={styles.headerRight} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={ModernColors.primary} />
+        </View>
+      ) : savedSearches.length === 0 ? (
+        renderEmptyState()
+      ) : (
+        <FlatList
+          data={savedSearches}
+          renderItem={renderSavedSearch}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={ModernColors.primary}
+            />
+          }
+          ItemSeparatorComponent={ListSeparator}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: ModernSpacing.lg,
+    paddingVertical: ModernSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: ModernColors.border,
+    backgroundColor: ModernColors.surface,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  headerSubtitle: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: ModernSpacing.lg,
+    paddingBottom: ModernSpacing.xl * 2,
+  },
+  separator: {
+    height: ModernSpacing.md,
+  },
+  searchCard: {
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.md,
+    ...ModernShadows.sm,
+  },
+  searchHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  searchInfo: {
+    flex: 1,
+    marginHorizontal: ModernSpacing.sm,
+  },
+  searchName: {
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+    marginBottom: 4,
+  },
+  searchMeta: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+  },
+  deleteButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: ModernColors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: ModernSpacing.md,
+    paddingTop: ModernSpacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: ModernColors.border,
+  },
+  alertLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  alertLabelText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginLeft: ModernSpacing.xs,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: ModernSpacing.xl * 2,
+  },
+  emptyIconContainer: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: '#FFF5F8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: ModernSpacing.xl,
+  },
+  emptyTitle: {
+    fontSize: ModernTypography.sizes.xl,
+    fontWeight: '600',
+    color: ModernColors.text,
+    textAlign: 'center',
+    marginBottom: ModernSpacing.md,
+  },
+  emptySubtitle: {
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: ModernSpacing.xl,
+  },
+  emptyButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.md,
+    paddingHorizontal: ModernSpacing.xl,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  emptyButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    marginLeft: ModernSpacing.sm,
+  },
+});
+
+export default SavedSearchesScreen;
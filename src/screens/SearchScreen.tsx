@@ -23,6 +23,8 @@ import aiService from '../services/aiService';
 import { ActivitySearchParams } from '../types/api';
 import { useTheme } from '../contexts/ThemeContext';
 import useSubscription from '../hooks/useSubscription';
+import useSaveSearch from '../hooks/useSaveSearch';
+import UpgradePromptModal from '../components/UpgradePromptModal';
 import { LockedFeature } from '../components/PremiumBadge';
 import { getActivityTypeIcon } from '../utils/activityTypeIcons';
 import { aiRobotImage } from '../assets/images';
@@ -108,6 +110,12 @@ const SearchScreen = () => {
     hasAdvancedFilters,
     isPremium,
   } = useSubscription();
+  const {
+    saveSearch,
+    saving: savingSearch,
+    showUpgradeModal: showSavedSearchUpgrade,
+    hideUpgradeModal: hideSavedSearchUpgrade,
+  } = useSaveSearch();
 
   // Search state
   const [searchText, setSearchText] = useState('');
@@ -186,8 +194,8 @@ const SearchScreen = () => {
     }
   }, [selectedChildIds, filterMode]);
 
-  const loadChildrenPreferencesAsFilters = (children: ChildWithPreferences[], mode: ChildFilterMode) => {
-    if (children.length === 0) return;
+  const loadChildrenPreferencesAsFilters = (childList: ChildWithPreferences[], mode: ChildFilterMode) => {
+    if (childList.length === 0) return;
 
     // Collect preferences from selected children
     const allActivityTypes = new Set<string>();
@@ -196,7 +204,7 @@ const SearchScreen = () => {
     const environments: ('all' | 'indoor' | 'outdoor')[] = [];
     const distances: number[] = [];
 
-    children.forEach(child => {
+    childList.forEach(child => {
       const prefs = child.preferences;
       if (prefs?.preferredActivityTypes) {
         prefs.preferredActivityTypes.forEach(t => allActivityTypes.add(t));
@@ -402,14 +410,14 @@ const SearchScreen = () => {
     });
   }, [dayTimeSlots]);
 
-  const handleSearch = async () => {
+  const buildSearchParams = (): ActivitySearchParams => {
     // Use selected cities for location filtering
     const allLocations = selectedCities.filter(Boolean);
 
     // Get selected days from day/time grid (only filter if not all selected)
     const selectedDays = areAllSlotsSelected() ? undefined : getSelectedDaysFromSlots();
 
-    const searchParams: ActivitySearchParams = {
+    return {
       search: searchText || undefined,
       daysOfWeek: selectedDays?.length ? selectedDays : undefined,
       activityTypes: selectedActivityTypes.length > 0 ? selectedActivityTypes : undefined,
@@ -422,11 +430,20 @@ const SearchScreen = () => {
       environmentFilter: environmentFilter !== 'all' ? environmentFilter : undefined,
       hideFullActivities: true,
     };
+  };
+
+  const handleSaveSearch = () => {
+    saveSearch(buildSearchParams());
+  };
+
+  const handleSearch = async () => {
+    const allLocations = selectedCities.filter(Boolean);
+    const selectedDays = areAllSlotsSelected() ? undefined : getSelectedDaysFromSlots();
+    const searchParams = buildSearchParams();
 
     console.log('🔍 [SearchScreen] Searching with params:', JSON.stringify(searchParams, null, 2));
 
     // Save filters globally so they apply across all screens
-    const preferencesService = PreferencesService.getInstance();
     preferencesService.setActiveFilters({
       search: searchText || undefined,
       activityTypes: selectedActivityTypes.length > 0 ? selectedActivityTypes : undefined,
@@ -943,9 +960,23 @@ const SearchScreen = () => {
         {/* Header with close button */}
         <View style={styles.header}>
           <Text style={styles.headerTitle}>{returnToMap ? 'Filter Activities' : 'Search'}</Text>
-          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
-            <Icon name="close" size={24} color="#222222" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={handleSaveSearch}
+              style={styles.closeButton}
+              disabled={savingSearch}
+              accessibilityLabel="Save this search"
+            >
+              {savingSearch ? (
+                <ActivityIndicator size="small" color={ModernColors.primary} />
+              ) : (
+                <Icon name="bookmark-plus-outline" size={22} color="#222222" />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Icon name="close" size={24} color="#222222" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Child Preferences Selector - same as Explore page */}
@@ -1049,6 +1080,12 @@ const SearchScreen = () => {
         </View>
         </SafeAreaView>
       </Animated.View>
+
+      <UpgradePromptModal
+        visible={showSavedSearchUpgrade}
+        feature="savedSearches"
+        onClose={hideSavedSearchUpgrade}
+      />
     </ScreenBackground>
   );
 };
@@ -1071,6 +1108,10 @@ const styles = StyleSheet.create({
     paddingTop: 16,
     paddingBottom: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   headerTitle: {
     fontSize: 28,
     fontWeight: '700',
@@ -13,6 +13,7 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import LinearGradient from 'react-native-linear-gradient';
 import ActivityCard from '../components/ActivityCard';
 import LoadingIndicator from '../components/LoadingIndicator';
+import CarpoolSection from '../components/CarpoolSection';
 import { Colors } from '../theme';
 import { Activity } from '../types';
 import sharingService from '../services/sharingService';
@@ -35,6 +36,7 @@ const SharedActivitiesScreen = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [carpoolRefreshKey, setCarpoolRefreshKey] = useState(0);
 
   useEffect(() => {
     navigation.setOptions({
@@ -111,6 +113,7 @@ const SharedActivitiesScreen = () => {
 
   const onRefresh = () => {
     setRefreshing(true);
+    setCarpoolRefreshKey(key => key + 1);
     loadSharedActivities();
   };
 
@@ -148,16 +151,19 @@ const SharedActivitiesScreen = () => {
   );
 
   const renderHeader = () => (
-    <LinearGradient
-      colors={['#00BCD4', '#0097A7']}
-      style={styles.header}
-    >
-      <Icon name="share-variant" size={50} color="#fff" />
-      <Text style={styles.headerTitle}>Shared Activities</Text>
-      <Text style={styles.headerSubtitle}>
-        Activities shared with you by friends and family
-      </Text>
-    </LinearGradient>
+    <>
+      <LinearGradient
+        colors={['#00BCD4', '#0097A7']}
+        style={styles.header}
+      >
+        <Icon name="share-variant" size={50} color="#fff" />
+        <Text style={styles.headerTitle}>Shared Activities</Text>
+        <Text style={styles.headerSubtitle}>
+          Activities shared with you by friends and family
+        </Text>
+      </LinearGradient>
+      <CarpoolSection refreshKey={carpoolRefreshKey} />
+    </>
   );
 
   const renderEmptyState = () => (
@@ -0,0 +1,500 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Share,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import twoFactorService, { TwoFactorStatus, TwoFactorSetup, TrustedDevice } from '../services/twoFactorService';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
+
+type CodeAction = 'regenerate' | 'disable';
+
+const TwoFactorSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await twoFactorService.getStatus());
+    } catch (error) {
+      console.error('[TwoFactorSettingsScreen] Error loading status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatus();
+    }, [])
+  );
+
+  const handleBeginSetup = async () => {
+    setWorking(true);
+    try {
+      setSetup(await twoFactorService.beginSetup());
+      setCode('');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to start two-factor setup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!code.trim()) return;
+
+    setWorking(true);
+    try {
+      setRecoveryCodes(await twoFactorService.enable(code.trim(), true));
+      setSetup(null);
+      setCode('');
+      await loadStatus();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Invalid code');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCodeAction = async () => {
+    if (!code.trim() || !codeAction) return;
+
+    setWorking(true);
+    try {
+      if (codeAction === 'regenerate') {
+        setRecoveryCodes(await twoFactorService.regenerateRecoveryCodes(code.trim()));
+      } else {
+        await twoFactorService.disable(code.trim());
+        setRecoveryCodes(null);
+      }
+      setCodeAction(null);
+      setCode('');
+      await loadStatus();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Invalid code');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemoveDevice = (device: TrustedDevice) => {
+    Alert.alert(
+      'Forget Device',
+      `${device.name || 'This device'} will be asked for a code next time it signs in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await twoFactorService.removeTrustedDevice(device.id);
+              await loadStatus();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to remove device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCodeInput = (onSubmit: () => void, label: string) => (
+    <View style={styles.codeRow}>
+      <TextInput
+        style={styles.input}
+        value={code}
+        onChangeText={setCode}
+        placeholder="6-digit code"
+        placeholderTextColor={ModernColors.textSecondary}
+        keyboardType="number-pad"
+        maxLength={12}
+        autoCapitalize="none"
+        autoCorrect={false}
+        textContentType="oneTimeCode"
+      />
+      <TouchableOpacity
+        style={[styles.smallButton, (!code.trim() || working) && styles.disabled]}
+        onPress={onSubmit}
+        disabled={!code.trim() || working}
+      >
+        <Text style={styles.smallButtonText}>{label}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderRecoveryCodes = (codes: string[]) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Save your recovery codes</Text>
+      <Text style={styles.cardText}>
+        Each code signs you in once if you lose your phone. They won't be shown again.
+      </Text>
+      <View style={styles.codesGrid}>
+        {codes.map(recoveryCode => (
+          <Text key={recoveryCode} style={styles.recoveryCode}>{recoveryCode}</Text>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => Share.share({ message: codes.join('\n') })}
+      >
+        <Icon name="share-variant-outline" size={18} color={ModernColors.primary} />
+        <Text style={styles.secondaryButtonText}>Save Codes</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.linkButton} onPress={() => setRecoveryCodes(null)}>
+        <Text style={styles.linkText}>I've saved them</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSetup = (current: TwoFactorSetup) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Scan with your authenticator app</Text>
+      <Image source={{ uri: current.qrCode }} style={styles.qrCode} />
+      <Text style={styles.cardText}>Or enter this key by hand:</Text>
+      <Text selectable style={styles.secret}>{current.secret}</Text>
+      <Text style={[styles.cardText, styles.spaced]}>Then enter the code the app shows.</Text>
+      {renderCodeInput(handleEnable, 'Turn On')}
+    </View>
+  );
+
+  const renderDisabled = () => (
+    <View style={styles.card}>
+      <Icon name="shield-outline" size={32} color={ModernColors.textSecondary} />
+      <Text style={styles.cardTitle}>Two-factor authentication is off</Text>
+      <Text style={styles.cardText}>
+        {status?.required
+          ? 'Your account is an admin or vendor owner account, so two-factor authentication is required.'
+          : 'Ask for a code from an authenticator app when you sign in on a new device.'}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, working && styles.disabled]}
+        onPress={handleBeginSetup}
+        disabled={working}
+      >
+        <Text style={styles.primaryButtonText}>Set Up</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEnabled = (current: TwoFactorStatus) => (
+    <>
+      <View style={styles.card}>
+        <Icon name="shield-check-outline" size={32} color={ModernColors.primary} />
+        <Text style={styles.cardTitle}>Two-factor authentication is on</Text>
+        <Text style={styles.cardText}>
+          {current.recoveryCodesRemaining} recovery code{current.recoveryCodesRemaining === 1 ? '' : 's'} left
+        </Text>
+
+        {codeAction ? (
+          <View style={styles.spaced}>
+            <Text style={styles.cardText}>
+              {codeAction === 'regenerate'
+                ? 'Enter a code from your app to replace your recovery codes.'
+                : 'Enter a code from your app to turn off two-factor authentication.'}
+            </Text>
+            {renderCodeInput(handleCodeAction, codeAction === 'regenerate' ? 'Replace' : 'Turn Off')}
+            <TouchableOpacity style={styles.linkButton} onPress={() => { setCodeAction(null); setCode(''); }}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setCodeAction('regenerate')}>
+              <Icon name="refresh" size={18} color={ModernColors.primary} />
+              <Text style={styles.secondaryButtonText}>New Recovery Codes</Text>
+            </TouchableOpacity>
+            {!current.required && (
+              <TouchableOpacity style={styles.linkButton} onPress={() => setCodeAction('disable')}>
+                <Text style={styles.dangerText}>Turn Off</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>Remembered devices</Text>
+      {current.trustedDevices.length === 0 ? (
+        <Text style={styles.emptyText}>No devices skip the code.</Text>
+      ) : (
+        current.trustedDevices.map(device => (
+          <View key={device.id} style={styles.deviceCard}>
+            <Icon name="cellphone" size={22} color={ModernColors.textSecondary} />
+            <View style={styles.deviceInfo}>
+              <Text style={styles.deviceName}>{device.name || 'Unknown Device'}</Text>
+              <Text style={styles.deviceMeta}>
+                Until {new Date(device.expiresAt).toLocaleDateString()}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemoveDevice(device)}>
+              <Icon name="close" size={18} color={ModernColors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Icon name="arrow-left" size={24} color={ModernColors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>Two-Factor Authentication</Text>
+        </View>
+        <View style={styles.headerRight} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={ModernColors.primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {recoveryCodes
+            ? renderRecoveryCodes(recoveryCodes)
+            : setup
+              ? renderSetup(setup)
+              : status?.enabled
+                ? renderEnabled(status)
+                : renderDisabled()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: ModernSpacing.lg,
+    paddingVertical: ModernSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: ModernColors.border,
+    backgroundColor: ModernColors.surface,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: ModernSpacing.lg,
+    paddingBottom: ModernSpacing.xl * 2,
+  },
+  card: {
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.lg,
+    alignItems: 'center',
+    ...ModernShadows.sm,
+  },
+  cardTitle: {
+    fontSize: ModernTypography.sizes.lg,
+    fontWeight: '600',
+    color: ModernColors.text,
+    marginTop: ModernSpacing.sm,
+    textAlign: 'center',
+  },
+  cardText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.xs,
+    textAlign: 'center',
+  },
+  spaced: {
+    marginTop: ModernSpacing.md,
+    alignSelf: 'stretch',
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+    marginVertical: ModernSpacing.md,
+  },
+  secret: {
+    fontSize: ModernTypography.sizes.sm,
+    fontFamily: 'Courier',
+    color: ModernColors.text,
+    marginTop: ModernSpacing.xs,
+    textAlign: 'center',
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: ModernSpacing.md,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+    borderRadius: ModernBorderRadius.lg,
+    borderWidth: 1,
+    borderColor: ModernColors.border,
+    paddingHorizontal: ModernSpacing.md,
+    paddingVertical: ModernSpacing.sm,
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.text,
+  },
+  smallButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.sm,
+    paddingHorizontal: ModernSpacing.lg,
+    marginLeft: ModernSpacing.sm,
+  },
+  smallButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.md,
+    paddingHorizontal: ModernSpacing.xl,
+    marginTop: ModernSpacing.lg,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: ModernSpacing.lg,
+    paddingVertical: ModernSpacing.sm,
+    paddingHorizontal: ModernSpacing.lg,
+    borderRadius: ModernBorderRadius.lg,
+    borderWidth: 1,
+    borderColor: ModernColors.primary,
+  },
+  secondaryButtonText: {
+    color: ModernColors.primary,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    marginLeft: ModernSpacing.xs,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: ModernSpacing.md,
+  },
+  recoveryCode: {
+    width: '45%',
+    fontFamily: 'Courier',
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.text,
+    textAlign: 'center',
+    paddingVertical: ModernSpacing.xs,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: ModernSpacing.md,
+  },
+  linkText: {
+    color: ModernColors.primary,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  cancelText: {
+    color: ModernColors.textSecondary,
+    fontSize: ModernTypography.sizes.sm,
+  },
+  dangerText: {
+    color: ModernColors.error,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: ModernSpacing.xl,
+    marginBottom: ModernSpacing.sm,
+  },
+  emptyText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+  },
+  deviceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    padding: ModernSpacing.md,
+    marginBottom: ModernSpacing.sm,
+    ...ModernShadows.sm,
+  },
+  deviceInfo: {
+    flex: 1,
+    marginHorizontal: ModernSpacing.sm,
+  },
+  deviceName: {
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+    color: ModernColors.text,
+  },
+  deviceMeta: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: ModernColors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default TwoFactorSettingsScreen;
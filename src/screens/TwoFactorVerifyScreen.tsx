@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import twoFactorService from '../services/twoFactorService';
+import { useAppDispatch } from '../store';
+import { loadAuthState, logout } from '../store/slices/authSlice';
+import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius } from '../theme/modernTheme';
+
+/**
+ * Shown after signing in when the account has two-factor authentication on
+ */
+const TwoFactorVerifyScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    if (!code.trim()) return;
+
+    setVerifying(true);
+    setError(null);
+    try {
+      const { recoveryCodesRemaining } = await twoFactorService.verify(code.trim(), rememberDevice);
+      if (useRecoveryCode) {
+        Alert.alert(
+          'Recovery code used',
+          `You have ${recoveryCodesRemaining} recovery code${recoveryCodesRemaining === 1 ? '' : 's'} left. You can make new ones in Two-Factor Authentication settings.`
+        );
+      }
+      // Sync again now the API will answer, which finishes signing in
+      dispatch(loadAuthState());
+    } catch (err: any) {
+      setError(err?.message || 'Invalid code');
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Icon name="shield-lock-outline" size={48} color={ModernColors.primary} />
+        </View>
+        <Text style={styles.title}>Two-Factor Authentication</Text>
+        <Text style={styles.subtitle}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </Text>
+
+        <TextInput
+          style={styles.input}
+          value={code}
+          onChangeText={setCode}
+          placeholder={useRecoveryCode ? 'abcd-efgh' : '123456'}
+          placeholderTextColor={ModernColors.textSecondary}
+          keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          maxLength={useRecoveryCode ? 12 : 6}
+          textContentType="oneTimeCode"
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.rememberRow}>
+          <Text style={styles.rememberText}>Don't ask again on this device for 30 days</Text>
+          <Switch
+            value={rememberDevice}
+            onValueChange={setRememberDevice}
+            trackColor={{ false: ModernColors.border, true: ModernColors.primary }}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (!code.trim() || verifying) && styles.disabled]}
+          onPress={handleVerify}
+          disabled={!code.trim() || verifying}
+        >
+          {verifying ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Verify</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError(null);
+          }}
+        >
+          <Text style={styles.linkText}>
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.linkButton} onPress={() => dispatch(logout())}>
+          <Text style={styles.signOutText}>Sign out</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: ModernColors.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: ModernSpacing.xl,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginBottom: ModernSpacing.lg,
+  },
+  title: {
+    fontSize: ModernTypography.sizes.xl,
+    fontWeight: '700',
+    color: ModernColors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.textSecondary,
+    textAlign: 'center',
+    marginTop: ModernSpacing.sm,
+    marginBottom: ModernSpacing.xl,
+  },
+  input: {
+    backgroundColor: ModernColors.surface,
+    borderRadius: ModernBorderRadius.lg,
+    borderWidth: 1,
+    borderColor: ModernColors.border,
+    paddingHorizontal: ModernSpacing.md,
+    paddingVertical: ModernSpacing.md,
+    fontSize: ModernTypography.sizes.xl,
+    letterSpacing: 4,
+    textAlign: 'center',
+    color: ModernColors.text,
+  },
+  errorText: {
+    color: ModernColors.error,
+    fontSize: ModernTypography.sizes.sm,
+    textAlign: 'center',
+    marginTop: ModernSpacing.sm,
+  },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: ModernSpacing.lg,
+  },
+  rememberText: {
+    flex: 1,
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.text,
+    marginRight: ModernSpacing.md,
+  },
+  primaryButton: {
+    backgroundColor: ModernColors.primary,
+    borderRadius: ModernBorderRadius.lg,
+    paddingVertical: ModernSpacing.md,
+    alignItems: 'center',
+    marginTop: ModernSpacing.xl,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: ModernSpacing.md,
+  },
+  linkText: {
+    color: ModernColors.primary,
+    fontSize: ModernTypography.sizes.base,
+    fontWeight: '600',
+  },
+  signOutText: {
+    color: ModernColors.textSecondary,
+    fontSize: ModernTypography.sizes.sm,
+  },
+});
+
+export default TwoFactorVerifyScreen;
@@ -38,6 +38,8 @@ import {
   hasActiveContextualFilters,
   applyContextualFiltersToParams,
 } from '../types/filters';
+import { SearchLinkFilterParams, buildSearchLink, parseSearchLinkFilters } from '../utils/deepLinks';
+import { shareLink } from '../utils/sharing';
 
 // Header images with fallback
 const HeaderImages: Record<string, any> = {
@@ -59,7 +61,7 @@ const { width, height } = Dimensions.get('window');
 
 type RouteParams = {
   UnifiedResults: {
-    type?: 'budget' | 'new' | 'recommended' | 'activityType' | 'ageGroup' | 'favorites' | 'ai';
+    type?: 'budget' | 'new' | 'recommended' | 'activityType' | 'ageGroup' | 'favorites' | 'ai' | 'search';
     title?: string;
     subtitle?: string;
     activityType?: string;
@@ -72,7 +74,7 @@ type RouteParams = {
     // Contextual filters returned from FiltersScreen
     appliedFilters?: ContextualFilters;
     returnKey?: string;
-  };
+  } & SearchLinkFilterParams;
 };
 
 const UnifiedResultsScreenTest: React.FC = () => {
@@ -97,6 +99,12 @@ const UnifiedResultsScreenTest: React.FC = () => {
   const ageMax = route?.params?.ageMax;
   const ageGroupName = route?.params?.ageGroupName;
 
+  // Filters returned from FiltersScreen, or carried in a shared search link
+  const incomingFilters = useMemo(
+    () => route?.params?.appliedFilters || parseSearchLinkFilters(route?.params || {}),
+    [route?.params]
+  );
+
   const [activities, setActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
@@ -131,7 +139,7 @@ const UnifiedResultsScreenTest: React.FC = () => {
   // Contextual filters - temporary filters for this screen only (NOT persisted to PreferencesService)
   // These are applied on top of child preferences to further filter results
   const [contextualFilters, setContextualFilters] = useState<ContextualFilters>(
-    route?.params?.appliedFilters || createEmptyContextualFilters()
+    incomingFilters || createEmptyContextualFilters()
   );
 
   // Track if user has visited FiltersScreen to apply filters on subsequent loads
@@ -141,21 +149,21 @@ const UnifiedResultsScreenTest: React.FC = () => {
   const lastAppliedFiltersRef = React.useRef<string | null>(null);
   const [filtersChangedTrigger, setFiltersChangedTrigger] = React.useState(0);
 
-  // Update contextual filters when they're returned from FiltersScreen
+  // Update contextual filters when they're returned from FiltersScreen or a link
   useEffect(() => {
-    if (route?.params?.appliedFilters) {
-      const filtersKey = JSON.stringify(route.params.appliedFilters);
+    if (incomingFilters) {
+      const filtersKey = JSON.stringify(incomingFilters);
       // Only update and reload if filters actually changed
       if (filtersKey !== lastAppliedFiltersRef.current) {
-        console.log('[UnifiedResults] Received NEW contextual filters from FiltersScreen:', route.params.appliedFilters);
+        console.log('[UnifiedResults] Received NEW contextual filters:', incomingFilters);
         lastAppliedFiltersRef.current = filtersKey;
-        setContextualFilters(route.params.appliedFilters);
+        setContextualFilters(incomingFilters);
         hasVisitedFiltersRef.current = true;
         // Trigger a reload by incrementing the trigger
         setFiltersChangedTrigger(prev => prev + 1);
       }
     }
-  }, [route?.params?.appliedFilters]);
+  }, [incomingFilters]);
 
 
   const ITEMS_PER_PAGE = 50;
@@ -301,6 +309,10 @@ const UnifiedResultsScreenTest: React.FC = () => {
         title: customTitle || 'AI Recommendations',
         image: HeaderImages.ai || DefaultHeaderImage,
       },
+      search: {
+        title: customTitle || 'Search Results',
+        image: HeaderImages.search || DefaultHeaderImage,
+      },
     };
 
     return configMap[type] || { title: 'Activities', image: DefaultHeaderImage };
@@ -736,6 +748,19 @@ const UnifiedResultsScreenTest: React.FC = () => {
     }
   };
 
+  const handleSharePress = () => {
+    const url = buildSearchLink({
+      type,
+      activityType,
+      subtype,
+      title: customTitle || ageGroupName,
+      ageMin,
+      ageMax,
+      filters: hasActiveContextualFilters(contextualFilters) ? contextualFilters : undefined,
+    });
+    shareLink(String(config.title || 'Activities'), url, `${config.title} on Kids Activity Tracker`);
+  };
+
   const handleFilterPress = () => {
     // Mark that user has visited filters - after returning, apply their filter choices
     hasVisitedFiltersRef.current = true;
@@ -773,16 +798,25 @@ const UnifiedResultsScreenTest: React.FC = () => {
                     <Icon name="arrow-left" size={22} color="#333" />
                   </View>
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.filterButtonHero} onPress={handleFilterPress}>
-                  <View style={styles.backButtonInner}>
-                    <Icon name="tune" size={22} color="#E8638B" />
-                    {hasActiveContextualFilters(contextualFilters) && (
-                      <View style={styles.filterBadge}>
-                        <View style={styles.filterBadgeDot} />
+                <View style={styles.heroActions}>
+                  {type !== 'ai' && (
+                    <TouchableOpacity style={styles.shareButtonHero} onPress={handleSharePress}>
+                      <View style={styles.backButtonInner}>
+                        <Icon name="share-variant" size={22} color="#E8638B" />
                       </View>
-                    )}
-                  </View>
-                </TouchableOpacity>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.filterButtonHero} onPress={handleFilterPress}>
+                    <View style={styles.backButtonInner}>
+                      <Icon name="tune" size={22} color="#E8638B" />
+                      {hasActiveContextualFilters(contextualFilters) && (
+                        <View style={styles.filterBadge}>
+                          <View style={styles.filterBadgeDot} />
+                        </View>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                </View>
               </View>
             )}
 
@@ -944,6 +978,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   backButtonHero: {},
+  heroActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  shareButtonHero: {
+    marginRight: ModernSpacing.sm,
+  },
   filterButtonHero: {},
   backButtonInner: {
     width: 44,
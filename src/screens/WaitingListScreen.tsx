@@ -15,28 +15,50 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import WaitlistService, { CachedWaitlistEntry } from '../services/waitlistService';
 import ActivityService from '../services/activityService';
-import { Activity } from '../types';
+import childFavoritesService, { ChildWaitlistEntry, WaitlistAlert } from '../services/childFavoritesService';
 import { ModernColors, ModernSpacing, ModernTypography, ModernBorderRadius, ModernShadows } from '../theme/modernTheme';
 import { formatActivityPrice } from '../utils/formatters';
 import useWaitlistSubscription from '../hooks/useWaitlistSubscription';
-import { useAppSelector } from '../store';
+import { useAppSelector, useAppDispatch } from '../store';
 import { selectIsPremium } from '../store/slices/subscriptionSlice';
+import { selectAllChildren } from '../store/slices/childrenSlice';
+import { leaveChildWaitlist } from '../store/slices/childFavoritesSlice';
+
+// Child waitlist entries carry queue and alert details; account-level entries don't
+type WaitingListEntry = CachedWaitlistEntry &
+  Partial<Pick<ChildWaitlistEntry, 'childId' | 'childName' | 'status' | 'holdExpiresAt' | 'queuePosition' | 'alerts'>>;
+
+const ALERT_CHANNEL_LABELS: Record<WaitlistAlert['channel'], string> = {
+  push: 'Push',
+  email: 'Email',
+};
 
 const WaitingListScreen: React.FC = () => {
   const navigation = useNavigation<any>();
+  const dispatch = useAppDispatch();
   const waitlistService = WaitlistService.getInstance();
   const activityService = ActivityService.getInstance();
   const isPremium = useAppSelector(selectIsPremium);
+  const children = useAppSelector(selectAllChildren);
   const { waitlistLimit, syncWaitlistCount } = useWaitlistSubscription();
 
-  const [entries, setEntries] = useState<CachedWaitlistEntry[]>([]);
+  const [entries, setEntries] = useState<WaitingListEntry[]>([]);
+  const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadWaitlist = async (forceRefresh: boolean = false) => {
     try {
-      const waitlistEntries = await waitlistService.getWaitlist(forceRefresh);
-      setEntries(waitlistEntries);
+      if (children.length > 0) {
+        const childEntries = await childFavoritesService.getWaitlistForChildren(children.map(c => c.id));
+        setEntries(childEntries.map(entry => ({
+          ...entry,
+          hasAvailability: (entry.activity?.spotsAvailable ?? 0) > 0,
+        })));
+      } else {
+        const waitlistEntries = await waitlistService.getWaitlist(forceRefresh);
+        setEntries(waitlistEntries);
+      }
     } catch (error) {
       console.error('[WaitingListScreen] Error loading waitlist:', error);
     } finally {
@@ -48,7 +70,8 @@ const WaitingListScreen: React.FC = () => {
   useFocusEffect(
     useCallback(() => {
       loadWaitlist(true);
-    }, [])
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [children.length])
   );
 
   const handleRefresh = () => {
@@ -56,19 +79,27 @@ const WaitingListScreen: React.FC = () => {
     loadWaitlist(true);
   };
 
-  const handleRemove = async (activityId: string) => {
+  const handleRemove = async (entry: WaitingListEntry) => {
     Alert.alert(
       'Remove from Waiting List',
-      'Are you sure you want to remove this activity from your waiting list?',
+      entry.childName
+        ? `Remove ${entry.childName} from the waiting list for this activity?`
+        : 'Are you sure you want to remove this activity from your waiting list?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Remove',
           style: 'destructive',
           onPress: async () => {
-            const result = await waitlistService.leaveWaitlist(activityId);
+            if (entry.childId) {
+              await dispatch(leaveChildWaitlist({ childId: entry.childId, activityId: entry.activityId }));
+              setEntries(entries.filter(e => e.id !== entry.id));
+              return;
+            }
+
+            const result = await waitlistService.leaveWaitlist(entry.activityId);
             if (result.success) {
-              setEntries(entries.filter(e => e.activityId !== activityId));
+              setEntries(entries.filter(e => e.activityId !== entry.activityId));
               syncWaitlistCount();
             } else {
               Alert.alert('Error', result.message || 'Failed to remove from waitlist');
@@ -79,7 +110,19 @@ const WaitingListScreen: React.FC = () => {
     );
   };
 
-  const handleActivityPress = async (entry: CachedWaitlistEntry) => {
+  const toggleHistory = (entryId: string) => {
+    setExpandedHistory(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const handleActivityPress = async (entry: WaitingListEntry) => {
     try {
       const activity = await activityService.getActivityDetails(entry.activityId);
       if (activity) {
@@ -93,7 +136,7 @@ const WaitingListScreen: React.FC = () => {
     }
   };
 
-  const handleRegister = (entry: CachedWaitlistEntry) => {
+  const handleRegister = (entry: WaitingListEntry) => {
     // Try to open registration URL if we have it
     const url = entry.activity?.directRegistrationUrl || entry.activity?.registrationUrl;
     if (url) {
@@ -115,6 +158,57 @@ const WaitingListScreen: React.FC = () => {
     });
   };
 
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const getQueueText = (item: WaitingListEntry): string | null => {
+    if (item.status === 'notified' && item.holdExpiresAt && new Date(item.holdExpiresAt) > new Date()) {
+      return `Your place is held until ${formatTime(item.holdExpiresAt)}`;
+    }
+    if (item.status === 'notified') {
+      return 'Alerted - waiting for the activity to fill up again';
+    }
+    if (item.queuePosition) {
+      return item.queuePosition === 1 ? 'Next in line' : `#${item.queuePosition} in line`;
+    }
+    return null;
+  };
+
+  const renderAlertHistory = (item: WaitingListEntry) => {
+    const alerts = item.alerts || [];
+    if (alerts.length === 0) {
+      return null;
+    }
+
+    const isExpanded = expandedHistory.has(item.id);
+
+    return (
+      <View style={styles.historyContainer}>
+        <TouchableOpacity style={styles.historyToggle} onPress={() => toggleHistory(item.id)}>
+          <Icon name="history" size={14} color={ModernColors.textSecondary} />
+          <Text style={styles.historyToggleText}>
+            Alert history ({alerts.length})
+          </Text>
+          <Icon name={isExpanded ? 'chevron-up' : 'chevron-down'} size={16} color={ModernColors.textSecondary} />
+        </TouchableOpacity>
+        {isExpanded && alerts.map(alert => (
+          <View key={alert.id} style={styles.historyRow}>
+            <Icon
+              name={alert.status === 'sent' ? 'check-circle-outline' : 'alert-circle-outline'}
+              size={14}
+              color={alert.status === 'sent' ? '#22C55E' : ModernColors.error}
+            />
+            <Text style={styles.historyText}>
+              {ALERT_CHANNEL_LABELS[alert.channel] || alert.channel} {alert.status === 'sent' ? 'sent' : 'failed'}
+              {' · '}{formatDate(alert.sentAt)} {formatTime(alert.sentAt)}
+              {alert.spotsAvailable !== null && ` · ${alert.spotsAvailable} ${alert.spotsAvailable === 1 ? 'spot' : 'spots'}`}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const availableCount = entries.filter(e => e.hasAvailability).length;
 
   const renderEmptyState = () => (
@@ -136,7 +230,7 @@ const WaitingListScreen: React.FC = () => {
     </View>
   );
 
-  const renderEntry = ({ item }: { item: CachedWaitlistEntry }) => (
+  const renderEntry = ({ item }: { item: WaitingListEntry }) => (
     <TouchableOpacity
       style={[
         styles.entryCard,
@@ -158,6 +252,9 @@ const WaitingListScreen: React.FC = () => {
             <Text style={styles.entryName} numberOfLines={2}>
               {item.activity?.name || 'Unknown Activity'}
             </Text>
+            {!!item.childName && (
+              <Text style={styles.entryChild} numberOfLines={1}>For {item.childName}</Text>
+            )}
             {item.activity?.provider && (
               <Text style={styles.entryProvider} numberOfLines={1}>
                 {typeof item.activity.provider === 'string' ? item.activity.provider : (item.activity.provider as any)?.name || ''}
@@ -167,7 +264,7 @@ const WaitingListScreen: React.FC = () => {
           <View style={styles.entryActions}>
             <TouchableOpacity
               style={styles.removeButton}
-              onPress={() => handleRemove(item.activityId)}
+              onPress={() => handleRemove(item)}
             >
               <Icon name="bell-off" size={20} color={ModernColors.textSecondary} />
             </TouchableOpacity>
@@ -197,8 +294,16 @@ const WaitingListScreen: React.FC = () => {
               </Text>
             </View>
           )}
+          {!!getQueueText(item) && (
+            <View style={styles.detailRow}>
+              <Icon name="format-list-numbered" size={14} color={ModernColors.textSecondary} />
+              <Text style={styles.detailText}>{getQueueText(item)}</Text>
+            </View>
+          )}
         </View>
 
+        {renderAlertHistory(item)}
+
         <View style={styles.entryFooter}>
           {item.hasAvailability ? (
             <TouchableOpacity
@@ -216,12 +321,14 @@ const WaitingListScreen: React.FC = () => {
           )}
 
           <View style={styles.spotsInfo}>
-            {item.activity?.spotsAvailable !== undefined && (
+            {item.activity?.spotsAvailable !== undefined && item.activity.spotsAvailable !== null && (
               <Text style={[
                 styles.spotsText,
                 item.hasAvailability && styles.spotsTextAvailable,
               ]}>
-                {item.activity.spotsAvailable} spots
+                {item.activity.totalSpots
+                  ? `${item.activity.spotsAvailable} of ${item.activity.totalSpots} spots`
+                  : `${item.activity.spotsAvailable} spots`}
               </Text>
             )}
           </View>
@@ -426,6 +533,12 @@ const styles = StyleSheet.create({
     color: ModernColors.text,
     marginBottom: 4,
   },
+  entryChild: {
+    fontSize: ModernTypography.sizes.sm,
+    fontWeight: '600',
+    color: ModernColors.primary,
+    marginBottom: 2,
+  },
   entryProvider: {
     fontSize: ModernTypography.sizes.sm,
     color: ModernColors.textSecondary,
@@ -456,6 +569,30 @@ const styles = StyleSheet.create({
     marginLeft: ModernSpacing.sm,
     flex: 1,
   },
+  historyContainer: {
+    marginBottom: ModernSpacing.md,
+  },
+  historyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyToggleText: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginHorizontal: ModernSpacing.xs,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    paddingLeft: ModernSpacing.md,
+  },
+  historyText: {
+    fontSize: ModernTypography.sizes.xs,
+    color: ModernColors.textSecondary,
+    marginLeft: ModernSpacing.xs,
+    flex: 1,
+  },
   entryFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
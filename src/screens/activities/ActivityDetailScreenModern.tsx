@@ -18,7 +18,7 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
 import LinearGradient from 'react-native-linear-gradient';
-import { Activity } from '../../types';
+import { Activity, ActivityChange, ActivityTrends } from '../../types';
 import { useAppDispatch, useAppSelector } from '../../store';
 import { fetchActivityChildren } from '../../store/slices/childActivitiesSlice';
 import ActivityService from '../../services/activityService';
@@ -31,6 +31,7 @@ import UpgradePromptModal from '../../components/UpgradePromptModal';
 import RegisterChildModal from '../../components/activities/RegisterChildModal';
 import ChildActivityStatus from '../../components/activities/ChildActivityStatus';
 import AssignActivityToChildModal from '../../components/activities/AssignActivityToChildModal';
+import AvailabilityTrend from '../../components/activities/AvailabilityTrend';
 import { formatActivityPrice, cleanActivityName } from '../../utils/formatters';
 import { geocodeAddressWithCache, getFullAddress } from '../../utils/geocoding';
 import { shareActivity, shareActivityViaEmail } from '../../utils/sharing';
@@ -42,6 +43,16 @@ import { ActivityExplanation } from '../../components/ai/ActivityExplanation';
 const { width, height } = Dimensions.get('window');
 const activityService = ActivityService.getInstance();
 
+const CHANGES_PREVIEW_COUNT = 3;
+
+const CHANGE_ICONS: Record<ActivityChange['kind'], string> = {
+  price: 'tag-outline',
+  capacity: 'account-group-outline',
+  schedule: 'calendar-clock',
+  instructor: 'account-tie',
+  status: 'clipboard-check-outline',
+};
+
 const ActivityDetailScreenModern = () => {
   const route = useRoute();
   const navigation = useNavigation();
@@ -71,6 +82,9 @@ const ActivityDetailScreenModern = () => {
   const [fetchingDetails, setFetchingDetails] = useState(true);
   const [loadingFromDeepLink, setLoadingFromDeepLink] = useState(false);
   const [deepLinkError, setDeepLinkError] = useState<string | null>(null);
+  const [changes, setChanges] = useState<ActivityChange[]>([]);
+  const [showAllChanges, setShowAllChanges] = useState(false);
+  const [trends, setTrends] = useState<ActivityTrends | null>(null);
   const mapRef = React.useRef<MapView>(null);
   const { user } = useAppSelector((state) => state.auth);
 
@@ -113,6 +127,23 @@ const ActivityDetailScreenModern = () => {
     fetchActivityFromDeepLink();
   }, [activityIdFromDeepLink, serializedActivity]);
 
+  // Load the "what changed" timeline and availability trends
+  const historyActivityId = serializedActivity?.id || activityIdFromDeepLink;
+  useEffect(() => {
+    if (!historyActivityId) return;
+    let cancelled = false;
+    setShowAllChanges(false);
+    activityService.getActivityHistory(historyActivityId).then((history) => {
+      if (!cancelled) setChanges(history);
+    });
+    activityService.getActivityTrends(historyActivityId).then((result) => {
+      if (!cancelled) setTrends(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyActivityId]);
+
   // Show loading state for deep links
   if (loadingFromDeepLink) {
     return (
@@ -333,6 +364,16 @@ const ActivityDetailScreenModern = () => {
     });
   };
 
+  const formatChangeDate = (changedAt: string) => {
+    const date = new Date(changedAt);
+    // Only include the year for changes from a previous year
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(date.getFullYear() !== new Date().getFullYear() && { year: 'numeric' }),
+    });
+  };
+
   const formatDateRange = (startDate: Date, endDate: Date): string => {
     // Check if dates are the same (single-day activity)
     const isSameDay = startDate.getFullYear() === endDate.getFullYear() &&
@@ -1070,6 +1111,37 @@ const ActivityDetailScreenModern = () => {
             </View>
           )}
 
+          {/* Availability trend */}
+          {!!trends && (!!trends.projection.message || trends.points.filter(p => p.spotsAvailable !== null).length >= 2) && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Availability</Text>
+              <AvailabilityTrend trends={trends} />
+            </View>
+          )}
+
+          {/* Changes */}
+          {changes.length > 0 && (
+            <View style={styles.sectionCard}>
+              <Text style={styles.sectionTitle}>Changes</Text>
+              {(showAllChanges ? changes : changes.slice(0, CHANGES_PREVIEW_COUNT)).map((change, index) => (
+                <View key={change.id} style={[styles.changeItem, index > 0 && styles.sessionBorder]}>
+                  <Icon name={CHANGE_ICONS[change.kind]} size={18} color={ModernColors.primary} />
+                  <View style={styles.changeTextContainer}>
+                    <Text style={styles.changeSummary}>{change.summary}</Text>
+                    <Text style={styles.changeDate}>on {formatChangeDate(change.changedAt)}</Text>
+                  </View>
+                </View>
+              ))}
+              {changes.length > CHANGES_PREVIEW_COUNT && (
+                <TouchableOpacity onPress={() => setShowAllChanges(!showAllChanges)}>
+                  <Text style={styles.changesToggle}>
+                    {showAllChanges ? 'Show fewer' : `Show all ${changes.length} changes`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
           {/* Requirements */}
           {!!(activity.prerequisites || activity.whatToBring || activity.requiredExtras) && (
             <View style={styles.sectionCard}>
@@ -1726,6 +1798,30 @@ const styles = StyleSheet.create({
     color: ModernColors.textSecondary,
     marginLeft: 4,
   },
+  changeItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: ModernSpacing.sm,
+  },
+  changeTextContainer: {
+    flex: 1,
+    marginLeft: ModernSpacing.sm,
+  },
+  changeSummary: {
+    fontSize: ModernTypography.sizes.base,
+    color: ModernColors.text,
+  },
+  changeDate: {
+    fontSize: ModernTypography.sizes.sm,
+    color: ModernColors.textSecondary,
+    marginTop: 2,
+  },
+  changesToggle: {
+    fontSize: ModernTypography.sizes.sm,
+    fontWeight: '600',
+    color: ModernColors.primary,
+    marginTop: ModernSpacing.sm,
+  },
   requirementSection: {
     marginBottom: ModernSpacing.md,
   },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -14,7 +14,9 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { SkillProgressCard, SkillProgress } from '../../components/skills';
 import { Colors, Theme } from '../../theme';
 import { API_CONFIG } from '../../config/api';
+import { getTwoFactorHeaders } from '../../utils/secureStorage';
 import { useAppSelector } from '../../store';
+import attendanceService, { ChildAttendance } from '../../services/attendanceService';
 
 interface Child {
   id: string;
@@ -29,15 +31,21 @@ const ChildProgressScreen = () => {
   const { token } = useAppSelector((state) => state.auth);
 
   const [skills, setSkills] = useState<SkillProgress[]>([]);
+  const [attendance, setAttendance] = useState<ChildAttendance | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadSkills();
+  const loadAttendance = useCallback(async () => {
+    try {
+      setAttendance(await attendanceService.getChildAttendance(child.id));
+    } catch {
+      // Attendance is supplementary; skills still render without it
+      setAttendance(null);
+    }
   }, [child.id]);
 
-  const loadSkills = async () => {
+  const loadSkills = useCallback(async () => {
     try {
       setError(null);
       const response = await fetch(
@@ -45,6 +53,7 @@ const ChildProgressScreen = () => {
         {
           headers: {
             'Authorization': `Bearer ${token}`,
+            ...getTwoFactorHeaders(),
             'Content-Type': 'application/json',
           },
         }
@@ -63,11 +72,17 @@ const ChildProgressScreen = () => {
       setLoading(false);
       setRefreshing(false);
     }
-  };
+  }, [child.id, token]);
+
+  useEffect(() => {
+    loadSkills();
+    loadAttendance();
+  }, [loadSkills, loadAttendance]);
 
   const handleRefresh = () => {
     setRefreshing(true);
     loadSkills();
+    loadAttendance();
   };
 
   const getTotalStats = () => {
@@ -155,6 +170,55 @@ const ChildProgressScreen = () => {
           </View>
         </View>
 
+        {/* Attendance Card */}
+        {attendance && attendance.summary.total > 0 && (
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>Attendance</Text>
+            <View style={styles.summaryStats}>
+              <View style={styles.summaryStat}>
+                <View style={[styles.summaryIcon, { backgroundColor: Colors.success + '20' }]}>
+                  <Icon name="calendar-check" size={24} color={Colors.success} />
+                </View>
+                <Text style={styles.summaryValue}>
+                  {attendance.summary.rate === null ? '–' : `${Math.round(attendance.summary.rate * 100)}%`}
+                </Text>
+                <Text style={styles.summaryLabel}>Attended</Text>
+              </View>
+              <View style={styles.summaryStat}>
+                <View style={[styles.summaryIcon, { backgroundColor: Colors.error + '20' }]}>
+                  <Icon name="fire" size={24} color={Colors.error} />
+                </View>
+                <Text style={styles.summaryValue}>{attendance.summary.currentStreak}</Text>
+                <Text style={styles.summaryLabel}>Streak</Text>
+              </View>
+              <View style={styles.summaryStat}>
+                <View style={[styles.summaryIcon, { backgroundColor: Colors.warning + '20' }]}>
+                  <Icon name="medal" size={24} color={Colors.warning} />
+                </View>
+                <Text style={styles.summaryValue}>{attendance.summary.longestStreak}</Text>
+                <Text style={styles.summaryLabel}>Best Streak</Text>
+              </View>
+              <View style={styles.summaryStat}>
+                <View style={[styles.summaryIcon, { backgroundColor: Colors.secondary + '20' }]}>
+                  <Icon name="calendar-remove" size={24} color={Colors.secondary} />
+                </View>
+                <Text style={styles.summaryValue}>{attendance.summary.missed}</Text>
+                <Text style={styles.summaryLabel}>Missed</Text>
+              </View>
+            </View>
+
+            {attendance.activities.map((item) => (
+              <View key={item.activityId} style={styles.attendanceRow}>
+                <Text style={styles.attendanceActivity} numberOfLines={1}>{item.activityName}</Text>
+                <Text style={styles.attendanceDetail}>
+                  {item.summary.attended + item.summary.makeup}/{item.summary.attended + item.summary.makeup + item.summary.missed} sessions
+                  {item.summary.currentStreak > 1 ? ` · ${item.summary.currentStreak} in a row` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Error State */}
         {error && (
           <View style={styles.errorContainer}>
@@ -305,6 +369,25 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2,
   },
+  attendanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  attendanceActivity: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    marginRight: 12,
+  },
+  attendanceDetail: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
   errorContainer: {
     alignItems: 'center',
     paddingVertical: 40,
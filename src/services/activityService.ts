@@ -2,11 +2,13 @@ import DebugLogger from '../utils/debugLogger';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import { Platform } from 'react-native';
-import { Activity, Filter } from '../types';
+import { Activity, ActivityChange, ActivityTrends, Filter } from '../types';
 import { API_CONFIG } from '../config/api';
 import { PaginatedResponse, ActivitySearchParams } from '../types/api';
 import * as SecureStore from '../utils/secureStorage';
+import { getDeviceName } from '../utils/deviceName';
 import { locationService } from './locationService';
+import { firebaseAuthService } from './firebaseAuthService';
 import { MergedChildFilters } from './childPreferencesService';
 import { ChildWithPreferences } from '../store/slices/childrenSlice';
 
@@ -635,6 +637,7 @@ class ActivityService {
     // Contextual filters (from baseParams) take precedence over child preferences
     const params: any = {
       ...baseParams,
+      childIds: child.id, // Hide what this child was marked not interested in
     };
 
     // Add location - prefer coordinates, fall back to city name
@@ -728,16 +731,21 @@ class ActivityService {
    * When mergedFilters are provided, they override user-level preferences
    */
   private applyChildFilters(params: any, childFilters?: ChildBasedFilterParams): any {
+    // Let the server hide what the selected children were marked not interested in
+    const baseParams = childFilters?.selectedChildIds?.length
+      ? { ...params, childIds: childFilters.selectedChildIds.join(','), filterMode: childFilters.filterMode }
+      : params;
+
     if (!childFilters?.mergedFilters) {
       // Even without mergedFilters, try to extract location from children directly
       if (childFilters?.children && childFilters.children.length > 0) {
-        return this.applyChildLocationFallback(params, childFilters.children);
+        return this.applyChildLocationFallback(baseParams, childFilters.children);
       }
-      return params;
+      return baseParams;
     }
 
     const merged = childFilters.mergedFilters;
-    const updatedParams = { ...params };
+    const updatedParams = { ...baseParams };
 
     console.log('👶 [ActivityService] Applying child-based filters:', {
       filterMode: childFilters.filterMode,
@@ -885,6 +893,28 @@ class ActivityService {
     }
   }
 
+  /**
+   * Auth headers for searches that pass childIds. The server only hides a
+   * child's "not interested" dismissals for signed-in requests.
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    try {
+      const token = await Promise.race([
+        firebaseAuthService.getIdToken(),
+        new Promise<null>((resolve) => setTimeout(() => resolve(null), 2000)),
+      ]);
+      if (!token) return {};
+      return {
+        'Authorization': `Bearer ${token}`,
+        'X-Device-Name': getDeviceName(),
+        ...SecureStore.getTwoFactorHeaders(),
+      };
+    } catch (error) {
+      console.warn('[ActivityService] Token fetch failed, searching without auth:', error);
+      return {};
+    }
+  }
+
   /**
    * Native fetch helper - more reliable than axios in React Native
    */
@@ -924,6 +954,7 @@ class ActivityService {
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
+        ...(params?.childIds ? await this.getAuthHeaders() : {}),
       },
     };
 
@@ -1424,6 +1455,7 @@ class ActivityService {
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json',
+          ...(apiParams.childIds ? await this.getAuthHeaders() : {}),
         },
       });
 
@@ -1609,6 +1641,45 @@ class ActivityService {
     }
   }
 
+  /**
+   * Get the timeline of price, capacity, schedule, instructor and status changes for an activity
+   */
+  async getActivityHistory(activityId: string): Promise<ActivityChange[]> {
+    try {
+      const response = await this.nativeFetch(`${API_CONFIG.ENDPOINTS.ACTIVITY_DETAILS}/${activityId}/history`);
+
+      if (response.data?.success && Array.isArray(response.data.changes)) {
+        return response.data.changes;
+      }
+
+      return [];
+    } catch (error: any) {
+      console.error('Error fetching activity history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get daily spots available and price for an activity, plus when it's projected to fill up
+   */
+  async getActivityTrends(activityId: string, days: number = 90): Promise<ActivityTrends | null> {
+    try {
+      const response = await this.nativeFetch(`${API_CONFIG.ENDPOINTS.ACTIVITY_DETAILS}/${activityId}/trends`, {
+        params: { days },
+      });
+
+      if (response.data?.success) {
+        const { activityId: id, days: range, totalSpots, points, projection } = response.data;
+        return { activityId: id, days: range, totalSpots, points, projection };
+      }
+
+      return null;
+    } catch (error: any) {
+      console.error('Error fetching activity trends:', error);
+      return null;
+    }
+  }
+
   /**
    * Get user's favorite activities
    */
@@ -1785,6 +1856,22 @@ class ActivityService {
     }
   }
 
+  /**
+   * Get a single venue (for venue links). The venue comes back with its
+   * activities, so only one is requested.
+   */
+  async getVenue(venueId: string): Promise<any | null> {
+    try {
+      const response = await this.nativeFetch(`/api/v1/locations/${encodeURIComponent(venueId)}/activities`, {
+        params: { limit: 1 },
+      });
+      return response.data?.success ? response.data.venue : null;
+    } catch (error) {
+      console.error('Error fetching venue:', error);
+      return null;
+    }
+  }
+
   async getLocations(): Promise<any[]> {
     try {
       const response = await this.nativeFetch(API_CONFIG.ENDPOINTS.LOCATIONS);
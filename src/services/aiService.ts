@@ -3,6 +3,7 @@ import { firebaseAuthService } from './firebaseAuthService';
 import {
   AIRecommendationRequest,
   AIRecommendationResponse,
+  AIRecommendationFeedbackEvent,
   AIHealthStatus,
   ParseSearchResponse,
   ExplainActivityResponse,
@@ -39,6 +40,47 @@ export interface ChatResponse {
   latencyMs: number;
 }
 
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  preview: string | null;
+  turnsUsed: number;
+  messageCount: number;
+  lastMessageAt: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface ConversationDetail {
+  id: string;
+  title: string | null;
+  turnsUsed: number;
+  turnsRemaining: number;
+  messages: Array<{
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    activities: any[] | null;
+    toolsUsed: string[];
+    createdAt: string;
+  }>;
+  lastMessageAt: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/**
+ * Callbacks for incremental chat rendering while a streamed reply arrives
+ */
+export interface ChatStreamHandlers {
+  /** Progress updates such as "Searching activities…" */
+  onStatus?: (message: string, tool?: string) => void;
+  /** Text tokens of the reply, in order */
+  onToken?: (text: string) => void;
+  /** Activity cards as soon as a search resolves */
+  onActivities?: (activities: any[]) => void;
+}
+
 export interface ChatQuota {
   allowed: boolean;
   isPro: boolean;
@@ -138,6 +180,28 @@ class AIService {
     }
   }
   
+  /**
+   * Report what the user did with a recommendation, so ranking can learn from it.
+   * Best effort: failures are logged and otherwise ignored.
+   */
+  async sendRecommendationFeedback(
+    requestId: string,
+    activityId: string,
+    event: AIRecommendationFeedbackEvent,
+    childId?: string
+  ): Promise<void> {
+    try {
+      await apiClient.post('/api/v1/ai/recommendations/feedback', {
+        request_id: requestId,
+        activity_id: activityId,
+        event,
+        child_id: childId,
+      });
+    } catch (error) {
+      console.warn('[AIService] Failed to send recommendation feedback:', error);
+    }
+  }
+
   /**
    * Check AI service health
    */
@@ -483,6 +547,92 @@ class AIService {
     }
   }
 
+  /**
+   * Send a chat message and stream the reply as it is generated.
+   *
+   * Handlers fire as the server reports progress; the promise resolves with
+   * the same response chat() returns once the turn completes.
+   */
+  async chatStream(
+    message: string,
+    conversationId: string | undefined,
+    childIds: string[] | undefined,
+    filterMode: 'or' | 'and',
+    handlers: ChatStreamHandlers,
+    retryCount: number = 0
+  ): Promise<ChatResponse> {
+    let finalResponse: ChatResponse | null = null;
+    let streamError: string | null = null;
+
+    try {
+      await apiClient.postEventStream(
+        '/api/v1/ai/chat',
+        {
+          message,
+          conversationId,
+          childIds,
+          filterMode,
+          childSelectionMode: childIds?.length ? 'manual' : 'auto',
+          stream: true,
+        },
+        ({ event, data }) => {
+          let payload: any;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            return;
+          }
+
+          switch (event) {
+            case 'status':
+              handlers.onStatus?.(payload.message, payload.tool);
+              break;
+            case 'token':
+              handlers.onToken?.(payload.text);
+              break;
+            case 'activities':
+              handlers.onActivities?.(payload.activities || []);
+              break;
+            case 'done':
+              finalResponse = payload.response;
+              break;
+            case 'error':
+              streamError = payload.error;
+              break;
+          }
+        },
+        { timeout: 90000 } // Streaming keeps the connection open for the whole turn
+      );
+    } catch (error: any) {
+      console.error('[AIService] Chat stream error:', error);
+
+      if (error?.response?.status === 429) {
+        const data = error.response.data;
+        throw new Error(data?.message || 'AI quota exceeded. Please upgrade to Pro for more queries.');
+      }
+
+      // Same auth timing retry as chat()
+      if (error?.response?.status === 401 && retryCount < 2) {
+        try {
+          await firebaseAuthService.getIdToken(true);
+        } catch (tokenError) {
+          console.warn('[AIService] Token refresh failed:', tokenError);
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return this.chatStream(message, conversationId, childIds, filterMode, handlers, retryCount + 1);
+      }
+
+      throw new Error('Something went wrong. Please try again.');
+    }
+
+    if (streamError || !finalResponse) {
+      console.error('[AIService] Chat stream ended without a response:', streamError);
+      throw new Error('Something went wrong. Please try again.');
+    }
+
+    return finalResponse;
+  }
+
   /**
    * Get user's AI quota status
    */
@@ -505,14 +655,42 @@ class AIService {
   }
 
   /**
-   * Clear/end a conversation
+   * List saved conversations, most recent first
    */
-  async endConversation(conversationId: string): Promise<void> {
-    try {
-      await apiClient.delete(`/api/v1/ai/chat/${conversationId}`);
-    } catch (error) {
-      console.error('[AIService] Error ending conversation:', error);
-    }
+  async listConversations(limit: number = 20, offset: number = 0): Promise<{
+    conversations: ConversationSummary[];
+    total: number;
+    retentionDays: number;
+  }> {
+    return apiClient.get('/api/v1/ai/chat/conversations', { params: { limit, offset } });
+  }
+
+  /**
+   * Get a saved conversation with its messages
+   */
+  async getConversation(conversationId: string): Promise<ConversationDetail> {
+    const response = await apiClient.get<{ conversation: ConversationDetail }>(
+      `/api/v1/ai/chat/conversations/${conversationId}`
+    );
+    return response.conversation;
+  }
+
+  /**
+   * Rename a saved conversation
+   */
+  async renameConversation(conversationId: string, title: string): Promise<ConversationSummary> {
+    const response = await apiClient.patch<{ conversation: ConversationSummary }>(
+      `/api/v1/ai/chat/conversations/${conversationId}`,
+      { title }
+    );
+    return response.conversation;
+  }
+
+  /**
+   * Delete a saved conversation and its history
+   */
+  async deleteConversation(conversationId: string): Promise<void> {
+    await apiClient.delete(`/api/v1/ai/chat/conversations/${conversationId}`);
   }
 }
 
@@ -1,7 +1,10 @@
 import { API_CONFIG } from '../config/api';
 import { store } from '../store';
-import { clearAuth } from '../store/slices/authSlice';
+import { clearAuth, setTwoFactorRequired } from '../store/slices/authSlice';
+import { getTwoFactorHeaders } from '../utils/secureStorage';
+import { getDeviceName } from '../utils/deviceName';
 import { firebaseAuthService } from './firebaseAuthService';
+import { parseSseBuffer, SseMessage } from '../utils/sseParser';
 
 /**
  * API Client using native fetch (more reliable in React Native than axios)
@@ -97,6 +100,8 @@ class ApiClient {
 
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
+      headers['X-Device-Name'] = getDeviceName();
+      Object.assign(headers, getTwoFactorHeaders());
     }
 
     // Build fetch options
@@ -120,6 +125,16 @@ class ApiClient {
       // Parse response
       const responseData = await response.json();
 
+      // This device was signed out from another one
+      if (response.status === 401 && responseData?.error === 'SESSION_REVOKED') {
+        firebaseAuthService.signOut().catch(() => {});
+      }
+
+      // Signed in, but this sign-in still needs a 2FA code
+      if (response.status === 403 && responseData?.error === 'TWO_FACTOR_REQUIRED') {
+        store.dispatch(setTwoFactorRequired(true));
+      }
+
       // Throw error for non-success status codes
       if (!response.ok) {
         const status = response.status;
@@ -171,6 +186,105 @@ class ApiClient {
   async delete<T>(url: string, config?: { params?: Record<string, any> }): Promise<T> {
     return this.request<T>('DELETE', url, undefined, config);
   }
+
+  /**
+   * POST and read a Server-Sent Events response as it arrives.
+   *
+   * Uses XMLHttpRequest because React Native's fetch buffers the whole body.
+   * Non-stream JSON error responses reject the same way request() does.
+   */
+  async postEventStream(
+    url: string,
+    data: any,
+    onMessage: (message: SseMessage) => void,
+    config?: { timeout?: number }
+  ): Promise<void> {
+    const fullUrl = url.startsWith('http') ? url : `${API_CONFIG.BASE_URL}${url}`;
+    const token = await this.getAuthToken();
+
+    console.log('[API] POST (stream)', url);
+
+    return new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      let processed = 0;
+      let buffer = '';
+
+      const isEventStream = () =>
+        (xhr.getResponseHeader('Content-Type') || '').includes('text/event-stream');
+
+      const drain = () => {
+        const chunk = xhr.responseText.slice(processed);
+        processed = xhr.responseText.length;
+        if (!chunk) return;
+
+        const { messages, remainder } = parseSseBuffer(buffer + chunk);
+        buffer = remainder;
+        messages.forEach(onMessage);
+      };
+
+      xhr.open('POST', fullUrl);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        Object.entries(getTwoFactorHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      }
+      xhr.timeout = config?.timeout ?? 0;
+
+      xhr.onprogress = () => {
+        if (xhr.status >= 200 && xhr.status < 300 && isEventStream()) {
+          drain();
+        }
+      };
+
+      xhr.onload = () => {
+        console.log('[API] POST (stream)', url, 'response:', xhr.status);
+
+        if (xhr.status === 401) {
+          this.handle401(url);
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300 && isEventStream()) {
+          drain();
+          // Flush a final message that wasn't followed by a blank line
+          if (buffer.trim()) {
+            parseSseBuffer(`${buffer}\n\n`).messages.forEach(onMessage);
+          }
+          resolve();
+          return;
+        }
+
+        let responseData: any = null;
+        try {
+          responseData = JSON.parse(xhr.responseText);
+        } catch {
+          // Not JSON - fall through with null
+        }
+
+        // Server answered with plain JSON (e.g. streaming unsupported)
+        if (xhr.status >= 200 && xhr.status < 300) {
+          onMessage({ event: 'done', data: JSON.stringify({ response: responseData }) });
+          resolve();
+          return;
+        }
+
+        const error: any = new Error(responseData?.error || responseData?.message || `HTTP ${xhr.status}`);
+        error.response = { status: xhr.status, data: responseData };
+        reject(error);
+      };
+
+      xhr.onerror = () => {
+        console.error('[API] POST (stream)', url, 'network error');
+        reject(new Error('Network request failed'));
+      };
+
+      xhr.ontimeout = () => {
+        reject(new Error('Request timed out'));
+      };
+
+      xhr.send(JSON.stringify(data));
+    });
+  }
 }
 
 export default ApiClient.getInstance();
@@ -0,0 +1,170 @@
+/**
+ * Attendance service
+ * Per-session check-ins for a child's registered activities. Attended and
+ * makeup sessions count toward the child's skill hours on the server.
+ */
+import apiClient from './apiClient';
+
+export type AttendanceStatus = 'attended' | 'missed' | 'cancelled' | 'makeup';
+
+export interface AttendanceRecord {
+  id: string;
+  childActivityId: string;
+  childId: string;
+  activityId: string;
+  sessionId: string | null;
+  date: string;
+  status: AttendanceStatus;
+  durationMinutes: number | null;
+  notes: string | null;
+  activityName?: string;
+}
+
+export interface AttendanceSummary {
+  total: number;
+  attended: number;
+  missed: number;
+  cancelled: number;
+  makeup: number;
+  /** 0-1 share of held sessions attended; null before any are marked */
+  rate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  hours: number;
+}
+
+export interface ChildAttendance {
+  records: AttendanceRecord[];
+  summary: AttendanceSummary;
+  activities: {
+    activityId: string;
+    activityName: string;
+    summary: AttendanceSummary;
+  }[];
+}
+
+export interface AttendanceSession {
+  date: string;
+  sessionId: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  attendance: {
+    id: string;
+    status: AttendanceStatus;
+    notes: string | null;
+    durationMinutes: number | null;
+  } | null;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  attendance?: AttendanceRecord | AttendanceRecord[];
+  summary?: AttendanceSummary;
+  records?: AttendanceRecord[];
+  activities?: ChildAttendance['activities'];
+  sessions?: AttendanceSession[];
+}
+
+const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.error || fallback;
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  attended: 'Attended',
+  missed: 'Missed',
+  cancelled: 'Cancelled',
+  makeup: 'Makeup',
+};
+
+class AttendanceService {
+  /**
+   * A child's attendance with rate and streaks, overall and per activity
+   */
+  async getChildAttendance(childId: string, activityId?: string): Promise<ChildAttendance> {
+    try {
+      const response = await apiClient.get<ApiResponse>(`/api/v1/children/${childId}/attendance`, {
+        params: activityId ? { activityId } : undefined,
+      });
+      return {
+        records: response.records || [],
+        summary: response.summary!,
+        activities: response.activities || [],
+      };
+    } catch (error: any) {
+      console.error('[AttendanceService] Error getting attendance:', error);
+      throw new Error(errorMessage(error, 'Failed to get attendance'));
+    }
+  }
+
+  /**
+   * Attendance for several children between two dates (yyyy-MM-dd)
+   */
+  async getAttendanceForChildren(childIds: string[], from: string, to: string): Promise<AttendanceRecord[]> {
+    if (childIds.length === 0) return [];
+
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/v1/children/attendance/multi', {
+        params: { childIds: childIds.join(','), from, to },
+      });
+      return (response.attendance as AttendanceRecord[]) || [];
+    } catch (error: any) {
+      console.error('[AttendanceService] Error getting attendance for children:', error);
+      return [];
+    }
+  }
+
+  /**
+   * An activity's sessions for a child with attendance marked
+   */
+  async getActivitySessions(childId: string, activityId: string): Promise<{
+    sessions: AttendanceSession[];
+    summary: AttendanceSummary;
+  }> {
+    try {
+      const response = await apiClient.get<ApiResponse>(
+        `/api/v1/children/${childId}/activities/${activityId}/attendance`
+      );
+      return { sessions: response.sessions || [], summary: response.summary! };
+    } catch (error: any) {
+      console.error('[AttendanceService] Error getting sessions:', error);
+      throw new Error(errorMessage(error, 'Failed to get sessions'));
+    }
+  }
+
+  /**
+   * Mark a session (yyyy-MM-dd) attended, missed, cancelled or makeup
+   */
+  async recordAttendance(
+    childId: string,
+    activityId: string,
+    date: string,
+    status: AttendanceStatus,
+    notes?: string
+  ): Promise<AttendanceRecord> {
+    try {
+      const response = await apiClient.put<ApiResponse>(
+        `/api/v1/children/${childId}/activities/${activityId}/attendance/${date}`,
+        { status, notes }
+      );
+      return response.attendance as AttendanceRecord;
+    } catch (error: any) {
+      console.error('[AttendanceService] Error recording attendance:', error);
+      throw new Error(errorMessage(error, 'Failed to record attendance'));
+    }
+  }
+
+  /**
+   * Clear a session's attendance
+   */
+  async clearAttendance(childId: string, activityId: string, date: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/v1/children/${childId}/activities/${activityId}/attendance/${date}`);
+    } catch (error: any) {
+      console.error('[AttendanceService] Error clearing attendance:', error);
+      throw new Error(errorMessage(error, 'Failed to clear attendance'));
+    }
+  }
+}
+
+export const attendanceService = new AttendanceService();
+export default attendanceService;
@@ -9,6 +9,8 @@
 import { API_CONFIG } from '../config/api';
 import { firebaseAuthService } from './firebaseAuthService';
 import { secureLog, secureError } from '../utils/secureLogger';
+import { getTwoFactorHeaders } from '../utils/secureStorage';
+import { getDeviceName } from '../utils/deviceName';
 
 export interface PostgresUser {
   id: string;
@@ -66,6 +68,8 @@ class AuthService {
 
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
+      headers['X-Device-Name'] = getDeviceName();
+      Object.assign(headers, getTwoFactorHeaders());
     }
 
     const fetchOptions: RequestInit = { method, headers };
@@ -95,7 +99,7 @@ class AuthService {
    * Sync Firebase user with PostgreSQL database
    * Called after Firebase login to ensure user exists in our database
    */
-  async syncUser(): Promise<{ success: boolean; user: PostgresUser }> {
+  async syncUser(): Promise<{ success: boolean; user: PostgresUser; twoFactorRequired?: boolean }> {
     try {
       secureLog('[AuthService] Syncing user with database...');
       const response = await this.authFetch(API_CONFIG.ENDPOINTS.AUTH.SYNC, { method: 'POST' });
@@ -7,9 +7,11 @@ import RNCalendarEvents, {
   CalendarEventWritable,
   RecurrenceRule,
 } from 'react-native-calendar-events';
-import { Platform, Alert, Share } from 'react-native';
+import { Platform, Alert, Share, Linking } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format, parseISO, addDays, addWeeks, addMonths, isValid } from 'date-fns';
 import { parseTimeString, DAY_MAP } from '../utils/calendarUtils';
+import apiClient from './apiClient';
 
 // Store event IDs for later deletion/update
 interface ExportedEvent {
@@ -19,8 +21,47 @@ interface ExportedEvent {
   calendarId: string;
 }
 
-// Simple in-memory store (could be replaced with AsyncStorage for persistence)
-let exportedEvents: ExportedEvent[] = [];
+const EXPORTED_EVENTS_KEY = '@calendar_exported_events';
+
+// Cached copy of the persisted event mapping (loaded lazily from AsyncStorage)
+let exportedEvents: ExportedEvent[] | null = null;
+
+async function loadExportedEvents(): Promise<ExportedEvent[]> {
+  if (exportedEvents) {
+    return exportedEvents;
+  }
+  try {
+    const stored = await AsyncStorage.getItem(EXPORTED_EVENTS_KEY);
+    exportedEvents = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('[CalendarExport] Failed to load exported events:', error);
+    exportedEvents = [];
+  }
+  return exportedEvents!;
+}
+
+async function saveExportedEvents(events: ExportedEvent[]): Promise<void> {
+  exportedEvents = events;
+  try {
+    await AsyncStorage.setItem(EXPORTED_EVENTS_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.error('[CalendarExport] Failed to persist exported events:', error);
+  }
+}
+
+/**
+ * Server-hosted iCalendar subscription feed
+ */
+export interface CalendarFeed {
+  id: string;
+  childId: string | null;
+  childName: string | null;
+  name: string | null;
+  url: string;
+  webcalUrl: string;
+  lastAccessedAt: string | null;
+  createdAt: string;
+}
 
 /**
  * Request calendar permission from the user
@@ -227,12 +268,16 @@ export async function exportActivityToCalendar(
     );
 
     // Store the mapping
-    exportedEvents.push({
-      activityId: activity.id,
-      childActivityId: activity.childActivityId,
-      nativeEventId: eventId,
-      calendarId: targetCalendarId,
-    });
+    const events = await loadExportedEvents();
+    await saveExportedEvents([
+      ...events,
+      {
+        activityId: activity.id,
+        childActivityId: activity.childActivityId,
+        nativeEventId: eventId,
+        calendarId: targetCalendarId,
+      },
+    ]);
 
     console.log('[CalendarExport] Exported event:', eventId);
     return eventId;
@@ -268,14 +313,15 @@ export async function exportActivitiesToCalendar(
  * Remove an exported event from the native calendar
  */
 export async function removeExportedEvent(childActivityId: string): Promise<boolean> {
-  const exported = exportedEvents.find(e => e.childActivityId === childActivityId);
+  const events = await loadExportedEvents();
+  const exported = events.find(e => e.childActivityId === childActivityId);
   if (!exported) {
     return false;
   }
 
   try {
     await RNCalendarEvents.removeEvent(exported.nativeEventId);
-    exportedEvents = exportedEvents.filter(e => e.childActivityId !== childActivityId);
+    await saveExportedEvents(events.filter(e => e.childActivityId !== childActivityId));
     return true;
   } catch (error) {
     console.error('[CalendarExport] Failed to remove event:', error);
@@ -387,6 +433,84 @@ export async function shareICSContent(
   }
 }
 
+/**
+ * Get the user's active calendar subscription feeds
+ */
+export async function getCalendarFeeds(): Promise<CalendarFeed[]> {
+  try {
+    const response = await apiClient.get<any>('/api/v1/child-activities/calendar/feeds');
+    return response?.feeds || [];
+  } catch (error) {
+    console.error('[CalendarExport] Failed to load calendar feeds:', error);
+    return [];
+  }
+}
+
+/**
+ * Get (or create) a subscription feed for the whole family, or one child
+ */
+export async function getOrCreateCalendarFeed(childId?: string): Promise<CalendarFeed | null> {
+  try {
+    const response = await apiClient.post<any>(
+      '/api/v1/child-activities/calendar/feeds',
+      childId ? { childId } : {}
+    );
+    return response?.feed || null;
+  } catch (error) {
+    console.error('[CalendarExport] Failed to create calendar feed:', error);
+    return null;
+  }
+}
+
+/**
+ * Replace a feed's secret URL (calendars subscribed to the old URL stop syncing)
+ */
+export async function rotateCalendarFeed(feedId: string): Promise<CalendarFeed | null> {
+  try {
+    const response = await apiClient.post<any>(`/api/v1/child-activities/calendar/feeds/${feedId}/rotate`);
+    return response?.feed || null;
+  } catch (error) {
+    console.error('[CalendarExport] Failed to rotate calendar feed:', error);
+    return null;
+  }
+}
+
+/**
+ * Revoke a feed so its URL no longer returns events
+ */
+export async function revokeCalendarFeed(feedId: string): Promise<boolean> {
+  try {
+    await apiClient.delete(`/api/v1/child-activities/calendar/feeds/${feedId}`);
+    return true;
+  } catch (error) {
+    console.error('[CalendarExport] Failed to revoke calendar feed:', error);
+    return false;
+  }
+}
+
+/**
+ * Open a feed in the device calendar app (webcal://), falling back to the share sheet
+ * so the URL can be pasted into Google Calendar or Outlook.
+ */
+export async function subscribeToCalendarFeed(feed: CalendarFeed): Promise<boolean> {
+  try {
+    const canOpen = await Linking.canOpenURL(feed.webcalUrl);
+    if (canOpen) {
+      await Linking.openURL(feed.webcalUrl);
+      return true;
+    }
+
+    await Share.share({
+      title: 'Subscribe to Kids Activities',
+      message: `Add this URL to your calendar app to keep activities in sync:\n${feed.url}`,
+    });
+    return true;
+  } catch (error) {
+    console.error('[CalendarExport] Subscribe failed:', error);
+    return false;
+  }
+}
+
 export default {
   requestCalendarPermission,
   checkCalendarPermission,
@@ -397,4 +521,9 @@ export default {
   removeExportedEvent,
   generateICSContent,
   shareICSContent,
+  getCalendarFeeds,
+  getOrCreateCalendarFeed,
+  rotateCalendarFeed,
+  revokeCalendarFeed,
+  subscribeToCalendarFeed,
 };
@@ -0,0 +1,203 @@
+/**
+ * Carpool service
+ * Driving rotations between families connected through activity sharing.
+ * The server suggests carpools from shared schedules, builds the weekly
+ * driver rotation and sends the driver a push reminder the day before.
+ */
+import apiClient from './apiClient';
+
+export type CarpoolStatus = 'proposed' | 'active' | 'cancelled';
+export type CarpoolMemberStatus = 'pending' | 'accepted' | 'declined';
+
+export interface CarpoolSuggestion {
+  matchType: 'same_activity' | 'same_location';
+  activityId: string;
+  activityName: string;
+  locationName: string | null;
+  familyUserId: string;
+  familyName: string;
+  children: {
+    childId: string;
+    childName: string;
+    familyUserId: string;
+    activityId: string;
+    activityName: string;
+  }[];
+  daysOfWeek: string[];
+  startTime: string;
+  nextDate: string;
+  sharedDates: number;
+}
+
+export interface CarpoolMember {
+  userId: string;
+  name: string;
+  status: CarpoolMemberStatus;
+  rotationOrder: number;
+  children: { id: string; name: string }[];
+}
+
+export interface CarpoolWeek {
+  weekStart: string;
+  driverUserId: string;
+  driverName: string;
+}
+
+export interface Carpool {
+  id: string;
+  name: string;
+  status: CarpoolStatus;
+  activity: {
+    id: string;
+    name: string;
+    locationName: string | null;
+    startTime: string | null;
+    endTime: string | null;
+  };
+  daysOfWeek: string[];
+  pickupTime: string | null;
+  notes: string | null;
+  startDate: string;
+  endDate: string | null;
+  isOrganizer: boolean;
+  myStatus: CarpoolMemberStatus;
+  members: CarpoolMember[];
+  upcoming: CarpoolWeek[];
+}
+
+export interface ProposeCarpoolInput {
+  activityId: string;
+  memberUserIds: string[];
+  childIds: string[];
+  daysOfWeek?: string[];
+  name?: string;
+  pickupTime?: string;
+  notes?: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  carpools?: Carpool[];
+  carpool?: Carpool;
+  suggestions?: CarpoolSuggestion[];
+}
+
+const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.error || fallback;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Who drives an activity's carpool on a date (yyyy-MM-dd), if it has an
+ * active carpool that rides that day
+ */
+export const getCarpoolDriverForDate = (
+  carpools: Carpool[],
+  activityId: string,
+  date: string
+): CarpoolWeek | null => {
+  const day = new Date(`${date}T00:00:00Z`);
+  if (isNaN(day.getTime())) return null;
+
+  const dayName = DAY_NAMES[day.getUTCDay()];
+  const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000);
+  const weekStart = monday.toISOString().slice(0, 10);
+
+  for (const carpool of carpools) {
+    if (carpool.status !== 'active' || carpool.activity.id !== activityId) continue;
+    if (!carpool.daysOfWeek.some(d => d.length >= 2 && dayName.startsWith(d.trim().toLowerCase()))) continue;
+
+    const week = carpool.upcoming.find(w => w.weekStart.slice(0, 10) === weekStart);
+    if (week) return week;
+  }
+  return null;
+};
+
+class CarpoolService {
+  /**
+   * List the user's carpools
+   */
+  async getCarpools(): Promise<Carpool[]> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/v1/carpools');
+      return response.carpools || [];
+    } catch (error: any) {
+      console.error('[CarpoolService] Error getting carpools:', error);
+      throw new Error(errorMessage(error, 'Failed to get carpools'));
+    }
+  }
+
+  /**
+   * Children of connected families who could share a ride
+   */
+  async getSuggestions(): Promise<CarpoolSuggestion[]> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/v1/carpools/suggestions');
+      return response.suggestions || [];
+    } catch (error: any) {
+      console.error('[CarpoolService] Error getting suggestions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Propose a driving rotation. The proposer drives first.
+   */
+  async proposeCarpool(input: ProposeCarpoolInput): Promise<Carpool> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/v1/carpools', input);
+      return response.carpool!;
+    } catch (error: any) {
+      console.error('[CarpoolService] Error proposing carpool:', error);
+      throw new Error(errorMessage(error, 'Failed to propose carpool'));
+    }
+  }
+
+  /**
+   * Accept (with the children riding) or decline a carpool
+   */
+  async respond(carpoolId: string, accept: boolean, childIds: string[] = []): Promise<Carpool> {
+    try {
+      const response = await apiClient.post<ApiResponse>(`/api/v1/carpools/${carpoolId}/respond`, {
+        accept,
+        childIds,
+      });
+      return response.carpool!;
+    } catch (error: any) {
+      console.error('[CarpoolService] Error responding to carpool:', error);
+      throw new Error(errorMessage(error, 'Failed to respond to carpool'));
+    }
+  }
+
+  /**
+   * Change who drives in a week
+   */
+  async setDriver(carpoolId: string, weekStart: string, driverUserId: string): Promise<Carpool> {
+    try {
+      const response = await apiClient.put<ApiResponse>(
+        `/api/v1/carpools/${carpoolId}/weeks/${encodeURIComponent(weekStart)}`,
+        { driverUserId }
+      );
+      return response.carpool!;
+    } catch (error: any) {
+      console.error('[CarpoolService] Error changing driver:', error);
+      throw new Error(errorMessage(error, 'Failed to change driver'));
+    }
+  }
+
+  /**
+   * Cancel a carpool (organizer) or leave it
+   */
+  async leave(carpoolId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/v1/carpools/${carpoolId}`);
+    } catch (error: any) {
+      console.error('[CarpoolService] Error leaving carpool:', error);
+      throw new Error(errorMessage(error, 'Failed to leave carpool'));
+    }
+  }
+}
+
+export const carpoolService = new CarpoolService();
+export default carpoolService;
@@ -54,6 +54,33 @@ export interface CalendarEvent {
   category: string;
 }
 
+export interface ScheduleConflictParty {
+  childActivityId: string;
+  childId: string;
+  childName: string;
+  activityId: string;
+  activityName: string;
+  locationName: string | null;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleConflict {
+  type: 'overlap' | 'travel';
+  severity: 'high' | 'medium';
+  sameChild: boolean;
+  date: string;
+  occurrences: number;
+  activity: ScheduleConflictParty;
+  conflictsWith: ScheduleConflictParty;
+  overlapType?: 'full' | 'partial-start' | 'partial-end' | 'contains';
+  overlapMinutes?: number;
+  gapMinutes?: number;
+  travelMinutes?: number;
+  distanceKm?: number;
+  message: string;
+}
+
 class ChildActivityService {
   private static instance: ChildActivityService;
 
@@ -145,8 +172,8 @@ class ChildActivityService {
       return activities;
     } catch (error) {
       console.error('Error fetching child activities:', error);
-      // Return empty array instead of throwing to prevent UI crashes
-      return [];
+      // Callers fall back to the offline cache
+      throw error;
     }
   }
 
@@ -253,6 +280,26 @@ class ChildActivityService {
     }
   }
 
+  /**
+   * Get schedule conflicts across the family (own and shared children)
+   */
+  async getScheduleConflicts(childId?: string, days?: number): Promise<ScheduleConflict[]> {
+    try {
+      const params = new URLSearchParams();
+      if (childId) params.append('childId', childId);
+      if (days) params.append('days', String(days));
+      const queryString = params.toString();
+
+      const response = await apiClient.get<any>(
+        `/api/v1/child-activities/conflicts${queryString ? `?${queryString}` : ''}`
+      );
+      return response?.conflicts || [];
+    } catch (error) {
+      console.error('Error fetching schedule conflicts:', error);
+      return [];
+    }
+  }
+
   /**
    * Get activity statistics for children
    */
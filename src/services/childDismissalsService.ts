@@ -0,0 +1,75 @@
+/**
+ * Child "not interested" service
+ * Manages per-child dismissals using the server API. Dismissed activities,
+ * providers, locations and subtypes are hidden from that child's search
+ * results and recommendations.
+ */
+import apiClient from './apiClient';
+
+// Types
+export type DismissalType = 'activity' | 'provider' | 'location' | 'subtype';
+
+export interface ChildDismissal {
+  id: string;
+  childId: string;
+  type: DismissalType;
+  targetId: string;
+  label?: string | null; // Name of the dismissed item when it was dismissed
+  createdAt: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  dismissals?: ChildDismissal[];
+  dismissal?: ChildDismissal;
+  message?: string;
+}
+
+class ChildDismissalsService {
+  /**
+   * Get a child's dismissals, most recent first
+   */
+  async getDismissals(childId: string): Promise<ChildDismissal[]> {
+    try {
+      const response = await apiClient.get<ApiResponse>(
+        `/api/v1/children/${childId}/dismissals`
+      );
+      return response.dismissals || [];
+    } catch (error: any) {
+      console.error('[ChildDismissalsService] Error getting dismissals:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get hidden activities');
+    }
+  }
+
+  /**
+   * Mark an activity, provider, location or subtype as not interesting for a child
+   */
+  async dismiss(childId: string, type: DismissalType, targetId: string): Promise<ChildDismissal | undefined> {
+    try {
+      const response = await apiClient.post<ApiResponse>(
+        `/api/v1/children/${childId}/dismissals`,
+        { type, targetId }
+      );
+      return response.dismissal;
+    } catch (error: any) {
+      console.error('[ChildDismissalsService] Error dismissing:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to hide activity');
+    }
+  }
+
+  /**
+   * Undo a dismissal
+   */
+  async undoDismissal(childId: string, dismissalId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/v1/children/${childId}/dismissals/${dismissalId}`);
+    } catch (error: any) {
+      console.error('[ChildDismissalsService] Error undoing dismissal:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to undo');
+    }
+  }
+}
+
+export const childDismissalsService = new ChildDismissalsService();
+export default childDismissalsService;
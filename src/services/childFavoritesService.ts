@@ -38,6 +38,15 @@ export interface ChildFavorite {
   };
 }
 
+export interface WaitlistAlert {
+  id: string;
+  channel: 'push' | 'email';
+  status: 'sent' | 'failed';
+  spotsAvailable: number | null;
+  queuePosition: number;
+  sentAt: string;
+}
+
 export interface ChildWaitlistEntry {
   id: string;
   childId: string;
@@ -45,6 +54,10 @@ export interface ChildWaitlistEntry {
   activityId: string;
   joinedAt: string;
   notifiedAt?: string;
+  status?: 'waiting' | 'notified';
+  holdExpiresAt?: string | null;
+  queuePosition?: number | null; // Family's place in line (null once alerted)
+  alerts?: WaitlistAlert[]; // Most recent first
   activity: {
     id: string;
     name: string;
@@ -5,6 +5,7 @@ import { safeMap, safeParseDate, safeString, safeNumber, isValidObject, safeFirs
 
 export type Child = StoreChild;
 import { Activity } from '../types';
+import { ScheduleConflict } from './childActivityService';
 
 interface LocationDetails {
   formattedAddress?: string;
@@ -385,9 +386,9 @@ class ChildrenService {
     scheduledDate?: Date,
     startTime?: string,
     endTime?: string
-  ): Promise<ChildActivity> {
+  ): Promise<ChildActivity & { conflicts: ScheduleConflict[] }> {
     try {
-      const response = await apiClient.post<{ success: boolean; childActivity: any }>(
+      const response = await apiClient.post<{ success: boolean; childActivity: any; conflicts?: ScheduleConflict[] }>(
         `/api/v1/children/${childId}/activities`,
         {
           activityId,
@@ -424,7 +425,7 @@ class ChildrenService {
       this.childActivities.push(childActivity);
       await this.saveLocalData();
 
-      return childActivity;
+      return { ...childActivity, conflicts: response.conflicts || [] };
     } catch (error) {
       console.error('Error adding activity to child:', error);
       throw error;
@@ -0,0 +1,114 @@
+/**
+ * Family plan service
+ * The payer of a family plan invites co-parents, who share their premium
+ * limits. Seats are checked on the server whenever limits are.
+ */
+import apiClient from './apiClient';
+
+export type FamilyMemberStatus = 'pending' | 'active' | 'expired';
+
+export interface FamilyMember {
+  id: string;
+  email: string;
+  name: string | null;
+  status: FamilyMemberStatus;
+  // False when the owner's plan has fewer seats than active members
+  hasSeat: boolean;
+  joinedAt: string | null;
+  expiresAt: string;
+}
+
+export interface Family {
+  role: 'owner' | 'member';
+  owner: { id: string; name: string; email: string };
+  plan: { code: string; name: string } | null;
+  seats: number;
+  seatsRemaining: number;
+  members: FamilyMember[];
+}
+
+export interface JoinFamilyResult {
+  ownerName: string;
+  // The co-parent still pays for premium themselves and may want to cancel
+  hasRenewingSubscription: boolean;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  message?: string;
+  family?: Family | null;
+  member?: Pick<FamilyMember, 'id' | 'email' | 'status' | 'expiresAt'>;
+  ownerName?: string;
+  hasRenewingSubscription?: boolean;
+}
+
+class FamilyService {
+  /**
+   * Get the family plan the user pays for or belongs to
+   */
+  async getFamily(): Promise<Family | null> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/family');
+      return response.family ?? null;
+    } catch (error: any) {
+      console.error('[FamilyService] Error getting family:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get family plan');
+    }
+  }
+
+  /**
+   * Invite a co-parent by email
+   */
+  async inviteMember(email: string): Promise<void> {
+    try {
+      await apiClient.post<ApiResponse>('/api/family/members', { email });
+    } catch (error: any) {
+      console.error('[FamilyService] Error inviting member:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to send invitation');
+    }
+  }
+
+  /**
+   * Remove a co-parent or cancel their invitation
+   */
+  async removeMember(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/family/members/${id}`);
+    } catch (error: any) {
+      console.error('[FamilyService] Error removing member:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to remove family member');
+    }
+  }
+
+  /**
+   * Join a family plan from an invitation link
+   */
+  async joinFamily(token: string): Promise<JoinFamilyResult> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/family/join', { token });
+      return {
+        ownerName: response.ownerName || '',
+        hasRenewingSubscription: !!response.hasRenewingSubscription,
+      };
+    } catch (error: any) {
+      console.error('[FamilyService] Error joining family:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to join family plan');
+    }
+  }
+
+  /**
+   * Leave the family plan the user belongs to
+   */
+  async leaveFamily(): Promise<void> {
+    try {
+      await apiClient.post<ApiResponse>('/api/family/leave');
+    } catch (error: any) {
+      console.error('[FamilyService] Error leaving family:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to leave family plan');
+    }
+  }
+}
+
+export const familyService = new FamilyService();
+export default familyService;
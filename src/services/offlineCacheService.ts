@@ -0,0 +1,111 @@
+/**
+ * Offline cache service
+ * Keeps the last copy of each child's favorites, waitlist, watched activities
+ * and calendar so they still show with no signal. Entries past their TTL are
+ * refreshed when online but still served when offline; entries past the
+ * maximum age are dropped.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CacheEntry, isCacheFresh } from '../utils/offlineSync';
+
+const KEY_PREFIX = '@offline_cache:';
+
+const HOUR = 60 * 60 * 1000;
+
+export const OFFLINE_CACHE_TTL = {
+  favorites: 6 * HOUR,
+  waitlist: 6 * HOUR,
+  watching: 6 * HOUR,
+  childActivities: 24 * HOUR,
+  sharedCalendar: 24 * HOUR,
+};
+
+export type OfflineCacheKind = keyof typeof OFFLINE_CACHE_TTL;
+
+// Older than this is too out of date to show even offline
+const MAX_AGE = 30 * 24 * HOUR;
+
+export interface CachedValue<T> {
+  data: T;
+  cachedAt: number;
+  fresh: boolean;
+}
+
+class OfflineCacheService {
+  async set<T>(kind: OfflineCacheKind, id: string, data: T): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { data, cachedAt: now, expiresAt: now + OFFLINE_CACHE_TTL[kind] };
+    try {
+      await AsyncStorage.setItem(this.key(kind, id), JSON.stringify(entry));
+    } catch (error) {
+      console.warn('[OfflineCache] Error writing cache:', error);
+    }
+  }
+
+  async get<T>(kind: OfflineCacheKind, id: string): Promise<CachedValue<T> | null> {
+    try {
+      const raw = await AsyncStorage.getItem(this.key(kind, id));
+      if (!raw) return null;
+
+      const entry: CacheEntry<T> = JSON.parse(raw);
+      if (Date.now() - entry.cachedAt > MAX_AGE) {
+        await AsyncStorage.removeItem(this.key(kind, id));
+        return null;
+      }
+
+      return { data: entry.data, cachedAt: entry.cachedAt, fresh: isCacheFresh(entry) };
+    } catch (error) {
+      console.warn('[OfflineCache] Error reading cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a list split per child, so any combination of children can be
+   * read back later
+   */
+  async setForChildren<T extends { childId: string }>(
+    kind: OfflineCacheKind,
+    childIds: string[],
+    items: T[]
+  ): Promise<void> {
+    await Promise.all(
+      childIds.map(childId => this.set(kind, childId, items.filter(item => item.childId === childId)))
+    );
+  }
+
+  /**
+   * Combined cached list for these children, or null if none are cached.
+   * cachedAt is the oldest of the entries.
+   */
+  async getForChildren<T>(kind: OfflineCacheKind, childIds: string[]): Promise<CachedValue<T[]> | null> {
+    const entries = await Promise.all(childIds.map(childId => this.get<T[]>(kind, childId)));
+    const cached = entries.filter((entry): entry is CachedValue<T[]> => entry !== null);
+    if (cached.length === 0) return null;
+
+    return {
+      data: cached.flatMap(entry => entry.data),
+      cachedAt: Math.min(...cached.map(entry => entry.cachedAt)),
+      fresh: cached.every(entry => entry.fresh),
+    };
+  }
+
+  /**
+   * Remove everything (on logout)
+   */
+  async clear(): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(KEY_PREFIX)));
+    } catch (error) {
+      console.warn('[OfflineCache] Error clearing cache:', error);
+    }
+  }
+
+  private key(kind: OfflineCacheKind, id: string): string {
+    return `${KEY_PREFIX}${kind}:${id}`;
+  }
+}
+
+export const offlineCacheService = new OfflineCacheService();
+export default offlineCacheService;
@@ -0,0 +1,255 @@
+/**
+ * Offline sync service
+ * Write-ahead queue for favorite, waitlist, watching and activity status
+ * changes. Each change is saved before it's sent, so one made with no signal
+ * (or cut off when the app closes) is replayed in order once back online.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import apiClient from './apiClient';
+import {
+  MAX_REPLAY_ATTEMPTS,
+  OfflineMutation,
+  OfflineMutationType,
+  ReplayOutcome,
+  classifyReplayError,
+  enqueueMutation,
+  hasStatusConflict,
+} from '../utils/offlineSync';
+
+const QUEUE_KEY = '@offline_queue';
+
+export interface OfflineChange {
+  type: OfflineMutationType;
+  childId: string;
+  activityId: string;
+  payload?: Record<string, any>;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  rejected: number;
+  remaining: number;
+  // Children whose lists changed and should be refetched
+  childIds: string[];
+  // Children whose calendar status changed
+  statusChildIds: string[];
+}
+
+type QueueListener = (pendingCount: number) => void;
+
+class OfflineSyncService {
+  private queue: OfflineMutation[] = [];
+  private loading: Promise<void> | null = null;
+  private replaying: Promise<ReplayResult> | null = null;
+  private listeners = new Set<QueueListener>();
+
+  async isOnline(): Promise<boolean> {
+    try {
+      const state = await NetInfo.fetch();
+      return state.isConnected !== false;
+    } catch (error) {
+      // Assume connected if the check fails; a failed request is queued anyway
+      return true;
+    }
+  }
+
+  async getPending(): Promise<OfflineMutation[]> {
+    await this.load();
+    return [...this.queue];
+  }
+
+  /**
+   * Listen for changes to the number of queued changes
+   */
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.queue.length));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a change now, or queue it if offline or the server can't be reached.
+   * Throws if the server refuses it, so optimistic updates can be undone.
+   */
+  async perform(change: OfflineChange): Promise<'sent' | 'queued'> {
+    await this.load();
+
+    const mutation: OfflineMutation = {
+      ...change,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    // Write ahead: the change is on disk before the request goes out
+    await this.save(enqueueMutation(this.queue, mutation));
+
+    if (!(await this.isOnline())) {
+      return 'queued';
+    }
+
+    try {
+      await this.execute(mutation);
+      await this.remove(mutation.id);
+      return 'sent';
+    } catch (error: any) {
+      const outcome = classifyReplayError(mutation, error);
+      if (outcome === 'retry') {
+        return 'queued';
+      }
+
+      await this.remove(mutation.id);
+      if (outcome === 'applied') {
+        return 'sent';
+      }
+      throw new Error(error?.response?.data?.error || 'The change could not be saved');
+    }
+  }
+
+  /**
+   * Replay queued changes in order. Stops at the first one that still can't
+   * reach the server so later changes don't overtake it.
+   */
+  replay(): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.replayQueue().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Drop all queued changes (on logout)
+   */
+  async clear(): Promise<void> {
+    await this.save([]);
+  }
+
+  private async replayQueue(): Promise<ReplayResult> {
+    await this.load();
+
+    const result: ReplayResult = { applied: 0, conflicts: 0, rejected: 0, remaining: 0, childIds: [], statusChildIds: [] };
+    const childIds = new Set<string>();
+    const statusChildIds = new Set<string>();
+    // Server copies of each child's calendar, for status conflict checks
+    const serverActivities = new Map<string, any[]>();
+
+    for (const mutation of [...this.queue]) {
+      let outcome: ReplayOutcome;
+
+      try {
+        if (mutation.type === 'activity.status') {
+          if (!serverActivities.has(mutation.childId)) {
+            const response = await apiClient.get<any>(`/api/v1/child-activities/${mutation.childId}/activities`);
+            serverActivities.set(mutation.childId, response?.activities || []);
+          }
+          const server = serverActivities.get(mutation.childId)!.find(ca => ca.activityId === mutation.activityId);
+          if (hasStatusConflict(mutation, server)) {
+            outcome = 'conflict';
+          } else {
+            await this.execute(mutation);
+            outcome = 'applied';
+          }
+        } else {
+          await this.execute(mutation);
+          outcome = 'applied';
+        }
+      } catch (error) {
+        outcome = classifyReplayError(mutation, error);
+      }
+
+      if (outcome === 'retry') {
+        const attempts = mutation.attempts + 1;
+        if (attempts < MAX_REPLAY_ATTEMPTS) {
+          await this.save(this.queue.map(entry => (entry.id === mutation.id ? { ...entry, attempts } : entry)));
+          break;
+        }
+        console.warn('[OfflineSync] Giving up on queued change after repeated failures:', mutation.type);
+        outcome = 'rejected';
+      }
+
+      await this.remove(mutation.id);
+      childIds.add(mutation.childId);
+      if (mutation.type === 'activity.status') {
+        statusChildIds.add(mutation.childId);
+      }
+
+      if (outcome === 'applied') result.applied++;
+      else if (outcome === 'conflict') result.conflicts++;
+      else result.rejected++;
+    }
+
+    result.remaining = this.queue.length;
+    result.childIds = [...childIds];
+    result.statusChildIds = [...statusChildIds];
+
+    if (result.applied + result.conflicts + result.rejected > 0) {
+      console.log('[OfflineSync] Replayed queue:', result);
+    }
+    return result;
+  }
+
+  private async execute(mutation: OfflineMutation): Promise<void> {
+    const { childId, activityId } = mutation;
+
+    switch (mutation.type) {
+      case 'favorite.add':
+        await apiClient.post(`/api/v1/children/${childId}/favorites/${activityId}`, { notifyOnChange: true });
+        break;
+      case 'favorite.remove':
+        await apiClient.delete(`/api/v1/children/${childId}/favorites/${activityId}`);
+        break;
+      case 'waitlist.join':
+        await apiClient.post(`/api/v1/children/${childId}/waitlist/${activityId}`);
+        break;
+      case 'waitlist.leave':
+        await apiClient.delete(`/api/v1/children/${childId}/waitlist/${activityId}`);
+        break;
+      case 'watching.add':
+        await apiClient.post(`/api/v1/children/${childId}/watching/${activityId}`, {});
+        break;
+      case 'watching.remove':
+        await apiClient.delete(`/api/v1/children/${childId}/watching/${activityId}`);
+        break;
+      case 'activity.status':
+        await apiClient.put(`/api/v1/child-activities/${childId}/activities/${activityId}`, mutation.payload);
+        break;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = AsyncStorage.getItem(QUEUE_KEY)
+        .then(raw => {
+          this.queue = raw ? JSON.parse(raw) : [];
+        })
+        .catch(error => {
+          console.warn('[OfflineSync] Error loading queue:', error);
+          this.queue = [];
+        });
+    }
+    return this.loading;
+  }
+
+  private async remove(mutationId: string): Promise<void> {
+    await this.save(this.queue.filter(entry => entry.id !== mutationId));
+  }
+
+  private async save(queue: OfflineMutation[]): Promise<void> {
+    this.queue = queue;
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.warn('[OfflineSync] Error saving queue:', error);
+    }
+    this.listeners.forEach(listener => listener(queue.length));
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
+export default offlineSyncService;
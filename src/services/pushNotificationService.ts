@@ -4,7 +4,7 @@
  * Works on both iOS and Android using Firebase Cloud Messaging and Notifee
  */
 
-import { Platform, PermissionsAndroid, Alert } from 'react-native';
+import { Platform, PermissionsAndroid, Alert, Linking } from 'react-native';
 import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
 import notifee, {
   AndroidImportance,
@@ -19,7 +19,7 @@ import DeviceInfo from 'react-native-device-info';
 let navigationRef: any = null;
 
 export interface NotificationData {
-  type: 'spots_available' | 'capacity_alert' | 'price_drop' | 'general';
+  type: 'spots_available' | 'capacity_alert' | 'price_drop' | 'saved_search' | 'carpool' | 'new_sign_in' | 'general';
   activityId?: string;
   activityName?: string;
   screen?: string;
@@ -352,7 +352,12 @@ class PushNotificationService {
 
     switch (data.type) {
       case 'spots_available':
-        if (data.activityId) {
+        if (data.registrationUrl) {
+          // Waitlist promotions link straight to the provider's registration page
+          Linking.openURL(data.registrationUrl).catch(() => {
+            navigationRef.navigate('ActivityDetail', { activityId: data.activityId });
+          });
+        } else if (data.activityId) {
           // Navigate to activity detail
           navigationRef.navigate('ActivityDetail', { activityId: data.activityId });
         } else {
@@ -368,6 +373,21 @@ class PushNotificationService {
         }
         break;
 
+      case 'saved_search':
+        if (data.activityId) {
+          navigationRef.navigate('ActivityDetail', { activityId: data.activityId });
+        } else {
+          navigationRef.navigate('SavedSearches');
+        }
+        break;
+
+      case 'new_sign_in':
+        navigationRef.navigate('MainTabs', {
+          screen: 'Profile',
+          params: { screen: 'DevicesSessions' },
+        });
+        break;
+
       default:
         // Navigate to specified screen or default to waiting list
         if (data.screen) {
@@ -0,0 +1,163 @@
+/**
+ * Saved searches service
+ * Stores search/filter presets on the server; searches with alerts on are
+ * checked hourly and new matches are sent by email and push
+ */
+import apiClient from './apiClient';
+import { ActivitySearchParams } from '../types/api';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: ActivitySearchParams;
+  notifyOnNew: boolean;
+  lastChecked: string | null;
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  message?: string;
+  savedSearches?: SavedSearch[];
+  savedSearch?: SavedSearch;
+  shareToken?: string;
+  limit?: number;
+  canCreate?: boolean;
+}
+
+/**
+ * Thrown when the user's plan doesn't allow another saved search
+ */
+export class SavedSearchLimitError extends Error {
+  constructor(message: string, public limit: number) {
+    super(message);
+    this.name = 'SavedSearchLimitError';
+  }
+}
+
+// Pagination and sort order aren't part of a saved search
+const stripPagination = (filters: ActivitySearchParams): ActivitySearchParams => {
+  const saved: ActivitySearchParams = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (['limit', 'offset', 'page', 'sortBy', 'sortOrder'].includes(key)) continue;
+    if (value === undefined || value === null || value === '') continue;
+    (saved as any)[key] = value;
+  }
+  return saved;
+};
+
+class SavedSearchService {
+  /**
+   * List the user's saved searches
+   */
+  async getSavedSearches(): Promise<{ savedSearches: SavedSearch[]; limit: number; canCreate: boolean }> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/v1/saved-searches');
+      return {
+        savedSearches: response.savedSearches || [],
+        limit: response.limit ?? 0,
+        canCreate: !!response.canCreate,
+      };
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error getting saved searches:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get saved searches');
+    }
+  }
+
+  /**
+   * Get the name and filters of a saved search opened from a share link
+   */
+  async getSharedSavedSearch(shareToken: string): Promise<Pick<SavedSearch, 'name' | 'filters'>> {
+    try {
+      const response = await apiClient.get<ApiResponse>(`/api/v1/saved-searches/shared/${shareToken}`);
+      return response.savedSearch!;
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error getting shared saved search:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get saved search');
+    }
+  }
+
+  /**
+   * Create a share token for a saved search. Replaces any previous token,
+   * so older links stop working.
+   */
+  async shareSavedSearch(id: string): Promise<string> {
+    try {
+      const response = await apiClient.post<ApiResponse>(`/api/v1/saved-searches/${id}/share`);
+      return response.shareToken!;
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error sharing saved search:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to share saved search');
+    }
+  }
+
+  /**
+   * Stop sharing a saved search; links to it stop working
+   */
+  async stopSharingSavedSearch(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/v1/saved-searches/${id}/share`);
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error stopping saved search sharing:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to stop sharing saved search');
+    }
+  }
+
+  /**
+   * Save the current search. The server names it from the filters if no name is given.
+   */
+  async saveSearch(filters: ActivitySearchParams, name?: string, notifyOnNew: boolean = true): Promise<SavedSearch> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/v1/saved-searches', {
+        name,
+        filters: stripPagination(filters),
+        notifyOnNew,
+      });
+      return response.savedSearch!;
+    } catch (error: any) {
+      const data = error?.response?.data;
+      if (data?.error === 'SUBSCRIPTION_LIMIT_REACHED') {
+        throw new SavedSearchLimitError(data.message, data.limit ?? 0);
+      }
+      console.error('[SavedSearchService] Error saving search:', error);
+      throw new Error(data?.error || 'Failed to save search');
+    }
+  }
+
+  /**
+   * Rename a saved search or toggle its alerts
+   */
+  async updateSavedSearch(
+    id: string,
+    updates: { name?: string; filters?: ActivitySearchParams; notifyOnNew?: boolean }
+  ): Promise<SavedSearch> {
+    try {
+      const response = await apiClient.patch<ApiResponse>(`/api/v1/saved-searches/${id}`, {
+        ...updates,
+        ...(updates.filters ? { filters: stripPagination(updates.filters) } : {}),
+      });
+      return response.savedSearch!;
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error updating saved search:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to update saved search');
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/v1/saved-searches/${id}`);
+    } catch (error: any) {
+      console.error('[SavedSearchService] Error deleting saved search:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to delete saved search');
+    }
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
+export default savedSearchService;
@@ -0,0 +1,74 @@
+/**
+ * Sessions service
+ * Devices signed in to the account, so a lost or unfamiliar one can be
+ * signed out remotely
+ */
+import apiClient from './apiClient';
+import { TrustedDevice } from './twoFactorService';
+
+export interface AccountSession {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+  // The session this app is using
+  current: boolean;
+}
+
+export interface SessionsOverview {
+  sessions: AccountSession[];
+  trustedDevices: TrustedDevice[];
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  sessions?: AccountSession[];
+  trustedDevices?: TrustedDevice[];
+  revoked?: number;
+}
+
+class SessionsService {
+  /**
+   * Get signed-in devices and devices remembered for 2FA
+   */
+  async getSessions(): Promise<SessionsOverview> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/auth/sessions');
+      return {
+        sessions: response.sessions ?? [],
+        trustedDevices: response.trustedDevices ?? [],
+      };
+    } catch (error: any) {
+      console.error('[SessionsService] Error getting sessions:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get sessions');
+    }
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await apiClient.delete<ApiResponse>(`/api/auth/sessions/${sessionId}`);
+    } catch (error: any) {
+      console.error('[SessionsService] Error signing out session:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to sign out device');
+    }
+  }
+
+  /**
+   * Sign out every device except this one. Returns how many were signed out.
+   */
+  async revokeOtherSessions(): Promise<number> {
+    try {
+      const response = await apiClient.delete<ApiResponse>('/api/auth/sessions');
+      return response.revoked ?? 0;
+    } catch (error: any) {
+      console.error('[SessionsService] Error signing out other sessions:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to sign out other devices');
+    }
+  }
+}
+
+export const sessionsService = new SessionsService();
+export default sessionsService;
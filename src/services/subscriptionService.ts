@@ -8,6 +8,8 @@ import {
   FeatureName,
   UserSubscription,
   SubscriptionTier,
+  SubscriptionEntitlement,
+  FamilySharing,
 } from '../types/subscription';
 
 interface VerifyPurchaseParams {
@@ -86,6 +88,14 @@ interface CurrentSubscriptionResponse {
   };
   isTrialing: boolean;
   trialDaysRemaining: number | null;
+  entitlements?: SubscriptionEntitlement[];
+  family?: FamilySharing | null;
+}
+
+interface WebLinkResponse {
+  success: boolean;
+  url: string;
+  expiresIn: number;
 }
 
 interface LimitCheckResponse {
@@ -134,6 +144,8 @@ class SubscriptionService {
         usage: response.usage,
         isTrialing: response.isTrialing,
         trialDaysRemaining: response.trialDaysRemaining,
+        entitlements: response.entitlements || [],
+        family: response.family ?? null,
       };
     } catch (error: any) {
       console.error('[SubscriptionService] Failed to fetch subscription:', error.message);
@@ -254,6 +266,22 @@ class SubscriptionService {
     }
   }
 
+  /**
+   * Get a short-lived link to buy or manage premium on the website
+   */
+  async getWebBillingLink(): Promise<string> {
+    try {
+      const response = await this.api.post<WebLinkResponse>(
+        '/api/subscriptions/web-link',
+        {}
+      );
+      return response.url;
+    } catch (error: any) {
+      console.error('[SubscriptionService] Failed to get web billing link:', error.message);
+      throw new Error(error.response?.data?.error || 'Failed to open web billing');
+    }
+  }
+
   /**
    * Check if user is eligible for a free trial
    * Returns false if they've already used their trial
@@ -0,0 +1,154 @@
+/**
+ * Two-factor authentication service
+ * Authenticator app (TOTP) codes on top of the Firebase sign-in. The server
+ * hands back a token for this sign-in and, if asked, one that remembers the
+ * device; both are stored here and sent on every API request.
+ */
+import apiClient from './apiClient';
+import { setTwoFactorToken, setTrustedDeviceToken } from '../utils/secureStorage';
+import { getDeviceName } from '../utils/deviceName';
+
+export interface TrustedDevice {
+  id: string;
+  name: string | null;
+  createdAt: string | null;
+  expiresAt: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins and vendor owners can't turn 2FA off
+  required: boolean;
+  recoveryCodesRemaining: number;
+  trustedDevices: TrustedDevice[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL
+  qrCode: string;
+}
+
+interface ApiResponse extends Partial<TwoFactorStatus>, Partial<TwoFactorSetup> {
+  success: boolean;
+  error?: string;
+  recoveryCodes?: string[];
+  twoFactorToken?: string;
+  trustedDeviceToken?: string;
+}
+
+class TwoFactorService {
+  /**
+   * Get 2FA status and remembered devices
+   */
+  async getStatus(): Promise<TwoFactorStatus> {
+    try {
+      const response = await apiClient.get<ApiResponse>('/api/auth/2fa');
+      return {
+        enabled: !!response.enabled,
+        required: !!response.required,
+        recoveryCodesRemaining: response.recoveryCodesRemaining ?? 0,
+        trustedDevices: response.trustedDevices ?? [],
+      };
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error getting status:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to get two-factor status');
+    }
+  }
+
+  /**
+   * Start setup; returns the QR code for an authenticator app
+   */
+  async beginSetup(): Promise<TwoFactorSetup> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/auth/2fa/setup');
+      return {
+        secret: response.secret!,
+        otpauthUrl: response.otpauthUrl!,
+        qrCode: response.qrCode!,
+      };
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error starting setup:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to start two-factor setup');
+    }
+  }
+
+  /**
+   * Turn on 2FA with the first code. Returns the recovery codes.
+   */
+  async enable(code: string, rememberDevice: boolean): Promise<string[]> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/auth/2fa/enable', {
+        code,
+        rememberDevice,
+        deviceName: getDeviceName(),
+      });
+      this.storeTokens(response);
+      return response.recoveryCodes ?? [];
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error enabling:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to turn on two-factor authentication');
+    }
+  }
+
+  /**
+   * Enter a code (or recovery code) after signing in
+   */
+  async verify(code: string, rememberDevice: boolean): Promise<{ recoveryCodesRemaining: number }> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/auth/2fa/verify', {
+        code,
+        rememberDevice,
+        deviceName: getDeviceName(),
+      });
+      this.storeTokens(response);
+      return { recoveryCodesRemaining: response.recoveryCodesRemaining ?? 0 };
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error verifying code:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to verify code');
+    }
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    try {
+      const response = await apiClient.post<ApiResponse>('/api/auth/2fa/recovery-codes', { code });
+      return response.recoveryCodes ?? [];
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error regenerating recovery codes:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to create new recovery codes');
+    }
+  }
+
+  async disable(code: string): Promise<void> {
+    try {
+      await apiClient.post<ApiResponse>('/api/auth/2fa/disable', { code });
+      setTwoFactorToken(null);
+      setTrustedDeviceToken(null);
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error disabling:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to turn off two-factor authentication');
+    }
+  }
+
+  async removeTrustedDevice(deviceId: string): Promise<void> {
+    try {
+      await apiClient.delete<ApiResponse>(`/api/auth/2fa/trusted-devices/${deviceId}`);
+    } catch (error: any) {
+      console.error('[TwoFactorService] Error removing device:', error);
+      throw new Error(error?.response?.data?.error || 'Failed to remove device');
+    }
+  }
+
+  private storeTokens(response: ApiResponse): void {
+    if (response.twoFactorToken) {
+      setTwoFactorToken(response.twoFactorToken);
+    }
+    if (response.trustedDeviceToken) {
+      setTrustedDeviceToken(response.trustedDeviceToken);
+    }
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
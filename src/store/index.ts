@@ -20,6 +20,7 @@ import childActivitiesReducer from './slices/childActivitiesSlice';
 import childFavoritesReducer from './slices/childFavoritesSlice';
 import subscriptionReducer from './slices/subscriptionSlice';
 import chatReducer from './slices/chatSlice';
+import offlineReducer from './slices/offlineSlice';
 
 // Migrations for redux-persist
 const migrations = {
@@ -76,6 +77,7 @@ const rootReducer = combineReducers({
   childFavorites: childFavoritesReducer,
   subscription: subscriptionReducer,
   chat: chatReducer,
+  offline: offlineReducer,
 });
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
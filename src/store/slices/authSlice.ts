@@ -11,6 +11,8 @@ import { firebaseAuthService, FirebaseUser, AuthProvider } from '../../services/
 import * as SecureStore from '../../utils/secureStorage';
 import { fetchSubscription, clearSubscription } from './subscriptionSlice';
 import { revenueCatService } from '../../services/revenueCatService';
+import { offlineCacheService } from '../../services/offlineCacheService';
+import { offlineSyncService } from '../../services/offlineSyncService';
 
 interface AuthState {
   // PostgreSQL user (our database)
@@ -23,6 +25,8 @@ interface AuthState {
   error: string | null;
   // Auth provider used
   authProvider: AuthProvider | null;
+  // Signed in, but a 2FA code is needed before the API will answer
+  twoFactorRequired: boolean;
 }
 
 const initialState: AuthState = {
@@ -32,6 +36,7 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   authProvider: null,
+  twoFactorRequired: false,
 };
 
 /**
@@ -42,11 +47,17 @@ const syncUserAfterAuth = async (
   dispatch: any
 ): Promise<PostgresUser> => {
   // Sync with PostgreSQL database
-  const { user: postgresUser } = await authService.syncUser();
+  const { user: postgresUser, twoFactorRequired } = await authService.syncUser();
 
   // Cache user data locally
   await SecureStore.setUserData(postgresUser);
 
+  // The rest waits until the 2FA code is entered (loadAuthState runs again)
+  dispatch(setTwoFactorRequired(!!twoFactorRequired));
+  if (twoFactorRequired) {
+    return postgresUser;
+  }
+
   // Initialize RevenueCat with PostgreSQL user ID
   try {
     await revenueCatService.login(postgresUser.id);
@@ -117,8 +128,10 @@ export const logout = createAsyncThunk('auth/logout', async (_, { dispatch }) =>
   // Sign out from Firebase (also signs out from Google/Apple)
   await firebaseAuthService.signOut();
 
-  // Clear local data
+  // Clear local data, including offline copies and unsent changes
   await SecureStore.clearAllAuthData();
+  await offlineCacheService.clear();
+  await offlineSyncService.clear();
 
   // Clear subscription state and logout from RevenueCat
   dispatch(clearSubscription());
@@ -143,16 +156,7 @@ export const loadAuthState = createAsyncThunk('auth/loadAuthState', async (_, {
 
   try {
     // Sync with PostgreSQL to get full user data
-    const { user: postgresUser } = await authService.syncUser();
-    await SecureStore.setUserData(postgresUser);
-
-    // Initialize RevenueCat
-    try {
-      await revenueCatService.login(postgresUser.id);
-      dispatch(fetchSubscription());
-    } catch (error) {
-      console.log('[Auth] RevenueCat login/subscription fetch failed:', error);
-    }
+    const postgresUser = await syncUserAfterAuth(firebaseUser, dispatch);
 
     return {
       firebaseUser,
@@ -227,6 +231,10 @@ const authSlice = createSlice({
       state.isAuthenticated = false;
       state.authProvider = null;
       state.error = null;
+      state.twoFactorRequired = false;
+    },
+    setTwoFactorRequired: (state, action: PayloadAction<boolean>) => {
+      state.twoFactorRequired = action.payload;
     },
     updateUserProfile: (state, action: PayloadAction<Partial<PostgresUser>>) => {
       if (state.user) {
@@ -329,6 +337,7 @@ const authSlice = createSlice({
       state.isAuthenticated = false;
       state.authProvider = null;
       state.error = null;
+      state.twoFactorRequired = false;
     });
 
     // Load Auth State
@@ -395,5 +404,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { clearError, clearAuth, updateUserProfile, setFirebaseUser } = authSlice.actions;
+export const { clearError, clearAuth, updateUserProfile, setFirebaseUser, setTwoFactorRequired } = authSlice.actions;
 export default authSlice.reducer;
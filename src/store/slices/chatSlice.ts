@@ -1,5 +1,5 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { ChatMessage } from '../../services/aiService';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import aiService, { ChatMessage, ConversationSummary } from '../../services/aiService';
 
 interface ChatState {
   messages: ChatMessage[];
@@ -7,6 +7,12 @@ interface ChatState {
   turnsRemaining: number | null;
   // Store activity IDs from the last response for "View All" functionality
   lastActivityIds: string[];
+
+  // Saved conversations shown in the history drawer
+  history: ConversationSummary[];
+  historyRetentionDays: number | null;
+  historyLoading: boolean;
+  historyError: string | null;
 }
 
 const initialState: ChatState = {
@@ -14,8 +20,53 @@ const initialState: ChatState = {
   conversationId: null,
   turnsRemaining: null,
   lastActivityIds: [],
+
+  history: [],
+  historyRetentionDays: null,
+  historyLoading: false,
+  historyError: null,
 };
 
+const getActivityIds = (activities: any[] | null | undefined): string[] =>
+  (activities || [])
+    .map((a: any) => a.id)
+    .filter((id: string | undefined) => id);
+
+// ============= ASYNC THUNKS =============
+
+// Fetch saved conversations for the history drawer
+export const fetchConversations = createAsyncThunk(
+  'chat/fetchConversations',
+  async () => {
+    return aiService.listConversations();
+  }
+);
+
+// Load a saved conversation into the chat
+export const resumeConversation = createAsyncThunk(
+  'chat/resumeConversation',
+  async (conversationId: string) => {
+    return aiService.getConversation(conversationId);
+  }
+);
+
+// Rename a saved conversation
+export const renameConversation = createAsyncThunk(
+  'chat/renameConversation',
+  async ({ conversationId, title }: { conversationId: string; title: string }) => {
+    return aiService.renameConversation(conversationId, title);
+  }
+);
+
+// Delete a saved conversation
+export const deleteConversation = createAsyncThunk(
+  'chat/deleteConversation',
+  async (conversationId: string) => {
+    await aiService.deleteConversation(conversationId);
+    return conversationId;
+  }
+);
+
 const chatSlice = createSlice({
   name: 'chat',
   initialState,
@@ -24,9 +75,7 @@ const chatSlice = createSlice({
       state.messages.push(action.payload);
       // Extract activity IDs from assistant messages
       if (action.payload.role === 'assistant' && action.payload.activities) {
-        state.lastActivityIds = action.payload.activities
-          .map((a: any) => a.id)
-          .filter((id: string | undefined) => id);
+        state.lastActivityIds = getActivityIds(action.payload.activities);
       }
     },
     setMessages: (state, action: PayloadAction<ChatMessage[]>) => {
@@ -48,6 +97,54 @@ const chatSlice = createSlice({
       state.lastActivityIds = [];
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchConversations.pending, (state) => {
+        state.historyLoading = true;
+        state.historyError = null;
+      })
+      .addCase(fetchConversations.fulfilled, (state, action) => {
+        state.historyLoading = false;
+        state.history = action.payload.conversations;
+        state.historyRetentionDays = action.payload.retentionDays;
+      })
+      .addCase(fetchConversations.rejected, (state, action) => {
+        state.historyLoading = false;
+        state.historyError = action.error.message || 'Failed to load conversations';
+      })
+      .addCase(resumeConversation.fulfilled, (state, action) => {
+        const conversation = action.payload;
+        state.conversationId = conversation.id;
+        state.turnsRemaining = conversation.turnsRemaining;
+        state.messages = conversation.messages.map((message) => ({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          timestamp: new Date(message.createdAt),
+          activities: message.activities || undefined,
+        }));
+
+        const lastWithActivities = [...conversation.messages]
+          .reverse()
+          .find((message) => message.role === 'assistant' && message.activities?.length);
+        state.lastActivityIds = getActivityIds(lastWithActivities?.activities);
+      })
+      .addCase(renameConversation.fulfilled, (state, action) => {
+        const index = state.history.findIndex((c) => c.id === action.payload.id);
+        if (index !== -1) {
+          state.history[index] = action.payload;
+        }
+      })
+      .addCase(deleteConversation.fulfilled, (state, action) => {
+        state.history = state.history.filter((c) => c.id !== action.payload);
+        if (state.conversationId === action.payload) {
+          state.messages = [];
+          state.conversationId = null;
+          state.turnsRemaining = null;
+          state.lastActivityIds = [];
+        }
+      });
+  },
 });
 
 export const {
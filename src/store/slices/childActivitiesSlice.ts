@@ -1,5 +1,9 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import childActivityService from '../../services/childActivityService';
+import { offlineCacheService } from '../../services/offlineCacheService';
+import { offlineSyncService } from '../../services/offlineSyncService';
+import { applyPendingStatusChanges } from '../../utils/offlineSync';
+import { servedFromCache } from './offlineSlice';
 import { RootState } from '../index';
 import { Activity } from '../../types/activity';
 
@@ -55,15 +59,28 @@ export const linkActivity = createAsyncThunk(
   }
 );
 
-export const updateActivityStatus = createAsyncThunk(
+// Offline (or when the server can't be reached) the change is queued and the
+// local copy updated; it's replayed when back online
+export const updateActivityStatus = createAsyncThunk<
+  ChildActivity,
+  { childId: string; activityId: string; input: UpdateActivityStatusInput },
+  { state: RootState }
+>(
   'childActivities/updateActivityStatus',
-  async ({ childId, activityId, input }: { 
-    childId: string; 
-    activityId: string; 
-    input: UpdateActivityStatusInput 
-  }) => {
-    const response = await childActivityService.updateActivityStatus(childId, activityId, input);
-    return response;
+  async ({ childId, activityId, input }, { getState }) => {
+    if (await offlineSyncService.isOnline()) {
+      try {
+        const response = await childActivityService.updateActivityStatus(childId, activityId, input);
+        return response as ChildActivity;
+      } catch (error: any) {
+        // Reached the server and was refused
+        if (error?.response) throw error;
+      }
+    }
+
+    await offlineSyncService.perform({ type: 'activity.status', childId, activityId, payload: { ...input } });
+    const existing = getState().childActivities.childActivities[childId]?.find(ca => ca.activityId === activityId);
+    return { ...existing, ...input, childId, activityId } as ChildActivity;
   }
 );
 
@@ -75,11 +92,23 @@ export const unlinkActivity = createAsyncThunk(
   }
 );
 
+// Falls back to the offline cache so the calendar still shows with no signal
 export const fetchChildActivities = createAsyncThunk(
   'childActivities/fetchChildActivities',
-  async (childId: string) => {
-    const response = await childActivityService.getChildActivities(childId);
-    return { childId, activities: response };
+  async (childId: string, { dispatch }) => {
+    let activities: ChildActivity[];
+    try {
+      activities = await childActivityService.getChildActivities(childId) as ChildActivity[];
+      offlineCacheService.set('childActivities', childId, activities);
+    } catch (error) {
+      const cached = await offlineCacheService.get<ChildActivity[]>('childActivities', childId);
+      if (!cached) throw error;
+      dispatch(servedFromCache(cached));
+      activities = cached.data;
+    }
+
+    const pending = await offlineSyncService.getPending();
+    return { childId, activities: applyPendingStatusChanges(activities, pending) };
   }
 );
 
@@ -168,10 +197,15 @@ const childActivitiesSlice = createSlice({
         }
       })
       
-      // Update activity status
-      .addCase(updateActivityStatus.pending, (state) => {
+      // Update activity status - optimistic update
+      .addCase(updateActivityStatus.pending, (state, action) => {
         state.loading = true;
         state.error = null;
+        const { childId, activityId, input } = action.meta.arg;
+        const existing = state.childActivities[childId]?.find(ca => ca.activityId === activityId);
+        if (existing) {
+          Object.assign(existing, input);
+        }
       })
       .addCase(updateActivityStatus.fulfilled, (state, action) => {
         state.loading = false;
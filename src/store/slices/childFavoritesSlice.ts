@@ -4,6 +4,10 @@
  */
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { childFavoritesService, ChildFavorite, ChildWaitlistEntry, ChildWatching, ActivityChildStatus } from '../../services/childFavoritesService';
+import { offlineCacheService, OfflineCacheKind } from '../../services/offlineCacheService';
+import { offlineSyncService } from '../../services/offlineSyncService';
+import { applyPendingMutations, OfflineMutation, OfflineMutationType } from '../../utils/offlineSync';
+import { servedFromCache } from './offlineSlice';
 import { RootState } from '../index';
 
 interface ChildFavoritesState {
@@ -91,42 +95,92 @@ const organizeWatchingByChild = (entries: ChildWatching[]): Record<string, Child
   return byChild;
 };
 
+// Stand-in for an item added offline, until the server copy is fetched
+const placeholderEntry = (mutation: OfflineMutation, dateField: 'createdAt' | 'joinedAt') => ({
+  id: `temp-${mutation.childId}-${mutation.activityId}`,
+  childId: mutation.childId,
+  activityId: mutation.activityId,
+  childName: '',
+  [dateField]: mutation.createdAt,
+  activity: {
+    id: mutation.activityId,
+    name: '',
+    category: '',
+    cost: 0,
+  },
+});
+
+/**
+ * Fetch a per-child list, falling back to the offline cache when the server
+ * can't be reached. Changes still queued offline are applied on top.
+ */
+const fetchWithOfflineFallback = async <T extends { childId: string; activityId: string }>(
+  kind: OfflineCacheKind,
+  childIds: string[],
+  fetchFromServer: () => Promise<T[]>,
+  pendingTypes: [OfflineMutationType, OfflineMutationType],
+  placeholder: (mutation: OfflineMutation) => T,
+  dispatch: (action: any) => any
+): Promise<T[]> => {
+  let items: T[];
+  try {
+    items = await fetchFromServer();
+    offlineCacheService.setForChildren(kind, childIds, items);
+  } catch (error) {
+    const cached = await offlineCacheService.getForChildren<T>(kind, childIds);
+    if (!cached) throw error;
+    console.log(`[childFavoritesSlice] Showing cached ${kind} from`, new Date(cached.cachedAt).toISOString());
+    dispatch(servedFromCache({ cachedAt: cached.cachedAt, fresh: cached.fresh }));
+    items = cached.data;
+  }
+
+  const pending = await offlineSyncService.getPending();
+  return applyPendingMutations(items, pending, pendingTypes[0], pendingTypes[1], placeholder);
+};
+
 // ============= ASYNC THUNKS =============
 
 // Fetch favorites for multiple children
 export const fetchChildFavorites = createAsyncThunk(
   'childFavorites/fetchFavorites',
-  async (childIds: string[]) => {
-    const favorites = await childFavoritesService.getFavoritesForChildren(childIds);
-    return favorites;
+  async (childIds: string[], { dispatch }) => {
+    return fetchWithOfflineFallback<ChildFavorite>(
+      'favorites',
+      childIds,
+      () => childFavoritesService.getFavoritesForChildren(childIds),
+      ['favorite.add', 'favorite.remove'],
+      mutation => ({ ...placeholderEntry(mutation, 'createdAt'), notifyOnChange: false }) as any,
+      dispatch
+    );
   }
 );
 
 // Fetch waitlist for multiple children
 export const fetchChildWaitlist = createAsyncThunk(
   'childFavorites/fetchWaitlist',
-  async (childIds: string[]) => {
-    const waitlist = await childFavoritesService.getWaitlistForChildren(childIds);
-    return waitlist;
+  async (childIds: string[], { dispatch }) => {
+    return fetchWithOfflineFallback<ChildWaitlistEntry>(
+      'waitlist',
+      childIds,
+      () => childFavoritesService.getWaitlistForChildren(childIds),
+      ['waitlist.join', 'waitlist.leave'],
+      mutation => placeholderEntry(mutation, 'joinedAt') as any,
+      dispatch
+    );
   }
 );
 
 // Add favorite for a child
 export const addChildFavorite = createAsyncThunk(
   'childFavorites/addFavorite',
-  async ({ childId, activityId }: { childId: string; activityId: string }, { rejectWithValue }) => {
+  async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] addChildFavorite called:', { childId, activityId });
-    try {
-      await childFavoritesService.addFavorite(childId, activityId);
-      console.log('[childFavoritesSlice] addChildFavorite API SUCCESS');
-      return { childId, activityId };
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] addChildFavorite API FAILED:', error?.message);
-      // Return the payload anyway to keep the optimistic update
-      // The UI will stay updated even if API fails
-      console.log('[childFavoritesSlice] Keeping optimistic update despite API failure');
-      return { childId, activityId };
-    }
+    // Sent now, or queued and replayed once back online (likewise for the
+    // other changes below). Only throws if the server refuses the change,
+    // which undoes the optimistic update.
+    const result = await offlineSyncService.perform({ type: 'favorite.add', childId, activityId });
+    console.log('[childFavoritesSlice] addChildFavorite', result);
+    return { childId, activityId };
   }
 );
 
@@ -135,12 +189,8 @@ export const removeChildFavorite = createAsyncThunk(
   'childFavorites/removeFavorite',
   async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] removeChildFavorite called:', { childId, activityId });
-    try {
-      await childFavoritesService.removeFavorite(childId, activityId);
-      console.log('[childFavoritesSlice] removeChildFavorite API SUCCESS');
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] removeChildFavorite API FAILED:', error?.message);
-    }
+    const result = await offlineSyncService.perform({ type: 'favorite.remove', childId, activityId });
+    console.log('[childFavoritesSlice] removeChildFavorite', result);
     return { childId, activityId };
   }
 );
@@ -150,12 +200,8 @@ export const joinChildWaitlist = createAsyncThunk(
   'childFavorites/joinWaitlist',
   async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] joinChildWaitlist called:', { childId, activityId });
-    try {
-      await childFavoritesService.joinWaitlist(childId, activityId);
-      console.log('[childFavoritesSlice] joinChildWaitlist API SUCCESS');
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] joinChildWaitlist API FAILED:', error?.message);
-    }
+    const result = await offlineSyncService.perform({ type: 'waitlist.join', childId, activityId });
+    console.log('[childFavoritesSlice] joinChildWaitlist', result);
     return { childId, activityId };
   }
 );
@@ -165,12 +211,8 @@ export const leaveChildWaitlist = createAsyncThunk(
   'childFavorites/leaveWaitlist',
   async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] leaveChildWaitlist called:', { childId, activityId });
-    try {
-      await childFavoritesService.leaveWaitlist(childId, activityId);
-      console.log('[childFavoritesSlice] leaveChildWaitlist API SUCCESS');
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] leaveChildWaitlist API FAILED:', error?.message);
-    }
+    const result = await offlineSyncService.perform({ type: 'waitlist.leave', childId, activityId });
+    console.log('[childFavoritesSlice] leaveChildWaitlist', result);
     return { childId, activityId };
   }
 );
@@ -178,9 +220,20 @@ export const leaveChildWaitlist = createAsyncThunk(
 // Fetch watching for multiple children
 export const fetchChildWatching = createAsyncThunk(
   'childFavorites/fetchWatching',
-  async (childIds: string[]) => {
-    const watching = await childFavoritesService.getWatchingForChildren(childIds);
-    return watching;
+  async (childIds: string[], { dispatch }) => {
+    return fetchWithOfflineFallback<ChildWatching>(
+      'watching',
+      childIds,
+      () => childFavoritesService.getWatchingForChildren(childIds),
+      ['watching.add', 'watching.remove'],
+      mutation => ({
+        ...placeholderEntry(mutation, 'createdAt'),
+        notifyAlmostFull: true,
+        notifyPriceChange: true,
+        notifyNewSessions: false,
+      }) as any,
+      dispatch
+    );
   }
 );
 
@@ -189,12 +242,8 @@ export const addChildWatching = createAsyncThunk(
   'childFavorites/addWatching',
   async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] addChildWatching called:', { childId, activityId });
-    try {
-      await childFavoritesService.addWatching(childId, activityId);
-      console.log('[childFavoritesSlice] addChildWatching API SUCCESS');
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] addChildWatching API FAILED:', error?.message);
-    }
+    const result = await offlineSyncService.perform({ type: 'watching.add', childId, activityId });
+    console.log('[childFavoritesSlice] addChildWatching', result);
     return { childId, activityId };
   }
 );
@@ -204,12 +253,8 @@ export const removeChildWatching = createAsyncThunk(
   'childFavorites/removeWatching',
   async ({ childId, activityId }: { childId: string; activityId: string }) => {
     console.log('[childFavoritesSlice] removeChildWatching called:', { childId, activityId });
-    try {
-      await childFavoritesService.removeWatching(childId, activityId);
-      console.log('[childFavoritesSlice] removeChildWatching API SUCCESS');
-    } catch (error: any) {
-      console.error('[childFavoritesSlice] removeChildWatching API FAILED:', error?.message);
-    }
+    const result = await offlineSyncService.perform({ type: 'watching.remove', childId, activityId });
+    console.log('[childFavoritesSlice] removeChildWatching', result);
     return { childId, activityId };
   }
 );
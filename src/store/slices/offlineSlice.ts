@@ -0,0 +1,116 @@
+/**
+ * Redux slice for offline state
+ * Connectivity, queued changes waiting to sync, and whether lists are being
+ * shown from the offline cache
+ */
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { offlineSyncService, ReplayResult } from '../../services/offlineSyncService';
+import { CachedValue } from '../../services/offlineCacheService';
+import { fetchChildFavorites, fetchChildWaitlist, fetchChildWatching } from './childFavoritesSlice';
+import { fetchChildActivities } from './childActivitiesSlice';
+import { RootState } from '../index';
+
+interface OfflineState {
+  isOnline: boolean;
+  pendingCount: number;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  // Queued changes dropped in the last sync because the server had a newer
+  // change, or refused them
+  lastConflicts: number;
+  lastRejected: number;
+  // Oldest out-of-date cache entry currently on screen
+  staleCacheSince: number | null;
+}
+
+const initialState: OfflineState = {
+  isOnline: true,
+  pendingCount: 0,
+  syncing: false,
+  lastSyncedAt: null,
+  lastConflicts: 0,
+  lastRejected: 0,
+  staleCacheSince: null,
+};
+
+// Replay queued changes, then refetch the lists they touched so the UI
+// shows the server's version
+export const replayOfflineQueue = createAsyncThunk<ReplayResult, void, { state: RootState }>(
+  'offline/replay',
+  async (_, { dispatch, getState }) => {
+    const result = await offlineSyncService.replay();
+
+    if (result.childIds.length > 0) {
+      const selectedChildIds = getState().children.selectedChildIds || [];
+      if (selectedChildIds.length > 0) {
+        dispatch(fetchChildFavorites(selectedChildIds));
+        dispatch(fetchChildWaitlist(selectedChildIds));
+        dispatch(fetchChildWatching(selectedChildIds));
+      }
+      for (const childId of result.statusChildIds) {
+        dispatch(fetchChildActivities(childId));
+      }
+    }
+
+    return result;
+  },
+  {
+    condition: (_, { getState }) => !getState().offline.syncing,
+  }
+);
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    setPendingCount: (state, action: PayloadAction<number>) => {
+      state.pendingCount = action.payload;
+    },
+    // A list was loaded from the offline cache
+    servedFromCache: (state, action: PayloadAction<Pick<CachedValue<unknown>, 'cachedAt' | 'fresh'>>) => {
+      const { cachedAt, fresh } = action.payload;
+      if (!fresh) {
+        state.staleCacheSince = Math.min(state.staleCacheSince ?? cachedAt, cachedAt);
+      }
+    },
+    clearStaleCache: (state) => {
+      state.staleCacheSince = null;
+    },
+    clearSyncResult: (state) => {
+      state.lastConflicts = 0;
+      state.lastRejected = 0;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(replayOfflineQueue.pending, (state) => {
+        state.syncing = true;
+      })
+      .addCase(replayOfflineQueue.fulfilled, (state, action) => {
+        state.syncing = false;
+        state.pendingCount = action.payload.remaining;
+        state.lastConflicts = action.payload.conflicts;
+        state.lastRejected = action.payload.rejected;
+        if (action.payload.remaining === 0) {
+          state.lastSyncedAt = Date.now();
+          state.staleCacheSince = null;
+        }
+      })
+      .addCase(replayOfflineQueue.rejected, (state) => {
+        state.syncing = false;
+      });
+  },
+});
+
+export const { setOnline, setPendingCount, servedFromCache, clearStaleCache, clearSyncResult } = offlineSlice.actions;
+
+// Selectors
+export const selectIsOnline = (state: RootState) => state.offline.isOnline;
+export const selectPendingCount = (state: RootState) => state.offline.pendingCount;
+export const selectIsSyncing = (state: RootState) => state.offline.syncing;
+export const selectOfflineState = (state: RootState) => state.offline;
+
+export default offlineSlice.reducer;
@@ -7,6 +7,8 @@ import {
   SubscriptionTier,
   SubscriptionUsage,
   UserSubscription,
+  SubscriptionEntitlement,
+  FamilySharing,
 } from '../../types/subscription';
 
 interface PlanInfo {
@@ -26,6 +28,12 @@ interface SubscriptionState {
   isTrialing: boolean;
   trialDaysRemaining: number | null;
 
+  // Purchases from each provider (App Store/Google Play and web)
+  entitlements: SubscriptionEntitlement[];
+
+  // Whose family plan premium comes from, if not the user's own
+  family: FamilySharing | null;
+
   // Trial eligibility (abuse prevention)
   trialEligible: boolean | null; // null = not checked yet
   trialUsedAt: string | null; // ISO date string if trial already used
@@ -53,6 +61,8 @@ const initialState: SubscriptionState = {
   usage: null,
   isTrialing: false,
   trialDaysRemaining: null,
+  entitlements: [],
+  family: null,
   trialEligible: null,
   trialUsedAt: null,
   availablePlans: [],
@@ -186,6 +196,8 @@ const subscriptionSlice = createSlice({
         state.usage = action.payload.usage;
         state.isTrialing = action.payload.isTrialing;
         state.trialDaysRemaining = action.payload.trialDaysRemaining;
+        state.entitlements = action.payload.entitlements;
+        state.family = action.payload.family;
         state.lastFetched = Date.now();
         state.error = null;
       })
@@ -344,12 +356,22 @@ export const selectSubscription = (state: { subscription?: SubscriptionState })
 export const selectCurrentTier = (state: { subscription?: SubscriptionState }): SubscriptionTier =>
   state.subscription?.currentPlan?.code || 'free';
 
+// Family plans carry premium limits too
 export const selectIsPremium = (state: { subscription?: SubscriptionState }): boolean =>
-  state.subscription?.currentPlan?.code === 'premium';
+  !!state.subscription?.currentPlan && state.subscription.currentPlan.code !== 'free';
 
 export const selectIsTrialing = (state: { subscription?: SubscriptionState }): boolean =>
   state.subscription?.isTrialing ?? false;
 
+export const selectBillingProvider = (state: { subscription?: SubscriptionState }): 'revenuecat' | 'stripe' | null =>
+  state.subscription?.currentSubscription?.externalProvider ?? null;
+
+export const selectEntitlements = (state: { subscription?: SubscriptionState }): SubscriptionEntitlement[] =>
+  state.subscription?.entitlements ?? [];
+
+export const selectFamilySharing = (state: { subscription?: SubscriptionState }): FamilySharing | null =>
+  state.subscription?.family ?? null;
+
 export const selectLimits = (state: { subscription?: SubscriptionState }): PlanFeatures =>
   state.subscription?.limits || DEFAULT_FREE_LIMITS;
 
@@ -403,7 +425,7 @@ export const selectSharesRemaining = (state: { subscription?: SubscriptionState
 
 export const selectCanAddToWaitlist = (state: { subscription?: SubscriptionState }): boolean => {
   // Notifications/waitlist is a premium-only feature
-  const isPremium = state.subscription?.currentPlan?.code === 'premium';
+  const isPremium = selectIsPremium(state);
   const isTrialing = state.subscription?.isTrialing ?? false;
   return isPremium || isTrialing;
 };
@@ -14,6 +14,12 @@ export interface AIRecommendation {
   warnings: string[];
 }
 
+/**
+ * Feedback the app reports on a recommendation. Favorites, waitlist joins
+ * and registrations are picked up by the server.
+ */
+export type AIRecommendationFeedbackEvent = 'detail_open' | 'dismiss';
+
 /**
  * Response from AI recommendations endpoint
  */
@@ -24,6 +30,10 @@ export interface AIRecommendationResponse {
   questions: string[];
   /** Full activity data keyed by activity_id - avoids needing to fetch each activity */
   activities?: Record<string, any>;
+  /** Identifies these recommendations when sending feedback on them */
+  request_id?: string;
+  /** Ranking version that ordered the recommendations */
+  ranking_version?: string;
   _meta: {
     source: 'cache' | 'heuristic' | 'llm';
     model?: string;
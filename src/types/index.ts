@@ -67,6 +67,11 @@ export interface Activity {
   // Subtype support
   activitySubtype?: ActivityTypeInfo;
 
+  // Ids from the API (used for "not interested" dismissals)
+  providerId?: string;
+  locationId?: string | null;
+  activitySubtypeId?: string | null;
+
   // Date fields (alternative to dateRange)
   startDate?: Date | string;
   endDate?: Date | string;
@@ -120,6 +125,44 @@ export interface ActivitySession {
   notes?: string;
 }
 
+/**
+ * A single entry in an activity's "what changed" timeline
+ */
+export interface ActivityChange {
+  id: string;
+  kind: 'price' | 'capacity' | 'schedule' | 'instructor' | 'status';
+  field: string;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+  summary: string;
+  changedAt: string;
+}
+
+/**
+ * Daily spots available and price for an activity, with a sell-out projection
+ */
+export interface ActivityTrends {
+  activityId: string;
+  days: number;
+  totalSpots: number | null;
+  points: Array<{
+    date: string;
+    spotsAvailable: number | null;
+    spotsMin: number | null;
+    spotsMax: number | null;
+    cost: number | null;
+  }>;
+  projection: {
+    spotsAvailable: number | null;
+    spotsPerDay: number | null;
+    daysUntilFull: number | null;
+    projectedFullAt: string | null;
+    basedOnDays: number;
+    message: string | null;
+  };
+}
+
 export interface ActivityPrerequisite {
   id?: string;
   name: string;
@@ -3,8 +3,8 @@
  * Defines types for the freemium subscription system
  */
 
-export type SubscriptionTier = 'free' | 'premium';
-export type SubscriptionStatus = 'active' | 'trialing' | 'cancelled' | 'expired';
+export type SubscriptionTier = 'free' | 'premium' | 'family';
+export type SubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'cancelled' | 'expired';
 export type BillingCycle = 'monthly' | 'annual';
 
 /**
@@ -47,6 +47,29 @@ export interface UserSubscription {
   externalProvider: 'revenuecat' | 'stripe' | null;
 }
 
+/**
+ * A premium purchase from one payment provider. Premium bought in the app
+ * (RevenueCat) and on the website (Stripe) are tracked separately; the
+ * subscription reflects the best one.
+ */
+export interface SubscriptionEntitlement {
+  provider: 'revenuecat' | 'stripe';
+  planCode: SubscriptionTier;
+  status: 'active' | 'trialing' | 'past_due' | 'cancelled' | 'expired' | 'refunded';
+  billingCycle: BillingCycle | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  refundedAt: string | null;
+}
+
+/**
+ * The family plan a co-parent's premium comes from
+ */
+export interface FamilySharing {
+  ownerId: string;
+  ownerName: string;
+}
+
 /**
  * Usage statistics for the current user
  */
@@ -74,6 +97,9 @@ export interface SubscriptionInfo {
   usage: SubscriptionUsage;
   isTrialing: boolean;
   trialDaysRemaining: number | null;
+  entitlements: SubscriptionEntitlement[];
+  // Set when premium comes from someone else's family plan
+  family: FamilySharing | null;
 }
 
 /**
@@ -0,0 +1,167 @@
+/**
+ * Shareable link helpers
+ *
+ * Builds the universal links the app shares (and the website serves as a
+ * fallback for people without the app), and reads search filters back out of
+ * a link's query string. Paths here must match the `linking` config in
+ * RootNavigator and the pages under website/src/app.
+ */
+import { ContextualFilters } from '../types/filters';
+
+export const DEEP_LINK_BASE_URL = 'https://kidsactivitytracker.ca';
+
+/**
+ * Contextual filters as they appear in a search link's query string
+ */
+export interface SearchLinkFilterParams {
+  // Comma-separated activity types
+  types?: string;
+  // "min-max"
+  age?: string;
+  price?: string;
+  // Comma-separated day names
+  days?: string;
+  // Comma-separated morning/afternoon/evening
+  time?: string;
+  env?: string;
+}
+
+/**
+ * Full query string of a search link (/search?...). Everything arrives as a
+ * string; the results screen type and title come first, then the filters.
+ */
+export interface SearchLinkParams extends SearchLinkFilterParams {
+  type?: string;
+  activityType?: string;
+  subtype?: string;
+  title?: string;
+  // Age group screens
+  ageMin?: string;
+  ageMax?: string;
+}
+
+export interface SearchLinkOptions {
+  type?: string;
+  activityType?: string;
+  subtype?: string;
+  title?: string;
+  ageMin?: number;
+  ageMax?: number;
+  filters?: ContextualFilters;
+}
+
+const TIMES_OF_DAY = ['morning', 'afternoon', 'evening'] as const;
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const MAX_LIST_ITEMS = 20;
+const MAX_VALUE_LENGTH = 100;
+
+const splitList = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0 && item.length <= MAX_VALUE_LENGTH)
+    .slice(0, MAX_LIST_ITEMS);
+
+const parseRange = (value?: string): { min: number; max: number } | undefined => {
+  const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(value || '');
+  if (!match) return undefined;
+  const min = Number(match[1]);
+  const max = Number(match[2]);
+  return min <= max ? { min, max } : undefined;
+};
+
+const toQueryString = (params: Record<string, string | undefined>): string => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value as string)}`)
+    .join('&');
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Write contextual filters as search link query params
+ */
+export const encodeSearchFilters = (filters: ContextualFilters): SearchLinkFilterParams => {
+  const params: SearchLinkFilterParams = {};
+
+  if (filters.activityTypes?.length) params.types = filters.activityTypes.join(',');
+  if (filters.ageRange) params.age = `${filters.ageRange.min}-${filters.ageRange.max}`;
+  if (filters.priceRange) params.price = `${filters.priceRange.min}-${filters.priceRange.max}`;
+  if (filters.daysOfWeek?.length) params.days = filters.daysOfWeek.join(',');
+  if (filters.timeOfDay?.length) params.time = filters.timeOfDay.join(',');
+  if (filters.environment && filters.environment !== 'all') params.env = filters.environment;
+
+  return params;
+};
+
+/**
+ * Read contextual filters from a search link. Unknown or malformed values are
+ * dropped. Returns undefined if the link carries no filters.
+ */
+export const parseSearchLinkFilters = (params: SearchLinkFilterParams): ContextualFilters | undefined => {
+  const filters: ContextualFilters = {};
+
+  const types = splitList(params.types);
+  if (types.length > 0) filters.activityTypes = types;
+
+  const ageRange = parseRange(params.age);
+  if (ageRange) filters.ageRange = ageRange;
+
+  const priceRange = parseRange(params.price);
+  if (priceRange) filters.priceRange = priceRange;
+
+  const days = splitList(params.days).filter(day => DAY_NAMES.includes(day));
+  if (days.length > 0) filters.daysOfWeek = days;
+
+  const times = splitList(params.time).filter((time): time is typeof TIMES_OF_DAY[number] =>
+    (TIMES_OF_DAY as readonly string[]).includes(time)
+  );
+  if (times.length > 0) filters.timeOfDay = times;
+
+  if (params.env === 'indoor' || params.env === 'outdoor') filters.environment = params.env;
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+};
+
+export const buildSearchLink = ({ type, activityType, subtype, title, ageMin, ageMax, filters }: SearchLinkOptions): string =>
+  `${DEEP_LINK_BASE_URL}/search${toQueryString({
+    type,
+    activityType,
+    subtype,
+    title,
+    ageMin: ageMin?.toString(),
+    ageMax: ageMax?.toString(),
+    ...(filters ? encodeSearchFilters(filters) : {}),
+  })}`;
+
+export const buildCityLink = (city: string): string =>
+  `${DEEP_LINK_BASE_URL}/city/${encodeURIComponent(city)}`;
+
+export const buildVenueLink = (locationId: string): string =>
+  `${DEEP_LINK_BASE_URL}/venue/${encodeURIComponent(locationId)}`;
+
+export const buildActivityTypeLink = (typeCode: string): string =>
+  `${DEEP_LINK_BASE_URL}/activity-type/${encodeURIComponent(typeCode)}`;
+
+/**
+ * Link to one child's calendar on a given day (yyyy-MM-dd). Only opens for
+ * people who can already see that child's calendar.
+ */
+export const buildCalendarDayLink = (childId: string, date: string): string =>
+  `${DEEP_LINK_BASE_URL}/calendar/${encodeURIComponent(childId)}/${date}`;
+
+/**
+ * Link to a shared saved search. Takes the search's share token, not its ID.
+ */
+export const buildSavedSearchLink = (shareToken: string): string =>
+  `${DEEP_LINK_BASE_URL}/saved-search/${encodeURIComponent(shareToken)}`;
+
+/**
+ * Whether a link's date is a real yyyy-MM-dd day
+ */
+export const isValidLinkDate = (date?: string): date is string => {
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
@@ -0,0 +1,9 @@
+import DeviceInfo from 'react-native-device-info';
+
+/**
+ * Readable name for this device, e.g. "iPhone 15 (iOS 18.1)", shown in the
+ * account's devices and sessions list
+ */
+export const getDeviceName = (): string => {
+  return `${DeviceInfo.getModel()} (${DeviceInfo.getSystemName()} ${DeviceInfo.getSystemVersion()})`;
+};
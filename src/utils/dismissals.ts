@@ -0,0 +1,68 @@
+/**
+ * "Not interested" helpers
+ *
+ * From an activity card a parent can hide the activity itself, everything
+ * from its provider, at its location or of its subtype, or its whole
+ * category for a child. Categories go in the child's excludedCategories
+ * preference; the rest are stored as dismissals on the server. These helpers
+ * build the choices an activity supports and describe saved dismissals for
+ * the undo list.
+ */
+import type { Activity } from '../types';
+import type { DismissalType } from '../services/childDismissalsService';
+
+export type NotInterestedOption =
+  | { kind: DismissalType; targetId: string; label: string }
+  | { kind: 'category'; category: string; label: string };
+
+const locationNameOf = (activity: Activity): string | undefined => {
+  if (typeof activity.location === 'string') {
+    return activity.location !== 'Unknown' ? activity.location : activity.locationName;
+  }
+  return activity.location?.name || activity.locationName;
+};
+
+/**
+ * Things a parent can hide from this activity, most specific first
+ */
+export function getNotInterestedOptions(activity: Activity): NotInterestedOption[] {
+  const options: NotInterestedOption[] = [
+    { kind: 'activity', targetId: activity.id, label: 'This activity' },
+  ];
+
+  if (activity.providerId && activity.provider) {
+    options.push({ kind: 'provider', targetId: activity.providerId, label: `Anything from ${activity.provider}` });
+  }
+
+  const locationName = locationNameOf(activity);
+  if (activity.locationId && locationName) {
+    options.push({ kind: 'location', targetId: activity.locationId, label: `Anything at ${locationName}` });
+  }
+
+  const subtypeId = activity.activitySubtypeId || activity.activitySubtype?.id;
+  if (subtypeId && activity.activitySubtype?.name) {
+    options.push({ kind: 'subtype', targetId: subtypeId, label: `All ${activity.activitySubtype.name}` });
+  }
+
+  if (activity.category) {
+    options.push({ kind: 'category', category: activity.category, label: `Anything in ${activity.category}` });
+  }
+
+  return options;
+}
+
+/**
+ * Undo list text for a saved dismissal
+ */
+export function describeDismissal(type: DismissalType, label?: string | null): string {
+  switch (type) {
+    case 'activity':
+      return label || 'An activity';
+    case 'provider':
+      return `Anything from ${label || 'a provider'}`;
+    case 'location':
+      return `Anything at ${label || 'a location'}`;
+    case 'subtype':
+      return `All ${label || 'activities of a type'}`;
+  }
+}
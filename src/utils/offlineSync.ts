@@ -0,0 +1,149 @@
+/**
+ * Offline sync helpers
+ *
+ * Favorite, waitlist, watching and status changes made without a connection
+ * are written to a queue and replayed when the app is back online. These
+ * helpers hold the rules for that queue: how entries for the same item
+ * collapse, what a failed replay means, when a queued status change has been
+ * overtaken by an edit made elsewhere, and how pending changes are laid over
+ * lists fetched from the server or the offline cache.
+ */
+
+export type OfflineMutationType =
+  | 'favorite.add'
+  | 'favorite.remove'
+  | 'waitlist.join'
+  | 'waitlist.leave'
+  | 'watching.add'
+  | 'watching.remove'
+  | 'activity.status';
+
+export interface OfflineMutation {
+  id: string;
+  type: OfflineMutationType;
+  childId: string;
+  activityId: string;
+  // Body for activity.status
+  payload?: Record<string, any>;
+  // When the change was made on this device (ISO)
+  createdAt: string;
+  attempts: number;
+}
+
+export type ReplayOutcome =
+  // Done (or already the case on the server)
+  | 'applied'
+  // Couldn't reach the server; keep it queued
+  | 'retry'
+  // Overtaken by a newer change made elsewhere; the server wins
+  | 'conflict'
+  // The server refused it (activity or child gone)
+  | 'rejected';
+
+export interface CacheEntry<T> {
+  data: T;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/** Replays before a mutation that keeps failing to reach the server is dropped */
+export const MAX_REPLAY_ATTEMPTS = 5;
+
+const REMOVAL_TYPES: OfflineMutationType[] = ['favorite.remove', 'waitlist.leave', 'watching.remove'];
+
+/**
+ * Mutations with the same key act on the same thing; only the latest counts
+ */
+export const mutationKey = (mutation: Pick<OfflineMutation, 'type' | 'childId' | 'activityId'>): string =>
+  `${mutation.type.split('.')[0]}:${mutation.childId}:${mutation.activityId}`;
+
+/**
+ * Add a mutation to the queue, replacing any earlier one for the same item.
+ * Adding then removing a favorite offline leaves just the removal, which the
+ * server treats as a no-op if the favorite was never saved.
+ */
+export const enqueueMutation = (queue: OfflineMutation[], mutation: OfflineMutation): OfflineMutation[] => {
+  const key = mutationKey(mutation);
+  const previous = queue.find(entry => mutationKey(entry) === key);
+
+  // Status edits merge so an offline note and an offline rating both survive
+  const merged = previous && mutation.type === 'activity.status'
+    ? { ...mutation, payload: { ...previous.payload, ...mutation.payload }, createdAt: previous.createdAt }
+    : mutation;
+
+  return [...queue.filter(entry => mutationKey(entry) !== key), merged];
+};
+
+/**
+ * What a failed replay means. Errors without an HTTP response never reached
+ * the server. Removing something that's already gone counts as done.
+ */
+export const classifyReplayError = (mutation: OfflineMutation, error: any): ReplayOutcome => {
+  const status: number | undefined = error?.response?.status;
+
+  if (!status || status >= 500 || status === 401 || status === 408 || status === 429) {
+    return 'retry';
+  }
+  if (status === 409) {
+    return 'conflict';
+  }
+  return REMOVAL_TYPES.includes(mutation.type) ? 'applied' : 'rejected';
+};
+
+/**
+ * A queued status change loses to one saved on the server after it was made
+ * (e.g. a co-parent updated it while this phone was offline), and is moot if
+ * the activity is no longer on the child's calendar.
+ */
+export const hasStatusConflict = (
+  mutation: OfflineMutation,
+  server: { updatedAt?: string | null } | null | undefined
+): boolean => {
+  if (!server) return true;
+  if (!server.updatedAt) return false;
+  return new Date(server.updatedAt).getTime() > new Date(mutation.createdAt).getTime();
+};
+
+/**
+ * Lay pending additions and removals over a list so a refresh (or cached
+ * copy) doesn't bring back something removed offline or drop something added.
+ */
+export const applyPendingMutations = <T extends { childId: string; activityId: string }>(
+  items: T[],
+  pending: OfflineMutation[],
+  addType: OfflineMutationType,
+  removeType: OfflineMutationType,
+  placeholder: (mutation: OfflineMutation) => T
+): T[] => {
+  const removed = new Set(
+    pending.filter(m => m.type === removeType).map(m => `${m.childId}:${m.activityId}`)
+  );
+  const result = items.filter(item => !removed.has(`${item.childId}:${item.activityId}`));
+
+  for (const mutation of pending) {
+    if (mutation.type !== addType) continue;
+    const exists = result.some(item => item.childId === mutation.childId && item.activityId === mutation.activityId);
+    if (!exists) {
+      result.push(placeholder(mutation));
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Apply queued status changes to a child's calendar entries
+ */
+export const applyPendingStatusChanges = <T extends { childId: string; activityId: string }>(
+  items: T[],
+  pending: OfflineMutation[]
+): T[] =>
+  items.map(item => {
+    const change = pending.find(
+      m => m.type === 'activity.status' && m.childId === item.childId && m.activityId === item.activityId
+    );
+    return change ? { ...item, ...change.payload } : item;
+  });
+
+export const isCacheFresh = (entry: Pick<CacheEntry<unknown>, 'expiresAt'>, now: number = Date.now()): boolean =>
+  now < entry.expiresAt;
@@ -47,6 +47,9 @@ const STORAGE_KEYS = {
   ACCESS_TOKEN_EXPIRY: '@auth_access_token_expiry',
   REFRESH_TOKEN_EXPIRY: '@auth_refresh_token_expiry',
   USER_DATA: '@auth_user_data',
+  TWO_FACTOR_TOKEN: '@auth_two_factor_token',
+  // Kept across sign-outs so a remembered device stays remembered
+  TRUSTED_DEVICE_TOKEN: '@auth_trusted_device_token',
 };
 
 export interface AuthTokens {
@@ -165,11 +168,75 @@ export const clearUserData = async (): Promise<void> => {
   }
 };
 
+// Two-factor tokens: one for the current sign-in, one for a remembered device
+export const setTwoFactorToken = (token: string | null): void => {
+  try {
+    const storage = getStorage();
+    if (!storage) return;
+    if (token) {
+      storage.set(STORAGE_KEYS.TWO_FACTOR_TOKEN, token);
+    } else {
+      storage.delete(STORAGE_KEYS.TWO_FACTOR_TOKEN);
+    }
+  } catch (error) {
+    secureError('Error storing two-factor token:', error);
+  }
+};
+
+export const getTwoFactorToken = (): string | null => {
+  try {
+    return getStorage()?.getString(STORAGE_KEYS.TWO_FACTOR_TOKEN) || null;
+  } catch (error) {
+    secureError('Error retrieving two-factor token:', error);
+    return null;
+  }
+};
+
+export const setTrustedDeviceToken = (token: string | null): void => {
+  try {
+    const storage = getStorage();
+    if (!storage) return;
+    if (token) {
+      storage.set(STORAGE_KEYS.TRUSTED_DEVICE_TOKEN, token);
+    } else {
+      storage.delete(STORAGE_KEYS.TRUSTED_DEVICE_TOKEN);
+    }
+  } catch (error) {
+    secureError('Error storing trusted device token:', error);
+  }
+};
+
+export const getTrustedDeviceToken = (): string | null => {
+  try {
+    return getStorage()?.getString(STORAGE_KEYS.TRUSTED_DEVICE_TOKEN) || null;
+  } catch (error) {
+    secureError('Error retrieving trusted device token:', error);
+    return null;
+  }
+};
+
+/**
+ * Headers that carry the second factor on authenticated requests
+ */
+export const getTwoFactorHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const twoFactorToken = getTwoFactorToken();
+  const trustedDeviceToken = getTrustedDeviceToken();
+  if (twoFactorToken) {
+    headers['X-Two-Factor-Token'] = twoFactorToken;
+  }
+  if (trustedDeviceToken) {
+    headers['X-Trusted-Device'] = trustedDeviceToken;
+  }
+  return headers;
+};
+
 // Clear all auth data
 export const clearAllAuthData = async (): Promise<void> => {
   try {
     await clearTokens();
     await clearUserData();
+    setTwoFactorToken(null);
   } catch (error) {
     secureError('Error clearing all auth data:', error);
     throw error;
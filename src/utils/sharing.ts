@@ -2,9 +2,7 @@ import { Linking, Alert, Share, Platform } from 'react-native';
 import { Activity } from '../types';
 import { Child } from '../store/slices/childrenSlice';
 import { formatActivityPrice } from './formatters';
-
-// Base URL for deep links - this should match your website domain
-const DEEP_LINK_BASE_URL = 'https://kidsactivitytracker.ca';
+import { DEEP_LINK_BASE_URL } from './deepLinks';
 
 interface ShareActivityOptions {
   activity: Activity;
@@ -426,4 +424,23 @@ export const shareActivity = async ({
       [{ text: 'OK' }]
     );
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Share a link to a search, city, venue, activity type, calendar day or saved
+ * search via the native Share sheet. Links open in the app if installed, or
+ * on the website otherwise.
+ */
+export const shareLink = async (title: string, url: string, description?: string): Promise<void> => {
+  try {
+    const message = [description || title, '', '📲 Open in Kids Activity Tracker:', url].join('\n');
+    await Share.share({ message, title });
+  } catch (error) {
+    console.error('Error sharing link:', error);
+    Alert.alert(
+      'Share Failed',
+      'Unable to share this link. Please try again.',
+      [{ text: 'OK' }]
+    );
+  }
+};
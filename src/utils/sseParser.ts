@@ -0,0 +1,49 @@
+/**
+ * Minimal Server-Sent Events parser for streamed API responses.
+ *
+ * React Native's fetch can't read a response body incrementally, so streamed
+ * endpoints are read through XMLHttpRequest progress events and the growing
+ * text is fed through this parser.
+ */
+
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse complete messages out of a buffer.
+ * Returns the parsed messages and any trailing partial message to keep for the next chunk.
+ */
+export const parseSseBuffer = (buffer: string): { messages: SseMessage[]; remainder: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const remainder = blocks.pop() ?? '';
+  const messages: SseMessage[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      // Lines starting with a colon are comments (often used as keep-alives)
+      if (!line || line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      let value = separator === -1 ? '' : line.slice(separator + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        dataLines.push(value);
+      }
+    }
+
+    if (dataLines.length > 0) {
+      messages.push({ event, data: dataLines.join('\n') });
+    }
+  }
+
+  return { messages, remainder };
+};
@@ -0,0 +1,59 @@
+// Force dynamic rendering to avoid build-time API fetching
+export const dynamic = 'force-dynamic';
+
+import { Metadata } from 'next';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { api, ActivityTypeDetail } from '@/lib/api';
+import { isValidLinkId } from '@/lib/deepLinks';
+
+async function getActivityType(code: string): Promise<ActivityTypeDetail | null> {
+  if (!isValidLinkId(code)) return null;
+  try {
+    return await api.getActivityType(code);
+  } catch (error) {
+    console.error('Failed to fetch activity type:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ code: string }> }): Promise<Metadata> {
+  const { code } = await params;
+  const activityType = await getActivityType(code);
+  return {
+    title: `${activityType?.name || 'Activities'} for Kids | Kids Activity Tracker`,
+    description: activityType?.description || undefined,
+  };
+}
+
+export default async function ActivityTypeLinkPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+  const activityType = await getActivityType(code);
+
+  if (!activityType) {
+    return <AppLinkFallback label="Shared Activity Type" title="Activities" error="Activity type not found" />;
+  }
+
+  const subtypes = activityType.subtypes
+    .filter(subtype => subtype.activityCount > 0)
+    .sort((a, b) => b.activityCount - a.activityCount);
+
+  return (
+    <AppLinkFallback
+      label="Shared Activity Type"
+      title={activityType.name}
+      subtitle={`${activityType.totalActivityCount} activities`}
+      appPath={`activity-type/${encodeURIComponent(activityType.code)}`}
+    >
+      {activityType.description && <p className="text-gray-600 mb-4">{activityType.description}</p>}
+      {subtypes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {subtypes.map(subtype => (
+            <span key={subtype.code} className="inline-block bg-pink-100 text-[#D53F8C] px-3 py-1 rounded-full text-sm font-medium">
+              {subtype.name} ({subtype.activityCount})
+            </span>
+          ))}
+        </div>
+      )}
+    </AppLinkFallback>
+  );
+}
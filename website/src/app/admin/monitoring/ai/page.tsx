@@ -73,12 +73,20 @@ export default function AIMetricsDashboard() {
             <p className="text-gray-500 mt-1">OpenAI usage, costs, and budget tracking</p>
           </div>
         </div>
-        <RefreshControl
-          onRefresh={fetchData}
-          isLoading={loading}
-          lastUpdated={lastUpdated}
-          autoRefreshInterval={30}
-        />
+        <div className="flex items-center gap-4">
+          <Link
+            href="/admin/monitoring/ranking"
+            className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+          >
+            Ranking
+          </Link>
+          <RefreshControl
+            onRefresh={fetchData}
+            isLoading={loading}
+            lastUpdated={lastUpdated}
+            autoRefreshInterval={30}
+          />
+        </div>
       </div>
 
       {error && (
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { StatusBadge } from '@/components/admin/monitoring/StatusIndicator';
+import MetricCard from '@/components/admin/monitoring/MetricCard';
+import RefreshControl from '@/components/admin/monitoring/RefreshControl';
+import {
+  getRankingReport,
+  trainRankingModel,
+  updateRankingModel,
+  RankingReport,
+  RankingModel,
+} from '@/lib/adminApi';
+
+const DAY_OPTIONS = [7, 30, 90];
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export default function RankingDashboard() {
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [report, setReport] = useState<RankingReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [training, setTraining] = useState(false);
+  // Traffic percentage being edited, by model version
+  const [trafficDrafts, setTrafficDrafts] = useState<Record<string, string>>({});
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await getRankingReport(days);
+      setReport(data);
+      setTrafficDrafts(Object.fromEntries(data.models.map((m) => [m.version, m.trafficPercent.toString()])));
+      setLastUpdated(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleTrain = async () => {
+    setTraining(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const model = await trainRankingModel();
+      setMessage(`Trained candidate ${model.version}`);
+      fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to train model');
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const handleUpdate = async (model: RankingModel, status: RankingModel['status']) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const trafficPercent = parseInt(trafficDrafts[model.version] || '0', 10);
+      await updateRankingModel(model.version, {
+        status,
+        ...(status === 'active' && { trafficPercent }),
+      });
+      fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update model');
+    }
+  };
+
+  const baseline = report?.versions.find((v) => v.version === 'baseline');
+  const totalImpressions = report?.versions.reduce((sum, v) => sum + v.impressions, 0) || 0;
+  const activeTraffic = report?.models
+    .filter((m) => m.status === 'active')
+    .reduce((sum, m) => sum + m.trafficPercent, 0) || 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/admin/monitoring/ai" className="text-gray-500 hover:text-gray-700">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Recommendation Ranking</h1>
+            <p className="text-gray-500 mt-1">Engagement by ranking version and learned models</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#E8638B]"
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>Last {option} days</option>
+            ))}
+          </select>
+          <RefreshControl
+            onRefresh={fetchData}
+            isLoading={loading}
+            lastUpdated={lastUpdated}
+            autoRefreshInterval={0}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-700">{message}</div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          title="Impressions"
+          value={totalImpressions.toLocaleString()}
+          loading={loading}
+          color="blue"
+        />
+        <MetricCard
+          title="Baseline Engagement"
+          value={baseline ? formatRate(baseline.engagementRate) : '-'}
+          subtitle="Shown items with positive feedback"
+          loading={loading}
+        />
+        <MetricCard
+          title="Baseline Dismissals"
+          value={baseline ? formatRate(baseline.dismissRate) : '-'}
+          loading={loading}
+        />
+        <MetricCard
+          title="Traffic on Learned Models"
+          value={`${activeTraffic}%`}
+          loading={loading}
+          color="pink"
+        />
+      </div>
+
+      {/* Version Comparison */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Ranking Versions</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Rates are per recommendation shown. &quot;llm&quot; is ranked by the model; the rest by the activity scorer.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Requests</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Shown</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Opened</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Favorited</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Waitlisted</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Registered</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Dismissed</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Engagement</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Avg Engaged Rank</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {report?.versions.map((version) => (
+                <tr key={version.version}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{version.version}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{version.requests}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{version.impressions}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatRate(version.detailOpenRate)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatRate(version.favoriteRate)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatRate(version.waitlistRate)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatRate(version.registrationRate)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{formatRate(version.dismissRate)}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatRate(version.engagementRate)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {version.avgEngagedRank !== null ? version.avgEngagedRank.toFixed(1) : '-'}
+                  </td>
+                </tr>
+              ))}
+              {report && report.versions.length === 0 && (
+                <tr>
+                  <td colSpan={10} className="px-4 py-6 text-sm text-center text-gray-500">
+                    No recommendation feedback in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Models */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Learned Models</h2>
+            <p className="text-sm text-gray-500">
+              Trained nightly from the last 90 days of feedback. Candidates get no traffic until activated.
+            </p>
+          </div>
+          <button
+            onClick={handleTrain}
+            disabled={training}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#E8638B] hover:bg-[#D53F8C] rounded-lg disabled:opacity-50"
+          >
+            {training ? 'Training...' : 'Train Now'}
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Version</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Trained</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Lists</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">NDCG@10</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Baseline NDCG@10</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Traffic %</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {report?.models.map((model) => (
+                <tr key={model.version}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{model.version}</td>
+                  <td className="px-4 py-3">
+                    <StatusBadge
+                      status={model.status === 'active' ? 'healthy' : model.status === 'candidate' ? 'warning' : 'inactive'}
+                      label={model.status.charAt(0).toUpperCase() + model.status.slice(1)}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{new Date(model.trainedAt).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{model.sampleCount}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{model.metrics.ndcg.toFixed(3)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{model.metrics.baselineNdcg.toFixed(3)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {model.status === 'retired' ? (
+                      '-'
+                    ) : (
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={trafficDrafts[model.version] ?? ''}
+                        onChange={(e) => setTrafficDrafts((prev) => ({ ...prev, [model.version]: e.target.value }))}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#E8638B]"
+                      />
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex gap-3">
+                      {model.status !== 'retired' && (
+                        <button
+                          onClick={() => handleUpdate(model, 'active')}
+                          className="text-[#E8638B] hover:text-[#D53F8C] font-medium"
+                        >
+                          {model.status === 'active' ? 'Update' : 'Activate'}
+                        </button>
+                      )}
+                      {model.status !== 'retired' && (
+                        <button
+                          onClick={() => handleUpdate(model, 'retired')}
+                          className="text-gray-500 hover:text-gray-700 font-medium"
+                        >
+                          Retire
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {report && report.models.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-sm text-center text-gray-500">
+                    No models trained yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { Metadata } from 'next';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { formatLinkDate, isValidLinkDate, isValidLinkId } from '@/lib/deepLinks';
+
+export const metadata: Metadata = {
+  title: 'Shared Calendar Day | Kids Activity Tracker',
+};
+
+// Calendars are private, so the page only shows the day and points to the app
+export default async function CalendarDayLinkPage({ params }: { params: Promise<{ childId: string; date: string }> }) {
+  const { childId, date } = await params;
+
+  if (!isValidLinkId(childId) || !isValidLinkDate(date)) {
+    return <AppLinkFallback label="Shared Calendar" title="Calendar" error="Invalid calendar link" />;
+  }
+
+  return (
+    <AppLinkFallback
+      label="Shared Calendar"
+      title={formatLinkDate(date)}
+      appPath={`calendar/${encodeURIComponent(childId)}/${date}`}
+    >
+      <p className="text-gray-600">
+        Open this day in the app to see the schedule. You&apos;ll need access to this child&apos;s calendar,
+        so ask the person who shared it to invite you if it doesn&apos;t open.
+      </p>
+    </AppLinkFallback>
+  );
+}
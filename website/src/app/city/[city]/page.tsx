@@ -0,0 +1,61 @@
+// Force dynamic rendering to avoid build-time API fetching
+export const dynamic = 'force-dynamic';
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { api, CityVenuesResponse } from '@/lib/api';
+import { decodeLinkParam } from '@/lib/deepLinks';
+
+async function getCity(city: string): Promise<CityVenuesResponse | null> {
+  try {
+    return await api.getCityVenues(city);
+  } catch (error) {
+    console.error('Failed to fetch city venues:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ city: string }> }): Promise<Metadata> {
+  const { city } = await params;
+  const name = decodeLinkParam(city);
+  return {
+    title: `Kids Activities in ${name} | Kids Activity Tracker`,
+    description: `Browse swimming, sports, arts and more for kids in ${name}.`,
+  };
+}
+
+export default async function CityLinkPage({ params }: { params: Promise<{ city: string }> }) {
+  const { city } = await params;
+  const name = decodeLinkParam(city);
+  const data = await getCity(name);
+
+  if (!data || data.totalVenues === 0) {
+    return <AppLinkFallback label="Shared City" title={name} error="City not found" />;
+  }
+
+  const topVenues = [...data.locations]
+    .sort((a, b) => (b.activityCount ?? 0) - (a.activityCount ?? 0))
+    .slice(0, 5);
+
+  return (
+    <AppLinkFallback
+      label="Shared City"
+      title={data.city}
+      subtitle={`${data.totalActivities} activities at ${data.totalVenues} venues`}
+      appPath={`city/${encodeURIComponent(data.city)}`}
+    >
+      <p className="text-sm text-gray-500 mb-2">Popular venues</p>
+      <ul className="divide-y divide-gray-100">
+        {topVenues.map(venue => (
+          <li key={venue.id}>
+            <Link href={`/venue/${venue.id}`} className="flex justify-between py-3 hover:text-[#FF385C]">
+              <span className="font-semibold text-gray-900">{venue.name}</span>
+              <span className="text-sm text-gray-500">{venue.activityCount ?? 0}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </AppLinkFallback>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  accountApi,
+  getBillingToken,
+  setBillingToken,
+  BillingCycle,
+  CurrentPremium,
+  PremiumEntitlement,
+  PremiumPlan,
+} from '@/lib/accountApi';
+
+// Entitlements that still give access; mirrors the server
+function hasAccess(entitlement: PremiumEntitlement): boolean {
+  if (entitlement.status === 'active' || entitlement.status === 'trialing') return true;
+  if (entitlement.status === 'past_due' || entitlement.status === 'cancelled') {
+    return !!entitlement.currentPeriodEnd && new Date(entitlement.currentPeriodEnd) > new Date();
+  }
+  return false;
+}
+
+const formatDate = (date: string | null) => {
+  if (!date) return '';
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export default function PremiumPage() {
+  const [hasToken, setHasToken] = useState(false);
+  const [current, setCurrent] = useState<CurrentPremium | null>(null);
+  const [plan, setPlan] = useState<PremiumPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    // Move the link token out of the address bar
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    if (token) {
+      setBillingToken(token);
+      params.delete('token');
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    }
+
+    if (params.get('status') === 'success') {
+      setMessage('Thanks! Premium is now active in the app.');
+    }
+
+    if (!getBillingToken()) {
+      setIsLoading(false);
+      return;
+    }
+
+    setHasToken(true);
+    fetchPremium();
+  }, []);
+
+  const fetchPremium = async () => {
+    try {
+      const [currentResponse, plansResponse] = await Promise.all([accountApi.getCurrent(), accountApi.getPlans()]);
+      setCurrent(currentResponse);
+      setPlan(plansResponse.plans.find((p) => p.code === 'premium') || null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ message?: string; url?: string }>) => {
+    setIsWorking(true);
+    setError('');
+    setMessage('');
+    try {
+      const result = await action();
+      if (result.url) {
+        window.location.href = result.url;
+        return;
+      }
+      if (result.message) setMessage(result.message);
+      await fetchPremium();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!confirm('Cancel Premium? You keep it until the end of the period you paid for.')) return;
+    runAction(() => accountApi.cancel());
+  };
+
+  const storeEntitlement = current?.entitlements.find((e) => e.provider === 'revenuecat' && hasAccess(e));
+  const webEntitlement = current?.entitlements.find((e) => e.provider === 'stripe' && hasAccess(e));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#E8638B]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-12">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-900">
+            Kids Activity Tracker <span className="gradient-text">Premium</span>
+          </h1>
+          <p className="mt-4 text-lg text-gray-600 max-w-xl mx-auto">
+            Unlimited children and favorites, instant alerts, saved searches and calendar export.
+          </p>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg mb-6">
+            <p className="text-green-700">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!hasToken ? (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 text-center">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Open this page from the app</h2>
+            <p className="text-gray-600">
+              In the app, open the Premium screen and choose &quot;Subscribe on the web instead&quot; so we know which
+              account to upgrade.
+            </p>
+          </div>
+        ) : storeEntitlement && !webEntitlement ? (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 text-center">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">You already have Premium</h2>
+            <p className="text-gray-600">
+              Your subscription was bought through the App Store or Google Play
+              {storeEntitlement.currentPeriodEnd && ` and runs until ${formatDate(storeEntitlement.currentPeriodEnd)}`}.
+              Manage it from your phone&apos;s subscription settings.
+            </p>
+          </div>
+        ) : webEntitlement ? (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Your Premium</h2>
+            <p className="text-gray-600 mb-6">
+              {webEntitlement.status === 'trialing' && 'Free trial · '}
+              Billed {webEntitlement.billingCycle === 'annual' ? 'annually' : 'monthly'}
+              {webEntitlement.currentPeriodEnd && (webEntitlement.cancelAtPeriodEnd
+                ? ` · Ends ${formatDate(webEntitlement.currentPeriodEnd)}`
+                : ` · Renews ${formatDate(webEntitlement.currentPeriodEnd)}`)}
+            </p>
+
+            {webEntitlement.status === 'past_due' && (
+              <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-3 mb-6">
+                Your last payment didn&apos;t go through. Update your payment method to keep Premium.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => runAction(() => accountApi.openPortal())}
+                disabled={isWorking}
+                className="px-6 py-2 bg-gradient-to-r from-[#E8638B] to-[#D53F8C] text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                Payment Method &amp; Invoices
+              </button>
+              {!webEntitlement.cancelAtPeriodEnd && (
+                <button
+                  onClick={() => runAction(() => accountApi.changeBillingCycle(
+                    webEntitlement.billingCycle === 'annual' ? 'monthly' : 'annual'
+                  ))}
+                  disabled={isWorking}
+                  className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  Switch to {webEntitlement.billingCycle === 'annual' ? 'Monthly' : 'Annual'}
+                </button>
+              )}
+              {webEntitlement.cancelAtPeriodEnd ? (
+                <button
+                  onClick={() => runAction(() => accountApi.resume())}
+                  disabled={isWorking}
+                  className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  Keep Premium
+                </button>
+              ) : (
+                <button
+                  onClick={handleCancel}
+                  disabled={isWorking}
+                  className="px-6 py-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+            {!webEntitlement.cancelAtPeriodEnd && (
+              <p className="text-xs text-gray-500 mt-4">
+                Switching takes effect now. Unused time on your current plan is credited toward the new one.
+              </p>
+            )}
+          </div>
+        ) : plan ? (
+          <div className="grid sm:grid-cols-2 gap-6">
+            {(['monthly', 'annual'] as BillingCycle[]).map((cycle) => (
+              <div key={cycle} className="bg-white rounded-2xl shadow-lg border border-gray-100 p-8 flex flex-col">
+                <h2 className="text-lg font-semibold text-gray-900">{cycle === 'annual' ? 'Annual' : 'Monthly'}</h2>
+                <p className="text-3xl font-bold text-gray-900 mt-2">
+                  ${(cycle === 'annual' ? plan.annualPrice : plan.monthlyPrice).toFixed(2)}
+                  <span className="text-base font-normal text-gray-500">/{cycle === 'annual' ? 'year' : 'month'}</span>
+                </p>
+                {cycle === 'annual' && plan.monthlyPrice > 0 && (
+                  <p className="text-sm text-[#E8638B] mt-1">
+                    Save {Math.round((1 - plan.annualPrice / (plan.monthlyPrice * 12)) * 100)}%
+                  </p>
+                )}
+                <button
+                  onClick={() => runAction(() => accountApi.createCheckout(cycle))}
+                  disabled={isWorking}
+                  className="mt-6 px-6 py-2 bg-gradient-to-r from-[#E8638B] to-[#D53F8C] text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {isWorking ? 'Loading...' : 'Subscribe'}
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// Force dynamic rendering to avoid build-time API fetching
+export const dynamic = 'force-dynamic';
+
+import { Metadata } from 'next';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { api, SharedSavedSearch } from '@/lib/api';
+import { describeSavedSearchFilters, isValidLinkId } from '@/lib/deepLinks';
+
+async function getSavedSearch(id: string): Promise<SharedSavedSearch | null> {
+  if (!isValidLinkId(id)) return null;
+  try {
+    return await api.getSharedSavedSearch(id);
+  } catch (error) {
+    console.error('Failed to fetch saved search:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  const savedSearch = await getSavedSearch(id);
+  return {
+    title: `${savedSearch?.name || 'Saved Search'} | Kids Activity Tracker`,
+    description: savedSearch ? describeSavedSearchFilters(savedSearch.filters).join(' • ') : undefined,
+  };
+}
+
+export default async function SavedSearchLinkPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const savedSearch = await getSavedSearch(id);
+
+  if (!savedSearch) {
+    return <AppLinkFallback label="Shared Saved Search" title="Saved Search" error="Saved search not found" />;
+  }
+
+  const filters = describeSavedSearchFilters(savedSearch.filters);
+
+  return (
+    <AppLinkFallback
+      label="Shared Saved Search"
+      title={savedSearch.name}
+      appPath={`saved-search/${encodeURIComponent(savedSearch.id)}`}
+    >
+      {filters.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {filters.map(filter => (
+            <span key={filter} className="inline-block bg-pink-100 text-[#D53F8C] px-3 py-1 rounded-full text-sm font-medium">
+              {filter}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-600">Open this search in the app to see matching activities.</p>
+      )}
+    </AppLinkFallback>
+  );
+}
@@ -0,0 +1,44 @@
+import { Metadata } from 'next';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { describeSearchLink, toQueryString } from '@/lib/deepLinks';
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function getTitle(searchParams: SearchParams): string {
+  const title = searchParams.title;
+  return (Array.isArray(title) ? title[0] : title) || 'Activity Search';
+}
+
+export async function generateMetadata({ searchParams }: { searchParams: Promise<SearchParams> }): Promise<Metadata> {
+  const params = await searchParams;
+  const title = getTitle(params);
+  return {
+    title: `${title} | Kids Activity Tracker`,
+    description: describeSearchLink(params).join(' • ') || 'Browse kids activities in the Kids Activity Tracker app.',
+  };
+}
+
+export default async function SearchLinkPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  const filters = describeSearchLink(params);
+
+  return (
+    <AppLinkFallback
+      label="Shared Search"
+      title={getTitle(params)}
+      appPath={`search${toQueryString(params)}`}
+    >
+      {filters.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {filters.map(filter => (
+            <span key={filter} className="inline-block bg-pink-100 text-[#D53F8C] px-3 py-1 rounded-full text-sm font-medium">
+              {filter}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-600">Open this search in the app to see matching activities.</p>
+      )}
+    </AppLinkFallback>
+  );
+}
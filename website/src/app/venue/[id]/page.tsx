@@ -0,0 +1,73 @@
+// Force dynamic rendering to avoid build-time API fetching
+export const dynamic = 'force-dynamic';
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import AppLinkFallback from '@/components/AppLinkFallback';
+import { api, VenueResponse } from '@/lib/api';
+import { isValidLinkId } from '@/lib/deepLinks';
+
+async function getVenue(id: string): Promise<VenueResponse | null> {
+  if (!isValidLinkId(id)) return null;
+  try {
+    return await api.getVenue(id);
+  } catch (error) {
+    console.error('Failed to fetch venue:', error);
+    return null;
+  }
+}
+
+// Format price
+function formatPrice(cost?: number | null): string {
+  if (cost === undefined || cost === null) return 'Price varies';
+  if (cost === 0) return 'Free';
+  return `$${cost.toFixed(2)}`;
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  const data = await getVenue(id);
+  return {
+    title: `${data?.venue.name || 'Venue'} | Kids Activity Tracker`,
+    description: data ? `${data.total} kids activities at ${data.venue.name}.` : undefined,
+  };
+}
+
+export default async function VenueLinkPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const data = await getVenue(id);
+
+  if (!data) {
+    return (
+      <AppLinkFallback
+        label="Shared Venue"
+        title="Venue"
+        error={isValidLinkId(id) ? 'Venue not found' : 'Invalid venue link'}
+      />
+    );
+  }
+
+  const { venue, activities, total } = data;
+  const city = venue.cityRecord?.name || venue.city;
+
+  return (
+    <AppLinkFallback
+      label="Shared Venue"
+      title={venue.name}
+      subtitle={[venue.address, city].filter(Boolean).join(', ')}
+      appPath={`venue/${encodeURIComponent(venue.id)}`}
+    >
+      <p className="text-sm text-gray-500 mb-2">{total} upcoming activities</p>
+      <ul className="divide-y divide-gray-100">
+        {activities.map(activity => (
+          <li key={activity.id}>
+            <Link href={`/activity/${activity.id}`} className="flex justify-between gap-4 py-3 hover:text-[#FF385C]">
+              <span className="font-semibold text-gray-900">{activity.name}</span>
+              <span className="text-sm text-gray-500 whitespace-nowrap">{formatPrice(activity.cost)}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </AppLinkFallback>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import Link from 'next/link';
+import { APP_DEEP_LINK_SCHEME } from '@/lib/deepLinks';
+
+const appStoreUrl = 'https://apps.apple.com/app/kids-activity-tracker/id6478181275';
+const playStoreUrl = 'https://play.google.com/store/apps/details?id=com.kidsactivitytracker.app';
+
+interface AppLinkFallbackProps {
+  // Small text above the title, e.g. "Shared Search"
+  label: string;
+  title: string;
+  subtitle?: string;
+  // App path without the scheme, e.g. "city/Vancouver". Omit to hide the button.
+  appPath?: string;
+  // Shown instead of the card when the link can't be opened
+  error?: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * Card shown when a shared link is opened without the app installed
+ */
+export default function AppLinkFallback({ label, title, subtitle, appPath, error, children }: AppLinkFallbackProps) {
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-[#FFF5F8] to-[#FFE5EC] flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Oops!</h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <p className="text-gray-500 text-sm mb-6">This link may have expired or is no longer available.</p>
+          <Link
+            href="/"
+            className="inline-block bg-[#FF385C] text-white px-6 py-3 rounded-full font-semibold hover:bg-[#E31C5F] transition"
+          >
+            Go to Homepage
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FFF5F8] to-[#FFE5EC] py-8 px-4">
+      <div className="max-w-lg mx-auto">
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          {/* Banner */}
+          <div className="bg-gradient-to-r from-[#FF385C] to-[#E31C5F] py-6 px-8 text-white">
+            <p className="text-sm opacity-80 mb-1">{label}</p>
+            <h1 className="text-xl font-semibold">{title}</h1>
+            {subtitle && <p className="text-sm opacity-90 mt-1">{subtitle}</p>}
+          </div>
+
+          <div className="p-6">
+            {children && <div className="mb-6">{children}</div>}
+
+            {/* CTA - Open in App */}
+            {appPath && (
+              <a
+                href={`${APP_DEEP_LINK_SCHEME}${appPath}`}
+                className="block w-full bg-[#FF385C] text-white text-center py-4 rounded-xl font-semibold text-lg hover:bg-[#E31C5F] transition mb-4"
+              >
+                View in App
+              </a>
+            )}
+
+            {/* Download Links */}
+            <p className="text-center text-gray-500 mb-4">Don&apos;t have the app yet?</p>
+            <div className="flex gap-4">
+              <a
+                href={appStoreUrl}
+                className="flex-1 flex items-center justify-center bg-black text-white py-3 px-4 rounded-xl hover:bg-gray-800 transition"
+              >
+                <svg className="w-6 h-6 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M18.71 19.5c-.83 1.24-1.71 2.45-3.05 2.47-1.34.03-1.77-.79-3.29-.79-1.53 0-2 .77-3.27.82-1.31.05-2.3-1.32-3.14-2.53C4.25 17 2.94 12.45 4.7 9.39c.87-1.52 2.43-2.48 4.12-2.51 1.28-.02 2.5.87 3.29.87.78 0 2.26-1.07 3.81-.91.65.03 2.47.26 3.64 1.98-.09.06-2.17 1.28-2.15 3.81.03 3.02 2.65 4.03 2.68 4.04-.03.07-.42 1.44-1.38 2.83M13 3.5c.73-.83 1.94-1.46 2.94-1.5.13 1.17-.34 2.35-1.04 3.19-.69.85-1.83 1.51-2.95 1.42-.15-1.15.41-2.35 1.05-3.11z"/>
+                </svg>
+                App Store
+              </a>
+              <a
+                href={playStoreUrl}
+                className="flex-1 flex items-center justify-center bg-black text-white py-3 px-4 rounded-xl hover:bg-gray-800 transition"
+              >
+                <svg className="w-6 h-6 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3,20.5V3.5C3,2.91 3.34,2.39 3.84,2.15L13.69,12L3.84,21.85C3.34,21.6 3,21.09 3,20.5M16.81,15.12L6.05,21.34L14.54,12.85L16.81,15.12M20.16,10.81C20.5,11.08 20.75,11.5 20.75,12C20.75,12.5 20.53,12.9 20.18,13.18L17.89,14.5L15.39,12L17.89,9.5L20.16,10.81M6.05,2.66L16.81,8.88L14.54,11.15L6.05,2.66Z"/>
+                </svg>
+                Google Play
+              </a>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="text-center mt-8 text-gray-500 text-sm">
+          <p>Kids Activity Tracker helps families discover and coordinate children&apos;s activities.</p>
+          <div className="mt-2">
+            <Link href="/privacy" className="hover:text-[#FF385C]">Privacy Policy</Link>
+            <span className="mx-2">&bull;</span>
+            <Link href="/" className="hover:text-[#FF385C]">Learn More</Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
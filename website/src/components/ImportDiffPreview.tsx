@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { ImportDiff, ImportDiffEntry, ImportFieldChange } from '@/lib/vendorApi';
+
+interface ImportDiffPreviewProps {
+  diff: ImportDiff;
+}
+
+type Filter = 'all' | ImportDiffEntry['action'];
+
+const actionStyles: Record<ImportDiffEntry['action'], { label: string; badge: string; card: string }> = {
+  created: { label: 'New', badge: 'bg-blue-100 text-blue-800', card: 'bg-blue-50 text-blue-700' },
+  updated: { label: 'Updated', badge: 'bg-pink-100 text-[#C53078]', card: 'bg-pink-50 text-[#C53078]' },
+  unchanged: { label: 'Unchanged', badge: 'bg-gray-100 text-gray-600', card: 'bg-gray-50 text-gray-700' },
+  deactivated: { label: 'Will Deactivate', badge: 'bg-red-100 text-red-800', card: 'bg-red-50 text-red-700' },
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Active' : 'Inactive';
+  return String(value);
+};
+
+function ChangeList({ changes, locked }: { changes: ImportFieldChange[]; locked?: boolean }) {
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => (
+        <li key={change.field} className="text-sm flex flex-wrap items-center gap-2">
+          <span className="font-medium text-gray-700 min-w-[120px]">{change.field}</span>
+          <span className={`line-through ${locked ? 'text-gray-400' : 'text-red-500'}`}>{formatValue(change.before)}</span>
+          <span className="text-gray-400">→</span>
+          <span className={locked ? 'text-gray-400' : 'text-green-700'}>{formatValue(change.after)}</span>
+          {locked && (
+            <span className="text-xs bg-yellow-100 text-yellow-800 px-1.5 py-0.5 rounded">Locked — kept as is</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ImportDiffPreview({ diff }: ImportDiffPreviewProps) {
+  const [filter, setFilter] = useState<Filter>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const entries = diff.entries.filter(entry => filter === 'all' || entry.action === filter);
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {(['created', 'updated', 'unchanged', 'deactivated'] as const).map((action) => (
+          <button
+            key={action}
+            onClick={() => setFilter(filter === action ? 'all' : action)}
+            className={`p-4 rounded-lg text-left ${actionStyles[action].card} ${
+              filter === action ? 'ring-2 ring-[#E8638B]' : ''
+            }`}
+          >
+            <p className="text-sm">{actionStyles[action].label}</p>
+            <p className="text-2xl font-bold">{diff.summary[action]}</p>
+          </button>
+        ))}
+      </div>
+
+      {diff.summary.locked > 0 && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-3 mb-4">
+          {diff.summary.locked} {diff.summary.locked === 1 ? 'activity has' : 'activities have'} fields edited by
+          our team. Those fields won&apos;t be overwritten by this import.
+        </p>
+      )}
+
+      {!diff.deactivateMissing && (
+        <p className="text-sm text-gray-500 mb-4">
+          Activities that aren&apos;t in this file will stay listed.
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No activities</div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-[480px] overflow-y-auto">
+          {entries.map((entry) => {
+            const key = `${entry.externalId}-${entry.rowNumber ?? 'missing'}`;
+            const hasDetails = entry.changes.length > 0 || entry.lockedChanges.length > 0;
+            const isExpanded = expanded === key;
+
+            return (
+              <div key={key} className="p-3">
+                <button
+                  onClick={() => hasDetails && setExpanded(isExpanded ? null : key)}
+                  className={`w-full flex items-center gap-3 text-left ${hasDetails ? '' : 'cursor-default'}`}
+                >
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${actionStyles[entry.action].badge}`}>
+                    {actionStyles[entry.action].label}
+                  </span>
+                  <span className="flex-1 text-sm text-gray-900 truncate">{entry.name}</span>
+                  <span className="text-xs text-gray-400">
+                    {entry.rowNumber ? `Row ${entry.rowNumber}` : 'Not in file'}
+                  </span>
+                  {entry.action === 'updated' && (
+                    <span className="text-xs text-gray-500">
+                      {entry.changes.length} {entry.changes.length === 1 ? 'field' : 'fields'}
+                    </span>
+                  )}
+                </button>
+                {isExpanded && (
+                  <div className="mt-3 pl-3 border-l-2 border-pink-200 space-y-2">
+                    {entry.changes.length > 0 && <ChangeList changes={entry.changes} />}
+                    {entry.lockedChanges.length > 0 && <ChangeList changes={entry.lockedChanges} locked />}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -68,6 +68,15 @@ export default function PartnerNav({ vendorName, isSubscribed = false, onLogout
       ),
       sponsorOnly: true,
     },
+    {
+      href: '/vendor/dashboard/webhooks',
+      label: 'Webhooks',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+      ),
+    },
     {
       href: '/vendor/dashboard/plans',
       label: 'Plans & Billing',
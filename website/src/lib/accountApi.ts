@@ -0,0 +1,148 @@
+/**
+ * Premium Billing API Client
+ * Parents open the website from the app with a short-lived billing link
+ * token; there is no consumer login on the website.
+ */
+
+import { API_URL } from './constants';
+
+// Types
+export type BillingCycle = 'monthly' | 'annual';
+
+export interface PremiumPlan {
+  code: string;
+  name: string;
+  description: string | null;
+  monthlyPrice: number;
+  annualPrice: number;
+}
+
+export interface PremiumEntitlement {
+  provider: 'revenuecat' | 'stripe';
+  planCode: string;
+  status: 'active' | 'trialing' | 'past_due' | 'cancelled' | 'expired' | 'refunded';
+  billingCycle: BillingCycle | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  refundedAt: string | null;
+}
+
+export interface CurrentPremium {
+  subscription: {
+    status: string;
+    billingCycle: BillingCycle | null;
+    currentPeriodEnd: string | null;
+    externalProvider: 'revenuecat' | 'stripe' | null;
+  } | null;
+  plan: PremiumPlan;
+  isTrialing: boolean;
+  trialDaysRemaining: number | null;
+  entitlements: PremiumEntitlement[];
+}
+
+const TOKEN_KEY = 'billing_token';
+
+/**
+ * Keep the billing link token for this tab only
+ */
+export function setBillingToken(token: string): void {
+  sessionStorage.setItem(TOKEN_KEY, token);
+}
+
+export function getBillingToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return sessionStorage.getItem(TOKEN_KEY);
+}
+
+// API Client class
+class AccountApiClient {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = API_URL;
+  }
+
+  private async fetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
+    const token = getBillingToken();
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        ...options?.headers,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(response.status === 401
+        ? 'This link has expired. Open Premium from the app again.'
+        : data.error || data.message || 'Request failed');
+    }
+
+    return data;
+  }
+
+  /**
+   * Get available plans
+   */
+  async getPlans(): Promise<{ success: boolean; plans: PremiumPlan[] }> {
+    return this.fetch('/api/subscriptions/plans');
+  }
+
+  /**
+   * Get the parent's current plan and purchases
+   */
+  async getCurrent(): Promise<{ success: boolean } & CurrentPremium> {
+    return this.fetch('/api/subscriptions/current');
+  }
+
+  /**
+   * Start Stripe Checkout
+   */
+  async createCheckout(billingCycle: BillingCycle): Promise<{ success: boolean; url: string }> {
+    return this.fetch('/api/subscriptions/stripe/checkout', {
+      method: 'POST',
+      body: JSON.stringify({ billingCycle }),
+    });
+  }
+
+  /**
+   * Open the Stripe Customer Portal
+   */
+  async openPortal(): Promise<{ success: boolean; url: string }> {
+    return this.fetch('/api/subscriptions/stripe/portal', { method: 'POST' });
+  }
+
+  /**
+   * Switch between monthly and annual billing
+   */
+  async changeBillingCycle(billingCycle: BillingCycle): Promise<{
+    success: boolean;
+    message: string;
+    prorationAmount: number | null;
+  }> {
+    return this.fetch('/api/subscriptions/stripe/billing-cycle', {
+      method: 'POST',
+      body: JSON.stringify({ billingCycle }),
+    });
+  }
+
+  /**
+   * Cancel at the end of the current period
+   */
+  async cancel(): Promise<{ success: boolean; message: string }> {
+    return this.fetch('/api/subscriptions/cancel', { method: 'POST' });
+  }
+
+  /**
+   * Undo a scheduled cancellation
+   */
+  async resume(): Promise<{ success: boolean; message: string }> {
+    return this.fetch('/api/subscriptions/stripe/resume', { method: 'POST' });
+  }
+}
+
+export const accountApi = new AccountApiClient();
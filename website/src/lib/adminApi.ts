@@ -315,6 +315,66 @@ export async function updateAIBudget(dailyLimitUsd: number): Promise<{ success:
   });
 }
 
+// ==================== Recommendation Ranking ====================
+
+export interface RankingVersionReport {
+  version: string;
+  requests: number;
+  impressions: number;
+  detailOpenRate: number;
+  favoriteRate: number;
+  waitlistRate: number;
+  registrationRate: number;
+  dismissRate: number;
+  engagementRate: number;
+  avgEngagedRank: number | null;
+}
+
+export interface RankingModel {
+  id: string;
+  version: string;
+  mode: string;
+  weights: Record<string, number>;
+  metrics: { ndcg: number; baselineNdcg: number; lists: number; pairs: number };
+  sampleCount: number;
+  status: 'candidate' | 'active' | 'retired';
+  trafficPercent: number;
+  trainedAt: string;
+  activatedAt: string | null;
+}
+
+export interface RankingReport {
+  startDate: string;
+  endDate: string;
+  versions: RankingVersionReport[];
+  models: RankingModel[];
+}
+
+export async function getRankingReport(days?: number): Promise<RankingReport> {
+  const params = days ? `?days=${days}` : '';
+  const response = await fetchWithAuth(`/api/admin/monitoring/ai/ranking${params}`);
+  return response.ranking;
+}
+
+export async function trainRankingModel(): Promise<RankingModel> {
+  const response = await fetchWithAuth('/api/admin/monitoring/ai/ranking/train', {
+    method: 'POST',
+    body: JSON.stringify({ mode: 'recommendations' }),
+  });
+  return response.model;
+}
+
+export async function updateRankingModel(
+  version: string,
+  update: { status?: RankingModel['status']; trafficPercent?: number }
+): Promise<RankingModel> {
+  const response = await fetchWithAuth(`/api/admin/monitoring/ai/ranking/models/${encodeURIComponent(version)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+  return response.model;
+}
+
 // ==================== Notifications ====================
 
 export interface AdminNotification {
@@ -47,6 +47,52 @@ export interface VendorRegistrationPayload {
   contactName?: string;
 }
 
+// Shared link pages (city, venue, activity type, saved search)
+export interface Venue {
+  id: string;
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  province?: string | null;
+  activityCount?: number;
+}
+
+export interface CityVenuesResponse {
+  city: string;
+  locations: Venue[];
+  totalVenues: number;
+  totalActivities: number;
+}
+
+export interface VenueActivity {
+  id: string;
+  name: string;
+  cost?: number | null;
+  ageMin?: number | null;
+  ageMax?: number | null;
+  dateStart?: string | null;
+}
+
+export interface VenueResponse {
+  venue: Venue & { cityRecord?: { name: string; province: string } | null };
+  activities: VenueActivity[];
+  total: number;
+}
+
+export interface ActivityTypeDetail {
+  code: string;
+  name: string;
+  description?: string | null;
+  totalActivityCount: number;
+  subtypes: Array<{ code: string; name: string; activityCount: number }>;
+}
+
+export interface SharedSavedSearch {
+  id: string;
+  name: string;
+  filters: Record<string, unknown>;
+}
+
 // Helper to create slug from city name
 function createSlug(name: string): string {
   return name
@@ -104,6 +150,41 @@ class ApiClient {
     };
   }
 
+  async getCityVenues(city: string): Promise<CityVenuesResponse> {
+    const response = await this.fetch<{ success: boolean; data: CityVenuesResponse }>(
+      `/api/v1/cities/${encodeURIComponent(city)}/locations`
+    );
+    return response.data;
+  }
+
+  async getVenue(venueId: string): Promise<VenueResponse> {
+    const response = await this.fetch<{
+      success: boolean;
+      venue: VenueResponse['venue'];
+      activities: VenueActivity[];
+      pagination: { total: number };
+    }>(`/api/v1/locations/${encodeURIComponent(venueId)}/activities?limit=5&hideClosedActivities=true`);
+    return {
+      venue: response.venue,
+      activities: response.activities,
+      total: response.pagination?.total ?? response.activities.length,
+    };
+  }
+
+  async getActivityType(typeCode: string): Promise<ActivityTypeDetail> {
+    const response = await this.fetch<{ success: boolean; activityType: ActivityTypeDetail }>(
+      `/api/v1/activity-types/${encodeURIComponent(typeCode)}`
+    );
+    return response.activityType;
+  }
+
+  async getSharedSavedSearch(id: string): Promise<SharedSavedSearch> {
+    const response = await this.fetch<{ success: boolean; savedSearch: SharedSavedSearch }>(
+      `/api/v1/saved-searches/${encodeURIComponent(id)}/shared`
+    );
+    return response.savedSearch;
+  }
+
   async requestCity(data: CityRequestPayload): Promise<{ success: boolean; message: string }> {
     return this.fetch('/api/v1/cities/request', {
       method: 'POST',
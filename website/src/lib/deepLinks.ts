@@ -0,0 +1,130 @@
+// Shared link helpers for the app link fallback pages. Paths must match the
+// app's linking config and the apple-app-site-association file.
+
+export const APP_DEEP_LINK_SCHEME = 'kidsactivitytracker://';
+
+const ID_REGEX = /^[a-zA-Z0-9_-]+$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const RANGE_REGEX = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Validate ID format for security
+export function isValidLinkId(id: string): boolean {
+  return ID_REGEX.test(id) && id.length > 0 && id.length <= 128;
+}
+
+// Route params may arrive still percent-encoded
+export function decodeLinkParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// A real yyyy-MM-dd day
+export function isValidLinkDate(date: string): boolean {
+  if (!DATE_REGEX.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+export function formatLinkDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function humanize(code: string): string {
+  return code
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function formatRange(value: string | undefined, unit: 'age' | 'price'): string | null {
+  const match = RANGE_REGEX.exec(value || '');
+  if (!match) return null;
+  return unit === 'age' ? `Ages ${match[1]}-${match[2]}` : `$${match[1]}-$${match[2]}`;
+}
+
+// Rebuild the query string of a /search link for the app deep link
+export function toQueryString(searchParams: SearchParams): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    const single = first(value);
+    if (single) query.set(key, single);
+  }
+  const result = query.toString();
+  return result ? `?${result}` : '';
+}
+
+// Describe the filters of a /search link in words, one line per filter
+export function describeSearchLink(searchParams: SearchParams): string[] {
+  const lines: string[] = [];
+
+  const activityType = first(searchParams.activityType);
+  const subtype = first(searchParams.subtype);
+  if (subtype) lines.push(humanize(subtype));
+  else if (activityType) lines.push(humanize(activityType));
+
+  const types = first(searchParams.types);
+  if (types) lines.push(types.split(',').map(humanize).join(', '));
+
+  const ageMin = first(searchParams.ageMin);
+  const ageMax = first(searchParams.ageMax);
+  const age = formatRange(first(searchParams.age), 'age') ||
+    (ageMin && ageMax ? formatRange(`${ageMin}-${ageMax}`, 'age') : null);
+  if (age) lines.push(age);
+
+  const price = formatRange(first(searchParams.price), 'price');
+  if (price) lines.push(price);
+
+  const days = first(searchParams.days);
+  if (days) lines.push(days.split(',').map(day => day.substring(0, 3)).join(', '));
+
+  const time = first(searchParams.time);
+  if (time) lines.push(time.split(',').map(humanize).join(', '));
+
+  const env = first(searchParams.env);
+  if (env === 'indoor' || env === 'outdoor') lines.push(humanize(env));
+
+  return lines;
+}
+
+// Describe the filters of a saved search in words, one line per filter
+export function describeSavedSearchFilters(filters: Record<string, unknown>): string[] {
+  const lines: string[] = [];
+
+  if (typeof filters.search === 'string' && filters.search) lines.push(`"${filters.search}"`);
+
+  const types = Array.isArray(filters.activityTypes) ? filters.activityTypes : [];
+  if (types.length > 0) lines.push(types.map(type => humanize(String(type))).join(', '));
+  else if (typeof filters.activityType === 'string') lines.push(humanize(filters.activityType));
+
+  if (typeof filters.ageMin === 'number' && typeof filters.ageMax === 'number') {
+    lines.push(`Ages ${filters.ageMin}-${filters.ageMax}`);
+  }
+
+  const costMax = filters.costMax ?? filters.maxCost;
+  if (typeof costMax === 'number') lines.push(costMax === 0 ? 'Free' : `Up to $${costMax}`);
+
+  if (Array.isArray(filters.daysOfWeek) && filters.daysOfWeek.length > 0) {
+    lines.push(filters.daysOfWeek.map(day => String(day).substring(0, 3)).join(', '));
+  }
+
+  if (typeof filters.location === 'string' && filters.location) lines.push(filters.location);
+
+  return lines;
+}
@@ -38,6 +38,10 @@ async function fetchWithAuth(endpoint: string, options: FetchOptions = {}) {
       throw new Error('Session expired. Please log in again.');
     }
     const error = await response.json().catch(() => ({ message: 'Request failed' }));
+    // Owners must turn on 2FA before using the portal
+    if (response.status === 403 && error.error === 'TWO_FACTOR_SETUP_REQUIRED' && typeof window !== 'undefined') {
+      window.location.href = '/vendor/two-factor';
+    }
     throw new Error(error.message || error.error || 'Request failed');
   }
 
@@ -83,6 +87,45 @@ export async function register(data: {
   return response.json();
 }
 
+export async function verifyLoginCode(challengeToken: string, code: string) {
+  const response = await fetch(`${API_BASE}/api/vendor/auth/login/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ challengeToken, code }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Verification failed' }));
+    throw new Error(error.message || error.error || 'Verification failed');
+  }
+
+  return response.json();
+}
+
+// ==================== Two-Factor Authentication ====================
+
+export async function getTwoFactorStatus() {
+  return fetchWithAuth('/api/vendor/auth/2fa');
+}
+
+export async function beginTwoFactorSetup() {
+  return fetchWithAuth('/api/vendor/auth/2fa/setup', { method: 'POST' });
+}
+
+export async function enableTwoFactor(code: string) {
+  return fetchWithAuth('/api/vendor/auth/2fa/enable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
+export async function regenerateRecoveryCodes(code: string) {
+  return fetchWithAuth('/api/vendor/auth/2fa/recovery-codes', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+}
+
 export async function getProfile() {
   return fetchWithAuth('/api/vendor/:vendorId/profile');
 }
@@ -248,12 +291,20 @@ export async function getImport(id: string): Promise<{ success: boolean } & Impo
   return fetchWithAuth(`/api/vendor/:vendorId/imports/${id}`);
 }
 
+export interface FieldMappingSuggestion {
+  suggestedColumn: string | null;
+  confidence: 'high' | 'medium' | 'low' | 'none';
+  alternatives: string[];
+  score?: number;
+}
+
 export async function previewFile(file: File): Promise<{
   success: boolean;
   fileType: string;
   stats: { totalRows: number; columns: number };
   headers: string[];
-  suggestedMappings: Record<string, string>;
+  suggestedMappings: Record<string, FieldMappingSuggestion>;
+  template: { id: string; name: string } | null;
 }> {
   const formData = new FormData();
   formData.append('file', file);
@@ -277,12 +328,22 @@ export async function previewFile(file: File): Promise<{
   return response.json();
 }
 
-export async function uploadFile(file: File, fieldMapping?: Record<string, string>): Promise<{ success: boolean; batch: ImportBatch }> {
+export async function uploadFile(
+  file: File,
+  fieldMapping?: Record<string, string>,
+  options?: { deactivateMissing?: boolean; templateId?: string }
+): Promise<{ success: boolean; batch: ImportBatch }> {
   const formData = new FormData();
   formData.append('file', file);
   if (fieldMapping) {
     formData.append('fieldMapping', JSON.stringify(fieldMapping));
   }
+  if (options?.deactivateMissing) {
+    formData.append('deactivateMissing', 'true');
+  }
+  if (options?.templateId) {
+    formData.append('templateId', options.templateId);
+  }
 
   const token = typeof window !== 'undefined' ? localStorage.getItem('vendor_token') : null;
   const vendorId = typeof window !== 'undefined' ? localStorage.getItem('vendor_id') : null;
@@ -336,3 +397,210 @@ export async function getImportRows(id: string, params?: {
   const query = searchParams.toString();
   return fetchWithAuth(`/api/vendor/:vendorId/imports/${id}/rows${query ? `?${query}` : ''}`);
 }
+
+export interface ImportFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportDiffEntry {
+  rowNumber: number | null;
+  externalId: string;
+  name: string;
+  action: 'created' | 'updated' | 'unchanged' | 'deactivated';
+  activityId: string | null;
+  changes: ImportFieldChange[];
+  lockedChanges: ImportFieldChange[];
+}
+
+export interface ImportDiff {
+  deactivateMissing: boolean;
+  summary: { created: number; updated: number; unchanged: number; deactivated: number; locked: number };
+  entries: ImportDiffEntry[];
+}
+
+export async function getImportDiff(id: string): Promise<{ success: boolean; diff: ImportDiff }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/imports/${id}/diff`);
+}
+
+// ==================== Import Templates ====================
+
+export interface ImportMappingTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  mappings: Record<string, string | null>; // activity field → column
+  sourceHeaders: string[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export async function getImportTemplates(): Promise<{ success: boolean; templates: ImportMappingTemplate[] }> {
+  return fetchWithAuth('/api/vendor/:vendorId/import-templates');
+}
+
+export async function createImportTemplate(data: {
+  name: string;
+  description?: string;
+  mappings: Record<string, string | null>;
+  sourceHeaders?: string[];
+  isDefault?: boolean;
+}): Promise<{ success: boolean; template: ImportMappingTemplate }> {
+  return fetchWithAuth('/api/vendor/:vendorId/import-templates', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateImportTemplate(
+  id: string,
+  data: Partial<{ name: string; description: string; mappings: Record<string, string | null>; isDefault: boolean }>
+): Promise<{ success: boolean; template: ImportMappingTemplate }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/import-templates/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteImportTemplate(id: string): Promise<{ success: boolean }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/import-templates/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+// ==================== Import Sources ====================
+
+export type ImportSourceFrequency = 'hourly' | 'daily' | 'weekly';
+
+export interface ImportSource {
+  id: string;
+  name: string;
+  url: string;
+  frequency: ImportSourceFrequency;
+  fieldMappingId: string | null;
+  deactivateMissing: boolean;
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastStatus: 'imported' | 'unchanged' | 'failed' | null;
+  lastError: string | null;
+  lastBatchId: string | null;
+  consecutiveFailures: number;
+  createdAt: string;
+}
+
+export interface ImportSourceRunResult {
+  status: 'imported' | 'unchanged' | 'failed';
+  batchId: string | null;
+  error?: string;
+}
+
+export async function getImportSources(): Promise<{ success: boolean; sources: ImportSource[] }> {
+  return fetchWithAuth('/api/vendor/:vendorId/import-sources');
+}
+
+export async function createImportSource(data: {
+  name: string;
+  url: string;
+  frequency?: ImportSourceFrequency;
+  fieldMappingId?: string | null;
+  deactivateMissing?: boolean;
+}): Promise<{ success: boolean; source: ImportSource }> {
+  return fetchWithAuth('/api/vendor/:vendorId/import-sources', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateImportSource(
+  id: string,
+  data: Partial<Pick<ImportSource, 'name' | 'url' | 'frequency' | 'fieldMappingId' | 'deactivateMissing' | 'isActive'>>
+): Promise<{ success: boolean; source: ImportSource }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/import-sources/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteImportSource(id: string): Promise<{ success: boolean }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/import-sources/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function runImportSource(id: string): Promise<{ success: boolean; result: ImportSourceRunResult }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/import-sources/${id}/run`, {
+    method: 'POST',
+  });
+}
+
+// ==================== Webhooks ====================
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: string[];
+  description: string | null;
+  isActive: boolean;
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: string;
+  payload: Record<string, any>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export async function getWebhooks(): Promise<{ success: boolean; endpoints: WebhookEndpoint[]; availableEvents: string[] }> {
+  return fetchWithAuth('/api/vendor/:vendorId/webhooks');
+}
+
+export async function createWebhook(data: { url: string; events?: string[]; description?: string }): Promise<{ success: boolean; endpoint: WebhookEndpoint }> {
+  return fetchWithAuth('/api/vendor/:vendorId/webhooks', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateWebhook(id: string, data: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'description' | 'isActive'>>): Promise<{ success: boolean; endpoint: WebhookEndpoint }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/webhooks/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function deleteWebhook(id: string): Promise<{ success: boolean; message: string }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/webhooks/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function rotateWebhookSecret(id: string): Promise<{ success: boolean; endpoint: WebhookEndpoint }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/webhooks/${id}/rotate-secret`, {
+    method: 'POST',
+  });
+}
+
+export async function getWebhookDeliveries(id: string): Promise<{ success: boolean; deliveries: WebhookDelivery[] }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/webhooks/${id}/deliveries`);
+}
+
+export async function sendTestWebhook(id: string): Promise<{ success: boolean; delivery: WebhookDelivery }> {
+  return fetchWithAuth(`/api/vendor/:vendorId/webhooks/${id}/test`, {
+    method: 'POST',
+  });
+}